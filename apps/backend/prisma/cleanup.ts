@@ -8,7 +8,7 @@ const prisma = new PrismaClient();
  */
 async function cleanup() {
   console.log('🧹 Starting math learning app data cleanup...');
-  console.log('⚠️  This will remove all lessons, problems, submissions, and user progress');
+  console.log('⚠️  This will remove all lessons, problems, attempts, and user progress');
   console.log('⚠️  User accounts will be preserved but XP/streak data will be reset');
   
   try {
@@ -20,9 +20,46 @@ async function cleanup() {
       const deletedProgress = await tx.userProgress.deleteMany({});
       console.log(`   ✅ Deleted ${deletedProgress.count} user progress records`);
 
-      console.log('🗑️  Deleting submissions...');
-      const deletedSubmissions = await tx.submission.deleteMany({});
-      console.log(`   ✅ Deleted ${deletedSubmissions.count} submissions`);
+      console.log('🗑️  Deleting attempts...');
+      const deletedAttempts = await tx.attempt.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedAttempts.count} attempts and their answers`);
+
+      console.log('🗑️  Deleting streak days...');
+      const deletedStreakDays = await tx.streakDay.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedStreakDays.count} streak days`);
+
+      console.log('🗑️  Deleting achievement unlocks...');
+      const deletedUnlocks = await tx.userAchievement.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedUnlocks.count} achievement unlocks`);
+
+      console.log('🗑️  Deleting achievements...');
+      const deletedAchievements = await tx.achievement.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedAchievements.count} achievements`);
+
+      console.log('🗑️  Deleting leaderboard cohorts...');
+      const deletedCohorts = await tx.leaderboardCohort.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedCohorts.count} leaderboard cohorts and their entries`);
+
+      console.log('🗑️  Deleting experiments...');
+      const deletedExperiments = await tx.experiment.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedExperiments.count} experiments with their exposures and outcomes`);
+
+      console.log('🗑️  Deleting classrooms...');
+      const deletedClassrooms = await tx.classroom.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedClassrooms.count} classrooms with their members and assignments`);
+
+      console.log('🗑️  Deleting review answers...');
+      const deletedReviewAnswers = await tx.reviewAnswer.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedReviewAnswers.count} review answers`);
+
+      console.log('🗑️  Deleting review items...');
+      const deletedReviewItems = await tx.reviewItem.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedReviewItems.count} review items`);
+
+      console.log('🗑️  Deleting content revisions...');
+      const deletedProblemRevisions = await tx.problemRevision.deleteMany({});
+      const deletedLessonRevisions = await tx.lessonRevision.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedLessonRevisions.count} lesson and ${deletedProblemRevisions.count} problem revisions`);
 
       console.log('🗑️  Deleting problem options...');
       const deletedOptions = await tx.problemOption.deleteMany({});
@@ -32,10 +69,26 @@ async function cleanup() {
       const deletedProblems = await tx.problem.deleteMany({});
       console.log(`   ✅ Deleted ${deletedProblems.count} problems`);
 
+      console.log('🗑️  Deleting skill mastery...');
+      const deletedMastery = await tx.skillMastery.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedMastery.count} skill mastery records`);
+
+      console.log('🗑️  Deleting lesson prerequisites...');
+      const deletedPrerequisites = await tx.lessonPrerequisite.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedPrerequisites.count} lesson prerequisites`);
+
+      console.log('🗑️  Deleting lesson skills...');
+      const deletedLessonSkills = await tx.lessonSkill.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedLessonSkills.count} lesson skills`);
+
       console.log('🗑️  Deleting lessons...');
       const deletedLessons = await tx.lesson.deleteMany({});
       console.log(`   ✅ Deleted ${deletedLessons.count} lessons`);
 
+      console.log('🗑️  Deleting skills...');
+      const deletedSkills = await tx.skill.deleteMany({});
+      console.log(`   ✅ Deleted ${deletedSkills.count} skills`);
+
       console.log('🔄 Resetting user XP and streak data...');
       const updatedUsers = await tx.user.updateMany({
         where: {},
@@ -44,6 +97,8 @@ async function cleanup() {
           currentStreak: 0,
           bestStreak: 0,
           lastActivityDate: null,
+          streakFreezes: 0,
+          league: 'bronze',
         },
       });
       console.log(`   ✅ Reset XP/streak data for ${updatedUsers.count} users`);
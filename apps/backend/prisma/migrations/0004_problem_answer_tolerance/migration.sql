@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "problems" ADD COLUMN "tolerance" DOUBLE PRECISION;
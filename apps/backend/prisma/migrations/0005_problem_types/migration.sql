@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ProblemType" AS ENUM ('multiple_choice', 'input', 'true_false', 'multi_select', 'ordering', 'fill_in_blanks', 'number_line');
+
+-- AlterTable
+ALTER TABLE "problems" ALTER COLUMN "problemType" TYPE "ProblemType" USING ("problemType"::"ProblemType");
+ALTER TABLE "problems" ADD COLUMN "config" JSONB;
+
+-- AlterTable
+ALTER TABLE "problem_options" ADD COLUMN "correctOrder" INTEGER;
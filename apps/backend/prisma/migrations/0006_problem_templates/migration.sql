@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "problems" ADD COLUMN "template" JSONB;
+
+-- CreateTable
+CREATE TABLE "problem_instances" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "values" JSONB NOT NULL,
+    "question" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "problem_instances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "problem_instances_userId_attemptId_problemId_key" ON "problem_instances"("userId", "attemptId", "problemId");
+
+-- AddForeignKey
+ALTER TABLE "problem_instances" ADD CONSTRAINT "problem_instances_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "problem_instances" ADD CONSTRAINT "problem_instances_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
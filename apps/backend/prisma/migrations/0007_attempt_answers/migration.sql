@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "attempts" (
+    "id" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL DEFAULT 0,
+    "isCorrect" BOOLEAN NOT NULL,
+    "xpEarned" INTEGER NOT NULL DEFAULT 0,
+    "timeSpent" INTEGER,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attempt_answers" (
+    "id" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "userAnswer" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "xpEarned" INTEGER NOT NULL DEFAULT 0,
+    "timeSpent" INTEGER,
+    "hintsUsed" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attempt_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attempts_attemptId_key" ON "attempts"("attemptId");
+
+-- CreateIndex
+CREATE INDEX "attempts_userId_lessonId_idx" ON "attempts"("userId", "lessonId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attempt_answers_attemptId_problemId_key" ON "attempt_answers"("attemptId", "problemId");
+
+-- CreateIndex
+CREATE INDEX "attempt_answers_problemId_idx" ON "attempt_answers"("problemId");
+
+-- AddForeignKey
+ALTER TABLE "attempts" ADD CONSTRAINT "attempts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempts" ADD CONSTRAINT "attempts_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_answers" ADD CONSTRAINT "attempt_answers_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_answers" ADD CONSTRAINT "attempt_answers_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: one attempt per submission row
+INSERT INTO "attempts" ("id", "attemptId", "userId", "lessonId", "isCorrect", "xpEarned", "timeSpent", "submittedAt", "createdAt", "updatedAt")
+SELECT "id", "attemptId", "userId", "lessonId", "isCorrect", "xpEarned", "timeSpent", "submittedAt", "createdAt", "updatedAt"
+FROM "submissions";
+
+-- MigrateData: split the JSON answer blobs ([{ problemId, answer, isCorrect, xpEarned }, ...])
+INSERT INTO "attempt_answers" ("id", "attemptId", "problemId", "userAnswer", "isCorrect", "xpEarned", "createdAt")
+SELECT
+    s."id" || '-' || answer.position,
+    s."id",
+    answer.value ->> 'problemId',
+    COALESCE(answer.value ->> 'answer', ''),
+    COALESCE((answer.value ->> 'isCorrect')::BOOLEAN, false),
+    CASE WHEN (answer.value ->> 'isCorrect')::BOOLEAN THEN COALESCE((answer.value ->> 'xpEarned')::INTEGER, 0) ELSE 0 END,
+    s."createdAt"
+FROM "submissions" s
+CROSS JOIN LATERAL jsonb_array_elements(s."userAnswer"::JSONB) WITH ORDINALITY AS answer(value, position)
+WHERE s."userAnswer" ~ '^\s*\['
+  AND EXISTS (SELECT 1 FROM "problems" p WHERE p."id" = answer.value ->> 'problemId')
+ON CONFLICT ("attemptId", "problemId") DO NOTHING;
+
+-- MigrateData: rows that stored a single plain answer
+INSERT INTO "attempt_answers" ("id", "attemptId", "problemId", "userAnswer", "isCorrect", "xpEarned", "timeSpent", "createdAt")
+SELECT s."id" || '-1', s."id", s."problemId", s."userAnswer", s."isCorrect", s."xpEarned", s."timeSpent", s."createdAt"
+FROM "submissions" s
+WHERE s."userAnswer" !~ '^\s*\['
+ON CONFLICT ("attemptId", "problemId") DO NOTHING;
+
+-- MigrateData: attempt scores from the split answers
+UPDATE "attempts" a
+SET "score" = totals.score
+FROM (
+    SELECT "attemptId", ROUND(100.0 * COUNT(*) FILTER (WHERE "isCorrect") / COUNT(*))::INTEGER AS score
+    FROM "attempt_answers"
+    GROUP BY "attemptId"
+) totals
+WHERE totals."attemptId" = a."id";
+
+-- DropTable
+DROP TABLE "submissions";
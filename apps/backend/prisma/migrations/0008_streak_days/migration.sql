@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "StreakDayStatus" AS ENUM ('active', 'frozen');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE "users" ADD COLUMN "streakFreezes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "streak_days" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" "StreakDayStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "streak_days_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "streak_days_userId_date_key" ON "streak_days"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "streak_days" ADD CONSTRAINT "streak_days_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: past attempts count as active days (existing users start out in UTC)
+INSERT INTO "streak_days" ("id", "userId", "date", "status")
+SELECT DISTINCT a."userId" || '-' || a."submittedAt"::DATE, a."userId", a."submittedAt"::DATE, 'active'::"StreakDayStatus"
+FROM "attempts" a
+ON CONFLICT ("userId", "date") DO NOTHING;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "League" AS ENUM ('bronze', 'silver', 'gold', 'platinum', 'diamond');
+
+-- CreateEnum
+CREATE TYPE "LeagueOutcome" AS ENUM ('promoted', 'stayed', 'demoted');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "league" "League" NOT NULL DEFAULT 'bronze';
+
+-- CreateTable
+CREATE TABLE "leaderboard_cohorts" (
+    "id" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "league" "League" NOT NULL,
+    "finalizedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leaderboard_cohorts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "leaderboard_entries" (
+    "id" TEXT NOT NULL,
+    "cohortId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "finalXp" INTEGER,
+    "finalRank" INTEGER,
+    "outcome" "LeagueOutcome",
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leaderboard_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leaderboard_cohorts_weekStart_league_idx" ON "leaderboard_cohorts"("weekStart", "league");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leaderboard_entries_userId_weekStart_key" ON "leaderboard_entries"("userId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "leaderboard_entries_cohortId_idx" ON "leaderboard_entries"("cohortId");
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_entries" ADD CONSTRAINT "leaderboard_entries_cohortId_fkey" FOREIGN KEY ("cohortId") REFERENCES "leaderboard_cohorts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leaderboard_entries" ADD CONSTRAINT "leaderboard_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "review_items" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "lapses" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "lastReviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_answers" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userAnswer" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "quality" INTEGER NOT NULL,
+    "xpEarned" INTEGER NOT NULL DEFAULT 0,
+    "reviewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_items_userId_problemId_key" ON "review_items"("userId", "problemId");
+
+-- CreateIndex
+CREATE INDEX "review_items_userId_dueAt_idx" ON "review_items"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_answers_userId_sessionId_problemId_key" ON "review_answers"("userId", "sessionId", "problemId");
+
+-- CreateIndex
+CREATE INDEX "review_answers_userId_reviewedAt_idx" ON "review_answers"("userId", "reviewedAt");
+
+-- AddForeignKey
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_answers" ADD CONSTRAINT "review_answers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_answers" ADD CONSTRAINT "review_answers_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN "difficulty" TEXT NOT NULL DEFAULT 'easy';
+
+-- CreateTable
+CREATE TABLE "skills" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "skills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lesson_skills" (
+    "lessonId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+
+    CONSTRAINT "lesson_skills_pkey" PRIMARY KEY ("lessonId","skillId")
+);
+
+-- CreateTable
+CREATE TABLE "lesson_prerequisites" (
+    "lessonId" TEXT NOT NULL,
+    "prerequisiteId" TEXT NOT NULL,
+
+    CONSTRAINT "lesson_prerequisites_pkey" PRIMARY KEY ("lessonId","prerequisiteId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "skills_name_key" ON "skills"("name");
+
+-- CreateIndex
+CREATE INDEX "lesson_skills_skillId_idx" ON "lesson_skills"("skillId");
+
+-- CreateIndex
+CREATE INDEX "lesson_prerequisites_prerequisiteId_idx" ON "lesson_prerequisites"("prerequisiteId");
+
+-- AddForeignKey
+ALTER TABLE "lesson_skills" ADD CONSTRAINT "lesson_skills_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_skills" ADD CONSTRAINT "lesson_skills_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "skills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_prerequisites" ADD CONSTRAINT "lesson_prerequisites_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lesson_prerequisites" ADD CONSTRAINT "lesson_prerequisites_prerequisiteId_fkey" FOREIGN KEY ("prerequisiteId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: keep the previous behaviour, where each lesson required the one before it
+-- and difficulty followed the lesson order
+INSERT INTO "lesson_prerequisites" ("lessonId", "prerequisiteId")
+SELECT "lesson"."id", "previous"."id"
+FROM "lessons" AS "lesson"
+JOIN "lessons" AS "previous" ON "previous"."order" = "lesson"."order" - 1;
+
+UPDATE "lessons" SET "difficulty" = CASE
+    WHEN "order" <= 2 THEN 'easy'
+    WHEN "order" <= 4 THEN 'medium'
+    ELSE 'hard'
+END;
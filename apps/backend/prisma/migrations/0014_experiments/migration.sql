@@ -0,0 +1,91 @@
+-- CreateEnum
+CREATE TYPE "ExperimentStatus" AS ENUM ('draft', 'running', 'stopped');
+
+-- CreateEnum
+CREATE TYPE "ExperimentEvent" AS ENUM ('started', 'completed');
+
+-- CreateTable
+CREATE TABLE "experiments" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "ExperimentStatus" NOT NULL DEFAULT 'draft',
+    "startedAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "experiments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "experiment_variants" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "strategy" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+
+    CONSTRAINT "experiment_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "experiment_exposures" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "variant" TEXT NOT NULL,
+    "exposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "experiment_exposures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "experiment_outcomes" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "variant" TEXT NOT NULL,
+    "event" "ExperimentEvent" NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "experiment_outcomes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "experiments_key_key" ON "experiments"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "experiment_variants_experimentId_name_key" ON "experiment_variants"("experimentId", "name");
+
+-- CreateIndex
+CREATE INDEX "experiment_exposures_userId_lessonId_idx" ON "experiment_exposures"("userId", "lessonId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "experiment_exposures_experimentId_userId_lessonId_key" ON "experiment_exposures"("experimentId", "userId", "lessonId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "experiment_outcomes_experimentId_userId_lessonId_event_key" ON "experiment_outcomes"("experimentId", "userId", "lessonId", "event");
+
+-- AddForeignKey
+ALTER TABLE "experiment_variants" ADD CONSTRAINT "experiment_variants_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_exposures" ADD CONSTRAINT "experiment_exposures_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_exposures" ADD CONSTRAINT "experiment_exposures_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_exposures" ADD CONSTRAINT "experiment_exposures_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_outcomes" ADD CONSTRAINT "experiment_outcomes_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_outcomes" ADD CONSTRAINT "experiment_outcomes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_outcomes" ADD CONSTRAINT "experiment_outcomes_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
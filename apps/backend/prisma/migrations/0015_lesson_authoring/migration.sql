@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "LessonStatus" AS ENUM ('draft', 'published');
+
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN "status" "LessonStatus" NOT NULL DEFAULT 'draft',
+ADD COLUMN "publishedAt" TIMESTAMP(3);
+
+-- Existing lessons were already visible to learners
+UPDATE "lessons" SET "status" = 'published', "publishedAt" = "createdAt";
@@ -0,0 +1,110 @@
+-- CreateTable
+CREATE TABLE "lesson_revisions" (
+    "id" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "xpReward" INTEGER NOT NULL,
+    "difficulty" TEXT NOT NULL,
+    "problemRevisionIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lesson_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "problem_revisions" (
+    "id" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "question" TEXT NOT NULL,
+    "problemType" "ProblemType" NOT NULL,
+    "correctAnswer" TEXT,
+    "tolerance" DOUBLE PRECISION,
+    "config" JSONB,
+    "template" JSONB,
+    "explanation" TEXT,
+    "difficulty" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "problem_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lesson_revisions_lessonId_revision_key" ON "lesson_revisions"("lessonId", "revision");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "problem_revisions_problemId_revision_key" ON "problem_revisions"("problemId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "lesson_revisions" ADD CONSTRAINT "lesson_revisions_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "problem_revisions" ADD CONSTRAINT "problem_revisions_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: the current content becomes revision 1. Earlier edits were not recorded,
+-- so submissions made before this migration point at the content as it is today.
+INSERT INTO "problem_revisions" ("id", "problemId", "revision", "question", "problemType", "correctAnswer", "tolerance", "config", "template", "explanation", "difficulty", "options")
+SELECT
+    'revision-' || p."id",
+    p."id",
+    1,
+    p."question",
+    p."problemType",
+    p."correctAnswer",
+    p."tolerance",
+    p."config",
+    p."template",
+    p."explanation",
+    p."difficulty",
+    COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object(
+                    'id', o."id",
+                    'optionText', o."optionText",
+                    'isCorrect', o."isCorrect",
+                    'order', o."order",
+                    'correctOrder', o."correctOrder"
+                ) ORDER BY o."order")
+         FROM "problem_options" o
+         WHERE o."problemId" = p."id"),
+        '[]'::JSONB
+    )
+FROM "problems" p;
+
+INSERT INTO "lesson_revisions" ("id", "lessonId", "revision", "title", "description", "xpReward", "difficulty", "problemRevisionIds")
+SELECT
+    'revision-' || l."id",
+    l."id",
+    1,
+    l."title",
+    l."description",
+    l."xpReward",
+    l."difficulty",
+    ARRAY(SELECT 'revision-' || p."id" FROM "problems" p WHERE p."lessonId" = l."id" ORDER BY p."order")
+FROM "lessons" l;
+
+-- AlterTable
+ALTER TABLE "attempts" ADD COLUMN "lessonRevisionId" TEXT;
+UPDATE "attempts" SET "lessonRevisionId" = 'revision-' || "lessonId";
+ALTER TABLE "attempts" ALTER COLUMN "lessonRevisionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "attempt_answers" ADD COLUMN "problemRevisionId" TEXT;
+UPDATE "attempt_answers" SET "problemRevisionId" = 'revision-' || "problemId";
+ALTER TABLE "attempt_answers" ALTER COLUMN "problemRevisionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "review_answers" ADD COLUMN "problemRevisionId" TEXT;
+UPDATE "review_answers" SET "problemRevisionId" = 'revision-' || "problemId";
+ALTER TABLE "review_answers" ALTER COLUMN "problemRevisionId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "attempts" ADD CONSTRAINT "attempts_lessonRevisionId_fkey" FOREIGN KEY ("lessonRevisionId") REFERENCES "lesson_revisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_answers" ADD CONSTRAINT "attempt_answers_problemRevisionId_fkey" FOREIGN KEY ("problemRevisionId") REFERENCES "problem_revisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_answers" ADD CONSTRAINT "review_answers_problemRevisionId_fkey" FOREIGN KEY ("problemRevisionId") REFERENCES "problem_revisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('learner', 'teacher', 'admin');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" "Role" NOT NULL DEFAULT 'learner';
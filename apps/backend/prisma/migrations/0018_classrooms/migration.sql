@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "classrooms" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "joinCode" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "classrooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "classroom_members" (
+    "id" TEXT NOT NULL,
+    "classroomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "classroom_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "classroom_assignments" (
+    "id" TEXT NOT NULL,
+    "classroomId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "classroom_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classrooms_joinCode_key" ON "classrooms"("joinCode");
+
+-- CreateIndex
+CREATE INDEX "classrooms_teacherId_idx" ON "classrooms"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "classroom_members_userId_idx" ON "classroom_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classroom_members_classroomId_userId_key" ON "classroom_members"("classroomId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classroom_assignments_classroomId_lessonId_key" ON "classroom_assignments"("classroomId", "lessonId");
+
+-- AddForeignKey
+ALTER TABLE "classrooms" ADD CONSTRAINT "classrooms_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_members" ADD CONSTRAINT "classroom_members_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "classrooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_members" ADD CONSTRAINT "classroom_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_assignments" ADD CONSTRAINT "classroom_assignments_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "classrooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_assignments" ADD CONSTRAINT "classroom_assignments_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
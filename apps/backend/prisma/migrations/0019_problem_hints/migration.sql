@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "lessons" ADD COLUMN "hintPenalty" INTEGER NOT NULL DEFAULT 25;
+
+-- AlterTable
+ALTER TABLE "lesson_revisions" ADD COLUMN "hintPenalty" INTEGER NOT NULL DEFAULT 25;
+
+-- AlterTable
+ALTER TABLE "problems" ADD COLUMN "hints" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "problem_revisions" ADD COLUMN "hints" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "hint_reveals" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "hintsRevealed" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hint_reveals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hint_reveals_userId_attemptId_problemId_key" ON "hint_reveals"("userId", "attemptId", "problemId");
+
+-- AddForeignKey
+ALTER TABLE "hint_reveals" ADD CONSTRAINT "hint_reveals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hint_reveals" ADD CONSTRAINT "hint_reveals_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
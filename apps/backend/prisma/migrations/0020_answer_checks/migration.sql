@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "answer_checks" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "problemId" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "xpEarned" INTEGER NOT NULL,
+    "hintsUsed" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "answer_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "answer_checks_userId_attemptId_problemId_key" ON "answer_checks"("userId", "attemptId", "problemId");
+
+-- AddForeignKey
+ALTER TABLE "answer_checks" ADD CONSTRAINT "answer_checks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "answer_checks" ADD CONSTRAINT "answer_checks_problemId_fkey" FOREIGN KEY ("problemId") REFERENCES "problems"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "attempt_drafts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lessonId" TEXT NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "answers" JSONB NOT NULL DEFAULT '{}',
+    "currentIndex" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attempt_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attempt_drafts_attemptId_key" ON "attempt_drafts"("attemptId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attempt_drafts_userId_lessonId_key" ON "attempt_drafts"("userId", "lessonId");
+
+-- AddForeignKey
+ALTER TABLE "attempt_drafts" ADD CONSTRAINT "attempt_drafts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_drafts" ADD CONSTRAINT "attempt_drafts_lessonId_fkey" FOREIGN KEY ("lessonId") REFERENCES "lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
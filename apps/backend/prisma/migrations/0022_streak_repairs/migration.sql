@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "StreakDayStatus" ADD VALUE 'repaired';
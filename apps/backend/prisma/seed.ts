@@ -15,8 +15,36 @@ async function cleanupData() {
     await prisma.userProgress.deleteMany({});
     console.log('✅ Deleted all user progress records');
 
-    await prisma.submission.deleteMany({});
-    console.log('✅ Deleted all submissions');
+    await prisma.attempt.deleteMany({});
+    console.log('✅ Deleted all attempts');
+
+    await prisma.streakDay.deleteMany({});
+    console.log('✅ Deleted all streak days');
+
+    await prisma.userAchievement.deleteMany({});
+    console.log('✅ Deleted all achievement unlocks');
+
+    await prisma.achievement.deleteMany({});
+    console.log('✅ Deleted all achievements');
+
+    await prisma.leaderboardCohort.deleteMany({});
+    console.log('✅ Deleted all leaderboard cohorts');
+
+    await prisma.experiment.deleteMany({});
+    console.log('✅ Deleted all experiments');
+
+    await prisma.classroom.deleteMany({});
+    console.log('✅ Deleted all classrooms');
+
+    await prisma.reviewAnswer.deleteMany({});
+    console.log('✅ Deleted all review answers');
+
+    await prisma.reviewItem.deleteMany({});
+    console.log('✅ Deleted all review items');
+
+    await prisma.problemRevision.deleteMany({});
+    await prisma.lessonRevision.deleteMany({});
+    console.log('✅ Deleted all content revisions');
 
     await prisma.problemOption.deleteMany({});
     console.log('✅ Deleted all problem options');
@@ -24,9 +52,21 @@ async function cleanupData() {
     await prisma.problem.deleteMany({});
     console.log('✅ Deleted all problems');
 
+    await prisma.skillMastery.deleteMany({});
+    console.log('✅ Deleted all skill mastery');
+
+    await prisma.lessonPrerequisite.deleteMany({});
+    console.log('✅ Deleted all lesson prerequisites');
+
+    await prisma.lessonSkill.deleteMany({});
+    console.log('✅ Deleted all lesson skills');
+
     await prisma.lesson.deleteMany({});
     console.log('✅ Deleted all lessons');
 
+    await prisma.skill.deleteMany({});
+    console.log('✅ Deleted all skills');
+
     // Reset demo user's math learning data
     await prisma.user.updateMany({
       where: {},
@@ -35,9 +75,11 @@ async function cleanupData() {
         currentStreak: 0,
         bestStreak: 0,
         lastActivityDate: null,
+        streakFreezes: 0,
+        league: 'bronze',
       },
     });
-    console.log('✅ Reset all user XP and streak data');
+    console.log('✅ Reset all user XP, streak and league data');
 
     console.log('🎉 Database cleanup completed successfully!');
   } catch (error) {
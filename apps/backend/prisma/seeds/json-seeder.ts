@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import * as fs from 'fs';
 import * as path from 'path';
+import { assertAcyclic } from '../../src/core/skill-graph';
 
 interface SeedConfig {
   version: string;
@@ -195,6 +196,11 @@ export class JsonSeeder {
       records = await this.resolveLookups(records, tableConfig.lookupFields);
     }
     
+    // Refuse to seed a prerequisite graph that would lock lessons forever
+    if (tableConfig.table === 'lessonPrerequisites') {
+      assertAcyclic(records);
+    }
+    
     let createdCount = 0;
     let skippedCount = 0;
     
@@ -227,6 +233,15 @@ export class JsonSeeder {
             this.cacheRecord('users', record, ['email', 'username']);
             break;
             
+          case 'achievements':
+            record = await (this.prisma as any).achievement.upsert({
+              where: { id: recordData.id },
+              update: this.config.settings.skipExisting ? {} : recordData,
+              create: recordData,
+            });
+            this.cacheRecord('achievements', record, ['id']);
+            break;
+            
           case 'lessons':
             record = await (this.prisma as any).lesson.upsert({
               where: { id: recordData.id },
@@ -236,6 +251,41 @@ export class JsonSeeder {
             this.cacheRecord('lessons', record, ['id', 'title']);
             break;
             
+          case 'skills':
+            record = await (this.prisma as any).skill.upsert({
+              where: { id: recordData.id },
+              update: this.config.settings.skipExisting ? {} : recordData,
+              create: recordData,
+            });
+            this.cacheRecord('skills', record, ['id', 'name']);
+            break;
+            
+          case 'lessonSkills':
+            record = await (this.prisma as any).lessonSkill.upsert({
+              where: {
+                lessonId_skillId: {
+                  lessonId: recordData.lessonId,
+                  skillId: recordData.skillId,
+                }
+              },
+              update: {},
+              create: recordData,
+            });
+            break;
+            
+          case 'lessonPrerequisites':
+            record = await (this.prisma as any).lessonPrerequisite.upsert({
+              where: {
+                lessonId_prerequisiteId: {
+                  lessonId: recordData.lessonId,
+                  prerequisiteId: recordData.prerequisiteId,
+                }
+              },
+              update: {},
+              create: recordData,
+            });
+            break;
+            
           case 'problems':
             record = await (this.prisma as any).problem.upsert({
               where: { id: recordData.id },
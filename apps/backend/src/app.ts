@@ -8,9 +8,18 @@ import { setupSwagger } from './core/swagger';
 import { prismaService } from './core/database';
 import { HealthModule } from './features/health';
 import { UserModule } from './features/users';
+import authRoutes from './features/auth/auth.routes';
 import lessonRoutes from './features/lessons/lesson.routes';
 import profileRoutes from './features/profile/profile.routes';
 import recommendationRoutes from './features/recommendations/recommendation.routes';
+import streakRoutes from './features/streaks/streak.routes';
+import leaderboardRoutes from './features/leaderboards/leaderboard.routes';
+import { LeaderboardScheduler } from './features/leaderboards/leaderboard.scheduler';
+import reviewRoutes from './features/reviews/review.routes';
+import experimentRoutes from './features/experiments/experiment.routes';
+import authoringRoutes from './features/authoring/authoring.routes';
+import classroomRoutes from './features/classrooms/classroom.routes';
+import gradebookRoutes from './features/gradebook/gradebook.routes';
 
 // Load environment variables
 dotenv.config();
@@ -23,6 +32,9 @@ export class Application {
   private healthModule: HealthModule;
   private userModule: UserModule;
 
+  // Background jobs
+  private leaderboardScheduler = new LeaderboardScheduler();
+
   constructor() {
     this.app = express();
     this.port = parseInt(process.env.PORT || '3002');
@@ -68,10 +80,18 @@ export class Application {
         timestamp: new Date().toISOString(),
         endpoints: {
           health: '/api/health',
+          auth: '/api/auth',
           users: '/api/users',
           lessons: '/api/lessons',
           profile: '/api/profile',
           recommendations: '/api/recommendations',
+          streaks: '/api/streaks',
+          leaderboards: '/api/leaderboards',
+          reviews: '/api/reviews',
+          experiments: '/api/experiments',
+          authoring: '/api/admin/lessons',
+          classrooms: '/api/classrooms',
+          gradebook: '/api/gradebook',
           docs: '/api/docs',
           openapi: '/api/docs.json',
         },
@@ -81,9 +101,17 @@ export class Application {
     // Feature routes
     this.app.use('/api/health', this.healthModule.initialize());
     this.app.use('/api/users', this.userModule.initialize());
+    this.app.use('/api/auth', authRoutes);
     this.app.use('/api/lessons', lessonRoutes);
     this.app.use('/api/profile', profileRoutes);
     this.app.use('/api/recommendations', recommendationRoutes);
+    this.app.use('/api/streaks', streakRoutes);
+    this.app.use('/api/leaderboards', leaderboardRoutes);
+    this.app.use('/api/reviews', reviewRoutes);
+    this.app.use('/api/experiments', experimentRoutes);
+    this.app.use('/api/admin/lessons', authoringRoutes);
+    this.app.use('/api/classrooms', classroomRoutes);
+    this.app.use('/api/gradebook', gradebookRoutes);
 
     LoggerService.info('Routes initialized successfully');
   }
@@ -119,6 +147,7 @@ export class Application {
       LoggerService.info(`📝 Received ${signal}. Starting graceful shutdown...`);
       
       try {
+        this.leaderboardScheduler.stop();
         await prismaService.disconnect();
         LoggerService.info('✅ Database disconnected successfully');
         process.exit(0);
@@ -142,15 +171,22 @@ export class Application {
       // Setup graceful shutdown
       this.setupGracefulShutdown();
 
+      // Close finished leaderboard weeks now and every Monday
+      this.leaderboardScheduler.start();
+
       // Start the server
       this.app.listen(this.port, () => {
         LoggerService.info(`🚀 Backend server is running on port ${this.port}`);
         LoggerService.info(`📍 API available at http://localhost:${this.port}`);
         LoggerService.info(`🏥 Health check: http://localhost:${this.port}/api/health`);
         LoggerService.info(`👥 Users API: http://localhost:${this.port}/api/users`);
+        LoggerService.info(`🔐 Auth API: http://localhost:${this.port}/api/auth`);
         LoggerService.info(`📚 Lessons API: http://localhost:${this.port}/api/lessons`);
         LoggerService.info(`👤 Profile API: http://localhost:${this.port}/api/profile`);
         LoggerService.info(`🎯 Recommendations API: http://localhost:${this.port}/api/recommendations`);
+        LoggerService.info(`🔥 Streaks API: http://localhost:${this.port}/api/streaks`);
+        LoggerService.info(`🏆 Leaderboards API: http://localhost:${this.port}/api/leaderboards`);
+        LoggerService.info(`🔁 Reviews API: http://localhost:${this.port}/api/reviews`);
         LoggerService.info(`📊 Database: Connected to PostgreSQL`);
         LoggerService.info(`📖 API Documentation: http://localhost:${this.port}/api/docs`);
         LoggerService.info(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
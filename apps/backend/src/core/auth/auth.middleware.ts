@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '@prisma/client';
+import { TokenService } from './token.service';
+import { LoggerService } from '../logger/logger.service';
+import { sendError } from '../middleware';
+
+/**
+ * Authenticated user attached to the request
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: Role;
+}
+
+/**
+ * Extract bearer token from the Authorization header
+ */
+export function extractBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Middleware that requires a valid access token and populates req.user
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+
+  if (!token) {
+    return sendError(res, 'Authentication required', 401);
+  }
+
+  try {
+    const payload = TokenService.verifyAccessToken(token);
+    req.user = { id: payload.sub, email: payload.email, role: payload.role };
+    next();
+  } catch (error) {
+    LoggerService.warn(`Rejected access token for ${req.method} ${req.path}`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return sendError(res, 'Invalid or expired token', 401);
+  }
+};
+
+// Extend Express Request interface to include the authenticated user
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
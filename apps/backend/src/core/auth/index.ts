@@ -0,0 +1,3 @@
+export * from './token.service';
+export * from './auth.middleware';
+export * from './permissions';
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '@prisma/client';
+import { LoggerService } from '../logger/logger.service';
+import { sendError } from '../middleware';
+
+/**
+ * Actions guarded by role-based access control
+ */
+export type Permission =
+  | 'users:read'
+  | 'users:write'
+  | 'users:delete'
+  | 'lessons:author'
+  | 'classrooms:manage'
+  | 'experiments:manage';
+
+/**
+ * Permissions granted to each role
+ * Learners only use their own resources, which the routes already scope to req.user
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  learner: [],
+  teacher: ['lessons:author', 'classrooms:manage'],
+  admin: ['users:read', 'users:write', 'users:delete', 'lessons:author', 'classrooms:manage', 'experiments:manage'],
+};
+
+/**
+ * Check whether a role grants every given permission
+ */
+export function hasPermission(role: Role, ...permissions: Permission[]): boolean {
+  return permissions.every(permission => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Middleware that requires the authenticated user to hold every given permission
+ * Mount after `authenticate`; composes with `validateRequest` like any other middleware
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendError(res, 'Authentication required', 401);
+    }
+
+    if (!hasPermission(req.user.role, ...permissions)) {
+      LoggerService.warn(`Denied ${req.method} ${req.path} to ${req.user.role}`, {
+        userId: req.user.id,
+        permissions,
+      });
+      return sendError(res, 'Insufficient permissions', 403);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,91 @@
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { Role } from '@prisma/client';
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: Role;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL = '15m';
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Token Service
+ * Issues and verifies JWT access tokens and opaque refresh tokens
+ */
+export class TokenService {
+  /**
+   * Sign a short-lived access token for a user
+   */
+  static signAccessToken(user: { id: string; email: string; role: Role }): string {
+    const payload: AccessTokenPayload = { sub: user.id, email: user.email, role: user.role };
+
+    return jwt.sign(payload, this.getSecret(), {
+      expiresIn: (process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_TTL) as jwt.SignOptions['expiresIn'],
+    });
+  }
+
+  /**
+   * Verify an access token and return its payload
+   * Throws if the token is malformed, expired or signed with another secret
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(token, this.getSecret());
+
+    if (typeof decoded === 'string' || !decoded.sub) {
+      throw new Error('Invalid token payload');
+    }
+
+    // Tokens issued before roles existed carry no role claim
+    return { sub: decoded.sub, email: decoded.email, role: decoded.role ?? Role.learner };
+  }
+
+  /**
+   * Access token lifetime in seconds, as advertised to clients
+   */
+  static getAccessTokenTtlSeconds(token: string): number {
+    const decoded = jwt.decode(token);
+    if (!decoded || typeof decoded === 'string' || !decoded.exp || !decoded.iat) {
+      return 0;
+    }
+    return decoded.exp - decoded.iat;
+  }
+
+  /**
+   * Generate a new opaque refresh token
+   * Only the hash is meant to be persisted
+   */
+  static generateRefreshToken(): IssuedRefreshToken {
+    const token = randomBytes(48).toString('hex');
+    const ttlDays = parseInt(process.env.JWT_REFRESH_EXPIRES_IN_DAYS || '', 10) || DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+
+    return {
+      token,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  /**
+   * Hash a refresh token for storage and lookup
+   */
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+    return secret;
+  }
+}
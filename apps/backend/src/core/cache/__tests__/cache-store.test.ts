@@ -0,0 +1,67 @@
+/**
+ * Cache Store Unit Tests
+ * LRU eviction and expiry of the in-memory store, and key handling of the Redis adapter
+ */
+
+import { MemoryLruStore, RedisCacheStore } from '..';
+
+describe('MemoryLruStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-17T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should expire entries after their time to live', async () => {
+    const store = new MemoryLruStore();
+    await store.set('a', '1', 60);
+
+    jest.advanceTimersByTime(59_000);
+    await expect(store.get('a')).resolves.toBe('1');
+
+    jest.advanceTimersByTime(1_000);
+    await expect(store.get('a')).resolves.toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry once full', async () => {
+    const store = new MemoryLruStore(2);
+    await store.set('a', '1', 60);
+    await store.set('b', '2', 60);
+    await store.get('a'); // "b" is now the least recently used
+    await store.set('c', '3', 60);
+
+    await expect(store.get('a')).resolves.toBe('1');
+    await expect(store.get('b')).resolves.toBeNull();
+    await expect(store.get('c')).resolves.toBe('3');
+  });
+
+  it('should remove deleted entries', async () => {
+    const store = new MemoryLruStore();
+    await store.set('a', '1', 60);
+    await store.del('a');
+
+    await expect(store.get('a')).resolves.toBeNull();
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('should prefix keys and pass the time to live as EX', async () => {
+    const client = {
+      get: jest.fn().mockResolvedValue('1'),
+      set: jest.fn().mockResolvedValue('OK'),
+      del: jest.fn().mockResolvedValue(1),
+    };
+    const store = new RedisCacheStore(client, 'app:');
+
+    await store.set('a', '1', 60);
+    await expect(store.get('a')).resolves.toBe('1');
+    await store.del('a');
+
+    expect(client.set).toHaveBeenCalledWith('app:a', '1', 'EX', 60);
+    expect(client.get).toHaveBeenCalledWith('app:a');
+    expect(client.del).toHaveBeenCalledWith('app:a');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Cache Store
+ * Minimal key/value contract shared by every cache backend. Values are strings
+ * with a time to live, which is what Redis offers, so an in-process store and
+ * a Redis client are interchangeable.
+ */
+export interface CacheStore {
+  /**
+   * Get a value, or null when missing or expired
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Store a value for `ttlSeconds`
+   */
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Remove a value (no-op when missing)
+   */
+  del(key: string): Promise<void>;
+}
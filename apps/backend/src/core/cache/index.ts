@@ -0,0 +1,3 @@
+export * from './cache-store';
+export * from './memory-lru-store';
+export * from './redis-cache-store';
@@ -0,0 +1,33 @@
+import { CacheStore } from './cache-store';
+
+/**
+ * The subset of a Redis client (ioredis or node-redis v4 legacy mode) the store needs
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Cache store backed by Redis, shared by every server instance
+ * Keys are prefixed so the cache can live in a Redis database used for other things
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(
+    private readonly client: RedisClientLike,
+    private readonly prefix: string = 'cache:'
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'EX', ttlSeconds);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Spreadsheet Writer Unit Tests
+ * Tests for locale-aware CSV output and the streamed XLSX workbook
+ */
+
+import { PassThrough, Writable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { CsvWriter } from '../csv-writer';
+import { XlsxWriter, columnName } from '../xlsx-writer';
+import { SpreadsheetOptions, SpreadsheetWriter } from '../spreadsheet';
+
+const options = (overrides: Partial<SpreadsheetOptions> = {}): SpreadsheetOptions => ({
+  language: 'en',
+  timeZone: 'UTC',
+  sheetName: 'Gradebook',
+  columns: [
+    { header: 'Student', type: 'string' },
+    { header: 'Score', type: 'number', decimals: 1 },
+    { header: 'Completed', type: 'boolean' },
+    { header: 'Completion date', type: 'date' },
+  ],
+  ...overrides,
+});
+
+async function render(
+  start: (output: PassThrough) => Promise<SpreadsheetWriter>,
+  batches: Parameters<SpreadsheetWriter['writeRows']>[0][]
+): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(Buffer.from(chunk)));
+
+  const writer = await start(output);
+  for (const rows of batches) {
+    await writer.writeRows(rows);
+  }
+  await writer.finish();
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read every entry of a ZIP archive through its central directory
+ */
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    entries.set(name, inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8'));
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+/**
+ * A client that reads the first chunks, then stops reading and drops the connection
+ */
+function droppedOutput(chunksRead: number): Writable {
+  let writes = 0;
+  const output = new Writable({
+    highWaterMark: 1,
+    write(_chunk, _encoding, callback) {
+      if (++writes <= chunksRead) {
+        callback();
+      } else {
+        setImmediate(() => output.destroy());
+      }
+    },
+  });
+  return output;
+}
+
+describe('CsvWriter', () => {
+  const completedAt = new Date('2025-09-10T17:20:00Z');
+
+  it('should write English numbers, dates and yes/no with comma separators', async () => {
+    const csv = await render(output => CsvWriter.start(output, options()), [
+      [['Demo User', 87.5, true, completedAt]],
+    ]);
+
+    expect(csv.toString('utf8')).toBe(
+      '\uFEFFStudent,Score,Completed,Completion date\r\nDemo User,87.5,Yes,09/10/2025\r\n'
+    );
+  });
+
+  it('should write Indonesian decimals with semicolon separators', async () => {
+    const csv = await render(
+      output => CsvWriter.start(output, options({ language: 'id' })),
+      [[['Budi', 1234.5, false, completedAt]]]
+    );
+
+    expect(csv.toString('utf8').split('\r\n')[1]).toBe('Budi;1234,5;Tidak;10/09/2025');
+  });
+
+  it('should show dates as the calendar day in the export timezone', async () => {
+    const csv = await render(
+      output => CsvWriter.start(output, options({ timeZone: 'Asia/Jakarta' })),
+      [[['Demo User', 100, true, completedAt]]]
+    );
+
+    expect(csv.toString('utf8')).toContain('09/11/2025');
+  });
+
+  it('should quote separators and neutralise formulas', async () => {
+    const csv = await render(output => CsvWriter.start(output, options()), [
+      [['Rivera, "Ms"', null, null, null], ['=HYPERLINK("x")', 0, false, null]],
+    ]);
+
+    const lines = csv.toString('utf8').split('\r\n');
+    expect(lines[1]).toBe('"Rivera, ""Ms""",,,');
+    expect(lines[2]).toBe('"\'=HYPERLINK(""x"")",0,No,');
+  });
+});
+
+describe('XlsxWriter', () => {
+  it('should stream a workbook whose sheet holds every batch of rows', async () => {
+    const workbook = await render(output => XlsxWriter.start(output, options()), [
+      [['Demo User', 87.5, true, new Date('2025-09-10T17:20:00Z')]],
+      [['Budi', 40, false, null]],
+    ]);
+
+    const entries = unzip(workbook);
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+
+    const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<row r="1">');
+    expect(sheet).toContain('<c r="B2" s="3"><v>87.5</v></c>');
+    // 2025-09-10 as an Excel serial date
+    expect(sheet).toContain('<c r="D2" s="2"><v>45910</v></c>');
+    expect(sheet).toContain('<c r="A3" t="inlineStr"><is><t xml:space="preserve">Budi</t></is></c>');
+    expect(sheet).toMatch(/<\/sheetData><\/worksheet>$/);
+  });
+
+  it('should use the language for yes/no and the date pattern', async () => {
+    const workbook = await render(
+      output => XlsxWriter.start(output, options({ language: 'id', sheetName: 'Buku nilai' })),
+      [[['Budi', 40, false, null]]]
+    );
+
+    const entries = unzip(workbook);
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('>Tidak</t>');
+    expect(entries.get('xl/styles.xml')).toContain('formatCode="dd/mm/yyyy"');
+    expect(entries.get('xl/workbook.xml')).toContain('name="Buku nilai"');
+  });
+
+  it('should escape XML in text cells', async () => {
+    const workbook = await render(output => XlsxWriter.start(output, options()), [
+      [['Tom & <Jerry>', null, null, null]],
+    ]);
+
+    expect(unzip(workbook).get('xl/worksheets/sheet1.xml')).toContain('Tom &amp; &lt;Jerry&gt;');
+  });
+
+  it('should drop control characters that XML does not allow', async () => {
+    const workbook = await render(output => XlsxWriter.start(output, options()), [
+      [['Tom\u0000\u0007 and\tJerry\u001F', null, null, null]],
+    ]);
+
+    expect(unzip(workbook).get('xl/worksheets/sheet1.xml')).toContain('Tom and\tJerry<');
+  });
+});
+
+describe('aborted exports', () => {
+  it.each([
+    ['CSV', (output: Writable) => CsvWriter.start(output, options())],
+    ['XLSX', (output: Writable) => XlsxWriter.start(output, options())],
+  ])('should fail a %s export when the output is closed mid-export', async (_format, start) => {
+    const output = droppedOutput(30);
+
+    const exported = (async () => {
+      const writer = await start(output);
+      for (let batch = 0; batch < 100; batch++) {
+        await writer.writeRows([[`Student ${batch}`, batch, true, new Date('2025-09-10T12:00:00Z')]]);
+      }
+      await writer.finish();
+    })();
+
+    await expect(exported).rejects.toThrow('Output closed before the export finished');
+    expect(output.destroyed).toBe(true);
+  });
+});
+
+describe('columnName', () => {
+  it('should name columns like a spreadsheet', () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
@@ -0,0 +1,98 @@
+import { Writable } from 'stream';
+import { writeChunk } from './zip-writer';
+import {
+  CellValue,
+  SPREADSHEET_LOCALES,
+  SpreadsheetColumn,
+  SpreadsheetLocale,
+  SpreadsheetOptions,
+  SpreadsheetWriter,
+  toLocalDay,
+} from './spreadsheet';
+
+/**
+ * CSV Writer
+ * Numbers, dates and yes/no are written the way the language's spreadsheet
+ * apps read them back. Starts with a byte order mark so Excel detects UTF-8.
+ */
+
+const BOM = '\uFEFF';
+
+// Leading characters spreadsheet apps would evaluate as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvWriter implements SpreadsheetWriter {
+  private readonly locale: SpreadsheetLocale;
+  private readonly numberFormats: Intl.NumberFormat[];
+  private readonly dateFormat: Intl.DateTimeFormat;
+
+  private constructor(
+    private readonly output: Writable,
+    private readonly options: SpreadsheetOptions
+  ) {
+    this.locale = SPREADSHEET_LOCALES[options.language];
+    this.numberFormats = options.columns.map(
+      column =>
+        new Intl.NumberFormat(this.locale.intlLocale, {
+          useGrouping: false,
+          minimumFractionDigits: 0,
+          maximumFractionDigits: column.decimals ?? 0,
+        })
+    );
+    this.dateFormat = new Intl.DateTimeFormat(this.locale.intlLocale, {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+  }
+
+  /**
+   * Start a CSV document with its header row
+   */
+  static async start(output: Writable, options: SpreadsheetOptions): Promise<CsvWriter> {
+    const writer = new CsvWriter(output, options);
+    await writeChunk(output, BOM + writer.line(options.columns.map(column => column.header)));
+    return writer;
+  }
+
+  async writeRows(rows: CellValue[][]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+    const lines = rows.map(row => this.line(row.map((value, index) => this.format(value, this.options.columns[index], index))));
+    await writeChunk(this.output, lines.join(''));
+  }
+
+  async finish(): Promise<void> {
+    // Nothing trails the last row
+  }
+
+  private format(value: CellValue, column: SpreadsheetColumn | undefined, index: number): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (typeof value === 'boolean') {
+      return value ? this.locale.yes : this.locale.no;
+    }
+    if (value instanceof Date) {
+      return this.dateFormat.format(toLocalDay(value, this.options.timeZone));
+    }
+    if (typeof value === 'number' && column?.type === 'number') {
+      return this.numberFormats[index].format(value);
+    }
+    const text = String(value);
+    return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  }
+
+  private line(fields: string[]): string {
+    return fields.map(field => this.escape(field)).join(this.locale.csvDelimiter) + '\r\n';
+  }
+
+  private escape(field: string): string {
+    if (field.includes(this.locale.csvDelimiter) || /["\r\n]/.test(field)) {
+      return `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './spreadsheet';
+export * from './csv-writer';
+export * from './xlsx-writer';
+export * from './zip-writer';
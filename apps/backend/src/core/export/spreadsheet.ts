@@ -0,0 +1,67 @@
+import { localDate, toDateValue } from '../streaks';
+
+/**
+ * Spreadsheet Export
+ * Shared shapes for the CSV and XLSX writers, and the per-language formatting
+ * they apply. Languages match the frontend's i18n languages.
+ */
+
+export const SPREADSHEET_LANGUAGES = ['en', 'id'] as const;
+export type SpreadsheetLanguage = (typeof SPREADSHEET_LANGUAGES)[number];
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type CellType = 'string' | 'number' | 'date' | 'boolean';
+export type CellValue = string | number | boolean | Date | null;
+
+export interface SpreadsheetColumn {
+  header: string;
+  type: CellType;
+  // Fraction digits shown for number columns; defaults to 0
+  decimals?: number;
+}
+
+export interface SpreadsheetOptions {
+  language: SpreadsheetLanguage;
+  // IANA zone dates are shown in
+  timeZone: string;
+  sheetName: string;
+  columns: SpreadsheetColumn[];
+}
+
+export interface SpreadsheetWriter {
+  /**
+   * Append rows; values line up with the columns
+   */
+  writeRows(rows: CellValue[][]): Promise<void>;
+  /**
+   * Finish the document; the output stream is left open for the caller to end
+   */
+  finish(): Promise<void>;
+}
+
+export interface SpreadsheetLocale {
+  intlLocale: string;
+  // Comma-decimal locales separate CSV fields with semicolons, as their spreadsheet apps expect
+  csvDelimiter: string;
+  xlsxDateFormat: string;
+  yes: string;
+  no: string;
+}
+
+export const SPREADSHEET_LOCALES: Record<SpreadsheetLanguage, SpreadsheetLocale> = {
+  en: { intlLocale: 'en-US', csvDelimiter: ',', xlsxDateFormat: 'mm/dd/yyyy', yes: 'Yes', no: 'No' },
+  id: { intlLocale: 'id-ID', csvDelimiter: ';', xlsxDateFormat: 'dd/mm/yyyy', yes: 'Ya', no: 'Tidak' },
+};
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Calendar day of an instant in the export's timezone, as midnight UTC
+ */
+export function toLocalDay(instant: Date, timeZone: string): Date {
+  return toDateValue(localDate(instant, timeZone));
+}
@@ -0,0 +1,254 @@
+import { Writable } from 'stream';
+import { ZipWriter } from './zip-writer';
+import {
+  CellValue,
+  SPREADSHEET_LOCALES,
+  SpreadsheetColumn,
+  SpreadsheetOptions,
+  SpreadsheetWriter,
+  toLocalDay,
+} from './spreadsheet';
+
+/**
+ * XLSX Writer
+ * A single-sheet workbook streamed through the zip writer: the fixed parts go
+ * out first and the sheet XML follows row batch by row batch. Numbers and dates
+ * are stored as values, so the reader's spreadsheet app formats them; only the
+ * date pattern and yes/no text come from the language.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Excel serial date of 1970-01-01
+const EXCEL_EPOCH_SERIAL = 25569;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// cellXfs indexes in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DECIMAL = 3;
+
+interface SheetChunks {
+  push(xml: string | null): void;
+  iterate(): AsyncIterable<string>;
+}
+
+export class XlsxWriter implements SpreadsheetWriter {
+  private readonly sheet = createSheetChunks();
+  private readonly sheetWritten: Promise<void>;
+  private sheetError: unknown = null;
+  private rowCount = 0;
+
+  private constructor(
+    private readonly zip: ZipWriter,
+    private readonly options: SpreadsheetOptions
+  ) {
+    this.sheetWritten = zip.addEntry('xl/worksheets/sheet1.xml', this.sheet.iterate());
+    // A failed sheet write (such as a closed output) stops the next batch rather than going unhandled
+    this.sheetWritten.catch(error => {
+      this.sheetError = error;
+    });
+  }
+
+  /**
+   * Start a workbook: write the fixed parts and open the sheet with its header row
+   */
+  static async start(output: Writable, options: SpreadsheetOptions): Promise<XlsxWriter> {
+    const zip = new ZipWriter(output);
+    const locale = SPREADSHEET_LOCALES[options.language];
+
+    await zip.addEntry('[Content_Types].xml', contentTypesXml());
+    await zip.addEntry('_rels/.rels', rootRelationshipsXml());
+    await zip.addEntry('xl/workbook.xml', workbookXml(options.sheetName));
+    await zip.addEntry('xl/_rels/workbook.xml.rels', workbookRelationshipsXml());
+    await zip.addEntry('xl/styles.xml', stylesXml(locale.xlsxDateFormat));
+
+    const writer = new XlsxWriter(zip, options);
+    writer.sheet.push(`${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>`);
+    writer.sheet.push(
+      writer.rowXml(options.columns.map(column => column.header), () => STYLE_HEADER)
+    );
+    return writer;
+  }
+
+  async writeRows(rows: CellValue[][]): Promise<void> {
+    this.throwIfSheetFailed();
+    if (rows.length === 0) {
+      return;
+    }
+    this.sheet.push(rows.map(row => this.rowXml(row)).join(''));
+    // Let the zip writer deflate and flush the batch before taking the next one
+    await new Promise(resolve => setImmediate(resolve));
+    this.throwIfSheetFailed();
+  }
+
+  async finish(): Promise<void> {
+    this.sheet.push('</sheetData></worksheet>');
+    this.sheet.push(null);
+    await this.sheetWritten;
+    await this.zip.finish();
+  }
+
+  private throwIfSheetFailed(): void {
+    if (this.sheetError) {
+      throw this.sheetError;
+    }
+  }
+
+  private rowXml(values: CellValue[], styleFor?: (column: SpreadsheetColumn) => number): string {
+    this.rowCount++;
+    const cells = values
+      .map((value, index) => {
+        const column = this.options.columns[index];
+        const ref = `${columnName(index)}${this.rowCount}`;
+        const style = styleFor ? styleFor(column) : undefined;
+        return this.cellXml(ref, value, column, style);
+      })
+      .join('');
+    return `<row r="${this.rowCount}">${cells}</row>`;
+  }
+
+  private cellXml(ref: string, value: CellValue, column: SpreadsheetColumn, style?: number): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      const serial = toLocalDay(value, this.options.timeZone).getTime() / DAY_MS + EXCEL_EPOCH_SERIAL;
+      return `<c r="${ref}" s="${style ?? STYLE_DATE}"><v>${serial}</v></c>`;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      const numberStyle = style ?? (column?.decimals ? STYLE_DECIMAL : undefined);
+      return `<c r="${ref}"${numberStyle ? ` s="${numberStyle}"` : ''}><v>${value}</v></c>`;
+    }
+    const locale = SPREADSHEET_LOCALES[this.options.language];
+    const text = typeof value === 'boolean' ? (value ? locale.yes : locale.no) : String(value);
+    return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+  }
+}
+
+/**
+ * Queue of sheet XML the writer fills and the zip entry drains
+ */
+function createSheetChunks(): SheetChunks {
+  const queue: (string | null)[] = [];
+  let wake: (() => void) | null = null;
+
+  return {
+    push(xml) {
+      queue.push(xml);
+      wake?.();
+      wake = null;
+    },
+    async *iterate() {
+      while (true) {
+        if (queue.length === 0) {
+          await new Promise<void>(resolve => (wake = resolve));
+          continue;
+        }
+        const xml = queue.shift();
+        if (xml === null || xml === undefined) {
+          return;
+        }
+        yield xml;
+      }
+    },
+  };
+}
+
+/**
+ * Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Control characters other than tab, line feed and carriage return are not allowed in XML 1.0
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return (
+    Array.from(text)
+      .filter(isXmlChar)
+      .join('')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+function contentTypesXml(): string {
+  return (
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>'
+  );
+}
+
+function rootRelationshipsXml(): string {
+  return (
+    XML_DECLARATION +
+    `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>'
+  );
+}
+
+function workbookXml(sheetName: string): string {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet1';
+  return (
+    XML_DECLARATION +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP_NS}">` +
+    `<sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+function workbookRelationshipsXml(): string {
+  return (
+    XML_DECLARATION +
+    `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${DOCUMENT_RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+  );
+}
+
+function stylesXml(dateFormat: string): string {
+  return (
+    XML_DECLARATION +
+    `<styleSheet xmlns="${MAIN_NS}">` +
+    `<numFmts count="2"><numFmt numFmtId="164" formatCode="${dateFormat}"/><numFmt numFmtId="165" formatCode="0.0"/></numFmts>` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="4">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>'
+  );
+}
@@ -0,0 +1,186 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import { constants, crc32, deflateRawSync } from 'zlib';
+
+/**
+ * Zip Writer
+ * Writes a ZIP archive straight to an output stream, one entry at a time, so
+ * an entry can be produced in chunks without holding it in memory.
+ *
+ * Each chunk is deflated on its own and sync-flushed, which leaves the pieces
+ * concatenable into one deflate stream; sizes and CRC go in a data descriptor
+ * after the entry because they are only known once it is written. No ZIP64,
+ * so entries and the archive stay under 4 GiB.
+ */
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const ZIP_VERSION = 20;
+// Bit 3: sizes in a data descriptor; bit 11: UTF-8 file names
+const ENTRY_FLAGS = 0x0008 | 0x0800;
+const DEFLATE = 8;
+
+// Empty final block that terminates the sync-flushed deflate pieces
+const DEFLATE_END = Buffer.from([0x03, 0x00]);
+
+const OUTPUT_CLOSED = 'Output closed before the export finished';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export type ZipEntryContent = string | Buffer | AsyncIterable<string | Buffer> | Iterable<string | Buffer>;
+
+export class ZipWriter {
+  private readonly entries: ZipEntry[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(
+    private readonly output: Writable,
+    private readonly modifiedAt: Date = new Date()
+  ) {}
+
+  /**
+   * Add a file, deflating its content chunk by chunk as it is produced
+   */
+  async addEntry(name: string, content: ZipEntryContent): Promise<void> {
+    if (this.finished) {
+      throw new Error('Zip archive is already finished');
+    }
+
+    const { time, date } = toDosDateTime(this.modifiedAt);
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ENTRY_FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (14-25) stay zero; the data descriptor carries them
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const chunks = typeof content === 'string' || Buffer.isBuffer(content) ? [content] : content;
+    for await (const chunk of chunks) {
+      const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+      if (data.length === 0) {
+        continue;
+      }
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      entry.compressedSize += compressed.length;
+      await this.write(compressed);
+    }
+    entry.compressedSize += DEFLATE_END.length;
+    await this.write(DEFLATE_END);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory; the output stream is left open for the caller to end
+   */
+  async finish(): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(ENTRY_FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    await writeChunk(this.output, data);
+  }
+}
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full. A stream closed
+ * meanwhile (a dropped download) never drains, so the write fails instead of waiting.
+ */
+export async function writeChunk(output: Writable, chunk: string | Buffer): Promise<void> {
+  if (output.destroyed) {
+    throw new Error(OUTPUT_CLOSED);
+  }
+  if (output.write(chunk)) {
+    return;
+  }
+
+  const listeners = new AbortController();
+  try {
+    await Promise.race([
+      once(output, 'drain', { signal: listeners.signal }),
+      once(output, 'close', { signal: listeners.signal }).then(() => {
+        throw new Error(OUTPUT_CLOSED);
+      }),
+    ]);
+  } finally {
+    listeners.abort();
+  }
+}
+
+/**
+ * MS-DOS date and time fields, in the server's local time as ZIP tools expect
+ */
+function toDosDateTime(instant: Date): { time: number; date: number } {
+  const year = Math.max(instant.getFullYear(), 1980);
+  return {
+    time: (instant.getHours() << 11) | (instant.getMinutes() << 5) | Math.floor(instant.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((instant.getMonth() + 1) << 5) | instant.getDate(),
+  };
+}
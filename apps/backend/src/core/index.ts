@@ -7,3 +7,10 @@ export * from './swagger';
 export * from './database';
 export * from './repositories';
 export * from './seeders';
+export * from './auth';
+export * from './streaks';
+export * from './reviews';
+export * from './skill-graph';
+export * from './mastery';
+export * from './cache';
+export * from './export';
@@ -0,0 +1,48 @@
+/**
+ * Knowledge Tracing Unit Tests
+ * BKT updates, guess rates and mastery levels (no database involved)
+ */
+
+import { DEFAULT_TRACING_PARAMS, masteryLevel, traceSkill, updateKnowledge } from '..';
+
+describe('updateKnowledge', () => {
+  it('should raise the probability more for answers that are hard to guess', () => {
+    expect(updateKnowledge(0.2, { isCorrect: true, problemType: 'input' })).toBe(0.8455);
+    expect(updateKnowledge(0.2, { isCorrect: true, problemType: 'multiple_choice' })).toBe(0.5526);
+    expect(updateKnowledge(0.2, { isCorrect: true, problemType: 'true_false' })).toBe(0.4138);
+  });
+
+  it('should lower the probability after a wrong answer', () => {
+    expect(updateKnowledge(0.2, { isCorrect: false, problemType: 'multiple_choice' })).toBe(0.1774);
+    expect(updateKnowledge(0.9, { isCorrect: false, problemType: 'input' })).toBeLessThan(0.9);
+  });
+});
+
+describe('traceSkill', () => {
+  it('should start unpracticed skills from the prior and count answers', () => {
+    const state = traceSkill(null, [
+      { isCorrect: true, problemType: 'input' },
+      { isCorrect: true, problemType: 'input' },
+      { isCorrect: false, problemType: 'multiple_choice' },
+    ]);
+
+    expect(state.attempts).toBe(3);
+    expect(state.correctCount).toBe(2);
+    expect(state.pKnown).toBeGreaterThan(DEFAULT_TRACING_PARAMS.pInit);
+    expect(state.pKnown).toBeLessThan(0.9915); // Below where two correct answers left it
+  });
+
+  it('should continue from the stored state', () => {
+    expect(traceSkill({ pKnown: 0.8455, attempts: 1, correctCount: 1 }, [
+      { isCorrect: true, problemType: 'input' },
+    ])).toEqual({ pKnown: 0.9915, attempts: 2, correctCount: 2 });
+  });
+});
+
+describe('masteryLevel', () => {
+  it('should bucket probabilities', () => {
+    expect(masteryLevel(0.2)).toBe('novice');
+    expect(masteryLevel(0.5)).toBe('developing');
+    expect(masteryLevel(0.95)).toBe('mastered');
+  });
+});
@@ -0,0 +1,99 @@
+import { ProblemType } from '@prisma/client';
+
+/**
+ * Knowledge Tracing
+ * Bayesian knowledge tracing (BKT) of how likely a learner is to know each skill.
+ * Every answer to a problem of a lesson updates the skills that lesson teaches:
+ * the answer is weighed against the chance of slipping (knew it, answered wrong)
+ * or guessing (didn't know it, answered right), then the learner gets a chance to
+ * have learned the skill from the practice.
+ */
+
+export interface KnowledgeTracingParams {
+  pInit: number;    // Chance the skill is known before any practice
+  pTransit: number; // Chance of learning the skill from one practice opportunity
+  pSlip: number;    // Chance of answering wrong despite knowing the skill
+}
+
+export const DEFAULT_TRACING_PARAMS: KnowledgeTracingParams = {
+  pInit: 0.2,
+  pTransit: 0.15,
+  pSlip: 0.1,
+};
+
+// Probability from which a skill counts as mastered
+export const MASTERY_THRESHOLD = 0.95;
+
+export type MasteryLevel = 'novice' | 'developing' | 'mastered';
+
+export interface MasteryState {
+  pKnown: number;
+  attempts: number;
+  correctCount: number;
+}
+
+export interface TracedAnswer {
+  isCorrect: boolean;
+  problemType: ProblemType;
+}
+
+/**
+ * Chance of answering a problem right without knowing the skill
+ */
+export function guessProbability(problemType: ProblemType): number {
+  switch (problemType) {
+    case 'true_false':
+      return 0.5;
+    case 'multiple_choice':
+      return 0.25;
+    case 'multi_select':
+    case 'ordering':
+      return 0.1;
+    default:
+      return 0.05; // Typed answers are hard to guess
+  }
+}
+
+/**
+ * Probability the skill is known after one more answer
+ */
+export function updateKnowledge(
+  pKnown: number,
+  answer: TracedAnswer,
+  params: KnowledgeTracingParams = DEFAULT_TRACING_PARAMS
+): number {
+  const pGuess = guessProbability(answer.problemType);
+
+  const posterior = answer.isCorrect
+    ? (pKnown * (1 - params.pSlip)) / (pKnown * (1 - params.pSlip) + (1 - pKnown) * pGuess)
+    : (pKnown * params.pSlip) / (pKnown * params.pSlip + (1 - pKnown) * (1 - pGuess));
+
+  const learned = posterior + (1 - posterior) * params.pTransit;
+  return Math.round(learned * 10000) / 10000;
+}
+
+/**
+ * Fold answers, in the order they were given, into a skill's state
+ * (null when the learner has not practiced the skill yet)
+ */
+export function traceSkill(
+  state: MasteryState | null,
+  answers: TracedAnswer[],
+  params: KnowledgeTracingParams = DEFAULT_TRACING_PARAMS
+): MasteryState {
+  return answers.reduce<MasteryState>(
+    (current, answer) => ({
+      pKnown: updateKnowledge(current.pKnown, answer, params),
+      attempts: current.attempts + 1,
+      correctCount: current.correctCount + (answer.isCorrect ? 1 : 0),
+    }),
+    state ?? { pKnown: params.pInit, attempts: 0, correctCount: 0 }
+  );
+}
+
+export function masteryLevel(pKnown: number): MasteryLevel {
+  if (pKnown >= MASTERY_THRESHOLD) {
+    return 'mastered';
+  }
+  return pKnown >= 0.5 ? 'developing' : 'novice';
+}
@@ -10,6 +10,12 @@ jest.mock('../../database', () => ({
       findUnique: jest.fn(),
       count: jest.fn(),
     },
+    lessonPrerequisite: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
   },
 }));
 
@@ -35,6 +41,8 @@ describe('LessonRepository', () => {
         title: 'Lesson 1',
         isActive: true,
         order: 1,
+        skills: [{ lessonId: '1', skillId: 'skill-1', skill: { id: 'skill-1', name: 'Addition', description: null } }],
+        prerequisites: [],
         userProgress: [
           {
             isCompleted: true,
@@ -49,19 +57,34 @@ describe('LessonRepository', () => {
         title: 'Lesson 2',
         isActive: true,
         order: 2,
+        skills: [],
+        prerequisites: [{ lessonId: '2', prerequisiteId: '1', prerequisite: { id: '1', title: 'Lesson 1' } }],
         userProgress: [],
       },
     ];
 
+    const lessonGraphInclude = {
+      skills: {
+        include: { skill: true },
+        orderBy: { skill: { name: 'asc' } },
+      },
+      prerequisites: {
+        where: { prerequisite: { isActive: true, status: 'published' } },
+        include: { prerequisite: { select: { id: true, title: true } } },
+        orderBy: { prerequisite: { order: 'asc' } },
+      },
+    };
+
     it('should return lessons with progress for authenticated user', async () => {
       mockPrisma.lesson.findMany.mockResolvedValue(mockLessons);
 
       const result = await LessonRepository.findAllWithProgress('user-1');
 
       expect(mockPrisma.lesson.findMany).toHaveBeenCalledWith({
-        where: { isActive: true },
+        where: { isActive: true, status: 'published' },
         orderBy: { order: 'asc' },
         include: {
+          ...lessonGraphInclude,
           userProgress: {
             where: { userId: 'user-1' },
             select: {
@@ -81,6 +104,8 @@ describe('LessonRepository', () => {
         attemptsCount: 2,
       });
       expect(result[1].progress).toBeUndefined();
+      expect(result[0].skills).toEqual([{ id: 'skill-1', name: 'Addition', description: null }]);
+      expect(result[1].prerequisites).toEqual([{ id: '1', title: 'Lesson 1' }]);
     });
 
     it('should return lessons without progress for anonymous user', async () => {
@@ -93,9 +118,10 @@ describe('LessonRepository', () => {
       const result = await LessonRepository.findAllWithProgress();
 
       expect(mockPrisma.lesson.findMany).toHaveBeenCalledWith({
-        where: { isActive: true },
+        where: { isActive: true, status: 'published' },
         orderBy: { order: 'asc' },
         include: {
+          ...lessonGraphInclude,
           userProgress: false,
         },
       });
@@ -148,7 +174,7 @@ describe('LessonRepository', () => {
       const result = await LessonRepository.findByIdWithProblems('1', false);
 
       expect(mockPrisma.lesson.findUnique).toHaveBeenCalledWith({
-        where: { id: '1', isActive: true },
+        where: { id: '1', isActive: true, status: 'published' },
         include: {
           problems: {
             orderBy: { order: 'asc' },
@@ -186,7 +212,7 @@ describe('LessonRepository', () => {
       const result = await LessonRepository.findByIdWithProblems('1', true);
 
       expect(mockPrisma.lesson.findUnique).toHaveBeenCalledWith({
-        where: { id: '1', isActive: true },
+        where: { id: '1', isActive: true, status: 'published' },
         include: {
           problems: {
             orderBy: { order: 'asc' },
@@ -255,7 +281,7 @@ describe('LessonRepository', () => {
       const result = await LessonRepository.findById('1');
 
       expect(mockPrisma.lesson.findUnique).toHaveBeenCalledWith({
-        where: { id: '1', isActive: true },
+        where: { id: '1', isActive: true, status: 'published' },
       });
       expect(result).toEqual(mockLesson);
     });
@@ -278,7 +304,7 @@ describe('LessonRepository', () => {
       await LessonRepository.findById('1', options);
 
       expect(mockPrisma.lesson.findUnique).toHaveBeenCalledWith({
-        where: { id: '1', isActive: true },
+        where: { id: '1', isActive: true, status: 'published' },
         ...options,
       });
     });
@@ -311,7 +337,7 @@ describe('LessonRepository', () => {
       const result = await LessonRepository.findMany();
 
       expect(mockPrisma.lesson.findMany).toHaveBeenCalledWith({
-        where: { isActive: true },
+        where: { isActive: true, status: 'published' },
         orderBy: { order: 'asc' },
       });
       expect(result).toEqual(mockLessons);
@@ -327,7 +353,7 @@ describe('LessonRepository', () => {
       await LessonRepository.findMany(options);
 
       expect(mockPrisma.lesson.findMany).toHaveBeenCalledWith({
-        where: { isActive: true },
+        where: { isActive: true, status: 'published' },
         orderBy: { order: 'asc' },
         ...options,
       });
@@ -348,6 +374,49 @@ describe('LessonRepository', () => {
     });
   });
 
+  describe('setPrerequisites', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+    });
+
+    it('should replace the lesson\'s prerequisites', async () => {
+      mockPrisma.lessonPrerequisite.findMany.mockResolvedValue([{ lessonId: '2', prerequisiteId: '1' }]);
+
+      await LessonRepository.setPrerequisites('3', ['2', '1', '2']);
+
+      expect(mockPrisma.lessonPrerequisite.findMany).toHaveBeenCalledWith({
+        where: { lessonId: { not: '3' } },
+        select: { lessonId: true, prerequisiteId: true },
+      });
+      expect(mockPrisma.lessonPrerequisite.deleteMany).toHaveBeenCalledWith({ where: { lessonId: '3' } });
+      expect(mockPrisma.lessonPrerequisite.createMany).toHaveBeenCalledWith({
+        data: [
+          { lessonId: '3', prerequisiteId: '2' },
+          { lessonId: '3', prerequisiteId: '1' },
+        ],
+      });
+    });
+
+    it('should reject prerequisites that would create a cycle', async () => {
+      mockPrisma.lessonPrerequisite.findMany.mockResolvedValue([
+        { lessonId: '2', prerequisiteId: '1' },
+        { lessonId: '3', prerequisiteId: '2' },
+      ]);
+
+      await expect(LessonRepository.setPrerequisites('1', ['3'])).rejects.toThrow(
+        'Prerequisite cycle: 1 -> 3 -> 2 -> 1'
+      );
+
+      expect(mockPrisma.lessonPrerequisite.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.lessonPrerequisite.createMany).not.toHaveBeenCalled();
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to set lesson prerequisites', {
+        error: 'Prerequisite cycle: 1 -> 3 -> 2 -> 1',
+        lessonId: '1',
+        prerequisiteIds: ['3'],
+      });
+    });
+  });
+
   describe('getStats', () => {
     it('should return lesson statistics', async () => {
       mockPrisma.lesson.count
@@ -358,7 +427,7 @@ describe('LessonRepository', () => {
 
       expect(mockPrisma.lesson.count).toHaveBeenCalledTimes(2);
       expect(mockPrisma.lesson.count).toHaveBeenNthCalledWith(1);
-      expect(mockPrisma.lesson.count).toHaveBeenNthCalledWith(2, { where: { isActive: true } });
+      expect(mockPrisma.lesson.count).toHaveBeenNthCalledWith(2, { where: { isActive: true, status: 'published' } });
       
       expect(result).toEqual({
         totalLessons: 10,
@@ -6,16 +6,34 @@
 // Mock Prisma first
 const mockPrisma = {
   $transaction: jest.fn(),
-  submission: {
+  attempt: {
     findFirst: jest.fn(),
     create: jest.fn(),
     findMany: jest.fn(),
   },
+  attemptAnswer: {
+    findMany: jest.fn(),
+  },
   user: {
     findUnique: jest.fn(),
     update: jest.fn(),
   },
   userProgress: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  streakDay: {
+    createMany: jest.fn(),
+  },
+  reviewItem: {
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+  problem: {
+    findMany: jest.fn(),
+  },
+  skillMastery: {
+    findMany: jest.fn(),
     upsert: jest.fn(),
   },
 };
@@ -31,7 +49,7 @@ jest.mock('../../logger/logger.service', () => ({
   },
 }));
 
-import { SubmissionRepository } from '../submission.repository';
+import { AnswerInput, SubmissionRepository } from '../submission.repository';
 import { LoggerService } from '../../logger/logger.service';
 
 const mockLogger = LoggerService as jest.Mocked<typeof LoggerService>;
@@ -39,6 +57,10 @@ const mockLogger = LoggerService as jest.Mocked<typeof LoggerService>;
 describe('SubmissionRepository', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPrisma.userProgress.findUnique.mockResolvedValue(null);
+    mockPrisma.reviewItem.findMany.mockResolvedValue([]);
+    mockPrisma.problem.findMany.mockResolvedValue([]);
+    mockPrisma.skillMastery.findMany.mockResolvedValue([]);
   });
 
   describe('submitAnswers', () => {
@@ -46,11 +68,12 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const answers = [
-        { problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 },
-        { problemId: 'problem-2', answer: '5', isCorrect: true, xpEarned: 10 },
-        { problemId: 'problem-3', answer: '15', isCorrect: true, xpEarned: 10 },
-        { problemId: 'problem-4', answer: '10', isCorrect: false, xpEarned: 10 },
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '5', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', answer: '15', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-4', problemRevisionId: 'problem-4-revision-1', answer: '10', isCorrect: false, xpEarned: 10 },
       ];
       const attemptId = 'attempt-123';
 
@@ -62,13 +85,12 @@ describe('SubmissionRepository', () => {
         lastActivityDate: null,
       };
 
-      const mockSubmission = {
-        id: 'submission-1',
+      const mockAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
-        problemId: 'problem-1',
-        userAnswer: JSON.stringify(answers),
         attemptId,
+        score: 75,
         isCorrect: false, // not all correct
         xpEarned: 30, // 3 correct * 10
         createdAt: new Date(),
@@ -84,7 +106,7 @@ describe('SubmissionRepository', () => {
       };
 
       // Mock no existing submission
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       // Mock transaction
       mockPrisma.$transaction.mockImplementation(async (callback) => {
@@ -92,7 +114,7 @@ describe('SubmissionRepository', () => {
         mockPrisma.user.findUnique.mockResolvedValue(mockUser);
         
         // Mock submission creation
-        mockPrisma.submission.create.mockResolvedValue(mockSubmission);
+        mockPrisma.attempt.create.mockResolvedValue(mockAttempt);
         
         // Mock user update
         mockPrisma.user.update.mockResolvedValue(updatedUser);
@@ -104,40 +126,53 @@ describe('SubmissionRepository', () => {
       });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
-      expect(mockPrisma.submission.findFirst).toHaveBeenCalledWith({
+      expect(mockPrisma.attempt.findFirst).toHaveBeenCalledWith({
         where: { userId, lessonId, attemptId },
         include: {
           user: {
             select: {
               totalXp: true,
               currentStreak: true,
+              bestStreak: true,
             },
           },
         },
       });
 
-      expect(mockPrisma.submission.create).toHaveBeenCalledWith({
+      expect(mockPrisma.attempt.create).toHaveBeenCalledWith({
         data: {
           userId,
           lessonId,
-          problemId: 'problem-1',
-          userAnswer: JSON.stringify(answers),
+          lessonRevisionId,
           attemptId,
+          score: 75,
           isCorrect: false, // not all answers correct
           xpEarned: 30, // 3 correct * 10
+          answers: {
+            create: [
+              { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', userAnswer: '8', isCorrect: true, xpEarned: 10, timeSpent: undefined, hintsUsed: 0 },
+              { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', userAnswer: '5', isCorrect: true, xpEarned: 10, timeSpent: undefined, hintsUsed: 0 },
+              { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', userAnswer: '15', isCorrect: true, xpEarned: 10, timeSpent: undefined, hintsUsed: 0 },
+              { problemId: 'problem-4', problemRevisionId: 'problem-4-revision-1', userAnswer: '10', isCorrect: false, xpEarned: 0, timeSpent: undefined, hintsUsed: 0 },
+            ],
+          },
         },
       });
 
       expect(result).toEqual({
-        submission: mockSubmission,
+        attempt: mockAttempt,
         xpEarned: 30,
         streakUpdated: true,
         newStreak: 1,
+        bestStreak: 1,
+        streakFreezesUsed: 0,
         totalXp: 30,
         lessonCompleted: false,
+        score: 75,
+        bestScore: 75,
       });
     });
 
@@ -145,36 +180,44 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-123';
 
-      const existingSubmission = {
-        id: 'submission-1',
+      const existingAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
         attemptId,
+        score: 100,
         isCorrect: true,
         xpEarned: 10,
         user: {
           totalXp: 50,
           currentStreak: 2,
+          bestStreak: 4,
         },
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(existingSubmission);
+      mockPrisma.attempt.findFirst.mockResolvedValue(existingAttempt);
+      mockPrisma.userProgress.findUnique.mockResolvedValue({ bestScore: 100 });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
       expect(mockPrisma.$transaction).not.toHaveBeenCalled();
       expect(result).toEqual({
-        submission: existingSubmission,
+        attempt: existingAttempt,
         xpEarned: 10,
         streakUpdated: false,
         newStreak: 2,
+        bestStreak: 4,
+        streakFreezesUsed: 0,
         totalXp: 50,
         lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
       });
       expect(mockLogger.info).toHaveBeenCalledWith('Returning existing submission (idempotent)', {
         userId,
@@ -187,7 +230,8 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-123';
 
       // User with previous day activity
@@ -201,8 +245,8 @@ describe('SubmissionRepository', () => {
         lastActivityDate: yesterday,
       };
 
-      const mockSubmission = {
-        id: 'submission-1',
+      const mockAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
         attemptId,
@@ -218,11 +262,11 @@ describe('SubmissionRepository', () => {
         lastActivityDate: new Date(),
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         mockPrisma.user.findUnique.mockResolvedValue(mockUser);
-        mockPrisma.submission.create.mockResolvedValue(mockSubmission);
+        mockPrisma.attempt.create.mockResolvedValue(mockAttempt);
         mockPrisma.user.update.mockResolvedValue(updatedUser);
         mockPrisma.userProgress.upsert.mockResolvedValue({});
 
@@ -230,11 +274,12 @@ describe('SubmissionRepository', () => {
       });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
       expect(result.streakUpdated).toBe(true);
       expect(result.newStreak).toBe(4);
+      expect(result.bestStreak).toBe(5);
       expect(result.xpEarned).toBe(10);
     });
 
@@ -242,7 +287,8 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-123';
 
       // User with activity 3 days ago (skipped yesterday)
@@ -256,8 +302,8 @@ describe('SubmissionRepository', () => {
         lastActivityDate: threeDaysAgo,
       };
 
-      const mockSubmission = {
-        id: 'submission-1',
+      const mockAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
         attemptId,
@@ -273,11 +319,11 @@ describe('SubmissionRepository', () => {
         lastActivityDate: new Date(),
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         mockPrisma.user.findUnique.mockResolvedValue(mockUser);
-        mockPrisma.submission.create.mockResolvedValue(mockSubmission);
+        mockPrisma.attempt.create.mockResolvedValue(mockAttempt);
         mockPrisma.user.update.mockResolvedValue(updatedUser);
         mockPrisma.userProgress.upsert.mockResolvedValue({});
 
@@ -285,18 +331,20 @@ describe('SubmissionRepository', () => {
       });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
       expect(result.streakUpdated).toBe(true);
       expect(result.newStreak).toBe(1); // reset because of missed day
+      expect(result.bestStreak).toBe(8); // best streak is kept
     });
 
     it('should maintain streak when user submits multiple times same day', async () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-456';
 
       // User with activity today
@@ -309,8 +357,8 @@ describe('SubmissionRepository', () => {
         lastActivityDate: today,
       };
 
-      const mockSubmission = {
-        id: 'submission-2',
+      const mockAttempt = {
+        id: 'attempt-row-2',
         userId,
         lessonId,
         attemptId,
@@ -326,11 +374,11 @@ describe('SubmissionRepository', () => {
         lastActivityDate: today,
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         mockPrisma.user.findUnique.mockResolvedValue(mockUser);
-        mockPrisma.submission.create.mockResolvedValue(mockSubmission);
+        mockPrisma.attempt.create.mockResolvedValue(mockAttempt);
         mockPrisma.user.update.mockResolvedValue(updatedUser);
         mockPrisma.userProgress.upsert.mockResolvedValue({});
 
@@ -338,7 +386,7 @@ describe('SubmissionRepository', () => {
       });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
       expect(result.streakUpdated).toBe(false);
@@ -349,10 +397,11 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'non-existent';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-123';
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         mockPrisma.user.findUnique.mockResolvedValue(null);
@@ -361,7 +410,7 @@ describe('SubmissionRepository', () => {
 
       // Act & Assert
       await expect(
-        SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId)
+        SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId)
       ).rejects.toThrow('User not found');
     });
 
@@ -369,16 +418,17 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const answers = [{ problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
       const attemptId = 'attempt-123';
 
       const error = new Error('Database transaction failed');
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
       mockPrisma.$transaction.mockRejectedValue(error);
 
       // Act & Assert
       await expect(
-        SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId)
+        SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId)
       ).rejects.toThrow('Database transaction failed');
 
       expect(mockLogger.error).toHaveBeenCalledWith('Failed to process submission', {
@@ -393,10 +443,11 @@ describe('SubmissionRepository', () => {
       // Arrange - all answers correct
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const answers = [
-        { problemId: 'problem-1', answer: '8', isCorrect: true, xpEarned: 10 },
-        { problemId: 'problem-2', answer: '5', isCorrect: true, xpEarned: 10 },
-        { problemId: 'problem-3', answer: '15', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '5', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', answer: '15', isCorrect: true, xpEarned: 10 },
       ];
       const attemptId = 'attempt-123';
 
@@ -408,8 +459,8 @@ describe('SubmissionRepository', () => {
         lastActivityDate: null,
       };
 
-      const mockSubmission = {
-        id: 'submission-1',
+      const mockAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
         attemptId,
@@ -417,11 +468,11 @@ describe('SubmissionRepository', () => {
         xpEarned: 30,
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         mockPrisma.user.findUnique.mockResolvedValue(mockUser);
-        mockPrisma.submission.create.mockResolvedValue(mockSubmission);
+        mockPrisma.attempt.create.mockResolvedValue(mockAttempt);
         mockPrisma.user.update.mockResolvedValue({ ...mockUser, totalXp: 30, currentStreak: 1 });
         mockPrisma.userProgress.upsert.mockResolvedValue({});
 
@@ -429,7 +480,7 @@ describe('SubmissionRepository', () => {
       });
 
       // Act
-      const result = await SubmissionRepository.submitAnswers(userId, lessonId, answers, attemptId);
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, attemptId);
 
       // Assert
       expect(result.lessonCompleted).toBe(true);
@@ -451,14 +502,512 @@ describe('SubmissionRepository', () => {
     });
   });
 
+  describe('submitAnswers across attempts', () => {
+    const userId = 'user-1';
+    const lessonId = 'lesson-1';
+    const lessonRevisionId = 'lesson-1-revision-1';
+    const firstCompletion = new Date('2024-01-10T09:00:00Z');
+
+    /**
+     * Run one attempt against the given stored progress and return what was written
+     */
+    const submitWithHistory = async (
+      answers: AnswerInput[],
+      storedProgress: Record<string, unknown> | null,
+      user = { totalXp: 100, currentStreak: 2, bestStreak: 6, lastActivityDate: new Date() }
+    ) => {
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue(user);
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        mockPrisma.user.update.mockResolvedValue({});
+        mockPrisma.userProgress.findUnique.mockResolvedValue(storedProgress);
+        mockPrisma.userProgress.upsert.mockResolvedValue({});
+
+        return await callback(mockPrisma);
+      });
+
+      const result = await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, 'attempt-next');
+      const [{ update, create }] = mockPrisma.userProgress.upsert.mock.calls[0];
+      return { result, update, create };
+    };
+
+    const twoOfFour = [
+      { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+      { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '5', isCorrect: true, xpEarned: 10 },
+      { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', answer: '1', isCorrect: false, xpEarned: 10 },
+      { problemId: 'problem-4', problemRevisionId: 'problem-4-revision-1', answer: '2', isCorrect: false, xpEarned: 10 },
+    ];
+
+    const allFour = twoOfFour.map(answer => ({ ...answer, isCorrect: true }));
+
+    it('should keep the best score when a retry scores lower', async () => {
+      // Arrange - an earlier attempt scored 75
+      const stored = {
+        isCompleted: false,
+        completionDate: null,
+        bestScore: 75,
+        attemptsCount: 1,
+        totalXpEarned: 30,
+      };
+
+      // Act
+      const { result, update } = await submitWithHistory(twoOfFour, stored);
+
+      // Assert
+      expect(update).toEqual(expect.objectContaining({
+        score: 50,
+        bestScore: 75,
+        attemptsCount: 2,
+        totalXpEarned: 50,
+        isCompleted: false,
+        completionDate: null,
+      }));
+      expect(result.score).toBe(50);
+      expect(result.bestScore).toBe(75);
+    });
+
+    it('should raise the best score when a retry scores higher', async () => {
+      // Arrange
+      const stored = {
+        isCompleted: false,
+        completionDate: null,
+        bestScore: 25,
+        attemptsCount: 3,
+        totalXpEarned: 30,
+      };
+
+      // Act
+      const { result, update } = await submitWithHistory(twoOfFour, stored);
+
+      // Assert
+      expect(update.bestScore).toBe(50);
+      expect(update.attemptsCount).toBe(4);
+      expect(result.bestScore).toBe(50);
+    });
+
+    it('should record partial progress on the first attempt without completing the lesson', async () => {
+      // Act
+      const { create, result } = await submitWithHistory(twoOfFour, null);
+
+      // Assert
+      expect(create).toEqual(expect.objectContaining({
+        userId,
+        lessonId,
+        isCompleted: false,
+        completionDate: null,
+        score: 50,
+        bestScore: 50,
+        attemptsCount: 1,
+        totalXpEarned: 20,
+      }));
+      expect(result.lessonCompleted).toBe(false);
+    });
+
+    it('should set the completion date on the first perfect attempt', async () => {
+      // Arrange
+      const stored = {
+        isCompleted: false,
+        completionDate: null,
+        bestScore: 50,
+        attemptsCount: 1,
+        totalXpEarned: 20,
+      };
+
+      // Act
+      const { update } = await submitWithHistory(allFour, stored);
+
+      // Assert
+      expect(update.isCompleted).toBe(true);
+      expect(update.completionDate).toBeInstanceOf(Date);
+      expect(update.bestScore).toBe(100);
+    });
+
+    it('should keep a completed lesson completed after a weaker retry', async () => {
+      // Arrange
+      const stored = {
+        isCompleted: true,
+        completionDate: firstCompletion,
+        bestScore: 100,
+        attemptsCount: 2,
+        totalXpEarned: 60,
+      };
+
+      // Act
+      const { result, update } = await submitWithHistory(twoOfFour, stored);
+
+      // Assert
+      expect(update).toEqual(expect.objectContaining({
+        isCompleted: true,
+        completionDate: firstCompletion,
+        score: 50,
+        bestScore: 100,
+        attemptsCount: 3,
+      }));
+      expect(result.lessonCompleted).toBe(false); // this attempt did not pass
+      expect(result.bestScore).toBe(100);
+    });
+
+    it('should return the stored best streak when the current streak is lower', async () => {
+      // Arrange - yesterday's activity extends a streak of 2 while the best is 6
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+
+      // Act
+      const { result } = await submitWithHistory(allFour, null, {
+        totalXp: 100,
+        currentStreak: 2,
+        bestStreak: 6,
+        lastActivityDate: yesterday,
+      });
+
+      // Assert
+      expect(result.newStreak).toBe(3);
+      expect(result.bestStreak).toBe(6);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ currentStreak: 3, bestStreak: 6 }),
+      }));
+    });
+
+    it('should raise the best streak when the current streak passes it', async () => {
+      // Arrange
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+
+      // Act
+      const { result } = await submitWithHistory(allFour, null, {
+        totalXp: 100,
+        currentStreak: 6,
+        bestStreak: 6,
+        lastActivityDate: yesterday,
+      });
+
+      // Assert
+      expect(result.newStreak).toBe(7);
+      expect(result.bestStreak).toBe(7);
+    });
+  });
+
+  describe('submitAnswers streaks in the learner timezone', () => {
+    const userId = 'user-1';
+    const lessonId = 'lesson-1';
+    const lessonRevisionId = 'lesson-1-revision-1';
+    const answers = [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 }];
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const submitAt = async (now: string, user: Record<string, unknown>) => {
+      jest.useFakeTimers({ now: new Date(now) });
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue({ totalXp: 0, bestStreak: 10, ...user });
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        mockPrisma.user.update.mockResolvedValue({});
+        mockPrisma.userProgress.upsert.mockResolvedValue({});
+        mockPrisma.streakDay.createMany.mockResolvedValue({ count: 1 });
+
+        return await callback(mockPrisma);
+      });
+
+      return await SubmissionRepository.submitAnswers(userId, lessonId, lessonRevisionId, answers, 'attempt-tz');
+    };
+
+    it('should count the next local day in Jakarta even when UTC is still on the same day', async () => {
+      // 2024-01-14 20:00 Jakarta, then 2024-01-15 08:00 Jakarta (both 2024-01-14 in UTC)
+      const result = await submitAt('2024-01-15T01:00:00Z', {
+        currentStreak: 3,
+        lastActivityDate: new Date('2024-01-14T13:00:00Z'),
+        streakFreezes: 0,
+        timezone: 'Asia/Jakarta',
+      });
+
+      expect(result.streakUpdated).toBe(true);
+      expect(result.newStreak).toBe(4);
+      expect(mockPrisma.streakDay.createMany).toHaveBeenCalledWith({
+        data: [{ userId, date: new Date('2024-01-15T00:00:00.000Z'), status: 'active' }],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should keep the same local day in New York when UTC has moved on', async () => {
+      // 2024-01-14 18:00 and 23:30 New York (the second is already 2024-01-15 in UTC)
+      const result = await submitAt('2024-01-15T04:30:00Z', {
+        currentStreak: 3,
+        lastActivityDate: new Date('2024-01-14T23:00:00Z'),
+        streakFreezes: 0,
+        timezone: 'America/New_York',
+      });
+
+      expect(result.streakUpdated).toBe(false);
+      expect(result.newStreak).toBe(3);
+    });
+
+    it('should spend freezes on missed days instead of resetting the streak', async () => {
+      // Last active Jan 11, back on Jan 14: Jan 12 and 13 are covered by two freezes
+      const result = await submitAt('2024-01-14T09:00:00Z', {
+        currentStreak: 5,
+        lastActivityDate: new Date('2024-01-11T09:00:00Z'),
+        streakFreezes: 2,
+        timezone: 'UTC',
+      });
+
+      expect(result.newStreak).toBe(6);
+      expect(result.streakFreezesUsed).toBe(2);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ currentStreak: 6, streakFreezes: 0 }),
+      }));
+      expect(mockPrisma.streakDay.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId, date: new Date('2024-01-12T00:00:00.000Z'), status: 'frozen' },
+          { userId, date: new Date('2024-01-13T00:00:00.000Z'), status: 'frozen' },
+          { userId, date: new Date('2024-01-14T00:00:00.000Z'), status: 'active' },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should reset the streak and keep freezes when the gap is longer than the freezes held', async () => {
+      const result = await submitAt('2024-01-14T09:00:00Z', {
+        currentStreak: 5,
+        lastActivityDate: new Date('2024-01-10T09:00:00Z'),
+        streakFreezes: 2,
+        timezone: 'UTC',
+      });
+
+      expect(result.newStreak).toBe(1);
+      expect(result.streakFreezesUsed).toBe(0);
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ currentStreak: 1, streakFreezes: 2 }),
+      }));
+    });
+  });
+
+  describe('submitAnswers review queue', () => {
+    const userId = 'user-1';
+    const now = new Date('2024-01-15T10:00:00Z');
+    const tomorrow = new Date('2024-01-16T10:00:00Z');
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should queue missed problems and reschedule the queued problems answered again', async () => {
+      // Arrange - problem-2 is already in the queue after one miss
+      jest.useFakeTimers({ now });
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue({ totalXp: 0, currentStreak: 0, bestStreak: 0, lastActivityDate: null });
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        mockPrisma.reviewItem.findMany.mockResolvedValue([
+          { problemId: 'problem-2', easeFactor: 1.96, interval: 1, repetitions: 0, lapses: 1 },
+        ]);
+
+        return await callback(mockPrisma);
+      });
+
+      // Act
+      await SubmissionRepository.submitAnswers(userId, 'lesson-1', 'lesson-1-revision-1', [
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '5', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', answer: '1', isCorrect: false, xpEarned: 10 },
+      ], 'attempt-review');
+
+      // Assert - the never-missed problem-1 stays out of the queue
+      expect(mockPrisma.reviewItem.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.reviewItem.upsert).toHaveBeenCalledWith({
+        where: { userId_problemId: { userId, problemId: 'problem-2' } },
+        update: { easeFactor: 1.96, interval: 1, repetitions: 1, lapses: 1, dueAt: tomorrow, lastReviewedAt: now },
+        create: expect.any(Object),
+      });
+      expect(mockPrisma.reviewItem.upsert).toHaveBeenCalledWith({
+        where: { userId_problemId: { userId, problemId: 'problem-3' } },
+        update: expect.any(Object),
+        create: {
+          userId,
+          problemId: 'problem-3',
+          easeFactor: 1.96,
+          interval: 1,
+          repetitions: 0,
+          lapses: 1,
+          dueAt: tomorrow,
+          lastReviewedAt: now,
+        },
+      });
+    });
+  });
+
+  describe('submitAnswers skill mastery', () => {
+    const userId = 'user-1';
+    const now = new Date('2024-01-15T10:00:00Z');
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should trace every skill of the lesson from the answers', async () => {
+      // Arrange - addition was practiced before, subtraction is new
+      jest.useFakeTimers({ now });
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue({ totalXp: 0, currentStreak: 0, bestStreak: 0, lastActivityDate: null });
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        const skills = [{ skillId: 'skill-addition' }, { skillId: 'skill-subtraction' }];
+        mockPrisma.problem.findMany.mockResolvedValue([
+          { id: 'problem-1', problemType: 'input', lesson: { skills } },
+          { id: 'problem-2', problemType: 'multiple_choice', lesson: { skills } },
+        ]);
+        mockPrisma.skillMastery.findMany.mockResolvedValue([
+          { skillId: 'skill-addition', pKnown: 0.8455, attempts: 1, correctCount: 1 },
+        ]);
+
+        return await callback(mockPrisma);
+      });
+
+      // Act
+      await SubmissionRepository.submitAnswers(userId, 'lesson-1', 'lesson-1-revision-1', [
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+        { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '5', isCorrect: false, xpEarned: 10 },
+      ], 'attempt-mastery');
+
+      // Assert
+      expect(mockPrisma.skillMastery.findMany).toHaveBeenCalledWith({
+        where: { userId, skillId: { in: ['skill-addition', 'skill-subtraction'] } },
+      });
+      expect(mockPrisma.skillMastery.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.skillMastery.upsert).toHaveBeenCalledWith({
+        where: { userId_skillId: { userId, skillId: 'skill-addition' } },
+        update: { pKnown: expect.any(Number), attempts: 3, correctCount: 2, lastPracticedAt: now },
+        create: expect.any(Object),
+      });
+      expect(mockPrisma.skillMastery.upsert).toHaveBeenCalledWith({
+        where: { userId_skillId: { userId, skillId: 'skill-subtraction' } },
+        update: expect.any(Object),
+        create: {
+          userId,
+          skillId: 'skill-subtraction',
+          pKnown: expect.any(Number),
+          attempts: 2,
+          correctCount: 1,
+          lastPracticedAt: now,
+        },
+      });
+    });
+
+    it('should skip mastery when the lesson teaches no skills', async () => {
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue({ totalXp: 0, currentStreak: 0, bestStreak: 0, lastActivityDate: null });
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        mockPrisma.problem.findMany.mockResolvedValue([
+          { id: 'problem-1', problemType: 'input', lesson: { skills: [] } },
+        ]);
+
+        return await callback(mockPrisma);
+      });
+
+      await SubmissionRepository.submitAnswers(userId, 'lesson-1', 'lesson-1-revision-1', [
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+      ], 'attempt-no-skills');
+
+      expect(mockPrisma.skillMastery.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.skillMastery.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should log and fail the submission when mastery cannot be recorded', async () => {
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
+      mockPrisma.$transaction.mockImplementation(async (callback) => {
+        mockPrisma.user.findUnique.mockResolvedValue({ totalXp: 0, currentStreak: 0, bestStreak: 0, lastActivityDate: null });
+        mockPrisma.attempt.create.mockResolvedValue({ id: 'attempt-row' });
+        mockPrisma.problem.findMany.mockResolvedValue([
+          { id: 'problem-1', problemType: 'input', lesson: { skills: [{ skillId: 'skill-addition' }] } },
+        ]);
+        mockPrisma.skillMastery.upsert.mockRejectedValue(new Error('Deadlock detected'));
+
+        return await callback(mockPrisma);
+      });
+
+      await expect(SubmissionRepository.submitAnswers(userId, 'lesson-1', 'lesson-1-revision-1', [
+        { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '8', isCorrect: true, xpEarned: 10 },
+      ], 'attempt-deadlock')).rejects.toThrow('Deadlock detected');
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to record skill practice', {
+        error: 'Deadlock detected',
+        userId,
+      });
+    });
+  });
+
+  describe('getUserSubmissions', () => {
+    it('should return one entry per answered problem', async () => {
+      // Arrange
+      const userId = 'user-1';
+      const submittedAt = new Date('2024-01-02');
+      mockPrisma.attemptAnswer.findMany.mockResolvedValue([
+        {
+          id: 'answer-1',
+          problemId: 'problem-1',
+          isCorrect: true,
+          xpEarned: 10,
+          timeSpent: 20,
+          hintsUsed: 0,
+          attempt: { lessonId: 'lesson-1', submittedAt },
+          problem: { difficulty: 'easy' },
+        },
+        {
+          id: 'answer-2',
+          problemId: 'problem-2',
+          isCorrect: false,
+          xpEarned: 0,
+          timeSpent: null,
+          hintsUsed: 1,
+          attempt: { lessonId: 'lesson-1', submittedAt },
+          problem: { difficulty: 'medium' },
+        },
+      ]);
+
+      // Act
+      const result = await SubmissionRepository.getUserSubmissions(userId);
+
+      // Assert
+      expect(mockPrisma.attemptAnswer.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { attempt: { userId } } })
+      );
+      expect(result).toEqual([
+        {
+          problemId: 'problem-1',
+          lessonId: 'lesson-1',
+          isCorrect: true,
+          xpEarned: 10,
+          timeSpent: 20,
+          hintsUsed: 0,
+          submittedAt,
+          difficulty: 'easy',
+        },
+        {
+          problemId: 'problem-2',
+          lessonId: 'lesson-1',
+          isCorrect: false,
+          xpEarned: 0,
+          timeSpent: null,
+          hintsUsed: 1,
+          submittedAt,
+          difficulty: 'medium',
+        },
+      ]);
+    });
+  });
+
   describe('findUserLessonSubmissions', () => {
     it('should return user submissions for a lesson', async () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
-      const mockSubmissions = [
+      const lessonRevisionId = 'lesson-1-revision-1';
+      const mockAttempts = [
         {
-          id: 'submission-1',
+          id: 'attempt-row-1',
           userId,
           lessonId,
           attemptId: 'attempt-1',
@@ -467,7 +1016,7 @@ describe('SubmissionRepository', () => {
           createdAt: new Date('2024-01-02'),
         },
         {
-          id: 'submission-2',
+          id: 'attempt-row-2',
           userId,
           lessonId,
           attemptId: 'attempt-2',
@@ -477,25 +1026,27 @@ describe('SubmissionRepository', () => {
         },
       ];
 
-      mockPrisma.submission.findMany.mockResolvedValue(mockSubmissions);
+      mockPrisma.attempt.findMany.mockResolvedValue(mockAttempts);
 
       // Act
       const result = await SubmissionRepository.findUserLessonSubmissions(userId, lessonId);
 
       // Assert
-      expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
+      expect(mockPrisma.attempt.findMany).toHaveBeenCalledWith({
         where: { userId, lessonId },
         orderBy: { createdAt: 'desc' },
+        include: { answers: true },
       });
-      expect(result).toEqual(mockSubmissions);
+      expect(result).toEqual(mockAttempts);
     });
 
     it('should handle database errors', async () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const error = new Error('Database error');
-      mockPrisma.submission.findMany.mockRejectedValue(error);
+      mockPrisma.attempt.findMany.mockRejectedValue(error);
 
       // Act & Assert
       await expect(
@@ -515,22 +1066,23 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const attemptId = 'attempt-123';
 
-      const mockSubmission = {
-        id: 'submission-1',
+      const mockAttempt = {
+        id: 'attempt-row-1',
         userId,
         lessonId,
         attemptId,
       };
 
-      mockPrisma.submission.findFirst.mockResolvedValue(mockSubmission);
+      mockPrisma.attempt.findFirst.mockResolvedValue(mockAttempt);
 
       // Act
       const result = await SubmissionRepository.attemptExists(userId, lessonId, attemptId);
 
       // Assert
-      expect(mockPrisma.submission.findFirst).toHaveBeenCalledWith({
+      expect(mockPrisma.attempt.findFirst).toHaveBeenCalledWith({
         where: { userId, lessonId, attemptId },
       });
       expect(result).toBe(true);
@@ -540,9 +1092,10 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const attemptId = 'attempt-123';
 
-      mockPrisma.submission.findFirst.mockResolvedValue(null);
+      mockPrisma.attempt.findFirst.mockResolvedValue(null);
 
       // Act
       const result = await SubmissionRepository.attemptExists(userId, lessonId, attemptId);
@@ -555,9 +1108,10 @@ describe('SubmissionRepository', () => {
       // Arrange
       const userId = 'user-1';
       const lessonId = 'lesson-1';
+      const lessonRevisionId = 'lesson-1-revision-1';
       const attemptId = 'attempt-123';
       const error = new Error('Database error');
-      mockPrisma.submission.findFirst.mockRejectedValue(error);
+      mockPrisma.attempt.findFirst.mockRejectedValue(error);
 
       // Act & Assert
       await expect(
@@ -0,0 +1,105 @@
+import { Achievement, UserAchievement } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import { LEARNER_VISIBLE_LESSON } from './lesson.repository';
+
+/**
+ * Lesson counts the achievement rules are checked against
+ */
+export interface LessonAchievementCounts {
+  lessonsCompleted: number;
+  perfectLessons: number;
+  activeLessons: number;
+  activeLessonsCompleted: number;
+}
+
+/**
+ * Achievement Repository
+ * Handles database operations for Achievement and UserAchievement entities
+ */
+export class AchievementRepository {
+  /**
+   * Get all active achievement definitions in display order
+   */
+  static async findActive(): Promise<Achievement[]> {
+    try {
+      return await prisma.achievement.findMany({
+        where: { isActive: true },
+        orderBy: { order: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the achievements a user has unlocked
+   */
+  static async findUnlocked(userId: string): Promise<UserAchievement[]> {
+    try {
+      return await prisma.userAchievement.findMany({
+        where: { userId },
+        orderBy: { unlockedAt: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch unlocked achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record achievement unlocks; achievements the user already holds keep their original unlock
+   */
+  static async unlock(
+    userId: string,
+    achievementIds: string[],
+    attemptId: string | null,
+    unlockedAt: Date
+  ): Promise<void> {
+    if (achievementIds.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.userAchievement.createMany({
+        data: achievementIds.map(achievementId => ({ userId, achievementId, attemptId, unlockedAt })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to unlock achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        achievementIds,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count completed and perfect lessons for a user, and the lessons available to complete
+   */
+  static async countLessons(userId: string): Promise<LessonAchievementCounts> {
+    try {
+      const [lessonsCompleted, perfectLessons, activeLessons, activeLessonsCompleted] = await Promise.all([
+        prisma.userProgress.count({ where: { userId, isCompleted: true } }),
+        prisma.userProgress.count({ where: { userId, bestScore: { gte: 100 } } }),
+        prisma.lesson.count({ where: LEARNER_VISIBLE_LESSON }),
+        prisma.userProgress.count({ where: { userId, isCompleted: true, lesson: LEARNER_VISIBLE_LESSON } }),
+      ]);
+
+      return { lessonsCompleted, perfectLessons, activeLessons, activeLessonsCompleted };
+    } catch (error) {
+      LoggerService.error('Failed to count lessons for achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface ActivityTotals {
+  xpThisWeek: number;
+  xpThisMonth: number;
+  totalSeconds: number;
+  weekSeconds: number;
+  // Attempts that reported how long they took
+  timedAttempts: number;
+}
+
+export interface DailyActivity {
+  date: string;
+  xpEarned: number;
+  lessonsCompleted: number;
+  seconds: number;
+}
+
+/**
+ * Activity Repository
+ * Aggregates a learner's submission history by local day in SQL, so stats never load every attempt.
+ * Dates are "YYYY-MM-DD" in the learner's timezone; XP counts lesson attempts and review answers.
+ */
+export class ActivityRepository {
+  /**
+   * XP earned since the local week and month starts, and time spent overall and this week
+   */
+  static async sumActivity(
+    userId: string,
+    timeZone: string,
+    weekStart: string,
+    monthStart: string
+  ): Promise<ActivityTotals> {
+    try {
+      const [totals] = await prisma.$queryRaw<ActivityTotals[]>`
+        SELECT
+          COALESCE(SUM(xp) FILTER (WHERE day >= ${weekStart}::date), 0)::int AS "xpThisWeek",
+          COALESCE(SUM(xp) FILTER (WHERE day >= ${monthStart}::date), 0)::int AS "xpThisMonth",
+          COALESCE(SUM(seconds), 0)::int AS "totalSeconds",
+          COALESCE(SUM(seconds) FILTER (WHERE day >= ${weekStart}::date), 0)::int AS "weekSeconds",
+          COUNT(seconds)::int AS "timedAttempts"
+        FROM (
+          SELECT (("submittedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date AS day,
+                 "xpEarned" AS xp, "timeSpent" AS seconds
+          FROM "attempts"
+          WHERE "userId" = ${userId}
+          UNION ALL
+          SELECT (("reviewedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date AS day,
+                 "xpEarned" AS xp, NULL AS seconds
+          FROM "review_answers"
+          WHERE "userId" = ${userId}
+        ) activity
+      `;
+      return totals;
+    } catch (error) {
+      LoggerService.error('Failed to sum activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * XP, completed lessons and time spent per local day in [from, to]; days without activity are left out
+   */
+  static async findDailyActivity(
+    userId: string,
+    timeZone: string,
+    from: string,
+    to: string
+  ): Promise<DailyActivity[]> {
+    try {
+      return await prisma.$queryRaw<DailyActivity[]>`
+        SELECT
+          to_char(day, 'YYYY-MM-DD') AS "date",
+          COALESCE(SUM(xp), 0)::int AS "xpEarned",
+          COALESCE(SUM(completed), 0)::int AS "lessonsCompleted",
+          COALESCE(SUM(seconds), 0)::int AS "seconds"
+        FROM (
+          SELECT (("submittedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date AS day,
+                 "xpEarned" AS xp, "timeSpent" AS seconds, 0 AS completed
+          FROM "attempts"
+          WHERE "userId" = ${userId}
+          UNION ALL
+          SELECT (("reviewedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date AS day,
+                 "xpEarned" AS xp, NULL AS seconds, 0 AS completed
+          FROM "review_answers"
+          WHERE "userId" = ${userId}
+          UNION ALL
+          SELECT (("completionDate" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date AS day,
+                 0 AS xp, NULL AS seconds, 1 AS completed
+          FROM "user_progress"
+          WHERE "userId" = ${userId} AND "isCompleted" AND "completionDate" IS NOT NULL
+        ) activity
+        WHERE day BETWEEN ${from}::date AND ${to}::date
+        GROUP BY day
+        ORDER BY day
+      `;
+    } catch (error) {
+      LoggerService.error('Failed to fetch daily activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        from,
+        to,
+      });
+      throw error;
+    }
+  }
+}
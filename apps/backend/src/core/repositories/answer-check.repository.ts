@@ -0,0 +1,60 @@
+import { AnswerCheck } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface AnswerCheckInput {
+  answer: string;
+  isCorrect: boolean;
+  xpEarned: number;
+  hintsUsed: number;
+}
+
+/**
+ * Answer Check Repository
+ * Stores the answers learners check one problem at a time during an attempt
+ */
+export class AnswerCheckRepository {
+  /**
+   * Get the answers checked during a user's attempt
+   */
+  static async findByAttempt(userId: string, attemptId: string): Promise<AnswerCheck[]> {
+    try {
+      return await prisma.answerCheck.findMany({
+        where: { userId, attemptId },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to find answer checks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a checked answer; the first check of a problem is kept and returned on later checks
+   */
+  static async recordCheck(
+    userId: string,
+    attemptId: string,
+    problemId: string,
+    input: AnswerCheckInput
+  ): Promise<AnswerCheck> {
+    try {
+      return await prisma.answerCheck.upsert({
+        where: { userId_attemptId_problemId: { userId, attemptId, problemId } },
+        update: {},
+        create: { userId, attemptId, problemId, ...input },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to record answer check', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+        problemId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { AttemptDraft, Prisma } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface AttemptDraftInput {
+  answers: Prisma.InputJsonValue;
+  currentIndex: number;
+  expiresAt: Date;
+}
+
+/**
+ * Attempt Draft Repository
+ * Keeps each learner's lesson attempt in progress, one per lesson, until it is submitted or expires
+ */
+export class AttemptDraftRepository {
+  /**
+   * Get the unexpired attempt in progress for a lesson
+   */
+  static async findActive(userId: string, lessonId: string): Promise<AttemptDraft | null> {
+    try {
+      return await prisma.attemptDraft.findFirst({
+        where: { userId, lessonId, expiresAt: { gt: new Date() } },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to find attempt draft', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start a new attempt for a lesson, replacing an expired one. When another device
+   * starts one at the same time, the attempt created first is returned to both.
+   */
+  static async start(userId: string, lessonId: string, attemptId: string, expiresAt: Date): Promise<AttemptDraft> {
+    try {
+      await prisma.attemptDraft.deleteMany({
+        where: { userId, lessonId, expiresAt: { lte: new Date() } },
+      });
+      return await prisma.attemptDraft.create({
+        data: { userId, lessonId, attemptId, answers: {}, currentIndex: 0, expiresAt },
+      });
+    } catch (error) {
+      // Unique constraint on (userId, lessonId): the other request's attempt won
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await prisma.attemptDraft.findUnique({
+          where: { userId_lessonId: { userId, lessonId } },
+        });
+        if (existing) {
+          return existing;
+        }
+      }
+
+      LoggerService.error('Failed to start attempt draft', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Save the answers so far of an unexpired attempt
+   * Returns false when the attempt is no longer in progress
+   */
+  static async save(
+    userId: string,
+    lessonId: string,
+    attemptId: string,
+    input: AttemptDraftInput
+  ): Promise<boolean> {
+    try {
+      const result = await prisma.attemptDraft.updateMany({
+        where: { userId, lessonId, attemptId, expiresAt: { gt: new Date() } },
+        data: input,
+      });
+      return result.count > 0;
+    } catch (error) {
+      LoggerService.error('Failed to save attempt draft', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        lessonId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Discard an attempt once it has been submitted
+   */
+  static async deleteByAttempt(userId: string, attemptId: string): Promise<void> {
+    try {
+      await prisma.attemptDraft.deleteMany({
+        where: { userId, attemptId },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to delete attempt draft', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+}
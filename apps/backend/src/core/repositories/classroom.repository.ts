@@ -0,0 +1,340 @@
+import { Attempt, Classroom, ClassroomAssignment, ClassroomMember, Lesson, UserProgress } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface ClassroomWithCounts extends Classroom {
+  teacher: { id: string; displayName: string | null };
+  _count: { members: number; assignments: number };
+}
+
+export interface AssignmentWithLesson extends ClassroomAssignment {
+  lesson: Pick<Lesson, 'id' | 'title' | 'difficulty' | 'xpReward'>;
+}
+
+export interface MemberWithUser extends ClassroomMember {
+  user: { id: string; displayName: string | null; username: string | null; avatar: string | null };
+}
+
+export interface ClassroomInput {
+  name: string;
+  description?: string | null;
+}
+
+const CLASSROOM_INCLUDE = {
+  teacher: { select: { id: true, displayName: true } },
+  _count: { select: { members: true, assignments: true } },
+} as const;
+
+const ASSIGNMENT_INCLUDE = {
+  lesson: { select: { id: true, title: true, difficulty: true, xpReward: true } },
+} as const;
+
+/**
+ * Classroom Repository
+ * Handles database operations for Classroom, ClassroomMember and ClassroomAssignment entities
+ */
+export class ClassroomRepository {
+  /**
+   * Get the classrooms a user teaches or belongs to, newest first
+   */
+  static async findForUser(userId: string): Promise<ClassroomWithCounts[]> {
+    try {
+      return await prisma.classroom.findMany({
+        where: {
+          OR: [{ teacherId: userId }, { members: { some: { userId } } }],
+        },
+        include: CLASSROOM_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classrooms for user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<ClassroomWithCounts | null> {
+    try {
+      return await prisma.classroom.findUnique({
+        where: { id },
+        include: CLASSROOM_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async findByJoinCode(joinCode: string): Promise<ClassroomWithCounts | null> {
+    try {
+      return await prisma.classroom.findUnique({
+        where: { joinCode },
+        include: CLASSROOM_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom by join code', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  static async create(teacherId: string, joinCode: string, input: ClassroomInput): Promise<ClassroomWithCounts> {
+    try {
+      return await prisma.classroom.create({
+        data: { ...input, teacherId, joinCode },
+        include: CLASSROOM_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        teacherId,
+      });
+      throw error;
+    }
+  }
+
+  static async update(
+    id: string,
+    data: Partial<ClassroomInput> & { joinCode?: string }
+  ): Promise<ClassroomWithCounts> {
+    try {
+      return await prisma.classroom.update({
+        where: { id },
+        data,
+        include: CLASSROOM_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      await prisma.classroom.delete({ where: { id } });
+    } catch (error) {
+      LoggerService.error('Failed to delete classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Students of a classroom in the order they joined
+   */
+  static async findMembers(classroomId: string): Promise<MemberWithUser[]> {
+    try {
+      return await prisma.classroomMember.findMany({
+        where: { classroomId },
+        include: { user: { select: { id: true, displayName: true, username: true, avatar: true } } },
+        orderBy: { joinedAt: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  static async isMember(classroomId: string, userId: string): Promise<boolean> {
+    try {
+      const member = await prisma.classroomMember.findUnique({
+        where: { classroomId_userId: { classroomId, userId } },
+      });
+      return member !== null;
+    } catch (error) {
+      LoggerService.error('Failed to check classroom membership', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Enroll a student; joining twice keeps the original join date
+   */
+  static async addMember(classroomId: string, userId: string): Promise<void> {
+    try {
+      await prisma.classroomMember.upsert({
+        where: { classroomId_userId: { classroomId, userId } },
+        update: {},
+        create: { classroomId, userId },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to add classroom member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * @returns false when the user was not a member
+   */
+  static async removeMember(classroomId: string, userId: string): Promise<boolean> {
+    try {
+      const { count } = await prisma.classroomMember.deleteMany({ where: { classroomId, userId } });
+      return count > 0;
+    } catch (error) {
+      LoggerService.error('Failed to remove classroom member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Assignments of a classroom, soonest due first and undated ones last
+   */
+  static async findAssignments(classroomId: string): Promise<AssignmentWithLesson[]> {
+    try {
+      return await prisma.classroomAssignment.findMany({
+        where: { classroomId },
+        include: ASSIGNMENT_INCLUDE,
+        orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom assignments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  static async findAssignment(id: string): Promise<AssignmentWithLesson | null> {
+    try {
+      return await prisma.classroomAssignment.findUnique({
+        where: { id },
+        include: ASSIGNMENT_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async findAssignmentByLesson(classroomId: string, lessonId: string): Promise<ClassroomAssignment | null> {
+    try {
+      return await prisma.classroomAssignment.findUnique({
+        where: { classroomId_lessonId: { classroomId, lessonId } },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom assignment by lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  static async createAssignment(
+    classroomId: string,
+    lessonId: string,
+    dueAt: Date | null
+  ): Promise<AssignmentWithLesson> {
+    try {
+      return await prisma.classroomAssignment.create({
+        data: { classroomId, lessonId, dueAt },
+        include: ASSIGNMENT_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  static async updateAssignment(id: string, dueAt: Date | null): Promise<AssignmentWithLesson> {
+    try {
+      return await prisma.classroomAssignment.update({
+        where: { id },
+        data: { dueAt },
+        include: ASSIGNMENT_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteAssignment(id: string): Promise<void> {
+    try {
+      await prisma.classroomAssignment.delete({ where: { id } });
+    } catch (error) {
+      LoggerService.error('Failed to delete classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lesson progress of the given students on the given lessons
+   */
+  static async findProgress(userIds: string[], lessonIds: string[]): Promise<UserProgress[]> {
+    try {
+      return await prisma.userProgress.findMany({
+        where: { userId: { in: userIds }, lessonId: { in: lessonIds } },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        students: userIds.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Attempts of the given students on the given lessons since a date, newest first
+   */
+  static async findAttemptsSince(userIds: string[], lessonIds: string[], since: Date): Promise<Attempt[]> {
+    try {
+      return await prisma.attempt.findMany({
+        where: {
+          userId: { in: userIds },
+          lessonId: { in: lessonIds },
+          submittedAt: { gte: since },
+        },
+        orderBy: { submittedAt: 'desc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch classroom attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        students: userIds.length,
+      });
+      throw error;
+    }
+  }
+}
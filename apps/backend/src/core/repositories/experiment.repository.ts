@@ -0,0 +1,257 @@
+import { Experiment, ExperimentEvent, ExperimentStatus, ExperimentVariant } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface ExperimentWithVariants extends Experiment {
+  variants: ExperimentVariant[];
+}
+
+export interface CreateExperimentInput {
+  key: string;
+  description?: string;
+  variants: { name: string; strategy: string; weight: number }[];
+}
+
+export interface VariantCounts {
+  exposures: number; // Lessons recommended
+  users: number; // Learners exposed
+  started: number;
+  completed: number;
+}
+
+const VARIANTS_INCLUDE = {
+  variants: { orderBy: { name: 'asc' } },
+} as const;
+
+/**
+ * Experiment Repository
+ * Handles database operations for Experiment, ExperimentExposure and ExperimentOutcome entities
+ */
+export class ExperimentRepository {
+  /**
+   * Get every experiment, newest first
+   */
+  static async findAll(): Promise<ExperimentWithVariants[]> {
+    try {
+      return await prisma.experiment.findMany({
+        include: VARIANTS_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch experiments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  static async findByKey(key: string): Promise<ExperimentWithVariants | null> {
+    try {
+      return await prisma.experiment.findUnique({
+        where: { key },
+        include: VARIANTS_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the running experiment (only one runs at a time)
+   */
+  static async findRunning(): Promise<ExperimentWithVariants | null> {
+    try {
+      return await prisma.experiment.findFirst({
+        where: { status: 'running' },
+        include: VARIANTS_INCLUDE,
+        orderBy: { startedAt: 'desc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch running experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  static async create(input: CreateExperimentInput): Promise<ExperimentWithVariants> {
+    try {
+      return await prisma.experiment.create({
+        data: {
+          key: input.key,
+          description: input.description,
+          variants: { create: input.variants },
+        },
+        include: VARIANTS_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key: input.key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Move an experiment from one status to another
+   * @returns The updated experiment, or null when it was no longer in `from`
+   */
+  static async transition(
+    id: string,
+    from: ExperimentStatus,
+    to: ExperimentStatus,
+    at: Date
+  ): Promise<ExperimentWithVariants | null> {
+    try {
+      const updated = await prisma.experiment.updateMany({
+        where: { id, status: from },
+        data: {
+          status: to,
+          ...(to === 'running' && { startedAt: at }),
+          ...(to === 'stopped' && { stoppedAt: at }),
+        },
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+
+      return await prisma.experiment.findUnique({ where: { id }, include: VARIANTS_INCLUDE });
+    } catch (error) {
+      LoggerService.error('Failed to update experiment status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        to,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Log lessons recommended to a learner; lessons already exposed keep their first exposure
+   */
+  static async recordExposures(
+    experimentId: string,
+    userId: string,
+    variant: string,
+    lessonIds: string[],
+    exposedAt: Date
+  ): Promise<void> {
+    try {
+      await prisma.experimentExposure.createMany({
+        data: lessonIds.map(lessonId => ({ experimentId, userId, lessonId, variant, exposedAt })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to record experiment exposures', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        experimentId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Attribute a lesson event to every running experiment that recommended the lesson
+   * to the learner before it happened (once per event)
+   * @returns Number of outcomes recorded
+   */
+  static async recordOutcome(
+    userId: string,
+    lessonId: string,
+    event: ExperimentEvent,
+    occurredAt: Date
+  ): Promise<number> {
+    try {
+      const exposures = await prisma.experimentExposure.findMany({
+        where: {
+          userId,
+          lessonId,
+          exposedAt: { lte: occurredAt },
+          experiment: { status: 'running' },
+        },
+      });
+      if (exposures.length === 0) {
+        return 0;
+      }
+
+      const created = await prisma.experimentOutcome.createMany({
+        data: exposures.map(exposure => ({
+          experimentId: exposure.experimentId,
+          userId,
+          lessonId,
+          variant: exposure.variant,
+          event,
+          occurredAt,
+        })),
+        skipDuplicates: true,
+      });
+      return created.count;
+    } catch (error) {
+      LoggerService.error('Failed to record experiment outcome', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        lessonId,
+        event,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count exposures, exposed learners and outcomes per variant
+   */
+  static async countByVariant(experimentId: string): Promise<Map<string, VariantCounts>> {
+    try {
+      const [exposures, exposedUsers, outcomes] = await Promise.all([
+        prisma.experimentExposure.groupBy({
+          by: ['variant'],
+          where: { experimentId },
+          _count: { _all: true },
+        }),
+        prisma.experimentExposure.groupBy({
+          by: ['variant', 'userId'],
+          where: { experimentId },
+        }),
+        prisma.experimentOutcome.groupBy({
+          by: ['variant', 'event'],
+          where: { experimentId },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const counts = new Map<string, VariantCounts>();
+      const countsFor = (variant: string): VariantCounts => {
+        let entry = counts.get(variant);
+        if (!entry) {
+          entry = { exposures: 0, users: 0, started: 0, completed: 0 };
+          counts.set(variant, entry);
+        }
+        return entry;
+      };
+
+      for (const row of exposures) {
+        countsFor(row.variant).exposures = row._count._all;
+      }
+      for (const row of exposedUsers) {
+        countsFor(row.variant).users++;
+      }
+      for (const row of outcomes) {
+        countsFor(row.variant)[row.event] = row._count._all;
+      }
+
+      return counts;
+    } catch (error) {
+      LoggerService.error('Failed to count experiment results', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        experimentId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Lesson, User, UserProgress } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export type GradebookStudent = Pick<User, 'id' | 'displayName' | 'username'>;
+
+export interface GradebookProgress extends UserProgress {
+  lesson: Pick<Lesson, 'id' | 'title' | 'order'>;
+}
+
+/**
+ * Gradebook Repository
+ * Reads the students and lesson progress that go into gradebook exports
+ */
+export class GradebookRepository {
+  /**
+   * Students with the given IDs, by display name
+   */
+  static async findStudents(userIds: string[]): Promise<GradebookStudent[]> {
+    try {
+      return await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, displayName: true, username: true },
+        orderBy: [{ displayName: 'asc' }, { id: 'asc' }],
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch gradebook students', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        students: userIds.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Which of the given users are students in a classroom the teacher teaches
+   */
+  static async findTaughtStudentIds(teacherId: string, userIds: string[]): Promise<string[]> {
+    try {
+      const members = await prisma.classroomMember.findMany({
+        where: { userId: { in: userIds }, classroom: { teacherId } },
+        select: { userId: true },
+        distinct: ['userId'],
+      });
+      return members.map(member => member.userId);
+    } catch (error) {
+      LoggerService.error('Failed to fetch taught students', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        teacherId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lesson progress of the given students, in lesson order
+   */
+  static async findProgress(userIds: string[]): Promise<GradebookProgress[]> {
+    try {
+      return await prisma.userProgress.findMany({
+        where: { userId: { in: userIds } },
+        include: { lesson: { select: { id: true, title: true, order: true } } },
+        orderBy: [{ userId: 'asc' }, { lesson: { order: 'asc' } }],
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch gradebook progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        students: userIds.length,
+      });
+      throw error;
+    }
+  }
+}
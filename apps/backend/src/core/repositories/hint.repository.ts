@@ -0,0 +1,61 @@
+import { HintReveal } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+/**
+ * Hint Repository
+ * Stores how many hints of each problem a learner revealed during an attempt
+ */
+export class HintRepository {
+  /**
+   * Get the hints revealed during a user's attempt
+   */
+  static async findByAttempt(userId: string, attemptId: string): Promise<HintReveal[]> {
+    try {
+      return await prisma.hintReveal.findMany({
+        where: { userId, attemptId },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to find hint reveals', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record that the first `hintsRevealed` hints of a problem are shown; counts never go down
+   */
+  static async recordReveal(
+    userId: string,
+    attemptId: string,
+    problemId: string,
+    hintsRevealed: number
+  ): Promise<HintReveal> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const where = { userId_attemptId_problemId: { userId, attemptId, problemId } };
+        const existing = await tx.hintReveal.findUnique({ where });
+        if (existing && existing.hintsRevealed >= hintsRevealed) {
+          return existing;
+        }
+
+        return tx.hintReveal.upsert({
+          where,
+          update: { hintsRevealed },
+          create: { userId, attemptId, problemId, hintsRevealed },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to record hint reveal', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+        problemId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import { League, LeaderboardCohort, LeaderboardEntry, LeagueOutcome } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface LeaderboardMember extends LeaderboardEntry {
+  user: {
+    id: string;
+    username: string | null;
+    displayName: string | null;
+    firstName: string | null;
+    avatar: string | null;
+  };
+}
+
+export interface CohortResult {
+  entryId: string;
+  userId: string;
+  finalXp: number;
+  finalRank: number;
+  outcome: LeagueOutcome;
+  league: League; // League the learner moves to
+}
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  username: true,
+  displayName: true,
+  firstName: true,
+  avatar: true,
+} as const;
+
+/**
+ * Leaderboard Repository
+ * Handles database operations for LeaderboardCohort and LeaderboardEntry entities
+ */
+export class LeaderboardRepository {
+  /**
+   * Get a user's entry (with its cohort) for the week starting on `weekStart`
+   */
+  static async findEntry(
+    userId: string,
+    weekStart: Date
+  ): Promise<(LeaderboardEntry & { cohort: LeaderboardCohort }) | null> {
+    try {
+      return await prisma.leaderboardEntry.findUnique({
+        where: { userId_weekStart: { userId, weekStart } },
+        include: { cohort: true },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch leaderboard entry', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        weekStart,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a user in the week's newest cohort of their league that has room,
+   * opening a new cohort when all are full. Joining twice returns the existing entry.
+   */
+  static async joinCohort(
+    userId: string,
+    league: League,
+    weekStart: Date,
+    cohortSize: number
+  ): Promise<LeaderboardEntry> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.leaderboardEntry.findUnique({
+          where: { userId_weekStart: { userId, weekStart } },
+        });
+        if (existing) {
+          return existing;
+        }
+
+        const cohorts = await tx.leaderboardCohort.findMany({
+          where: { weekStart, league },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          include: { _count: { select: { entries: true } } },
+        });
+
+        const open = cohorts.find(cohort => cohort._count.entries < cohortSize);
+        const cohortId = open
+          ? open.id
+          : (await tx.leaderboardCohort.create({ data: { weekStart, league } })).id;
+
+        return await tx.leaderboardEntry.create({
+          data: { cohortId, userId, weekStart },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to join leaderboard cohort', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        league,
+        weekStart,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the members of a cohort with their public profile fields
+   */
+  static async findMembers(cohortId: string): Promise<LeaderboardMember[]> {
+    try {
+      return await prisma.leaderboardEntry.findMany({
+        where: { cohortId },
+        include: { user: { select: MEMBER_USER_SELECT } },
+        orderBy: { joinedAt: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch leaderboard members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cohortId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sum the XP each user earned from attempts and reviews submitted in [from, to)
+   */
+  static async sumXpByUser(userIds: string[], from: Date, to: Date): Promise<Map<string, number>> {
+    try {
+      const [attemptSums, reviewSums] = await Promise.all([
+        prisma.attempt.groupBy({
+          by: ['userId'],
+          where: {
+            userId: { in: userIds },
+            submittedAt: { gte: from, lt: to },
+          },
+          _sum: { xpEarned: true },
+        }),
+        prisma.reviewAnswer.groupBy({
+          by: ['userId'],
+          where: {
+            userId: { in: userIds },
+            reviewedAt: { gte: from, lt: to },
+          },
+          _sum: { xpEarned: true },
+        }),
+      ]);
+
+      const totals = new Map<string, number>();
+      for (const sum of [...attemptSums, ...reviewSums]) {
+        totals.set(sum.userId, (totals.get(sum.userId) ?? 0) + (sum._sum.xpEarned ?? 0));
+      }
+      return totals;
+    } catch (error) {
+      LoggerService.error('Failed to sum weekly XP', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        from,
+        to,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the cohorts of weeks before `before` whose results are not applied yet
+   */
+  static async findUnfinalizedCohorts(before: Date): Promise<LeaderboardCohort[]> {
+    try {
+      return await prisma.leaderboardCohort.findMany({
+        where: { weekStart: { lt: before }, finalizedAt: null },
+        orderBy: { weekStart: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch unfinalized cohorts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        before,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a cohort's final standings and move learners between leagues.
+   * A cohort is only finalized once; later calls return false.
+   */
+  static async finalizeCohort(cohortId: string, results: CohortResult[], finalizedAt: Date): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const claimed = await tx.leaderboardCohort.updateMany({
+          where: { id: cohortId, finalizedAt: null },
+          data: { finalizedAt },
+        });
+        if (claimed.count === 0) {
+          return false;
+        }
+
+        for (const result of results) {
+          await tx.leaderboardEntry.update({
+            where: { id: result.entryId },
+            data: {
+              finalXp: result.finalXp,
+              finalRank: result.finalRank,
+              outcome: result.outcome,
+            },
+          });
+
+          if (result.outcome !== 'stayed') {
+            await tx.user.update({
+              where: { id: result.userId },
+              data: { league: result.league },
+            });
+          }
+        }
+
+        return true;
+      });
+    } catch (error) {
+      LoggerService.error('Failed to finalize leaderboard cohort', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cohortId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's most recent finalized entry (last week's result)
+   */
+  static async findLatestResult(
+    userId: string
+  ): Promise<(LeaderboardEntry & { cohort: LeaderboardCohort }) | null> {
+    try {
+      return await prisma.leaderboardEntry.findFirst({
+        where: { userId, outcome: { not: null } },
+        orderBy: { weekStart: 'desc' },
+        include: { cohort: true },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch latest leaderboard result', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,475 @@
+import { Lesson, LessonStatus, Prisma, Problem, ProblemOption, ProblemType } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import { LessonGraph, toLessonGraph } from './lesson.repository';
+
+export interface ProblemWithOptions extends Problem {
+  options: ProblemOption[];
+}
+
+export interface LessonSummary extends Lesson, LessonGraph {
+  problemCount: number;
+}
+
+export interface AuthoredLesson extends Lesson, LessonGraph {
+  problems: ProblemWithOptions[];
+}
+
+export interface LessonInput {
+  title?: string;
+  description?: string | null;
+  xpReward?: number;
+  difficulty?: string;
+  hintPenalty?: number;
+  isActive?: boolean;
+  skillIds?: string[];
+}
+
+export interface ProblemOptionInput {
+  optionText: string;
+  isCorrect?: boolean;
+  correctOrder?: number | null;
+}
+
+export interface ProblemInput {
+  question?: string;
+  problemType?: ProblemType;
+  correctAnswer?: string | null;
+  tolerance?: number | null;
+  config?: Prisma.InputJsonValue | null;
+  template?: Prisma.InputJsonValue | null;
+  explanation?: string | null;
+  hints?: string[];
+  difficulty?: string;
+  options?: ProblemOptionInput[]; // Replaces every option when given
+}
+
+// Every prerequisite, drafts and inactive lessons included, flattened by `toLessonGraph`
+const AUTHORING_GRAPH_INCLUDE = {
+  skills: {
+    include: { skill: true },
+    orderBy: { skill: { name: 'asc' } },
+  },
+  prerequisites: {
+    include: { prerequisite: { select: { id: true, title: true } } },
+    orderBy: { prerequisite: { order: 'asc' } },
+  },
+} as const;
+
+const OPTIONS_INCLUDE = {
+  options: { orderBy: { order: 'asc' } },
+} as const;
+
+// Json columns take Prisma.DbNull rather than null to store SQL NULL
+const toJsonColumn = (value: Prisma.InputJsonValue | null | undefined) =>
+  value === null ? Prisma.DbNull : value;
+
+const toProblemData = (input: ProblemInput) => ({
+  question: input.question,
+  problemType: input.problemType,
+  correctAnswer: input.correctAnswer,
+  tolerance: input.tolerance,
+  config: toJsonColumn(input.config),
+  template: toJsonColumn(input.template),
+  explanation: input.explanation,
+  hints: input.hints,
+  difficulty: input.difficulty,
+});
+
+const toOptionRows = (options: ProblemOptionInput[]) =>
+  options.map((option, index) => ({
+    optionText: option.optionText,
+    isCorrect: option.isCorrect ?? false,
+    correctOrder: option.correctOrder ?? null,
+    order: index + 1,
+  }));
+
+/**
+ * Give rows the positions of `ids`, in order. Every row is parked on a negative
+ * position first so no intermediate state breaks the unique order constraint.
+ */
+async function applyOrder(ids: string[], setOrder: (id: string, order: number) => Promise<unknown>): Promise<void> {
+  for (const [index, id] of ids.entries()) {
+    await setOrder(id, -(index + 1));
+  }
+  for (const [index, id] of ids.entries()) {
+    await setOrder(id, index + 1);
+  }
+}
+
+const sameIds = (current: string[], requested: string[]) =>
+  current.length === requested.length && new Set(requested).size === requested.length &&
+  current.every(id => requested.includes(id));
+
+/**
+ * Lesson Authoring Repository
+ * Handles database operations for writing lessons, problems and options,
+ * including drafts that learners never see
+ */
+export class LessonAuthoringRepository {
+  /**
+   * Get every lesson in curriculum order, drafts and inactive lessons included
+   */
+  static async findAll(): Promise<LessonSummary[]> {
+    try {
+      const lessons = await prisma.lesson.findMany({
+        include: {
+          ...AUTHORING_GRAPH_INCLUDE,
+          _count: { select: { problems: true } },
+        },
+        orderBy: { order: 'asc' },
+      });
+
+      return lessons.map(({ _count, ...lesson }) => ({
+        ...toLessonGraph(lesson),
+        problemCount: _count.problems,
+      }));
+    } catch (error) {
+      LoggerService.error('Failed to fetch lessons for authoring', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a lesson with its problems, options and answer keys
+   */
+  static async findById(id: string): Promise<AuthoredLesson | null> {
+    try {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id },
+        include: {
+          ...AUTHORING_GRAPH_INCLUDE,
+          problems: {
+            include: OPTIONS_INCLUDE,
+            orderBy: { order: 'asc' },
+          },
+        },
+      });
+
+      return lesson ? toLessonGraph(lesson) : null;
+    } catch (error) {
+      LoggerService.error('Failed to fetch lesson for authoring', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async findProblem(problemId: string): Promise<ProblemWithOptions | null> {
+    try {
+      return await prisma.problem.findUnique({
+        where: { id: problemId },
+        include: OPTIONS_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch problem for authoring', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ids among `ids` that no lesson or skill has
+   */
+  static async findMissingIds(model: 'lesson' | 'skill', ids: string[]): Promise<string[]> {
+    try {
+      const where = { id: { in: ids } };
+      const found = model === 'lesson'
+        ? await prisma.lesson.findMany({ where, select: { id: true } })
+        : await prisma.skill.findMany({ where, select: { id: true } });
+      const foundIds = new Set(found.map(row => row.id));
+
+      return ids.filter(id => !foundIds.has(id));
+    } catch (error) {
+      LoggerService.error(`Failed to look up ${model} ids`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ids,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Attempts and review answers recorded against a lesson or one of its problems
+   */
+  static async countHistory(where: { lessonId: string } | { problemId: string }): Promise<number> {
+    try {
+      const problemFilter = 'lessonId' in where ? { problem: { lessonId: where.lessonId } } : where;
+      const [answers, reviewAnswers] = await Promise.all([
+        prisma.attemptAnswer.count({ where: problemFilter }),
+        prisma.reviewAnswer.count({ where: problemFilter }),
+      ]);
+      const attempts = 'lessonId' in where ? await prisma.attempt.count({ where }) : 0;
+
+      return attempts + answers + reviewAnswers;
+    } catch (error) {
+      LoggerService.error('Failed to count learner history', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...where,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft lesson at the end of the curriculum
+   */
+  static async createLesson(input: LessonInput & { title: string }): Promise<Lesson> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { _max } = await tx.lesson.aggregate({ _max: { order: true } });
+
+        return tx.lesson.create({
+          data: {
+            title: input.title,
+            description: input.description,
+            xpReward: input.xpReward,
+            difficulty: input.difficulty,
+            hintPenalty: input.hintPenalty,
+            isActive: input.isActive,
+            status: 'draft',
+            order: (_max.order ?? 0) + 1,
+            skills: input.skillIds ? { create: input.skillIds.map(skillId => ({ skillId })) } : undefined,
+          },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        title: input.title,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update lesson fields; `skillIds` replaces the lesson's skills when given
+   */
+  static async updateLesson(id: string, input: LessonInput): Promise<Lesson> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        if (input.skillIds) {
+          await tx.lessonSkill.deleteMany({ where: { lessonId: id } });
+        }
+
+        return tx.lesson.update({
+          where: { id },
+          data: {
+            title: input.title,
+            description: input.description,
+            xpReward: input.xpReward,
+            difficulty: input.difficulty,
+            hintPenalty: input.hintPenalty,
+            isActive: input.isActive,
+            skills: input.skillIds ? { create: input.skillIds.map(skillId => ({ skillId })) } : undefined,
+          },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: id,
+      });
+      throw error;
+    }
+  }
+
+  static async setStatus(id: string, status: LessonStatus, publishedAt?: Date): Promise<Lesson> {
+    try {
+      return await prisma.lesson.update({
+        where: { id },
+        data: { status, publishedAt },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update lesson status', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: id,
+        status,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteLesson(id: string): Promise<void> {
+    try {
+      await prisma.lesson.delete({ where: { id } });
+    } catch (error) {
+      LoggerService.error('Failed to delete lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put every lesson in the given order; `lessonIds` must list each lesson exactly once
+   */
+  static async reorderLessons(lessonIds: string[]): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const lessons = await tx.lesson.findMany({ select: { id: true } });
+        if (!sameIds(lessons.map(lesson => lesson.id), lessonIds)) {
+          throw new Error('Lesson order must list every lesson exactly once');
+        }
+
+        await applyOrder(lessonIds, (id, order) => tx.lesson.update({ where: { id }, data: { order } }));
+      });
+    } catch (error) {
+      LoggerService.error('Failed to reorder lessons', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a problem, with its options, at the end of a lesson
+   */
+  static async createProblem(
+    lessonId: string,
+    input: ProblemInput & { question: string; problemType: ProblemType }
+  ): Promise<ProblemWithOptions> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { _max } = await tx.problem.aggregate({ where: { lessonId }, _max: { order: true } });
+
+        return tx.problem.create({
+          data: {
+            ...toProblemData(input),
+            question: input.question,
+            problemType: input.problemType,
+            lessonId,
+            order: (_max.order ?? 0) + 1,
+            options: { create: toOptionRows(input.options ?? []) },
+          },
+          include: OPTIONS_INCLUDE,
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  static async updateProblem(problemId: string, input: ProblemInput): Promise<ProblemWithOptions> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        if (input.options) {
+          await tx.problemOption.deleteMany({ where: { problemId } });
+        }
+
+        return tx.problem.update({
+          where: { id: problemId },
+          data: {
+            ...toProblemData(input),
+            options: input.options ? { create: toOptionRows(input.options) } : undefined,
+          },
+          include: OPTIONS_INCLUDE,
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteProblem(problemId: string): Promise<void> {
+    try {
+      await prisma.problem.delete({ where: { id: problemId } });
+    } catch (error) {
+      LoggerService.error('Failed to delete problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a lesson's problems in the given order; `problemIds` must list each of them exactly once
+   */
+  static async reorderProblems(lessonId: string, problemIds: string[]): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const problems = await tx.problem.findMany({ where: { lessonId }, select: { id: true } });
+        if (!sameIds(problems.map(problem => problem.id), problemIds)) {
+          throw new Error('Problem order must list every problem of the lesson exactly once');
+        }
+
+        await applyOrder(problemIds, (id, order) => tx.problem.update({ where: { id }, data: { order } }));
+      });
+    } catch (error) {
+      LoggerService.error('Failed to reorder problems', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add an option at the end of a problem's options
+   */
+  static async createOption(problemId: string, input: ProblemOptionInput): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const { _max } = await tx.problemOption.aggregate({ where: { problemId }, _max: { order: true } });
+
+        await tx.problemOption.create({
+          data: {
+            problemId,
+            optionText: input.optionText,
+            isCorrect: input.isCorrect ?? false,
+            correctOrder: input.correctOrder ?? null,
+            order: (_max.order ?? 0) + 1,
+          },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to create problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  static async updateOption(optionId: string, input: Partial<ProblemOptionInput>): Promise<void> {
+    try {
+      await prisma.problemOption.update({
+        where: { id: optionId },
+        data: input,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to update problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        optionId,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteOption(optionId: string): Promise<void> {
+    try {
+      await prisma.problemOption.delete({ where: { id: optionId } });
+    } catch (error) {
+      LoggerService.error('Failed to delete problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        optionId,
+      });
+      throw error;
+    }
+  }
+}
@@ -1,8 +1,14 @@
-import { Lesson, Problem, ProblemOption, Prisma } from '@prisma/client';
+import { Lesson, Problem, ProblemOption, Prisma, Skill } from '@prisma/client';
 import { prisma } from '../../core/database';
 import { LoggerService } from '../../core/logger/logger.service';
+import { assertAcyclic } from '../skill-graph';
 
-export interface LessonWithProgress extends Lesson {
+export interface LessonGraph {
+  skills: Skill[];
+  prerequisites: { id: string; title: string }[]; // Visible lessons this one requires
+}
+
+export interface LessonWithProgress extends Lesson, LessonGraph {
   progress?: {
     isCompleted: boolean;
     score: number;
@@ -11,7 +17,7 @@ export interface LessonWithProgress extends Lesson {
   };
 }
 
-export interface LessonWithProblems extends Lesson {
+export interface LessonWithProblems extends Lesson, LessonGraph {
   problems: (Problem & {
     options?: ProblemOption[];
   })[];
@@ -22,6 +28,34 @@ export interface LessonQueryOptions {
   select?: Prisma.LessonSelect;
 }
 
+// Lessons learners can see: active and published (drafts are only visible to authors)
+export const LEARNER_VISIBLE_LESSON = {
+  isActive: true,
+  status: 'published',
+} as const satisfies Prisma.LessonWhereInput;
+
+// Skills and prerequisites, flattened by `toLessonGraph`
+const LESSON_GRAPH_INCLUDE = {
+  skills: {
+    include: { skill: true },
+    orderBy: { skill: { name: 'asc' } },
+  },
+  prerequisites: {
+    where: { prerequisite: LEARNER_VISIBLE_LESSON },
+    include: { prerequisite: { select: { id: true, title: true } } },
+    orderBy: { prerequisite: { order: 'asc' } },
+  },
+} as const;
+
+export const toLessonGraph = <T extends {
+  skills: { skill: Skill }[];
+  prerequisites: { prerequisite: { id: string; title: string } }[];
+}>(lesson: T): Omit<T, 'skills' | 'prerequisites'> & LessonGraph => ({
+  ...lesson,
+  skills: lesson.skills.map(({ skill }) => skill),
+  prerequisites: lesson.prerequisites.map(({ prerequisite }) => prerequisite),
+});
+
 /**
  * Lesson Repository
  * Handles all database operations for Lesson entity
@@ -56,9 +90,10 @@ export class LessonRepository {
   static async findAllWithProgress(userId?: string): Promise<LessonWithProgress[]> {
     try {
       const lessons = await prisma.lesson.findMany({
-        where: { isActive: true },
+        where: LEARNER_VISIBLE_LESSON,
         orderBy: { order: 'asc' },
         include: {
+          ...LESSON_GRAPH_INCLUDE,
           userProgress: userId ? {
             where: { userId },
             select: {
@@ -72,7 +107,7 @@ export class LessonRepository {
       });
 
       return lessons.map(lesson => ({
-        ...lesson,
+        ...toLessonGraph(lesson),
         progress: userId && lesson.userProgress?.[0] ? lesson.userProgress[0] : undefined,
         userProgress: undefined, // Remove the userProgress array from response
       }));
@@ -94,8 +129,9 @@ export class LessonRepository {
   ): Promise<LessonWithProblems | null> {
     try {
       const lesson = await prisma.lesson.findUnique({
-        where: { id, isActive: true },
+        where: { id, ...LEARNER_VISIBLE_LESSON },
         include: {
+          ...LESSON_GRAPH_INCLUDE,
           problems: {
             orderBy: { order: 'asc' },
             include: {
@@ -107,8 +143,12 @@ export class LessonRepository {
         },
       });
 
+      if (!lesson) {
+        return null;
+      }
+
       // If we don't want to include answers, filter out sensitive data
-      if (lesson && !includeAnswers) {
+      if (!includeAnswers) {
         lesson.problems = lesson.problems.map(problem => ({
           ...problem,
           correctAnswer: null, // Hide correct answer
@@ -120,7 +160,7 @@ export class LessonRepository {
         }));
       }
 
-      return lesson;
+      return toLessonGraph(lesson);
     } catch (error) {
       LoggerService.error('Failed to fetch lesson with problems', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -136,7 +176,7 @@ export class LessonRepository {
   static async findById(id: string, options?: LessonQueryOptions): Promise<Lesson | null> {
     try {
       return await prisma.lesson.findUnique({
-        where: { id, isActive: true },
+        where: { id, ...LEARNER_VISIBLE_LESSON },
         ...options,
       });
     } catch (error) {
@@ -154,7 +194,7 @@ export class LessonRepository {
   static async findMany(options?: LessonQueryOptions): Promise<Lesson[]> {
     try {
       return await prisma.lesson.findMany({
-        where: { isActive: true },
+        where: LEARNER_VISIBLE_LESSON,
         orderBy: { order: 'asc' },
         ...options,
       });
@@ -166,6 +206,37 @@ export class LessonRepository {
     }
   }
 
+  /**
+   * Replace the lessons a lesson requires. Rejects the change when it would
+   * make the prerequisite graph cyclic.
+   */
+  static async setPrerequisites(lessonId: string, prerequisiteIds: string[]): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const otherEdges = await tx.lessonPrerequisite.findMany({
+          where: { lessonId: { not: lessonId } },
+          select: { lessonId: true, prerequisiteId: true },
+        });
+        const edges = [...new Set(prerequisiteIds)].map(prerequisiteId => ({ lessonId, prerequisiteId }));
+
+        assertAcyclic([...edges, ...otherEdges]);
+
+        await tx.lessonPrerequisite.deleteMany({ where: { lessonId } });
+        await tx.lessonPrerequisite.createMany({ data: edges });
+      }, {
+        // Two concurrent edits could each be acyclic on their own but not together
+        isolationLevel: 'Serializable',
+      });
+    } catch (error) {
+      LoggerService.error('Failed to set lesson prerequisites', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        prerequisiteIds,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get lesson statistics
    */
@@ -173,7 +244,7 @@ export class LessonRepository {
     try {
       const [totalLessons, activeLessons] = await Promise.all([
         prisma.lesson.count(),
-        prisma.lesson.count({ where: { isActive: true } }),
+        prisma.lesson.count({ where: LEARNER_VISIBLE_LESSON }),
       ]);
 
       return {
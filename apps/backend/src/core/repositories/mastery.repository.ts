@@ -0,0 +1,116 @@
+import { Prisma, Skill, SkillMastery } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import { TracedAnswer, traceSkill } from '../mastery';
+
+export interface SkillWithMastery extends Skill {
+  mastery: SkillMastery | null; // Null until the learner practices the skill
+}
+
+export interface PracticedAnswer {
+  problemId: string;
+  isCorrect: boolean;
+}
+
+/**
+ * Mastery Repository
+ * Handles database operations for SkillMastery entities
+ */
+export class MasteryRepository {
+  /**
+   * Get the user's mastery rows, keyed by skill
+   */
+  static async findByUser(userId: string): Promise<Map<string, SkillMastery>> {
+    try {
+      const masteries = await prisma.skillMastery.findMany({ where: { userId } });
+      return new Map(masteries.map(mastery => [mastery.skillId, mastery]));
+    } catch (error) {
+      LoggerService.error('Failed to fetch skill mastery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get every skill with the user's mastery of it, by name
+   */
+  static async findSkillsWithMastery(userId: string): Promise<SkillWithMastery[]> {
+    try {
+      const skills = await prisma.skill.findMany({
+        orderBy: { name: 'asc' },
+        include: { masteries: { where: { userId } } },
+      });
+
+      return skills.map(({ masteries, ...skill }) => ({
+        ...skill,
+        mastery: masteries[0] ?? null,
+      }));
+    } catch (error) {
+      LoggerService.error('Failed to fetch skills with mastery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the learner's mastery of every skill the answered problems' lessons teach.
+   * Runs inside the transaction that stores the answers (lesson submissions and reviews).
+   */
+  static async recordSkillPractice(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    answers: PracticedAnswer[],
+    now: Date
+  ): Promise<void> {
+    try {
+      const problems = await tx.problem.findMany({
+        where: { id: { in: answers.map(answer => answer.problemId) } },
+        select: {
+          id: true,
+          problemType: true,
+          lesson: { select: { skills: { select: { skillId: true } } } },
+        },
+      });
+      const problemsById = new Map(problems.map(problem => [problem.id, problem]));
+
+      const answersBySkill = new Map<string, TracedAnswer[]>();
+      for (const answer of answers) {
+        const problem = problemsById.get(answer.problemId);
+        for (const { skillId } of problem?.lesson.skills ?? []) {
+          answersBySkill.set(skillId, [
+            ...(answersBySkill.get(skillId) ?? []),
+            { isCorrect: answer.isCorrect, problemType: problem!.problemType },
+          ]);
+        }
+      }
+
+      if (answersBySkill.size === 0) {
+        return;
+      }
+
+      const masteries = await tx.skillMastery.findMany({
+        where: { userId, skillId: { in: [...answersBySkill.keys()] } },
+      });
+      const masteriesBySkill = new Map(masteries.map(mastery => [mastery.skillId, mastery]));
+
+      for (const [skillId, traced] of answersBySkill) {
+        const state = traceSkill(masteriesBySkill.get(skillId) ?? null, traced);
+        await tx.skillMastery.upsert({
+          where: { userId_skillId: { userId, skillId } },
+          update: { ...state, lastPracticedAt: now },
+          create: { userId, skillId, ...state, lastPracticedAt: now },
+        });
+      }
+    } catch (error) {
+      LoggerService.error('Failed to record skill practice', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { ProblemInstance, Prisma } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface CreateProblemInstanceInput {
+  problemId: string;
+  values: Record<string, number>;
+  question: string;
+}
+
+/**
+ * Problem Instance Repository
+ * Stores the values a templated problem was instantiated with for an attempt
+ */
+export class ProblemInstanceRepository {
+  /**
+   * Get the instances created for a user's attempt
+   */
+  static async findByAttempt(userId: string, attemptId: string): Promise<ProblemInstance[]> {
+    try {
+      return await prisma.problemInstance.findMany({
+        where: { userId, attemptId },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to find problem instances', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store instances for an attempt; instances that already exist are kept as they are
+   */
+  static async createMany(
+    userId: string,
+    attemptId: string,
+    instances: CreateProblemInstanceInput[]
+  ): Promise<void> {
+    if (instances.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.problemInstance.createMany({
+        data: instances.map(instance => ({
+          userId,
+          attemptId,
+          problemId: instance.problemId,
+          values: instance.values as Prisma.InputJsonObject,
+          question: instance.question,
+        })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to store problem instances', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Progress Accounting
+ * Works out what a submitted attempt does to a user's lesson progress.
+ * Pure functions: the submission transaction reads the current rows, calls these and writes the result.
+ * Streak rules live in the streak engine (core/streaks).
+ */
+
+export interface LessonProgressState {
+  isCompleted: boolean;
+  completionDate: Date | null;
+  bestScore: number;
+  attemptsCount: number;
+  totalXpEarned: number;
+}
+
+export interface AttemptOutcome {
+  score: number;
+  completed: boolean;
+  xpEarned: number;
+}
+
+export interface LessonProgressUpdate {
+  isCompleted: boolean;
+  completionDate: Date | null;
+  score: number;
+  bestScore: number;
+  attemptsCount: number;
+  totalXpEarned: number;
+  lastAttemptAt: Date;
+}
+
+/**
+ * Percentage of correct answers, rounded to a whole number
+ */
+export function scoreAnswers(answers: Array<{ isCorrect: boolean }>): number {
+  if (answers.length === 0) {
+    return 0;
+  }
+  return Math.round((answers.filter(answer => answer.isCorrect).length / answers.length) * 100);
+}
+
+/**
+ * Fold an attempt into the lesson progress row (null when this is the first attempt)
+ * Completion is sticky: a weaker retry never un-completes a lesson or moves its completion date
+ */
+export function accountLessonProgress(
+  previous: LessonProgressState | null,
+  outcome: AttemptOutcome,
+  now: Date
+): LessonProgressUpdate {
+  const isCompleted = (previous?.isCompleted ?? false) || outcome.completed;
+
+  return {
+    isCompleted,
+    completionDate: previous?.completionDate ?? (isCompleted ? now : null),
+    score: outcome.score,
+    bestScore: Math.max(previous?.bestScore ?? 0, outcome.score),
+    attemptsCount: (previous?.attemptsCount ?? 0) + 1,
+    totalXpEarned: (previous?.totalXpEarned ?? 0) + outcome.xpEarned,
+    lastAttemptAt: now,
+  };
+}
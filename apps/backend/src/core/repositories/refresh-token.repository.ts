@@ -0,0 +1,88 @@
+import { RefreshToken } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+
+export interface CreateRefreshTokenInput {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Refresh Token Repository
+ * Handles all database operations for RefreshToken entity
+ */
+export class RefreshTokenRepository {
+  /**
+   * Persist a new refresh token hash
+   */
+  static async create(data: CreateRefreshTokenInput): Promise<RefreshToken> {
+    try {
+      return await prisma.refreshToken.create({ data });
+    } catch (error) {
+      LoggerService.error('Failed to create refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: data.userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a refresh token that is neither revoked nor expired
+   */
+  static async findActiveByHash(tokenHash: string): Promise<RefreshToken | null> {
+    try {
+      return await prisma.refreshToken.findFirst({
+        where: {
+          tokenHash,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to find refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a refresh token by hash
+   * Returns false when no active token matched
+   */
+  static async revokeByHash(tokenHash: string): Promise<boolean> {
+    try {
+      const result = await prisma.refreshToken.updateMany({
+        where: { tokenHash, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      return result.count > 0;
+    } catch (error) {
+      LoggerService.error('Failed to revoke refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every active refresh token of a user
+   */
+  static async revokeAllForUser(userId: string): Promise<number> {
+    try {
+      const result = await prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      return result.count;
+    } catch (error) {
+      LoggerService.error('Failed to revoke user refresh tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
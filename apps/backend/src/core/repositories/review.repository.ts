@@ -0,0 +1,185 @@
+import { Problem, ProblemOption, ReviewAnswer, ReviewItem } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import { ReviewSchedule } from '../reviews';
+import { MasteryRepository } from './mastery.repository';
+import { LEARNER_VISIBLE_LESSON } from './lesson.repository';
+
+export interface ReviewItemWithProblem extends ReviewItem {
+  problem: Problem & {
+    options: ProblemOption[];
+    lesson: { id: string; title: string };
+  };
+}
+
+export interface ReviewAnswerInput {
+  problemId: string;
+  problemRevisionId: string; // Content the answer was graded against
+  sessionId: string;
+  answer: string;
+  isCorrect: boolean;
+  quality: number;
+  xpEarned: number;
+}
+
+const ITEM_PROBLEM_INCLUDE = {
+  problem: {
+    include: {
+      options: { orderBy: { order: 'asc' as const } },
+      lesson: { select: { id: true, title: true } },
+    },
+  },
+};
+
+/**
+ * Review Repository
+ * Handles database operations for ReviewItem and ReviewAnswer entities
+ */
+export class ReviewRepository {
+  /**
+   * Get the user's problems due for review at `now`, most overdue first
+   * Problems of inactive lessons are left out
+   */
+  static async findDue(userId: string, now: Date, limit: number): Promise<ReviewItemWithProblem[]> {
+    try {
+      return await prisma.reviewItem.findMany({
+        where: { userId, dueAt: { lte: now }, problem: { lesson: LEARNER_VISIBLE_LESSON } },
+        include: ITEM_PROBLEM_INCLUDE,
+        orderBy: { dueAt: 'asc' },
+        take: limit,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch due reviews', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count the user's problems due for review at `now`
+   */
+  static async countDue(userId: string, now: Date): Promise<number> {
+    try {
+      return await prisma.reviewItem.count({
+        where: { userId, dueAt: { lte: now }, problem: { lesson: LEARNER_VISIBLE_LESSON } },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to count due reviews', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * When the user's next review after `now` comes due (null when the queue is empty)
+   */
+  static async findNextDueAt(userId: string, now: Date): Promise<Date | null> {
+    try {
+      const next = await prisma.reviewItem.findFirst({
+        where: { userId, dueAt: { gt: now }, problem: { lesson: LEARNER_VISIBLE_LESSON } },
+        orderBy: { dueAt: 'asc' },
+        select: { dueAt: true },
+      });
+      return next?.dueAt ?? null;
+    } catch (error) {
+      LoggerService.error('Failed to fetch next review date', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's queue entry for a problem, with the problem and its answers
+   */
+  static async findItem(userId: string, problemId: string): Promise<ReviewItemWithProblem | null> {
+    try {
+      return await prisma.reviewItem.findUnique({
+        where: { userId_problemId: { userId, problemId } },
+        include: ITEM_PROBLEM_INCLUDE,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch review item', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a review already answered in a practice session
+   */
+  static async findAnswer(userId: string, sessionId: string, problemId: string): Promise<ReviewAnswer | null> {
+    try {
+      return await prisma.reviewAnswer.findUnique({
+        where: { userId_sessionId_problemId: { userId, sessionId, problemId } },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch review answer', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        sessionId,
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a review, move the problem to its next review date, update skill mastery and award the XP
+   * @returns The user's total XP after the review
+   */
+  static async recordReview(
+    userId: string,
+    answer: ReviewAnswerInput,
+    schedule: ReviewSchedule
+  ): Promise<number> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.reviewAnswer.create({
+          data: {
+            userId,
+            problemId: answer.problemId,
+            problemRevisionId: answer.problemRevisionId,
+            sessionId: answer.sessionId,
+            userAnswer: answer.answer,
+            isCorrect: answer.isCorrect,
+            quality: answer.quality,
+            xpEarned: answer.xpEarned,
+            reviewedAt: schedule.lastReviewedAt,
+          },
+        });
+
+        await tx.reviewItem.update({
+          where: { userId_problemId: { userId, problemId: answer.problemId } },
+          data: schedule,
+        });
+
+        await MasteryRepository.recordSkillPractice(tx, userId, [answer], schedule.lastReviewedAt);
+
+        const user = await tx.user.update({
+          where: { id: userId },
+          data: { totalXp: { increment: answer.xpEarned } },
+          select: { totalXp: true },
+        });
+
+        return user.totalXp;
+      });
+    } catch (error) {
+      LoggerService.error('Failed to record review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        problemId: answer.problemId,
+        sessionId: answer.sessionId,
+      });
+      throw error;
+    }
+  }
+}
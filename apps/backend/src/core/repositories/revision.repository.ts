@@ -0,0 +1,169 @@
+import { Attempt, AttemptAnswer, LessonRevision, Prisma, ProblemRevision } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import {
+  LessonSnapshot,
+  OptionSnapshot,
+  ProblemSnapshot,
+  RevisableProblem,
+  sameContent,
+  snapshotLesson,
+  snapshotProblem,
+} from '../revisions';
+
+/**
+ * The revisions a lesson submission is graded against
+ */
+export interface RecordedLessonRevision {
+  lessonRevisionId: string;
+  problemRevisionIds: Map<string, string>; // Problem ID → problem revision ID
+}
+
+export interface AttemptWithRevisions extends Attempt {
+  lessonRevision: LessonRevision;
+  answers: Array<AttemptAnswer & { problemRevision: ProblemRevision }>;
+}
+
+export interface RevisableLesson extends Omit<LessonSnapshot, 'problemRevisionIds'> {
+  id: string;
+  problems: Array<RevisableProblem & { id: string }>;
+}
+
+// Revision options are stored as JSON; they were written by `snapshotProblem`
+export const toProblemSnapshot = (revision: ProblemRevision): ProblemSnapshot =>
+  snapshotProblem({ ...revision, options: revision.options as unknown as OptionSnapshot[] });
+
+const toLessonSnapshot = (revision: LessonRevision): LessonSnapshot =>
+  snapshotLesson(revision, revision.problemRevisionIds);
+
+// Json columns take Prisma.DbNull rather than null to store SQL NULL
+const toJsonColumn = (value: unknown) =>
+  value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+/**
+ * Revision Repository
+ * Records immutable snapshots of lesson and problem content, reusing the latest
+ * snapshot while the content is unchanged
+ */
+export class RevisionRepository {
+  /**
+   * Get the revision of each problem that matches its current content, recording one where none does
+   * @returns Problem ID → problem revision ID
+   */
+  static async recordProblemRevisions(
+    problems: Array<RevisableProblem & { id: string }>
+  ): Promise<Map<string, string>> {
+    try {
+      const problemIds = problems.map(problem => problem.id);
+      let latest = await RevisionRepository.findLatestProblemRevisions(problemIds);
+
+      const changed = problems.filter(problem => {
+        const revision = latest.get(problem.id);
+        return !revision || !sameContent(toProblemSnapshot(revision), snapshotProblem(problem));
+      });
+
+      if (changed.length > 0) {
+        await prisma.problemRevision.createMany({
+          data: changed.map(problem => {
+            const snapshot = snapshotProblem(problem);
+            return {
+              ...snapshot,
+              problemId: problem.id,
+              revision: (latest.get(problem.id)?.revision ?? 0) + 1,
+              config: toJsonColumn(snapshot.config),
+              template: toJsonColumn(snapshot.template),
+              options: snapshot.options as unknown as Prisma.InputJsonValue,
+            };
+          }),
+          // A concurrent submission may have recorded the same revision first
+          skipDuplicates: true,
+        });
+        latest = await RevisionRepository.findLatestProblemRevisions(problemIds);
+      }
+
+      return new Map(problems.map(problem => {
+        const revision = latest.get(problem.id);
+        if (!revision || !sameContent(toProblemSnapshot(revision), snapshotProblem(problem))) {
+          throw new Error(`Problem changed while its revision was recorded: ${problem.id}`);
+        }
+        return [problem.id, revision.id];
+      }));
+    } catch (error) {
+      LoggerService.error('Failed to record problem revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemIds: problems.map(problem => problem.id),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the revision of a lesson (and its problems) that matches its current content,
+   * recording new revisions where the content changed
+   */
+  static async recordLessonRevision(lesson: RevisableLesson): Promise<RecordedLessonRevision> {
+    try {
+      const problemRevisionIds = await RevisionRepository.recordProblemRevisions(lesson.problems);
+      const snapshot = snapshotLesson(lesson, lesson.problems.map(problem => problemRevisionIds.get(problem.id)!));
+
+      let revision = await RevisionRepository.findLatestLessonRevision(lesson.id);
+      if (!revision || !sameContent(toLessonSnapshot(revision), snapshot)) {
+        await prisma.lessonRevision.createMany({
+          data: [{ ...snapshot, lessonId: lesson.id, revision: (revision?.revision ?? 0) + 1 }],
+          skipDuplicates: true,
+        });
+        revision = await RevisionRepository.findLatestLessonRevision(lesson.id);
+      }
+
+      if (!revision || !sameContent(toLessonSnapshot(revision), snapshot)) {
+        throw new Error(`Lesson changed while its revision was recorded: ${lesson.id}`);
+      }
+
+      return { lessonRevisionId: revision.id, problemRevisionIds };
+    } catch (error) {
+      LoggerService.error('Failed to record lesson revision', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: lesson.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's attempt with the lesson and problem revisions it was graded against
+   */
+  static async findAttemptWithRevisions(userId: string, attemptId: string): Promise<AttemptWithRevisions | null> {
+    try {
+      return await prisma.attempt.findFirst({
+        where: { userId, attemptId },
+        include: {
+          lessonRevision: true,
+          answers: { include: { problemRevision: true } },
+        },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch attempt with revisions', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+      throw error;
+    }
+  }
+
+  private static async findLatestProblemRevisions(problemIds: string[]): Promise<Map<string, ProblemRevision>> {
+    const revisions = await prisma.problemRevision.findMany({
+      where: { problemId: { in: problemIds } },
+      orderBy: [{ problemId: 'asc' }, { revision: 'desc' }],
+      distinct: ['problemId'],
+    });
+    return new Map(revisions.map(revision => [revision.problemId, revision]));
+  }
+
+  private static async findLatestLessonRevision(lessonId: string): Promise<LessonRevision | null> {
+    return prisma.lessonRevision.findFirst({
+      where: { lessonId },
+      orderBy: { revision: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { StreakDay } from '@prisma/client';
+import { prisma } from '../database';
+import { LoggerService } from '../logger/logger.service';
+import { MAX_STREAK_FREEZES, STREAK_FREEZE_COST, STREAK_REPAIR_COST, toDateValue } from '../streaks';
+
+export interface FreezePurchaseResult {
+  streakFreezes: number;
+  totalXp: number;
+}
+
+export interface StreakRepairResult {
+  totalXp: number;
+}
+
+export interface StreakRepairInput {
+  // Last activity the repair was worked out from; the repair fails if the learner was active since
+  lastActivityDate: Date;
+  // Missed local days the repair covers, and an instant on the last of them to continue from
+  repairedDates: string[];
+  repairedThrough: Date;
+}
+
+/**
+ * Streak Repository
+ * Handles database operations for StreakDay entity, streak freezes and streak repairs
+ */
+export class StreakRepository {
+  /**
+   * Get the recorded streak days between two local dates (inclusive), oldest first
+   */
+  static async findDays(userId: string, from: string, to: string): Promise<StreakDay[]> {
+    try {
+      return await prisma.streakDay.findMany({
+        where: {
+          userId,
+          date: { gte: toDateValue(from), lte: toDateValue(to) },
+        },
+        orderBy: { date: 'asc' },
+      });
+    } catch (error) {
+      LoggerService.error('Failed to fetch streak days', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        from,
+        to,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Spend XP on one streak freeze
+   */
+  static async purchaseFreeze(userId: string): Promise<FreezePurchaseResult> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUnique({
+          where: { id: userId },
+          select: { totalXp: true, streakFreezes: true },
+        });
+
+        if (!user) {
+          throw new Error('User not found');
+        }
+        if (user.streakFreezes >= MAX_STREAK_FREEZES) {
+          throw new Error(`Streak freeze limit reached (${MAX_STREAK_FREEZES})`);
+        }
+        if (user.totalXp < STREAK_FREEZE_COST) {
+          throw new Error(`Not enough XP: a streak freeze costs ${STREAK_FREEZE_COST} XP`);
+        }
+
+        return await tx.user.update({
+          where: { id: userId },
+          data: {
+            totalXp: { decrement: STREAK_FREEZE_COST },
+            streakFreezes: { increment: 1 },
+          },
+          select: { totalXp: true, streakFreezes: true },
+        });
+      });
+    } catch (error) {
+      LoggerService.error('Failed to purchase streak freeze', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Spend XP to restore a lost streak: the missed days count as repaired and the
+   * streak continues from the last of them
+   */
+  static async repairStreak(userId: string, input: StreakRepairInput): Promise<StreakRepairResult> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUnique({
+          where: { id: userId },
+          select: { totalXp: true, lastActivityDate: true },
+        });
+
+        if (!user) {
+          throw new Error('User not found');
+        }
+        if (user.lastActivityDate?.getTime() !== input.lastActivityDate.getTime()) {
+          throw new Error('No lost streak to repair');
+        }
+        if (user.totalXp < STREAK_REPAIR_COST) {
+          throw new Error(`Not enough XP: a streak repair costs ${STREAK_REPAIR_COST} XP`);
+        }
+
+        const updated = await tx.user.update({
+          where: { id: userId },
+          data: {
+            totalXp: { decrement: STREAK_REPAIR_COST },
+            lastActivityDate: input.repairedThrough,
+          },
+          select: { totalXp: true },
+        });
+
+        await tx.streakDay.createMany({
+          data: input.repairedDates.map(date => ({ userId, date: toDateValue(date), status: 'repaired' as const })),
+          skipDuplicates: true,
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      LoggerService.error('Failed to repair streak', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
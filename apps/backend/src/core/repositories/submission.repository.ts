@@ -1,48 +1,81 @@
-import { Submission, UserProgress, User, Prisma } from '@prisma/client';
+import { Attempt, AttemptAnswer } from '@prisma/client';
 import { prisma } from '../../core/database';
 import { LoggerService } from '../../core/logger/logger.service';
+import { accountLessonProgress, scoreAnswers } from './progress-accounting';
+import { advanceStreak, toDateValue } from '../streaks';
+import { reviewQuality, scheduleReview } from '../reviews';
+import { MasteryRepository } from './mastery.repository';
 
-export interface SubmissionInput {
-  userId: string;
-  lessonId: string;
+export interface AnswerInput {
   problemId: string;
+  problemRevisionId: string; // Content the answer was graded against
   answer: string;
-  attemptId: string;
   isCorrect: boolean;
   xpEarned: number;
+  timeSpent?: number;
+  hintsUsed?: number;
 }
 
 export interface SubmissionResult {
-  submission: Submission;
+  attempt: Attempt;
   xpEarned: number;
   streakUpdated: boolean;
   newStreak: number;
+  bestStreak: number;
+  streakFreezesUsed: number;
   totalXp: number;
   lessonCompleted: boolean;
+  score: number;
+  bestScore: number;
+}
+
+/**
+ * One answered problem with the attempt it belongs to (for analytics)
+ */
+export interface AnswerHistoryEntry {
+  problemId: string;
+  lessonId: string;
+  isCorrect: boolean;
+  xpEarned: number;
+  timeSpent: number | null;
+  hintsUsed: number;
+  submittedAt: Date;
+  difficulty: string;
 }
 
 /**
  * Submission Repository
- * Handles all database operations for Submission entity and XP logic
+ * Handles all database operations for Attempt/AttemptAnswer entities and XP logic
  */
 export class SubmissionRepository {
   /**
-   * Get all submissions for a user (for analytics)
+   * Get every answered problem for a user, oldest first (for analytics)
    */
-  static async getUserSubmissions(userId: string) {
+  static async getUserSubmissions(userId: string): Promise<AnswerHistoryEntry[]> {
     try {
-      return await prisma.submission.findMany({
-        where: { userId },
-        orderBy: { submittedAt: 'asc' },
+      const answers = await prisma.attemptAnswer.findMany({
+        where: { attempt: { userId } },
+        orderBy: [{ attempt: { submittedAt: 'asc' } }, { createdAt: 'asc' }],
         include: {
-          lesson: {
-            select: { id: true, title: true, order: true }
+          attempt: {
+            select: { lessonId: true, submittedAt: true }
           },
           problem: {
-            select: { id: true, difficulty: true }
+            select: { difficulty: true }
           }
         }
       });
+
+      return answers.map(answer => ({
+        problemId: answer.problemId,
+        lessonId: answer.attempt.lessonId,
+        isCorrect: answer.isCorrect,
+        xpEarned: answer.xpEarned,
+        timeSpent: answer.timeSpent,
+        hintsUsed: answer.hintsUsed,
+        submittedAt: answer.attempt.submittedAt,
+        difficulty: answer.problem.difficulty,
+      }));
     } catch (error) {
       LoggerService.error('Failed to get user submissions', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -58,17 +91,14 @@ export class SubmissionRepository {
   static async submitAnswers(
     userId: string,
     lessonId: string,
-    answers: Array<{
-      problemId: string;
-      answer: string;
-      isCorrect: boolean;
-      xpEarned: number;
-    }>,
-    attemptId: string
+    lessonRevisionId: string,
+    answers: AnswerInput[],
+    attemptId: string,
+    timeSpent?: number
   ): Promise<SubmissionResult> {
     try {
       // Check if this attempt already exists (idempotency)
-      const existingSubmission = await prisma.submission.findFirst({
+      const existingAttempt = await prisma.attempt.findFirst({
         where: { 
           userId, 
           lessonId, 
@@ -79,25 +109,35 @@ export class SubmissionRepository {
             select: {
               totalXp: true,
               currentStreak: true,
+              bestStreak: true,
             }
           }
         }
       });
 
-      if (existingSubmission) {
+      if (existingAttempt) {
         LoggerService.info('Returning existing submission (idempotent)', {
           userId,
           lessonId,
           attemptId,
         });
 
+        const progress = await prisma.userProgress.findUnique({
+          where: { userId_lessonId: { userId, lessonId } },
+          select: { bestScore: true },
+        });
+
         return {
-          submission: existingSubmission,
-          xpEarned: existingSubmission.xpEarned,
+          attempt: existingAttempt,
+          xpEarned: existingAttempt.xpEarned,
           streakUpdated: false,
-          newStreak: existingSubmission.user.currentStreak,
-          totalXp: existingSubmission.user.totalXp,
-          lessonCompleted: existingSubmission.isCorrect,
+          newStreak: existingAttempt.user.currentStreak,
+          bestStreak: existingAttempt.user.bestStreak,
+          streakFreezesUsed: 0,
+          totalXp: existingAttempt.user.totalXp,
+          lessonCompleted: existingAttempt.isCorrect,
+          score: existingAttempt.score,
+          bestScore: progress?.bestScore ?? existingAttempt.score,
         };
       }
 
@@ -111,6 +151,8 @@ export class SubmissionRepository {
             currentStreak: true,
             bestStreak: true,
             lastActivityDate: true,
+            streakFreezes: true,
+            timezone: true,
           },
         });
 
@@ -123,48 +165,36 @@ export class SubmissionRepository {
           sum + (answer.isCorrect ? answer.xpEarned : 0), 0
         );
 
-        // Calculate streak logic
+        // Advance the daily streak in the learner's timezone
         const now = new Date();
-        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const lastActivity = user.lastActivityDate 
-          ? new Date(user.lastActivityDate.getFullYear(), user.lastActivityDate.getMonth(), user.lastActivityDate.getDate())
-          : null;
-
-        let newStreak = user.currentStreak;
-        let streakUpdated = false;
-
-        if (!lastActivity) {
-          // First activity
-          newStreak = 1;
-          streakUpdated = true;
-        } else {
-          const daysDiff = Math.floor((today.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-          
-          if (daysDiff === 1) {
-            // Consecutive day
-            newStreak = user.currentStreak + 1;
-            streakUpdated = true;
-          } else if (daysDiff > 1) {
-            // Missed day(s) - reset streak
-            newStreak = 1;
-            streakUpdated = true;
-          }
-          // daysDiff === 0 means same day, keep current streak
-        }
-
-        const newBestStreak = Math.max(user.bestStreak, newStreak);
+        const streak = advanceStreak(user, now);
         const newTotalXp = user.totalXp + totalXpEarned;
 
-        // Create submission record
-        const submission = await tx.submission.create({
+        const lessonCompleted = answers.every(a => a.isCorrect);
+        const score = scoreAnswers(answers);
+
+        // Create the attempt with one answer row per problem
+        const attempt = await tx.attempt.create({
           data: {
             userId,
             lessonId,
-            problemId: answers[0]?.problemId || '', // For lesson completion tracking
-            userAnswer: JSON.stringify(answers), // Store all answers as JSON
+            lessonRevisionId,
             attemptId,
-            isCorrect: answers.every(a => a.isCorrect), // All correct = lesson passed
+            score,
+            isCorrect: lessonCompleted, // All correct = lesson passed
             xpEarned: totalXpEarned,
+            timeSpent,
+            answers: {
+              create: answers.map(answer => ({
+                problemId: answer.problemId,
+                problemRevisionId: answer.problemRevisionId,
+                userAnswer: answer.answer,
+                isCorrect: answer.isCorrect,
+                xpEarned: answer.isCorrect ? answer.xpEarned : 0,
+                timeSpent: answer.timeSpent,
+                hintsUsed: answer.hintsUsed ?? 0,
+              })),
+            },
           },
         });
 
@@ -173,15 +203,62 @@ export class SubmissionRepository {
           where: { id: userId },
           data: {
             totalXp: newTotalXp,
-            currentStreak: newStreak,
-            bestStreak: newBestStreak,
+            currentStreak: streak.currentStreak,
+            bestStreak: streak.bestStreak,
+            streakFreezes: streak.streakFreezes,
             lastActivityDate: now,
           },
         });
 
-        // Update or create user progress
-        const lessonCompleted = answers.every(a => a.isCorrect);
-        const score = Math.round((answers.filter(a => a.isCorrect).length / answers.length) * 100);
+        // Record today, and any missed days a freeze covered, on the streak calendar
+        await tx.streakDay.createMany({
+          data: [
+            ...streak.frozenDates.map(date => ({ userId, date: toDateValue(date), status: 'frozen' as const })),
+            { userId, date: toDateValue(streak.today), status: 'active' as const },
+          ],
+          skipDuplicates: true,
+        });
+
+        // Queue missed problems for review and advance the ones already in the queue
+        const reviewItems = await tx.reviewItem.findMany({
+          where: { userId, problemId: { in: answers.map(answer => answer.problemId) } },
+        });
+        const queued = new Map(reviewItems.map(item => [item.problemId, item]));
+
+        for (const answer of answers) {
+          const item = queued.get(answer.problemId);
+          if (!item && answer.isCorrect) {
+            continue;
+          }
+
+          const schedule = scheduleReview(item ?? null, reviewQuality(answer.isCorrect, answer.hintsUsed), now);
+          await tx.reviewItem.upsert({
+            where: { userId_problemId: { userId, problemId: answer.problemId } },
+            update: schedule,
+            create: { userId, problemId: answer.problemId, ...schedule },
+          });
+        }
+
+        // Trace mastery of the skills the lesson teaches
+        await MasteryRepository.recordSkillPractice(tx, userId, answers, now);
+
+        // Fold the attempt into the lesson progress
+        const previousProgress = await tx.userProgress.findUnique({
+          where: { userId_lessonId: { userId, lessonId } },
+          select: {
+            isCompleted: true,
+            completionDate: true,
+            bestScore: true,
+            attemptsCount: true,
+            totalXpEarned: true,
+          },
+        });
+
+        const progress = accountLessonProgress(
+          previousProgress ?? null,
+          { score, completed: lessonCompleted, xpEarned: totalXpEarned },
+          now
+        );
 
         await tx.userProgress.upsert({
           where: {
@@ -190,39 +267,25 @@ export class SubmissionRepository {
               lessonId,
             },
           },
-          update: {
-            isCompleted: lessonCompleted || undefined, // Only set to true if completed
-            score: score,
-            bestScore: {
-              increment: score > 0 ? Math.max(0, score) : 0,
-            },
-            attemptsCount: {
-              increment: 1,
-            },
-            totalXpEarned: {
-              increment: totalXpEarned,
-            },
-            lastAttemptAt: now,
-          },
+          update: progress,
           create: {
             userId,
             lessonId,
-            isCompleted: lessonCompleted,
-            score,
-            bestScore: score,
-            attemptsCount: 1,
-            totalXpEarned: totalXpEarned,
-            lastAttemptAt: now,
+            ...progress,
           },
         });
 
         return {
-          submission,
+          attempt,
           xpEarned: totalXpEarned,
-          streakUpdated,
-          newStreak,
+          streakUpdated: streak.updated,
+          newStreak: streak.currentStreak,
+          bestStreak: streak.bestStreak,
+          streakFreezesUsed: streak.frozenDates.length,
           totalXp: newTotalXp,
           lessonCompleted,
+          score,
+          bestScore: progress.bestScore,
         };
       });
 
@@ -247,16 +310,17 @@ export class SubmissionRepository {
   }
 
   /**
-   * Get user submissions for a lesson
+   * Get a user's attempts for a lesson with their answers, newest first
    */
   static async findUserLessonSubmissions(
     userId: string,
     lessonId: string
-  ): Promise<Submission[]> {
+  ): Promise<Array<Attempt & { answers: AttemptAnswer[] }>> {
     try {
-      return await prisma.submission.findMany({
+      return await prisma.attempt.findMany({
         where: { userId, lessonId },
         orderBy: { createdAt: 'desc' },
+        include: { answers: true },
       });
     } catch (error) {
       LoggerService.error('Failed to fetch user lesson submissions', {
@@ -277,10 +341,10 @@ export class SubmissionRepository {
     attemptId: string
   ): Promise<boolean> {
     try {
-      const submission = await prisma.submission.findFirst({
+      const attempt = await prisma.attempt.findFirst({
         where: { userId, lessonId, attemptId },
       });
-      return !!submission;
+      return !!attempt;
     } catch (error) {
       LoggerService.error('Failed to check attempt existence', {
         error: error instanceof Error ? error.message : 'Unknown error',
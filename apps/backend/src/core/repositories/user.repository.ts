@@ -1,4 +1,4 @@
-import { User, Prisma } from '@prisma/client';
+import { User, Prisma, Role } from '@prisma/client';
 import { prisma } from '../database';
 import { LoggerService } from '../logger/logger.service';
 
@@ -12,10 +12,12 @@ export interface CreateUserInput {
   password?: string;
   isVerified?: boolean;
   isActive?: boolean;
+  role?: Role;
   totalXp?: number;
   currentStreak?: number;
   bestStreak?: number;
   lastActivityDate?: Date;
+  timezone?: string;
 }
 
 export interface UpdateUserInput {
@@ -27,11 +29,13 @@ export interface UpdateUserInput {
   password?: string;
   isVerified?: boolean;
   isActive?: boolean;
+  role?: Role;
   lastLoginAt?: Date;
   totalXp?: number;
   currentStreak?: number;
   bestStreak?: number;
   lastActivityDate?: Date;
+  timezone?: string;
 }
 
 export interface UserQueryOptions {
@@ -47,6 +51,7 @@ export interface PaginationOptions {
 export interface UserFilters {
   isActive?: boolean;
   isVerified?: boolean;
+  role?: Role;
   search?: string; // Search in email, username, firstName, lastName
 }
 
@@ -229,6 +234,10 @@ export class UserRepository {
         where.isVerified = filters.isVerified;
       }
 
+      if (filters.role) {
+        where.role = filters.role;
+      }
+
       if (filters.search) {
         where.OR = [
           { email: { contains: filters.search, mode: 'insensitive' } },
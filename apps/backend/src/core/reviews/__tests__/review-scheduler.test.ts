@@ -0,0 +1,61 @@
+/**
+ * Review Scheduler Unit Tests
+ * SM-2 intervals, ease factor and lapses (no database involved)
+ */
+
+import { DEFAULT_EASE_FACTOR, MIN_EASE_FACTOR, reviewQuality, scheduleReview } from '..';
+
+const now = new Date('2024-01-15T10:00:00Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe('reviewQuality', () => {
+  it('should grade misses, assisted and clean answers', () => {
+    expect(reviewQuality(false)).toBe(1);
+    expect(reviewQuality(false, 2)).toBe(1);
+    expect(reviewQuality(true, 1)).toBe(3);
+    expect(reviewQuality(true)).toBe(4);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('should queue a newly missed problem for tomorrow', () => {
+    const schedule = scheduleReview(null, 1, now);
+
+    expect(schedule).toEqual({
+      easeFactor: 1.96,
+      interval: 1,
+      repetitions: 0,
+      lapses: 1,
+      dueAt: daysFromNow(1),
+      lastReviewedAt: now,
+    });
+  });
+
+  it('should space reviews out 1, 6 and then interval x ease days', () => {
+    const first = scheduleReview({ easeFactor: DEFAULT_EASE_FACTOR, interval: 1, repetitions: 0, lapses: 1 }, 4, now);
+    expect(first).toEqual(expect.objectContaining({ interval: 1, repetitions: 1, easeFactor: 2.5 }));
+
+    const second = scheduleReview(first, 4, now);
+    expect(second).toEqual(expect.objectContaining({ interval: 6, repetitions: 2 }));
+
+    const third = scheduleReview(second, 5, now);
+    expect(third).toEqual(expect.objectContaining({ interval: 15, repetitions: 3, easeFactor: 2.6 }));
+    expect(third.dueAt).toEqual(daysFromNow(15));
+  });
+
+  it('should reset the repetitions and count a lapse on a miss', () => {
+    const schedule = scheduleReview({ easeFactor: 2.5, interval: 15, repetitions: 3, lapses: 1 }, 1, now);
+
+    expect(schedule).toEqual(expect.objectContaining({ interval: 1, repetitions: 0, lapses: 2 }));
+    expect(schedule.dueAt).toEqual(daysFromNow(1));
+  });
+
+  it('should not let the ease factor drop below the minimum', () => {
+    let state = scheduleReview(null, 0, now);
+    for (let i = 0; i < 5; i++) {
+      state = scheduleReview(state, 0, now);
+    }
+
+    expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
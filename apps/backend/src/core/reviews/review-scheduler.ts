@@ -0,0 +1,82 @@
+/**
+ * Review Scheduler
+ * SM-2 spaced repetition for problems a learner has missed.
+ * Every answer to a problem in the queue (in a lesson or a practice session) is graded
+ * 0-5 and moves the problem's next review further out, or back to tomorrow on a miss.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+// SM-2 never lets the ease factor drop below this, so intervals keep growing
+export const MIN_EASE_FACTOR = 1.3;
+
+// Lowest grade that counts as remembering the problem
+export const PASSING_QUALITY = 3;
+
+export interface ReviewState {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ReviewSchedule extends ReviewState {
+  dueAt: Date;
+  lastReviewedAt: Date;
+}
+
+/**
+ * SM-2 grade for an answer: 4 for a correct answer, 3 when hints were needed, 1 for a miss
+ */
+export function reviewQuality(isCorrect: boolean, hintsUsed: number = 0): number {
+  if (!isCorrect) {
+    return 1;
+  }
+  return hintsUsed > 0 ? PASSING_QUALITY : 4;
+}
+
+/**
+ * Apply a graded answer to a problem's schedule (null when the problem is not in the queue yet)
+ *   failing grade:  repetitions reset, review again in 1 day, one more lapse
+ *   passing grade:  1 day, then 6 days, then the previous interval times the ease factor
+ * The ease factor moves with the grade either way.
+ */
+export function scheduleReview(state: ReviewState | null, quality: number, now: Date): ReviewSchedule {
+  const previous = state ?? { easeFactor: DEFAULT_EASE_FACTOR, interval: 0, repetitions: 0, lapses: 0 };
+  const grade = Math.min(5, Math.max(0, Math.round(quality)));
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = previous.lapses;
+
+  if (grade < PASSING_QUALITY) {
+    interval = 1;
+    repetitions = 0;
+    lapses++;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(previous.interval * previous.easeFactor);
+    }
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
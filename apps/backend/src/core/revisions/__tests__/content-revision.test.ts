@@ -0,0 +1,85 @@
+/**
+ * Content Revision Unit Tests
+ * Snapshots of problems and lessons, and when a stored revision can be reused (no database involved)
+ */
+
+import { sameContent, snapshotLesson, snapshotProblem } from '..';
+
+const problem = (overrides: Record<string, unknown> = {}) => ({
+  id: 'problem-1',
+  lessonId: 'lesson-1',
+  question: 'What is 2 + 2?',
+  problemType: 'multiple_choice' as const,
+  order: 1,
+  correctAnswer: '4',
+  tolerance: null,
+  config: null,
+  template: null,
+  explanation: null,
+  difficulty: 'easy',
+  createdAt: new Date('2024-01-10T10:00:00Z'),
+  updatedAt: new Date('2024-01-10T10:00:00Z'),
+  options: [
+    { id: 'opt-2', optionText: '4', isCorrect: true, order: 2, correctOrder: null, problemId: 'problem-1' },
+    { id: 'opt-1', optionText: '3', isCorrect: false, order: 1, correctOrder: null, problemId: 'problem-1' },
+  ],
+  ...overrides,
+});
+
+describe('snapshotProblem', () => {
+  it('should keep the graded content only, with options in display order', () => {
+    expect(snapshotProblem(problem())).toEqual({
+      question: 'What is 2 + 2?',
+      problemType: 'multiple_choice',
+      correctAnswer: '4',
+      tolerance: null,
+      config: null,
+      template: null,
+      explanation: null,
+      hints: [],
+      difficulty: 'easy',
+      options: [
+        { id: 'opt-1', optionText: '3', isCorrect: false, order: 1, correctOrder: null },
+        { id: 'opt-2', optionText: '4', isCorrect: true, order: 2, correctOrder: null },
+      ],
+    });
+  });
+
+  it('should snapshot problems loaded without options', () => {
+    expect(snapshotProblem(problem({ problemType: 'input', options: undefined })).options).toEqual([]);
+  });
+});
+
+describe('sameContent', () => {
+  it('should ignore timestamps and the key order of JSON columns', () => {
+    const stored = snapshotProblem(problem({ config: { max: 1, min: 0, step: 0.25 } }));
+    const current = snapshotProblem(problem({
+      config: { min: 0, max: 1, step: 0.25 },
+      updatedAt: new Date('2024-02-01T10:00:00Z'),
+    }));
+
+    expect(sameContent(stored, current)).toBe(true);
+  });
+
+  it('should see a changed question, answer key, hint or option as new content', () => {
+    const stored = snapshotProblem(problem());
+
+    expect(sameContent(stored, snapshotProblem(problem({ question: 'What is 2 + 3?' })))).toBe(false);
+    expect(sameContent(stored, snapshotProblem(problem({ correctAnswer: '3' })))).toBe(false);
+    expect(sameContent(stored, snapshotProblem(problem({ hints: ['Count up from 2'] })))).toBe(false);
+    expect(sameContent(stored, snapshotProblem(problem({
+      options: [
+        { id: 'opt-1', optionText: '3', isCorrect: true, order: 1, correctOrder: null },
+        { id: 'opt-2', optionText: '4', isCorrect: false, order: 2, correctOrder: null },
+      ],
+    })))).toBe(false);
+  });
+
+  it('should see a lesson whose problems moved to new revisions as new content', () => {
+    const lesson = { title: 'Basic Addition', description: null, xpReward: 10, difficulty: 'easy', hintPenalty: 25 };
+
+    expect(sameContent(snapshotLesson(lesson, ['a-1', 'b-1']), snapshotLesson(lesson, ['a-1', 'b-1']))).toBe(true);
+    expect(sameContent(snapshotLesson(lesson, ['a-1', 'b-1']), snapshotLesson(lesson, ['a-1', 'b-2']))).toBe(false);
+    expect(sameContent(snapshotLesson(lesson, ['a-1', 'b-1']), snapshotLesson(lesson, ['b-1', 'a-1']))).toBe(false);
+  });
+});
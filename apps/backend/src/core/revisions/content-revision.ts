@@ -0,0 +1,112 @@
+import { ProblemType } from '@prisma/client';
+
+/**
+ * Content Revisions
+ * Immutable snapshots of lesson and problem content. Every graded answer points at
+ * the snapshot it was graded against, so editing a problem later never changes what
+ * a learner's history says they were asked. A new revision is only recorded when the
+ * content differs from the latest one.
+ */
+
+export interface OptionSnapshot {
+  id: string;
+  optionText: string;
+  isCorrect: boolean;
+  order: number;
+  correctOrder: number | null;
+}
+
+export interface ProblemSnapshot {
+  question: string;
+  problemType: ProblemType;
+  correctAnswer: string | null;
+  tolerance: number | null;
+  config: unknown;
+  template: unknown;
+  explanation: string | null;
+  hints: string[];
+  difficulty: string;
+  options: OptionSnapshot[];
+}
+
+export interface LessonSnapshot {
+  title: string;
+  description: string | null;
+  xpReward: number;
+  difficulty: string;
+  hintPenalty: number;
+  problemRevisionIds: string[];
+}
+
+// A problem as loaded for grading (options may be left out for types without options, hints when there are none)
+export type RevisableProblem = Omit<ProblemSnapshot, 'options' | 'hints'> & {
+  options?: OptionSnapshot[];
+  hints?: string[];
+};
+
+/**
+ * Content of a problem as graded: text, answer key, hints and options (in display order)
+ */
+export function snapshotProblem(problem: RevisableProblem): ProblemSnapshot {
+  return {
+    question: problem.question,
+    problemType: problem.problemType,
+    correctAnswer: problem.correctAnswer,
+    tolerance: problem.tolerance,
+    config: problem.config ?? null,
+    template: problem.template ?? null,
+    explanation: problem.explanation,
+    hints: [...(problem.hints ?? [])],
+    difficulty: problem.difficulty,
+    options: [...(problem.options ?? [])]
+      .sort((a, b) => a.order - b.order)
+      .map(option => ({
+        id: option.id,
+        optionText: option.optionText,
+        isCorrect: option.isCorrect,
+        order: option.order,
+        correctOrder: option.correctOrder ?? null,
+      })),
+  };
+}
+
+/**
+ * Content of a lesson as graded, pointing at the revision of each of its problems
+ */
+export function snapshotLesson(
+  lesson: Omit<LessonSnapshot, 'problemRevisionIds'>,
+  problemRevisionIds: string[]
+): LessonSnapshot {
+  return {
+    title: lesson.title,
+    description: lesson.description,
+    xpReward: lesson.xpReward,
+    difficulty: lesson.difficulty,
+    hintPenalty: lesson.hintPenalty,
+    problemRevisionIds,
+  };
+}
+
+/**
+ * Sort object keys recursively; JSON columns come back with their keys reordered
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether two snapshots hold the same content (a stored revision can then be reused)
+ */
+export function sameContent<T extends ProblemSnapshot | LessonSnapshot>(a: T, b: T): boolean {
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+}
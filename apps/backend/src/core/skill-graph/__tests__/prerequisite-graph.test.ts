@@ -0,0 +1,51 @@
+/**
+ * Prerequisite Graph Unit Tests
+ * Cycle detection and unlock rules (no database involved)
+ */
+
+import { assertAcyclic, findPrerequisiteCycle, isLessonUnlocked } from '..';
+
+const edge = (lessonId: string, prerequisiteId: string) => ({ lessonId, prerequisiteId });
+
+describe('findPrerequisiteCycle', () => {
+  it('should accept chains and diamonds', () => {
+    expect(findPrerequisiteCycle([])).toBeNull();
+    expect(findPrerequisiteCycle([edge('b', 'a'), edge('c', 'b')])).toBeNull();
+    expect(findPrerequisiteCycle([
+      edge('b', 'a'),
+      edge('c', 'a'),
+      edge('d', 'b'),
+      edge('d', 'c'),
+    ])).toBeNull();
+  });
+
+  it('should return the lessons along a cycle', () => {
+    expect(findPrerequisiteCycle([
+      edge('b', 'a'),
+      edge('c', 'b'),
+      edge('a', 'c'),
+      edge('d', 'a'),
+    ])).toEqual(['b', 'a', 'c', 'b']);
+  });
+
+  it('should treat a lesson requiring itself as a cycle', () => {
+    expect(findPrerequisiteCycle([edge('a', 'a')])).toEqual(['a', 'a']);
+  });
+});
+
+describe('assertAcyclic', () => {
+  it('should throw with the cycle in the message', () => {
+    expect(() => assertAcyclic([edge('a', 'b'), edge('b', 'a')])).toThrow('Prerequisite cycle: a -> b -> a');
+    expect(() => assertAcyclic([edge('b', 'a')])).not.toThrow();
+  });
+});
+
+describe('isLessonUnlocked', () => {
+  it('should require every prerequisite to be completed', () => {
+    const completed = new Set(['a', 'b']);
+
+    expect(isLessonUnlocked([], new Set())).toBe(true);
+    expect(isLessonUnlocked(['a', 'b'], completed)).toBe(true);
+    expect(isLessonUnlocked(['a', 'c'], completed)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Prerequisite Graph
+ * Lessons and their prerequisites form a directed acyclic graph: a lesson unlocks
+ * once every lesson it requires is completed. Writes are checked for cycles, since
+ * a cycle would lock every lesson on it forever.
+ */
+
+export const LESSON_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type LessonDifficulty = typeof LESSON_DIFFICULTIES[number];
+
+// `lessonId` requires `prerequisiteId`
+export interface PrerequisiteEdge {
+  lessonId: string;
+  prerequisiteId: string;
+}
+
+/**
+ * Find a cycle in the prerequisite graph
+ * @returns Lesson IDs along the cycle, starting and ending with the same lesson, or null for a DAG
+ */
+export function findPrerequisiteCycle(edges: PrerequisiteEdge[]): string[] | null {
+  const requires = new Map<string, string[]>();
+  for (const edge of edges) {
+    requires.set(edge.lessonId, [...(requires.get(edge.lessonId) ?? []), edge.prerequisiteId]);
+  }
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (lessonId: string): string[] | null => {
+    const onPath = path.indexOf(lessonId);
+    if (onPath !== -1) {
+      return [...path.slice(onPath), lessonId];
+    }
+    if (visited.has(lessonId)) {
+      return null;
+    }
+
+    path.push(lessonId);
+    for (const prerequisiteId of requires.get(lessonId) ?? []) {
+      const cycle = visit(prerequisiteId);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    visited.add(lessonId);
+    return null;
+  };
+
+  for (const lessonId of requires.keys()) {
+    const cycle = visit(lessonId);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Throw when the edges contain a cycle (including a lesson requiring itself)
+ */
+export function assertAcyclic(edges: PrerequisiteEdge[]): void {
+  const cycle = findPrerequisiteCycle(edges);
+  if (cycle) {
+    throw new Error(`Prerequisite cycle: ${cycle.join(' -> ')}`);
+  }
+}
+
+/**
+ * A lesson is unlocked when all of its prerequisites are completed (lessons without any always are)
+ */
+export function isLessonUnlocked(prerequisiteIds: string[], completedLessonIds: ReadonlySet<string>): boolean {
+  return prerequisiteIds.every(prerequisiteId => completedLessonIds.has(prerequisiteId));
+}
@@ -0,0 +1,112 @@
+/**
+ * Streak Engine Unit Tests
+ * Local day boundaries, freezes and streak reads (no database involved)
+ */
+
+import {
+  advanceStreak,
+  currentStreakAt,
+  daysBetween,
+  instantOn,
+  isValidTimeZone,
+  localDate,
+  MAX_STREAK_FREEZES,
+  repairableDates,
+  StreakState,
+} from '..';
+
+const baseState: StreakState = {
+  currentStreak: 3,
+  bestStreak: 5,
+  lastActivityDate: new Date('2024-01-14T10:00:00Z'),
+  streakFreezes: 0,
+  timezone: 'UTC',
+};
+
+describe('localDate', () => {
+  it('should place an instant on the calendar day of the timezone', () => {
+    const instant = new Date('2024-01-14T20:00:00Z');
+
+    expect(localDate(instant, 'UTC')).toBe('2024-01-14');
+    expect(localDate(instant, 'Asia/Jakarta')).toBe('2024-01-15');
+    expect(localDate(new Date('2024-01-15T03:00:00Z'), 'America/New_York')).toBe('2024-01-14');
+  });
+
+  it('should fall back to UTC for unknown zones', () => {
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(localDate(new Date('2024-01-14T23:00:00Z'), 'Mars/Olympus')).toBe('2024-01-14');
+  });
+
+  it('should find an instant on a local date in any timezone', () => {
+    ['UTC', 'Asia/Jakarta', 'America/New_York', 'Pacific/Kiritimati', 'Etc/GMT+12'].forEach(zone => {
+      expect(localDate(instantOn('2024-03-10', zone), zone)).toBe('2024-03-10');
+    });
+  });
+
+  it('should count days across month and year ends', () => {
+    expect(daysBetween('2023-12-31', '2024-01-01')).toBe(1);
+    expect(daysBetween('2024-02-28', '2024-03-01')).toBe(2);
+  });
+});
+
+describe('advanceStreak', () => {
+  it('should start a streak on first activity', () => {
+    const result = advanceStreak({ ...baseState, currentStreak: 0, lastActivityDate: null }, new Date('2024-01-15T10:00:00Z'));
+
+    expect(result).toEqual(expect.objectContaining({ currentStreak: 1, updated: true, today: '2024-01-15' }));
+  });
+
+  it('should earn a freeze on every seventh day up to the limit', () => {
+    const now = new Date('2024-01-15T10:00:00Z');
+
+    expect(advanceStreak({ ...baseState, currentStreak: 6 }, now)).toEqual(
+      expect.objectContaining({ currentStreak: 7, streakFreezes: 1, freezesEarned: 1 })
+    );
+    expect(advanceStreak({ ...baseState, currentStreak: 13, streakFreezes: MAX_STREAK_FREEZES }, now)).toEqual(
+      expect.objectContaining({ currentStreak: 14, streakFreezes: MAX_STREAK_FREEZES, freezesEarned: 0 })
+    );
+  });
+
+  it('should not change anything for a second activity on the same day', () => {
+    const result = advanceStreak(baseState, new Date('2024-01-14T22:00:00Z'));
+
+    expect(result).toEqual(expect.objectContaining({ currentStreak: 3, updated: false, frozenDates: [] }));
+  });
+
+  it('should cover a missed day with a freeze', () => {
+    const result = advanceStreak({ ...baseState, streakFreezes: 1 }, new Date('2024-01-16T10:00:00Z'));
+
+    expect(result).toEqual(expect.objectContaining({
+      currentStreak: 4,
+      streakFreezes: 0,
+      frozenDates: ['2024-01-15'],
+    }));
+  });
+});
+
+describe('currentStreakAt', () => {
+  it('should keep the streak through today and yesterday', () => {
+    expect(currentStreakAt(baseState, new Date('2024-01-15T23:00:00Z'))).toBe(3);
+  });
+
+  it('should read 0 once a day is missed without a freeze', () => {
+    expect(currentStreakAt(baseState, new Date('2024-01-16T01:00:00Z'))).toBe(0);
+    expect(currentStreakAt({ ...baseState, streakFreezes: 1 }, new Date('2024-01-16T01:00:00Z'))).toBe(3);
+  });
+});
+
+describe('repairableDates', () => {
+  it('should list the missed days of a streak lost within the window', () => {
+    expect(repairableDates(baseState, new Date('2024-01-17T10:00:00Z'))).toEqual(['2024-01-15', '2024-01-16']);
+  });
+
+  it('should have nothing to repair while the streak is alive', () => {
+    expect(repairableDates(baseState, new Date('2024-01-15T10:00:00Z'))).toEqual([]);
+    expect(repairableDates({ ...baseState, streakFreezes: 2 }, new Date('2024-01-17T10:00:00Z'))).toEqual([]);
+    expect(repairableDates({ ...baseState, currentStreak: 0 }, new Date('2024-01-17T10:00:00Z'))).toEqual([]);
+  });
+
+  it('should not repair a streak lost too long ago', () => {
+    expect(repairableDates(baseState, new Date('2024-01-19T10:00:00Z'))).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Streak Engine
+ * Daily streak rules evaluated in the learner's own timezone.
+ * Days are handled as local calendar dates ("YYYY-MM-DD") so a learner in Jakarta
+ * and one in New York both get a new day at their own midnight.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Most freezes a learner can hold at once
+export const MAX_STREAK_FREEZES = 2;
+
+// A freeze is earned every time the streak reaches a multiple of this many days
+export const STREAK_FREEZE_EARN_INTERVAL = 7;
+
+// XP spent to buy one freeze
+export const STREAK_FREEZE_COST = 50;
+
+// A lost streak can be repaired while at most this many days in a row were missed
+export const STREAK_REPAIR_WINDOW_DAYS = 3;
+
+// XP spent to repair a lost streak
+export const STREAK_REPAIR_COST = 100;
+
+export interface StreakState {
+  currentStreak: number;
+  bestStreak: number;
+  lastActivityDate: Date | null;
+  streakFreezes: number;
+  timezone: string;
+}
+
+export interface StreakAdvance {
+  currentStreak: number;
+  bestStreak: number;
+  updated: boolean;
+  streakFreezes: number;
+  // Local date the activity counted for
+  today: string;
+  // Missed days covered by freezes, oldest first
+  frozenDates: string[];
+  freezesEarned: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone the runtime knows (e.g. "Asia/Jakarta")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date of an instant in a timezone, as "YYYY-MM-DD"
+ * Unknown zones fall back to UTC
+ */
+export function localDate(instant: Date, timeZone: string): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  const parts = formatterFor(zone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Midnight UTC of a "YYYY-MM-DD" date, the form @db.Date columns are written with
+ */
+export function toDateValue(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * "YYYY-MM-DD" of a @db.Date column value
+ */
+export function fromDateValue(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDateValue(new Date(toDateValue(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * An instant that falls on a local date in a timezone
+ * Noon UTC is on that date, or the next one for zones far enough east
+ */
+export function instantOn(date: string, timeZone: string): Date {
+  const noon = toDateValue(date).getTime() + DAY_MS / 2;
+  return new Date(noon - daysBetween(date, localDate(new Date(noon), timeZone)) * DAY_MS);
+}
+
+/**
+ * Whole days from one local date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toDateValue(to).getTime() - toDateValue(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Apply a day of activity at `now`
+ *   same local day:                 unchanged
+ *   next local day:                 +1
+ *   gap covered by held freezes:    +1, one freeze spent per missed day
+ *   longer gap:                     back to 1, freezes kept
+ * Reaching a multiple of STREAK_FREEZE_EARN_INTERVAL earns a freeze (up to MAX_STREAK_FREEZES)
+ */
+export function advanceStreak(state: StreakState, now: Date): StreakAdvance {
+  const today = localDate(now, state.timezone);
+  let currentStreak = state.currentStreak;
+  let streakFreezes = state.streakFreezes;
+  let updated = false;
+  const frozenDates: string[] = [];
+
+  if (!state.lastActivityDate || currentStreak === 0) {
+    // First activity, or first since the streak was lost
+    currentStreak = 1;
+    updated = true;
+  } else {
+    const lastDay = localDate(state.lastActivityDate, state.timezone);
+    const daysDiff = daysBetween(lastDay, today);
+    const missedDays = daysDiff - 1;
+
+    if (daysDiff === 1) {
+      // Consecutive day
+      currentStreak += 1;
+      updated = true;
+    } else if (missedDays > 0 && missedDays <= streakFreezes) {
+      // Freezes cover the missed days
+      for (let offset = 1; offset <= missedDays; offset++) {
+        frozenDates.push(addDays(lastDay, offset));
+      }
+      streakFreezes -= missedDays;
+      currentStreak += 1;
+      updated = true;
+    } else if (missedDays > 0) {
+      // Missed more days than there are freezes - reset streak
+      currentStreak = 1;
+      updated = true;
+    }
+    // daysDiff <= 0 means same local day (or a move to an earlier timezone), keep current streak
+  }
+
+  let freezesEarned = 0;
+  if (updated && currentStreak % STREAK_FREEZE_EARN_INTERVAL === 0 && streakFreezes < MAX_STREAK_FREEZES) {
+    streakFreezes += 1;
+    freezesEarned = 1;
+  }
+
+  return {
+    currentStreak,
+    bestStreak: Math.max(state.bestStreak, currentStreak),
+    updated,
+    streakFreezes,
+    today,
+    frozenDates,
+    freezesEarned,
+  };
+}
+
+/**
+ * Streak as it stands at `now` without any new activity
+ * The stored streak is only updated on activity, so a streak whose gap can no longer be
+ * covered by freezes reads as 0 until the learner is active again
+ */
+export function currentStreakAt(state: StreakState, now: Date): number {
+  if (!state.lastActivityDate || state.currentStreak === 0) {
+    return 0;
+  }
+
+  const missedDays = daysBetween(localDate(state.lastActivityDate, state.timezone), localDate(now, state.timezone)) - 1;
+  return missedDays <= state.streakFreezes ? state.currentStreak : 0;
+}
+
+/**
+ * Missed days a streak repair would cover at `now`, oldest first
+ * Empty when there is nothing to repair: no streak yet, the streak is still alive (held
+ * freezes cover the gap), or more than STREAK_REPAIR_WINDOW_DAYS days have been missed
+ */
+export function repairableDates(state: StreakState, now: Date): string[] {
+  if (!state.lastActivityDate || state.currentStreak === 0) {
+    return [];
+  }
+
+  const lastDay = localDate(state.lastActivityDate, state.timezone);
+  const missedDays = daysBetween(lastDay, localDate(now, state.timezone)) - 1;
+  if (missedDays <= state.streakFreezes || missedDays > STREAK_REPAIR_WINDOW_DAYS) {
+    return [];
+  }
+
+  return Array.from({ length: missedDays }, (_, offset) => addDays(lastDay, offset + 1));
+}
@@ -32,6 +32,14 @@ const swaggerOptions: swaggerJsdoc.Options = {
       },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token issued by POST /api/auth/login or POST /api/auth/refresh',
+        },
+      },
       schemas: {
         Error: {
           type: 'object',
@@ -135,6 +143,26 @@ const swaggerOptions: swaggerJsdoc.Options = {
             },
           },
         },
+        Unauthorized: {
+          description: 'Missing, invalid or expired access token',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+            },
+          },
+        },
+        Forbidden: {
+          description: 'Authenticated but not allowed to perform this action',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error',
+              },
+            },
+          },
+        },
         NotFound: {
           description: 'Resource not found',
           content: {
@@ -158,6 +186,10 @@ const swaggerOptions: swaggerJsdoc.Options = {
       },
     },
     tags: [
+      {
+        name: 'Auth',
+        description: 'Authentication - log in, refresh access tokens, log out',
+      },
       {
         name: 'Health',
         description: 'Health check endpoints for monitoring and status verification',
@@ -170,6 +202,38 @@ const swaggerOptions: swaggerJsdoc.Options = {
         name: 'Profile',
         description: 'User profile and statistics - XP, streak, and learning progress',
       },
+      {
+        name: 'Streaks',
+        description: 'Daily streaks - streak calendar, streak freezes and the learner timezone',
+      },
+      {
+        name: 'Leaderboards',
+        description: 'Weekly league leaderboards - cohort standings, promotion and demotion',
+      },
+      {
+        name: 'Reviews',
+        description: 'Spaced-repetition review queue - practice missed problems when they come due',
+      },
+      {
+        name: 'Experiments',
+        description: 'Admin - A/B experiments comparing recommendation strategies',
+      },
+      {
+        name: 'Authoring',
+        description: 'Teachers and admins - write, order and publish lessons, problems and options',
+      },
+      {
+        name: 'Classrooms',
+        description: 'Classrooms - join codes, students, lesson assignments and the teacher dashboard',
+      },
+      {
+        name: 'Gradebook',
+        description: 'Teachers and admins - export student progress as CSV or XLSX',
+      },
+      {
+        name: 'Users',
+        description: 'Admin - manage user accounts and their roles',
+      },
     ],
   },
   apis: [
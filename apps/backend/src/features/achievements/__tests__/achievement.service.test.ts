@@ -0,0 +1,197 @@
+/**
+ * AchievementService Unit Tests
+ * Tests for achievement rules, unlocking after submissions and the user's badge list
+ */
+
+const mockAchievementRepository = {
+  findActive: jest.fn(),
+  findUnlocked: jest.fn(),
+  unlock: jest.fn(),
+  countLessons: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/achievement.repository', () => ({
+  AchievementRepository: mockAchievementRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { AchievementService } from '../achievement.service';
+import { isAchievementEarned, AchievementContext } from '../achievement-rules';
+
+const definition = (id: string, rule: string, threshold: number | null) => ({
+  id,
+  title: id,
+  description: `${id} description`,
+  icon: '🏅',
+  rule,
+  threshold,
+  order: 0,
+  isActive: true,
+});
+
+const definitions = [
+  definition('first_lesson', 'lessons_completed', 1),
+  definition('streak_3', 'streak_length', 3),
+  definition('xp_1000', 'xp_threshold', 1000),
+  definition('perfect_lesson', 'perfect_lesson', 1),
+  definition('speed_run', 'speed', 60),
+  definition('all_lessons', 'lessons_completed', null),
+];
+
+describe('isAchievementEarned', () => {
+  const context: AchievementContext = {
+    totalXp: 400,
+    bestStreak: 3,
+    lessonsCompleted: 4,
+    perfectLessons: 4,
+    activeLessons: 5,
+    activeLessonsCompleted: 4,
+    attempt: { score: 100, timeSpent: 75 },
+  };
+
+  it.each([
+    ['xp_threshold', 400, true],
+    ['xp_threshold', 401, false],
+    ['streak_length', 3, true],
+    ['streak_length', 7, false],
+    ['perfect_lesson', 4, true],
+    ['perfect_lesson', 5, false],
+    ['lessons_completed', 4, true],
+    ['speed', 75, true],
+    ['speed', 60, false],
+  ])('should check %s against threshold %p', (rule, threshold, expected) => {
+    expect(isAchievementEarned({ rule: rule as any, threshold }, context)).toBe(expected);
+  });
+
+  it('should require every active lesson when lessons_completed has no threshold', () => {
+    expect(isAchievementEarned({ rule: 'lessons_completed', threshold: null }, context)).toBe(false);
+    expect(isAchievementEarned(
+      { rule: 'lessons_completed', threshold: null },
+      { ...context, activeLessonsCompleted: 5 }
+    )).toBe(true);
+  });
+
+  it('should only count fast attempts that are perfect and timed', () => {
+    const speed = { rule: 'speed' as const, threshold: 60 };
+
+    expect(isAchievementEarned(speed, { ...context, attempt: { score: 100, timeSpent: 40 } })).toBe(true);
+    expect(isAchievementEarned(speed, { ...context, attempt: { score: 80, timeSpent: 40 } })).toBe(false);
+    expect(isAchievementEarned(speed, { ...context, attempt: { score: 100, timeSpent: null } })).toBe(false);
+  });
+});
+
+describe('AchievementService', () => {
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-01-15T12:00:00Z') });
+    mockAchievementRepository.findActive.mockResolvedValue(definitions);
+    mockAchievementRepository.unlock.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('evaluateAfterSubmission', () => {
+    const submission = {
+      attemptId: 'attempt-1',
+      totalXp: 1010,
+      bestStreak: 2,
+      score: 100,
+      timeSpent: 120,
+    };
+
+    it('should unlock newly earned achievements and return them', async () => {
+      // Arrange
+      mockAchievementRepository.findUnlocked.mockResolvedValue([
+        { achievementId: 'first_lesson', unlockedAt: new Date('2024-01-01T10:00:00Z') },
+      ]);
+      mockAchievementRepository.countLessons.mockResolvedValue({
+        lessonsCompleted: 2,
+        perfectLessons: 2,
+        activeLessons: 3,
+        activeLessonsCompleted: 2,
+      });
+
+      // Act
+      const result = await AchievementService.evaluateAfterSubmission(userId, submission);
+
+      // Assert
+      const unlockedAt = new Date('2024-01-15T12:00:00Z');
+      expect(mockAchievementRepository.unlock).toHaveBeenCalledWith(
+        userId,
+        ['xp_1000', 'perfect_lesson'],
+        'attempt-1',
+        unlockedAt
+      );
+      expect(result).toEqual([
+        {
+          id: 'xp_1000',
+          title: 'xp_1000',
+          description: 'xp_1000 description',
+          icon: '🏅',
+          rule: 'xp_threshold',
+          threshold: 1000,
+          unlockedAt,
+        },
+        expect.objectContaining({ id: 'perfect_lesson', unlockedAt }),
+      ]);
+    });
+
+    it('should not unlock anything when nothing new is earned', async () => {
+      // Arrange
+      mockAchievementRepository.findUnlocked.mockResolvedValue([]);
+      mockAchievementRepository.countLessons.mockResolvedValue({
+        lessonsCompleted: 0,
+        perfectLessons: 0,
+        activeLessons: 3,
+        activeLessonsCompleted: 0,
+      });
+
+      // Act
+      const result = await AchievementService.evaluateAfterSubmission(userId, {
+        ...submission,
+        totalXp: 0,
+        score: 50,
+      });
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(mockAchievementRepository.unlock).not.toHaveBeenCalled();
+    });
+
+    it('should pass on repository errors', async () => {
+      mockAchievementRepository.findUnlocked.mockRejectedValue(new Error('Database error'));
+      mockAchievementRepository.countLessons.mockResolvedValue({});
+
+      await expect(AchievementService.evaluateAfterSubmission(userId, submission)).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('getUserAchievements', () => {
+    it('should list every active achievement with unlock times', async () => {
+      // Arrange
+      const unlockedAt = new Date('2024-01-10T08:00:00Z');
+      mockAchievementRepository.findUnlocked.mockResolvedValue([
+        { achievementId: 'streak_3', unlockedAt },
+      ]);
+
+      // Act
+      const result = await AchievementService.getUserAchievements(userId);
+
+      // Assert
+      expect(result).toHaveLength(definitions.length);
+      expect(result.find(a => a.id === 'streak_3')?.unlockedAt).toEqual(unlockedAt);
+      expect(result.filter(a => a.unlockedAt === null)).toHaveLength(definitions.length - 1);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { AchievementRule } from '@prisma/client';
+
+/**
+ * The slice of an achievement definition the rules look at
+ */
+export interface AchievementCriteria {
+  rule: AchievementRule;
+  threshold: number | null;
+}
+
+/**
+ * Learner state an achievement is checked against after a submission
+ */
+export interface AchievementContext {
+  totalXp: number;
+  bestStreak: number;
+  lessonsCompleted: number;
+  perfectLessons: number;
+  activeLessons: number;
+  activeLessonsCompleted: number;
+  // The attempt just submitted; only the speed rule looks at it
+  attempt: {
+    score: number;
+    timeSpent: number | null;
+  };
+}
+
+/**
+ * Whether the learner has earned an achievement.
+ * Thresholds are XP for xp_threshold, days for streak_length, lessons for perfect_lesson
+ * and lessons_completed (no threshold = every active lesson), and seconds for speed.
+ */
+export const isAchievementEarned = (criteria: AchievementCriteria, context: AchievementContext): boolean => {
+  const threshold = criteria.threshold ?? 0;
+
+  switch (criteria.rule) {
+    case 'xp_threshold':
+      return context.totalXp >= threshold;
+    case 'streak_length':
+      return context.bestStreak >= threshold;
+    case 'perfect_lesson':
+      return context.perfectLessons >= Math.max(threshold, 1);
+    case 'lessons_completed':
+      if (criteria.threshold === null) {
+        return context.activeLessons > 0 && context.activeLessonsCompleted >= context.activeLessons;
+      }
+      return context.lessonsCompleted >= threshold;
+    case 'speed':
+      // A perfect attempt finished within the time limit
+      return context.attempt.score === 100
+        && context.attempt.timeSpent !== null
+        && context.attempt.timeSpent <= threshold;
+    default:
+      return false;
+  }
+};
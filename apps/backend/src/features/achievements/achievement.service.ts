@@ -0,0 +1,109 @@
+import { AchievementRepository } from '../../core/repositories/achievement.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { AchievementContext, isAchievementEarned } from './achievement-rules';
+import { AchievementDto, transformAchievementToDto } from './dtos/achievement.dto';
+
+/**
+ * Learner state after a submission, as reported by the submission
+ */
+export interface SubmissionAchievementInput {
+  attemptId: string;
+  totalXp: number;
+  bestStreak: number;
+  score: number;
+  timeSpent: number | null;
+}
+
+/**
+ * Achievement Service
+ * Business logic for achievement definitions and unlocks
+ */
+export class AchievementService {
+  /**
+   * Every active achievement, with the user's unlock time where unlocked
+   */
+  static async getUserAchievements(userId: string): Promise<AchievementDto[]> {
+    LoggerService.logService('AchievementService', `getUserAchievements(${userId})`, true);
+
+    try {
+      const [achievements, unlocked] = await Promise.all([
+        AchievementRepository.findActive(),
+        AchievementRepository.findUnlocked(userId),
+      ]);
+
+      const unlockedAt = new Map(unlocked.map(unlock => [unlock.achievementId, unlock.unlockedAt]));
+
+      return achievements.map(achievement =>
+        transformAchievementToDto(achievement, unlockedAt.get(achievement.id) ?? null)
+      );
+    } catch (error) {
+      LoggerService.error('Failed to get user achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check the achievements the user does not hold yet against a submission
+   * and unlock the ones now earned
+   * @returns The achievements unlocked by this submission
+   */
+  static async evaluateAfterSubmission(
+    userId: string,
+    submission: SubmissionAchievementInput
+  ): Promise<AchievementDto[]> {
+    LoggerService.logService('AchievementService', `evaluateAfterSubmission(${userId}, ${submission.attemptId})`, true);
+
+    try {
+      const [achievements, unlocked, lessonCounts] = await Promise.all([
+        AchievementRepository.findActive(),
+        AchievementRepository.findUnlocked(userId),
+        AchievementRepository.countLessons(userId),
+      ]);
+
+      const held = new Set(unlocked.map(unlock => unlock.achievementId));
+      const context: AchievementContext = {
+        totalXp: submission.totalXp,
+        bestStreak: submission.bestStreak,
+        ...lessonCounts,
+        attempt: {
+          score: submission.score,
+          timeSpent: submission.timeSpent,
+        },
+      };
+
+      const earned = achievements.filter(achievement =>
+        !held.has(achievement.id) && isAchievementEarned(achievement, context)
+      );
+
+      if (earned.length === 0) {
+        return [];
+      }
+
+      const unlockedAt = new Date();
+      await AchievementRepository.unlock(
+        userId,
+        earned.map(achievement => achievement.id),
+        submission.attemptId,
+        unlockedAt
+      );
+
+      LoggerService.info('Achievements unlocked', {
+        userId,
+        attemptId: submission.attemptId,
+        achievementIds: earned.map(achievement => achievement.id),
+      });
+
+      return earned.map(achievement => transformAchievementToDto(achievement, unlockedAt));
+    } catch (error) {
+      LoggerService.error('Failed to evaluate achievements', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId: submission.attemptId,
+      });
+      throw error;
+    }
+  }
+}
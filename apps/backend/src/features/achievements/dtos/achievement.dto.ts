@@ -0,0 +1,82 @@
+import { AchievementRule } from '@prisma/client';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Achievement:
+ *       type: object
+ *       required:
+ *         - id
+ *         - title
+ *         - description
+ *         - icon
+ *         - rule
+ *         - threshold
+ *         - unlockedAt
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "first_lesson"
+ *           description: Achievement identifier
+ *         title:
+ *           type: string
+ *           example: "First Steps"
+ *           description: Achievement title
+ *         description:
+ *           type: string
+ *           example: "Complete your first lesson"
+ *           description: Achievement description
+ *         icon:
+ *           type: string
+ *           example: "🎯"
+ *           description: Badge icon (emoji or image URL)
+ *         rule:
+ *           type: string
+ *           enum: [xp_threshold, streak_length, perfect_lesson, lessons_completed, speed]
+ *           example: "lessons_completed"
+ *           description: What the learner has to do to unlock the achievement
+ *         threshold:
+ *           type: integer
+ *           nullable: true
+ *           example: 1
+ *           description: |
+ *             XP for xp_threshold, days for streak_length, lessons for perfect_lesson and
+ *             lessons_completed (null = every active lesson), seconds for speed
+ *         unlockedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           example: "2025-07-15T10:30:00.000Z"
+ *           description: When the achievement was unlocked (null while locked)
+ */
+
+/**
+ * Achievement DTOs and Interfaces
+ */
+
+// Achievement DTO
+export interface AchievementDto {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  rule: AchievementRule;
+  threshold: number | null;
+  unlockedAt: Date | null;
+}
+
+/**
+ * Transform functions
+ */
+
+// Transform an achievement definition (and the user's unlock, if any) to DTO
+export const transformAchievementToDto = (achievement: any, unlockedAt: Date | null): AchievementDto => ({
+  id: achievement.id,
+  title: achievement.title,
+  description: achievement.description,
+  icon: achievement.icon,
+  rule: achievement.rule,
+  threshold: achievement.threshold,
+  unlockedAt,
+});
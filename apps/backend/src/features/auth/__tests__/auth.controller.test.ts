@@ -0,0 +1,171 @@
+import request from 'supertest';
+import express from 'express';
+import authRoutes from '../auth.routes';
+import { AuthService } from '../auth.service';
+import { TokenService } from '../../../core/auth/token.service';
+
+// Mock AuthService
+jest.mock('../auth.service', () => ({
+  AuthService: {
+    login: jest.fn(),
+    refresh: jest.fn(),
+    logout: jest.fn(),
+    getCurrentUser: jest.fn(),
+  },
+}));
+
+// Mock LoggerService
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Mock async handler and response helpers
+jest.mock('../../../core/middleware', () => ({
+  asyncHandler: (fn: any) => fn,
+  sendSuccess: jest.fn((res, data, message, status = 200) =>
+    res.status(status).json({ success: true, data, message })
+  ),
+  sendError: jest.fn((res, error, status = 500) =>
+    res.status(status).json({ success: false, error })
+  ),
+}));
+
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+
+const app = express();
+app.use(express.json());
+app.use('/auth', authRoutes);
+
+describe('AuthController', () => {
+  const mockTokens = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    tokenType: 'Bearer' as const,
+    expiresIn: 900,
+    user: {
+      id: 'user-1',
+      email: 'test@example.com',
+      username: 'testuser',
+      displayName: 'Test User',
+      role: 'learner' as const,
+    },
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /auth/login', () => {
+    it('should return tokens for valid credentials', async () => {
+      mockAuthService.login.mockResolvedValue(mockTokens);
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'test@example.com', password: 'secret123' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toEqual(mockTokens);
+      expect(mockAuthService.login).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        password: 'secret123',
+      });
+    });
+
+    it('should return 401 for invalid credentials', async () => {
+      mockAuthService.login.mockRejectedValue(new Error('Invalid email or password'));
+
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'test@example.com', password: 'wrong' })
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should return 400 for malformed body', async () => {
+      await request(app)
+        .post('/auth/login')
+        .send({ email: 'not-an-email' })
+        .expect(400);
+
+      expect(mockAuthService.login).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    it('should rotate tokens', async () => {
+      mockAuthService.refresh.mockResolvedValue(mockTokens);
+
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'old-refresh-token' })
+        .expect(200);
+
+      expect(response.body.data.accessToken).toBe('access-token');
+      expect(mockAuthService.refresh).toHaveBeenCalledWith('old-refresh-token');
+    });
+
+    it('should return 401 for invalid refresh token', async () => {
+      mockAuthService.refresh.mockRejectedValue(new Error('Invalid refresh token'));
+
+      await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'stale' })
+        .expect(401);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      mockAuthService.logout.mockResolvedValue();
+
+      await request(app)
+        .post('/auth/logout')
+        .send({ refreshToken: 'refresh-token' })
+        .expect(200);
+
+      expect(mockAuthService.logout).toHaveBeenCalledWith('refresh-token');
+    });
+  });
+
+  describe('GET /auth/me', () => {
+    it('should return 401 without a bearer token', async () => {
+      const response = await request(app)
+        .get('/auth/me')
+        .expect(401);
+
+      expect(response.body.error).toBe('Authentication required');
+      expect(mockAuthService.getCurrentUser).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an invalid token', async () => {
+      await request(app)
+        .get('/auth/me')
+        .set('Authorization', 'Bearer not-a-jwt')
+        .expect(401);
+    });
+
+    it('should return the user for a valid access token', async () => {
+      mockAuthService.getCurrentUser.mockResolvedValue(mockTokens.user);
+      const accessToken = TokenService.signAccessToken({ id: 'user-1', email: 'test@example.com', role: 'learner' });
+
+      const response = await request(app)
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(mockAuthService.getCurrentUser).toHaveBeenCalledWith('user-1');
+      expect(response.body.data).toEqual(mockTokens.user);
+    });
+  });
+});
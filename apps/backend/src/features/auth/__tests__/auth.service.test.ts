@@ -0,0 +1,176 @@
+/**
+ * AuthService Unit Tests
+ * Tests for login, refresh token rotation and logout
+ */
+
+// Mock dependencies first
+const mockAuthenticateUser = jest.fn();
+
+const mockUserRepository = {
+  findById: jest.fn(),
+};
+
+const mockRefreshTokenRepository = {
+  create: jest.fn(),
+  findActiveByHash: jest.fn(),
+  revokeByHash: jest.fn(),
+};
+
+jest.mock('../../users/user.service', () => ({
+  UserService: jest.fn().mockImplementation(() => ({
+    authenticateUser: mockAuthenticateUser,
+  })),
+}));
+
+jest.mock('../../../core/repositories/user.repository', () => ({
+  UserRepository: mockUserRepository,
+}));
+
+jest.mock('../../../core/repositories/refresh-token.repository', () => ({
+  RefreshTokenRepository: mockRefreshTokenRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+import { AuthService } from '../auth.service';
+import { TokenService } from '../../../core/auth/token.service';
+
+describe('AuthService', () => {
+  const mockUser = {
+    id: 'user-1',
+    email: 'test@example.com',
+    username: 'testuser',
+    displayName: 'Test User',
+    role: 'teacher',
+    isActive: true,
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('login', () => {
+    it('should issue an access token and persist a hashed refresh token', async () => {
+      // Arrange
+      mockAuthenticateUser.mockResolvedValue(mockUser);
+      mockRefreshTokenRepository.create.mockResolvedValue({});
+
+      // Act
+      const result = await AuthService.login({ email: 'test@example.com', password: 'secret123' });
+
+      // Assert
+      expect(result.tokenType).toBe('Bearer');
+      expect(result.user).toEqual({
+        id: 'user-1',
+        email: 'test@example.com',
+        username: 'testuser',
+        displayName: 'Test User',
+        role: 'teacher',
+      });
+      expect(TokenService.verifyAccessToken(result.accessToken)).toMatchObject({ sub: 'user-1', role: 'teacher' });
+      expect(result.expiresIn).toBeGreaterThan(0);
+      expect(mockRefreshTokenRepository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        tokenHash: TokenService.hashToken(result.refreshToken),
+        expiresAt: expect.any(Date),
+      });
+    });
+
+    it('should reject invalid credentials', async () => {
+      // Arrange
+      mockAuthenticateUser.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        AuthService.login({ email: 'test@example.com', password: 'wrong' })
+      ).rejects.toThrow('Invalid email or password');
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should revoke the presented token and issue a new pair', async () => {
+      // Arrange
+      mockRefreshTokenRepository.findActiveByHash.mockResolvedValue({ userId: 'user-1' });
+      mockRefreshTokenRepository.revokeByHash.mockResolvedValue(true);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      // Act
+      const result = await AuthService.refresh('old-refresh-token');
+
+      // Assert
+      expect(mockRefreshTokenRepository.findActiveByHash).toHaveBeenCalledWith(
+        TokenService.hashToken('old-refresh-token')
+      );
+      expect(mockRefreshTokenRepository.revokeByHash).toHaveBeenCalledWith(
+        TokenService.hashToken('old-refresh-token')
+      );
+      expect(result.refreshToken).not.toBe('old-refresh-token');
+      expect(mockRefreshTokenRepository.create).toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked or expired tokens', async () => {
+      // Arrange
+      mockRefreshTokenRepository.findActiveByHash.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(AuthService.refresh('stale-token')).rejects.toThrow('Invalid refresh token');
+      expect(mockRefreshTokenRepository.revokeByHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token already exchanged by a concurrent request', async () => {
+      // Arrange
+      mockRefreshTokenRepository.findActiveByHash.mockResolvedValue({ userId: 'user-1' });
+      mockRefreshTokenRepository.revokeByHash.mockResolvedValue(false);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      // Act & Assert
+      await expect(AuthService.refresh('reused-token')).rejects.toThrow('Invalid refresh token');
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject deactivated accounts', async () => {
+      // Arrange
+      mockRefreshTokenRepository.findActiveByHash.mockResolvedValue({ userId: 'user-1' });
+      mockRefreshTokenRepository.revokeByHash.mockResolvedValue(true);
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, isActive: false });
+
+      // Act & Assert
+      await expect(AuthService.refresh('refresh-token')).rejects.toThrow('Account is deactivated');
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the refresh token by hash', async () => {
+      // Arrange
+      mockRefreshTokenRepository.revokeByHash.mockResolvedValue(true);
+
+      // Act
+      await AuthService.logout('refresh-token');
+
+      // Assert
+      expect(mockRefreshTokenRepository.revokeByHash).toHaveBeenCalledWith(
+        TokenService.hashToken('refresh-token')
+      );
+    });
+  });
+
+  describe('getCurrentUser', () => {
+    it('should throw when user does not exist', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(AuthService.getCurrentUser('missing')).rejects.toThrow('User not found');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+import { LoginDto, RefreshTokenDto } from './dtos/auth.dto';
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in
+ *     description: Authenticate with email and password and receive an access/refresh token pair
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginRequest'
+ *     responses:
+ *       200:
+ *         description: Logged in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokensResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: Exchange a refresh token for a new token pair. The presented refresh token is revoked.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokensResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Revoke a refresh token so it can no longer be used
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/auth/me:
+ *   get:
+ *     summary: Get current user
+ *     description: Return the user identified by the access token
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current user retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthUserResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Auth Controller
+ * Handles HTTP requests for authentication endpoints
+ */
+export class AuthController {
+  /**
+   * POST /api/auth/login
+   * Authenticate and issue tokens
+   */
+  static async login(req: Request, res: Response): Promise<void> {
+    const loginData = req.validated?.body as LoginDto;
+
+    try {
+      const tokens = await AuthService.login(loginData);
+
+      sendSuccess(res, tokens, 'Logged in successfully');
+    } catch (error) {
+      LoggerService.error('Failed to log in', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: loginData?.email,
+      });
+
+      if (error instanceof Error && error.message.includes('Invalid email or password')) {
+        sendError(res, 'Invalid email or password', 401);
+      } else if (error instanceof Error && error.message.includes('deactivated')) {
+        sendError(res, 'Account is deactivated', 403);
+      } else {
+        sendError(res, 'Failed to log in', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/auth/refresh
+   * Rotate refresh token and issue a new access token
+   */
+  static async refresh(req: Request, res: Response): Promise<void> {
+    const { refreshToken } = req.validated?.body as RefreshTokenDto;
+
+    try {
+      const tokens = await AuthService.refresh(refreshToken);
+
+      sendSuccess(res, tokens, 'Token refreshed successfully');
+    } catch (error) {
+      LoggerService.error('Failed to refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof Error && (error.message.includes('Invalid refresh token') || error.message.includes('deactivated'))) {
+        sendError(res, 'Invalid or expired refresh token', 401);
+      } else {
+        sendError(res, 'Failed to refresh token', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/auth/logout
+   * Revoke refresh token
+   */
+  static async logout(req: Request, res: Response): Promise<void> {
+    const { refreshToken } = req.validated?.body as RefreshTokenDto;
+
+    try {
+      await AuthService.logout(refreshToken);
+
+      sendSuccess(res, null, 'Logged out successfully');
+    } catch (error) {
+      LoggerService.error('Failed to log out', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(res, 'Failed to log out', 500);
+    }
+  }
+
+  /**
+   * GET /api/auth/me
+   * Get the authenticated user
+   */
+  static async getCurrentUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser(req.user!.id);
+
+      sendSuccess(res, user, 'Current user retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get current user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to retrieve current user', 500);
+      }
+    }
+  }
+}
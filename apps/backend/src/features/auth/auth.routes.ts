@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { AuthController } from './auth.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
+import { validateBody } from '../../core/validation/validation.middleware';
+import { loginSchema, refreshTokenSchema } from './dtos/auth.dto';
+
+/**
+ * Auth Routes
+ * /api/auth
+ */
+const router = Router();
+
+// POST /api/auth/login - Log in with email and password
+router.post('/login', validateBody(loginSchema), asyncHandler(AuthController.login));
+
+// POST /api/auth/refresh - Exchange refresh token for a new token pair
+router.post('/refresh', validateBody(refreshTokenSchema), asyncHandler(AuthController.refresh));
+
+// POST /api/auth/logout - Revoke refresh token
+router.post('/logout', validateBody(refreshTokenSchema), asyncHandler(AuthController.logout));
+
+// GET /api/auth/me - Get the authenticated user
+router.get('/me', authenticate, asyncHandler(AuthController.getCurrentUser));
+
+export default router;
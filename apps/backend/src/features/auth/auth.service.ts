@@ -0,0 +1,145 @@
+import { Role } from '@prisma/client';
+import { UserService } from '../users/user.service';
+import { UserRepository } from '../../core/repositories/user.repository';
+import { RefreshTokenRepository } from '../../core/repositories/refresh-token.repository';
+import { TokenService } from '../../core/auth/token.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import {
+  AuthTokensDto,
+  AuthUserDto,
+  LoginDto,
+  transformAuthUserToDto,
+} from './dtos/auth.dto';
+
+/**
+ * Auth Service
+ * Business logic for login, token refresh and logout
+ */
+export class AuthService {
+  private static readonly userService = new UserService();
+
+  /**
+   * Authenticate with email and password and issue a token pair
+   */
+  static async login(loginData: LoginDto): Promise<AuthTokensDto> {
+    LoggerService.logService('AuthService', `login(${loginData.email})`, true);
+
+    try {
+      const user = await this.userService.authenticateUser(loginData);
+      if (!user) {
+        throw new Error('Invalid email or password');
+      }
+
+      return await this.issueTokens(user);
+    } catch (error) {
+      LoggerService.error('Failed to log in', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: loginData.email,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * The presented refresh token is revoked (rotation) and can never be exchanged twice
+   */
+  static async refresh(refreshToken: string): Promise<AuthTokensDto> {
+    LoggerService.logService('AuthService', 'refresh', true);
+
+    try {
+      const tokenHash = TokenService.hashToken(refreshToken);
+      const storedToken = await RefreshTokenRepository.findActiveByHash(tokenHash);
+      if (!storedToken) {
+        throw new Error('Invalid refresh token');
+      }
+
+      // Revoking is conditional, so only one of several concurrent uses of a token wins
+      const revoked = await RefreshTokenRepository.revokeByHash(tokenHash);
+      if (!revoked) {
+        throw new Error('Invalid refresh token');
+      }
+
+      const user = await UserRepository.findById(storedToken.userId);
+      if (!user) {
+        throw new Error('Invalid refresh token');
+      }
+      if (!user.isActive) {
+        throw new Error('Account is deactivated');
+      }
+
+      return await this.issueTokens(user);
+    } catch (error) {
+      LoggerService.error('Failed to refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a refresh token
+   */
+  static async logout(refreshToken: string): Promise<void> {
+    LoggerService.logService('AuthService', 'logout', true);
+
+    try {
+      await RefreshTokenRepository.revokeByHash(TokenService.hashToken(refreshToken));
+    } catch (error) {
+      LoggerService.error('Failed to log out', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user behind an access token
+   */
+  static async getCurrentUser(userId: string): Promise<AuthUserDto> {
+    LoggerService.logService('AuthService', `getCurrentUser(${userId})`, true);
+
+    try {
+      const user = await UserRepository.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      return transformAuthUserToDto(user);
+    } catch (error) {
+      LoggerService.error('Failed to get current user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue an access token and persist a new refresh token
+   */
+  private static async issueTokens(user: {
+    id: string;
+    email: string;
+    username?: string | null;
+    displayName?: string | null;
+    role: Role;
+  }): Promise<AuthTokensDto> {
+    const accessToken = TokenService.signAccessToken(user);
+    const refreshToken = TokenService.generateRefreshToken();
+
+    await RefreshTokenRepository.create({
+      userId: user.id,
+      tokenHash: refreshToken.tokenHash,
+      expiresAt: refreshToken.expiresAt,
+    });
+
+    return {
+      accessToken,
+      refreshToken: refreshToken.token,
+      tokenType: 'Bearer',
+      expiresIn: TokenService.getAccessTokenTtlSeconds(accessToken),
+      user: transformAuthUserToDto(user),
+    };
+  }
+}
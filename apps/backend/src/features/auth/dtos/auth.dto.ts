@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { Role } from '@prisma/client';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LoginRequest:
+ *       type: object
+ *       required:
+ *         - email
+ *         - password
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *           example: "demo@mathapp.com"
+ *           description: Account email address
+ *         password:
+ *           type: string
+ *           example: "Demo1234"
+ *           description: Account password
+ *
+ *     RefreshTokenRequest:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *           example: "3f1c9a...e07b"
+ *           description: Refresh token issued by login or a previous refresh
+ *
+ *     AuthUser:
+ *       type: object
+ *       required:
+ *         - id
+ *         - email
+ *         - role
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "1"
+ *           description: User identifier
+ *         email:
+ *           type: string
+ *           format: email
+ *           example: "demo@mathapp.com"
+ *           description: User email address
+ *         username:
+ *           type: string
+ *           nullable: true
+ *           example: "demo_user"
+ *           description: Username
+ *         displayName:
+ *           type: string
+ *           nullable: true
+ *           example: "Demo User"
+ *           description: Display name
+ *         role:
+ *           type: string
+ *           enum: [learner, teacher, admin]
+ *           example: "learner"
+ *           description: Role deciding which permissions the user holds
+ *
+ *     AuthTokens:
+ *       type: object
+ *       required:
+ *         - accessToken
+ *         - refreshToken
+ *         - tokenType
+ *         - expiresIn
+ *         - user
+ *       properties:
+ *         accessToken:
+ *           type: string
+ *           example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *           description: Short-lived JWT sent as a Bearer token
+ *         refreshToken:
+ *           type: string
+ *           example: "3f1c9a...e07b"
+ *           description: Opaque token used to obtain a new access token
+ *         tokenType:
+ *           type: string
+ *           example: "Bearer"
+ *           description: Authorization scheme for the access token
+ *         expiresIn:
+ *           type: integer
+ *           example: 900
+ *           description: Access token lifetime in seconds
+ *         user:
+ *           $ref: '#/components/schemas/AuthUser'
+ *
+ *     AuthTokensResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *
+ *     AuthUserResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AuthUser'
+ */
+
+/**
+ * Auth DTOs and Validation Schemas
+ */
+
+// Authenticated user summary DTO
+export interface AuthUserDto {
+  id: string;
+  email: string;
+  username: string | null;
+  displayName: string | null;
+  role: Role;
+}
+
+// Token pair response DTO
+export interface AuthTokensDto {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  user: AuthUserDto;
+}
+
+/**
+ * Validation Schemas
+ */
+
+// Login request validation schema
+export const loginSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+// Refresh/logout request validation schema
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export type LoginDto = z.infer<typeof loginSchema>;
+export type RefreshTokenDto = z.infer<typeof refreshTokenSchema>;
+
+/**
+ * Transform functions
+ */
+
+// Transform User entity to auth user DTO
+export const transformAuthUserToDto = (user: any): AuthUserDto => ({
+  id: user.id,
+  email: user.email,
+  username: user.username ?? null,
+  displayName: user.displayName ?? null,
+  role: user.role,
+});
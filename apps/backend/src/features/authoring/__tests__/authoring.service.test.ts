@@ -0,0 +1,248 @@
+/**
+ * AuthoringService Unit Tests
+ * Tests for problem validation, the draft/publish workflow and delete safety
+ */
+
+const mockLessonAuthoringRepository = {
+  findAll: jest.fn(),
+  findById: jest.fn(),
+  findProblem: jest.fn(),
+  findMissingIds: jest.fn(),
+  countHistory: jest.fn(),
+  createLesson: jest.fn(),
+  updateLesson: jest.fn(),
+  setStatus: jest.fn(),
+  deleteLesson: jest.fn(),
+  reorderLessons: jest.fn(),
+  createProblem: jest.fn(),
+  updateProblem: jest.fn(),
+  deleteProblem: jest.fn(),
+  reorderProblems: jest.fn(),
+  createOption: jest.fn(),
+  updateOption: jest.fn(),
+  deleteOption: jest.fn(),
+};
+
+const mockLessonRepository = {
+  setPrerequisites: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/lesson-authoring.repository', () => ({
+  LessonAuthoringRepository: mockLessonAuthoringRepository,
+}));
+
+jest.mock('../../../core/repositories/lesson.repository', () => ({
+  LessonRepository: mockLessonRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { AuthoringService } from '../authoring.service';
+
+const option = (overrides: Record<string, unknown> = {}) => ({
+  id: 'option-1',
+  problemId: 'problem-1',
+  optionText: '4',
+  isCorrect: true,
+  order: 1,
+  correctOrder: null,
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  ...overrides,
+});
+
+const multipleChoiceProblem = (overrides: Record<string, unknown> = {}) => ({
+  id: 'problem-1',
+  lessonId: 'lesson-1',
+  question: 'What is 2 + 2?',
+  problemType: 'multiple_choice',
+  order: 1,
+  correctAnswer: '4',
+  tolerance: null,
+  config: null,
+  template: null,
+  explanation: null,
+  difficulty: 'easy',
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  options: [
+    option(),
+    option({ id: 'option-2', optionText: '5', isCorrect: false, order: 2 }),
+  ],
+  ...overrides,
+});
+
+const lesson = (overrides: Record<string, unknown> = {}) => ({
+  id: 'lesson-1',
+  title: 'Addition',
+  description: null,
+  order: 1,
+  isActive: true,
+  status: 'draft',
+  publishedAt: null,
+  xpReward: 10,
+  difficulty: 'easy',
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  skills: [],
+  prerequisites: [],
+  problems: [multipleChoiceProblem()],
+  ...overrides,
+});
+
+describe('AuthoringService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLessonAuthoringRepository.findMissingIds.mockResolvedValue([]);
+    mockLessonAuthoringRepository.countHistory.mockResolvedValue(0);
+  });
+
+  describe('createLesson', () => {
+    it('should create a draft and attach its prerequisites', async () => {
+      mockLessonAuthoringRepository.createLesson.mockResolvedValue({ id: 'lesson-2' });
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson({ id: 'lesson-2', problems: [] }));
+
+      const result = await AuthoringService.createLesson({ title: 'Subtraction', prerequisiteIds: ['lesson-1'] });
+
+      expect(mockLessonAuthoringRepository.createLesson).toHaveBeenCalledWith({ title: 'Subtraction' });
+      expect(mockLessonRepository.setPrerequisites).toHaveBeenCalledWith('lesson-2', ['lesson-1']);
+      expect(result).toMatchObject({ id: 'lesson-2', status: 'draft', problemCount: 0 });
+    });
+
+    it('should reject unknown skills before creating anything', async () => {
+      mockLessonAuthoringRepository.findMissingIds.mockResolvedValueOnce(['skill-x']);
+
+      await expect(AuthoringService.createLesson({ title: 'Subtraction', skillIds: ['skill-x'] }))
+        .rejects.toThrow('Unknown skills: skill-x');
+      expect(mockLessonAuthoringRepository.createLesson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createProblem', () => {
+    beforeEach(() => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson());
+    });
+
+    it('should create a gradable problem', async () => {
+      mockLessonAuthoringRepository.createProblem.mockResolvedValue(multipleChoiceProblem());
+      const data = {
+        question: 'What is 2 + 2?',
+        problemType: 'multiple_choice' as const,
+        correctAnswer: '4',
+        options: [{ optionText: '4', isCorrect: true }, { optionText: '5', isCorrect: false }],
+      };
+
+      const result = await AuthoringService.createProblem('lesson-1', data);
+
+      expect(mockLessonAuthoringRepository.createProblem).toHaveBeenCalledWith('lesson-1', data);
+      expect(result.options).toHaveLength(2);
+    });
+
+    it('should reject a multiple choice problem whose correct option does not match the answer', async () => {
+      await expect(AuthoringService.createProblem('lesson-1', {
+        question: 'What is 2 + 2?',
+        problemType: 'multiple_choice',
+        correctAnswer: '4',
+        options: [{ optionText: '5', isCorrect: true }, { optionText: '4', isCorrect: false }],
+      })).rejects.toThrow('Invalid problem: The correct option must match the correct answer');
+      expect(mockLessonAuthoringRepository.createProblem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateProblem', () => {
+    it('should treat a problem of another lesson as not found', async () => {
+      mockLessonAuthoringRepository.findProblem.mockResolvedValue(multipleChoiceProblem({ lessonId: 'lesson-9' }));
+
+      await expect(AuthoringService.updateProblem('lesson-1', 'problem-1', { question: 'What is 3 + 1?' }))
+        .rejects.toThrow('Problem not found');
+      expect(mockLessonAuthoringRepository.updateProblem).not.toHaveBeenCalled();
+    });
+
+    it('should validate the merged problem', async () => {
+      mockLessonAuthoringRepository.findProblem.mockResolvedValue(multipleChoiceProblem());
+
+      await expect(AuthoringService.updateProblem('lesson-1', 'problem-1', { correctAnswer: '5' }))
+        .rejects.toThrow('The correct option must match the correct answer');
+    });
+  });
+
+  describe('deleteOption', () => {
+    it('should refuse to remove the only correct option', async () => {
+      mockLessonAuthoringRepository.findProblem.mockResolvedValue(multipleChoiceProblem());
+
+      await expect(AuthoringService.deleteOption('lesson-1', 'problem-1', 'option-1'))
+        .rejects.toThrow('Invalid problem');
+      expect(mockLessonAuthoringRepository.deleteOption).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishLesson', () => {
+    it('should publish a lesson whose problems are all gradable', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson());
+
+      await AuthoringService.publishLesson('lesson-1');
+
+      expect(mockLessonAuthoringRepository.setStatus).toHaveBeenCalledWith('lesson-1', 'published', expect.any(Date));
+    });
+
+    it('should keep the first publication date when republishing', async () => {
+      const publishedAt = new Date('2024-01-10T10:00:00Z');
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson({ publishedAt }));
+
+      await AuthoringService.publishLesson('lesson-1');
+
+      expect(mockLessonAuthoringRepository.setStatus).toHaveBeenCalledWith('lesson-1', 'published', publishedAt);
+    });
+
+    it('should list every problem that cannot be graded', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson({
+        problems: [
+          multipleChoiceProblem(),
+          multipleChoiceProblem({ id: 'problem-2', order: 2, problemType: 'true_false', correctAnswer: 'yes', options: [] }),
+        ],
+      }));
+
+      await expect(AuthoringService.publishLesson('lesson-1'))
+        .rejects.toThrow('Lesson cannot be published: Problem 2: The correct answer of a true/false problem');
+      expect(mockLessonAuthoringRepository.setStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not publish a lesson without problems', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson({ problems: [] }));
+
+      await expect(AuthoringService.publishLesson('lesson-1'))
+        .rejects.toThrow('A lesson needs at least one problem');
+    });
+  });
+
+  describe('deleteLesson', () => {
+    it('should delete a lesson no learner has attempted', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson());
+
+      await AuthoringService.deleteLesson('lesson-1');
+
+      expect(mockLessonAuthoringRepository.countHistory).toHaveBeenCalledWith({ lessonId: 'lesson-1' });
+      expect(mockLessonAuthoringRepository.deleteLesson).toHaveBeenCalledWith('lesson-1');
+    });
+
+    it('should refuse to delete a lesson with learner history', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(lesson());
+      mockLessonAuthoringRepository.countHistory.mockResolvedValueOnce(3);
+
+      await expect(AuthoringService.deleteLesson('lesson-1')).rejects.toThrow('cannot be deleted');
+      expect(mockLessonAuthoringRepository.deleteLesson).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing lesson', async () => {
+      mockLessonAuthoringRepository.findById.mockResolvedValue(null);
+
+      await expect(AuthoringService.deleteLesson('missing')).rejects.toThrow('Lesson not found');
+    });
+  });
+});
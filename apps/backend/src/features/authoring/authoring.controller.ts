@@ -0,0 +1,718 @@
+import { Request, Response } from 'express';
+import { AuthoringService } from './authoring.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+import {
+  CreateLessonRequest,
+  CreateProblemRequest,
+  ProblemOptionRequest,
+  UpdateLessonRequest,
+  UpdateProblemOptionRequest,
+  UpdateProblemRequest,
+} from './dtos/authoring.dto';
+
+/**
+ * @swagger
+ * /api/admin/lessons:
+ *   get:
+ *     summary: List lessons for authoring
+ *     description: Admin. Every lesson in curriculum order, drafts and inactive lessons included.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lessons retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonListResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Create a draft lesson
+ *     description: Admin. The lesson is added at the end of the curriculum and stays hidden from learners until published.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateLessonRequest'
+ *     responses:
+ *       201:
+ *         description: Lesson created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/order:
+ *   put:
+ *     summary: Reorder the curriculum
+ *     description: Admin. Lists every lesson in its new order.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReorderLessonsRequest'
+ *     responses:
+ *       200:
+ *         description: Lessons reordered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonListResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}:
+ *   get:
+ *     summary: Get a lesson with its answer keys
+ *     description: Admin. The lesson with every problem, option and correct answer.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     responses:
+ *       200:
+ *         description: Lesson retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   patch:
+ *     summary: Update a lesson
+ *     description: Admin. skillIds and prerequisiteIds replace the current lists; a prerequisite cycle is rejected.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateLessonRequest'
+ *     responses:
+ *       200:
+ *         description: Lesson updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The prerequisites would form a cycle
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Delete a lesson
+ *     description: Admin. Only lessons no learner has attempted can be deleted; deactivate the others.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     responses:
+ *       200:
+ *         description: Lesson deleted successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The lesson has learner history
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/publish:
+ *   post:
+ *     summary: Publish a lesson
+ *     description: Admin. Makes the lesson visible to learners once it has problems and every problem can be graded.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     responses:
+ *       200:
+ *         description: Lesson published successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The lesson is not ready to publish (the error lists why)
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/unpublish:
+ *   post:
+ *     summary: Unpublish a lesson
+ *     description: Admin. Moves the lesson back to draft, hiding it from learners.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     responses:
+ *       200:
+ *         description: Lesson unpublished successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/problems:
+ *   post:
+ *     summary: Add a problem
+ *     description: |
+ *       Admin. Adds the problem at the end of the lesson. The problem must be gradable as written:
+ *       a multiple choice problem needs exactly one correct option, and its text must equal correctAnswer.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateProblemRequest'
+ *     responses:
+ *       201:
+ *         description: Problem created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringProblemResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/problems/order:
+ *   put:
+ *     summary: Reorder a lesson's problems
+ *     description: Admin. Lists every problem of the lesson in its new order.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReorderProblemsRequest'
+ *     responses:
+ *       200:
+ *         description: Problems reordered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringLessonResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/problems/{problemId}:
+ *   patch:
+ *     summary: Update a problem
+ *     description: Admin. options, when given, replace every current option. The result must stay gradable.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *       - $ref: '#/components/parameters/AuthoringProblemId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProblemRequest'
+ *     responses:
+ *       200:
+ *         description: Problem updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringProblemResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Delete a problem
+ *     description: Admin. Only problems no learner has answered can be deleted.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *       - $ref: '#/components/parameters/AuthoringProblemId'
+ *     responses:
+ *       200:
+ *         description: Problem deleted successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The problem has learner answers
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/problems/{problemId}/options:
+ *   post:
+ *     summary: Add an option to a problem
+ *     description: Admin. The problem must stay gradable with the new option.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *       - $ref: '#/components/parameters/AuthoringProblemId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ProblemOptionInput'
+ *     responses:
+ *       201:
+ *         description: Option created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringProblemResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/admin/lessons/{lessonId}/problems/{problemId}/options/{optionId}:
+ *   patch:
+ *     summary: Update an option
+ *     description: Admin. The problem must stay gradable; to move the correct answer, update the problem's options at once.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *       - $ref: '#/components/parameters/AuthoringProblemId'
+ *       - $ref: '#/components/parameters/AuthoringOptionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProblemOptionRequest'
+ *     responses:
+ *       200:
+ *         description: Option updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringProblemResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Delete an option
+ *     description: Admin. The problem must stay gradable without the option.
+ *     tags: [Authoring]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AuthoringLessonId'
+ *       - $ref: '#/components/parameters/AuthoringProblemId'
+ *       - $ref: '#/components/parameters/AuthoringOptionId'
+ *     responses:
+ *       200:
+ *         description: Option deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthoringProblemResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * components:
+ *   parameters:
+ *     AuthoringLessonId:
+ *       in: path
+ *       name: lessonId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     AuthoringProblemId:
+ *       in: path
+ *       name: problemId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     AuthoringOptionId:
+ *       in: path
+ *       name: optionId
+ *       required: true
+ *       schema:
+ *         type: string
+ */
+
+/**
+ * Authoring Controller
+ * Handles HTTP requests for writing lessons, problems and options.
+ * Bodies are validated by the route's validation middleware.
+ */
+export class AuthoringController {
+  /**
+   * GET /api/admin/lessons
+   */
+  static async listLessons(req: Request, res: Response): Promise<void> {
+    try {
+      const lessons = await AuthoringService.listLessons();
+
+      sendSuccess(res, lessons, 'Lessons retrieved successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to retrieve lessons');
+    }
+  }
+
+  /**
+   * POST /api/admin/lessons
+   */
+  static async createLesson(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.createLesson(req.validated?.body as CreateLessonRequest);
+
+      sendSuccess(res, lesson, 'Lesson created successfully', 201);
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to create lesson');
+    }
+  }
+
+  /**
+   * PUT /api/admin/lessons/order
+   */
+  static async reorderLessons(req: Request, res: Response): Promise<void> {
+    try {
+      const lessons = await AuthoringService.reorderLessons(req.validated?.body.lessonIds as string[]);
+
+      sendSuccess(res, lessons, 'Lessons reordered successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to reorder lessons');
+    }
+  }
+
+  /**
+   * GET /api/admin/lessons/:lessonId
+   */
+  static async getLesson(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.getLesson(req.params.lessonId);
+
+      sendSuccess(res, lesson, 'Lesson retrieved successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to retrieve lesson');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/lessons/:lessonId
+   */
+  static async updateLesson(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.updateLesson(
+        req.params.lessonId,
+        req.validated?.body as UpdateLessonRequest
+      );
+
+      sendSuccess(res, lesson, 'Lesson updated successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to update lesson');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/lessons/:lessonId
+   */
+  static async deleteLesson(req: Request, res: Response): Promise<void> {
+    try {
+      await AuthoringService.deleteLesson(req.params.lessonId);
+
+      sendSuccess(res, undefined, 'Lesson deleted successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to delete lesson');
+    }
+  }
+
+  /**
+   * POST /api/admin/lessons/:lessonId/publish
+   */
+  static async publishLesson(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.publishLesson(req.params.lessonId);
+
+      sendSuccess(res, lesson, 'Lesson published successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to publish lesson');
+    }
+  }
+
+  /**
+   * POST /api/admin/lessons/:lessonId/unpublish
+   */
+  static async unpublishLesson(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.unpublishLesson(req.params.lessonId);
+
+      sendSuccess(res, lesson, 'Lesson unpublished successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to unpublish lesson');
+    }
+  }
+
+  /**
+   * POST /api/admin/lessons/:lessonId/problems
+   */
+  static async createProblem(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = await AuthoringService.createProblem(
+        req.params.lessonId,
+        req.validated?.body as CreateProblemRequest
+      );
+
+      sendSuccess(res, problem, 'Problem created successfully', 201);
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to create problem');
+    }
+  }
+
+  /**
+   * PUT /api/admin/lessons/:lessonId/problems/order
+   */
+  static async reorderProblems(req: Request, res: Response): Promise<void> {
+    try {
+      const lesson = await AuthoringService.reorderProblems(
+        req.params.lessonId,
+        req.validated?.body.problemIds as string[]
+      );
+
+      sendSuccess(res, lesson, 'Problems reordered successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to reorder problems');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/lessons/:lessonId/problems/:problemId
+   */
+  static async updateProblem(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = await AuthoringService.updateProblem(
+        req.params.lessonId,
+        req.params.problemId,
+        req.validated?.body as UpdateProblemRequest
+      );
+
+      sendSuccess(res, problem, 'Problem updated successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to update problem');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/lessons/:lessonId/problems/:problemId
+   */
+  static async deleteProblem(req: Request, res: Response): Promise<void> {
+    try {
+      await AuthoringService.deleteProblem(req.params.lessonId, req.params.problemId);
+
+      sendSuccess(res, undefined, 'Problem deleted successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to delete problem');
+    }
+  }
+
+  /**
+   * POST /api/admin/lessons/:lessonId/problems/:problemId/options
+   */
+  static async createOption(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = await AuthoringService.createOption(
+        req.params.lessonId,
+        req.params.problemId,
+        req.validated?.body as ProblemOptionRequest
+      );
+
+      sendSuccess(res, problem, 'Option created successfully', 201);
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to create option');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/lessons/:lessonId/problems/:problemId/options/:optionId
+   */
+  static async updateOption(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = await AuthoringService.updateOption(
+        req.params.lessonId,
+        req.params.problemId,
+        req.params.optionId,
+        req.validated?.body as UpdateProblemOptionRequest
+      );
+
+      sendSuccess(res, problem, 'Option updated successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to update option');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/lessons/:lessonId/problems/:problemId/options/:optionId
+   */
+  static async deleteOption(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = await AuthoringService.deleteOption(
+        req.params.lessonId,
+        req.params.problemId,
+        req.params.optionId
+      );
+
+      sendSuccess(res, problem, 'Option deleted successfully');
+    } catch (error) {
+      AuthoringController.sendAuthoringError(res, error, 'Failed to delete option');
+    }
+  }
+
+  /**
+   * Map service errors to status codes; the service logs the failure
+   */
+  private static sendAuthoringError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : '';
+
+    if (message.includes('not found')) {
+      sendError(res, message, 404);
+    } else if (
+      message.startsWith('Invalid problem') ||
+      message.startsWith('Unknown') ||
+      message.includes('must list every')
+    ) {
+      sendError(res, message, 400);
+    } else if (
+      message.startsWith('Prerequisite cycle') ||
+      message.startsWith('Lesson cannot be published') ||
+      message.includes('cannot be deleted')
+    ) {
+      sendError(res, message, 409);
+    } else {
+      LoggerService.error(fallback, { error: message || 'Unknown error' });
+      sendError(res, fallback, 500);
+    }
+  }
+}
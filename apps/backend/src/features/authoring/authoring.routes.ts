@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { AuthoringController } from './authoring.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate, requirePermission } from '../../core/auth';
+import { validateBody } from '../../core/validation/validation.middleware';
+import {
+  createLessonSchema,
+  createProblemSchema,
+  problemOptionSchema,
+  reorderLessonsSchema,
+  reorderProblemsSchema,
+  updateLessonSchema,
+  updateProblemOptionSchema,
+  updateProblemSchema,
+} from './dtos/authoring.dto';
+
+/**
+ * Authoring Routes
+ * /api/admin/lessons
+ */
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('lessons:author'));
+
+// GET /api/admin/lessons - List every lesson, drafts included
+router.get('/', asyncHandler(AuthoringController.listLessons));
+
+// POST /api/admin/lessons - Create a draft lesson
+router.post('/', validateBody(createLessonSchema), asyncHandler(AuthoringController.createLesson));
+
+// PUT /api/admin/lessons/order - Reorder the curriculum
+router.put('/order', validateBody(reorderLessonsSchema), asyncHandler(AuthoringController.reorderLessons));
+
+// GET /api/admin/lessons/:lessonId - Get a lesson with its answer keys
+router.get('/:lessonId', asyncHandler(AuthoringController.getLesson));
+
+// PATCH /api/admin/lessons/:lessonId - Update a lesson
+router.patch('/:lessonId', validateBody(updateLessonSchema), asyncHandler(AuthoringController.updateLesson));
+
+// DELETE /api/admin/lessons/:lessonId - Delete a lesson without learner history
+router.delete('/:lessonId', asyncHandler(AuthoringController.deleteLesson));
+
+// POST /api/admin/lessons/:lessonId/publish - Publish a lesson
+router.post('/:lessonId/publish', asyncHandler(AuthoringController.publishLesson));
+
+// POST /api/admin/lessons/:lessonId/unpublish - Move a lesson back to draft
+router.post('/:lessonId/unpublish', asyncHandler(AuthoringController.unpublishLesson));
+
+// POST /api/admin/lessons/:lessonId/problems - Add a problem
+router.post(
+  '/:lessonId/problems',
+  validateBody(createProblemSchema),
+  asyncHandler(AuthoringController.createProblem)
+);
+
+// PUT /api/admin/lessons/:lessonId/problems/order - Reorder a lesson's problems
+router.put(
+  '/:lessonId/problems/order',
+  validateBody(reorderProblemsSchema),
+  asyncHandler(AuthoringController.reorderProblems)
+);
+
+// PATCH /api/admin/lessons/:lessonId/problems/:problemId - Update a problem
+router.patch(
+  '/:lessonId/problems/:problemId',
+  validateBody(updateProblemSchema),
+  asyncHandler(AuthoringController.updateProblem)
+);
+
+// DELETE /api/admin/lessons/:lessonId/problems/:problemId - Delete an unanswered problem
+router.delete('/:lessonId/problems/:problemId', asyncHandler(AuthoringController.deleteProblem));
+
+// POST /api/admin/lessons/:lessonId/problems/:problemId/options - Add an option
+router.post(
+  '/:lessonId/problems/:problemId/options',
+  validateBody(problemOptionSchema),
+  asyncHandler(AuthoringController.createOption)
+);
+
+// PATCH /api/admin/lessons/:lessonId/problems/:problemId/options/:optionId - Update an option
+router.patch(
+  '/:lessonId/problems/:problemId/options/:optionId',
+  validateBody(updateProblemOptionSchema),
+  asyncHandler(AuthoringController.updateOption)
+);
+
+// DELETE /api/admin/lessons/:lessonId/problems/:problemId/options/:optionId - Delete an option
+router.delete(
+  '/:lessonId/problems/:problemId/options/:optionId',
+  asyncHandler(AuthoringController.deleteOption)
+);
+
+export default router;
@@ -0,0 +1,417 @@
+import {
+  LessonAuthoringRepository,
+  ProblemWithOptions,
+} from '../../core/repositories/lesson-authoring.repository';
+import { LessonRepository } from '../../core/repositories/lesson.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { AuthoredProblem, validateProblem } from '../lessons/grading';
+import {
+  AuthoringLessonDto,
+  AuthoringLessonSummaryDto,
+  AuthoringProblemDto,
+  CreateLessonRequest,
+  CreateProblemRequest,
+  ProblemOptionRequest,
+  UpdateLessonRequest,
+  UpdateProblemOptionRequest,
+  UpdateProblemRequest,
+  transformAuthoredLessonToDto,
+  transformAuthoringProblemToDto,
+  transformLessonSummaryToDto,
+} from './dtos/authoring.dto';
+
+/**
+ * Throw when a problem could not be graded as written
+ */
+function assertValidProblem(problem: AuthoredProblem): void {
+  const issues = validateProblem(problem);
+  if (issues.length > 0) {
+    throw new Error(`Invalid problem: ${issues.join('; ')}`);
+  }
+}
+
+/**
+ * Authoring Service
+ * Business logic for writing lessons, problems and options, and for the
+ * draft/publish workflow that decides when learners see them
+ */
+export class AuthoringService {
+  static async listLessons(): Promise<AuthoringLessonSummaryDto[]> {
+    LoggerService.logService('AuthoringService', 'listLessons()', true);
+
+    try {
+      const lessons = await LessonAuthoringRepository.findAll();
+      return lessons.map(transformLessonSummaryToDto);
+    } catch (error) {
+      LoggerService.error('Failed to list lessons for authoring', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  static async getLesson(lessonId: string): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `getLesson(${lessonId})`, true);
+
+    try {
+      return transformAuthoredLessonToDto(await AuthoringService.findLesson(lessonId));
+    } catch (error) {
+      LoggerService.error('Failed to get lesson for authoring', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a lesson as a draft at the end of the curriculum
+   */
+  static async createLesson(data: CreateLessonRequest): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `createLesson(${data.title})`, true);
+
+    try {
+      await AuthoringService.assertReferencesExist(data);
+
+      const { prerequisiteIds, ...fields } = data;
+      const lesson = await LessonAuthoringRepository.createLesson(fields);
+      if (prerequisiteIds?.length) {
+        await LessonRepository.setPrerequisites(lesson.id, prerequisiteIds);
+      }
+
+      LoggerService.info('Lesson created', { lessonId: lesson.id });
+      return AuthoringService.getLesson(lesson.id);
+    } catch (error) {
+      LoggerService.error('Failed to create lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        title: data.title,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update lesson fields; skills and prerequisites are replaced when given
+   */
+  static async updateLesson(lessonId: string, data: UpdateLessonRequest): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `updateLesson(${lessonId})`, true);
+
+    try {
+      await AuthoringService.findLesson(lessonId);
+      await AuthoringService.assertReferencesExist(data);
+
+      const { prerequisiteIds, ...fields } = data;
+      if (prerequisiteIds) {
+        // Rejects a cycle before anything else changes
+        await LessonRepository.setPrerequisites(lessonId, prerequisiteIds);
+      }
+      await LessonAuthoringRepository.updateLesson(lessonId, fields);
+
+      return AuthoringService.getLesson(lessonId);
+    } catch (error) {
+      LoggerService.error('Failed to update lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a lesson no learner has worked on; lessons with history are deactivated instead
+   */
+  static async deleteLesson(lessonId: string): Promise<void> {
+    LoggerService.logService('AuthoringService', `deleteLesson(${lessonId})`, true);
+
+    try {
+      await AuthoringService.findLesson(lessonId);
+      if (await LessonAuthoringRepository.countHistory({ lessonId }) > 0) {
+        throw new Error('Lesson has learner history and cannot be deleted; deactivate it instead');
+      }
+
+      await LessonAuthoringRepository.deleteLesson(lessonId);
+      LoggerService.info('Lesson deleted', { lessonId });
+    } catch (error) {
+      LoggerService.error('Failed to delete lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a lesson visible to learners once every problem can be graded
+   */
+  static async publishLesson(lessonId: string): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `publishLesson(${lessonId})`, true);
+
+    try {
+      const lesson = await AuthoringService.findLesson(lessonId);
+
+      const issues = lesson.problems.flatMap(problem =>
+        validateProblem(problem).map(issue => `Problem ${problem.order}: ${issue}`)
+      );
+      if (lesson.problems.length === 0) {
+        issues.push('A lesson needs at least one problem');
+      }
+      if (issues.length > 0) {
+        throw new Error(`Lesson cannot be published: ${issues.join('; ')}`);
+      }
+
+      await LessonAuthoringRepository.setStatus(lessonId, 'published', lesson.publishedAt ?? new Date());
+      LoggerService.info('Lesson published', { lessonId });
+      return AuthoringService.getLesson(lessonId);
+    } catch (error) {
+      LoggerService.error('Failed to publish lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Hide a published lesson from learners again
+   */
+  static async unpublishLesson(lessonId: string): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `unpublishLesson(${lessonId})`, true);
+
+    try {
+      await AuthoringService.findLesson(lessonId);
+      await LessonAuthoringRepository.setStatus(lessonId, 'draft');
+
+      LoggerService.info('Lesson unpublished', { lessonId });
+      return AuthoringService.getLesson(lessonId);
+    } catch (error) {
+      LoggerService.error('Failed to unpublish lesson', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  static async reorderLessons(lessonIds: string[]): Promise<AuthoringLessonSummaryDto[]> {
+    LoggerService.logService('AuthoringService', 'reorderLessons()', true);
+
+    try {
+      await LessonAuthoringRepository.reorderLessons(lessonIds);
+      return AuthoringService.listLessons();
+    } catch (error) {
+      LoggerService.error('Failed to reorder lessons', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a problem at the end of a lesson
+   */
+  static async createProblem(lessonId: string, data: CreateProblemRequest): Promise<AuthoringProblemDto> {
+    LoggerService.logService('AuthoringService', `createProblem(${lessonId})`, true);
+
+    try {
+      await AuthoringService.findLesson(lessonId);
+      assertValidProblem({
+        problemType: data.problemType,
+        question: data.question,
+        correctAnswer: data.correctAnswer ?? null,
+        options: data.options ?? [],
+      });
+
+      const problem = await LessonAuthoringRepository.createProblem(lessonId, data);
+      return transformAuthoringProblemToDto(problem);
+    } catch (error) {
+      LoggerService.error('Failed to create problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a problem; the result must still be gradable
+   */
+  static async updateProblem(
+    lessonId: string,
+    problemId: string,
+    data: UpdateProblemRequest
+  ): Promise<AuthoringProblemDto> {
+    LoggerService.logService('AuthoringService', `updateProblem(${problemId})`, true);
+
+    try {
+      const problem = await AuthoringService.findProblem(lessonId, problemId);
+      assertValidProblem({
+        problemType: data.problemType ?? problem.problemType,
+        question: data.question ?? problem.question,
+        correctAnswer: data.correctAnswer !== undefined ? data.correctAnswer : problem.correctAnswer,
+        options: data.options ?? problem.options,
+      });
+
+      const updated = await LessonAuthoringRepository.updateProblem(problemId, data);
+      return transformAuthoringProblemToDto(updated);
+    } catch (error) {
+      LoggerService.error('Failed to update problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a problem no learner has answered
+   */
+  static async deleteProblem(lessonId: string, problemId: string): Promise<void> {
+    LoggerService.logService('AuthoringService', `deleteProblem(${problemId})`, true);
+
+    try {
+      await AuthoringService.findProblem(lessonId, problemId);
+      if (await LessonAuthoringRepository.countHistory({ problemId }) > 0) {
+        throw new Error('Problem has learner answers and cannot be deleted');
+      }
+
+      await LessonAuthoringRepository.deleteProblem(problemId);
+    } catch (error) {
+      LoggerService.error('Failed to delete problem', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  static async reorderProblems(lessonId: string, problemIds: string[]): Promise<AuthoringLessonDto> {
+    LoggerService.logService('AuthoringService', `reorderProblems(${lessonId})`, true);
+
+    try {
+      await AuthoringService.findLesson(lessonId);
+      await LessonAuthoringRepository.reorderProblems(lessonId, problemIds);
+
+      return AuthoringService.getLesson(lessonId);
+    } catch (error) {
+      LoggerService.error('Failed to reorder problems', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add an option to a problem; the problem must stay gradable
+   */
+  static async createOption(
+    lessonId: string,
+    problemId: string,
+    data: ProblemOptionRequest
+  ): Promise<AuthoringProblemDto> {
+    LoggerService.logService('AuthoringService', `createOption(${problemId})`, true);
+
+    try {
+      const problem = await AuthoringService.findProblem(lessonId, problemId);
+      assertValidProblem({ ...problem, options: [...problem.options, data] });
+
+      await LessonAuthoringRepository.createOption(problemId, data);
+      return AuthoringService.getProblem(lessonId, problemId);
+    } catch (error) {
+      LoggerService.error('Failed to create problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        problemId,
+      });
+      throw error;
+    }
+  }
+
+  static async updateOption(
+    lessonId: string,
+    problemId: string,
+    optionId: string,
+    data: UpdateProblemOptionRequest
+  ): Promise<AuthoringProblemDto> {
+    LoggerService.logService('AuthoringService', `updateOption(${optionId})`, true);
+
+    try {
+      const problem = await AuthoringService.findProblem(lessonId, problemId);
+      AuthoringService.findOption(problem, optionId);
+      assertValidProblem({
+        ...problem,
+        options: problem.options.map(option => option.id === optionId ? { ...option, ...data } : option),
+      });
+
+      await LessonAuthoringRepository.updateOption(optionId, data);
+      return AuthoringService.getProblem(lessonId, problemId);
+    } catch (error) {
+      LoggerService.error('Failed to update problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        optionId,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteOption(lessonId: string, problemId: string, optionId: string): Promise<AuthoringProblemDto> {
+    LoggerService.logService('AuthoringService', `deleteOption(${optionId})`, true);
+
+    try {
+      const problem = await AuthoringService.findProblem(lessonId, problemId);
+      AuthoringService.findOption(problem, optionId);
+      assertValidProblem({ ...problem, options: problem.options.filter(option => option.id !== optionId) });
+
+      await LessonAuthoringRepository.deleteOption(optionId);
+      return AuthoringService.getProblem(lessonId, problemId);
+    } catch (error) {
+      LoggerService.error('Failed to delete problem option', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        optionId,
+      });
+      throw error;
+    }
+  }
+
+  private static async findLesson(lessonId: string) {
+    const lesson = await LessonAuthoringRepository.findById(lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+    return lesson;
+  }
+
+  private static async findProblem(lessonId: string, problemId: string): Promise<ProblemWithOptions> {
+    const problem = await LessonAuthoringRepository.findProblem(problemId);
+    if (!problem || problem.lessonId !== lessonId) {
+      throw new Error('Problem not found');
+    }
+    return problem;
+  }
+
+  private static async getProblem(lessonId: string, problemId: string): Promise<AuthoringProblemDto> {
+    return transformAuthoringProblemToDto(await AuthoringService.findProblem(lessonId, problemId));
+  }
+
+  private static findOption(problem: ProblemWithOptions, optionId: string): void {
+    if (!problem.options.some(option => option.id === optionId)) {
+      throw new Error('Option not found');
+    }
+  }
+
+  /**
+   * Reject skill and prerequisite ids that do not exist
+   */
+  private static async assertReferencesExist(data: { skillIds?: string[]; prerequisiteIds?: string[] }): Promise<void> {
+    const [missingSkills, missingLessons] = await Promise.all([
+      data.skillIds?.length ? LessonAuthoringRepository.findMissingIds('skill', data.skillIds) : [],
+      data.prerequisiteIds?.length ? LessonAuthoringRepository.findMissingIds('lesson', data.prerequisiteIds) : [],
+    ]);
+
+    if (missingSkills.length > 0) {
+      throw new Error(`Unknown skills: ${missingSkills.join(', ')}`);
+    }
+    if (missingLessons.length > 0) {
+      throw new Error(`Unknown prerequisite lessons: ${missingLessons.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,511 @@
+import { z } from 'zod';
+import { LessonStatus } from '@prisma/client';
+import { LESSON_DIFFICULTIES, LessonDifficulty } from '../../../core/skill-graph';
+import {
+  AuthoredLesson,
+  LessonSummary,
+  ProblemWithOptions,
+} from '../../../core/repositories/lesson-authoring.repository';
+import { PROBLEM_TYPES, ProblemType } from '../../lessons/grading/grading.types';
+import { problemTemplateSchema } from '../../lessons/templates';
+import { MAX_HINTS } from '../../lessons/hints';
+import { LessonPrerequisiteDto, SkillDto, transformSkillToDto } from '../../lessons/dtos/lesson.dto';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthoringProblemOption:
+ *       type: object
+ *       required:
+ *         - id
+ *         - optionText
+ *         - isCorrect
+ *         - order
+ *         - correctOrder
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "option-1-1-2"
+ *         optionText:
+ *           type: string
+ *           example: "4"
+ *         isCorrect:
+ *           type: boolean
+ *           example: true
+ *         order:
+ *           type: integer
+ *           example: 2
+ *         correctOrder:
+ *           type: integer
+ *           nullable: true
+ *           description: Position in the correct sequence (ordering problems)
+ *
+ *     AuthoringProblem:
+ *       type: object
+ *       required:
+ *         - id
+ *         - question
+ *         - problemType
+ *         - order
+ *         - correctAnswer
+ *         - tolerance
+ *         - config
+ *         - template
+ *         - explanation
+ *         - hints
+ *         - difficulty
+ *         - options
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "problem-1-1"
+ *         question:
+ *           type: string
+ *           example: "What is 2 + 2?"
+ *         problemType:
+ *           type: string
+ *           enum: [multiple_choice, input, true_false, multi_select, ordering, fill_in_blanks, number_line]
+ *         order:
+ *           type: integer
+ *           example: 1
+ *         correctAnswer:
+ *           type: string
+ *           nullable: true
+ *           example: "4"
+ *         tolerance:
+ *           type: number
+ *           nullable: true
+ *         config:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         template:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         explanation:
+ *           type: string
+ *           nullable: true
+ *         hints:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Hint steps in the order learners reveal them
+ *         difficulty:
+ *           type: string
+ *           enum: [easy, medium, hard]
+ *         options:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AuthoringProblemOption'
+ *
+ *     AuthoringLessonSummary:
+ *       type: object
+ *       required:
+ *         - id
+ *         - title
+ *         - description
+ *         - order
+ *         - xpReward
+ *         - difficulty
+ *         - hintPenalty
+ *         - skills
+ *         - prerequisites
+ *         - isActive
+ *         - status
+ *         - publishedAt
+ *         - problemCount
+ *         - createdAt
+ *         - updatedAt
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "lesson-5"
+ *         title:
+ *           type: string
+ *           example: "Decimals"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         order:
+ *           type: integer
+ *           example: 5
+ *         xpReward:
+ *           type: integer
+ *           example: 10
+ *         difficulty:
+ *           type: string
+ *           enum: [easy, medium, hard]
+ *         hintPenalty:
+ *           type: integer
+ *           example: 25
+ *           description: Percent of a problem's XP taken off for each hint revealed
+ *         skills:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Skill'
+ *         prerequisites:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LessonPrerequisite'
+ *         isActive:
+ *           type: boolean
+ *           description: Inactive lessons are hidden from learners whatever their status
+ *         status:
+ *           type: string
+ *           enum: [draft, published]
+ *           description: Drafts are hidden from learners until published
+ *         publishedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: First publication
+ *         problemCount:
+ *           type: integer
+ *           example: 4
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     AuthoringLesson:
+ *       allOf:
+ *         - $ref: '#/components/schemas/AuthoringLessonSummary'
+ *         - type: object
+ *           required:
+ *             - problems
+ *           properties:
+ *             problems:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuthoringProblem'
+ *
+ *     UpdateLessonRequest:
+ *       description: Lesson fields; skillIds and prerequisiteIds replace the current lists
+ *       type: object
+ *       properties:
+ *         title:
+ *           type: string
+ *           example: "Decimals"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         xpReward:
+ *           type: integer
+ *           minimum: 0
+ *           example: 10
+ *         difficulty:
+ *           type: string
+ *           enum: [easy, medium, hard]
+ *         hintPenalty:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *           example: 25
+ *           description: Percent of a problem's XP taken off for each hint revealed
+ *         isActive:
+ *           type: boolean
+ *         skillIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         prerequisiteIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *
+ *     CreateLessonRequest:
+ *       allOf:
+ *         - $ref: '#/components/schemas/UpdateLessonRequest'
+ *         - type: object
+ *           required:
+ *             - title
+ *
+ *     UpdateProblemOptionRequest:
+ *       description: Option fields
+ *       type: object
+ *       properties:
+ *         optionText:
+ *           type: string
+ *           example: "4"
+ *         isCorrect:
+ *           type: boolean
+ *           default: false
+ *         correctOrder:
+ *           type: integer
+ *           minimum: 1
+ *           nullable: true
+ *
+ *     UpdateProblemRequest:
+ *       description: Problem fields; options replace every current option
+ *       type: object
+ *       properties:
+ *         question:
+ *           type: string
+ *           example: "What is 2 + 2?"
+ *         problemType:
+ *           type: string
+ *           enum: [multiple_choice, input, true_false, multi_select, ordering, fill_in_blanks, number_line]
+ *         correctAnswer:
+ *           type: string
+ *           nullable: true
+ *           description: For multiple choice, the text of the correct option
+ *           example: "4"
+ *         tolerance:
+ *           type: number
+ *           minimum: 0
+ *           nullable: true
+ *         config:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         template:
+ *           type: object
+ *           nullable: true
+ *           additionalProperties: true
+ *         explanation:
+ *           type: string
+ *           nullable: true
+ *         hints:
+ *           type: array
+ *           maxItems: 10
+ *           items:
+ *             type: string
+ *           description: Hint steps in the order learners reveal them; template placeholders are rendered
+ *           example: ["Start at 2", "Count on 2 more"]
+ *         difficulty:
+ *           type: string
+ *           enum: [easy, medium, hard]
+ *         options:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProblemOptionInput'
+ *
+ *     CreateProblemRequest:
+ *       allOf:
+ *         - $ref: '#/components/schemas/UpdateProblemRequest'
+ *         - type: object
+ *           required:
+ *             - question
+ *             - problemType
+ *
+ *     ProblemOptionInput:
+ *       allOf:
+ *         - $ref: '#/components/schemas/UpdateProblemOptionRequest'
+ *         - type: object
+ *           required:
+ *             - optionText
+ *
+ *     ReorderLessonsRequest:
+ *       type: object
+ *       required:
+ *         - lessonIds
+ *       properties:
+ *         lessonIds:
+ *           type: array
+ *           description: Every lesson, in the new order
+ *           items:
+ *             type: string
+ *
+ *     ReorderProblemsRequest:
+ *       type: object
+ *       required:
+ *         - problemIds
+ *       properties:
+ *         problemIds:
+ *           type: array
+ *           description: Every problem of the lesson, in the new order
+ *           items:
+ *             type: string
+ *
+ *     AuthoringLessonResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AuthoringLesson'
+ *
+ *     AuthoringLessonListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuthoringLessonSummary'
+ *
+ *     AuthoringProblemResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AuthoringProblem'
+ */
+
+/**
+ * Authoring DTOs and Validation Schemas
+ */
+
+// Problem option with its answer key
+export interface AuthoringProblemOptionDto {
+  id: string;
+  optionText: string;
+  isCorrect: boolean;
+  order: number;
+  correctOrder: number | null;
+}
+
+// Problem with its answer key
+export interface AuthoringProblemDto {
+  id: string;
+  question: string;
+  problemType: ProblemType;
+  order: number;
+  correctAnswer: string | null;
+  tolerance: number | null;
+  config: unknown;
+  template: unknown;
+  explanation: string | null;
+  hints: string[];
+  difficulty: string;
+  options: AuthoringProblemOptionDto[];
+}
+
+// Lesson as listed to authors
+export interface AuthoringLessonSummaryDto {
+  id: string;
+  title: string;
+  description: string | null;
+  order: number;
+  xpReward: number;
+  difficulty: LessonDifficulty;
+  hintPenalty: number;
+  skills: SkillDto[];
+  prerequisites: LessonPrerequisiteDto[];
+  isActive: boolean;
+  status: LessonStatus;
+  publishedAt: Date | null;
+  problemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Lesson with every problem and answer key
+export interface AuthoringLessonDto extends AuthoringLessonSummaryDto {
+  problems: AuthoringProblemDto[];
+}
+
+const idListSchema = z.array(z.string().min(1))
+  .refine(ids => new Set(ids).size === ids.length, 'Ids must be unique');
+
+const lessonFields = {
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().max(2000).nullable().optional(),
+  xpReward: z.number().int().min(0).max(1000).optional(),
+  difficulty: z.enum(LESSON_DIFFICULTIES).optional(),
+  hintPenalty: z.number().int().min(0).max(100).optional(),
+  isActive: z.boolean().optional(),
+  skillIds: idListSchema.optional(),
+  prerequisiteIds: idListSchema.optional(),
+};
+
+export const createLessonSchema = z.object(lessonFields);
+
+export const updateLessonSchema = z.object(lessonFields).partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+export const problemOptionSchema = z.object({
+  optionText: z.string().trim().min(1, 'Option text is required').max(500),
+  isCorrect: z.boolean().default(false),
+  correctOrder: z.number().int().min(1).nullable().optional(),
+});
+
+export const updateProblemOptionSchema = problemOptionSchema.partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+const problemFields = {
+  question: z.string().trim().min(1, 'Question is required').max(2000),
+  problemType: z.enum(PROBLEM_TYPES),
+  correctAnswer: z.string().trim().max(500).nullable().optional(),
+  tolerance: z.number().min(0).nullable().optional(),
+  config: z.record(z.any()).nullable().optional(),
+  template: problemTemplateSchema.nullable().optional(),
+  explanation: z.string().max(2000).nullable().optional(),
+  hints: z.array(z.string().trim().min(1, 'Hint is required').max(1000)).max(MAX_HINTS).optional(),
+  difficulty: z.enum(LESSON_DIFFICULTIES).optional(),
+  options: z.array(problemOptionSchema).max(20).optional(),
+};
+
+export const createProblemSchema = z.object(problemFields);
+
+export const updateProblemSchema = z.object(problemFields).partial()
+  .refine(data => Object.keys(data).length > 0, 'Nothing to update');
+
+export const reorderLessonsSchema = z.object({
+  lessonIds: idListSchema.refine(ids => ids.length > 0, 'Lesson ids are required'),
+});
+
+export const reorderProblemsSchema = z.object({
+  problemIds: idListSchema.refine(ids => ids.length > 0, 'Problem ids are required'),
+});
+
+export type CreateLessonRequest = z.infer<typeof createLessonSchema>;
+export type UpdateLessonRequest = z.infer<typeof updateLessonSchema>;
+export type ProblemOptionRequest = z.infer<typeof problemOptionSchema>;
+export type UpdateProblemOptionRequest = z.infer<typeof updateProblemOptionSchema>;
+export type CreateProblemRequest = z.infer<typeof createProblemSchema>;
+export type UpdateProblemRequest = z.infer<typeof updateProblemSchema>;
+
+/**
+ * Transform functions
+ */
+
+export const transformAuthoringProblemToDto = (problem: ProblemWithOptions): AuthoringProblemDto => ({
+  id: problem.id,
+  question: problem.question,
+  problemType: problem.problemType,
+  order: problem.order,
+  correctAnswer: problem.correctAnswer,
+  tolerance: problem.tolerance,
+  config: problem.config,
+  template: problem.template,
+  explanation: problem.explanation,
+  hints: problem.hints,
+  difficulty: problem.difficulty,
+  options: problem.options.map(option => ({
+    id: option.id,
+    optionText: option.optionText,
+    isCorrect: option.isCorrect,
+    order: option.order,
+    correctOrder: option.correctOrder,
+  })),
+});
+
+export const transformLessonSummaryToDto = (lesson: LessonSummary): AuthoringLessonSummaryDto => ({
+  id: lesson.id,
+  title: lesson.title,
+  description: lesson.description,
+  order: lesson.order,
+  xpReward: lesson.xpReward,
+  difficulty: lesson.difficulty as LessonDifficulty,
+  hintPenalty: lesson.hintPenalty,
+  skills: lesson.skills.map(transformSkillToDto),
+  prerequisites: lesson.prerequisites,
+  isActive: lesson.isActive,
+  status: lesson.status,
+  publishedAt: lesson.publishedAt,
+  problemCount: lesson.problemCount,
+  createdAt: lesson.createdAt,
+  updatedAt: lesson.updatedAt,
+});
+
+export const transformAuthoredLessonToDto = (lesson: AuthoredLesson): AuthoringLessonDto => ({
+  ...transformLessonSummaryToDto({ ...lesson, problemCount: lesson.problems.length }),
+  problems: lesson.problems.map(transformAuthoringProblemToDto),
+});
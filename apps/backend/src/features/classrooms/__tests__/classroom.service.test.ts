@@ -0,0 +1,368 @@
+/**
+ * ClassroomService Unit Tests
+ * Tests for join codes, who may see or manage a classroom, assignments and the teacher dashboard
+ */
+
+const mockClassroomRepository = {
+  findForUser: jest.fn(),
+  findById: jest.fn(),
+  findByJoinCode: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findMembers: jest.fn(),
+  isMember: jest.fn(),
+  addMember: jest.fn(),
+  removeMember: jest.fn(),
+  findAssignments: jest.fn(),
+  findAssignment: jest.fn(),
+  findAssignmentByLesson: jest.fn(),
+  createAssignment: jest.fn(),
+  updateAssignment: jest.fn(),
+  deleteAssignment: jest.fn(),
+  findProgress: jest.fn(),
+  findAttemptsSince: jest.fn(),
+};
+
+const mockLessonRepository = {
+  findById: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/classroom.repository', () => ({
+  ClassroomRepository: mockClassroomRepository,
+}));
+
+jest.mock('../../../core/repositories/lesson.repository', () => ({
+  LessonRepository: mockLessonRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { ClassroomService, RECENT_SUBMISSION_LIMIT } from '../classroom.service';
+import { JOIN_CODE_ALPHABET, JOIN_CODE_LENGTH } from '../join-code';
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY);
+
+const teacher = { id: 'teacher-1', email: 'teacher@example.com', role: 'teacher' as const };
+const student = { id: 'student-1', email: 'student@example.com', role: 'learner' as const };
+const admin = { id: 'admin-1', email: 'admin@example.com', role: 'admin' as const };
+
+const classroom = (overrides: Record<string, unknown> = {}) => ({
+  id: 'class-1',
+  teacherId: 'teacher-1',
+  name: 'Year 5 - Maths',
+  description: null,
+  joinCode: 'K7QM2XPD',
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  teacher: { id: 'teacher-1', displayName: 'Ms Rivera' },
+  _count: { members: 2, assignments: 2 },
+  ...overrides,
+});
+
+const assignment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'assignment-1',
+  classroomId: 'class-1',
+  lessonId: 'lesson-1',
+  dueAt: null,
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  lesson: { id: 'lesson-1', title: 'Basic Arithmetic', difficulty: 'easy', xpReward: 10 },
+  ...overrides,
+});
+
+const member = (userId: string, displayName: string) => ({
+  id: `member-${userId}`,
+  classroomId: 'class-1',
+  userId,
+  joinedAt: new Date('2024-01-16T10:00:00Z'),
+  user: { id: userId, displayName, username: null, avatar: null },
+});
+
+const progress = (overrides: Record<string, unknown> = {}) => ({
+  id: 'progress-1',
+  userId: 'student-1',
+  lessonId: 'lesson-1',
+  isCompleted: false,
+  completionDate: null,
+  score: 50,
+  bestScore: 50,
+  attemptsCount: 1,
+  totalXpEarned: 20,
+  startedAt: daysFromNow(-3),
+  lastAttemptAt: daysFromNow(-2),
+  createdAt: daysFromNow(-3),
+  updatedAt: daysFromNow(-2),
+  ...overrides,
+});
+
+const attempt = (userId: string, lessonId: string, submittedAt: Date, score = 100) => ({
+  id: `attempt-${userId}-${submittedAt.getTime()}`,
+  attemptId: `client-${userId}-${submittedAt.getTime()}`,
+  userId,
+  lessonId,
+  lessonRevisionId: `revision-${lessonId}`,
+  score,
+  isCorrect: score === 100,
+  xpEarned: score === 100 ? 40 : 20,
+  timeSpent: 120,
+  submittedAt,
+  createdAt: submittedAt,
+  updatedAt: submittedAt,
+});
+
+describe('ClassroomService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClassroomRepository.findById.mockResolvedValue(classroom());
+    mockClassroomRepository.isMember.mockResolvedValue(false);
+  });
+
+  describe('createClassroom', () => {
+    it('should make the requesting user the teacher with a readable join code', async () => {
+      mockClassroomRepository.findByJoinCode.mockResolvedValue(null);
+      mockClassroomRepository.create.mockImplementation(async (teacherId, joinCode, input) =>
+        classroom({ teacherId, joinCode, ...input, _count: { members: 0, assignments: 0 } })
+      );
+
+      const result = await ClassroomService.createClassroom(teacher, { name: 'Year 6' });
+
+      const [teacherId, joinCode] = mockClassroomRepository.create.mock.calls[0];
+      expect(teacherId).toBe('teacher-1');
+      expect(joinCode).toHaveLength(JOIN_CODE_LENGTH);
+      expect([...joinCode].every(char => JOIN_CODE_ALPHABET.includes(char))).toBe(true);
+      expect(result).toMatchObject({ name: 'Year 6', role: 'teacher', joinCode, memberCount: 0 });
+    });
+
+    it('should draw another join code when one is taken', async () => {
+      mockClassroomRepository.findByJoinCode
+        .mockResolvedValueOnce(classroom())
+        .mockResolvedValueOnce(null);
+      mockClassroomRepository.create.mockResolvedValue(classroom());
+
+      await ClassroomService.createClassroom(teacher, { name: 'Year 6' });
+
+      expect(mockClassroomRepository.findByJoinCode).toHaveBeenCalledTimes(2);
+      expect(mockClassroomRepository.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('joinClassroom', () => {
+    it('should enroll a student without revealing the join code', async () => {
+      mockClassroomRepository.findByJoinCode.mockResolvedValue(classroom());
+
+      const result = await ClassroomService.joinClassroom(student, 'K7QM2XPD');
+
+      expect(mockClassroomRepository.addMember).toHaveBeenCalledWith('class-1', 'student-1');
+      expect(result).toMatchObject({ id: 'class-1', role: 'student', joinCode: null });
+    });
+
+    it('should reject an unknown join code', async () => {
+      mockClassroomRepository.findByJoinCode.mockResolvedValue(null);
+
+      await expect(ClassroomService.joinClassroom(student, 'NOPE')).rejects.toThrow('not found');
+      expect(mockClassroomRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should not enroll the teacher in their own classroom', async () => {
+      mockClassroomRepository.findByJoinCode.mockResolvedValue(classroom());
+
+      await expect(ClassroomService.joinClassroom(teacher, 'K7QM2XPD'))
+        .rejects.toThrow('Teachers cannot join their own classroom');
+    });
+  });
+
+  describe('getClassroom', () => {
+    it('should hide the classroom from users outside it', async () => {
+      await expect(ClassroomService.getClassroom(student, 'class-1')).rejects.toThrow('Classroom not found');
+      expect(mockClassroomRepository.findAssignments).not.toHaveBeenCalled();
+    });
+
+    it('should give a student their own status on every assignment', async () => {
+      mockClassroomRepository.isMember.mockResolvedValue(true);
+      mockClassroomRepository.findAssignments.mockResolvedValue([
+        assignment({ id: 'a-done', lessonId: 'lesson-1', dueAt: daysFromNow(-5) }),
+        assignment({ id: 'a-late', lessonId: 'lesson-2', dueAt: daysFromNow(-1) }),
+        assignment({ id: 'a-going', lessonId: 'lesson-3', dueAt: daysFromNow(3) }),
+        assignment({ id: 'a-new', lessonId: 'lesson-4', dueAt: null }),
+      ]);
+      mockClassroomRepository.findProgress.mockResolvedValue([
+        progress({ lessonId: 'lesson-1', isCompleted: true, completionDate: daysFromNow(-4), bestScore: 100 }),
+        progress({ lessonId: 'lesson-2' }),
+        progress({ lessonId: 'lesson-3', bestScore: 75 }),
+      ]);
+
+      const result = await ClassroomService.getClassroom(student, 'class-1');
+
+      expect(mockClassroomRepository.findProgress).toHaveBeenCalledWith(
+        ['student-1'],
+        ['lesson-1', 'lesson-2', 'lesson-3', 'lesson-4']
+      );
+      expect(result.role).toBe('student');
+      expect(result.joinCode).toBeNull();
+      expect(result.assignments.map(entry => entry.myProgress)).toEqual([
+        expect.objectContaining({ status: 'completed', bestScore: 100, isLate: true }),
+        expect.objectContaining({ status: 'overdue', bestScore: 50 }),
+        expect.objectContaining({ status: 'in_progress', bestScore: 75, isLate: false }),
+        expect.objectContaining({ status: 'not_started', bestScore: null, attemptsCount: 0 }),
+      ]);
+    });
+  });
+
+  describe('managing a classroom', () => {
+    it('should treat another teacher as outside the classroom', async () => {
+      const otherTeacher = { ...teacher, id: 'teacher-2' };
+
+      await expect(ClassroomService.updateClassroom(otherTeacher, 'class-1', { name: 'Mine now' }))
+        .rejects.toThrow('Classroom not found');
+      expect(mockClassroomRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin manage any classroom', async () => {
+      mockClassroomRepository.update.mockResolvedValue(classroom({ name: 'Renamed' }));
+
+      const result = await ClassroomService.updateClassroom(admin, 'class-1', { name: 'Renamed' });
+
+      expect(result.name).toBe('Renamed');
+    });
+
+    it('should let a student leave but not remove classmates', async () => {
+      mockClassroomRepository.isMember.mockResolvedValue(true);
+      mockClassroomRepository.removeMember.mockResolvedValue(true);
+
+      await ClassroomService.removeMember(student, 'class-1', 'student-1');
+      await expect(ClassroomService.removeMember(student, 'class-1', 'student-2'))
+        .rejects.toThrow('Classroom not found');
+
+      expect(mockClassroomRepository.removeMember).toHaveBeenCalledTimes(1);
+      expect(mockClassroomRepository.removeMember).toHaveBeenCalledWith('class-1', 'student-1');
+    });
+  });
+
+  describe('createAssignment', () => {
+    it('should assign a published lesson with its due date', async () => {
+      mockLessonRepository.findById.mockResolvedValue({ id: 'lesson-2' });
+      mockClassroomRepository.findAssignmentByLesson.mockResolvedValue(null);
+      mockClassroomRepository.createAssignment.mockResolvedValue(assignment({ lessonId: 'lesson-2' }));
+
+      await ClassroomService.createAssignment(teacher, 'class-1', {
+        lessonId: 'lesson-2',
+        dueAt: '2024-02-01T16:00:00Z',
+      });
+
+      expect(mockClassroomRepository.createAssignment).toHaveBeenCalledWith(
+        'class-1',
+        'lesson-2',
+        new Date('2024-02-01T16:00:00Z')
+      );
+    });
+
+    it('should not assign lessons learners cannot open', async () => {
+      mockLessonRepository.findById.mockResolvedValue(null);
+
+      await expect(ClassroomService.createAssignment(teacher, 'class-1', { lessonId: 'draft-lesson' }))
+        .rejects.toThrow('Lesson not found');
+      expect(mockClassroomRepository.createAssignment).not.toHaveBeenCalled();
+    });
+
+    it('should not assign the same lesson twice', async () => {
+      mockLessonRepository.findById.mockResolvedValue({ id: 'lesson-1' });
+      mockClassroomRepository.findAssignmentByLesson.mockResolvedValue(assignment());
+
+      await expect(ClassroomService.createAssignment(teacher, 'class-1', { lessonId: 'lesson-1' }))
+        .rejects.toThrow('already assigned');
+    });
+  });
+
+  describe('updateAssignment', () => {
+    it('should not touch an assignment of another classroom', async () => {
+      mockClassroomRepository.findAssignment.mockResolvedValue(assignment({ classroomId: 'class-9' }));
+
+      await expect(ClassroomService.updateAssignment(teacher, 'class-1', 'assignment-1', { dueAt: null }))
+        .rejects.toThrow('Assignment not found');
+      expect(mockClassroomRepository.updateAssignment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDashboard', () => {
+    beforeEach(() => {
+      mockClassroomRepository.findMembers.mockResolvedValue([
+        member('student-1', 'Ada'),
+        member('student-2', 'Ben'),
+      ]);
+      mockClassroomRepository.findAssignments.mockResolvedValue([
+        assignment({ id: 'a-1', lessonId: 'lesson-1', dueAt: daysFromNow(-1) }),
+        assignment({
+          id: 'a-2',
+          lessonId: 'lesson-2',
+          dueAt: daysFromNow(7),
+          lesson: { id: 'lesson-2', title: 'Multiplication Mastery', difficulty: 'medium', xpReward: 15 },
+        }),
+      ]);
+      mockClassroomRepository.findProgress.mockResolvedValue([
+        progress({ userId: 'student-1', lessonId: 'lesson-1', isCompleted: true, completionDate: daysFromNow(-2), bestScore: 100 }),
+        progress({ userId: 'student-1', lessonId: 'lesson-2', bestScore: 60 }),
+        progress({ userId: 'student-2', lessonId: 'lesson-2', bestScore: 90, isCompleted: true, completionDate: daysFromNow(-1) }),
+      ]);
+      mockClassroomRepository.findAttemptsSince.mockResolvedValue([
+        ...Array.from({ length: RECENT_SUBMISSION_LIMIT + 2 }, (_, index) =>
+          attempt('student-1', 'lesson-2', daysFromNow(-index * 0.1), 60)
+        ),
+        attempt('student-2', 'lesson-2', daysFromNow(-1), 90),
+      ]);
+    });
+
+    it('should only be available to the classroom teacher or an admin', async () => {
+      mockClassroomRepository.isMember.mockResolvedValue(true);
+
+      await expect(ClassroomService.getDashboard(student, 'class-1')).rejects.toThrow('Classroom not found');
+      await expect(ClassroomService.getDashboard(admin, 'class-1')).resolves.toBeDefined();
+    });
+
+    it('should summarize each student across the assigned lessons', async () => {
+      const result = await ClassroomService.getDashboard(teacher, 'class-1');
+
+      expect(mockClassroomRepository.findProgress).toHaveBeenCalledWith(
+        ['student-1', 'student-2'],
+        ['lesson-1', 'lesson-2']
+      );
+
+      const [ada, ben] = result.students;
+      expect(ada).toMatchObject({ displayName: 'Ada', completedCount: 1, overdueCount: 0 });
+      expect(ada.progress.map(entry => entry.status)).toEqual(['completed', 'in_progress']);
+      expect(ada.recentSubmissions).toHaveLength(RECENT_SUBMISSION_LIMIT);
+      expect(ada.recentSubmissions[0]).toMatchObject({ lessonTitle: 'Multiplication Mastery', score: 60 });
+
+      expect(ben).toMatchObject({ displayName: 'Ben', completedCount: 1, overdueCount: 1 });
+      expect(ben.progress.map(entry => entry.status)).toEqual(['overdue', 'completed']);
+      expect(ben.recentSubmissions).toHaveLength(1);
+    });
+
+    it('should count completions and average best scores per assignment', async () => {
+      const result = await ClassroomService.getDashboard(teacher, 'class-1');
+
+      expect(result.assignments).toEqual([
+        expect.objectContaining({ id: 'a-1', completedCount: 1, overdueCount: 1, averageBestScore: 100 }),
+        expect.objectContaining({ id: 'a-2', completedCount: 1, overdueCount: 0, averageBestScore: 75 }),
+      ]);
+      expect(result.classroom.joinCode).toBe('K7QM2XPD');
+    });
+
+    it('should skip the progress queries for a classroom without students', async () => {
+      mockClassroomRepository.findMembers.mockResolvedValueOnce([]);
+
+      const result = await ClassroomService.getDashboard(teacher, 'class-1');
+
+      expect(mockClassroomRepository.findProgress).not.toHaveBeenCalled();
+      expect(result.students).toEqual([]);
+      expect(result.assignments[0]).toMatchObject({ completedCount: 0, averageBestScore: null });
+    });
+  });
+});
@@ -0,0 +1,577 @@
+import { Request, Response } from 'express';
+import { ClassroomService } from './classroom.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+import {
+  CreateAssignmentRequest,
+  CreateClassroomRequest,
+  JoinClassroomRequest,
+  UpdateAssignmentRequest,
+  UpdateClassroomRequest,
+} from './dtos/classroom.dto';
+
+/**
+ * @swagger
+ * /api/classrooms:
+ *   get:
+ *     summary: List my classrooms
+ *     description: Classrooms the user teaches or has joined, newest first.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Classrooms retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomListResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Create a classroom
+ *     description: Teacher or admin. The requesting user becomes the classroom's teacher and gets a join code for students.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateClassroomRequest'
+ *     responses:
+ *       201:
+ *         description: Classroom created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/join:
+ *   post:
+ *     summary: Join a classroom
+ *     description: Enrolls the user in the classroom with this join code. Joining again changes nothing.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/JoinClassroomRequest'
+ *     responses:
+ *       200:
+ *         description: Joined classroom successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: No classroom has this join code
+ *       409:
+ *         description: The user teaches this classroom
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}:
+ *   get:
+ *     summary: Get a classroom
+ *     description: |
+ *       The classroom with its assignments. Students also get their own progress on each
+ *       assignment. Users outside the classroom receive 404.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     responses:
+ *       200:
+ *         description: Classroom retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomDetailResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   patch:
+ *     summary: Update a classroom
+ *     description: Teacher of the classroom or admin.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateClassroomRequest'
+ *     responses:
+ *       200:
+ *         description: Classroom updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Delete a classroom
+ *     description: Teacher of the classroom or admin. Removes memberships and assignments; students keep their lesson progress.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     responses:
+ *       200:
+ *         description: Classroom deleted successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/join-code:
+ *   post:
+ *     summary: Regenerate the join code
+ *     description: Teacher of the classroom or admin. The old code stops working; current students stay enrolled.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     responses:
+ *       200:
+ *         description: Join code regenerated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/members:
+ *   get:
+ *     summary: List students
+ *     description: Teacher of the classroom or admin. Students in the order they joined.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     responses:
+ *       200:
+ *         description: Students retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomMemberListResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/members/{userId}:
+ *   delete:
+ *     summary: Remove a student
+ *     description: The teacher (or an admin) removes a student, or a student leaves by passing their own ID.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Student removed successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/assignments:
+ *   post:
+ *     summary: Assign a lesson
+ *     description: Teacher of the classroom or admin. Assigns a published lesson, optionally with a due date.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAssignmentRequest'
+ *     responses:
+ *       201:
+ *         description: Lesson assigned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomAssignmentResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The lesson is already assigned to this classroom
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/assignments/{assignmentId}:
+ *   patch:
+ *     summary: Change an assignment's due date
+ *     description: Teacher of the classroom or admin. A null due date removes it.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *       - $ref: '#/components/parameters/ClassroomAssignmentId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateAssignmentRequest'
+ *     responses:
+ *       200:
+ *         description: Assignment updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomAssignmentResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Remove an assignment
+ *     description: Teacher of the classroom or admin. Students keep their lesson progress.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *       - $ref: '#/components/parameters/ClassroomAssignmentId'
+ *     responses:
+ *       200:
+ *         description: Assignment removed successfully
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/classrooms/{classroomId}/dashboard:
+ *   get:
+ *     summary: Get the teacher dashboard
+ *     description: |
+ *       Teacher of the classroom or admin. For every student, their progress on each assignment
+ *       (from their lesson progress) and their latest submissions on assigned lessons; for every
+ *       assignment, how many students completed it or are overdue.
+ *     tags: [Classrooms]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/ClassroomId'
+ *     responses:
+ *       200:
+ *         description: Dashboard retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClassroomDashboardResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * components:
+ *   parameters:
+ *     ClassroomId:
+ *       in: path
+ *       name: classroomId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     ClassroomAssignmentId:
+ *       in: path
+ *       name: assignmentId
+ *       required: true
+ *       schema:
+ *         type: string
+ */
+
+/**
+ * Classroom Controller
+ * Handles HTTP requests for classrooms, their students and assignments
+ */
+export class ClassroomController {
+  /**
+   * GET /api/classrooms
+   */
+  static async listClassrooms(req: Request, res: Response): Promise<void> {
+    try {
+      const classrooms = await ClassroomService.listClassrooms(req.user!);
+
+      sendSuccess(res, classrooms, 'Classrooms retrieved successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to retrieve classrooms');
+    }
+  }
+
+  /**
+   * POST /api/classrooms
+   */
+  static async createClassroom(req: Request, res: Response): Promise<void> {
+    try {
+      const classroom = await ClassroomService.createClassroom(
+        req.user!,
+        req.validated?.body as CreateClassroomRequest
+      );
+
+      sendSuccess(res, classroom, 'Classroom created successfully', 201);
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to create classroom');
+    }
+  }
+
+  /**
+   * POST /api/classrooms/join
+   */
+  static async joinClassroom(req: Request, res: Response): Promise<void> {
+    try {
+      const { joinCode } = req.validated?.body as JoinClassroomRequest;
+      const classroom = await ClassroomService.joinClassroom(req.user!, joinCode);
+
+      sendSuccess(res, classroom, 'Joined classroom successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to join classroom');
+    }
+  }
+
+  /**
+   * GET /api/classrooms/:classroomId
+   */
+  static async getClassroom(req: Request, res: Response): Promise<void> {
+    try {
+      const classroom = await ClassroomService.getClassroom(req.user!, req.params.classroomId);
+
+      sendSuccess(res, classroom, 'Classroom retrieved successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to retrieve classroom');
+    }
+  }
+
+  /**
+   * PATCH /api/classrooms/:classroomId
+   */
+  static async updateClassroom(req: Request, res: Response): Promise<void> {
+    try {
+      const classroom = await ClassroomService.updateClassroom(
+        req.user!,
+        req.params.classroomId,
+        req.validated?.body as UpdateClassroomRequest
+      );
+
+      sendSuccess(res, classroom, 'Classroom updated successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to update classroom');
+    }
+  }
+
+  /**
+   * DELETE /api/classrooms/:classroomId
+   */
+  static async deleteClassroom(req: Request, res: Response): Promise<void> {
+    try {
+      await ClassroomService.deleteClassroom(req.user!, req.params.classroomId);
+
+      sendSuccess(res, null, 'Classroom deleted successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to delete classroom');
+    }
+  }
+
+  /**
+   * POST /api/classrooms/:classroomId/join-code
+   */
+  static async regenerateJoinCode(req: Request, res: Response): Promise<void> {
+    try {
+      const classroom = await ClassroomService.regenerateJoinCode(req.user!, req.params.classroomId);
+
+      sendSuccess(res, classroom, 'Join code regenerated successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to regenerate join code');
+    }
+  }
+
+  /**
+   * GET /api/classrooms/:classroomId/members
+   */
+  static async listMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const members = await ClassroomService.listMembers(req.user!, req.params.classroomId);
+
+      sendSuccess(res, members, 'Students retrieved successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to retrieve students');
+    }
+  }
+
+  /**
+   * DELETE /api/classrooms/:classroomId/members/:userId
+   */
+  static async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      await ClassroomService.removeMember(req.user!, req.params.classroomId, req.params.userId);
+
+      sendSuccess(res, null, 'Student removed successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to remove student');
+    }
+  }
+
+  /**
+   * POST /api/classrooms/:classroomId/assignments
+   */
+  static async createAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const assignment = await ClassroomService.createAssignment(
+        req.user!,
+        req.params.classroomId,
+        req.validated?.body as CreateAssignmentRequest
+      );
+
+      sendSuccess(res, assignment, 'Lesson assigned successfully', 201);
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to assign lesson');
+    }
+  }
+
+  /**
+   * PATCH /api/classrooms/:classroomId/assignments/:assignmentId
+   */
+  static async updateAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const assignment = await ClassroomService.updateAssignment(
+        req.user!,
+        req.params.classroomId,
+        req.params.assignmentId,
+        req.validated?.body as UpdateAssignmentRequest
+      );
+
+      sendSuccess(res, assignment, 'Assignment updated successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to update assignment');
+    }
+  }
+
+  /**
+   * DELETE /api/classrooms/:classroomId/assignments/:assignmentId
+   */
+  static async deleteAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      await ClassroomService.deleteAssignment(req.user!, req.params.classroomId, req.params.assignmentId);
+
+      sendSuccess(res, null, 'Assignment removed successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to remove assignment');
+    }
+  }
+
+  /**
+   * GET /api/classrooms/:classroomId/dashboard
+   */
+  static async getDashboard(req: Request, res: Response): Promise<void> {
+    try {
+      const dashboard = await ClassroomService.getDashboard(req.user!, req.params.classroomId);
+
+      sendSuccess(res, dashboard, 'Dashboard retrieved successfully');
+    } catch (error) {
+      ClassroomController.sendClassroomError(res, error, 'Failed to retrieve dashboard');
+    }
+  }
+
+  private static sendClassroomError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : '';
+
+    if (message.includes('not found')) {
+      sendError(res, message, 404);
+    } else if (message.includes('already assigned') || message.startsWith('Teachers cannot join')) {
+      sendError(res, message, 409);
+    } else {
+      LoggerService.error(fallback, { error: message || 'Unknown error' });
+      sendError(res, fallback, 500);
+    }
+  }
+}
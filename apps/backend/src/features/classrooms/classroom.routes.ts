@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { ClassroomController } from './classroom.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate, requirePermission } from '../../core/auth';
+import { validateBody } from '../../core/validation/validation.middleware';
+import {
+  createAssignmentSchema,
+  createClassroomSchema,
+  joinClassroomSchema,
+  updateAssignmentSchema,
+  updateClassroomSchema,
+} from './dtos/classroom.dto';
+
+/**
+ * Classroom Routes
+ * /api/classrooms
+ *
+ * Any user can join a classroom; managing one needs `classrooms:manage` and, in the
+ * service, being its teacher (or an admin).
+ */
+const router = Router();
+const manage = requirePermission('classrooms:manage');
+
+router.use(authenticate);
+
+// GET /api/classrooms - List classrooms the user teaches or has joined
+router.get('/', asyncHandler(ClassroomController.listClassrooms));
+
+// POST /api/classrooms - Create a classroom
+router.post('/', manage, validateBody(createClassroomSchema), asyncHandler(ClassroomController.createClassroom));
+
+// POST /api/classrooms/join - Join a classroom with its join code
+router.post('/join', validateBody(joinClassroomSchema), asyncHandler(ClassroomController.joinClassroom));
+
+// GET /api/classrooms/:classroomId - Get a classroom with its assignments
+router.get('/:classroomId', asyncHandler(ClassroomController.getClassroom));
+
+// PATCH /api/classrooms/:classroomId - Rename or describe a classroom
+router.patch(
+  '/:classroomId',
+  manage,
+  validateBody(updateClassroomSchema),
+  asyncHandler(ClassroomController.updateClassroom)
+);
+
+// DELETE /api/classrooms/:classroomId - Delete a classroom
+router.delete('/:classroomId', manage, asyncHandler(ClassroomController.deleteClassroom));
+
+// POST /api/classrooms/:classroomId/join-code - Regenerate the join code
+router.post('/:classroomId/join-code', manage, asyncHandler(ClassroomController.regenerateJoinCode));
+
+// GET /api/classrooms/:classroomId/members - List students
+router.get('/:classroomId/members', manage, asyncHandler(ClassroomController.listMembers));
+
+// DELETE /api/classrooms/:classroomId/members/:userId - Remove a student, or leave
+router.delete('/:classroomId/members/:userId', asyncHandler(ClassroomController.removeMember));
+
+// POST /api/classrooms/:classroomId/assignments - Assign a lesson
+router.post(
+  '/:classroomId/assignments',
+  manage,
+  validateBody(createAssignmentSchema),
+  asyncHandler(ClassroomController.createAssignment)
+);
+
+// PATCH /api/classrooms/:classroomId/assignments/:assignmentId - Change the due date
+router.patch(
+  '/:classroomId/assignments/:assignmentId',
+  manage,
+  validateBody(updateAssignmentSchema),
+  asyncHandler(ClassroomController.updateAssignment)
+);
+
+// DELETE /api/classrooms/:classroomId/assignments/:assignmentId - Remove an assignment
+router.delete(
+  '/:classroomId/assignments/:assignmentId',
+  manage,
+  asyncHandler(ClassroomController.deleteAssignment)
+);
+
+// GET /api/classrooms/:classroomId/dashboard - Teacher dashboard
+router.get('/:classroomId/dashboard', manage, asyncHandler(ClassroomController.getDashboard));
+
+export default router;
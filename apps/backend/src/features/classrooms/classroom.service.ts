@@ -0,0 +1,451 @@
+import { UserProgress } from '@prisma/client';
+import { AuthenticatedUser } from '../../core/auth';
+import { ClassroomRepository, ClassroomWithCounts } from '../../core/repositories/classroom.repository';
+import { LessonRepository } from '../../core/repositories/lesson.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { generateJoinCode } from './join-code';
+import {
+  ClassroomAssignmentDto,
+  ClassroomDashboardDto,
+  ClassroomDetailDto,
+  ClassroomDto,
+  ClassroomMemberDto,
+  ClassroomRole,
+  CreateAssignmentRequest,
+  CreateClassroomRequest,
+  UpdateAssignmentRequest,
+  UpdateClassroomRequest,
+  toAssignmentProgress,
+  transformAssignmentToDto,
+  transformClassroomToDto,
+  transformMemberToDto,
+  transformSubmissionToDto,
+} from './dtos/classroom.dto';
+
+// Submissions shown per student on the dashboard
+export const RECENT_SUBMISSION_DAYS = 14;
+export const RECENT_SUBMISSION_LIMIT = 5;
+
+const JOIN_CODE_ATTEMPTS = 5;
+
+const progressKey = (userId: string, lessonId: string) => `${userId}:${lessonId}`;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+/**
+ * Classroom Service
+ * Business logic for classrooms: join codes, membership, lesson assignments and the teacher dashboard
+ */
+export class ClassroomService {
+  /**
+   * Get the classrooms a user teaches or belongs to
+   */
+  static async listClassrooms(user: AuthenticatedUser): Promise<ClassroomDto[]> {
+    LoggerService.logService('ClassroomService', `listClassrooms(${user.id})`, true);
+
+    try {
+      const classrooms = await ClassroomRepository.findForUser(user.id);
+      return classrooms.map(classroom =>
+        transformClassroomToDto(classroom, classroom.teacherId === user.id ? 'teacher' : 'student')
+      );
+    } catch (error) {
+      LoggerService.error('Failed to list classrooms', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a classroom taught by the requesting user
+   */
+  static async createClassroom(user: AuthenticatedUser, data: CreateClassroomRequest): Promise<ClassroomDto> {
+    LoggerService.logService('ClassroomService', `createClassroom(${user.id})`, true);
+
+    try {
+      const joinCode = await ClassroomService.uniqueJoinCode();
+      const classroom = await ClassroomRepository.create(user.id, joinCode, data);
+
+      LoggerService.info('Classroom created', { classroomId: classroom.id, teacherId: user.id });
+      return transformClassroomToDto(classroom, 'teacher');
+    } catch (error) {
+      LoggerService.error('Failed to create classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Enroll the requesting user in the classroom with this join code; joining again is a no-op
+   */
+  static async joinClassroom(user: AuthenticatedUser, joinCode: string): Promise<ClassroomDto> {
+    LoggerService.logService('ClassroomService', `joinClassroom(${user.id})`, true);
+
+    try {
+      const classroom = await ClassroomRepository.findByJoinCode(joinCode);
+      if (!classroom) {
+        throw new Error('Classroom not found for this join code');
+      }
+      if (classroom.teacherId === user.id) {
+        throw new Error('Teachers cannot join their own classroom');
+      }
+
+      await ClassroomRepository.addMember(classroom.id, user.id);
+
+      const joined = await ClassroomRepository.findById(classroom.id);
+      return transformClassroomToDto(joined ?? classroom, 'student');
+    } catch (error) {
+      LoggerService.error('Failed to join classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a classroom with its assignments; students also get their own progress on each
+   */
+  static async getClassroom(user: AuthenticatedUser, classroomId: string): Promise<ClassroomDetailDto> {
+    LoggerService.logService('ClassroomService', `getClassroom(${classroomId})`, true);
+
+    try {
+      const { classroom, role } = await ClassroomService.findVisible(user, classroomId);
+      const assignments = await ClassroomRepository.findAssignments(classroomId);
+
+      let progressByLesson = new Map<string, UserProgress>();
+      if (role === 'student' && assignments.length > 0) {
+        const progress = await ClassroomRepository.findProgress(
+          [user.id],
+          assignments.map(assignment => assignment.lessonId)
+        );
+        progressByLesson = new Map(progress.map(entry => [entry.lessonId, entry]));
+      }
+
+      const now = new Date();
+      return {
+        ...transformClassroomToDto(classroom, role),
+        assignments: assignments.map(assignment => ({
+          ...transformAssignmentToDto(assignment),
+          myProgress: role === 'student'
+            ? toAssignmentProgress(assignment, progressByLesson.get(assignment.lessonId), now)
+            : null,
+        })),
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  static async updateClassroom(
+    user: AuthenticatedUser,
+    classroomId: string,
+    data: UpdateClassroomRequest
+  ): Promise<ClassroomDto> {
+    LoggerService.logService('ClassroomService', `updateClassroom(${classroomId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      const classroom = await ClassroomRepository.update(classroomId, data);
+      return transformClassroomToDto(classroom, 'teacher');
+    } catch (error) {
+      LoggerService.error('Failed to update classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a classroom with its memberships and assignments; students keep their lesson progress
+   */
+  static async deleteClassroom(user: AuthenticatedUser, classroomId: string): Promise<void> {
+    LoggerService.logService('ClassroomService', `deleteClassroom(${classroomId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      await ClassroomRepository.delete(classroomId);
+      LoggerService.info('Classroom deleted', { classroomId });
+    } catch (error) {
+      LoggerService.error('Failed to delete classroom', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the join code, e.g. after it was shared too widely; current members stay enrolled
+   */
+  static async regenerateJoinCode(user: AuthenticatedUser, classroomId: string): Promise<ClassroomDto> {
+    LoggerService.logService('ClassroomService', `regenerateJoinCode(${classroomId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      const joinCode = await ClassroomService.uniqueJoinCode();
+      const classroom = await ClassroomRepository.update(classroomId, { joinCode });
+      return transformClassroomToDto(classroom, 'teacher');
+    } catch (error) {
+      LoggerService.error('Failed to regenerate join code', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  static async listMembers(user: AuthenticatedUser, classroomId: string): Promise<ClassroomMemberDto[]> {
+    LoggerService.logService('ClassroomService', `listMembers(${classroomId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      const members = await ClassroomRepository.findMembers(classroomId);
+      return members.map(transformMemberToDto);
+    } catch (error) {
+      LoggerService.error('Failed to list classroom members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a student; the teacher can remove anyone and a student can leave
+   */
+  static async removeMember(user: AuthenticatedUser, classroomId: string, studentId: string): Promise<void> {
+    LoggerService.logService('ClassroomService', `removeMember(${classroomId}, ${studentId})`, true);
+
+    try {
+      if (studentId === user.id) {
+        await ClassroomService.findVisible(user, classroomId);
+      } else {
+        await ClassroomService.findManaged(user, classroomId);
+      }
+
+      const removed = await ClassroomRepository.removeMember(classroomId, studentId);
+      if (!removed) {
+        throw new Error('Student not found in this classroom');
+      }
+    } catch (error) {
+      LoggerService.error('Failed to remove classroom member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        studentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a published lesson to every student of the classroom
+   */
+  static async createAssignment(
+    user: AuthenticatedUser,
+    classroomId: string,
+    data: CreateAssignmentRequest
+  ): Promise<ClassroomAssignmentDto> {
+    LoggerService.logService('ClassroomService', `createAssignment(${classroomId}, ${data.lessonId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+
+      if (!(await LessonRepository.findById(data.lessonId))) {
+        throw new Error('Lesson not found');
+      }
+      if (await ClassroomRepository.findAssignmentByLesson(classroomId, data.lessonId)) {
+        throw new Error('Lesson is already assigned to this classroom');
+      }
+
+      const assignment = await ClassroomRepository.createAssignment(
+        classroomId,
+        data.lessonId,
+        data.dueAt ? new Date(data.dueAt) : null
+      );
+      return transformAssignmentToDto(assignment);
+    } catch (error) {
+      LoggerService.error('Failed to create classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+        lessonId: data.lessonId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Move or clear an assignment's due date
+   */
+  static async updateAssignment(
+    user: AuthenticatedUser,
+    classroomId: string,
+    assignmentId: string,
+    data: UpdateAssignmentRequest
+  ): Promise<ClassroomAssignmentDto> {
+    LoggerService.logService('ClassroomService', `updateAssignment(${assignmentId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      await ClassroomService.findAssignment(classroomId, assignmentId);
+
+      const assignment = await ClassroomRepository.updateAssignment(
+        assignmentId,
+        data.dueAt ? new Date(data.dueAt) : null
+      );
+      return transformAssignmentToDto(assignment);
+    } catch (error) {
+      LoggerService.error('Failed to update classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId,
+      });
+      throw error;
+    }
+  }
+
+  static async deleteAssignment(user: AuthenticatedUser, classroomId: string, assignmentId: string): Promise<void> {
+    LoggerService.logService('ClassroomService', `deleteAssignment(${assignmentId})`, true);
+
+    try {
+      await ClassroomService.findManaged(user, classroomId);
+      await ClassroomService.findAssignment(classroomId, assignmentId);
+      await ClassroomRepository.deleteAssignment(assignmentId);
+    } catch (error) {
+      LoggerService.error('Failed to delete classroom assignment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        assignmentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Teacher dashboard: each student's progress on every assignment and their recent submissions
+   */
+  static async getDashboard(user: AuthenticatedUser, classroomId: string): Promise<ClassroomDashboardDto> {
+    LoggerService.logService('ClassroomService', `getDashboard(${classroomId})`, true);
+
+    try {
+      const classroom = await ClassroomService.findManaged(user, classroomId);
+      const [members, assignments] = await Promise.all([
+        ClassroomRepository.findMembers(classroomId),
+        ClassroomRepository.findAssignments(classroomId),
+      ]);
+
+      const studentIds = members.map(member => member.userId);
+      const lessonIds = assignments.map(assignment => assignment.lessonId);
+      const now = new Date();
+      const since = new Date(now.getTime() - RECENT_SUBMISSION_DAYS * 24 * 60 * 60 * 1000);
+
+      const [progress, attempts] = studentIds.length > 0 && lessonIds.length > 0
+        ? await Promise.all([
+          ClassroomRepository.findProgress(studentIds, lessonIds),
+          ClassroomRepository.findAttemptsSince(studentIds, lessonIds, since),
+        ])
+        : [[], []];
+
+      const progressByKey = new Map(progress.map(entry => [progressKey(entry.userId, entry.lessonId), entry]));
+      const lessonTitles = new Map(assignments.map(assignment => [assignment.lessonId, assignment.lesson.title]));
+
+      const students = members.map(member => {
+        const studentProgress = assignments.map(assignment => ({
+          assignmentId: assignment.id,
+          lessonId: assignment.lessonId,
+          ...toAssignmentProgress(assignment, progressByKey.get(progressKey(member.userId, assignment.lessonId)), now),
+        }));
+
+        return {
+          ...transformMemberToDto(member),
+          completedCount: studentProgress.filter(entry => entry.status === 'completed').length,
+          overdueCount: studentProgress.filter(entry => entry.status === 'overdue').length,
+          progress: studentProgress,
+          recentSubmissions: attempts
+            .filter(attempt => attempt.userId === member.userId)
+            .slice(0, RECENT_SUBMISSION_LIMIT)
+            .map(attempt => transformSubmissionToDto(attempt, lessonTitles.get(attempt.lessonId) ?? '')),
+        };
+      });
+
+      return {
+        classroom: transformClassroomToDto(classroom, 'teacher'),
+        assignments: assignments.map((assignment, index) => {
+          const entries = students.map(student => student.progress[index]);
+          return {
+            ...transformAssignmentToDto(assignment),
+            completedCount: entries.filter(entry => entry.status === 'completed').length,
+            overdueCount: entries.filter(entry => entry.status === 'overdue').length,
+            averageBestScore: average(
+              entries.flatMap(entry => (entry.bestScore === null ? [] : [entry.bestScore]))
+            ),
+          };
+        }),
+        students,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get classroom dashboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        classroomId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * A classroom the user may manage: its teacher, or an admin
+   * Anyone else gets "not found" so classroom IDs reveal nothing
+   */
+  private static async findManaged(user: AuthenticatedUser, classroomId: string): Promise<ClassroomWithCounts> {
+    const classroom = await ClassroomRepository.findById(classroomId);
+    if (!classroom || (classroom.teacherId !== user.id && user.role !== 'admin')) {
+      throw new Error('Classroom not found');
+    }
+    return classroom;
+  }
+
+  /**
+   * A classroom the user takes part in, and how
+   */
+  private static async findVisible(
+    user: AuthenticatedUser,
+    classroomId: string
+  ): Promise<{ classroom: ClassroomWithCounts; role: ClassroomRole }> {
+    const classroom = await ClassroomRepository.findById(classroomId);
+    if (!classroom) {
+      throw new Error('Classroom not found');
+    }
+    if (classroom.teacherId === user.id || user.role === 'admin') {
+      return { classroom, role: 'teacher' };
+    }
+    if (!(await ClassroomRepository.isMember(classroomId, user.id))) {
+      throw new Error('Classroom not found');
+    }
+    return { classroom, role: 'student' };
+  }
+
+  private static async findAssignment(classroomId: string, assignmentId: string) {
+    const assignment = await ClassroomRepository.findAssignment(assignmentId);
+    if (!assignment || assignment.classroomId !== classroomId) {
+      throw new Error('Assignment not found');
+    }
+    return assignment;
+  }
+
+  private static async uniqueJoinCode(): Promise<string> {
+    for (let attempt = 0; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+      const joinCode = generateJoinCode();
+      if (!(await ClassroomRepository.findByJoinCode(joinCode))) {
+        return joinCode;
+      }
+    }
+    throw new Error('Could not generate a unique join code');
+  }
+}
@@ -0,0 +1,597 @@
+import { z } from 'zod';
+import { Attempt, UserProgress } from '@prisma/client';
+import {
+  AssignmentWithLesson,
+  ClassroomWithCounts,
+  MemberWithUser,
+} from '../../../core/repositories/classroom.repository';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Classroom:
+ *       type: object
+ *       required:
+ *         - id
+ *         - name
+ *         - description
+ *         - teacher
+ *         - role
+ *         - joinCode
+ *         - memberCount
+ *         - assignmentCount
+ *         - createdAt
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "cmcls0001"
+ *         name:
+ *           type: string
+ *           example: "Year 5 - Maths"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Tuesday and Thursday group"
+ *         teacher:
+ *           type: object
+ *           required: [id, displayName]
+ *           properties:
+ *             id:
+ *               type: string
+ *               example: "2"
+ *             displayName:
+ *               type: string
+ *               nullable: true
+ *               example: "Ms Rivera"
+ *         role:
+ *           type: string
+ *           enum: [teacher, student]
+ *           description: How the requesting user takes part in the classroom
+ *           example: "teacher"
+ *         joinCode:
+ *           type: string
+ *           nullable: true
+ *           description: Code students join with; only shown to the teacher
+ *           example: "K7QM2XPD"
+ *         memberCount:
+ *           type: integer
+ *           example: 24
+ *         assignmentCount:
+ *           type: integer
+ *           example: 3
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     AssignmentProgress:
+ *       type: object
+ *       required:
+ *         - status
+ *         - bestScore
+ *         - attemptsCount
+ *         - completedAt
+ *         - lastAttemptAt
+ *         - isLate
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [not_started, in_progress, completed, overdue]
+ *           description: Overdue once the due date passes without a completion
+ *           example: "in_progress"
+ *         bestScore:
+ *           type: number
+ *           nullable: true
+ *           example: 75
+ *         attemptsCount:
+ *           type: integer
+ *           example: 2
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         isLate:
+ *           type: boolean
+ *           description: Completed after the due date
+ *           example: false
+ *
+ *     ClassroomAssignment:
+ *       type: object
+ *       required:
+ *         - id
+ *         - lessonId
+ *         - lessonTitle
+ *         - difficulty
+ *         - xpReward
+ *         - dueAt
+ *         - createdAt
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "cmasg0001"
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-2"
+ *         lessonTitle:
+ *           type: string
+ *           example: "Multiplication Mastery"
+ *         difficulty:
+ *           type: string
+ *           example: "medium"
+ *         xpReward:
+ *           type: integer
+ *           example: 15
+ *         dueAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         myProgress:
+ *           nullable: true
+ *           description: The requesting student's progress; null for the teacher
+ *           allOf:
+ *             - $ref: '#/components/schemas/AssignmentProgress'
+ *
+ *     ClassroomDetail:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Classroom'
+ *         - type: object
+ *           required: [assignments]
+ *           properties:
+ *             assignments:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClassroomAssignment'
+ *
+ *     ClassroomMember:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - displayName
+ *         - username
+ *         - avatar
+ *         - joinedAt
+ *       properties:
+ *         userId:
+ *           type: string
+ *           example: "1"
+ *         displayName:
+ *           type: string
+ *           nullable: true
+ *           example: "Demo User"
+ *         username:
+ *           type: string
+ *           nullable: true
+ *           example: "demo_user"
+ *         avatar:
+ *           type: string
+ *           nullable: true
+ *         joinedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     RecentSubmission:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - lessonId
+ *         - lessonTitle
+ *         - score
+ *         - isCorrect
+ *         - xpEarned
+ *         - timeSpent
+ *         - submittedAt
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-42"
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-2"
+ *         lessonTitle:
+ *           type: string
+ *           example: "Multiplication Mastery"
+ *         score:
+ *           type: integer
+ *           example: 75
+ *         isCorrect:
+ *           type: boolean
+ *           example: false
+ *         xpEarned:
+ *           type: integer
+ *           example: 45
+ *         timeSpent:
+ *           type: integer
+ *           nullable: true
+ *           description: Seconds
+ *           example: 210
+ *         submittedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     DashboardAssignment:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ClassroomAssignment'
+ *         - type: object
+ *           required: [completedCount, overdueCount, averageBestScore]
+ *           properties:
+ *             completedCount:
+ *               type: integer
+ *               example: 18
+ *             overdueCount:
+ *               type: integer
+ *               example: 2
+ *             averageBestScore:
+ *               type: number
+ *               nullable: true
+ *               description: Mean best score of the students who attempted the lesson
+ *               example: 82.5
+ *
+ *     DashboardStudent:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ClassroomMember'
+ *         - type: object
+ *           required: [completedCount, overdueCount, progress, recentSubmissions]
+ *           properties:
+ *             completedCount:
+ *               type: integer
+ *               example: 2
+ *             overdueCount:
+ *               type: integer
+ *               example: 0
+ *             progress:
+ *               type: array
+ *               description: One entry per assignment, in assignment order
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/AssignmentProgress'
+ *                   - type: object
+ *                     required: [assignmentId, lessonId]
+ *                     properties:
+ *                       assignmentId:
+ *                         type: string
+ *                       lessonId:
+ *                         type: string
+ *             recentSubmissions:
+ *               type: array
+ *               description: Latest attempts on assigned lessons from the last 14 days, newest first
+ *               items:
+ *                 $ref: '#/components/schemas/RecentSubmission'
+ *
+ *     ClassroomDashboard:
+ *       type: object
+ *       required: [classroom, assignments, students]
+ *       properties:
+ *         classroom:
+ *           $ref: '#/components/schemas/Classroom'
+ *         assignments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardAssignment'
+ *         students:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DashboardStudent'
+ *
+ *     CreateClassroomRequest:
+ *       type: object
+ *       required: [name]
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *           example: "Year 5 - Maths"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *
+ *     UpdateClassroomRequest:
+ *       type: object
+ *       description: At least one field must be provided
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *
+ *     JoinClassroomRequest:
+ *       type: object
+ *       required: [joinCode]
+ *       properties:
+ *         joinCode:
+ *           type: string
+ *           description: Case-insensitive
+ *           example: "K7QM2XPD"
+ *
+ *     CreateAssignmentRequest:
+ *       type: object
+ *       required: [lessonId]
+ *       properties:
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-2"
+ *         dueAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           example: "2025-09-12T16:00:00.000Z"
+ *
+ *     UpdateAssignmentRequest:
+ *       type: object
+ *       required: [dueAt]
+ *       properties:
+ *         dueAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     ClassroomResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/Classroom'
+ *
+ *     ClassroomListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Classroom'
+ *
+ *     ClassroomDetailResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ClassroomDetail'
+ *
+ *     ClassroomMemberListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClassroomMember'
+ *
+ *     ClassroomAssignmentResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ClassroomAssignment'
+ *
+ *     ClassroomDashboardResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ClassroomDashboard'
+ */
+
+/**
+ * Classroom DTOs and Interfaces
+ */
+
+export type ClassroomRole = 'teacher' | 'student';
+
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'completed' | 'overdue';
+
+// Classroom DTO
+export interface ClassroomDto {
+  id: string;
+  name: string;
+  description: string | null;
+  teacher: { id: string; displayName: string | null };
+  role: ClassroomRole;
+  joinCode: string | null;
+  memberCount: number;
+  assignmentCount: number;
+  createdAt: Date;
+}
+
+// Progress of one student on one assignment
+export interface AssignmentProgressDto {
+  status: AssignmentStatus;
+  bestScore: number | null;
+  attemptsCount: number;
+  completedAt: Date | null;
+  lastAttemptAt: Date | null;
+  isLate: boolean;
+}
+
+// Classroom Assignment DTO
+export interface ClassroomAssignmentDto {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  difficulty: string;
+  xpReward: number;
+  dueAt: Date | null;
+  createdAt: Date;
+  myProgress?: AssignmentProgressDto | null;
+}
+
+// Classroom with its assignments
+export interface ClassroomDetailDto extends ClassroomDto {
+  assignments: ClassroomAssignmentDto[];
+}
+
+// Classroom Member DTO
+export interface ClassroomMemberDto {
+  userId: string;
+  displayName: string | null;
+  username: string | null;
+  avatar: string | null;
+  joinedAt: Date;
+}
+
+// An attempt on an assigned lesson
+export interface RecentSubmissionDto {
+  attemptId: string;
+  lessonId: string;
+  lessonTitle: string;
+  score: number;
+  isCorrect: boolean;
+  xpEarned: number;
+  timeSpent: number | null;
+  submittedAt: Date;
+}
+
+export interface DashboardAssignmentDto extends ClassroomAssignmentDto {
+  completedCount: number;
+  overdueCount: number;
+  averageBestScore: number | null;
+}
+
+export interface DashboardStudentDto extends ClassroomMemberDto {
+  completedCount: number;
+  overdueCount: number;
+  progress: Array<AssignmentProgressDto & { assignmentId: string; lessonId: string }>;
+  recentSubmissions: RecentSubmissionDto[];
+}
+
+// Teacher dashboard
+export interface ClassroomDashboardDto {
+  classroom: ClassroomDto;
+  assignments: DashboardAssignmentDto[];
+  students: DashboardStudentDto[];
+}
+
+const description = z.string().trim().max(500).nullable().optional();
+
+export const createClassroomSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description,
+});
+
+export const updateClassroomSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description,
+}).refine(data => Object.keys(data).length > 0, {
+  message: 'At least one field must be provided for update',
+});
+
+export const joinClassroomSchema = z.object({
+  joinCode: z.string().trim().min(1, 'Join code is required').max(20).transform(code => code.toUpperCase()),
+});
+
+const dueAt = z.string().datetime({ offset: true }).nullable();
+
+export const createAssignmentSchema = z.object({
+  lessonId: z.string().min(1, 'Lesson is required'),
+  dueAt: dueAt.optional(),
+});
+
+export const updateAssignmentSchema = z.object({
+  dueAt,
+});
+
+export type CreateClassroomRequest = z.infer<typeof createClassroomSchema>;
+export type UpdateClassroomRequest = z.infer<typeof updateClassroomSchema>;
+export type JoinClassroomRequest = z.infer<typeof joinClassroomSchema>;
+export type CreateAssignmentRequest = z.infer<typeof createAssignmentSchema>;
+export type UpdateAssignmentRequest = z.infer<typeof updateAssignmentSchema>;
+
+/**
+ * Transform a classroom for a user taking part in it; only the teacher sees the join code
+ */
+export function transformClassroomToDto(classroom: ClassroomWithCounts, role: ClassroomRole): ClassroomDto {
+  return {
+    id: classroom.id,
+    name: classroom.name,
+    description: classroom.description,
+    teacher: classroom.teacher,
+    role,
+    joinCode: role === 'teacher' ? classroom.joinCode : null,
+    memberCount: classroom._count.members,
+    assignmentCount: classroom._count.assignments,
+    createdAt: classroom.createdAt,
+  };
+}
+
+export function transformAssignmentToDto(assignment: AssignmentWithLesson): ClassroomAssignmentDto {
+  return {
+    id: assignment.id,
+    lessonId: assignment.lessonId,
+    lessonTitle: assignment.lesson.title,
+    difficulty: assignment.lesson.difficulty,
+    xpReward: assignment.lesson.xpReward,
+    dueAt: assignment.dueAt,
+    createdAt: assignment.createdAt,
+  };
+}
+
+export function transformMemberToDto(member: MemberWithUser): ClassroomMemberDto {
+  return {
+    userId: member.userId,
+    displayName: member.user.displayName,
+    username: member.user.username,
+    avatar: member.user.avatar,
+    joinedAt: member.joinedAt,
+  };
+}
+
+/**
+ * Where a student stands on an assignment at a given time
+ */
+export function toAssignmentProgress(
+  assignment: Pick<AssignmentWithLesson, 'dueAt'>,
+  progress: UserProgress | undefined,
+  now: Date
+): AssignmentProgressDto {
+  const completedAt = progress?.isCompleted ? progress.completionDate : null;
+  const dueAt = assignment.dueAt;
+
+  let status: AssignmentStatus;
+  if (progress?.isCompleted) {
+    status = 'completed';
+  } else if (dueAt && dueAt < now) {
+    status = 'overdue';
+  } else if (progress && progress.attemptsCount > 0) {
+    status = 'in_progress';
+  } else {
+    status = 'not_started';
+  }
+
+  return {
+    status,
+    bestScore: progress && progress.attemptsCount > 0 ? progress.bestScore : null,
+    attemptsCount: progress?.attemptsCount ?? 0,
+    completedAt,
+    lastAttemptAt: progress && progress.attemptsCount > 0 ? progress.lastAttemptAt : null,
+    isLate: Boolean(dueAt && completedAt && completedAt > dueAt),
+  };
+}
+
+export function transformSubmissionToDto(attempt: Attempt, lessonTitle: string): RecentSubmissionDto {
+  return {
+    attemptId: attempt.attemptId,
+    lessonId: attempt.lessonId,
+    lessonTitle,
+    score: attempt.score,
+    isCorrect: attempt.isCorrect,
+    xpEarned: attempt.xpEarned,
+    timeSpent: attempt.timeSpent,
+    submittedAt: attempt.submittedAt,
+  };
+}
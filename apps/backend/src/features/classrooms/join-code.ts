@@ -0,0 +1,21 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Join Codes
+ * Short codes a teacher reads out or writes on the board, so they leave out
+ * characters that are easy to confuse (0/O, 1/I/L).
+ */
+
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 8;
+
+/**
+ * Random join code; uniqueness is checked by the caller
+ */
+export function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
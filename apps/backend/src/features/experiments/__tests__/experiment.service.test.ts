@@ -0,0 +1,215 @@
+/**
+ * ExperimentService Unit Tests
+ * Tests for deterministic bucketing, experiment lifecycle and conversion reports
+ */
+
+const mockExperimentRepository = {
+  findAll: jest.fn(),
+  findByKey: jest.fn(),
+  findRunning: jest.fn(),
+  create: jest.fn(),
+  transition: jest.fn(),
+  recordExposures: jest.fn(),
+  recordOutcome: jest.fn(),
+  countByVariant: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/experiment.repository', () => ({
+  ExperimentRepository: mockExperimentRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { ExperimentService } from '../experiment.service';
+import { assignVariant, bucketOf, BUCKET_COUNT } from '../bucketing';
+
+const experiment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'experiment-1',
+  key: 'strategy-test',
+  description: null,
+  status: 'running',
+  startedAt: new Date('2024-01-15T10:00:00Z'),
+  stoppedAt: null,
+  createdAt: new Date('2024-01-14T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  variants: [
+    { id: 'variant-1', experimentId: 'experiment-1', name: 'control', strategy: 'weighted', weight: 50 },
+    { id: 'variant-2', experimentId: 'experiment-1', name: 'treatment', strategy: 'mastery_first', weight: 50 },
+  ],
+  ...overrides,
+});
+
+describe('bucketing', () => {
+  const variants = [
+    { name: 'control', weight: 75 },
+    { name: 'treatment', weight: 25 },
+  ];
+
+  it('should bucket a learner the same way every time, independently per experiment', () => {
+    expect(bucketOf('strategy-test', 'user-1')).toBe(bucketOf('strategy-test', 'user-1'));
+    expect(bucketOf('strategy-test', 'user-1')).toBeGreaterThanOrEqual(0);
+    expect(bucketOf('strategy-test', 'user-1')).toBeLessThan(BUCKET_COUNT);
+
+    const users = Array.from({ length: 50 }, (_, i) => `user-${i}`);
+    const sameBucket = users.filter(userId => bucketOf('strategy-test', userId) === bucketOf('other-test', userId));
+    expect(sameBucket.length).toBeLessThan(5);
+  });
+
+  it('should split learners in proportion to the variant weights', () => {
+    const counts = { control: 0, treatment: 0 };
+    for (let i = 0; i < 2000; i++) {
+      counts[assignVariant('strategy-test', `user-${i}`, variants)!.name as keyof typeof counts]++;
+    }
+
+    expect(counts.control / 2000).toBeCloseTo(0.75, 1);
+    expect(counts.treatment / 2000).toBeCloseTo(0.25, 1);
+  });
+
+  it('should never assign a variant without weight', () => {
+    const zeroWeight = [{ name: 'control', weight: 0 }, { name: 'treatment', weight: 10 }];
+
+    for (let i = 0; i < 100; i++) {
+      expect(assignVariant('strategy-test', `user-${i}`, zeroWeight)!.name).toBe('treatment');
+    }
+    expect(assignVariant('strategy-test', 'user-1', [{ name: 'control', weight: 0 }])).toBeNull();
+  });
+});
+
+describe('ExperimentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assign', () => {
+    it('should assign the learner\'s variant of the running experiment', async () => {
+      mockExperimentRepository.findRunning.mockResolvedValue(experiment());
+
+      const assignment = await ExperimentService.assign('user-1');
+      const expected = assignVariant('strategy-test', 'user-1', experiment().variants)!;
+
+      expect(assignment).toEqual({
+        experimentId: 'experiment-1',
+        key: 'strategy-test',
+        variant: expected.name,
+        strategy: expected.strategy,
+      });
+    });
+
+    it('should return null when no experiment is running', async () => {
+      mockExperimentRepository.findRunning.mockResolvedValue(null);
+
+      await expect(ExperimentService.assign('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('recordExposure', () => {
+    it('should skip logging when no lessons were recommended', async () => {
+      const assignment = { experimentId: 'experiment-1', key: 'strategy-test', variant: 'control', strategy: 'weighted' };
+
+      await ExperimentService.recordExposure(assignment, 'user-1', []);
+      await ExperimentService.recordExposure(assignment, 'user-1', ['lesson-1']);
+
+      expect(mockExperimentRepository.recordExposures).toHaveBeenCalledTimes(1);
+      expect(mockExperimentRepository.recordExposures).toHaveBeenCalledWith(
+        'experiment-1',
+        'user-1',
+        'control',
+        ['lesson-1'],
+        expect.any(Date)
+      );
+    });
+  });
+
+  describe('createExperiment', () => {
+    it('should reject a key that is already taken', async () => {
+      mockExperimentRepository.findByKey.mockResolvedValue(experiment());
+
+      await expect(ExperimentService.createExperiment({
+        key: 'strategy-test',
+        variants: [],
+      })).rejects.toThrow('Experiment already exists: strategy-test');
+      expect(mockExperimentRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startExperiment', () => {
+    it('should start a draft experiment', async () => {
+      const draft = experiment({ status: 'draft', startedAt: null });
+      mockExperimentRepository.findByKey.mockResolvedValue(draft);
+      mockExperimentRepository.findRunning.mockResolvedValue(null);
+      mockExperimentRepository.transition.mockResolvedValue(experiment());
+
+      const result = await ExperimentService.startExperiment('strategy-test');
+
+      expect(mockExperimentRepository.transition).toHaveBeenCalledWith('experiment-1', 'draft', 'running', expect.any(Date));
+      expect(result.status).toBe('running');
+    });
+
+    it('should refuse while another experiment is running', async () => {
+      mockExperimentRepository.findByKey.mockResolvedValue(experiment({ status: 'draft' }));
+      mockExperimentRepository.findRunning.mockResolvedValue(experiment({ id: 'experiment-0', key: 'older-test' }));
+
+      await expect(ExperimentService.startExperiment('strategy-test'))
+        .rejects.toThrow('Another experiment is already running: older-test');
+      expect(mockExperimentRepository.transition).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restart a stopped experiment', async () => {
+      mockExperimentRepository.findByKey.mockResolvedValue(experiment({ status: 'stopped' }));
+      mockExperimentRepository.findRunning.mockResolvedValue(null);
+      mockExperimentRepository.transition.mockResolvedValue(null);
+
+      await expect(ExperimentService.startExperiment('strategy-test'))
+        .rejects.toThrow('Experiment cannot be started from status stopped');
+    });
+
+    it('should throw when the experiment does not exist', async () => {
+      mockExperimentRepository.findByKey.mockResolvedValue(null);
+
+      await expect(ExperimentService.startExperiment('missing')).rejects.toThrow('Experiment not found');
+    });
+  });
+
+  describe('getReport', () => {
+    it('should report start and completion rates per variant', async () => {
+      mockExperimentRepository.findByKey.mockResolvedValue(experiment());
+      mockExperimentRepository.countByVariant.mockResolvedValue(new Map([
+        ['control', { exposures: 30, users: 10, started: 6, completed: 2 }],
+      ]));
+
+      const report = await ExperimentService.getReport('strategy-test');
+
+      expect(report.experiment.key).toBe('strategy-test');
+      expect(report.variants).toEqual([
+        {
+          name: 'control',
+          strategy: 'weighted',
+          weight: 50,
+          users: 10,
+          exposures: 30,
+          started: 6,
+          completed: 2,
+          startRate: 0.2,
+          completionRate: 0.0667,
+        },
+        {
+          name: 'treatment',
+          strategy: 'mastery_first',
+          weight: 50,
+          users: 0,
+          exposures: 0,
+          started: 0,
+          completed: 0,
+          startRate: 0,
+          completionRate: 0,
+        },
+      ]);
+    });
+  });
+});
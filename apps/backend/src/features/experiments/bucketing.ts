@@ -0,0 +1,50 @@
+import { createHash } from 'crypto';
+
+/**
+ * Bucketing
+ * Learners are split between variants by hashing the experiment key with their
+ * ID, so a learner always lands in the same variant of an experiment (on any
+ * server, without storing assignments) and different experiments split
+ * learners independently.
+ */
+
+export const BUCKET_COUNT = 10000;
+
+export interface WeightedVariant {
+  name: string;
+  weight: number;
+}
+
+/**
+ * Stable bucket in [0, BUCKET_COUNT) for a learner in an experiment
+ */
+export function bucketOf(experimentKey: string, userId: string): number {
+  const digest = createHash('sha256').update(`${experimentKey}:${userId}`).digest();
+  return digest.readUInt32BE(0) % BUCKET_COUNT;
+}
+
+/**
+ * Variant a learner belongs to; each variant gets a share of buckets proportional to its weight
+ * @returns null when no variant has weight
+ */
+export function assignVariant<T extends WeightedVariant>(
+  experimentKey: string,
+  userId: string,
+  variants: T[]
+): T | null {
+  const totalWeight = variants.reduce((sum, variant) => sum + Math.max(0, variant.weight), 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const point = (bucketOf(experimentKey, userId) / BUCKET_COUNT) * totalWeight;
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += Math.max(0, variant.weight);
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+
+  return null;
+}
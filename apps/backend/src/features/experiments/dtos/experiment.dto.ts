@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { ExperimentStatus } from '@prisma/client';
+import { ExperimentWithVariants } from '../../../core/repositories/experiment.repository';
+import { RECOMMENDATION_STRATEGIES } from '../../recommendations/recommendation.strategies';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExperimentVariant:
+ *       type: object
+ *       required:
+ *         - name
+ *         - strategy
+ *         - weight
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "treatment"
+ *         strategy:
+ *           type: string
+ *           enum: [weighted, mastery_first, sequential]
+ *           description: Recommendation strategy served to the variant
+ *           example: "mastery_first"
+ *         weight:
+ *           type: integer
+ *           minimum: 0
+ *           description: Relative share of learners
+ *           example: 50
+ *
+ *     Experiment:
+ *       type: object
+ *       required:
+ *         - id
+ *         - key
+ *         - description
+ *         - status
+ *         - variants
+ *         - startedAt
+ *         - stoppedAt
+ *         - createdAt
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "cmexp0001"
+ *         key:
+ *           type: string
+ *           example: "recommendation-strategy-2025-08"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Mastery-first ordering against the weighted heuristic"
+ *         status:
+ *           type: string
+ *           enum: [draft, running, stopped]
+ *           example: "running"
+ *         variants:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ExperimentVariant'
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         stoppedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     CreateExperimentRequest:
+ *       type: object
+ *       required:
+ *         - key
+ *         - variants
+ *       properties:
+ *         key:
+ *           type: string
+ *           pattern: '^[a-z0-9-]+$'
+ *           example: "recommendation-strategy-2025-08"
+ *         description:
+ *           type: string
+ *           example: "Mastery-first ordering against the weighted heuristic"
+ *         variants:
+ *           type: array
+ *           minItems: 2
+ *           items:
+ *             $ref: '#/components/schemas/ExperimentVariant'
+ *
+ *     VariantReport:
+ *       type: object
+ *       required:
+ *         - name
+ *         - strategy
+ *         - weight
+ *         - users
+ *         - exposures
+ *         - started
+ *         - completed
+ *         - startRate
+ *         - completionRate
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "treatment"
+ *         strategy:
+ *           type: string
+ *           example: "mastery_first"
+ *         weight:
+ *           type: integer
+ *           example: 50
+ *         users:
+ *           type: integer
+ *           description: Learners shown recommendations
+ *           example: 120
+ *         exposures:
+ *           type: integer
+ *           description: Distinct lessons recommended, summed over learners
+ *           example: 480
+ *         started:
+ *           type: integer
+ *           description: Recommended lessons the learner then started
+ *           example: 96
+ *         completed:
+ *           type: integer
+ *           description: Recommended lessons the learner then completed
+ *           example: 60
+ *         startRate:
+ *           type: number
+ *           description: started / exposures
+ *           example: 0.2
+ *         completionRate:
+ *           type: number
+ *           description: completed / exposures
+ *           example: 0.125
+ *
+ *     ExperimentReport:
+ *       type: object
+ *       required:
+ *         - experiment
+ *         - variants
+ *       properties:
+ *         experiment:
+ *           $ref: '#/components/schemas/Experiment'
+ *         variants:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/VariantReport'
+ *
+ *     ExperimentResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/Experiment'
+ *
+ *     ExperimentListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Experiment'
+ *
+ *     ExperimentReportResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ExperimentReport'
+ */
+
+/**
+ * Experiment DTOs and Interfaces
+ */
+
+// Experiment Variant DTO
+export interface ExperimentVariantDto {
+  name: string;
+  strategy: string;
+  weight: number;
+}
+
+// Experiment DTO
+export interface ExperimentDto {
+  id: string;
+  key: string;
+  description: string | null;
+  status: ExperimentStatus;
+  variants: ExperimentVariantDto[];
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  createdAt: Date;
+}
+
+// Variant Report DTO
+export interface VariantReportDto extends ExperimentVariantDto {
+  users: number;
+  exposures: number;
+  started: number;
+  completed: number;
+  startRate: number;
+  completionRate: number;
+}
+
+// Experiment Report DTO
+export interface ExperimentReportDto {
+  experiment: ExperimentDto;
+  variants: VariantReportDto[];
+}
+
+// Variant a learner is bucketed into while an experiment runs
+export interface ExperimentAssignment {
+  experimentId: string;
+  key: string;
+  variant: string;
+  strategy: string;
+}
+
+export const createExperimentSchema = z.object({
+  key: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/, 'Key may only contain lowercase letters, digits and dashes'),
+  description: z.string().max(500).optional(),
+  variants: z.array(z.object({
+    name: z.string().min(1).max(50),
+    strategy: z.enum(RECOMMENDATION_STRATEGIES),
+    weight: z.number().int().min(0),
+  }))
+    .min(2, 'An experiment needs at least two variants')
+    .refine(
+      variants => new Set(variants.map(variant => variant.name)).size === variants.length,
+      'Variant names must be unique'
+    )
+    .refine(variants => variants.some(variant => variant.weight > 0), 'At least one variant needs weight'),
+});
+
+export type CreateExperimentRequest = z.infer<typeof createExperimentSchema>;
+
+/**
+ * Transform functions for DTOs
+ */
+export function transformExperimentToDto(experiment: ExperimentWithVariants): ExperimentDto {
+  return {
+    id: experiment.id,
+    key: experiment.key,
+    description: experiment.description,
+    status: experiment.status,
+    variants: experiment.variants.map(variant => ({
+      name: variant.name,
+      strategy: variant.strategy,
+      weight: variant.weight,
+    })),
+    startedAt: experiment.startedAt,
+    stoppedAt: experiment.stoppedAt,
+    createdAt: experiment.createdAt,
+  };
+}
@@ -0,0 +1,270 @@
+import { Request, Response } from 'express';
+import { ExperimentService } from './experiment.service';
+import { createExperimentSchema } from './dtos/experiment.dto';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+
+/**
+ * @swagger
+ * /api/experiments:
+ *   get:
+ *     summary: List recommendation experiments
+ *     description: Admin. Every A/B experiment with its variants, newest first.
+ *     tags: [Experiments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Experiments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExperimentListResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Create a recommendation experiment
+ *     description: |
+ *       Admin. Creates a draft experiment. Each variant serves a recommendation strategy to a
+ *       share of learners proportional to its weight; learners are bucketed by hashing the
+ *       experiment key with their user ID, so assignments are stable.
+ *     tags: [Experiments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateExperimentRequest'
+ *     responses:
+ *       201:
+ *         description: Experiment created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExperimentResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: An experiment with this key already exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/experiments/{key}/start:
+ *   post:
+ *     summary: Start a draft experiment
+ *     description: Admin. Only one experiment runs at a time.
+ *     tags: [Experiments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Experiment started successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExperimentResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Not a draft, or another experiment is running
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/experiments/{key}/stop:
+ *   post:
+ *     summary: Stop a running experiment
+ *     description: Admin. Learners go back to the default strategy; results stay available.
+ *     tags: [Experiments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Experiment stopped successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExperimentResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The experiment is not running
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/experiments/{key}/report:
+ *   get:
+ *     summary: Get conversion per variant
+ *     description: |
+ *       Admin. For each variant, the lessons recommended to its learners and how many of them
+ *       the learners went on to start (open for an attempt) and complete.
+ *     tags: [Experiments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Experiment report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExperimentReportResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Experiment Controller
+ * Handles HTTP requests for managing recommendation experiments
+ */
+export class ExperimentController {
+  /**
+   * GET /api/experiments
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const experiments = await ExperimentService.listExperiments();
+
+      sendSuccess(res, experiments, 'Experiments retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to list experiments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      sendError(res, 'Failed to retrieve experiments', 500);
+    }
+  }
+
+  /**
+   * POST /api/experiments
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const data = createExperimentSchema.parse(req.body);
+
+      const experiment = await ExperimentService.createExperiment(data);
+
+      sendSuccess(res, experiment, 'Experiment created successfully', 201);
+    } catch (error) {
+      LoggerService.error('Failed to create experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid experiment data', 400);
+      } else if (error instanceof Error && error.message.includes('already exists')) {
+        sendError(res, 'Experiment already exists', 409);
+      } else {
+        sendError(res, 'Failed to create experiment', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/experiments/:key/start
+   */
+  static async start(req: Request, res: Response): Promise<void> {
+    try {
+      const experiment = await ExperimentService.startExperiment(req.params.key);
+
+      sendSuccess(res, experiment, 'Experiment started successfully');
+    } catch (error) {
+      LoggerService.error('Failed to start experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key: req.params.key,
+      });
+      ExperimentController.sendTransitionError(res, error, 'Failed to start experiment');
+    }
+  }
+
+  /**
+   * POST /api/experiments/:key/stop
+   */
+  static async stop(req: Request, res: Response): Promise<void> {
+    try {
+      const experiment = await ExperimentService.stopExperiment(req.params.key);
+
+      sendSuccess(res, experiment, 'Experiment stopped successfully');
+    } catch (error) {
+      LoggerService.error('Failed to stop experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key: req.params.key,
+      });
+      ExperimentController.sendTransitionError(res, error, 'Failed to stop experiment');
+    }
+  }
+
+  /**
+   * GET /api/experiments/:key/report
+   */
+  static async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await ExperimentService.getReport(req.params.key);
+
+      sendSuccess(res, report, 'Experiment report retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get experiment report', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key: req.params.key,
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'Experiment not found', 404);
+      } else {
+        sendError(res, 'Failed to retrieve experiment report', 500);
+      }
+    }
+  }
+
+  private static sendTransitionError(res: Response, error: unknown, fallback: string): void {
+    if (error instanceof Error && error.message.includes('not found')) {
+      sendError(res, 'Experiment not found', 404);
+    } else if (error instanceof Error && (error.message.includes('cannot be') || error.message.includes('already running'))) {
+      sendError(res, error.message, 409);
+    } else {
+      sendError(res, fallback, 500);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ExperimentController } from './experiment.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate, requirePermission } from '../../core/auth';
+
+/**
+ * Experiment Routes
+ * /api/experiments
+ */
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('experiments:manage'));
+
+// GET /api/experiments - List experiments
+router.get('/', asyncHandler(ExperimentController.list));
+
+// POST /api/experiments - Create a draft experiment
+router.post('/', asyncHandler(ExperimentController.create));
+
+// POST /api/experiments/:key/start - Start a draft experiment
+router.post('/:key/start', asyncHandler(ExperimentController.start));
+
+// POST /api/experiments/:key/stop - Stop a running experiment
+router.post('/:key/stop', asyncHandler(ExperimentController.stop));
+
+// GET /api/experiments/:key/report - Get conversion per variant
+router.get('/:key/report', asyncHandler(ExperimentController.getReport));
+
+export default router;
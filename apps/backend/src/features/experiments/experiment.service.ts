@@ -0,0 +1,206 @@
+import { ExperimentEvent } from '@prisma/client';
+import { ExperimentRepository } from '../../core/repositories/experiment.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { assignVariant } from './bucketing';
+import {
+  CreateExperimentRequest,
+  ExperimentAssignment,
+  ExperimentDto,
+  ExperimentReportDto,
+  transformExperimentToDto,
+} from './dtos/experiment.dto';
+
+const rate = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+
+/**
+ * Experiment Service
+ * Business logic for recommendation A/B experiments: bucketing, exposure and outcome logging, reports
+ */
+export class ExperimentService {
+  /**
+   * Get the variant of the running experiment a learner is bucketed into
+   * @returns null when no experiment is running
+   */
+  static async assign(userId: string): Promise<ExperimentAssignment | null> {
+    const experiment = await ExperimentRepository.findRunning();
+    if (!experiment) {
+      return null;
+    }
+
+    const variant = assignVariant(experiment.key, userId, experiment.variants);
+    if (!variant) {
+      return null;
+    }
+
+    return {
+      experimentId: experiment.id,
+      key: experiment.key,
+      variant: variant.name,
+      strategy: variant.strategy,
+    };
+  }
+
+  /**
+   * Log the lessons a learner was recommended under their variant
+   */
+  static async recordExposure(assignment: ExperimentAssignment, userId: string, lessonIds: string[]): Promise<void> {
+    if (lessonIds.length === 0) {
+      return;
+    }
+
+    await ExperimentRepository.recordExposures(
+      assignment.experimentId,
+      userId,
+      assignment.variant,
+      lessonIds,
+      new Date()
+    );
+  }
+
+  /**
+   * Log that a learner started or completed a lesson; counts only for experiments that recommended it
+   */
+  static async recordOutcome(userId: string, lessonId: string, event: ExperimentEvent): Promise<void> {
+    await ExperimentRepository.recordOutcome(userId, lessonId, event, new Date());
+  }
+
+  static async listExperiments(): Promise<ExperimentDto[]> {
+    LoggerService.logService('ExperimentService', 'listExperiments()', true);
+
+    try {
+      const experiments = await ExperimentRepository.findAll();
+      return experiments.map(transformExperimentToDto);
+    } catch (error) {
+      LoggerService.error('Failed to list experiments', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create an experiment as a draft
+   */
+  static async createExperiment(data: CreateExperimentRequest): Promise<ExperimentDto> {
+    LoggerService.logService('ExperimentService', `createExperiment(${data.key})`, true);
+
+    try {
+      if (await ExperimentRepository.findByKey(data.key)) {
+        throw new Error(`Experiment already exists: ${data.key}`);
+      }
+
+      const experiment = await ExperimentRepository.create(data);
+      return transformExperimentToDto(experiment);
+    } catch (error) {
+      LoggerService.error('Failed to create experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key: data.key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start a draft experiment; only one experiment runs at a time
+   */
+  static async startExperiment(key: string): Promise<ExperimentDto> {
+    LoggerService.logService('ExperimentService', `startExperiment(${key})`, true);
+
+    try {
+      const experiment = await ExperimentRepository.findByKey(key);
+      if (!experiment) {
+        throw new Error('Experiment not found');
+      }
+
+      const running = await ExperimentRepository.findRunning();
+      if (running && running.id !== experiment.id) {
+        throw new Error(`Another experiment is already running: ${running.key}`);
+      }
+
+      const started = await ExperimentRepository.transition(experiment.id, 'draft', 'running', new Date());
+      if (!started) {
+        throw new Error(`Experiment cannot be started from status ${experiment.status}`);
+      }
+
+      LoggerService.info('Experiment started', { key });
+      return transformExperimentToDto(started);
+    } catch (error) {
+      LoggerService.error('Failed to start experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a running experiment; everyone goes back to the default strategy
+   */
+  static async stopExperiment(key: string): Promise<ExperimentDto> {
+    LoggerService.logService('ExperimentService', `stopExperiment(${key})`, true);
+
+    try {
+      const experiment = await ExperimentRepository.findByKey(key);
+      if (!experiment) {
+        throw new Error('Experiment not found');
+      }
+
+      const stopped = await ExperimentRepository.transition(experiment.id, 'running', 'stopped', new Date());
+      if (!stopped) {
+        throw new Error(`Experiment cannot be stopped from status ${experiment.status}`);
+      }
+
+      LoggerService.info('Experiment stopped', { key });
+      return transformExperimentToDto(stopped);
+    } catch (error) {
+      LoggerService.error('Failed to stop experiment', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Conversion per variant: how many recommended lessons were then started and completed
+   */
+  static async getReport(key: string): Promise<ExperimentReportDto> {
+    LoggerService.logService('ExperimentService', `getReport(${key})`, true);
+
+    try {
+      const experiment = await ExperimentRepository.findByKey(key);
+      if (!experiment) {
+        throw new Error('Experiment not found');
+      }
+
+      const counts = await ExperimentRepository.countByVariant(experiment.id);
+
+      return {
+        experiment: transformExperimentToDto(experiment),
+        variants: experiment.variants.map(variant => {
+          const { users, exposures, started, completed } = counts.get(variant.name)
+            ?? { users: 0, exposures: 0, started: 0, completed: 0 };
+
+          return {
+            name: variant.name,
+            strategy: variant.strategy,
+            weight: variant.weight,
+            users,
+            exposures,
+            started,
+            completed,
+            startRate: rate(started, exposures),
+            completionRate: rate(completed, exposures),
+          };
+        }),
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get experiment report', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        key,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * GradebookService Unit Tests
+ * Tests for who may export which students and the streamed CSV/XLSX gradebook
+ */
+
+const mockClassroomRepository = {
+  findById: jest.fn(),
+  findMembers: jest.fn(),
+};
+
+const mockGradebookRepository = {
+  findStudents: jest.fn(),
+  findTaughtStudentIds: jest.fn(),
+  findProgress: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/classroom.repository', () => ({
+  ClassroomRepository: mockClassroomRepository,
+}));
+
+jest.mock('../../../core/repositories/gradebook.repository', () => ({
+  GradebookRepository: mockGradebookRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { PassThrough } from 'stream';
+import { EXPORT_BATCH_SIZE, GradebookService } from '../gradebook.service';
+import { GradebookExportQuery, gradebookExportQuerySchema } from '../dtos/gradebook.dto';
+
+const teacher = { id: 'teacher-1', email: 'teacher@example.com', role: 'teacher' as const };
+const admin = { id: 'admin-1', email: 'admin@example.com', role: 'admin' as const };
+
+const query = (overrides: Record<string, string> = {}): GradebookExportQuery =>
+  gradebookExportQuerySchema.parse({ classroomId: 'class-1', ...overrides });
+
+const student = (id: string, displayName: string | null = `Student ${id}`) => ({
+  id,
+  displayName,
+  username: `user${id}`,
+});
+
+const progress = (userId: string, overrides: Record<string, unknown> = {}) => ({
+  id: `progress-${userId}`,
+  userId,
+  lessonId: 'lesson-1',
+  isCompleted: true,
+  completionDate: new Date('2025-09-10T17:20:00Z'),
+  score: 75,
+  bestScore: 87.5,
+  attemptsCount: 2,
+  totalXpEarned: 60,
+  startedAt: new Date('2025-09-09T10:00:00Z'),
+  lastAttemptAt: new Date('2025-09-10T17:20:00Z'),
+  createdAt: new Date('2025-09-09T10:00:00Z'),
+  updatedAt: new Date('2025-09-10T17:20:00Z'),
+  lesson: { id: 'lesson-1', title: 'Basic Arithmetic', order: 1 },
+  ...overrides,
+});
+
+async function exportText(students: ReturnType<typeof student>[], exportQuery: GradebookExportQuery) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(Buffer.from(chunk)));
+
+  await GradebookService.writeGradebook(students, exportQuery, output);
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+describe('GradebookService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClassroomRepository.findById.mockResolvedValue({ id: 'class-1', teacherId: 'teacher-1' });
+    mockClassroomRepository.findMembers.mockResolvedValue([{ userId: '1' }, { userId: '2' }]);
+    mockGradebookRepository.findStudents.mockImplementation(async (ids: string[]) => ids.map(id => student(id)));
+    mockGradebookRepository.findProgress.mockResolvedValue([]);
+  });
+
+  describe('export query', () => {
+    it('should default to English CSV in UTC', () => {
+      expect(query()).toMatchObject({ format: 'csv', language: 'en', timezone: 'UTC' });
+    });
+
+    it('should split and de-duplicate user IDs', () => {
+      expect(query({ userIds: '1, 2,,1' }).userIds).toEqual(['1', '2']);
+    });
+
+    it('should require a classroom or user IDs', () => {
+      expect(gradebookExportQuerySchema.safeParse({}).success).toBe(false);
+    });
+
+    it('should reject unknown languages and timezones', () => {
+      expect(gradebookExportQuerySchema.safeParse({ classroomId: 'class-1', language: 'fr' }).success).toBe(false);
+      expect(gradebookExportQuerySchema.safeParse({ classroomId: 'class-1', timezone: 'Mars/Base' }).success).toBe(false);
+    });
+  });
+
+  describe('findStudents', () => {
+    it('should export every student of a classroom the teacher teaches', async () => {
+      const students = await GradebookService.findStudents(teacher, query());
+
+      expect(students.map(s => s.id)).toEqual(['1', '2']);
+      expect(mockGradebookRepository.findStudents).toHaveBeenCalledWith(['1', '2']);
+    });
+
+    it('should narrow a classroom export to the chosen students', async () => {
+      const students = await GradebookService.findStudents(teacher, query({ userIds: '2' }));
+
+      expect(students.map(s => s.id)).toEqual(['2']);
+    });
+
+    it('should hide classrooms taught by someone else', async () => {
+      mockClassroomRepository.findById.mockResolvedValue({ id: 'class-1', teacherId: 'teacher-2' });
+
+      await expect(GradebookService.findStudents(teacher, query())).rejects.toThrow('Classroom not found');
+    });
+
+    it('should reject chosen students outside the classroom', async () => {
+      await expect(GradebookService.findStudents(teacher, query({ userIds: '1,3' }))).rejects.toThrow(
+        'Student not found in this classroom'
+      );
+    });
+
+    it('should let teachers export students from any of their classrooms', async () => {
+      mockGradebookRepository.findTaughtStudentIds.mockResolvedValue(['1', '3']);
+
+      const students = await GradebookService.findStudents(
+        teacher,
+        gradebookExportQuerySchema.parse({ userIds: '1,3' })
+      );
+
+      expect(students.map(s => s.id)).toEqual(['1', '3']);
+      expect(mockGradebookRepository.findTaughtStudentIds).toHaveBeenCalledWith('teacher-1', ['1', '3']);
+    });
+
+    it('should reject students the teacher does not teach', async () => {
+      mockGradebookRepository.findTaughtStudentIds.mockResolvedValue(['1']);
+
+      await expect(
+        GradebookService.findStudents(teacher, gradebookExportQuerySchema.parse({ userIds: '1,3' }))
+      ).rejects.toThrow('Student not found in your classrooms');
+    });
+
+    it('should let admins export any users', async () => {
+      const students = await GradebookService.findStudents(admin, gradebookExportQuerySchema.parse({ userIds: '7' }));
+
+      expect(students.map(s => s.id)).toEqual(['7']);
+      expect(mockGradebookRepository.findTaughtStudentIds).not.toHaveBeenCalled();
+    });
+
+    it('should reject user IDs that do not exist', async () => {
+      mockGradebookRepository.findStudents.mockResolvedValue([]);
+
+      await expect(
+        GradebookService.findStudents(admin, gradebookExportQuerySchema.parse({ userIds: '7' }))
+      ).rejects.toThrow('Student not found');
+    });
+  });
+
+  describe('writeGradebook', () => {
+    it('should write one CSV row per student and lesson', async () => {
+      mockGradebookRepository.findProgress.mockResolvedValue([
+        progress('1'),
+        progress('2', { isCompleted: false, completionDate: null, bestScore: 40, score: 40, attemptsCount: 1 }),
+      ]);
+
+      const csv = (await exportText([student('1'), student('2')], query())).toString('utf8');
+
+      expect(csv.split('\r\n')).toEqual([
+        '\uFEFFStudent,Username,Lesson,Best score,Last score,Attempts,XP earned,Completed,Completion date,Last attempt',
+        'Student 1,user1,Basic Arithmetic,87.5,75,2,60,Yes,09/10/2025,09/10/2025',
+        'Student 2,user2,Basic Arithmetic,40,40,1,60,No,,09/10/2025',
+        '',
+      ]);
+    });
+
+    it('should format Indonesian headers, numbers and dates in the chosen timezone', async () => {
+      mockGradebookRepository.findProgress.mockResolvedValue([progress('1')]);
+
+      const csv = (
+        await exportText([student('1')], query({ language: 'id', timezone: 'Asia/Jakarta' }))
+      ).toString('utf8');
+
+      const [header, row] = csv.split('\r\n');
+      expect(header).toContain('Siswa;Nama pengguna;Pelajaran;Skor terbaik');
+      expect(row).toBe('Student 1;user1;Basic Arithmetic;87,5;75;2;60;Ya;11/09/2025;11/09/2025');
+    });
+
+    it('should fall back to the username for students without a display name', async () => {
+      mockGradebookRepository.findProgress.mockResolvedValue([progress('1')]);
+
+      const csv = (await exportText([student('1', null)], query())).toString('utf8');
+
+      expect(csv.split('\r\n')[1]).toMatch(/^user1,user1,/);
+    });
+
+    it('should read progress in student batches', async () => {
+      const students = Array.from({ length: EXPORT_BATCH_SIZE + 1 }, (_, index) => student(String(index)));
+
+      await exportText(students, query());
+
+      expect(mockGradebookRepository.findProgress).toHaveBeenCalledTimes(2);
+      expect(mockGradebookRepository.findProgress.mock.calls[1][0]).toEqual([String(EXPORT_BATCH_SIZE)]);
+    });
+
+    it('should write an XLSX workbook', async () => {
+      mockGradebookRepository.findProgress.mockResolvedValue([progress('1')]);
+
+      const workbook = await exportText([student('1')], query({ format: 'xlsx' }));
+
+      // ZIP local file header, and the end of central directory record last
+      expect(workbook.readUInt32LE(0)).toBe(0x04034b50);
+      expect(workbook.readUInt32LE(workbook.length - 22)).toBe(0x06054b50);
+    });
+  });
+});
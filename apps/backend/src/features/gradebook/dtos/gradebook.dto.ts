@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../../../core/streaks';
+import {
+  CellValue,
+  SPREADSHEET_LANGUAGES,
+  SpreadsheetColumn,
+  SpreadsheetLanguage,
+} from '../../../core/export';
+import { GradebookProgress, GradebookStudent } from '../../../core/repositories/gradebook.repository';
+
+/**
+ * Gradebook DTOs and Interfaces
+ * The export is a file rather than JSON, so only the query is validated here
+ */
+
+// Most students one export may name
+export const MAX_EXPORT_STUDENTS = 1000;
+
+const userIdList = z
+  .string()
+  .transform(value => [...new Set(value.split(',').map(id => id.trim()).filter(Boolean))])
+  .refine(ids => ids.length > 0, 'At least one user ID is required')
+  .refine(ids => ids.length <= MAX_EXPORT_STUDENTS, `At most ${MAX_EXPORT_STUDENTS} users can be exported at once`);
+
+// Students come from a classroom, a list of user IDs, or the given users within a classroom
+export const gradebookExportQuerySchema = z
+  .object({
+    format: z.enum(['csv', 'xlsx']).default('csv'),
+    language: z.enum(SPREADSHEET_LANGUAGES).default('en'),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').default('UTC'),
+    classroomId: z.string().min(1).optional(),
+    userIds: userIdList.optional(),
+  })
+  .refine(query => query.classroomId !== undefined || query.userIds !== undefined, {
+    message: 'Either classroomId or userIds is required',
+  });
+
+export type GradebookExportQuery = z.infer<typeof gradebookExportQuerySchema>;
+
+/**
+ * Column headers per language; one row per student and lesson they have progress on
+ */
+const GRADEBOOK_HEADERS: Record<SpreadsheetLanguage, string[]> = {
+  en: ['Student', 'Username', 'Lesson', 'Best score', 'Last score', 'Attempts', 'XP earned', 'Completed', 'Completion date', 'Last attempt'],
+  id: ['Siswa', 'Nama pengguna', 'Pelajaran', 'Skor terbaik', 'Skor terakhir', 'Percobaan', 'XP diperoleh', 'Selesai', 'Tanggal selesai', 'Percobaan terakhir'],
+};
+
+const GRADEBOOK_COLUMN_TYPES: Omit<SpreadsheetColumn, 'header'>[] = [
+  { type: 'string' },
+  { type: 'string' },
+  { type: 'string' },
+  { type: 'number', decimals: 1 },
+  { type: 'number', decimals: 1 },
+  { type: 'number' },
+  { type: 'number' },
+  { type: 'boolean' },
+  { type: 'date' },
+  { type: 'date' },
+];
+
+export const GRADEBOOK_SHEET_NAMES: Record<SpreadsheetLanguage, string> = {
+  en: 'Gradebook',
+  id: 'Buku nilai',
+};
+
+export function gradebookColumns(language: SpreadsheetLanguage): SpreadsheetColumn[] {
+  return GRADEBOOK_COLUMN_TYPES.map((column, index) => ({ ...column, header: GRADEBOOK_HEADERS[language][index] }));
+}
+
+/**
+ * One gradebook row; lessons never attempted have no progress and are left out
+ */
+export function toGradebookRow(student: GradebookStudent, progress: GradebookProgress): CellValue[] {
+  return [
+    student.displayName ?? student.username ?? student.id,
+    student.username,
+    progress.lesson.title,
+    progress.bestScore,
+    progress.score,
+    progress.attemptsCount,
+    progress.totalXpEarned,
+    progress.isCompleted,
+    progress.isCompleted ? progress.completionDate : null,
+    progress.attemptsCount > 0 ? progress.lastAttemptAt : null,
+  ];
+}
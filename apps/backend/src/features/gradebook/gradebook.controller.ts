@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { GradebookService } from './gradebook.service';
+import { gradebookExportQuerySchema } from './dtos/gradebook.dto';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendError } from '../../core/middleware';
+import { SPREADSHEET_CONTENT_TYPES } from '../../core/export';
+import { localDate } from '../../core/streaks';
+import { GradebookStudent } from '../../core/repositories/gradebook.repository';
+
+/**
+ * @swagger
+ * /api/gradebook/export:
+ *   get:
+ *     summary: Export a gradebook
+ *     description: |
+ *       Teacher or admin. One row per student and lesson they have progress on: best and last
+ *       score, attempts, XP earned, completion and dates. Students come from `classroomId`, from
+ *       `userIds`, or from `userIds` within `classroomId`. Teachers can only export students of
+ *       classrooms they teach; anyone else receives 404.
+ *
+ *       The file is streamed as it is written. Numbers, dates and yes/no follow `language`:
+ *       Indonesian CSV uses `;` between fields and `,` as the decimal separator. Dates are
+ *       calendar days in `timezone`.
+ *     tags: [Gradebook]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, id]
+ *           default: en
+ *         description: Language of headers, numbers, dates and yes/no
+ *       - in: query
+ *         name: timezone
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: IANA timezone dates are shown in
+ *       - in: query
+ *         name: classroomId
+ *         schema:
+ *           type: string
+ *         description: Export the classroom's students
+ *       - in: query
+ *         name: userIds
+ *         schema:
+ *           type: string
+ *         description: Comma-separated user IDs (at most 1000)
+ *         example: "1,2,3"
+ *     responses:
+ *       200:
+ *         description: Gradebook file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Gradebook Controller
+ * Handles HTTP requests for gradebook exports
+ */
+export class GradebookController {
+  /**
+   * GET /api/gradebook/export
+   */
+  static async exportGradebook(req: Request, res: Response): Promise<void> {
+    const parsed = gradebookExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      sendError(res, parsed.error.issues[0]?.message ?? 'Invalid query parameters', 400);
+      return;
+    }
+    const query = parsed.data;
+
+    let students: GradebookStudent[];
+    try {
+      students = await GradebookService.findStudents(req.user!, query);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('not found')) {
+        sendError(res, message, 404);
+      } else {
+        sendError(res, 'Failed to export gradebook', 500);
+      }
+      return;
+    }
+
+    const filename = `gradebook-${localDate(new Date(), query.timezone)}.${query.format}`;
+    res.status(200);
+    res.setHeader('Content-Type', SPREADSHEET_CONTENT_TYPES[query.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    try {
+      await GradebookService.writeGradebook(students, query, res);
+      res.end();
+    } catch (error) {
+      // Headers are gone; cutting the connection tells the client the file is incomplete
+      LoggerService.error('Gradebook export aborted', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+}
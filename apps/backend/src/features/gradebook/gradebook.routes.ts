@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { GradebookController } from './gradebook.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate, requirePermission } from '../../core/auth';
+
+/**
+ * Gradebook Routes
+ * /api/gradebook
+ *
+ * Exports need `classrooms:manage`; the service narrows teachers to their own students.
+ */
+const router = Router();
+
+router.use(authenticate, requirePermission('classrooms:manage'));
+
+// GET /api/gradebook/export - Download student progress as CSV or XLSX
+router.get('/export', asyncHandler(GradebookController.exportGradebook));
+
+export default router;
@@ -0,0 +1,128 @@
+import { Writable } from 'stream';
+import { AuthenticatedUser } from '../../core/auth';
+import { CsvWriter, SpreadsheetOptions, SpreadsheetWriter, XlsxWriter } from '../../core/export';
+import { ClassroomRepository } from '../../core/repositories/classroom.repository';
+import { GradebookProgress, GradebookRepository, GradebookStudent } from '../../core/repositories/gradebook.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import {
+  GRADEBOOK_SHEET_NAMES,
+  GradebookExportQuery,
+  gradebookColumns,
+  toGradebookRow,
+} from './dtos/gradebook.dto';
+
+// Students whose progress is read and written per batch, keeping memory flat for large classes
+export const EXPORT_BATCH_SIZE = 100;
+
+/**
+ * Gradebook Service
+ * Exports per-student, per-lesson progress as CSV or XLSX, streamed in student batches
+ */
+export class GradebookService {
+  /**
+   * Resolve the students an export covers and check the user may see them
+   * Teachers may export students of classrooms they teach; admins anyone. Runs before
+   * anything is streamed so failures can still be sent as JSON errors.
+   */
+  static async findStudents(user: AuthenticatedUser, query: GradebookExportQuery): Promise<GradebookStudent[]> {
+    LoggerService.logService('GradebookService', `findStudents(${user.id})`, true);
+
+    try {
+      let studentIds: string[];
+
+      if (query.classroomId) {
+        const classroom = await ClassroomRepository.findById(query.classroomId);
+        if (!classroom || (classroom.teacherId !== user.id && user.role !== 'admin')) {
+          throw new Error('Classroom not found');
+        }
+
+        const memberIds = (await ClassroomRepository.findMembers(query.classroomId)).map(member => member.userId);
+        if (query.userIds) {
+          const members = new Set(memberIds);
+          if (query.userIds.some(id => !members.has(id))) {
+            throw new Error('Student not found in this classroom');
+          }
+          studentIds = query.userIds;
+        } else {
+          studentIds = memberIds;
+        }
+      } else {
+        studentIds = query.userIds ?? [];
+        if (user.role !== 'admin') {
+          const taught = new Set(await GradebookRepository.findTaughtStudentIds(user.id, studentIds));
+          if (studentIds.some(id => !taught.has(id))) {
+            throw new Error('Student not found in your classrooms');
+          }
+        }
+      }
+
+      if (studentIds.length === 0) {
+        return [];
+      }
+
+      const students = await GradebookRepository.findStudents(studentIds);
+      if (students.length < studentIds.length) {
+        throw new Error('Student not found');
+      }
+      return students;
+    } catch (error) {
+      LoggerService.error('Failed to resolve gradebook students', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+        classroomId: query.classroomId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Write the gradebook to the output; the output stream is left open for the caller to end
+   */
+  static async writeGradebook(
+    students: GradebookStudent[],
+    query: GradebookExportQuery,
+    output: Writable
+  ): Promise<void> {
+    LoggerService.logService('GradebookService', `writeGradebook(${students.length} students, ${query.format})`, true);
+
+    const options: SpreadsheetOptions = {
+      language: query.language,
+      timeZone: query.timezone,
+      sheetName: GRADEBOOK_SHEET_NAMES[query.language],
+      columns: gradebookColumns(query.language),
+    };
+
+    try {
+      const writer: SpreadsheetWriter = query.format === 'xlsx'
+        ? await XlsxWriter.start(output, options)
+        : await CsvWriter.start(output, options);
+
+      for (let start = 0; start < students.length; start += EXPORT_BATCH_SIZE) {
+        const batch = students.slice(start, start + EXPORT_BATCH_SIZE);
+        const progress = await GradebookRepository.findProgress(batch.map(student => student.id));
+
+        const progressByStudent = new Map<string, GradebookProgress[]>();
+        for (const entry of progress) {
+          const entries = progressByStudent.get(entry.userId) ?? [];
+          entries.push(entry);
+          progressByStudent.set(entry.userId, entries);
+        }
+
+        await writer.writeRows(
+          batch.flatMap(student =>
+            (progressByStudent.get(student.id) ?? []).map(entry => toGradebookRow(student, entry))
+          )
+        );
+      }
+
+      await writer.finish();
+    } catch (error) {
+      LoggerService.error('Failed to write gradebook', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        students: students.length,
+        format: query.format,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import request from 'supertest';
+import express from 'express';
+import { LeaderboardController } from '../leaderboard.controller';
+import { LeaderboardService } from '../leaderboard.service';
+
+// Mock LeaderboardService
+jest.mock('../leaderboard.service');
+const MockedLeaderboardService = LeaderboardService as jest.Mocked<typeof LeaderboardService>;
+
+// Mock LoggerService
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+// Mock middleware
+jest.mock('../../../core/middleware', () => ({
+  sendSuccess: jest.fn((res, data, message, status = 200) =>
+    res.status(status).json({ success: true, data, message })
+  ),
+  sendError: jest.fn((res, error, status = 500) =>
+    res.status(status).json({ success: false, error })
+  ),
+}));
+
+const app = express();
+app.use(express.json());
+
+// Simulate the authenticated user populated by the auth middleware
+app.use((req, res, next) => {
+  req.user = { id: '1', email: 'test@example.com', role: 'learner' };
+  next();
+});
+
+// Mount leaderboard routes
+app.get('/leaderboards', LeaderboardController.getCurrent);
+
+describe('LeaderboardController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /leaderboards', () => {
+    it('should return the current leaderboard', async () => {
+      MockedLeaderboardService.getCurrentLeaderboard.mockResolvedValue({
+        league: 'bronze',
+        weekStart: '2024-01-15',
+        weekEnd: '2024-01-21',
+        endsAt: new Date('2024-01-22T00:00:00Z'),
+        joined: true,
+        standings: [
+          { rank: 1, userId: '1', displayName: 'Demo', avatar: null, xp: 40, isCurrentUser: true, zone: 'promotion' },
+        ],
+        lastResult: null,
+      });
+
+      const response = await request(app).get('/leaderboards').expect(200);
+
+      expect(MockedLeaderboardService.getCurrentLeaderboard).toHaveBeenCalledWith('1');
+      expect(response.body.data.endsAt).toBe('2024-01-22T00:00:00.000Z');
+      expect(response.body.data.standings).toHaveLength(1);
+    });
+
+    it('should handle user not found', async () => {
+      MockedLeaderboardService.getCurrentLeaderboard.mockRejectedValue(new Error('User not found'));
+
+      await request(app).get('/leaderboards').expect(404);
+    });
+
+    it('should handle unexpected errors', async () => {
+      MockedLeaderboardService.getCurrentLeaderboard.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app).get('/leaderboards').expect(500);
+
+      expect(response.body.error).toBe('Failed to retrieve leaderboard');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * LeaderboardService Unit Tests
+ * Tests for weekly cohorts, league zones and week rollover
+ */
+
+const mockUserRepository = {
+  findById: jest.fn(),
+};
+
+const mockLeaderboardRepository = {
+  findEntry: jest.fn(),
+  joinCohort: jest.fn(),
+  findMembers: jest.fn(),
+  sumXpByUser: jest.fn(),
+  findUnfinalizedCohorts: jest.fn(),
+  finalizeCohort: jest.fn(),
+  findLatestResult: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/user.repository', () => ({
+  UserRepository: mockUserRepository,
+}));
+
+jest.mock('../../../core/repositories/leaderboard.repository', () => ({
+  LeaderboardRepository: mockLeaderboardRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { LeaderboardService } from '../leaderboard.service';
+import { rankCohort, weekStartOf } from '../leagues';
+
+const member = (userId: string, minute: number) => ({
+  id: `entry-${userId}`,
+  userId,
+  cohortId: 'cohort-1',
+  joinedAt: new Date(`2024-01-15T10:${String(minute).padStart(2, '0')}:00Z`),
+  user: { id: userId, username: userId, displayName: null, firstName: null, avatar: null },
+});
+
+describe('leagues', () => {
+  it('should start weeks on Monday in UTC', () => {
+    expect(weekStartOf(new Date('2024-01-15T00:00:00Z'))).toBe('2024-01-15'); // Monday
+    expect(weekStartOf(new Date('2024-01-21T23:59:59Z'))).toBe('2024-01-15'); // Sunday
+    expect(weekStartOf(new Date('2024-01-01T12:00:00Z'))).toBe('2024-01-01');
+    expect(weekStartOf(new Date('2023-12-31T12:00:00Z'))).toBe('2023-12-25');
+  });
+
+  it('should promote the top 5 with XP and demote the bottom 5', () => {
+    const standings = Array.from({ length: 12 }, (_, i) => ({
+      userId: `user-${i + 1}`,
+      xp: 120 - i * 10,
+      joinedAt: new Date('2024-01-15T10:00:00Z'),
+    }));
+
+    const outcomes = rankCohort('silver', standings).map(s => s.outcome);
+
+    expect(outcomes).toEqual([
+      'promoted', 'promoted', 'promoted', 'promoted', 'promoted',
+      'stayed', 'stayed',
+      'demoted', 'demoted', 'demoted', 'demoted', 'demoted',
+    ]);
+  });
+
+  it('should break ties by join time and keep learners in the edge leagues', () => {
+    const ranked = rankCohort('bronze', [
+      { userId: 'late', xp: 50, joinedAt: new Date('2024-01-16T00:00:00Z') },
+      { userId: 'early', xp: 50, joinedAt: new Date('2024-01-15T00:00:00Z') },
+      { userId: 'idle', xp: 0, joinedAt: new Date('2024-01-15T00:00:00Z') },
+    ]);
+
+    expect(ranked.map(s => [s.userId, s.rank, s.outcome])).toEqual([
+      ['early', 1, 'promoted'],
+      ['late', 2, 'promoted'],
+      ['idle', 3, 'stayed'], // No XP, and nowhere below bronze
+    ]);
+    expect(rankCohort('diamond', [ranked[0]])[0].outcome).toBe('stayed');
+  });
+});
+
+describe('LeaderboardService', () => {
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Wednesday
+    jest.useFakeTimers({ now: new Date('2024-01-17T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getCurrentLeaderboard', () => {
+    it('should rank the cohort by this week\'s XP', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ id: userId, league: 'gold' });
+      mockLeaderboardRepository.findEntry.mockResolvedValue({
+        id: 'entry-user-1',
+        cohortId: 'cohort-1',
+        cohort: { id: 'cohort-1', league: 'gold' },
+      });
+      mockLeaderboardRepository.findLatestResult.mockResolvedValue(null);
+      mockLeaderboardRepository.findMembers.mockResolvedValue([member('user-1', 0), member('user-2', 5)]);
+      mockLeaderboardRepository.sumXpByUser.mockResolvedValue(new Map([['user-2', 80], ['user-1', 30]]));
+
+      // Act
+      const result = await LeaderboardService.getCurrentLeaderboard(userId);
+
+      // Assert
+      expect(mockLeaderboardRepository.findEntry).toHaveBeenCalledWith(userId, new Date('2024-01-15T00:00:00Z'));
+      expect(mockLeaderboardRepository.sumXpByUser).toHaveBeenCalledWith(
+        ['user-1', 'user-2'],
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-22T00:00:00Z')
+      );
+      expect(result).toEqual({
+        league: 'gold',
+        weekStart: '2024-01-15',
+        weekEnd: '2024-01-21',
+        endsAt: new Date('2024-01-22T00:00:00Z'),
+        joined: true,
+        standings: [
+          { rank: 1, userId: 'user-2', displayName: 'user-2', avatar: null, xp: 80, isCurrentUser: false, zone: 'promotion' },
+          { rank: 2, userId: 'user-1', displayName: 'user-1', avatar: null, xp: 30, isCurrentUser: true, zone: 'promotion' },
+        ],
+        lastResult: null,
+      });
+    });
+
+    it('should report the league and last result before the learner joins', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ id: userId, league: 'silver' });
+      mockLeaderboardRepository.findEntry.mockResolvedValue(null);
+      mockLeaderboardRepository.findLatestResult.mockResolvedValue({
+        weekStart: new Date('2024-01-08T00:00:00Z'),
+        finalRank: 2,
+        finalXp: 340,
+        outcome: 'promoted',
+        cohort: { league: 'bronze' },
+      });
+
+      // Act
+      const result = await LeaderboardService.getCurrentLeaderboard(userId);
+
+      // Assert
+      expect(result.joined).toBe(false);
+      expect(result.league).toBe('silver');
+      expect(result.standings).toEqual([]);
+      expect(result.lastResult).toEqual({
+        weekStart: '2024-01-08',
+        league: 'bronze',
+        rank: 2,
+        xp: 340,
+        outcome: 'promoted',
+      });
+      expect(mockLeaderboardRepository.findMembers).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the user does not exist', async () => {
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      await expect(LeaderboardService.getCurrentLeaderboard(userId)).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('joinCurrentWeek', () => {
+    it('should join a cohort of the learner\'s league for this week', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ id: userId, league: 'platinum' });
+      mockLeaderboardRepository.joinCohort.mockResolvedValue({});
+
+      // Act
+      await LeaderboardService.joinCurrentWeek(userId);
+
+      // Assert
+      expect(mockLeaderboardRepository.joinCohort).toHaveBeenCalledWith(
+        userId,
+        'platinum',
+        new Date('2024-01-15T00:00:00Z'),
+        30
+      );
+    });
+  });
+
+  describe('rolloverWeeks', () => {
+    it('should finalize ended cohorts and move learners between leagues', async () => {
+      // Arrange
+      mockLeaderboardRepository.findUnfinalizedCohorts.mockResolvedValue([
+        { id: 'cohort-1', league: 'silver', weekStart: new Date('2024-01-08T00:00:00Z') },
+      ]);
+      mockLeaderboardRepository.findMembers.mockResolvedValue(
+        Array.from({ length: 11 }, (_, i) => member(`user-${i + 1}`, i))
+      );
+      mockLeaderboardRepository.sumXpByUser.mockResolvedValue(
+        new Map(Array.from({ length: 11 }, (_, i) => [`user-${i + 1}`, 110 - i * 10]))
+      );
+      mockLeaderboardRepository.finalizeCohort.mockResolvedValue(true);
+
+      // Act
+      const finalized = await LeaderboardService.rolloverWeeks();
+
+      // Assert
+      expect(finalized).toBe(1);
+      expect(mockLeaderboardRepository.findUnfinalizedCohorts).toHaveBeenCalledWith(new Date('2024-01-15T00:00:00Z'));
+      expect(mockLeaderboardRepository.sumXpByUser).toHaveBeenCalledWith(
+        expect.any(Array),
+        new Date('2024-01-08T00:00:00Z'),
+        new Date('2024-01-15T00:00:00Z')
+      );
+
+      const [cohortId, results] = mockLeaderboardRepository.finalizeCohort.mock.calls[0];
+      expect(cohortId).toBe('cohort-1');
+      expect(results[0]).toEqual({
+        entryId: 'entry-user-1',
+        userId: 'user-1',
+        finalXp: 110,
+        finalRank: 1,
+        outcome: 'promoted',
+        league: 'gold',
+      });
+      expect(results[5]).toEqual(expect.objectContaining({ userId: 'user-6', outcome: 'stayed', league: 'silver' }));
+      expect(results[10]).toEqual(expect.objectContaining({ userId: 'user-11', outcome: 'demoted', league: 'bronze' }));
+    });
+
+    it('should not count cohorts another run already finalized', async () => {
+      mockLeaderboardRepository.findUnfinalizedCohorts.mockResolvedValue([
+        { id: 'cohort-1', league: 'bronze', weekStart: new Date('2024-01-08T00:00:00Z') },
+      ]);
+      mockLeaderboardRepository.findMembers.mockResolvedValue([member('user-1', 0)]);
+      mockLeaderboardRepository.sumXpByUser.mockResolvedValue(new Map());
+      mockLeaderboardRepository.finalizeCohort.mockResolvedValue(false);
+
+      await expect(LeaderboardService.rolloverWeeks()).resolves.toBe(0);
+    });
+  });
+});
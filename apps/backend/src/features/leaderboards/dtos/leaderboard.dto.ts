@@ -0,0 +1,161 @@
+import { League, LeagueOutcome } from '@prisma/client';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LeaderboardStanding:
+ *       type: object
+ *       required:
+ *         - rank
+ *         - userId
+ *         - displayName
+ *         - avatar
+ *         - xp
+ *         - isCurrentUser
+ *         - zone
+ *       properties:
+ *         rank:
+ *           type: integer
+ *           minimum: 1
+ *           example: 3
+ *         userId:
+ *           type: string
+ *           example: "cmdx8z0001"
+ *         displayName:
+ *           type: string
+ *           example: "Demo User"
+ *         avatar:
+ *           type: string
+ *           nullable: true
+ *           example: null
+ *         xp:
+ *           type: integer
+ *           minimum: 0
+ *           example: 120
+ *           description: XP earned this week
+ *         isCurrentUser:
+ *           type: boolean
+ *           example: true
+ *         zone:
+ *           type: string
+ *           enum: [promotion, safe, demotion]
+ *           description: Where the learner would move if the week ended now
+ *
+ *     LeagueResult:
+ *       type: object
+ *       required:
+ *         - weekStart
+ *         - league
+ *         - rank
+ *         - xp
+ *         - outcome
+ *       properties:
+ *         weekStart:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-04"
+ *         league:
+ *           type: string
+ *           enum: [bronze, silver, gold, platinum, diamond]
+ *           description: League the week was played in
+ *         rank:
+ *           type: integer
+ *           example: 2
+ *         xp:
+ *           type: integer
+ *           example: 340
+ *         outcome:
+ *           type: string
+ *           enum: [promoted, stayed, demoted]
+ *
+ *     Leaderboard:
+ *       type: object
+ *       required:
+ *         - league
+ *         - weekStart
+ *         - weekEnd
+ *         - endsAt
+ *         - joined
+ *         - standings
+ *         - lastResult
+ *       properties:
+ *         league:
+ *           type: string
+ *           enum: [bronze, silver, gold, platinum, diamond]
+ *           example: "silver"
+ *           description: The learner's league this week
+ *         weekStart:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-04"
+ *           description: Monday the week started on (weeks run Monday to Sunday, UTC)
+ *         weekEnd:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-10"
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           example: "2025-08-11T00:00:00.000Z"
+ *           description: When the week closes and promotions and demotions are applied
+ *         joined:
+ *           type: boolean
+ *           example: true
+ *           description: False until the learner submits a lesson this week
+ *         standings:
+ *           type: array
+ *           description: The learner's cohort ordered by XP this week (empty until joined)
+ *           items:
+ *             $ref: '#/components/schemas/LeaderboardStanding'
+ *         lastResult:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/LeagueResult'
+ *           description: How the learner's most recent finished week ended
+ *
+ *     LeaderboardResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/Leaderboard'
+ */
+
+/**
+ * Leaderboard DTOs and Interfaces
+ */
+
+export type LeaderboardZone = 'promotion' | 'safe' | 'demotion';
+
+// Leaderboard Standing DTO
+export interface LeaderboardStandingDto {
+  rank: number;
+  userId: string;
+  displayName: string;
+  avatar: string | null;
+  xp: number;
+  isCurrentUser: boolean;
+  zone: LeaderboardZone;
+}
+
+// League Result DTO
+export interface LeagueResultDto {
+  weekStart: string;
+  league: League;
+  rank: number;
+  xp: number;
+  outcome: LeagueOutcome;
+}
+
+// Leaderboard DTO
+export interface LeaderboardDto {
+  league: League;
+  weekStart: string;
+  weekEnd: string;
+  endsAt: Date;
+  joined: boolean;
+  standings: LeaderboardStandingDto[];
+  lastResult: LeagueResultDto | null;
+}
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { LeaderboardService } from './leaderboard.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+
+/**
+ * @swagger
+ * /api/leaderboards:
+ *   get:
+ *     summary: Get this week's leaderboard
+ *     description: |
+ *       The learner's league and weekly cohort (~30 learners) ranked by XP earned this week.
+ *       Learners join a cohort with their first submission of the week. When the week ends
+ *       (Monday 00:00 UTC) the top 5 move up a league and the bottom 5 move down.
+ *     tags: [Leaderboards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Leaderboard retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LeaderboardResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Leaderboard Controller
+ * Handles HTTP requests for weekly league leaderboards
+ */
+export class LeaderboardController {
+  /**
+   * GET /api/leaderboards
+   * Get the learner's leaderboard for the current week
+   */
+  static async getCurrent(req: Request, res: Response): Promise<void> {
+    try {
+      const leaderboard = await LeaderboardService.getCurrentLeaderboard(req.user!.id);
+
+      sendSuccess(res, leaderboard, 'Leaderboard retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to retrieve leaderboard', 500);
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { LeaderboardController } from './leaderboard.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
+
+/**
+ * Leaderboard Routes
+ * /api/leaderboards
+ */
+const router = Router();
+
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
+// GET /api/leaderboards - Get this week's league leaderboard
+router.get('/', asyncHandler(LeaderboardController.getCurrent));
+
+export default router;
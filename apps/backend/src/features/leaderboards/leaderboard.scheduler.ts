@@ -0,0 +1,48 @@
+import { LoggerService } from '../../core/logger/logger.service';
+import { LeaderboardService } from './leaderboard.service';
+import { nextWeekStart, weekStartOf } from './leagues';
+import { toDateValue } from '../../core/streaks';
+
+// Wait a little past midnight so attempts submitted right at the end of the week are in
+const ROLLOVER_DELAY_MS = 60 * 1000;
+
+/**
+ * Leaderboard Scheduler
+ * Runs the weekly league rollover every Monday 00:00 UTC, and once on start
+ * to catch up on weeks that ended while the server was down
+ */
+export class LeaderboardScheduler {
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    void this.run();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await LeaderboardService.rolloverWeeks();
+    } catch (error) {
+      LoggerService.error('Scheduled leaderboard rollover failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    const now = new Date();
+    const nextRollover = toDateValue(nextWeekStart(weekStartOf(now))).getTime() + ROLLOVER_DELAY_MS;
+
+    this.timer = setTimeout(() => void this.run(), nextRollover - now.getTime());
+    // Never keep the process alive just for the rollover
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,195 @@
+import { League, LeagueOutcome } from '@prisma/client';
+import { UserRepository } from '../../core/repositories/user.repository';
+import { LeaderboardMember, LeaderboardRepository } from '../../core/repositories/leaderboard.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { addDays, fromDateValue, toDateValue } from '../../core/streaks';
+import {
+  COHORT_SIZE,
+  leagueAfter,
+  nextWeekStart,
+  rankCohort,
+  RankedStanding,
+  weekStartOf,
+} from './leagues';
+import { LeaderboardDto, LeaderboardStandingDto, LeaderboardZone } from './dtos/leaderboard.dto';
+
+const ZONES: Record<LeagueOutcome, LeaderboardZone> = {
+  promoted: 'promotion',
+  stayed: 'safe',
+  demoted: 'demotion',
+};
+
+const displayNameOf = (user: LeaderboardMember['user']): string =>
+  user.displayName || user.username || user.firstName || 'Learner';
+
+/**
+ * Leaderboard Service
+ * Business logic for weekly cohorts, league standings and week rollover
+ */
+export class LeaderboardService {
+  /**
+   * Get the learner's league and, once they have joined this week, their cohort's standings
+   */
+  static async getCurrentLeaderboard(userId: string): Promise<LeaderboardDto> {
+    LoggerService.logService('LeaderboardService', `getCurrentLeaderboard(${userId})`, true);
+
+    try {
+      const user = await UserRepository.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const weekStart = weekStartOf(new Date());
+      const weekEnd = nextWeekStart(weekStart);
+
+      const [entry, latestResult] = await Promise.all([
+        LeaderboardRepository.findEntry(userId, toDateValue(weekStart)),
+        LeaderboardRepository.findLatestResult(userId),
+      ]);
+
+      let standings: LeaderboardStandingDto[] = [];
+      if (entry) {
+        const { members, ranked } = await LeaderboardService.rankMembers(entry.cohortId, entry.cohort.league, weekStart);
+        const users = new Map(members.map(member => [member.userId, member.user]));
+
+        standings = ranked.map(standing => {
+          const member = users.get(standing.userId)!;
+          return {
+            rank: standing.rank,
+            userId: standing.userId,
+            displayName: displayNameOf(member),
+            avatar: member.avatar,
+            xp: standing.xp,
+            isCurrentUser: standing.userId === userId,
+            zone: ZONES[standing.outcome],
+          };
+        });
+      }
+
+      return {
+        league: entry?.cohort.league ?? user.league,
+        weekStart,
+        weekEnd: addDays(weekEnd, -1),
+        endsAt: toDateValue(weekEnd),
+        joined: entry !== null,
+        standings,
+        lastResult: latestResult && latestResult.outcome
+          ? {
+            weekStart: fromDateValue(latestResult.weekStart),
+            league: latestResult.cohort.league,
+            rank: latestResult.finalRank ?? 0,
+            xp: latestResult.finalXp ?? 0,
+            outcome: latestResult.outcome,
+          }
+          : null,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put the learner in a cohort of their league for the current week (no-op once joined)
+   */
+  static async joinCurrentWeek(userId: string): Promise<void> {
+    LoggerService.logService('LeaderboardService', `joinCurrentWeek(${userId})`, true);
+
+    try {
+      const user = await UserRepository.findById(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      await LeaderboardRepository.joinCohort(
+        userId,
+        user.league,
+        toDateValue(weekStartOf(new Date())),
+        COHORT_SIZE
+      );
+    } catch (error) {
+      LoggerService.error('Failed to join leaderboard', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close every cohort of weeks that have ended: store final ranks and
+   * promote or demote learners. Safe to run repeatedly.
+   * @returns Number of cohorts finalized
+   */
+  static async rolloverWeeks(now: Date = new Date()): Promise<number> {
+    LoggerService.logService('LeaderboardService', 'rolloverWeeks()', true);
+
+    try {
+      const cohorts = await LeaderboardRepository.findUnfinalizedCohorts(toDateValue(weekStartOf(now)));
+      let finalized = 0;
+
+      for (const cohort of cohorts) {
+        const { members, ranked } = await LeaderboardService.rankMembers(
+          cohort.id,
+          cohort.league,
+          fromDateValue(cohort.weekStart)
+        );
+        const entryIds = new Map(members.map(member => [member.userId, member.id]));
+
+        const applied = await LeaderboardRepository.finalizeCohort(
+          cohort.id,
+          ranked.map(standing => ({
+            entryId: entryIds.get(standing.userId)!,
+            userId: standing.userId,
+            finalXp: standing.xp,
+            finalRank: standing.rank,
+            outcome: standing.outcome,
+            league: leagueAfter(cohort.league, standing.outcome),
+          })),
+          now
+        );
+
+        if (applied) {
+          finalized++;
+        }
+      }
+
+      if (finalized > 0) {
+        LoggerService.info('Leaderboard weeks rolled over', { cohorts: finalized });
+      }
+
+      return finalized;
+    } catch (error) {
+      LoggerService.error('Failed to roll over leaderboard weeks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rank a cohort by the XP its members earned in the week
+   */
+  private static async rankMembers(
+    cohortId: string,
+    league: League,
+    weekStart: string
+  ): Promise<{ members: LeaderboardMember[]; ranked: RankedStanding[] }> {
+    const members = await LeaderboardRepository.findMembers(cohortId);
+    const xp = await LeaderboardRepository.sumXpByUser(
+      members.map(member => member.userId),
+      toDateValue(weekStart),
+      toDateValue(nextWeekStart(weekStart))
+    );
+
+    const ranked = rankCohort(
+      league,
+      members.map(member => ({ userId: member.userId, xp: xp.get(member.userId) ?? 0, joinedAt: member.joinedAt }))
+    );
+
+    return { members, ranked };
+  }
+}
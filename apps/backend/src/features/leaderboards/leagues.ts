@@ -0,0 +1,89 @@
+import { League, LeagueOutcome } from '@prisma/client';
+import { addDays, localDate, toDateValue } from '../../core/streaks';
+
+/**
+ * Leagues
+ * Weekly cohort rules: weeks run Monday to Sunday in UTC so every learner in a
+ * cohort competes over the same seven days.
+ */
+
+// Leagues from lowest to highest
+export const LEAGUES: League[] = ['bronze', 'silver', 'gold', 'platinum', 'diamond'];
+
+// Learners per cohort; a new cohort is opened once the newest one is full
+export const COHORT_SIZE = 30;
+
+// Places at the top of a cohort that move up a league, and at the bottom that move down
+export const PROMOTION_COUNT = 5;
+export const DEMOTION_COUNT = 5;
+
+export interface CohortStanding {
+  userId: string;
+  xp: number;
+  joinedAt: Date;
+}
+
+export interface RankedStanding extends CohortStanding {
+  rank: number;
+  outcome: LeagueOutcome;
+}
+
+/**
+ * Monday ("YYYY-MM-DD", UTC) of the week an instant falls in
+ */
+export function weekStartOf(instant: Date): string {
+  const today = localDate(instant, 'UTC');
+  const daysSinceMonday = (toDateValue(today).getUTCDay() + 6) % 7;
+  return addDays(today, -daysSinceMonday);
+}
+
+/**
+ * Monday after the week that starts on `weekStart`
+ */
+export function nextWeekStart(weekStart: string): string {
+  return addDays(weekStart, 7);
+}
+
+export function leagueAbove(league: League): League | null {
+  return LEAGUES[LEAGUES.indexOf(league) + 1] ?? null;
+}
+
+export function leagueBelow(league: League): League | null {
+  const index = LEAGUES.indexOf(league);
+  return index > 0 ? LEAGUES[index - 1] : null;
+}
+
+/**
+ * Rank a cohort by XP (earlier joiners win ties) and decide who moves league.
+ * Only learners who earned XP are promoted, and nobody is both in the promotion
+ * and the demotion zone in a small cohort.
+ */
+export function rankCohort(league: League, standings: CohortStanding[]): RankedStanding[] {
+  const ranked = [...standings].sort((a, b) =>
+    b.xp - a.xp || a.joinedAt.getTime() - b.joinedAt.getTime()
+  );
+  const demotionFrom = Math.max(PROMOTION_COUNT, ranked.length - DEMOTION_COUNT);
+
+  return ranked.map((standing, index) => {
+    let outcome: LeagueOutcome = 'stayed';
+    if (index < PROMOTION_COUNT && standing.xp > 0 && leagueAbove(league)) {
+      outcome = 'promoted';
+    } else if (index >= demotionFrom && leagueBelow(league)) {
+      outcome = 'demoted';
+    }
+    return { ...standing, rank: index + 1, outcome };
+  });
+}
+
+/**
+ * League a learner plays in after an outcome
+ */
+export function leagueAfter(league: League, outcome: LeagueOutcome): League {
+  if (outcome === 'promoted') {
+    return leagueAbove(league) ?? league;
+  }
+  if (outcome === 'demoted') {
+    return leagueBelow(league) ?? league;
+  }
+  return league;
+}
@@ -3,7 +3,7 @@ import express from 'express';
 import { LessonController } from '../lesson.controller';
 import { LessonService } from '../lesson.service';
 import { LoggerService } from '../../../core/logger/logger.service';
-import { LessonDto, LessonWithProblemsDto, SubmitLessonResponseDto } from '../dtos/lesson.dto';
+import { LessonDto, LessonWithProblemsDto, SubmitLessonResponseDto, revealHintSchema, submitLessonSchema } from '../dtos/lesson.dto';
 
 // Mock LessonService
 jest.mock('../lesson.service', () => ({
@@ -11,6 +11,10 @@ jest.mock('../lesson.service', () => ({
     getAllLessons: jest.fn(),
     getLessonById: jest.fn(),
     submitLesson: jest.fn(),
+    revealHint: jest.fn(),
+    checkAnswer: jest.fn(),
+    getOrStartAttempt: jest.fn(),
+    saveAttempt: jest.fn(),
     getLessonStats: jest.fn(),
   },
 }));
@@ -37,10 +41,22 @@ jest.mock('../dtos/lesson.dto', () => ({
   submitLessonSchema: {
     parse: jest.fn(data => data),
   },
-  lessonsQuerySchema: {
+  lessonIdSchema: {
     parse: jest.fn(data => data),
   },
-  lessonIdSchema: {
+  lessonQuerySchema: {
+    parse: jest.fn(data => data),
+  },
+  lessonProblemParamsSchema: {
+    parse: jest.fn(data => data),
+  },
+  revealHintSchema: {
+    parse: jest.fn(data => data),
+  },
+  checkAnswerSchema: {
+    parse: jest.fn(data => data),
+  },
+  saveAttemptSchema: {
     parse: jest.fn(data => data),
   },
 }));
@@ -48,13 +64,13 @@ jest.mock('../dtos/lesson.dto', () => ({
 const app = express();
 app.use(express.json());
 
-// Simple middleware to simulate req.validated
+// Simple middleware to simulate req.validated and the authenticated user
 app.use((req, res, next) => {
   req.validated = {
-    query: { userId: req.query.userId || '1' },
     params: { id: req.params.id },
     body: req.body
   };
+  req.user = { id: (req.headers['x-user-id'] as string) || '1', email: 'test@example.com', role: 'learner' };
   next();
 });
 
@@ -63,6 +79,10 @@ app.get('/lessons', LessonController.getAllLessons);
 app.get('/lessons/stats', LessonController.getLessonStats);
 app.get('/lessons/:id', LessonController.getLessonById);
 app.post('/lessons/:id/submit', LessonController.submitLesson);
+app.post('/lessons/:id/problems/:problemId/check', LessonController.checkAnswer);
+app.post('/lessons/:id/problems/:problemId/hints', LessonController.revealHint);
+app.get('/lessons/:id/attempt', LessonController.getAttempt);
+app.put('/lessons/:id/attempt', LessonController.saveAttempt);
 
 const mockLessonService = LessonService as jest.Mocked<typeof LessonService>;
 const mockLoggerService = LoggerService as jest.Mocked<typeof LoggerService>;
@@ -73,7 +93,7 @@ describe('LessonController', () => {
   });
 
   describe('GET /lessons', () => {
-    it('should return all lessons with default user ID', async () => {
+    it('should return all lessons for the authenticated user', async () => {
       const mockLessons: LessonDto[] = [
         {
           id: 'lesson-1',
@@ -81,6 +101,11 @@ describe('LessonController', () => {
           description: 'Learn basic addition',
           order: 1,
           xpReward: 20,
+          difficulty: 'easy',
+          hintPenalty: 25,
+          skills: [],
+          prerequisites: [],
+          isUnlocked: true,
           isActive: true,
           createdAt: new Date('2024-01-01'),
           updatedAt: new Date('2024-01-01'),
@@ -92,6 +117,11 @@ describe('LessonController', () => {
           description: 'Learn subtraction',
           order: 2,
           xpReward: 25,
+          difficulty: 'easy',
+          hintPenalty: 25,
+          skills: [{ id: 'skill-subtraction', name: 'Subtraction', description: null }],
+          prerequisites: [{ id: 'lesson-1', title: 'Basic Addition' }],
+          isUnlocked: true,
           isActive: true,
           createdAt: new Date('2024-01-01'),
           updatedAt: new Date('2024-01-01'),
@@ -117,7 +147,7 @@ describe('LessonController', () => {
       expect(response.body.message).toBe('Lessons retrieved successfully');
     });
 
-    it('should return lessons for specified user ID', async () => {
+    it('should derive the user from the token rather than the query string', async () => {
       const mockLessons: LessonDto[] = [
         {
           id: 'lesson-1',
@@ -125,6 +155,11 @@ describe('LessonController', () => {
           description: 'Learn basic addition',
           order: 1,
           xpReward: 20,
+          difficulty: 'easy',
+          hintPenalty: 25,
+          skills: [],
+          prerequisites: [],
+          isUnlocked: true,
           isActive: true,
           createdAt: new Date('2024-01-01'),
           updatedAt: new Date('2024-01-01'),
@@ -136,7 +171,8 @@ describe('LessonController', () => {
 
       const response = await request(app)
         .get('/lessons')
-        .query({ userId: 'user-123' })
+        .set('x-user-id', 'user-123')
+        .query({ userId: 'someone-else' })
         .expect(200);
 
       expect(mockLessonService.getAllLessons).toHaveBeenCalledWith('user-123');
@@ -160,7 +196,7 @@ describe('LessonController', () => {
         'Failed to get lessons',
         {
           error: 'Database connection failed',
-          query: {},
+          userId: '1',
         }
       );
     });
@@ -211,6 +247,10 @@ describe('LessonController', () => {
         description: 'Learn basic addition',
         order: 1,
         xpReward: 20,
+        difficulty: 'easy',
+        hintPenalty: 25,
+        skills: [],
+        prerequisites: [],
         isActive: true,
         createdAt: new Date('2024-01-01'),
         updatedAt: new Date('2024-01-01'),
@@ -225,6 +265,8 @@ describe('LessonController', () => {
               { id: 'opt-1', optionText: '3', order: 1 },
               { id: 'opt-2', optionText: '4', order: 2 },
             ],
+            hintCount: 0,
+            hints: [],
           },
         ],
       };
@@ -235,7 +277,7 @@ describe('LessonController', () => {
         .get('/lessons/lesson-1')
         .expect(200);
 
-      expect(mockLessonService.getLessonById).toHaveBeenCalledWith('lesson-1');
+      expect(mockLessonService.getLessonById).toHaveBeenCalledWith('lesson-1', '1', undefined);
       expect(response.body.success).toBe(true);
       const expectedLesson = {
         ...mockLesson,
@@ -246,6 +288,17 @@ describe('LessonController', () => {
       expect(response.body.message).toBe('Lesson retrieved successfully');
     });
 
+    it('should open the lesson for the requested attempt', async () => {
+      mockLessonService.getLessonById.mockResolvedValue({ id: 'lesson-1', problems: [] } as any);
+
+      await request(app)
+        .get('/lessons/lesson-1')
+        .query({ attemptId: 'attempt-123' })
+        .expect(200);
+
+      expect(mockLessonService.getLessonById).toHaveBeenCalledWith('lesson-1', '1', 'attempt-123');
+    });
+
     it('should handle lesson not found', async () => {
       mockLessonService.getLessonById.mockResolvedValue(null);
 
@@ -253,7 +306,7 @@ describe('LessonController', () => {
         .get('/lessons/nonexistent')
         .expect(404);
 
-      expect(mockLessonService.getLessonById).toHaveBeenCalledWith('nonexistent');
+      expect(mockLessonService.getLessonById).toHaveBeenCalledWith('nonexistent', '1', undefined);
     });
 
     it('should handle service errors', async () => {
@@ -282,6 +335,7 @@ describe('LessonController', () => {
           { problemId: 'problem-2', answer: '6' },
         ],
         attemptId: 'attempt-123',
+        timeSpent: 95,
       };
 
       const mockSubmissionResult: SubmitLessonResponseDto = {
@@ -295,19 +349,26 @@ describe('LessonController', () => {
             problemId: 'problem-1',
             userAnswer: '4',
             isCorrect: true,
+            reason: 'exact_match',
             correctAnswer: '4',
             explanation: 'Simple addition',
+            solutionSteps: [],
+            hintsUsed: 0,
             xpEarned: 10,
           },
           {
             problemId: 'problem-2',
             userAnswer: '6',
             isCorrect: true,
+            reason: 'exact_match',
             correctAnswer: '6',
             explanation: 'Simple addition',
+            solutionSteps: [],
+            hintsUsed: 0,
             xpEarned: 10,
           },
         ],
+        newAchievements: [],
       };
 
       mockLessonService.submitLesson.mockResolvedValue(mockSubmissionResult);
@@ -327,7 +388,7 @@ describe('LessonController', () => {
       expect(response.body.message).toBe('Lesson submitted successfully');
     });
 
-    it('should submit lesson with specified user ID', async () => {
+    it('should submit lesson as the authenticated user', async () => {
       const submitData = {
         answers: [{ problemId: 'problem-1', answer: '4' }],
         attemptId: 'attempt-123',
@@ -344,17 +405,22 @@ describe('LessonController', () => {
             problemId: 'problem-1',
             userAnswer: '4',
             isCorrect: true,
+            reason: 'exact_match',
             correctAnswer: '4',
             explanation: 'Correct',
+            solutionSteps: [],
+            hintsUsed: 0,
             xpEarned: 10,
           },
         ],
+        newAchievements: [],
       };
       mockLessonService.submitLesson.mockResolvedValue(mockResult);
 
       const response = await request(app)
         .post('/lessons/lesson-1/submit')
-        .query({ userId: 'user-456' })
+        .set('x-user-id', 'user-456')
+        .query({ userId: 'someone-else' })
         .send(submitData)
         .expect(200);
 
@@ -386,6 +452,43 @@ describe('LessonController', () => {
       );
     });
 
+    it('should return 400 when the body fails schema validation', async () => {
+      const invalidTimes = new Error('Answer times exceed the lesson time');
+      invalidTimes.name = 'ZodError';
+      (submitLessonSchema.parse as jest.Mock).mockImplementationOnce(() => {
+        throw invalidTimes;
+      });
+
+      await request(app)
+        .post('/lessons/lesson-1/submit')
+        .send({
+          answers: [{ problemId: 'problem-1', answer: '4', timeSpent: 120 }],
+          attemptId: 'attempt-123',
+          timeSpent: 30,
+        })
+        .expect(400);
+
+      expect(mockLessonService.submitLesson).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when a problem is answered more than once', async () => {
+      const { submitLessonSchema: actualSchema } = jest.requireActual('../dtos/lesson.dto');
+      (submitLessonSchema.parse as jest.Mock).mockImplementationOnce(data => actualSchema.parse(data));
+
+      await request(app)
+        .post('/lessons/lesson-1/submit')
+        .send({
+          answers: [
+            { problemId: 'problem-1', answer: '4' },
+            { problemId: 'problem-1', answer: '5' },
+          ],
+          attemptId: 'attempt-123',
+        })
+        .expect(400);
+
+      expect(mockLessonService.submitLesson).not.toHaveBeenCalled();
+    });
+
     it('should handle service errors during submission', async () => {
       const submitData = {
         answers: [{ problemId: 'problem-1', answer: '4' }],
@@ -411,6 +514,42 @@ describe('LessonController', () => {
       );
     });
 
+    it('should reject answers that do not match the problem type', async () => {
+      const submitData = {
+        answers: [{ problemId: 'problem-1', answer: 'true' }],
+        attemptId: 'attempt-123',
+      };
+
+      mockLessonService.submitLesson.mockRejectedValue(
+        new Error('Invalid answer for true_false problem: problem-1')
+      );
+
+      await request(app)
+        .post('/lessons/lesson-1/submit')
+        .send(submitData)
+        .expect(400);
+    });
+
+    it('should accept structured answers', async () => {
+      const submitData = {
+        answers: [
+          { problemId: 'problem-1', answer: false },
+          { problemId: 'problem-2', answer: ['option-b', 'option-a'] },
+          { problemId: 'problem-3', answer: 0.5 },
+        ],
+        attemptId: 'attempt-123',
+      };
+
+      mockLessonService.submitLesson.mockResolvedValue({} as any);
+
+      await request(app)
+        .post('/lessons/lesson-1/submit')
+        .send(submitData)
+        .expect(200);
+
+      expect(mockLessonService.submitLesson).toHaveBeenCalledWith('lesson-1', submitData, '1');
+    });
+
     it('should handle lesson not found during submission', async () => {
       const submitData = {
         answers: [{ problemId: 'problem-1', answer: '4' }],
@@ -432,4 +571,163 @@ describe('LessonController', () => {
       );
     });
   });
+
+  describe('POST /lessons/:id/problems/:problemId/check', () => {
+    it('should check the answer for the authenticated user', async () => {
+      const checked = {
+        problemId: 'problem-1',
+        userAnswer: '4',
+        isCorrect: true,
+        reason: 'exact_match' as const,
+        explanation: '',
+        hintsUsed: 0,
+        xpEarned: 10,
+      };
+      mockLessonService.checkAnswer.mockResolvedValue(checked);
+
+      const response = await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/check')
+        .set('x-user-id', 'user-456')
+        .send({ attemptId: 'attempt-123', answer: '4' })
+        .expect(200);
+
+      expect(mockLessonService.checkAnswer).toHaveBeenCalledWith('lesson-1', 'problem-1', 'attempt-123', '4', 'user-456');
+      expect(response.body.data).toEqual(checked);
+      expect(response.body.message).toBe('Answer checked successfully');
+    });
+
+    it('should return 400 for answers that do not match the problem type', async () => {
+      mockLessonService.checkAnswer.mockRejectedValue(new Error('Invalid answer for true_false problem: problem-1'));
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/check')
+        .send({ attemptId: 'attempt-123', answer: 'yes' })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown problem', async () => {
+      mockLessonService.checkAnswer.mockRejectedValue(new Error('Problem not found: problem-9'));
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-9/check')
+        .send({ attemptId: 'attempt-123', answer: '4' })
+        .expect(404);
+    });
+
+    it('should return 409 for an attempt that is not in progress', async () => {
+      mockLessonService.checkAnswer.mockRejectedValue(new Error('Attempt is no longer in progress'));
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/check')
+        .send({ attemptId: 'attempt-999', answer: '4' })
+        .expect(409);
+    });
+  });
+
+  describe('POST /lessons/:id/problems/:problemId/hints', () => {
+    it('should reveal the next hint for the authenticated user', async () => {
+      const reveal = { problemId: 'problem-1', hints: ['Count on from 2'], hintCount: 2, xpAvailable: 8 };
+      mockLessonService.revealHint.mockResolvedValue(reveal);
+
+      const response = await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/hints')
+        .set('x-user-id', 'user-456')
+        .send({ attemptId: 'attempt-123' })
+        .expect(200);
+
+      expect(mockLessonService.revealHint).toHaveBeenCalledWith('lesson-1', 'problem-1', 'attempt-123', 'user-456');
+      expect(response.body.data).toEqual(reveal);
+      expect(response.body.message).toBe('Hint revealed successfully');
+    });
+
+    it('should return 400 when the attempt is missing', async () => {
+      const missingAttempt = new Error('Required');
+      missingAttempt.name = 'ZodError';
+      (revealHintSchema.parse as jest.Mock).mockImplementationOnce(() => {
+        throw missingAttempt;
+      });
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/hints')
+        .send({})
+        .expect(400);
+
+      expect(mockLessonService.revealHint).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown problem', async () => {
+      mockLessonService.revealHint.mockRejectedValue(new Error('Problem not found: problem-9'));
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-9/hints')
+        .send({ attemptId: 'attempt-123' })
+        .expect(404);
+    });
+
+    it('should return 409 for an attempt that is not in progress', async () => {
+      mockLessonService.revealHint.mockRejectedValue(new Error('Attempt is no longer in progress'));
+
+      await request(app)
+        .post('/lessons/lesson-1/problems/problem-1/hints')
+        .send({ attemptId: 'attempt-999' })
+        .expect(409);
+    });
+  });
+
+  describe('/lessons/:id/attempt', () => {
+    const attempt = {
+      attemptId: 'attempt-123',
+      lessonId: 'lesson-1',
+      answers: { 'problem-1': '4' },
+      currentIndex: 1,
+      checks: [],
+      startedAt: new Date('2025-09-10T10:00:00Z'),
+      updatedAt: new Date('2025-09-10T10:05:00Z'),
+      expiresAt: new Date('2025-09-17T10:05:00Z'),
+    };
+
+    it('should return the attempt in progress for the authenticated user', async () => {
+      mockLessonService.getOrStartAttempt.mockResolvedValue(attempt);
+
+      const response = await request(app)
+        .get('/lessons/lesson-1/attempt')
+        .set('x-user-id', 'user-456')
+        .expect(200);
+
+      expect(mockLessonService.getOrStartAttempt).toHaveBeenCalledWith('lesson-1', 'user-456');
+      expect(response.body.data).toMatchObject({ attemptId: 'attempt-123', answers: { 'problem-1': '4' }, currentIndex: 1 });
+      expect(response.body.message).toBe('Attempt retrieved successfully');
+    });
+
+    it('should return 404 for an unknown lesson', async () => {
+      mockLessonService.getOrStartAttempt.mockResolvedValue(null);
+
+      await request(app)
+        .get('/lessons/lesson-9/attempt')
+        .expect(404);
+    });
+
+    it('should save the attempt for the authenticated user', async () => {
+      mockLessonService.saveAttempt.mockResolvedValue(attempt);
+      const body = { attemptId: 'attempt-123', answers: { 'problem-1': '4' }, currentIndex: 1 };
+
+      const response = await request(app)
+        .put('/lessons/lesson-1/attempt')
+        .set('x-user-id', 'user-456')
+        .send(body)
+        .expect(200);
+
+      expect(mockLessonService.saveAttempt).toHaveBeenCalledWith('lesson-1', body, 'user-456');
+      expect(response.body.message).toBe('Attempt saved successfully');
+    });
+
+    it('should return 409 when the attempt is no longer in progress', async () => {
+      mockLessonService.saveAttempt.mockRejectedValue(new Error('Attempt is no longer in progress'));
+
+      await request(app)
+        .put('/lessons/lesson-1/attempt')
+        .send({ attemptId: 'attempt-old', answers: {}, currentIndex: 0 })
+        .expect(409);
+    });
+  });
 });
@@ -6,6 +6,7 @@
 // Mock dependencies first
 const mockLessonRepository = {
   findAllWithProgress: jest.fn(),
+  findById: jest.fn(),
   findByIdWithProblems: jest.fn(),
   getStats: jest.fn(),
 };
@@ -14,6 +15,49 @@ const mockSubmissionRepository = {
   submitAnswers: jest.fn(),
 };
 
+const mockRevisionRepository = {
+  recordLessonRevision: jest.fn(),
+  findAttemptWithRevisions: jest.fn(),
+};
+
+const mockProblemInstanceRepository = {
+  findByAttempt: jest.fn(),
+  createMany: jest.fn(),
+};
+
+const mockHintRepository = {
+  findByAttempt: jest.fn(),
+  recordReveal: jest.fn(),
+};
+
+const mockAnswerCheckRepository = {
+  findByAttempt: jest.fn(),
+  recordCheck: jest.fn(),
+};
+
+const mockAttemptDraftRepository = {
+  findActive: jest.fn(),
+  start: jest.fn(),
+  save: jest.fn(),
+  deleteByAttempt: jest.fn(),
+};
+
+const mockAchievementService = {
+  evaluateAfterSubmission: jest.fn(),
+};
+
+const mockLeaderboardService = {
+  joinCurrentWeek: jest.fn(),
+};
+
+const mockRecommendationCache = {
+  invalidate: jest.fn(),
+};
+
+const mockExperimentService = {
+  recordOutcome: jest.fn(),
+};
+
 const mockTransformers = {
   transformLessonToDto: jest.fn(),
   transformLessonWithProblemsToDto: jest.fn(),
@@ -27,6 +71,43 @@ jest.mock('../../../core/repositories/submission.repository', () => ({
   SubmissionRepository: mockSubmissionRepository,
 }));
 
+jest.mock('../../../core/repositories/revision.repository', () => ({
+  ...jest.requireActual('../../../core/repositories/revision.repository'),
+  RevisionRepository: mockRevisionRepository,
+}));
+
+jest.mock('../../../core/repositories/problem-instance.repository', () => ({
+  ProblemInstanceRepository: mockProblemInstanceRepository,
+}));
+
+jest.mock('../../../core/repositories/hint.repository', () => ({
+  HintRepository: mockHintRepository,
+}));
+
+jest.mock('../../../core/repositories/answer-check.repository', () => ({
+  AnswerCheckRepository: mockAnswerCheckRepository,
+}));
+
+jest.mock('../../../core/repositories/attempt-draft.repository', () => ({
+  AttemptDraftRepository: mockAttemptDraftRepository,
+}));
+
+jest.mock('../../achievements/achievement.service', () => ({
+  AchievementService: mockAchievementService,
+}));
+
+jest.mock('../../leaderboards/leaderboard.service', () => ({
+  LeaderboardService: mockLeaderboardService,
+}));
+
+jest.mock('../../recommendations/recommendation.cache', () => ({
+  RecommendationCache: mockRecommendationCache,
+}));
+
+jest.mock('../../experiments/experiment.service', () => ({
+  ExperimentService: mockExperimentService,
+}));
+
 jest.mock('../dtos/lesson.dto', () => ({
   ...jest.requireActual('../dtos/lesson.dto'),
   transformLessonToDto: mockTransformers.transformLessonToDto,
@@ -44,14 +125,33 @@ jest.mock('../../../core/logger/logger.service', () => ({
   },
 }));
 
-import { LessonService } from '../lesson.service';
+import { ATTEMPT_DRAFT_TTL_DAYS, LessonService } from '../lesson.service';
 import { LoggerService } from '../../../core/logger/logger.service';
+import {
+  MAX_ANSWER_LENGTH,
+  MAX_DRAFT_ANSWERS,
+  MAX_PROBLEM_TIME_SECONDS,
+  saveAttemptSchema,
+  submitLessonSchema,
+} from '../dtos/lesson.dto';
 
 const mockLogger = LoggerService as jest.Mocked<typeof LoggerService>;
 
 describe('LessonService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockAchievementService.evaluateAfterSubmission.mockResolvedValue([]);
+    mockLeaderboardService.joinCurrentWeek.mockResolvedValue(undefined);
+    mockHintRepository.findByAttempt.mockResolvedValue([]);
+    mockAnswerCheckRepository.findByAttempt.mockResolvedValue([]);
+    mockAttemptDraftRepository.deleteByAttempt.mockResolvedValue(undefined);
+    mockRevisionRepository.recordLessonRevision.mockImplementation(async (lesson: {
+      id: string;
+      problems: { id: string }[];
+    }) => ({
+      lessonRevisionId: `${lesson.id}-revision-1`,
+      problemRevisionIds: new Map(lesson.problems.map(problem => [problem.id, `${problem.id}-revision-1`])),
+    }));
   });
 
   describe('getAllLessons', () => {
@@ -63,12 +163,14 @@ describe('LessonService', () => {
           id: 'lesson-1',
           title: 'Basic Addition',
           description: 'Learn addition',
+          prerequisites: [],
           progress: { isCompleted: true, score: 85 },
         },
         {
           id: 'lesson-2',
           title: 'Subtraction',
           description: 'Learn subtraction',
+          prerequisites: [{ id: 'lesson-1', title: 'Basic Addition' }],
           progress: { isCompleted: false, score: 0 },
         },
       ];
@@ -101,6 +203,7 @@ describe('LessonService', () => {
       // Assert
       expect(mockLessonRepository.findAllWithProgress).toHaveBeenCalledWith(userId);
       expect(mockTransformers.transformLessonToDto).toHaveBeenCalledTimes(2);
+      expect(mockTransformers.transformLessonToDto).toHaveBeenCalledWith(mockLessons[1], true);
       expect(result).toEqual(mockTransformedLessons);
       expect(mockLogger.logService).toHaveBeenCalledWith(
         'LessonService',
@@ -109,17 +212,28 @@ describe('LessonService', () => {
       );
     });
 
-    it('should use default userId when not provided', async () => {
+    it('should lock lessons until every prerequisite is completed', async () => {
       // Arrange
-      const defaultUserId = '1';
-      const mockLessons: any[] = [];
+      const mockLessons = [
+        { id: 'lesson-1', prerequisites: [], progress: { isCompleted: true } },
+        { id: 'lesson-2', prerequisites: [], progress: undefined },
+        {
+          id: 'lesson-3',
+          prerequisites: [{ id: 'lesson-1', title: 'Addition' }, { id: 'lesson-2', title: 'Subtraction' }],
+          progress: undefined,
+        },
+      ];
       mockLessonRepository.findAllWithProgress.mockResolvedValue(mockLessons);
 
       // Act
-      await LessonService.getAllLessons();
+      await LessonService.getAllLessons('user-1');
 
       // Assert
-      expect(mockLessonRepository.findAllWithProgress).toHaveBeenCalledWith(defaultUserId);
+      expect(mockTransformers.transformLessonToDto.mock.calls).toEqual([
+        [mockLessons[0], true],
+        [mockLessons[1], true],
+        [mockLessons[2], false],
+      ]);
     });
 
     it('should handle database errors', async () => {
@@ -143,6 +257,7 @@ describe('LessonService', () => {
       const lessonId = 'lesson-1';
       const mockLesson = {
         id: 'lesson-1',
+        hintPenalty: 25,
         title: 'Basic Addition',
         problems: [
           {
@@ -172,7 +287,7 @@ describe('LessonService', () => {
       mockTransformers.transformLessonWithProblemsToDto.mockReturnValue(mockTransformedLesson);
 
       // Act
-      const result = await LessonService.getLessonById(lessonId);
+      const result = await LessonService.getLessonById(lessonId, 'user-1');
 
       // Assert
       expect(mockLessonRepository.findByIdWithProblems).toHaveBeenCalledWith(lessonId, false);
@@ -185,13 +300,65 @@ describe('LessonService', () => {
       );
     });
 
+    it('should instantiate templated problems for the attempt and store the values', async () => {
+      // Arrange
+      const mockLesson = {
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          {
+            id: 'problem-1',
+            question: 'What is {a} + {b}?',
+            correctAnswer: null,
+            template: { variables: { a: { min: 2, max: 9 }, b: { min: 2, max: 9 } } },
+            options: [{ id: 'opt-1', optionText: '{a + b}' }],
+          },
+          { id: 'problem-2', question: 'What is 2 + 2?', correctAnswer: null, template: null, options: [] },
+        ],
+      };
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
+      mockProblemInstanceRepository.findByAttempt.mockResolvedValue([]);
+      mockTransformers.transformLessonWithProblemsToDto.mockImplementation(lesson => lesson);
+
+      // Act
+      const result: any = await LessonService.getLessonById('lesson-1', 'user-1', 'attempt-1');
+
+      // Assert
+      const [stored] = mockProblemInstanceRepository.createMany.mock.calls[0][2];
+      const { a, b } = stored.values;
+      expect(mockProblemInstanceRepository.createMany).toHaveBeenCalledWith('user-1', 'attempt-1', [
+        { problemId: 'problem-1', values: { a, b }, question: `What is ${a} + ${b}?` },
+      ]);
+      expect(result.problems[0].question).toBe(`What is ${a} + ${b}?`);
+      expect(result.problems[0].options[0].optionText).toBe(String(a + b));
+      expect(result.problems[1]).toEqual({ ...mockLesson.problems[1], revealedHints: [] });
+    });
+
+    it('should credit recommendation experiments when a lesson is opened for an attempt', async () => {
+      // Arrange
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({ id: 'lesson-1', problems: [] });
+      mockExperimentService.recordOutcome.mockRejectedValueOnce(new Error('Database error'));
+
+      // Act
+      await LessonService.getLessonById('lesson-1', 'user-1', 'attempt-1');
+      await LessonService.getLessonById('lesson-1', 'user-1');
+
+      // Assert: logged once, and a failure does not fail the request
+      expect(mockExperimentService.recordOutcome).toHaveBeenCalledTimes(1);
+      expect(mockExperimentService.recordOutcome).toHaveBeenCalledWith('user-1', 'lesson-1', 'started');
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to record experiment outcome', expect.objectContaining({
+        event: 'started',
+      }));
+    });
+
     it('should return null when lesson not found', async () => {
       // Arrange
       const lessonId = 'non-existent';
       mockLessonRepository.findByIdWithProblems.mockResolvedValue(null);
 
       // Act
-      const result = await LessonService.getLessonById(lessonId);
+      const result = await LessonService.getLessonById(lessonId, 'user-1');
 
       // Assert
       expect(result).toBeNull();
@@ -205,7 +372,7 @@ describe('LessonService', () => {
       mockLessonRepository.findByIdWithProblems.mockRejectedValue(error);
 
       // Act & Assert
-      await expect(LessonService.getLessonById(lessonId)).rejects.toThrow('Database error');
+      await expect(LessonService.getLessonById(lessonId, 'user-1')).rejects.toThrow('Database error');
       expect(mockLogger.error).toHaveBeenCalledWith('Failed to get lesson by ID', {
         error: 'Database error',
         lessonId,
@@ -228,6 +395,7 @@ describe('LessonService', () => {
 
       const mockLesson = {
         id: 'lesson-1',
+        hintPenalty: 25,
         title: 'Basic Addition',
         problems: [
           {
@@ -251,7 +419,7 @@ describe('LessonService', () => {
       };
 
       const mockSubmissionResult = {
-        submission: { id: 'submission-1' },
+        attempt: { id: 'attempt-1' },
         xpEarned: 20,
         streakUpdated: true,
         newStreak: 3,
@@ -274,11 +442,13 @@ describe('LessonService', () => {
       expect(mockSubmissionRepository.submitAnswers).toHaveBeenCalledWith(
         userId,
         lessonId,
+        'lesson-1-revision-1',
         [
-          { problemId: 'problem-1', answer: '4', isCorrect: true, xpEarned: 10 },
-          { problemId: 'problem-2', answer: '6', isCorrect: true, xpEarned: 10 },
+          { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '4', isCorrect: true, xpEarned: 10, hintsUsed: 0 },
+          { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '6', isCorrect: true, xpEarned: 10, hintsUsed: 0 },
         ],
-        'attempt-123'
+        'attempt-123',
+        undefined
       );
 
       expect(result).toEqual({
@@ -300,21 +470,31 @@ describe('LessonService', () => {
             problemId: 'problem-1',
             userAnswer: '4',
             isCorrect: true,
+            reason: 'exact_match',
             correctAnswer: '4',
             explanation: '',
+            solutionSteps: [],
+            hintsUsed: 0,
             xpEarned: 10,
           },
           {
             problemId: 'problem-2',
             userAnswer: '6',
             isCorrect: true,
+            reason: 'exact_match',
             correctAnswer: '6',
             explanation: '',
+            solutionSteps: [],
+            hintsUsed: 0,
             xpEarned: 10,
           },
         ],
+        newAchievements: [],
       });
 
+      expect(mockAttemptDraftRepository.deleteByAttempt).toHaveBeenCalledWith(userId, 'attempt-123');
+      expect(mockRecommendationCache.invalidate).toHaveBeenCalledWith(userId);
+      expect(mockExperimentService.recordOutcome).toHaveBeenCalledWith(userId, lessonId, 'completed');
       expect(mockLogger.logService).toHaveBeenCalledWith(
         'LessonService',
         `submitLesson(${lessonId}, ${submitData.attemptId})`,
@@ -322,6 +502,192 @@ describe('LessonService', () => {
       );
     });
 
+    it('should unlock achievements with the submission totals and time spent', async () => {
+      // Arrange
+      const submitData = {
+        attemptId: 'attempt-321',
+        answers: [{ problemId: 'problem-1', answer: '4' }],
+        timeSpent: 42,
+      };
+      const badge = {
+        id: 'speed_run',
+        title: 'Quick Thinker',
+        description: 'Finish a lesson with every answer correct in under a minute',
+        icon: '⏱️',
+        rule: 'speed',
+        threshold: 60,
+        unlockedAt: new Date('2024-01-15T12:00:00Z'),
+      };
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [{ id: 'problem-1', problemType: 'input', correctAnswer: '4', options: [] }],
+      });
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { attemptId: 'attempt-321', timeSpent: 42 },
+        xpEarned: 10,
+        streakUpdated: true,
+        newStreak: 7,
+        bestStreak: 7,
+        totalXp: 1000,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+      mockAchievementService.evaluateAfterSubmission.mockResolvedValue([badge]);
+
+      // Act
+      const result = await LessonService.submitLesson('lesson-1', submitData, 'user-1');
+
+      // Assert
+      expect(mockSubmissionRepository.submitAnswers).toHaveBeenCalledWith(
+        'user-1',
+        'lesson-1',
+        'lesson-1-revision-1',
+        [{ problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: '4', isCorrect: true, xpEarned: 10, hintsUsed: 0 }],
+        'attempt-321',
+        42
+      );
+      expect(mockAchievementService.evaluateAfterSubmission).toHaveBeenCalledWith('user-1', {
+        attemptId: 'attempt-321',
+        totalXp: 1000,
+        bestStreak: 7,
+        score: 100,
+        timeSpent: 42,
+      });
+      expect(result.newAchievements).toEqual([badge]);
+      expect(mockLeaderboardService.joinCurrentWeek).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should still return the submission when achievements, the leaderboard and the draft fail', async () => {
+      // Arrange
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [{ id: 'problem-1', problemType: 'input', correctAnswer: '4', options: [] }],
+      });
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { attemptId: 'attempt-322', timeSpent: null },
+        xpEarned: 10,
+        streakUpdated: true,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 10,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+      mockAchievementService.evaluateAfterSubmission.mockRejectedValue(new Error('Database error'));
+      mockLeaderboardService.joinCurrentWeek.mockRejectedValue(new Error('Database error'));
+      mockAttemptDraftRepository.deleteByAttempt.mockRejectedValue(new Error('Database error'));
+
+      // Act
+      const result = await LessonService.submitLesson(
+        'lesson-1',
+        { attemptId: 'attempt-322', answers: [{ problemId: 'problem-1', answer: '4' }] },
+        'user-1'
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.newAchievements).toEqual([]);
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to unlock achievements after submission', {
+        error: 'Database error',
+        userId: 'user-1',
+        attemptId: 'attempt-322',
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to join leaderboard after submission', {
+        error: 'Database error',
+        userId: 'user-1',
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to discard attempt draft after submission', {
+        error: 'Database error',
+        userId: 'user-1',
+        attemptId: 'attempt-322',
+      });
+    });
+
+    it('should store the time spent on each answer and add them up for the attempt', async () => {
+      // Arrange
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          { id: 'problem-1', problemType: 'input', correctAnswer: '4', options: [] },
+          { id: 'problem-2', problemType: 'input', correctAnswer: '6', options: [] },
+        ],
+      });
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { attemptId: 'attempt-323', timeSpent: 37 },
+        xpEarned: 20,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 20,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+
+      // Act
+      await LessonService.submitLesson(
+        'lesson-1',
+        {
+          attemptId: 'attempt-323',
+          answers: [
+            { problemId: 'problem-1', answer: '4', timeSpent: 12 },
+            { problemId: 'problem-2', answer: '6', timeSpent: 25 },
+          ],
+        },
+        'user-1'
+      );
+
+      // Assert
+      const [, , , answers, , timeSpent] = mockSubmissionRepository.submitAnswers.mock.calls[0];
+      expect(answers.map((answer: { timeSpent?: number }) => answer.timeSpent)).toEqual([12, 25]);
+      expect(timeSpent).toBe(37);
+    });
+
+    it('should leave the attempt untimed when only some answers are timed', async () => {
+      // Arrange
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          { id: 'problem-1', problemType: 'input', correctAnswer: '4', options: [] },
+          { id: 'problem-2', problemType: 'input', correctAnswer: '6', options: [] },
+        ],
+      });
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { attemptId: 'attempt-324', timeSpent: null },
+        xpEarned: 20,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 20,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+
+      // Act
+      await LessonService.submitLesson(
+        'lesson-1',
+        {
+          attemptId: 'attempt-324',
+          answers: [
+            { problemId: 'problem-1', answer: '4', timeSpent: 12 },
+            { problemId: 'problem-2', answer: '6' },
+          ],
+        },
+        'user-1'
+      );
+
+      // Assert
+      expect(mockSubmissionRepository.submitAnswers.mock.calls[0][5]).toBeUndefined();
+    });
+
     it('should handle incorrect answers', async () => {
       // Arrange
       const lessonId = 'lesson-1';
@@ -335,6 +701,7 @@ describe('LessonService', () => {
 
       const mockLesson = {
         id: 'lesson-1',
+        hintPenalty: 25,
         title: 'Basic Addition',
         problems: [
           {
@@ -351,12 +718,15 @@ describe('LessonService', () => {
       };
 
       const mockSubmissionResult = {
-        submission: { id: 'submission-2' },
+        attempt: { id: 'attempt-2' },
         xpEarned: 0,
         streakUpdated: false,
         newStreak: 2,
+        bestStreak: 2,
         totalXp: 100,
         lessonCompleted: false,
+        score: 0,
+        bestScore: 0,
       };
 
       mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
@@ -370,12 +740,16 @@ describe('LessonService', () => {
         problemId: 'problem-1',
         userAnswer: '3',
         isCorrect: false,
+        reason: 'incorrect',
         correctAnswer: '4',
         explanation: '',
+        solutionSteps: [],
+        hintsUsed: 0,
         xpEarned: 0,
       });
       expect(result.xpEarned).toBe(0);
       expect(result.lesson.completed).toBe(false);
+      expect(mockExperimentService.recordOutcome).not.toHaveBeenCalled();
     });
 
     it('should handle input type problems with case-insensitive comparison', async () => {
@@ -391,6 +765,7 @@ describe('LessonService', () => {
 
       const mockLesson = {
         id: 'lesson-1',
+        hintPenalty: 25,
         title: 'Number Words',
         problems: [
           {
@@ -404,12 +779,15 @@ describe('LessonService', () => {
       };
 
       const mockSubmissionResult = {
-        submission: { id: 'submission-3' },
+        attempt: { id: 'attempt-3' },
         xpEarned: 10,
         streakUpdated: true,
         newStreak: 1,
+        bestStreak: 1,
         totalXp: 110,
         lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
       };
 
       mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
@@ -423,83 +801,257 @@ describe('LessonService', () => {
       expect(result.xpEarned).toBe(10);
     });
 
-    it('should throw error when lesson not found', async () => {
+    it('should accept equivalent numeric notations for input problems', async () => {
       // Arrange
-      const lessonId = 'non-existent';
-      const submitData = { attemptId: 'attempt-123', answers: [] };
-      mockLessonRepository.findByIdWithProblems.mockResolvedValue(null);
+      const submitData = {
+        attemptId: 'attempt-790',
+        answers: [
+          { problemId: 'problem-1', answer: '1/2' },
+          { problemId: 'problem-2', answer: '3.15' },
+        ],
+      };
 
-      // Act & Assert
-      await expect(LessonService.submitLesson(lessonId, submitData, 'user-1')).rejects.toThrow('Lesson not found');
+      const mockLesson = {
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          { id: 'problem-1', problemType: 'input', correctAnswer: '0.5', tolerance: null, options: [] },
+          { id: 'problem-2', problemType: 'input', correctAnswer: '3.14', tolerance: 0.01, options: [] },
+        ],
+      };
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { id: 'attempt-4' },
+        xpEarned: 20,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 130,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+
+      // Act
+      const result = await LessonService.submitLesson('lesson-1', submitData, 'user-1');
+
+      // Assert
+      expect(result.results.map(r => [r.isCorrect, r.reason])).toEqual([
+        [true, 'equivalent_value'],
+        [true, 'within_tolerance'],
+      ]);
     });
 
-    it('should throw error when not all problems are answered', async () => {
+    it('should grade structured answers for the new problem types', async () => {
       // Arrange
-      const lessonId = 'lesson-1';
       const submitData = {
-        attemptId: 'attempt-123',
+        attemptId: 'attempt-791',
         answers: [
-          { problemId: 'problem-1', answer: '4' },
-          // missing problem-2
+          { problemId: 'problem-1', answer: true },
+          { problemId: 'problem-2', answer: ['option-b', 'option-a'] },
+          { problemId: 'problem-3', answer: 0.75 },
         ],
       };
 
       const mockLesson = {
-        id: 'lesson-1',
+        id: 'lesson-4',
+        hintPenalty: 25,
         problems: [
-          { id: 'problem-1', question: 'Q1' },
-          { id: 'problem-2', question: 'Q2' },
+          { id: 'problem-1', problemType: 'true_false', correctAnswer: 'true', options: [] },
+          {
+            id: 'problem-2',
+            problemType: 'ordering',
+            correctAnswer: null,
+            options: [
+              { id: 'option-a', optionText: '1/2', isCorrect: false, correctOrder: 2 },
+              { id: 'option-b', optionText: '1/4', isCorrect: false, correctOrder: 1 },
+            ],
+          },
+          { id: 'problem-3', problemType: 'number_line', correctAnswer: '3/4', options: [] },
         ],
       };
 
       mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { id: 'attempt-5' },
+        xpEarned: 30,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 160,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+
+      // Act
+      const result = await LessonService.submitLesson('lesson-4', submitData, 'user-1');
+
+      // Assert
+      expect(result.results.every(r => r.isCorrect)).toBe(true);
+      expect(result.results[1].correctAnswer).toBe('1/4, 1/2');
+      expect(mockSubmissionRepository.submitAnswers).toHaveBeenCalledWith(
+        'user-1',
+        'lesson-4',
+        'lesson-4-revision-1',
+        [
+          { problemId: 'problem-1', problemRevisionId: 'problem-1-revision-1', answer: 'true', isCorrect: true, xpEarned: 10, hintsUsed: 0 },
+          { problemId: 'problem-2', problemRevisionId: 'problem-2-revision-1', answer: '["option-b","option-a"]', isCorrect: true, xpEarned: 10, hintsUsed: 0 },
+          { problemId: 'problem-3', problemRevisionId: 'problem-3-revision-1', answer: '0.75', isCorrect: true, xpEarned: 10, hintsUsed: 0 },
+        ],
+        'attempt-791',
+        undefined
+      );
+    });
+
+    it('should reject answers that do not match the problem type', async () => {
+      // Arrange
+      const submitData = {
+        attemptId: 'attempt-792',
+        answers: [{ problemId: 'problem-1', answer: 'true' }],
+      };
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-4',
+        hintPenalty: 25,
+        problems: [{ id: 'problem-1', problemType: 'true_false', correctAnswer: 'true', options: [] }],
+      });
 
       // Act & Assert
-      await expect(LessonService.submitLesson(lessonId, submitData, 'user-1')).rejects.toThrow('Answer required for problem: problem-2');
+      await expect(LessonService.submitLesson('lesson-4', submitData, 'user-1'))
+        .rejects.toThrow('Invalid answer for true_false problem: problem-1');
+      expect(mockSubmissionRepository.submitAnswers).not.toHaveBeenCalled();
     });
 
-    it('should use default userId when not provided', async () => {
+    it('should grade templated problems against the values stored for the attempt', async () => {
       // Arrange
-      const lessonId = 'lesson-1';
       const submitData = {
-        attemptId: 'attempt-123',
-        answers: [{ problemId: 'problem-1', answer: '4' }],
+        attemptId: 'attempt-793',
+        answers: [{ problemId: 'problem-1', answer: '17' }],
       };
 
-      const mockLesson = {
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
         id: 'lesson-1',
+        hintPenalty: 25,
         problems: [
           {
             id: 'problem-1',
             problemType: 'input',
-            correctAnswer: '4',
+            question: 'What is {a} + {b}?',
+            correctAnswer: '{a + b}',
+            template: { variables: { a: { min: 2, max: 9 }, b: { min: 2, max: 9 } } },
             options: [],
           },
         ],
-      };
-
-      const mockSubmissionResult = {
-        submission: { id: 'submission-1' },
+      });
+      mockProblemInstanceRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', values: { a: 8, b: 9 } },
+      ]);
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { id: 'attempt-6' },
         xpEarned: 10,
-        streakUpdated: true,
+        streakUpdated: false,
         newStreak: 1,
-        totalXp: 10,
+        bestStreak: 1,
+        totalXp: 170,
         lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
+
+      // Act
+      const result = await LessonService.submitLesson('lesson-1', submitData, 'user-1');
+
+      // Assert
+      expect(mockProblemInstanceRepository.findByAttempt).toHaveBeenCalledWith('user-1', 'attempt-793');
+      expect(mockProblemInstanceRepository.createMany).toHaveBeenCalledWith('user-1', 'attempt-793', []);
+      expect(result.results[0]).toMatchObject({ isCorrect: true, correctAnswer: '17' });
+    });
+
+    it('should take the lesson hint penalty off the XP for each hint revealed', async () => {
+      // Arrange
+      const submitData = {
+        attemptId: 'attempt-794',
+        answers: [
+          { problemId: 'problem-1', answer: '4' },
+          { problemId: 'problem-2', answer: '6' },
+        ],
       };
 
-      mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
-      mockSubmissionRepository.submitAnswers.mockResolvedValue(mockSubmissionResult);
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 30,
+        problems: [
+          { id: 'problem-1', problemType: 'input', correctAnswer: '4', hints: ['Count on from 2', 'Two more than 2'], options: [] },
+          { id: 'problem-2', problemType: 'input', correctAnswer: '6', hints: ['Count on from 3'], options: [] },
+        ],
+      });
+      // A stale count larger than the problem's hints is capped at the hints that exist
+      mockHintRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', hintsRevealed: 1 },
+        { problemId: 'problem-2', hintsRevealed: 5 },
+      ]);
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { id: 'attempt-7' },
+        xpEarned: 14,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 184,
+        lessonCompleted: true,
+        score: 100,
+        bestScore: 100,
+      });
 
       // Act
-      const result = await LessonService.submitLesson(lessonId, submitData);
+      const result = await LessonService.submitLesson('lesson-1', submitData, 'user-1');
 
       // Assert
-      expect(mockSubmissionRepository.submitAnswers).toHaveBeenCalledWith(
-        '1', // default userId
-        lessonId,
-        expect.any(Array),
-        'attempt-123'
-      );
+      expect(mockHintRepository.findByAttempt).toHaveBeenCalledWith('user-1', 'attempt-794');
+      const [, , , answers] = mockSubmissionRepository.submitAnswers.mock.calls[0];
+      expect(answers.map((answer: { xpEarned: number; hintsUsed: number }) => [answer.xpEarned, answer.hintsUsed]))
+        .toEqual([[7, 1], [7, 1]]);
+      expect(result.results[0]).toMatchObject({
+        hintsUsed: 1,
+        solutionSteps: ['Count on from 2', 'Two more than 2'],
+      });
+    });
+
+    it('should throw error when lesson not found', async () => {
+      // Arrange
+      const lessonId = 'non-existent';
+      const submitData = { attemptId: 'attempt-123', answers: [] };
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(LessonService.submitLesson(lessonId, submitData, 'user-1')).rejects.toThrow('Lesson not found');
+    });
+
+    it('should throw error when not all problems are answered', async () => {
+      // Arrange
+      const lessonId = 'lesson-1';
+      const submitData = {
+        attemptId: 'attempt-123',
+        answers: [
+          { problemId: 'problem-1', answer: '4' },
+          // missing problem-2
+        ],
+      };
+
+      const mockLesson = {
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          { id: 'problem-1', question: 'Q1' },
+          { id: 'problem-2', question: 'Q2' },
+        ],
+      };
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(mockLesson);
+
+      // Act & Assert
+      await expect(LessonService.submitLesson(lessonId, submitData, 'user-1')).rejects.toThrow('Answer required for problem: problem-2');
     });
 
     it('should handle database errors during submission', async () => {
@@ -511,6 +1063,7 @@ describe('LessonService', () => {
 
       // Act & Assert
       await expect(LessonService.submitLesson(lessonId, submitData, 'user-1')).rejects.toThrow('Database error');
+      expect(mockRecommendationCache.invalidate).not.toHaveBeenCalled();
       expect(mockLogger.error).toHaveBeenCalledWith('Failed to submit lesson', {
         error: 'Database error',
         lessonId,
@@ -520,6 +1073,590 @@ describe('LessonService', () => {
     });
   });
 
+  describe('submitLessonSchema', () => {
+    const submission = (answerTimes: number[], timeSpent?: number) => ({
+      attemptId: 'attempt-1',
+      answers: answerTimes.map((seconds, index) => ({ problemId: `problem-${index}`, answer: '4', timeSpent: seconds })),
+      timeSpent,
+    });
+
+    it('should accept answer times that fit in the lesson time', () => {
+      expect(submitLessonSchema.safeParse(submission([20, 30], 50)).success).toBe(true);
+      // One second of rounding per answer
+      expect(submitLessonSchema.safeParse(submission([20, 30], 48)).success).toBe(true);
+    });
+
+    it('should reject answer times longer than the lesson time', () => {
+      const result = submitLessonSchema.safeParse(submission([20, 30], 40));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['timeSpent'],
+        message: 'Answer times exceed the lesson time',
+      });
+    });
+
+    it('should reject answers longer than the answer limit', () => {
+      const withAnswer = (answer: string | string[]) => ({
+        attemptId: 'attempt-1',
+        answers: [{ problemId: 'problem-1', answer }],
+      });
+
+      expect(submitLessonSchema.safeParse(withAnswer('x'.repeat(MAX_ANSWER_LENGTH))).success).toBe(true);
+      expect(submitLessonSchema.safeParse(withAnswer('x'.repeat(MAX_ANSWER_LENGTH + 1))).success).toBe(false);
+      expect(submitLessonSchema.safeParse(withAnswer(['x'.repeat(MAX_ANSWER_LENGTH + 1)])).success).toBe(false);
+    });
+
+    it('should reject answering a problem more than once', () => {
+      const result = submitLessonSchema.safeParse({
+        attemptId: 'attempt-1',
+        answers: [
+          { problemId: 'problem-1', answer: '4' },
+          { problemId: 'problem-1', answer: '5' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        path: ['answers'],
+        message: 'Each problem can only be answered once',
+      });
+    });
+
+    it('should reject implausible answer times', () => {
+      expect(submitLessonSchema.safeParse(submission([-1])).success).toBe(false);
+      expect(submitLessonSchema.safeParse(submission([1.5])).success).toBe(false);
+      expect(submitLessonSchema.safeParse(submission([MAX_PROBLEM_TIME_SECONDS + 1])).success).toBe(false);
+    });
+  });
+
+  describe('saveAttemptSchema', () => {
+    const answers = (count: number) =>
+      Object.fromEntries(Array.from({ length: count }, (_, index) => [`problem-${index}`, '4']));
+
+    it('should accept any answer payloads by problem ID, even unfinished ones', () => {
+      const attempt = { attemptId: 'attempt-1', answers: { 'problem-1': '', 'problem-2': ['a', 'b'], 'problem-3': [] }, currentIndex: 2 };
+
+      expect(saveAttemptSchema.safeParse(attempt).success).toBe(true);
+    });
+
+    it('should reject too many answers and invalid positions', () => {
+      expect(saveAttemptSchema.safeParse({
+        attemptId: 'attempt-1',
+        answers: answers(MAX_DRAFT_ANSWERS + 1),
+        currentIndex: 0,
+      }).success).toBe(false);
+      expect(saveAttemptSchema.safeParse({ attemptId: 'attempt-1', answers: {}, currentIndex: -1 }).success).toBe(false);
+    });
+  });
+
+  describe('checkAnswer', () => {
+    const lesson = {
+      id: 'lesson-1',
+      hintPenalty: 25,
+      problems: [
+        { id: 'problem-1', problemType: 'input', correctAnswer: '4', explanation: '2 + 2 = 4', hints: ['Count on from 2'], options: [] },
+        { id: 'problem-2', problemType: 'true_false', correctAnswer: 'true', options: [] },
+      ],
+    };
+
+    beforeEach(() => {
+      mockAttemptDraftRepository.findActive.mockResolvedValue({ attemptId: 'attempt-1', lessonId: 'lesson-1' });
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(lesson);
+      mockAnswerCheckRepository.recordCheck.mockImplementation(
+        async (_userId: string, _attemptId: string, problemId: string, input: object) => ({ problemId, ...input })
+      );
+    });
+
+    it('should grade one answer with the hints revealed so far and record it', async () => {
+      // Arrange
+      mockHintRepository.findByAttempt.mockResolvedValue([{ problemId: 'problem-1', hintsRevealed: 1 }]);
+
+      // Act
+      const result = await LessonService.checkAnswer('lesson-1', 'problem-1', 'attempt-1', '4', 'user-1');
+
+      // Assert
+      expect(mockAnswerCheckRepository.recordCheck).toHaveBeenCalledWith('user-1', 'attempt-1', 'problem-1', {
+        answer: '4',
+        isCorrect: true,
+        xpEarned: 8,
+        hintsUsed: 1,
+      });
+      expect(mockAttemptDraftRepository.findActive).toHaveBeenCalledWith('user-1', 'lesson-1');
+      expect(result).toEqual({
+        problemId: 'problem-1',
+        userAnswer: '4',
+        isCorrect: true,
+        reason: 'exact_match',
+        explanation: '2 + 2 = 4',
+        hintsUsed: 1,
+        xpEarned: 8,
+      });
+    });
+
+    it('should not send the answer key or worked solution before the attempt is submitted', async () => {
+      // Act
+      const result = await LessonService.checkAnswer('lesson-1', 'problem-1', 'attempt-1', '5', 'user-1');
+
+      // Assert
+      expect(result.isCorrect).toBe(false);
+      expect(result).not.toHaveProperty('correctAnswer');
+      expect(result).not.toHaveProperty('solutionSteps');
+    });
+
+    it.each([
+      ['another attempt is in progress', { attemptId: 'attempt-2', lessonId: 'lesson-1' }],
+      ['no attempt is in progress', null],
+    ])('should reject attempts that are not in progress when %s', async (_case, draft) => {
+      // Arrange
+      mockAttemptDraftRepository.findActive.mockResolvedValue(draft);
+
+      // Act & Assert
+      await expect(LessonService.checkAnswer('lesson-1', 'problem-1', 'attempt-1', '4', 'user-1'))
+        .rejects.toThrow('Attempt is no longer in progress');
+      expect(mockLessonRepository.findByIdWithProblems).not.toHaveBeenCalled();
+      expect(mockAnswerCheckRepository.recordCheck).not.toHaveBeenCalled();
+    });
+
+    it('should return the first check when a problem is checked again', async () => {
+      // Arrange
+      mockAnswerCheckRepository.recordCheck.mockResolvedValue({
+        problemId: 'problem-1',
+        answer: '5',
+        isCorrect: false,
+        xpEarned: 0,
+        hintsUsed: 0,
+      });
+
+      // Act
+      const result = await LessonService.checkAnswer('lesson-1', 'problem-1', 'attempt-1', '4', 'user-1');
+
+      // Assert
+      expect(result).toMatchObject({ userAnswer: '5', isCorrect: false, xpEarned: 0 });
+    });
+
+    it('should reject answers that do not match the problem type', async () => {
+      await expect(LessonService.checkAnswer('lesson-1', 'problem-2', 'attempt-1', 'yes', 'user-1'))
+        .rejects.toThrow('Invalid answer for true_false problem: problem-2');
+      expect(mockAnswerCheckRepository.recordCheck).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the problem is not in the lesson', async () => {
+      await expect(LessonService.checkAnswer('lesson-1', 'problem-9', 'attempt-1', '4', 'user-1'))
+        .rejects.toThrow('Problem not found: problem-9');
+    });
+
+    it('should submit checked answers with the result they were checked with', async () => {
+      // Arrange
+      mockAnswerCheckRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', answer: '5', isCorrect: false, xpEarned: 0, hintsUsed: 1 },
+      ]);
+      mockHintRepository.findByAttempt.mockResolvedValue([{ problemId: 'problem-1', hintsRevealed: 1 }]);
+      mockSubmissionRepository.submitAnswers.mockResolvedValue({
+        attempt: { id: 'attempt-8' },
+        xpEarned: 10,
+        streakUpdated: false,
+        newStreak: 1,
+        bestStreak: 1,
+        totalXp: 50,
+        lessonCompleted: false,
+        score: 50,
+        bestScore: 50,
+      });
+
+      // Act
+      const result = await LessonService.submitLesson(
+        'lesson-1',
+        {
+          attemptId: 'attempt-1',
+          answers: [
+            { problemId: 'problem-1', answer: '4' },
+            { problemId: 'problem-2', answer: true },
+          ],
+        },
+        'user-1'
+      );
+
+      // Assert
+      const [, , , answers] = mockSubmissionRepository.submitAnswers.mock.calls[0];
+      expect(answers).toEqual([
+        expect.objectContaining({ problemId: 'problem-1', answer: '5', isCorrect: false, xpEarned: 0, hintsUsed: 1 }),
+        expect.objectContaining({ problemId: 'problem-2', answer: 'true', isCorrect: true, xpEarned: 10, hintsUsed: 0 }),
+      ]);
+      expect(result.results[0]).toMatchObject({ userAnswer: '5', isCorrect: false });
+    });
+  });
+
+  describe('revealHint', () => {
+    const lessonWithHints = {
+      id: 'lesson-1',
+      hintPenalty: 25,
+      problems: [
+        {
+          id: 'problem-1',
+          problemType: 'input',
+          question: 'What is {a} + {b}?',
+          correctAnswer: '{a + b}',
+          hints: ['Start from {a}', 'Count on {b} more'],
+          template: { variables: { a: { min: 2, max: 9 }, b: { min: 2, max: 9 } } },
+          options: [],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      mockAttemptDraftRepository.findActive.mockResolvedValue({ attemptId: 'attempt-1', lessonId: 'lesson-1' });
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(lessonWithHints);
+      mockProblemInstanceRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', values: { a: 3, b: 4 } },
+      ]);
+    });
+
+    it('should reveal the next hint rendered for the attempt and record it', async () => {
+      // Act
+      const result = await LessonService.revealHint('lesson-1', 'problem-1', 'attempt-1', 'user-1');
+
+      // Assert
+      expect(mockHintRepository.recordReveal).toHaveBeenCalledWith('user-1', 'attempt-1', 'problem-1', 1);
+      expect(result).toEqual({
+        problemId: 'problem-1',
+        hints: ['Start from 3'],
+        hintCount: 2,
+        xpAvailable: 8,
+      });
+    });
+
+    it('should not record anything once every hint is revealed', async () => {
+      // Arrange
+      mockHintRepository.findByAttempt.mockResolvedValue([{ problemId: 'problem-1', hintsRevealed: 2 }]);
+
+      // Act
+      const result = await LessonService.revealHint('lesson-1', 'problem-1', 'attempt-1', 'user-1');
+
+      // Assert
+      expect(mockHintRepository.recordReveal).not.toHaveBeenCalled();
+      expect(result.hints).toEqual(['Start from 3', 'Count on 4 more']);
+      expect(result.xpAvailable).toBe(5);
+    });
+
+    it('should reject reveals for an attempt that is not in progress', async () => {
+      // Arrange
+      mockAttemptDraftRepository.findActive.mockResolvedValue({ attemptId: 'attempt-2', lessonId: 'lesson-1' });
+
+      // Act & Assert
+      await expect(LessonService.revealHint('lesson-1', 'problem-1', 'attempt-1', 'user-1'))
+        .rejects.toThrow('Attempt is no longer in progress');
+      expect(mockAttemptDraftRepository.findActive).toHaveBeenCalledWith('user-1', 'lesson-1');
+      expect(mockHintRepository.recordReveal).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the lesson or problem does not exist', async () => {
+      await expect(LessonService.revealHint('lesson-1', 'problem-9', 'attempt-1', 'user-1'))
+        .rejects.toThrow('Problem not found: problem-9');
+
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue(null);
+      await expect(LessonService.revealHint('lesson-9', 'problem-1', 'attempt-1', 'user-1'))
+        .rejects.toThrow('Lesson not found');
+    });
+  });
+
+  describe('attempts in progress', () => {
+    const draft = (overrides: Record<string, unknown> = {}) => ({
+      id: 'draft-1',
+      userId: 'user-1',
+      lessonId: 'lesson-1',
+      attemptId: 'attempt-1',
+      answers: { 'problem-1': '7' },
+      currentIndex: 1,
+      startedAt: new Date('2025-09-10T10:00:00Z'),
+      updatedAt: new Date('2025-09-10T10:05:00Z'),
+      expiresAt: new Date('2025-09-17T10:05:00Z'),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockLessonRepository.findById.mockResolvedValue({ id: 'lesson-1' });
+    });
+
+    it('should resume the attempt in progress', async () => {
+      // Arrange
+      mockAttemptDraftRepository.findActive.mockResolvedValue(draft());
+
+      // Act
+      const result = await LessonService.getOrStartAttempt('lesson-1', 'user-1');
+
+      // Assert
+      expect(mockAttemptDraftRepository.findActive).toHaveBeenCalledWith('user-1', 'lesson-1');
+      expect(mockAttemptDraftRepository.start).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        attemptId: 'attempt-1',
+        lessonId: 'lesson-1',
+        answers: { 'problem-1': '7' },
+        currentIndex: 1,
+        checks: [],
+        startedAt: new Date('2025-09-10T10:00:00Z'),
+        updatedAt: new Date('2025-09-10T10:05:00Z'),
+        expiresAt: new Date('2025-09-17T10:05:00Z'),
+      });
+      expect(mockLessonRepository.findByIdWithProblems).not.toHaveBeenCalled();
+    });
+
+    it('should resume the answers already checked with the result they were given', async () => {
+      // Arrange
+      mockAttemptDraftRepository.findActive.mockResolvedValue(draft());
+      mockAnswerCheckRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', answer: '5', isCorrect: false, xpEarned: 0, hintsUsed: 1 },
+      ]);
+      mockLessonRepository.findByIdWithProblems.mockResolvedValue({
+        id: 'lesson-1',
+        hintPenalty: 25,
+        problems: [
+          { id: 'problem-1', problemType: 'input', correctAnswer: '4', explanation: '2 + 2 = 4', hints: ['Count on from 2'], options: [] },
+          { id: 'problem-2', problemType: 'input', correctAnswer: '6', options: [] },
+        ],
+      });
+
+      // Act
+      const result = await LessonService.getOrStartAttempt('lesson-1', 'user-1');
+
+      // Assert
+      expect(mockAnswerCheckRepository.findByAttempt).toHaveBeenCalledWith('user-1', 'attempt-1');
+      expect(result?.checks).toEqual([{
+        problemId: 'problem-1',
+        userAnswer: '5',
+        isCorrect: false,
+        reason: 'incorrect',
+        explanation: '2 + 2 = 4',
+        hintsUsed: 1,
+        xpEarned: 0,
+      }]);
+    });
+
+    it('should start a new attempt when none is in progress', async () => {
+      // Arrange
+      mockAttemptDraftRepository.findActive.mockResolvedValue(null);
+      mockAttemptDraftRepository.start.mockImplementation(
+        async (_userId: string, _lessonId: string, attemptId: string, expiresAt: Date) =>
+          draft({ attemptId, answers: {}, currentIndex: 0, expiresAt })
+      );
+      const before = Date.now();
+
+      // Act
+      const result = await LessonService.getOrStartAttempt('lesson-1', 'user-1');
+
+      // Assert
+      const [, , attemptId, expiresAt] = mockAttemptDraftRepository.start.mock.calls[0];
+      expect(attemptId).toMatch(/^attempt-[0-9a-f-]{36}$/);
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + ATTEMPT_DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000);
+      expect(result).toMatchObject({ attemptId, answers: {}, currentIndex: 0 });
+    });
+
+    it('should return null when the lesson does not exist', async () => {
+      // Arrange
+      mockLessonRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await LessonService.getOrStartAttempt('lesson-9', 'user-1');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockAttemptDraftRepository.findActive).not.toHaveBeenCalled();
+    });
+
+    it('should save the answers and keep the attempt for longer', async () => {
+      // Arrange
+      mockAttemptDraftRepository.save.mockResolvedValue(true);
+      mockAttemptDraftRepository.findActive.mockResolvedValue(draft({ currentIndex: 2 }));
+      const before = Date.now();
+
+      // Act
+      const result = await LessonService.saveAttempt(
+        'lesson-1',
+        { attemptId: 'attempt-1', answers: { 'problem-1': '7', 'problem-2': true }, currentIndex: 2 },
+        'user-1'
+      );
+
+      // Assert
+      expect(mockAttemptDraftRepository.save).toHaveBeenCalledWith('user-1', 'lesson-1', 'attempt-1', {
+        answers: { 'problem-1': '7', 'problem-2': true },
+        currentIndex: 2,
+        expiresAt: expect.any(Date),
+      });
+      const [, , , { expiresAt }] = mockAttemptDraftRepository.save.mock.calls[0];
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + ATTEMPT_DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000);
+      expect(result.currentIndex).toBe(2);
+    });
+
+    it('should refuse to save an attempt that is no longer in progress', async () => {
+      // Arrange
+      mockAttemptDraftRepository.save.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        LessonService.saveAttempt('lesson-1', { attemptId: 'attempt-old', answers: {}, currentIndex: 0 }, 'user-1')
+      ).rejects.toThrow('Attempt is no longer in progress');
+      expect(mockAttemptDraftRepository.findActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAttemptReview', () => {
+    const problemRevision = (overrides: Record<string, unknown> = {}) => ({
+      id: 'problem-1-revision-1',
+      problemId: 'problem-1',
+      revision: 1,
+      question: 'What is 2 + 2?',
+      problemType: 'multiple_choice',
+      correctAnswer: '4',
+      tolerance: null,
+      config: null,
+      template: null,
+      explanation: 'Two and two make four.',
+      difficulty: 'easy',
+      options: [
+        { id: 'opt-1', optionText: '3', isCorrect: false, order: 1, correctOrder: null },
+        { id: 'opt-2', optionText: '4', isCorrect: true, order: 2, correctOrder: null },
+      ],
+      createdAt: new Date('2024-01-10T10:00:00Z'),
+      ...overrides,
+    });
+
+    const attempt = (answers: unknown[], problemRevisionIds: string[]) => ({
+      id: 'attempt-row',
+      attemptId: 'attempt-123',
+      userId: 'user-1',
+      lessonId: 'lesson-1',
+      lessonRevisionId: 'lesson-1-revision-2',
+      score: 50,
+      isCorrect: false,
+      xpEarned: 10,
+      timeSpent: 60,
+      submittedAt: new Date('2024-01-15T10:00:00Z'),
+      lessonRevision: {
+        id: 'lesson-1-revision-2',
+        lessonId: 'lesson-1',
+        revision: 2,
+        title: 'Basic Addition',
+        description: 'Learn addition',
+        xpReward: 10,
+        difficulty: 'easy',
+        problemRevisionIds,
+      },
+      answers,
+    });
+
+    beforeEach(() => {
+      mockProblemInstanceRepository.findByAttempt.mockResolvedValue([]);
+    });
+
+    it('should replay each answer against the revision it was graded with, in lesson order', async () => {
+      // Arrange - the answers were stored out of order; problem-2 was since edited to revision 3
+      mockRevisionRepository.findAttemptWithRevisions.mockResolvedValue(attempt([
+        {
+          problemId: 'problem-2',
+          problemRevisionId: 'problem-2-revision-2',
+          userAnswer: '["opt-b","opt-a"]',
+          isCorrect: true,
+          xpEarned: 10,
+          problemRevision: problemRevision({
+            id: 'problem-2-revision-2',
+            problemId: 'problem-2',
+            revision: 2,
+            question: 'Order from smallest',
+            problemType: 'ordering',
+            correctAnswer: null,
+            options: [
+              { id: 'opt-a', optionText: '1/2', isCorrect: false, order: 1, correctOrder: 2 },
+              { id: 'opt-b', optionText: '1/4', isCorrect: false, order: 2, correctOrder: 1 },
+            ],
+          }),
+        },
+        {
+          problemId: 'problem-1',
+          problemRevisionId: 'problem-1-revision-1',
+          userAnswer: '3',
+          isCorrect: false,
+          xpEarned: 0,
+          problemRevision: problemRevision(),
+        },
+      ], ['problem-1-revision-1', 'problem-2-revision-2']));
+
+      // Act
+      const result = await LessonService.getAttemptReview('lesson-1', 'attempt-123', 'user-1');
+
+      // Assert
+      expect(mockRevisionRepository.findAttemptWithRevisions).toHaveBeenCalledWith('user-1', 'attempt-123');
+      expect(result).toMatchObject({
+        attemptId: 'attempt-123',
+        lessonRevision: 2,
+        title: 'Basic Addition',
+        score: 50,
+        completed: false,
+      });
+      expect(result!.problems).toEqual([
+        expect.objectContaining({
+          id: 'problem-1',
+          revision: 1,
+          order: 1,
+          question: 'What is 2 + 2?',
+          userAnswer: '3',
+          isCorrect: false,
+          correctAnswer: '4',
+          explanation: 'Two and two make four.',
+          options: [
+            { id: 'opt-1', optionText: '3', order: 1, isCorrect: false, correctOrder: null },
+            { id: 'opt-2', optionText: '4', order: 2, isCorrect: true, correctOrder: null },
+          ],
+        }),
+        expect.objectContaining({
+          id: 'problem-2',
+          revision: 2,
+          order: 2,
+          userAnswer: ['opt-b', 'opt-a'],
+          isCorrect: true,
+          correctAnswer: '1/4, 1/2',
+        }),
+      ]);
+    });
+
+    it('should render templated problems with the values drawn for the attempt', async () => {
+      // Arrange
+      mockRevisionRepository.findAttemptWithRevisions.mockResolvedValue(attempt([
+        {
+          problemId: 'problem-1',
+          problemRevisionId: 'problem-1-revision-1',
+          userAnswer: '17',
+          isCorrect: true,
+          xpEarned: 10,
+          problemRevision: problemRevision({
+            problemType: 'input',
+            question: 'What is {a} + {b}?',
+            correctAnswer: '{a + b}',
+            explanation: null,
+            template: { variables: { a: { min: 2, max: 9 }, b: { min: 2, max: 9 } } },
+            options: [],
+          }),
+        },
+      ], ['problem-1-revision-1']));
+      mockProblemInstanceRepository.findByAttempt.mockResolvedValue([
+        { problemId: 'problem-1', values: { a: 8, b: 9 } },
+      ]);
+
+      // Act
+      const result = await LessonService.getAttemptReview('lesson-1', 'attempt-123', 'user-1');
+
+      // Assert
+      expect(result!.problems[0]).toMatchObject({ question: 'What is 8 + 9?', correctAnswer: '17', userAnswer: '17' });
+    });
+
+    it('should return null for a missing attempt or an attempt at another lesson', async () => {
+      mockRevisionRepository.findAttemptWithRevisions.mockResolvedValueOnce(null);
+      await expect(LessonService.getAttemptReview('lesson-1', 'missing', 'user-1')).resolves.toBeNull();
+
+      mockRevisionRepository.findAttemptWithRevisions.mockResolvedValueOnce(attempt([], []));
+      await expect(LessonService.getAttemptReview('lesson-2', 'attempt-123', 'user-1')).resolves.toBeNull();
+    });
+  });
+
   describe('getLessonStats', () => {
     it('should return lesson statistics', async () => {
       // Arrange
@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import { LessonDifficulty } from '../../../core/skill-graph';
+import { AchievementDto } from '../../achievements/dtos/achievement.dto';
+import {
+  AnswerPayload,
+  GradingReason,
+  NumberLineConfig,
+  ProblemType,
+} from '../grading/grading.types';
+import { countBlanks, readNumberLineConfig } from '../grading/problem-config';
 
 /**
  * @swagger
@@ -12,6 +21,10 @@ import { z } from 'zod';
  *         - description
  *         - order
  *         - xpReward
+ *         - difficulty
+ *         - hintPenalty
+ *         - skills
+ *         - prerequisites
  *         - isActive
  *         - createdAt
  *         - updatedAt
@@ -38,6 +51,31 @@ import { z } from 'zod';
  *           minimum: 0
  *           example: 10
  *           description: XP reward for completing lesson
+ *         difficulty:
+ *           type: string
+ *           enum: [easy, medium, hard]
+ *           example: "easy"
+ *           description: Lesson difficulty level
+ *         hintPenalty:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *           example: 25
+ *           description: Percent of a problem's XP lost for every hint revealed
+ *         skills:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Skill'
+ *           description: Skills the lesson teaches
+ *         prerequisites:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LessonPrerequisite'
+ *           description: Lessons that must be completed before this one unlocks
+ *         isUnlocked:
+ *           type: boolean
+ *           example: true
+ *           description: Whether every prerequisite is completed (lessons list only)
  *         isActive:
  *           type: boolean
  *           example: true
@@ -55,6 +93,37 @@ import { z } from 'zod';
  *         progress:
  *           $ref: '#/components/schemas/LessonProgress'
  *
+ *     Skill:
+ *       type: object
+ *       required:
+ *         - id
+ *         - name
+ *         - description
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "skill-addition"
+ *         name:
+ *           type: string
+ *           example: "Addition"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Adding whole numbers"
+ *
+ *     LessonPrerequisite:
+ *       type: object
+ *       required:
+ *         - id
+ *         - title
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "lesson-1"
+ *         title:
+ *           type: string
+ *           example: "Basic Arithmetic"
+ *
  *     LessonProgress:
  *       type: object
  *       required:
@@ -93,6 +162,8 @@ import { z } from 'zod';
  *         - problemType
  *         - order
  *         - difficulty
+ *         - hintCount
+ *         - hints
  *       properties:
  *         id:
  *           type: string
@@ -104,7 +175,7 @@ import { z } from 'zod';
  *           description: The math problem question
  *         problemType:
  *           type: string
- *           enum: [multiple_choice, input]
+ *           enum: [multiple_choice, input, true_false, multi_select, ordering, fill_in_blanks, number_line]
  *           example: "multiple_choice"
  *           description: Type of problem interaction
  *         order:
@@ -121,7 +192,60 @@ import { z } from 'zod';
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/ProblemOption'
- *           description: Multiple choice options (if applicable)
+ *           description: Options for multiple_choice, multi_select and ordering problems (ordering options are shuffled)
+ *         numberLine:
+ *           $ref: '#/components/schemas/NumberLineConfig'
+ *         blankCount:
+ *           type: integer
+ *           minimum: 1
+ *           example: 2
+ *           description: Number of "___" blanks in the question (fill_in_blanks only)
+ *         hintCount:
+ *           type: integer
+ *           minimum: 0
+ *           example: 2
+ *           description: Number of hint steps the problem has
+ *         hints:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["Start at 5 and count up 3 more"]
+ *           description: Hints already revealed during the attempt, in order
+ *
+ *     NumberLineConfig:
+ *       type: object
+ *       required:
+ *         - min
+ *         - max
+ *         - step
+ *       properties:
+ *         min:
+ *           type: number
+ *           example: 0
+ *         max:
+ *           type: number
+ *           example: 1
+ *         step:
+ *           type: number
+ *           example: 0.125
+ *       description: Range of the number line (number_line only)
+ *
+ *     AnswerPayload:
+ *       oneOf:
+ *         - type: string
+ *           maxLength: 500
+ *         - type: boolean
+ *         - type: number
+ *         - type: array
+ *           items:
+ *             type: string
+ *             maxLength: 500
+ *       description: |
+ *         Answer shape depends on the problem type:
+ *         multiple_choice - option text; input - free text;
+ *         true_false - boolean; multi_select - selected option ids;
+ *         ordering - option ids in order; fill_in_blanks - one string per blank;
+ *         number_line - number
  *
  *     ProblemOption:
  *       type: object
@@ -171,8 +295,16 @@ import { z } from 'zod';
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/Answer'
- *           description: List of user answers
+ *           description: List of user answers, at most one per problem
  *           minItems: 1
+ *         timeSpent:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 86400
+ *           example: 95
+ *           description: |
+ *             Seconds the learner actively spent on the lesson. Must cover the answers' own
+ *             `timeSpent`; when left out it is their sum, if every answer has one.
  *
  *     Answer:
  *       type: object
@@ -185,9 +317,13 @@ import { z } from 'zod';
  *           example: "problem-1-1"
  *           description: ID of the problem being answered
  *         answer:
- *           type: string
- *           example: "8"
- *           description: User's answer to the problem
+ *           $ref: '#/components/schemas/AnswerPayload'
+ *         timeSpent:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 3600
+ *           example: 24
+ *           description: Seconds the problem was on screen while the tab was visible
  *
  *     SubmitLessonResponse:
  *       type: object
@@ -198,6 +334,7 @@ import { z } from 'zod';
  *         - streak
  *         - lesson
  *         - results
+ *         - newAchievements
  *       properties:
  *         success:
  *           type: boolean
@@ -222,6 +359,11 @@ import { z } from 'zod';
  *           items:
  *             $ref: '#/components/schemas/ProblemResult'
  *           description: Detailed results for each problem
+ *         newAchievements:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Achievement'
+ *           description: Achievements unlocked by this submission
  *
  *     StreakInfo:
  *       type: object
@@ -275,8 +417,11 @@ import { z } from 'zod';
  *         - problemId
  *         - userAnswer
  *         - isCorrect
+ *         - reason
  *         - correctAnswer
  *         - explanation
+ *         - solutionSteps
+ *         - hintsUsed
  *         - xpEarned
  *       properties:
  *         problemId:
@@ -284,26 +429,40 @@ import { z } from 'zod';
  *           example: "problem-1-1"
  *           description: ID of the problem
  *         userAnswer:
- *           type: string
- *           example: "8"
- *           description: User's submitted answer
+ *           $ref: '#/components/schemas/AnswerPayload'
  *         isCorrect:
  *           type: boolean
  *           example: true
  *           description: Whether the answer was correct
+ *         reason:
+ *           type: string
+ *           enum: [exact_match, equivalent_value, within_tolerance, equivalent_expression, incorrect, unparseable_answer, no_correct_answer]
+ *           example: "equivalent_value"
+ *           description: Why the answer was judged correct or incorrect
  *         correctAnswer:
  *           type: string
  *           example: "8"
- *           description: The correct answer
+ *           description: The correct answer, formatted for display
  *         explanation:
  *           type: string
  *           example: "5 + 3 = 8. Addition combines two numbers."
  *           description: Explanation of the solution
+ *         solutionSteps:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["Start at 5 and count up 3 more", "5, 6, 7, 8 - so 5 + 3 = 8"]
+ *           description: Every hint step, as a worked solution
+ *         hintsUsed:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *           description: Hints revealed before answering
  *         xpEarned:
  *           type: integer
  *           minimum: 0
- *           example: 10
- *           description: XP earned for this problem
+ *           example: 8
+ *           description: XP earned for this problem, after the hint penalty
  *
  *     LessonListResponse:
  *       allOf:
@@ -330,6 +489,312 @@ import { z } from 'zod';
  *           properties:
  *             data:
  *               $ref: '#/components/schemas/SubmitLessonResponse'
+ *
+ *     AttemptReviewOption:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ProblemOption'
+ *         - type: object
+ *           required:
+ *             - isCorrect
+ *             - correctOrder
+ *           properties:
+ *             isCorrect:
+ *               type: boolean
+ *               example: true
+ *             correctOrder:
+ *               type: integer
+ *               nullable: true
+ *               example: null
+ *               description: Position in the correct sequence (ordering only)
+ *
+ *     AttemptReviewProblem:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Problem'
+ *         - type: object
+ *           required:
+ *             - revision
+ *             - options
+ *             - userAnswer
+ *             - isCorrect
+ *             - xpEarned
+ *             - hintsUsed
+ *             - correctAnswer
+ *             - explanation
+ *           properties:
+ *             revision:
+ *               type: integer
+ *               minimum: 1
+ *               example: 2
+ *               description: Revision of the problem the answer was graded against
+ *             options:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AttemptReviewOption'
+ *             userAnswer:
+ *               $ref: '#/components/schemas/AnswerPayload'
+ *             isCorrect:
+ *               type: boolean
+ *               example: false
+ *             xpEarned:
+ *               type: integer
+ *               minimum: 0
+ *               example: 0
+ *             hintsUsed:
+ *               type: integer
+ *               minimum: 0
+ *               example: 2
+ *               description: Hints revealed before answering; `hints` holds every step at the time
+ *             correctAnswer:
+ *               type: string
+ *               example: "8"
+ *               description: The correct answer at the time, formatted for display
+ *             explanation:
+ *               type: string
+ *               example: "5 + 3 = 8. Addition combines two numbers."
+ *
+ *     AttemptReview:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - lessonId
+ *         - lessonRevision
+ *         - title
+ *         - description
+ *         - submittedAt
+ *         - score
+ *         - completed
+ *         - xpEarned
+ *         - timeSpent
+ *         - problems
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-123-456"
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-1"
+ *         lessonRevision:
+ *           type: integer
+ *           minimum: 1
+ *           example: 3
+ *           description: Revision of the lesson the attempt was graded against
+ *         title:
+ *           type: string
+ *           example: "Basic Arithmetic"
+ *           description: Lesson title at the time
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Learn addition and subtraction basics"
+ *         submittedAt:
+ *           type: string
+ *           format: date-time
+ *           example: "2025-08-08T10:30:00.000Z"
+ *         score:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 100
+ *           example: 75
+ *         completed:
+ *           type: boolean
+ *           example: false
+ *         xpEarned:
+ *           type: integer
+ *           minimum: 0
+ *           example: 30
+ *         timeSpent:
+ *           type: integer
+ *           nullable: true
+ *           example: 95
+ *         problems:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AttemptReviewProblem'
+ *           description: Answered problems as they were shown, in lesson order
+ *
+ *     RevealHintRequest:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-123-456"
+ *           description: Attempt the lesson was opened for
+ *
+ *     CheckAnswerRequest:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - answer
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-123-456"
+ *           description: Attempt the lesson was opened for
+ *         answer:
+ *           $ref: '#/components/schemas/AnswerPayload'
+ *
+ *     AnswerCheck:
+ *       type: object
+ *       description: A checked answer; the answer key and worked solution are only sent once the attempt is submitted
+ *       required:
+ *         - problemId
+ *         - userAnswer
+ *         - isCorrect
+ *         - reason
+ *         - explanation
+ *         - hintsUsed
+ *         - xpEarned
+ *       properties:
+ *         problemId:
+ *           type: string
+ *           example: "problem-1-1"
+ *         userAnswer:
+ *           $ref: '#/components/schemas/AnswerPayload'
+ *         isCorrect:
+ *           type: boolean
+ *           example: true
+ *         reason:
+ *           type: string
+ *           enum: [exact_match, equivalent_value, within_tolerance, equivalent_expression, incorrect, unparseable_answer, no_correct_answer]
+ *           example: "exact_match"
+ *         explanation:
+ *           type: string
+ *           example: "5 + 3 = 8. Addition combines two numbers."
+ *         hintsUsed:
+ *           type: integer
+ *           minimum: 0
+ *           example: 0
+ *         xpEarned:
+ *           type: integer
+ *           minimum: 0
+ *           example: 10
+ *
+ *     CheckAnswerResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AnswerCheck'
+ *
+ *     HintReveal:
+ *       type: object
+ *       required:
+ *         - problemId
+ *         - hints
+ *         - hintCount
+ *         - xpAvailable
+ *       properties:
+ *         problemId:
+ *           type: string
+ *           example: "problem-1-1"
+ *         hints:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["Start at 5 and count up 3 more"]
+ *           description: Every hint revealed so far, in order
+ *         hintCount:
+ *           type: integer
+ *           minimum: 0
+ *           example: 2
+ *         xpAvailable:
+ *           type: integer
+ *           minimum: 0
+ *           example: 8
+ *           description: XP a correct answer still earns
+ *
+ *     HintRevealResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/HintReveal'
+ *
+ *     AttemptReviewResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AttemptReview'
+ *
+ *     AttemptDraft:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - lessonId
+ *         - answers
+ *         - currentIndex
+ *         - checks
+ *         - startedAt
+ *         - updatedAt
+ *         - expiresAt
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-3f1c2a9e-8d4b-4c1e-9f7a-2b6d5e0c1a3f"
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-1"
+ *         answers:
+ *           type: object
+ *           additionalProperties:
+ *             $ref: '#/components/schemas/AnswerPayload'
+ *           example: { "problem-1-1": "8" }
+ *           description: Answers given so far, by problem ID
+ *         currentIndex:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *           description: Index of the problem the learner is on
+ *         checks:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AnswerCheck'
+ *           description: Answers already checked for instant feedback, which are final
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the attempt is dropped if it is not saved again
+ *
+ *     SaveAttemptRequest:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - answers
+ *         - currentIndex
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           example: "attempt-3f1c2a9e-8d4b-4c1e-9f7a-2b6d5e0c1a3f"
+ *         answers:
+ *           type: object
+ *           additionalProperties:
+ *             $ref: '#/components/schemas/AnswerPayload'
+ *           example: { "problem-1-1": "8" }
+ *           description: Answers so far by problem ID (at most 100); unfinished ones may be empty
+ *         currentIndex:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *
+ *     AttemptDraftResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/AttemptDraft'
  */
 
 /**
@@ -343,6 +808,11 @@ export interface LessonDto {
   description: string;
   order: number;
   xpReward: number;
+  difficulty: LessonDifficulty;
+  hintPenalty: number;
+  skills: SkillDto[];
+  prerequisites: LessonPrerequisiteDto[];
+  isUnlocked?: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -354,14 +824,31 @@ export interface LessonDto {
   };
 }
 
+// Skill DTO
+export interface SkillDto {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+// Lesson prerequisite DTO
+export interface LessonPrerequisiteDto {
+  id: string;
+  title: string;
+}
+
 // Problem DTO (without correct answers for frontend)
 export interface ProblemDto {
   id: string;
   question: string;
-  problemType: 'multiple_choice' | 'input';
+  problemType: ProblemType;
   order: number;
   difficulty: 'easy' | 'medium' | 'hard';
   options?: ProblemOptionDto[];
+  numberLine?: NumberLineConfig;
+  blankCount?: number;
+  hintCount: number;
+  hints: string[]; // Revealed so far
 }
 
 // Problem option DTO (without isCorrect for frontend)
@@ -372,7 +859,7 @@ export interface ProblemOptionDto {
 }
 
 // Lesson with problems DTO
-export interface LessonWithProblemsDto extends Omit<LessonDto, 'progress'> {
+export interface LessonWithProblemsDto extends Omit<LessonDto, 'progress' | 'isUnlocked'> {
   problems: ProblemDto[];
 }
 
@@ -380,12 +867,14 @@ export interface LessonWithProblemsDto extends Omit<LessonDto, 'progress'> {
 export interface SubmitLessonDto {
   attemptId: string;
   answers: AnswerDto[];
+  timeSpent?: number;
 }
 
 // Individual answer DTO
 export interface AnswerDto {
   problemId: string;
-  answer: string;
+  answer: AnswerPayload;
+  timeSpent?: number; // Active seconds on the problem
 }
 
 // Submit lesson response DTO
@@ -404,61 +893,217 @@ export interface SubmitLessonResponseDto {
     bestScore: number;
   };
   results: ProblemResultDto[];
+  newAchievements: AchievementDto[];
 }
 
 // Individual problem result DTO
 export interface ProblemResultDto {
   problemId: string;
-  userAnswer: string;
+  userAnswer: AnswerPayload;
   isCorrect: boolean;
+  reason: GradingReason;
   correctAnswer: string;
   explanation: string;
+  solutionSteps: string[];
+  hintsUsed: number;
   xpEarned: number;
 }
 
+// Answer checked during an attempt, without the answer key until the attempt is submitted
+export type AnswerCheckDto = Omit<ProblemResultDto, 'correctAnswer' | 'solutionSteps'>;
+
+// Hints of a problem revealed so far during an attempt
+export interface HintRevealDto {
+  problemId: string;
+  hints: string[];
+  hintCount: number;
+  xpAvailable: number;
+}
+
+// Option of a reviewed attempt, with the answer key at the time
+export interface AttemptReviewOptionDto extends ProblemOptionDto {
+  isCorrect: boolean;
+  correctOrder: number | null;
+}
+
+// Answered problem of a reviewed attempt, as graded
+export interface AttemptReviewProblemDto extends Omit<ProblemDto, 'options'> {
+  revision: number;
+  options: AttemptReviewOptionDto[];
+  userAnswer: AnswerPayload;
+  isCorrect: boolean;
+  xpEarned: number;
+  hintsUsed: number;
+  correctAnswer: string;
+  explanation: string;
+}
+
+// A submitted attempt replayed from the revisions it was graded against
+export interface AttemptReviewDto {
+  attemptId: string;
+  lessonId: string;
+  lessonRevision: number;
+  title: string;
+  description: string | null;
+  submittedAt: Date;
+  score: number;
+  completed: boolean;
+  xpEarned: number;
+  timeSpent: number | null;
+  problems: AttemptReviewProblemDto[];
+}
+
+// An attempt in progress, saved so it can be resumed on any device
+export interface AttemptDraftDto {
+  attemptId: string;
+  lessonId: string;
+  answers: Record<string, AnswerPayload>;
+  currentIndex: number;
+  checks: AnswerCheckDto[];
+  startedAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
 /**
  * Validation Schemas
  */
 
+// Answer payload per problem type (checked against the stored problem in LessonService)
+export const answerPayloadSchemas: Record<ProblemType, z.ZodType<AnswerPayload>> = {
+  multiple_choice: z.string().min(1, 'Answer is required'),
+  input: z.string().min(1, 'Answer is required'),
+  true_false: z.boolean(),
+  multi_select: z.array(z.string().min(1)).min(1, 'Select at least one option'),
+  ordering: z.array(z.string().min(1)).min(2, 'Order at least two options'),
+  fill_in_blanks: z.array(z.string().min(1, 'Every blank is required')).min(1, 'Answer is required'),
+  number_line: z.number().finite(),
+};
+
+// Longest plausible time on one problem (an hour) and on a whole lesson (a day), in seconds
+export const MAX_PROBLEM_TIME_SECONDS = 3600;
+export const MAX_LESSON_TIME_SECONDS = 86400;
+
+// Longest text answer accepted; no problem needs more, and it bounds the work of grading one
+export const MAX_ANSWER_LENGTH = 500;
+
+// Any answer payload; its shape is checked against the problem type when graded
+const answerSchema = z.union([
+  z.string().min(1, 'Answer is required').max(MAX_ANSWER_LENGTH, 'Answer is too long'),
+  z.boolean(),
+  z.number().finite(),
+  z.array(z.string().max(MAX_ANSWER_LENGTH, 'Answer is too long')).min(1, 'Answer is required'),
+]);
+
 // Submit lesson validation schema
 export const submitLessonSchema = z.object({
   attemptId: z.string().min(1, 'Attempt ID is required'),
   answers: z.array(
     z.object({
       problemId: z.string().min(1, 'Problem ID is required'),
-      answer: z.string().min(1, 'Answer is required'),
+      answer: answerSchema,
+      timeSpent: z.number().int().min(0).max(MAX_PROBLEM_TIME_SECONDS).optional(),
     })
-  ).min(1, 'At least one answer is required'),
+  ).min(1, 'At least one answer is required')
+    .refine(
+      answers => new Set(answers.map(answer => answer.problemId)).size === answers.length,
+      'Each problem can only be answered once'
+    ),
+  timeSpent: z.number().int().min(0).max(MAX_LESSON_TIME_SECONDS).optional(),
+}).refine(
+  // Each answer's time is rounded on its own, so allow a second of rounding per answer
+  submission => submission.timeSpent === undefined ||
+    submission.answers.reduce((sum, answer) => sum + (answer.timeSpent ?? 0), 0) <=
+      submission.timeSpent + submission.answers.length,
+  { message: 'Answer times exceed the lesson time', path: ['timeSpent'] }
+);
+
+// Lesson ID parameter validation
+export const lessonIdSchema = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
 });
 
-// Query parameters for lessons list
-export const lessonsQuerySchema = z.object({
-  userId: z.string().optional(),
+// Attempt review parameter validation
+export const attemptReviewParamsSchema = z.object({
+  id: z.string().min(1, 'Lesson ID is required'),
+  attemptId: z.string().min(1, 'Attempt ID is required'),
 });
 
-// Lesson ID parameter validation
-export const lessonIdSchema = z.object({
+// Lesson detail query validation
+export const lessonQuerySchema = z.object({
+  attemptId: z.string().min(1).optional(),
+});
+
+// Lesson problem parameter validation
+export const lessonProblemParamsSchema = z.object({
   id: z.string().min(1, 'Lesson ID is required'),
+  problemId: z.string().min(1, 'Problem ID is required'),
 });
 
+// Hint reveal validation schema
+export const revealHintSchema = z.object({
+  attemptId: z.string().min(1, 'Attempt ID is required'),
+});
+
+// Answer check validation schema
+export const checkAnswerSchema = z.object({
+  attemptId: z.string().min(1, 'Attempt ID is required'),
+  answer: answerSchema,
+});
+
+// Most answers an attempt in progress may hold
+export const MAX_DRAFT_ANSWERS = 100;
+
+// Answers in progress may still be empty, e.g. a cleared input
+const draftAnswerSchema = z.union([
+  z.string().max(MAX_ANSWER_LENGTH, 'Answer is too long'),
+  z.boolean(),
+  z.number().finite(),
+  z.array(z.string().max(MAX_ANSWER_LENGTH, 'Answer is too long')),
+]);
+
+// Attempt autosave validation schema
+export const saveAttemptSchema = z.object({
+  attemptId: z.string().min(1, 'Attempt ID is required'),
+  answers: z.record(z.string().min(1), draftAnswerSchema).refine(
+    answers => Object.keys(answers).length <= MAX_DRAFT_ANSWERS,
+    { message: `At most ${MAX_DRAFT_ANSWERS} answers can be saved` }
+  ),
+  currentIndex: z.number().int().min(0),
+});
+
+export type SaveAttemptDto = z.infer<typeof saveAttemptSchema>;
+
 /**
  * Transform functions
  */
 
+// Transform Skill entity to DTO
+export const transformSkillToDto = (skill: any): SkillDto => ({
+  id: skill.id,
+  name: skill.name,
+  description: skill.description,
+});
+
 // Transform Lesson entity to DTO
-export const transformLessonToDto = (lesson: any): LessonDto => ({
+export const transformLessonToDto = (lesson: any, isUnlocked?: boolean): LessonDto => ({
   id: lesson.id,
   title: lesson.title,
   description: lesson.description,
   order: lesson.order,
   xpReward: lesson.xpReward,
+  difficulty: lesson.difficulty,
+  hintPenalty: lesson.hintPenalty,
+  skills: lesson.skills?.map(transformSkillToDto) || [],
+  prerequisites: lesson.prerequisites || [],
+  isUnlocked,
   isActive: lesson.isActive,
   createdAt: lesson.createdAt,
   updatedAt: lesson.updatedAt,
   progress: lesson.progress,
 });
 
-// Transform Problem entity to DTO (excluding sensitive data)
+// Transform Problem entity to DTO (excluding sensitive data); only `revealedHints` are shown
 export const transformProblemToDto = (problem: any): ProblemDto => ({
   id: problem.id,
   question: problem.question,
@@ -466,6 +1111,10 @@ export const transformProblemToDto = (problem: any): ProblemDto => ({
   order: problem.order,
   difficulty: problem.difficulty,
   options: problem.options?.map(transformProblemOptionToDto),
+  ...(problem.problemType === 'number_line' && { numberLine: readNumberLineConfig(problem.config) }),
+  ...(problem.problemType === 'fill_in_blanks' && { blankCount: countBlanks(problem.question) }),
+  hintCount: problem.hints?.length ?? 0,
+  hints: problem.revealedHints ?? [],
 });
 
 // Transform ProblemOption entity to DTO (excluding isCorrect)
@@ -482,8 +1131,51 @@ export const transformLessonWithProblemsToDto = (lesson: any): LessonWithProblem
   description: lesson.description,
   order: lesson.order,
   xpReward: lesson.xpReward,
+  difficulty: lesson.difficulty,
+  hintPenalty: lesson.hintPenalty,
+  skills: lesson.skills?.map(transformSkillToDto) || [],
+  prerequisites: lesson.prerequisites || [],
   isActive: lesson.isActive,
   createdAt: lesson.createdAt,
   updatedAt: lesson.updatedAt,
   problems: lesson.problems?.map(transformProblemToDto) || [],
 });
+
+// Transform an answered problem revision to a review DTO (answer key included)
+export const transformAttemptReviewProblemToDto = (
+  problem: any,
+  answer: Pick<AttemptReviewProblemDto, 'revision' | 'userAnswer' | 'isCorrect' | 'xpEarned' | 'hintsUsed' | 'correctAnswer'>
+): AttemptReviewProblemDto => ({
+  ...transformProblemToDto(problem),
+  hints: problem.hints ?? [],
+  options: problem.options.map((option: any) => ({
+    ...transformProblemOptionToDto(option),
+    isCorrect: option.isCorrect,
+    correctOrder: option.correctOrder,
+  })),
+  ...answer,
+  explanation: problem.explanation || '',
+});
+
+// Transform a graded answer to an instant check (answer key and worked solution left out)
+export const transformProblemResultToCheckDto = (result: ProblemResultDto): AnswerCheckDto => ({
+  problemId: result.problemId,
+  userAnswer: result.userAnswer,
+  isCorrect: result.isCorrect,
+  reason: result.reason,
+  explanation: result.explanation,
+  hintsUsed: result.hintsUsed,
+  xpEarned: result.xpEarned,
+});
+
+// Transform an attempt draft to DTO, with the answers checked so far
+export const transformAttemptDraftToDto = (draft: any, checks: AnswerCheckDto[]): AttemptDraftDto => ({
+  attemptId: draft.attemptId,
+  lessonId: draft.lessonId,
+  answers: draft.answers ?? {},
+  currentIndex: draft.currentIndex,
+  checks,
+  startedAt: draft.startedAt,
+  updatedAt: draft.updatedAt,
+  expiresAt: draft.expiresAt,
+});
@@ -0,0 +1,337 @@
+/**
+ * Grading Engine Unit Tests
+ * Answer parsing, per-type graders, the grader registry and authored problem validation (no database involved)
+ */
+
+import {
+  parseNumericAnswer,
+  parseExpression,
+  evaluateExpression,
+  MAX_EXPRESSION_DEPTH,
+  inputGrader,
+  multipleChoiceGrader,
+  trueFalseGrader,
+  multiSelectGrader,
+  orderingGrader,
+  fillInBlanksGrader,
+  numberLineGrader,
+  countBlanks,
+  readNumberLineConfig,
+  GraderRegistry,
+  PROBLEM_TYPES,
+  createDefaultGraderRegistry,
+  GradableProblem,
+  validateProblem,
+} from '..';
+
+const inputProblem = (correctAnswer: string | null, tolerance: number | null = null): GradableProblem => ({
+  problemType: 'input',
+  correctAnswer,
+  tolerance,
+  options: [],
+});
+
+describe('parseNumericAnswer', () => {
+  it.each([
+    ['42', 42],
+    ['-7', -7],
+    ['0.5', 0.5],
+    ['.5', 0.5],
+    ['+3.', 3],
+    ['1/2', 0.5],
+    ['-3/4', -0.75],
+    [' 6 / 8 ', 0.75],
+    ['1 1/2', 1.5],
+    ['-2 1/4', -2.25],
+    ['50%', 0.5],
+    ['12.5%', 0.125],
+    ['x = 4', 4],
+    ['−5', -5],
+  ])('should parse %p as %p', (input, expected) => {
+    expect(parseNumericAnswer(input)).toBeCloseTo(expected, 10);
+  });
+
+  it.each(['', 'abc', '1/0', '2 1/0', '1..2', '3x', '1/2/3'])('should reject %p', (input) => {
+    expect(parseNumericAnswer(input)).toBeNull();
+  });
+});
+
+describe('parseExpression', () => {
+  it('should respect precedence, unary minus and right-associative powers', () => {
+    const tree = parseExpression('-2^2 + 3*4 - 2^3^2 / 64')!;
+    expect(evaluateExpression(tree, {})).toBeCloseTo(-4 + 12 - 8, 10);
+  });
+
+  it('should insert implicit multiplication', () => {
+    const tree = parseExpression('2x(x + 1)y')!;
+    expect(evaluateExpression(tree, { x: 3, y: 2 })).toBe(48);
+  });
+
+  it('should accept typographic operators', () => {
+    const tree = parseExpression('6 ÷ 3 × x − 1')!;
+    expect(evaluateExpression(tree, { x: 5 })).toBe(9);
+  });
+
+  it.each(['', '2 +', '(x + 1', 'x + 1)', '2 ** 3', '$x'])('should reject %p', (input) => {
+    expect(parseExpression(input)).toBeNull();
+  });
+
+  it('should follow nesting up to the depth limit and reject anything deeper', () => {
+    const nested = (depth: number) => '('.repeat(depth) + 'x' + ')'.repeat(depth);
+
+    expect(evaluateExpression(parseExpression(nested(MAX_EXPRESSION_DEPTH - 1))!, { x: 2 })).toBe(2);
+    expect(parseExpression(nested(MAX_EXPRESSION_DEPTH))).toBeNull();
+    expect(parseExpression('-'.repeat(MAX_EXPRESSION_DEPTH) + 'x')).toBeNull();
+  });
+});
+
+describe('inputGrader', () => {
+  it('should match text answers case- and whitespace-insensitively', () => {
+    expect(inputGrader.grade(inputProblem('six'), '  SIX ')).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(inputGrader.grade(inputProblem('six'), 'seven')).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it.each(['1/2', '.5', '50%', '0.50', '2/4'])('should accept %p for 0.5', (answer) => {
+    expect(inputGrader.grade(inputProblem('0.5'), answer)).toEqual({ isCorrect: true, reason: 'equivalent_value' });
+  });
+
+  it('should accept a mixed number for an improper fraction', () => {
+    expect(inputGrader.grade(inputProblem('7/4'), '1 3/4')).toEqual({ isCorrect: true, reason: 'equivalent_value' });
+  });
+
+  it('should apply the problem tolerance', () => {
+    expect(inputGrader.grade(inputProblem('3.14', 0.01), '3.149')).toEqual({ isCorrect: true, reason: 'within_tolerance' });
+    expect(inputGrader.grade(inputProblem('3.14', 0.01), '3.16')).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(inputGrader.grade(inputProblem('3.14'), '3.149')).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should flag non-numeric answers to numeric problems as unparseable', () => {
+    expect(inputGrader.grade(inputProblem('12'), 'twelve')).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+
+  it('should not accept arithmetic in place of a numeric answer', () => {
+    expect(inputGrader.grade(inputProblem('5'), '2+3').isCorrect).toBe(false);
+  });
+
+  it.each(['2x + 6', '6 + 2x', '2(x+3)', 'x*2 + 3*2'])('should accept %p for 2(x + 3)', (answer) => {
+    const result = inputGrader.grade(inputProblem('2(x + 3)'), answer);
+    expect(result.isCorrect).toBe(true);
+  });
+
+  it('should accept expanded squares and reject non-equivalent expressions', () => {
+    expect(inputGrader.grade(inputProblem('(x+1)^2'), 'x^2 + 2x + 1')).toEqual({ isCorrect: true, reason: 'equivalent_expression' });
+    expect(inputGrader.grade(inputProblem('(x+1)^2'), 'x^2 + 1')).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(inputGrader.grade(inputProblem('x + y'), 'x + x')).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(inputGrader.grade(inputProblem('3x'), '3x +')).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+
+  it('should flag deeply nested expressions as unparseable instead of overflowing the stack', () => {
+    const answer = '('.repeat(30000) + 'x' + ')'.repeat(30000);
+
+    expect(inputGrader.grade(inputProblem('2x+3'), answer)).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+
+  it('should report problems without a correct answer', () => {
+    expect(inputGrader.grade(inputProblem(null), '4')).toEqual({ isCorrect: false, reason: 'no_correct_answer' });
+  });
+});
+
+describe('multipleChoiceGrader', () => {
+  const problem: GradableProblem = {
+    problemType: 'multiple_choice',
+    correctAnswer: '8',
+    options: [
+      { id: 'a', optionText: '7', isCorrect: false },
+      { id: 'b', optionText: '8', isCorrect: true },
+    ],
+  };
+
+  it('should compare with the correct option', () => {
+    expect(multipleChoiceGrader.grade(problem, '8')).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(multipleChoiceGrader.grade(problem, '7')).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should report problems without a correct option', () => {
+    expect(multipleChoiceGrader.grade({ ...problem, options: [] }, '8')).toEqual({ isCorrect: false, reason: 'no_correct_answer' });
+  });
+
+  it('should flag non-text answers as unparseable', () => {
+    expect(multipleChoiceGrader.grade(problem, ['b'])).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+});
+
+describe('trueFalseGrader', () => {
+  const problem: GradableProblem = { problemType: 'true_false', correctAnswer: 'false' };
+
+  it('should compare the boolean with the stored answer', () => {
+    expect(trueFalseGrader.grade(problem, false)).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(trueFalseGrader.grade(problem, true)).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should reject non-boolean answers and misconfigured problems', () => {
+    expect(trueFalseGrader.grade(problem, 'false')).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+    expect(trueFalseGrader.grade({ ...problem, correctAnswer: 'yes' }, true)).toEqual({ isCorrect: false, reason: 'no_correct_answer' });
+  });
+});
+
+describe('multiSelectGrader', () => {
+  const problem: GradableProblem = {
+    problemType: 'multi_select',
+    correctAnswer: null,
+    options: [
+      { id: 'a', optionText: '2', isCorrect: true },
+      { id: 'b', optionText: '4', isCorrect: false },
+      { id: 'c', optionText: '7', isCorrect: true },
+    ],
+  };
+
+  it('should require exactly the correct options in any order', () => {
+    expect(multiSelectGrader.grade(problem, ['c', 'a'])).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(multiSelectGrader.grade(problem, ['a'])).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(multiSelectGrader.grade(problem, ['a', 'b', 'c'])).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should format the correct options for display', () => {
+    expect(multiSelectGrader.formatCorrectAnswer!(problem)).toBe('2, 7');
+  });
+});
+
+describe('orderingGrader', () => {
+  const problem: GradableProblem = {
+    problemType: 'ordering',
+    correctAnswer: null,
+    options: [
+      { id: 'a', optionText: '3/4', isCorrect: false, correctOrder: 3 },
+      { id: 'b', optionText: '1/4', isCorrect: false, correctOrder: 1 },
+      { id: 'c', optionText: '1/2', isCorrect: false, correctOrder: 2 },
+    ],
+  };
+
+  it('should follow the configured sequence', () => {
+    expect(orderingGrader.grade(problem, ['b', 'c', 'a'])).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(orderingGrader.grade(problem, ['a', 'c', 'b'])).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(orderingGrader.grade(problem, ['b', 'c'])).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should format the sequence and report problems without one', () => {
+    expect(orderingGrader.formatCorrectAnswer!(problem)).toBe('1/4, 1/2, 3/4');
+    expect(orderingGrader.grade({ ...problem, options: [] }, ['a', 'b'])).toEqual({ isCorrect: false, reason: 'no_correct_answer' });
+  });
+});
+
+describe('fillInBlanksGrader', () => {
+  const problem: GradableProblem = {
+    problemType: 'fill_in_blanks',
+    correctAnswer: '["3", "x + 1"]',
+  };
+
+  it('should grade each blank like an input answer', () => {
+    expect(fillInBlanksGrader.grade(problem, ['3', 'x+1'])).toEqual({ isCorrect: true, reason: 'equivalent_expression' });
+    expect(fillInBlanksGrader.grade(problem, ['3', 'x + 1'])).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(fillInBlanksGrader.grade(problem, ['6/2', '1 + x']).isCorrect).toBe(true);
+    expect(fillInBlanksGrader.grade(problem, ['3', 'x'])).toEqual({ isCorrect: false, reason: 'incorrect' });
+  });
+
+  it('should require one answer per blank', () => {
+    expect(fillInBlanksGrader.grade(problem, ['3'])).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+
+  it('should report malformed blank answers', () => {
+    expect(fillInBlanksGrader.grade({ ...problem, correctAnswer: '3' }, ['3'])).toEqual({ isCorrect: false, reason: 'no_correct_answer' });
+  });
+
+  it('should count blanks in the question', () => {
+    expect(countBlanks('___ + 2 = ____')).toBe(2);
+    expect(countBlanks('No blanks here')).toBe(0);
+  });
+});
+
+describe('numberLineGrader', () => {
+  const problem: GradableProblem = { problemType: 'number_line', correctAnswer: '3/4', tolerance: 0.05 };
+
+  it('should compare the chosen point by value', () => {
+    expect(numberLineGrader.grade(problem, 0.75)).toEqual({ isCorrect: true, reason: 'exact_match' });
+    expect(numberLineGrader.grade(problem, 0.78)).toEqual({ isCorrect: true, reason: 'within_tolerance' });
+    expect(numberLineGrader.grade(problem, 0.5)).toEqual({ isCorrect: false, reason: 'incorrect' });
+    expect(numberLineGrader.grade(problem, '0.75')).toEqual({ isCorrect: false, reason: 'unparseable_answer' });
+  });
+
+  it('should fall back to a default range for invalid config', () => {
+    expect(readNumberLineConfig({ min: 0, max: 1, step: 0.25 })).toEqual({ min: 0, max: 1, step: 0.25 });
+    expect(readNumberLineConfig({ min: 5, max: 1 })).toEqual({ min: 0, max: 10, step: 1 });
+    expect(readNumberLineConfig(null)).toEqual({ min: 0, max: 10, step: 1 });
+  });
+});
+
+describe('GraderRegistry', () => {
+  it('should dispatch on problem type', () => {
+    const registry = createDefaultGraderRegistry();
+    PROBLEM_TYPES.forEach(problemType => expect(registry.supports(problemType)).toBe(true));
+    expect(registry.grade(inputProblem('1/2'), '0.5').isCorrect).toBe(true);
+  });
+
+  it('should format correct answers with the grader, falling back to the stored answer', () => {
+    const registry = createDefaultGraderRegistry();
+    expect(registry.formatCorrectAnswer(inputProblem('42'))).toBe('42');
+    expect(registry.formatCorrectAnswer({ problemType: 'fill_in_blanks', correctAnswer: '["a","b"]' })).toBe('a, b');
+  });
+
+  it('should allow custom graders to be plugged in', () => {
+    const registry = new GraderRegistry().register('always_right', {
+      grade: () => ({ isCorrect: true, reason: 'exact_match' }),
+    });
+
+    expect(registry.grade({ problemType: 'always_right', correctAnswer: null }, 'anything').isCorrect).toBe(true);
+  });
+
+  it('should throw for unsupported problem types', () => {
+    expect(() => new GraderRegistry().grade(inputProblem('1'), '1')).toThrow('Unsupported problem type: input');
+  });
+});
+
+describe('validateProblem', () => {
+  const option = (optionText: string, isCorrect = false, correctOrder: number | null = null) => ({
+    optionText,
+    isCorrect,
+    correctOrder,
+  });
+
+  it('should accept a multiple choice problem whose correct option matches the correct answer', () => {
+    expect(validateProblem({
+      problemType: 'multiple_choice',
+      question: 'What is 2 + 2?',
+      correctAnswer: '4',
+      options: [option('3'), option('4', true)],
+    })).toEqual([]);
+  });
+
+  it('should require exactly one correct option matching the correct answer', () => {
+    const problem = { problemType: 'multiple_choice' as const, question: 'What is 2 + 2?', correctAnswer: '4' };
+
+    expect(validateProblem({ ...problem, options: [option('3', true), option('4', true)] }))
+      .toEqual(['Multiple choice problems need exactly one correct option']);
+    expect(validateProblem({ ...problem, options: [option('3'), option('4')] }))
+      .toEqual(['Multiple choice problems need exactly one correct option']);
+    expect(validateProblem({ ...problem, options: [option('3', true), option('4')] }))
+      .toEqual(['The correct option must match the correct answer']);
+    expect(validateProblem({ ...problem, options: [option('4', true)] }))
+      .toEqual(['Multiple choice problems need at least two options']);
+  });
+
+  it('should check what the other graders need', () => {
+    expect(validateProblem({ problemType: 'true_false', question: 'Is 4 even?', correctAnswer: 'yes', options: [] }))
+      .toEqual(['The correct answer of a true/false problem must be "true" or "false"']);
+    expect(validateProblem({ problemType: 'fill_in_blanks', question: '___ + ___ = 4', correctAnswer: '["2"]', options: [] }))
+      .toEqual(['The question has 2 blanks but 1 answers']);
+    expect(validateProblem({ problemType: 'number_line', question: 'Place 1/2', correctAnswer: 'half', options: [] }))
+      .toEqual(['Number line problems need a numeric correct answer']);
+    expect(validateProblem({
+      problemType: 'ordering',
+      question: 'Order from smallest',
+      correctAnswer: null,
+      options: [option('1', false, 1), option('2', false, 1)],
+    })).toEqual(['Correct positions must be unique']);
+    expect(validateProblem({ problemType: 'input', question: '2 + 2', correctAnswer: '4', options: [option('4')] }))
+      .toEqual(['input problems do not take options']);
+  });
+});
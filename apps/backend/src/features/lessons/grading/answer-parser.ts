@@ -0,0 +1,279 @@
+/**
+ * Answer Parser
+ * Reads learner answers as numbers or simple algebraic expressions
+ */
+
+/**
+ * Expression tree produced by parseExpression
+ */
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; operator: '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'operator'; value: '+' | '-' | '*' | '/' | '^' }
+  | { kind: 'paren'; value: '(' | ')' };
+
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const FRACTION_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))\/([+-]?(?:\d+(?:\.\d*)?|\.\d+))$/;
+const MIXED_NUMBER_PATTERN = /^([+-]?)(\d+)\s+(\d+)\/(\d+)$/;
+const PERCENTAGE_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))%$/;
+const VARIABLE_ASSIGNMENT_PATTERN = /^[a-z]\s*=\s*/i;
+
+// Deepest nesting of parentheses, signs and exponents the parser follows before giving up
+export const MAX_EXPRESSION_DEPTH = 50;
+
+/**
+ * Normalize typographic math symbols to their ASCII equivalents
+ */
+function normalizeSymbols(input: string): string {
+  return input
+    .trim()
+    .replace(/[×·∙]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-');
+}
+
+/**
+ * Parse a numeric answer written as a decimal, fraction, mixed number or percentage
+ * Accepts a leading "x =" so "x = 4" reads as 4
+ * Returns null when the input is not a plain number in one of those notations
+ */
+export function parseNumericAnswer(input: string): number | null {
+  const value = normalizeSymbols(input)
+    .replace(VARIABLE_ASSIGNMENT_PATTERN, '')
+    .replace(/\s+/g, ' ');
+
+  if (DECIMAL_PATTERN.test(value)) {
+    return Number(value);
+  }
+
+  const percentage = value.match(PERCENTAGE_PATTERN);
+  if (percentage) {
+    return Number(percentage[1]) / 100;
+  }
+
+  const mixed = value.match(MIXED_NUMBER_PATTERN);
+  if (mixed) {
+    const denominator = Number(mixed[4]);
+    if (denominator === 0) return null;
+    const magnitude = Number(mixed[2]) + Number(mixed[3]) / denominator;
+    return mixed[1] === '-' ? -magnitude : magnitude;
+  }
+
+  const fraction = value.replace(/\s+/g, '').match(FRACTION_PATTERN);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    return Number(fraction[1]) / denominator;
+  }
+
+  return null;
+}
+
+/**
+ * Split an expression into tokens, inserting the implicit
+ * multiplication in forms like "2x", "3(x + 1)" and "xy"
+ */
+function tokenize(input: string): Token[] | null {
+  const source = normalizeSymbols(input).replace(/\s+/g, '');
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    let token: Token;
+
+    const numberMatch = source.slice(index).match(/^(\d+(\.\d*)?|\.\d+)/);
+    if (numberMatch) {
+      token = { kind: 'number', value: Number(numberMatch[0]) };
+      index += numberMatch[0].length;
+    } else if (/[a-z]/i.test(char)) {
+      token = { kind: 'variable', name: char.toLowerCase() };
+      index += 1;
+    } else if ('+-*/^'.includes(char)) {
+      token = { kind: 'operator', value: char as '+' | '-' | '*' | '/' | '^' };
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      token = { kind: 'paren', value: char };
+      index += 1;
+    } else {
+      return null;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    const previousEndsOperand = previous && (
+      previous.kind === 'number' ||
+      previous.kind === 'variable' ||
+      (previous.kind === 'paren' && previous.value === ')')
+    );
+    const tokenStartsOperand =
+      token.kind === 'variable' ||
+      (token.kind === 'paren' && token.value === '(') ||
+      (token.kind === 'number' && previous?.kind !== 'number');
+
+    if (previousEndsOperand && tokenStartsOperand) {
+      tokens.push({ kind: 'operator', value: '*' });
+    }
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/") unary)*
+ *   unary      := ("+" | "-") unary | power
+ *   power      := primary ("^" unary)?
+ *   primary    := number | variable | "(" expression ")"
+ * Every nested unary (under parentheses, signs and exponents) counts towards MAX_EXPRESSION_DEPTH,
+ * so deeply nested input is rejected instead of exhausting the call stack.
+ */
+class ExpressionParser {
+  private position = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode | null {
+    const node = this.parseExpression();
+    return node && this.position === this.tokens.length ? node : null;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isOperator(token: Token | undefined, ...operators: string[]): boolean {
+    return token?.kind === 'operator' && operators.includes(token.value);
+  }
+
+  private parseExpression(): ExpressionNode | null {
+    let left = this.parseTerm();
+    while (left && this.isOperator(this.peek(), '+', '-')) {
+      const operator = (this.tokens[this.position++] as { value: '+' | '-' }).value;
+      const right = this.parseTerm();
+      if (!right) return null;
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode | null {
+    let left = this.parseUnary();
+    while (left && this.isOperator(this.peek(), '*', '/')) {
+      const operator = (this.tokens[this.position++] as { value: '*' | '/' }).value;
+      const right = this.parseUnary();
+      if (!right) return null;
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode | null {
+    if (this.depth >= MAX_EXPRESSION_DEPTH) return null;
+    this.depth++;
+    try {
+      const token = this.peek();
+      if (this.isOperator(token, '+', '-')) {
+        this.position++;
+        const operand = this.parseUnary();
+        if (!operand) return null;
+        return token!.kind === 'operator' && token!.value === '-'
+          ? { type: 'unary', operator: '-', operand }
+          : operand;
+      }
+      return this.parsePower();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parsePower(): ExpressionNode | null {
+    const base = this.parsePrimary();
+    if (base && this.isOperator(this.peek(), '^')) {
+      this.position++;
+      const exponent = this.parseUnary();
+      if (!exponent) return null;
+      return { type: 'binary', operator: '^', left: base, right: exponent };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode | null {
+    const token = this.tokens[this.position++];
+    if (!token) return null;
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'variable') {
+      return { type: 'variable', name: token.name };
+    }
+    if (token.kind === 'paren' && token.value === '(') {
+      const inner = this.parseExpression();
+      const closing = this.tokens[this.position++];
+      if (!inner || closing?.kind !== 'paren' || closing.value !== ')') return null;
+      return inner;
+    }
+    return null;
+  }
+}
+
+/**
+ * Parse a simple algebraic expression (+ - * / ^, parentheses, single-letter variables)
+ * Returns null when the input is not a well-formed expression
+ */
+export function parseExpression(input: string): ExpressionNode | null {
+  const tokens = tokenize(input);
+  if (!tokens || tokens.length === 0) {
+    return null;
+  }
+  return new ExpressionParser(tokens).parse();
+}
+
+/**
+ * Evaluate an expression tree for the given variable values
+ */
+export function evaluateExpression(node: ExpressionNode, variables: Record<string, number>): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return variables[node.name] ?? NaN;
+    case 'unary':
+      return -evaluateExpression(node.operand, variables);
+    case 'binary': {
+      const left = evaluateExpression(node.left, variables);
+      const right = evaluateExpression(node.right, variables);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+    }
+  }
+}
+
+/**
+ * Collect the variable names used in an expression tree
+ */
+export function collectVariables(node: ExpressionNode, names: Set<string> = new Set()): Set<string> {
+  if (node.type === 'variable') {
+    names.add(node.name);
+  } else if (node.type === 'unary') {
+    collectVariables(node.operand, names);
+  } else if (node.type === 'binary') {
+    collectVariables(node.left, names);
+    collectVariables(node.right, names);
+  }
+  return names;
+}
@@ -0,0 +1,77 @@
+import { AnswerGrader, AnswerPayload, GradableProblem, GradeResult } from './grading.types';
+import {
+  multipleChoiceGrader,
+  inputGrader,
+  trueFalseGrader,
+  multiSelectGrader,
+  orderingGrader,
+  fillInBlanksGrader,
+  numberLineGrader,
+} from './graders';
+
+/**
+ * Grader Registry
+ * Maps Problem.problemType to the grader responsible for it
+ */
+export class GraderRegistry {
+  private readonly graders = new Map<string, AnswerGrader>();
+
+  /**
+   * Register (or replace) the grader for a problem type
+   */
+  register(problemType: string, grader: AnswerGrader): this {
+    this.graders.set(problemType, grader);
+    return this;
+  }
+
+  /**
+   * Whether a grader exists for the problem type
+   */
+  supports(problemType: string): boolean {
+    return this.graders.has(problemType);
+  }
+
+  /**
+   * Grade an answer with the grader registered for the problem's type
+   */
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    return this.graderFor(problem).grade(problem, answer);
+  }
+
+  /**
+   * Correct answer as shown to learners in results
+   */
+  formatCorrectAnswer(problem: GradableProblem): string {
+    const grader = this.graderFor(problem);
+    return grader.formatCorrectAnswer
+      ? grader.formatCorrectAnswer(problem)
+      : problem.correctAnswer || '';
+  }
+
+  private graderFor(problem: GradableProblem): AnswerGrader {
+    const grader = this.graders.get(problem.problemType);
+    if (!grader) {
+      throw new Error(`Unsupported problem type: ${problem.problemType}`);
+    }
+    return grader;
+  }
+}
+
+/**
+ * Create a registry with the built-in graders
+ */
+export function createDefaultGraderRegistry(): GraderRegistry {
+  return new GraderRegistry()
+    .register('multiple_choice', multipleChoiceGrader)
+    .register('input', inputGrader)
+    .register('true_false', trueFalseGrader)
+    .register('multi_select', multiSelectGrader)
+    .register('ordering', orderingGrader)
+    .register('fill_in_blanks', fillInBlanksGrader)
+    .register('number_line', numberLineGrader);
+}
+
+/**
+ * Registry used by LessonService
+ */
+export const graderRegistry = createDefaultGraderRegistry();
@@ -0,0 +1,270 @@
+import { AnswerGrader, AnswerPayload, GradableProblem, GradeResult } from './grading.types';
+import {
+  parseNumericAnswer,
+  parseExpression,
+  evaluateExpression,
+  collectVariables,
+  ExpressionNode,
+} from './answer-parser';
+import { parseBlankAnswers } from './problem-config';
+
+// Floating-point slack applied on top of the problem's own tolerance
+const RELATIVE_EPSILON = 1e-9;
+
+// Points at which two expressions are compared; chosen to avoid 0/1 coincidences
+const SAMPLE_POINTS = [0.37, 1.91, -2.53, 3.17, -0.71, 5.29];
+const MIN_VALID_SAMPLES = 3;
+
+/**
+ * Normalize free text for comparison (trimmed, lowercase, single spaces)
+ */
+export function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function nearlyEqual(a: number, b: number, tolerance: number = 0): boolean {
+  const epsilon = RELATIVE_EPSILON * Math.max(1, Math.abs(a), Math.abs(b));
+  return Math.abs(a - b) <= tolerance + epsilon;
+}
+
+function isStringList(answer: AnswerPayload): answer is string[] {
+  return Array.isArray(answer);
+}
+
+/**
+ * Ids of the options that make up the correct ordering, in sequence
+ */
+function correctSequence(problem: GradableProblem): string[] {
+  return (problem.options ?? [])
+    .filter(option => option.correctOrder !== null && option.correctOrder !== undefined)
+    .sort((a, b) => a.correctOrder! - b.correctOrder!)
+    .map(option => option.id);
+}
+
+/**
+ * Compare two expressions by evaluating them at fixed sample points
+ */
+function expressionsEquivalent(expected: ExpressionNode, actual: ExpressionNode): boolean {
+  const names = Array.from(new Set([
+    ...collectVariables(expected),
+    ...collectVariables(actual),
+  ])).sort();
+
+  let validSamples = 0;
+  for (let sample = 0; sample < SAMPLE_POINTS.length; sample++) {
+    // Give each variable a different value at every sample
+    const variables: Record<string, number> = {};
+    names.forEach((name, index) => {
+      variables[name] = SAMPLE_POINTS[(sample + index * 2) % SAMPLE_POINTS.length] + index;
+    });
+
+    const expectedValue = evaluateExpression(expected, variables);
+    const actualValue = evaluateExpression(actual, variables);
+
+    if (!Number.isFinite(expectedValue) || !Number.isFinite(actualValue)) {
+      continue;
+    }
+    if (!nearlyEqual(expectedValue, actualValue)) {
+      return false;
+    }
+    validSamples++;
+  }
+
+  return validSamples >= MIN_VALID_SAMPLES;
+}
+
+/**
+ * Multiple choice: the submitted option text must match the option flagged correct
+ */
+export const multipleChoiceGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    if (typeof answer !== 'string') {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    const correctOption = problem.options?.find(option => option.isCorrect);
+    if (!correctOption) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+
+    return answer === correctOption.optionText
+      ? { isCorrect: true, reason: 'exact_match' }
+      : { isCorrect: false, reason: 'incorrect' };
+  },
+};
+
+/**
+ * Free input: numbers (decimal, fraction, mixed, percentage) are compared by value
+ * with the problem's tolerance, expressions with variables by equivalence,
+ * anything else as normalized text
+ */
+export const inputGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    if (typeof answer !== 'string') {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    const correctAnswer = problem.correctAnswer?.trim();
+    if (!correctAnswer) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+
+    if (normalizeText(answer) === normalizeText(correctAnswer)) {
+      return { isCorrect: true, reason: 'exact_match' };
+    }
+
+    // Numeric answers
+    const expectedNumber = parseNumericAnswer(correctAnswer);
+    if (expectedNumber !== null) {
+      const actualNumber = parseNumericAnswer(answer);
+      if (actualNumber === null) {
+        return { isCorrect: false, reason: 'unparseable_answer' };
+      }
+      if (nearlyEqual(expectedNumber, actualNumber)) {
+        return { isCorrect: true, reason: 'equivalent_value' };
+      }
+      if (nearlyEqual(expectedNumber, actualNumber, Math.max(0, problem.tolerance ?? 0))) {
+        return { isCorrect: true, reason: 'within_tolerance' };
+      }
+      return { isCorrect: false, reason: 'incorrect' };
+    }
+
+    // Algebraic answers
+    const expectedExpression = parseExpression(correctAnswer);
+    if (expectedExpression && collectVariables(expectedExpression).size > 0) {
+      const actualExpression = parseExpression(answer);
+      if (!actualExpression) {
+        return { isCorrect: false, reason: 'unparseable_answer' };
+      }
+      return expressionsEquivalent(expectedExpression, actualExpression)
+        ? { isCorrect: true, reason: 'equivalent_expression' }
+        : { isCorrect: false, reason: 'incorrect' };
+    }
+
+    return { isCorrect: false, reason: 'incorrect' };
+  },
+};
+
+/**
+ * True/false: Problem.correctAnswer is "true" or "false"
+ */
+export const trueFalseGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    const correctAnswer = problem.correctAnswer?.trim().toLowerCase();
+    if (correctAnswer !== 'true' && correctAnswer !== 'false') {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+    if (typeof answer !== 'boolean') {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    return answer === (correctAnswer === 'true')
+      ? { isCorrect: true, reason: 'exact_match' }
+      : { isCorrect: false, reason: 'incorrect' };
+  },
+};
+
+/**
+ * Multi-select: the selected option ids must be exactly the options flagged correct
+ */
+export const multiSelectGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    const correctIds = new Set((problem.options ?? []).filter(option => option.isCorrect).map(option => option.id));
+    if (correctIds.size === 0) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+    if (!isStringList(answer)) {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    const selectedIds = new Set(answer);
+    const matches = selectedIds.size === correctIds.size && [...selectedIds].every(id => correctIds.has(id));
+    return matches
+      ? { isCorrect: true, reason: 'exact_match' }
+      : { isCorrect: false, reason: 'incorrect' };
+  },
+
+  formatCorrectAnswer(problem: GradableProblem): string {
+    return (problem.options ?? [])
+      .filter(option => option.isCorrect)
+      .map(option => option.optionText)
+      .join(', ');
+  },
+};
+
+/**
+ * Ordering: option ids must follow ProblemOption.correctOrder
+ */
+export const orderingGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    const expected = correctSequence(problem);
+    if (expected.length < 2) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+    if (!isStringList(answer)) {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    const matches = answer.length === expected.length && answer.every((id, index) => id === expected[index]);
+    return matches
+      ? { isCorrect: true, reason: 'exact_match' }
+      : { isCorrect: false, reason: 'incorrect' };
+  },
+
+  formatCorrectAnswer(problem: GradableProblem): string {
+    const textById = new Map((problem.options ?? []).map(option => [option.id, option.optionText]));
+    return correctSequence(problem).map(id => textById.get(id)).join(', ');
+  },
+};
+
+/**
+ * Fill in the blanks: every blank is graded like a free input answer
+ * The weakest per-blank reason is reported for a fully correct answer
+ */
+export const fillInBlanksGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    const blanks = parseBlankAnswers(problem.correctAnswer);
+    if (!blanks) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+    if (!isStringList(answer) || answer.length !== blanks.length) {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    const results = blanks.map((blank, index) =>
+      inputGrader.grade({ ...problem, correctAnswer: blank }, answer[index])
+    );
+
+    if (results.some(result => !result.isCorrect)) {
+      return { isCorrect: false, reason: 'incorrect' };
+    }
+    return results.find(result => result.reason !== 'exact_match') ?? { isCorrect: true, reason: 'exact_match' };
+  },
+
+  formatCorrectAnswer(problem: GradableProblem): string {
+    return parseBlankAnswers(problem.correctAnswer)?.join(', ') ?? '';
+  },
+};
+
+/**
+ * Number line: the chosen point is compared by value with the problem's tolerance
+ */
+export const numberLineGrader: AnswerGrader = {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult {
+    const expected = problem.correctAnswer ? parseNumericAnswer(problem.correctAnswer) : null;
+    if (expected === null) {
+      return { isCorrect: false, reason: 'no_correct_answer' };
+    }
+    if (typeof answer !== 'number' || !Number.isFinite(answer)) {
+      return { isCorrect: false, reason: 'unparseable_answer' };
+    }
+
+    if (nearlyEqual(expected, answer)) {
+      return { isCorrect: true, reason: 'exact_match' };
+    }
+    if (nearlyEqual(expected, answer, Math.max(0, problem.tolerance ?? 0))) {
+      return { isCorrect: true, reason: 'within_tolerance' };
+    }
+    return { isCorrect: false, reason: 'incorrect' };
+  },
+};
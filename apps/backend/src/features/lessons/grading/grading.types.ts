@@ -0,0 +1,86 @@
+/**
+ * Grading Types
+ * Shared contracts for the answer-grading engine (no Prisma dependency)
+ */
+
+/**
+ * Problem types the engine knows how to grade
+ * Mirrors the ProblemType enum in schema.prisma
+ */
+export const PROBLEM_TYPES = [
+  'multiple_choice', // One option text
+  'input',           // Free text, number or expression
+  'true_false',      // A boolean
+  'multi_select',    // Every correct option id, in any order
+  'ordering',        // Option ids in the correct sequence
+  'fill_in_blanks',  // One string per "___" blank in the question
+  'number_line',     // A point on the number line
+] as const;
+
+export type ProblemType = typeof PROBLEM_TYPES[number];
+
+/**
+ * Answer shapes submitted by learners, one per problem type (see PROBLEM_TYPES)
+ */
+export type AnswerPayload = string | boolean | number | string[];
+
+/**
+ * Range shown for number_line problems (stored in Problem.config)
+ */
+export interface NumberLineConfig {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Why an answer was judged correct or incorrect
+ */
+export const GRADING_REASONS = [
+  'exact_match',           // Same text after normalization
+  'equivalent_value',      // Different notation, same number (e.g. "1/2" vs "0.5")
+  'within_tolerance',      // Numeric value inside the problem's tolerance
+  'equivalent_expression', // Algebraically equivalent expression
+  'incorrect',             // Parsed fine, but wrong
+  'unparseable_answer',    // Answer could not be read as the expected kind of value
+  'no_correct_answer',     // Problem has no usable correct answer configured
+] as const;
+
+export type GradingReason = typeof GRADING_REASONS[number];
+
+/**
+ * Minimal problem shape a grader needs
+ * Prisma's Problem (with options) satisfies this structurally
+ */
+export interface GradableProblem {
+  problemType: string;
+  correctAnswer: string | null;
+  tolerance?: number | null;
+  config?: unknown;
+  options?: Array<{
+    id: string;
+    optionText: string;
+    isCorrect: boolean;
+    correctOrder?: number | null;
+  }>;
+}
+
+/**
+ * Outcome of grading a single answer
+ */
+export interface GradeResult {
+  isCorrect: boolean;
+  reason: GradingReason;
+}
+
+/**
+ * A grader handles one or more problem types
+ */
+export interface AnswerGrader {
+  grade(problem: GradableProblem, answer: AnswerPayload): GradeResult;
+
+  /**
+   * Human-readable correct answer for results; defaults to Problem.correctAnswer
+   */
+  formatCorrectAnswer?(problem: GradableProblem): string;
+}
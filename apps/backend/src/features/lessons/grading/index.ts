@@ -0,0 +1,6 @@
+export * from './grading.types';
+export * from './answer-parser';
+export * from './problem-config';
+export * from './graders';
+export * from './grader.registry';
+export * from './problem-validation';
@@ -0,0 +1,61 @@
+/**
+ * Problem Config
+ * Reads the per-type settings stored alongside a problem
+ */
+
+import { NumberLineConfig } from './grading.types';
+
+// Blanks are written as three or more underscores in the question text
+const BLANK_PATTERN = /_{3,}/g;
+
+const DEFAULT_NUMBER_LINE: NumberLineConfig = { min: 0, max: 10, step: 1 };
+
+/**
+ * Count the "___" blanks in a fill_in_blanks question
+ */
+export function countBlanks(question: string): number {
+  return question.match(BLANK_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Read the expected answers of a fill_in_blanks problem
+ * Problem.correctAnswer holds a JSON array with one string per blank
+ * Returns null when it is missing or malformed
+ */
+export function parseBlankAnswers(correctAnswer: string | null): string[] | null {
+  if (!correctAnswer) {
+    return null;
+  }
+
+  try {
+    const blanks: unknown = JSON.parse(correctAnswer);
+    if (
+      Array.isArray(blanks) &&
+      blanks.length > 0 &&
+      blanks.every(blank => typeof blank === 'string' && blank.trim().length > 0)
+    ) {
+      return blanks;
+    }
+  } catch {
+    // Fall through: not JSON
+  }
+  return null;
+}
+
+/**
+ * Read the number line range from Problem.config, falling back to 0..10 in steps of 1
+ */
+export function readNumberLineConfig(config: unknown): NumberLineConfig {
+  const value = (config ?? {}) as Partial<Record<keyof NumberLineConfig, unknown>>;
+  const read = (key: keyof NumberLineConfig) =>
+    typeof value[key] === 'number' && Number.isFinite(value[key]) ? (value[key] as number) : DEFAULT_NUMBER_LINE[key];
+
+  const min = read('min');
+  const max = read('max');
+  const step = read('step');
+
+  if (max <= min || step <= 0) {
+    return DEFAULT_NUMBER_LINE;
+  }
+  return { min, max, step };
+}
@@ -0,0 +1,105 @@
+/**
+ * Problem Validation
+ * Checks that an authored problem carries what its grader needs, so a
+ * published lesson never grades a correct answer as wrong
+ */
+
+import { ProblemType } from './grading.types';
+import { parseNumericAnswer } from './answer-parser';
+import { countBlanks, parseBlankAnswers } from './problem-config';
+
+/**
+ * Problem content as written by an author (options without ids yet)
+ */
+export interface AuthoredProblem {
+  problemType: ProblemType;
+  question: string;
+  correctAnswer: string | null;
+  options: Array<{
+    optionText: string;
+    isCorrect: boolean;
+    correctOrder?: number | null;
+  }>;
+}
+
+/**
+ * List what is wrong with a problem; an empty list means it can be graded
+ */
+export function validateProblem(problem: AuthoredProblem): string[] {
+  const issues: string[] = [];
+  const { options } = problem;
+  const correctAnswer = problem.correctAnswer?.trim() ?? '';
+  const correctOptions = options.filter(option => option.isCorrect);
+
+  switch (problem.problemType) {
+    case 'multiple_choice':
+      if (options.length < 2) {
+        issues.push('Multiple choice problems need at least two options');
+      }
+      if (correctOptions.length !== 1) {
+        issues.push('Multiple choice problems need exactly one correct option');
+      } else if (correctOptions[0].optionText !== correctAnswer) {
+        issues.push('The correct option must match the correct answer');
+      }
+      if (new Set(options.map(option => option.optionText)).size !== options.length) {
+        issues.push('Option texts must be unique');
+      }
+      break;
+
+    case 'multi_select':
+      if (options.length < 2) {
+        issues.push('Multi-select problems need at least two options');
+      }
+      if (correctOptions.length === 0) {
+        issues.push('Multi-select problems need at least one correct option');
+      }
+      break;
+
+    case 'ordering': {
+      const positions = options.map(option => option.correctOrder);
+      if (options.length < 2) {
+        issues.push('Ordering problems need at least two options');
+      }
+      if (positions.some(position => position === null || position === undefined)) {
+        issues.push('Every option of an ordering problem needs a correct position');
+      } else if (new Set(positions).size !== positions.length) {
+        issues.push('Correct positions must be unique');
+      }
+      break;
+    }
+
+    case 'true_false':
+      if (correctAnswer !== 'true' && correctAnswer !== 'false') {
+        issues.push('The correct answer of a true/false problem must be "true" or "false"');
+      }
+      break;
+
+    case 'input':
+      if (!correctAnswer) {
+        issues.push('Input problems need a correct answer');
+      }
+      break;
+
+    case 'fill_in_blanks': {
+      const blanks = parseBlankAnswers(problem.correctAnswer);
+      if (!blanks) {
+        issues.push('The correct answer must be a JSON array with one answer per blank');
+      } else if (blanks.length !== countBlanks(problem.question)) {
+        issues.push(`The question has ${countBlanks(problem.question)} blanks but ${blanks.length} answers`);
+      }
+      break;
+    }
+
+    case 'number_line':
+      if (parseNumericAnswer(correctAnswer) === null) {
+        issues.push('Number line problems need a numeric correct answer');
+      }
+      break;
+  }
+
+  if (!['multiple_choice', 'multi_select', 'ordering'].includes(problem.problemType) && options.length > 0) {
+    issues.push(`${problem.problemType} problems do not take options`);
+  }
+
+  return issues;
+}
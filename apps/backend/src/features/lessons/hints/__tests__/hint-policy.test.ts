@@ -0,0 +1,38 @@
+/**
+ * Hint Policy Unit Tests
+ * Tests for the XP a correct answer keeps after revealing hints
+ */
+
+import { nextHintCount, xpAfterHints } from '..';
+
+describe('xpAfterHints', () => {
+  it('should keep the full XP without hints', () => {
+    expect(xpAfterHints(10, 0, 25)).toBe(10);
+  });
+
+  it('should take the lesson penalty off for every hint', () => {
+    expect(xpAfterHints(10, 1, 25)).toBe(8);
+    expect(xpAfterHints(10, 2, 25)).toBe(5);
+    expect(xpAfterHints(20, 3, 10)).toBe(14);
+  });
+
+  it('should never go below zero', () => {
+    expect(xpAfterHints(10, 5, 25)).toBe(0);
+  });
+
+  it('should leave hints free when the lesson has no penalty', () => {
+    expect(xpAfterHints(10, 4, 0)).toBe(10);
+  });
+});
+
+describe('nextHintCount', () => {
+  it('should reveal hints one at a time up to the last', () => {
+    expect(nextHintCount(0, 3)).toBe(1);
+    expect(nextHintCount(2, 3)).toBe(3);
+    expect(nextHintCount(3, 3)).toBe(3);
+  });
+
+  it('should reveal nothing for problems without hints', () => {
+    expect(nextHintCount(0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Hint Policy
+ * Problems carry ordered hint steps, the last of them working through the solution.
+ * Learners reveal them one at a time during a lesson; every revealed hint costs a
+ * share of the problem's XP, set per lesson as `hintPenalty` (percent per hint).
+ */
+
+// Most hint steps a problem can have
+export const MAX_HINTS = 10;
+
+/**
+ * XP a correct answer still earns after `hintsUsed` hints, never below zero
+ */
+export function xpAfterHints(xp: number, hintsUsed: number, hintPenalty: number): number {
+  const keptPercent = Math.max(0, 100 - hintsUsed * hintPenalty);
+  return Math.round((xp * keptPercent) / 100);
+}
+
+/**
+ * Number of hints revealed after asking for the next one; stays put once every hint is shown
+ */
+export function nextHintCount(revealed: number, hintCount: number): number {
+  return Math.min(revealed + 1, hintCount);
+}
@@ -4,8 +4,13 @@ import { LoggerService } from '../../core/logger/logger.service';
 import { sendSuccess, sendError } from '../../core/middleware';
 import { 
   submitLessonSchema, 
-  lessonsQuerySchema, 
-  lessonIdSchema 
+  lessonIdSchema,
+  lessonQuerySchema,
+  attemptReviewParamsSchema,
+  lessonProblemParamsSchema,
+  revealHintSchema,
+  checkAnswerSchema,
+  saveAttemptSchema,
 } from './dtos/lesson.dto';
 
 /**
@@ -15,13 +20,8 @@ import {
  *     summary: Get all lessons
  *     description: Retrieve all math lessons with user progress and completion status
  *     tags: [Lessons]
- *     parameters:
- *       - in: query
- *         name: userId
- *         schema:
- *           type: string
- *         description: User ID to get personalized progress (defaults to demo user)
- *         example: "1"
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Lessons retrieved successfully
@@ -45,8 +45,8 @@ import {
  *                     bestScore: 0
  *                     attemptsCount: 0
  *               timestamp: "2025-08-08T01:00:00.000Z"
- *       400:
- *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
@@ -55,6 +55,8 @@ import {
  *     summary: Get lesson statistics
  *     description: Retrieve overall lesson statistics and metrics
  *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Lesson statistics retrieved successfully
@@ -85,14 +87,20 @@ import {
  *                 activeLessons: 3
  *                 averageCompletion: 65.5
  *               timestamp: "2025-08-08T01:00:00.000Z"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
  * /api/lessons/{id}:
  *   get:
  *     summary: Get lesson by ID
- *     description: Retrieve a specific lesson with all its problems (frontend-safe, excludes correct answers)
+ *     description: |
+ *       Retrieve a specific lesson with all its problems (frontend-safe, excludes correct answers).
+ *       Templated problems are instantiated with values seeded from attemptId; submit with the same attemptId.
  *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -101,6 +109,13 @@ import {
  *           type: string
  *         description: Lesson ID
  *         example: "lesson-1"
+ *       - in: query
+ *         name: attemptId
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Attempt the lesson is opened for; templated problems get fresh values per attempt
+ *         example: "attempt-123-456"
  *     responses:
  *       200:
  *         description: Lesson retrieved successfully
@@ -134,6 +149,8 @@ import {
  *               timestamp: "2025-08-08T01:00:00.000Z"
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -144,6 +161,8 @@ import {
  *     summary: Submit lesson answers
  *     description: Submit answers for a lesson and get results with XP and streak calculation (idempotent)
  *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -152,12 +171,6 @@ import {
  *           type: string
  *         description: Lesson ID
  *         example: "lesson-1"
- *       - in: query
- *         name: userId
- *         schema:
- *           type: string
- *         description: User ID (defaults to demo user)
- *         example: "1"
  *     requestBody:
  *       required: true
  *       content:
@@ -197,12 +210,15 @@ import {
  *                   - problemId: "problem-1-1"
  *                     userAnswer: "8"
  *                     isCorrect: true
+ *                     reason: "exact_match"
  *                     correctAnswer: "8"
  *                     explanation: "5 + 3 = 8"
  *                     xpEarned: 10
  *               timestamp: "2025-08-08T01:00:00.000Z"
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       409:
@@ -213,6 +229,257 @@ import {
  *               $ref: '#/components/schemas/Error'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/lessons/{id}/problems/{problemId}/check:
+ *   post:
+ *     summary: Check one answer during an attempt
+ *     description: |
+ *       Grade a single answer of an attempt in progress for instant feedback. Only the problem being
+ *       checked is graded, so the rest of the lesson's answers stay hidden. The first check of a
+ *       problem is final: checking it again returns the same result, and submitting the attempt
+ *       reuses the checked answer and the hints revealed before it. The attempt must be the one in
+ *       progress from GET /api/lessons/{id}/attempt; the correct answer and worked solution are
+ *       only returned when the attempt is submitted.
+ *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Lesson ID
+ *         example: "lesson-1"
+ *       - in: path
+ *         name: problemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Problem ID
+ *         example: "problem-1-1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CheckAnswerRequest'
+ *           example:
+ *             attemptId: "attempt-123-456"
+ *             answer: "8"
+ *     responses:
+ *       200:
+ *         description: Answer checked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CheckAnswerResponse'
+ *             example:
+ *               success: true
+ *               message: "Answer checked successfully"
+ *               data:
+ *                 problemId: "problem-1-1"
+ *                 userAnswer: "8"
+ *                 isCorrect: true
+ *                 reason: "exact_match"
+ *                 explanation: "5 + 3 = 8"
+ *                 hintsUsed: 0
+ *                 xpEarned: 10
+ *               timestamp: "2025-08-08T01:00:00.000Z"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The attempt is not the learner's attempt in progress for this lesson
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/lessons/{id}/problems/{problemId}/hints:
+ *   post:
+ *     summary: Reveal the next hint of a problem
+ *     description: |
+ *       Reveal one more hint step of a problem during an attempt and return every step revealed so far.
+ *       Reveals are recorded per attempt, and each one takes the lesson's hint penalty off the XP the
+ *       problem is worth when the attempt is submitted. Once every hint is shown the call changes nothing.
+ *       The attempt must be the one in progress from GET /api/lessons/{id}/attempt.
+ *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Lesson ID
+ *         example: "lesson-1"
+ *       - in: path
+ *         name: problemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Problem ID
+ *         example: "problem-1-1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RevealHintRequest'
+ *     responses:
+ *       200:
+ *         description: Hint revealed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HintRevealResponse'
+ *             example:
+ *               success: true
+ *               message: "Hint revealed successfully"
+ *               data:
+ *                 problemId: "problem-1-1"
+ *                 hints: ["Start at 5 and count up 3 more"]
+ *                 hintCount: 2
+ *                 xpAvailable: 8
+ *               timestamp: "2025-08-08T01:00:00.000Z"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The attempt is not the learner's attempt in progress for this lesson
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/lessons/{id}/attempt:
+ *   get:
+ *     summary: Resume or start an attempt
+ *     description: |
+ *       Return the learner's attempt in progress for the lesson with the answers saved so far and the
+ *       problem they were on, so it can be resumed on any device. Without one (or once it has expired)
+ *       a new attempt is started. Attempts expire 7 days after they were last saved and are dropped
+ *       when submitted.
+ *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Lesson ID
+ *         example: "lesson-1"
+ *     responses:
+ *       200:
+ *         description: Attempt retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AttemptDraftResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     summary: Save an attempt in progress
+ *     description: |
+ *       Autosave the answers given so far and the current problem of the attempt in progress,
+ *       keeping it for another 7 days. Answers are only graded when the attempt is submitted.
+ *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Lesson ID
+ *         example: "lesson-1"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SaveAttemptRequest'
+ *     responses:
+ *       200:
+ *         description: Attempt saved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AttemptDraftResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       409:
+ *         description: The attempt was submitted, expired or replaced by a newer one
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/lessons/{id}/attempts/{attemptId}:
+ *   get:
+ *     summary: Review a submitted attempt
+ *     description: |
+ *       Replay one of the learner's attempts exactly as it was graded: each answered problem with the
+ *       question, options and answer key of the revision it was graded against, even if the lesson
+ *       has been edited, unpublished or deactivated since.
+ *     tags: [Lessons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Lesson ID
+ *         example: "lesson-1"
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attempt ID the lesson was submitted with
+ *         example: "attempt-123-456"
+ *     responses:
+ *       200:
+ *         description: Attempt retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AttemptReviewResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
  */
 
 /**
@@ -226,9 +493,7 @@ export class LessonController {
    */
   static async getAllLessons(req: Request, res: Response): Promise<void> {
     try {
-      // Validate query parameters
-      const query = lessonsQuerySchema.parse(req.query);
-      const userId = query.userId || '1'; // Default to demo user
+      const userId = req.user!.id;
 
       const lessons = await LessonService.getAllLessons(userId);
 
@@ -236,14 +501,10 @@ export class LessonController {
     } catch (error) {
       LoggerService.error('Failed to get lessons', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        query: req.query,
+        userId: req.user?.id,
       });
 
-      if (error instanceof Error && error.message.includes('validation')) {
-        sendError(res, 'Invalid query parameters', 400);
-      } else {
-        sendError(res, 'Failed to retrieve lessons', 500);
-      }
+      sendError(res, 'Failed to retrieve lessons', 500);
     }
   }
 
@@ -255,9 +516,10 @@ export class LessonController {
     try {
       // Validate parameters
       const params = lessonIdSchema.parse(req.params);
+      const { attemptId } = lessonQuerySchema.parse(req.query);
       const { id } = params;
 
-      const lesson = await LessonService.getLessonById(id);
+      const lesson = await LessonService.getLessonById(id, req.user!.id, attemptId);
 
       if (!lesson) {
         sendError(res, 'Lesson not found', 404);
@@ -290,8 +552,7 @@ export class LessonController {
       const submitData = submitLessonSchema.parse(req.body);
       const { id: lessonId } = params;
 
-      // Get userId from query or default to demo user
-      const userId = (req.query.userId as string) || '1';
+      const userId = req.user!.id;
 
       const result = await LessonService.submitLesson(lessonId, submitData, userId);
 
@@ -300,12 +561,17 @@ export class LessonController {
       LoggerService.error('Failed to submit lesson', {
         error: error instanceof Error ? error.message : 'Unknown error',
         lessonId: req.params.id,
-        userId: req.query.userId || '1',
+        userId: req.user?.id,
         body: req.body,
       });
 
       if (error instanceof Error) {
-        if (error.message.includes('validation') || error.message.includes('required')) {
+        if (
+          error.name === 'ZodError' ||
+          error.message.includes('validation') ||
+          error.message.includes('required') ||
+          error.message.includes('Invalid answer')
+        ) {
           sendError(res, 'Invalid submission data', 400);
         } else if (error.message.includes('not found')) {
           sendError(res, 'Lesson or problem not found', 404);
@@ -320,6 +586,161 @@ export class LessonController {
     }
   }
 
+  /**
+   * POST /api/lessons/:id/problems/:problemId/check
+   * Grade one answer of an attempt in progress
+   */
+  static async checkAnswer(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, problemId } = lessonProblemParamsSchema.parse(req.params);
+      const { attemptId, answer } = checkAnswerSchema.parse(req.body);
+
+      const result = await LessonService.checkAnswer(id, problemId, attemptId, answer, req.user!.id);
+
+      sendSuccess(res, result, 'Answer checked successfully');
+    } catch (error) {
+      LoggerService.error('Failed to check answer', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: req.params.id,
+        problemId: req.params.problemId,
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && (error.name === 'ZodError' || error.message.includes('Invalid answer'))) {
+        sendError(res, 'Invalid answer', 400);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'Lesson or problem not found', 404);
+      } else if (error instanceof Error && error.message.includes('no longer in progress')) {
+        sendError(res, 'Attempt is no longer in progress', 409);
+      } else {
+        sendError(res, 'Failed to check answer', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/lessons/:id/problems/:problemId/hints
+   * Reveal the next hint step of a problem for an attempt
+   */
+  static async revealHint(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, problemId } = lessonProblemParamsSchema.parse(req.params);
+      const { attemptId } = revealHintSchema.parse(req.body);
+
+      const result = await LessonService.revealHint(id, problemId, attemptId, req.user!.id);
+
+      sendSuccess(res, result, 'Hint revealed successfully');
+    } catch (error) {
+      LoggerService.error('Failed to reveal hint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: req.params.id,
+        problemId: req.params.problemId,
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid hint request', 400);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'Lesson or problem not found', 404);
+      } else if (error instanceof Error && error.message.includes('no longer in progress')) {
+        sendError(res, 'Attempt is no longer in progress', 409);
+      } else {
+        sendError(res, 'Failed to reveal hint', 500);
+      }
+    }
+  }
+
+  /**
+   * GET /api/lessons/:id/attempt
+   * Resume the attempt in progress, or start one
+   */
+  static async getAttempt(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = lessonIdSchema.parse(req.params);
+
+      const attempt = await LessonService.getOrStartAttempt(id, req.user!.id);
+
+      if (!attempt) {
+        sendError(res, 'Lesson not found', 404);
+        return;
+      }
+
+      sendSuccess(res, attempt, 'Attempt retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get attempt in progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: req.params.id,
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid lesson ID', 400);
+      } else {
+        sendError(res, 'Failed to retrieve attempt', 500);
+      }
+    }
+  }
+
+  /**
+   * PUT /api/lessons/:id/attempt
+   * Autosave the answers and position of the attempt in progress
+   */
+  static async saveAttempt(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = lessonIdSchema.parse(req.params);
+      const data = saveAttemptSchema.parse(req.body);
+
+      const attempt = await LessonService.saveAttempt(id, data, req.user!.id);
+
+      sendSuccess(res, attempt, 'Attempt saved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to save attempt in progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: req.params.id,
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid attempt data', 400);
+      } else if (error instanceof Error && error.message.includes('no longer in progress')) {
+        sendError(res, 'Attempt is no longer in progress', 409);
+      } else {
+        sendError(res, 'Failed to save attempt', 500);
+      }
+    }
+  }
+
+  /**
+   * GET /api/lessons/:id/attempts/:attemptId
+   * Review a submitted attempt against the content it was graded with
+   */
+  static async getAttemptReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, attemptId } = attemptReviewParamsSchema.parse(req.params);
+
+      const review = await LessonService.getAttemptReview(id, attemptId, req.user!.id);
+
+      if (!review) {
+        sendError(res, 'Attempt not found', 404);
+        return;
+      }
+
+      sendSuccess(res, review, 'Attempt retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get attempt review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId: req.params.id,
+        attemptId: req.params.attemptId,
+      });
+
+      if (error instanceof Error && error.message.includes('validation')) {
+        sendError(res, 'Invalid attempt', 400);
+      } else {
+        sendError(res, 'Failed to retrieve attempt', 500);
+      }
+    }
+  }
+
   /**
    * GET /api/lessons/stats
    * Get lesson statistics
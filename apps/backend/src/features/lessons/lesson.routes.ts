@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { LessonController } from './lesson.controller';
 import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
 
 /**
  * Lesson Routes
@@ -8,6 +9,9 @@ import { asyncHandler } from '../../core/middleware';
  */
 const router = Router();
 
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
 // GET /api/lessons/stats - Get lesson statistics (must be before /:id route)
 router.get('/stats', asyncHandler(LessonController.getLessonStats));
 
@@ -17,6 +21,21 @@ router.get('/', asyncHandler(LessonController.getAllLessons));
 // GET /api/lessons/:id - Get lesson by ID with problems
 router.get('/:id', asyncHandler(LessonController.getLessonById));
 
+// GET /api/lessons/:id/attempt - Resume the attempt in progress, or start one
+router.get('/:id/attempt', asyncHandler(LessonController.getAttempt));
+
+// PUT /api/lessons/:id/attempt - Autosave the attempt in progress
+router.put('/:id/attempt', asyncHandler(LessonController.saveAttempt));
+
+// GET /api/lessons/:id/attempts/:attemptId - Review a submitted attempt as it was graded
+router.get('/:id/attempts/:attemptId', asyncHandler(LessonController.getAttemptReview));
+
+// POST /api/lessons/:id/problems/:problemId/check - Check one answer during an attempt
+router.post('/:id/problems/:problemId/check', asyncHandler(LessonController.checkAnswer));
+
+// POST /api/lessons/:id/problems/:problemId/hints - Reveal the next hint of a problem
+router.post('/:id/problems/:problemId/hints', asyncHandler(LessonController.revealHint));
+
 // POST /api/lessons/:id/submit - Submit lesson answers
 router.post('/:id/submit', asyncHandler(LessonController.submitLesson));
 
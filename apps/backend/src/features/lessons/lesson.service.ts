@@ -1,17 +1,92 @@
-import { Problem, ProblemOption } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AnswerCheck, AttemptDraft, ExperimentEvent } from '@prisma/client';
 import { LessonRepository } from '../../core/repositories/lesson.repository';
-import { SubmissionRepository } from '../../core/repositories/submission.repository';
+import { SubmissionRepository, SubmissionResult } from '../../core/repositories/submission.repository';
+import { RevisionRepository, toProblemSnapshot } from '../../core/repositories/revision.repository';
+import {
+  ProblemInstanceRepository,
+  CreateProblemInstanceInput,
+} from '../../core/repositories/problem-instance.repository';
+import { HintRepository } from '../../core/repositories/hint.repository';
+import { AnswerCheckRepository } from '../../core/repositories/answer-check.repository';
+import { AttemptDraftRepository } from '../../core/repositories/attempt-draft.repository';
 import { LoggerService } from '../../core/logger/logger.service';
+import { isLessonUnlocked } from '../../core/skill-graph';
+import { AchievementService } from '../achievements/achievement.service';
+import { LeaderboardService } from '../leaderboards/leaderboard.service';
+import { RecommendationCache } from '../recommendations/recommendation.cache';
+import { ExperimentService } from '../experiments/experiment.service';
+import { AchievementDto } from '../achievements/dtos/achievement.dto';
+import { graderRegistry, AnswerPayload, GradableProblem, ProblemType } from './grading';
+import {
+  TemplatedProblem,
+  TemplateValues,
+  parseProblemTemplate,
+  instantiateTemplate,
+  renderProblem,
+  renderTemplateText,
+  templateSeed,
+} from './templates';
+import { nextHintCount, xpAfterHints } from './hints';
 import {
+  answerPayloadSchemas,
+  AnswerCheckDto,
+  AttemptDraftDto,
+  AttemptReviewDto,
+  HintRevealDto,
   LessonDto,
   LessonWithProblemsDto,
   SubmitLessonDto,
   SubmitLessonResponseDto,
   ProblemResultDto,
+  SaveAttemptDto,
+  transformAttemptDraftToDto,
+  transformAttemptReviewProblemToDto,
   transformLessonToDto,
   transformLessonWithProblemsToDto,
+  transformProblemResultToCheckDto,
 } from './dtos/lesson.dto';
 
+/**
+ * Submissions store answers as text: strings as-is, other payloads as JSON
+ */
+export function serializeAnswer(answer: AnswerPayload): string {
+  return typeof answer === 'string' ? answer : JSON.stringify(answer);
+}
+
+/**
+ * Read a stored answer back; problem types answered with text were stored as-is
+ */
+export function deserializeAnswer(problemType: ProblemType, stored: string): AnswerPayload {
+  if (problemType === 'multiple_choice' || problemType === 'input') {
+    return stored;
+  }
+  try {
+    return JSON.parse(stored) as AnswerPayload;
+  } catch {
+    return stored;
+  }
+}
+
+// Seed used to render templated problems when no attempt has been started
+const PREVIEW_ATTEMPT_ID = 'preview';
+
+// XP for each correct answer, before the hint penalty
+const XP_PER_CORRECT_ANSWER = 10;
+
+// Days an attempt in progress is kept after it was last saved
+export const ATTEMPT_DRAFT_TTL_DAYS = 7;
+
+/**
+ * When an attempt saved now expires
+ */
+function draftExpiry(): Date {
+  return new Date(Date.now() + ATTEMPT_DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Problem with what grading reports back alongside the verdict
+type GradedProblem = GradableProblem & { id: string; explanation?: string | null; hints?: string[] };
+
 /**
  * Lesson Service
  * Business logic for lesson management
@@ -20,12 +95,19 @@ export class LessonService {
   /**
    * Get all lessons with user progress
    */
-  static async getAllLessons(userId: string = '1'): Promise<LessonDto[]> {
+  static async getAllLessons(userId: string): Promise<LessonDto[]> {
     LoggerService.logService('LessonService', `getAllLessons(${userId})`, true);
     
     try {
       const lessons = await LessonRepository.findAllWithProgress(userId);
-      return lessons.map(transformLessonToDto);
+      const completedLessonIds = new Set(
+        lessons.filter(lesson => lesson.progress?.isCompleted).map(lesson => lesson.id)
+      );
+
+      return lessons.map(lesson => transformLessonToDto(
+        lesson,
+        isLessonUnlocked(lesson.prerequisites.map(prerequisite => prerequisite.id), completedLessonIds)
+      ));
     } catch (error) {
       LoggerService.error('Failed to get all lessons', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -37,13 +119,36 @@ export class LessonService {
 
   /**
    * Get lesson by ID with problems (frontend-safe - no correct answers)
+   * Templated problems are instantiated for the attempt (or rendered as a preview without one),
+   * along with the hints already revealed during it
    */
-  static async getLessonById(id: string): Promise<LessonWithProblemsDto | null> {
+  static async getLessonById(
+    id: string,
+    userId: string,
+    attemptId?: string
+  ): Promise<LessonWithProblemsDto | null> {
     LoggerService.logService('LessonService', `getLessonById(${id})`, true);
     
     try {
       const lesson = await LessonRepository.findByIdWithProblems(id, false);
-      return lesson ? transformLessonWithProblemsToDto(lesson) : null;
+      if (!lesson) {
+        return null;
+      }
+
+      let problems = attemptId
+        ? await LessonService.instantiateProblems(lesson.problems, userId, attemptId)
+        : lesson.problems.map(problem => LessonService.previewProblem(problem));
+
+      if (attemptId) {
+        const revealed = await LessonService.findHintsUsed(userId, attemptId);
+        problems = problems.map(problem => ({
+          ...problem,
+          revealedHints: (problem.hints ?? []).slice(0, revealed.get(problem.id) ?? 0),
+        }));
+        await LessonService.recordExperimentOutcome(userId, id, 'started');
+      }
+
+      return transformLessonWithProblemsToDto({ ...lesson, problems });
     } catch (error) {
       LoggerService.error('Failed to get lesson by ID', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -59,7 +164,7 @@ export class LessonService {
   static async submitLesson(
     lessonId: string,
     submitData: SubmitLessonDto,
-    userId: string = '1'
+    userId: string
   ): Promise<SubmitLessonResponseDto> {
     LoggerService.logService('LessonService', `submitLesson(${lessonId}, ${submitData.attemptId})`, true);
     
@@ -70,8 +175,14 @@ export class LessonService {
         throw new Error('Lesson not found');
       }
 
+      // Pin the content being graded so later edits leave this attempt's history intact
+      const revision = await RevisionRepository.recordLessonRevision(lesson);
+
+      // Grade templated problems against the values drawn for this attempt
+      const problems = await LessonService.instantiateProblems(lesson.problems, userId, submitData.attemptId);
+
       // Validate all problems are answered
-      const problemIds = lesson.problems.map(p => p.id);
+      const problemIds = problems.map(p => p.id);
       const answeredIds = submitData.answers.map(a => a.problemId);
       
       for (const problemId of problemIds) {
@@ -80,69 +191,81 @@ export class LessonService {
         }
       }
 
-      // Calculate XP per problem (simple: 10 XP per correct answer)
-      const XP_PER_CORRECT_ANSWER = 10;
+      // Every hint revealed during the attempt costs part of the problem's XP
+      const hintsUsedByProblem = await LessonService.findHintsUsed(userId, submitData.attemptId);
+
+      // Answers already checked one at a time keep the result they were given
+      const checks = await AnswerCheckRepository.findByAttempt(userId, submitData.attemptId);
+      const checksByProblem = new Map(checks.map(check => [check.problemId, check]));
 
       // Process each answer
       const results: ProblemResultDto[] = [];
       const processedAnswers: Array<{
         problemId: string;
+        problemRevisionId: string;
         answer: string;
         isCorrect: boolean;
         xpEarned: number;
+        timeSpent?: number;
+        hintsUsed: number;
       }> = [];
 
       for (const userAnswer of submitData.answers) {
-        const problem = lesson.problems.find(p => p.id === userAnswer.problemId);
+        const problem = problems.find(p => p.id === userAnswer.problemId);
         if (!problem) {
           throw new Error(`Problem not found: ${userAnswer.problemId}`);
         }
 
-        let isCorrect = false;
-        
-        // Check answer based on problem type
-        if (problem.problemType === 'multiple_choice') {
-          // For multiple choice, find the correct option
-          const correctOption = problem.options?.find(opt => opt.isCorrect);
-          isCorrect = correctOption ? userAnswer.answer === correctOption.optionText : false;
-        } else if (problem.problemType === 'input') {
-          // For input, compare with correct answer (case-insensitive, trimmed)
-          isCorrect = userAnswer.answer.trim().toLowerCase() === 
-                     problem.correctAnswer?.trim().toLowerCase();
-        }
-
-        const xpEarned = isCorrect ? XP_PER_CORRECT_ANSWER : 0;
+        const check = checksByProblem.get(problem.id);
+        const hintsUsed = Math.min(hintsUsedByProblem.get(problem.id) ?? 0, problem.hints?.length ?? 0);
+        const result = check
+          ? LessonService.gradeCheck(problem, check, lesson.hintPenalty)
+          : LessonService.gradeAnswer(
+            problem,
+            userAnswer.answer,
+            xpAfterHints(XP_PER_CORRECT_ANSWER, hintsUsed, lesson.hintPenalty),
+            hintsUsed
+          );
 
         processedAnswers.push({
           problemId: userAnswer.problemId,
-          answer: userAnswer.answer,
-          isCorrect,
-          xpEarned,
+          problemRevisionId: revision.problemRevisionIds.get(userAnswer.problemId)!,
+          answer: serializeAnswer(result.userAnswer),
+          isCorrect: result.isCorrect,
+          xpEarned: result.xpEarned,
+          timeSpent: userAnswer.timeSpent,
+          hintsUsed: result.hintsUsed,
         });
 
-        results.push({
-          problemId: userAnswer.problemId,
-          userAnswer: userAnswer.answer,
-          isCorrect,
-          correctAnswer: problem.correctAnswer || '',
-          explanation: problem.explanation || '',
-          xpEarned,
-        });
+        results.push(result);
       }
 
+      // Without a lesson time, the answers' times add up to it when every answer was timed
+      const timeSpent = submitData.timeSpent ?? (
+        processedAnswers.every(answer => answer.timeSpent !== undefined)
+          ? processedAnswers.reduce((sum, answer) => sum + answer.timeSpent!, 0)
+          : undefined
+      );
+
       // Submit to repository for XP and streak processing
       const submissionResult = await SubmissionRepository.submitAnswers(
         userId,
         lessonId,
+        revision.lessonRevisionId,
         processedAnswers,
-        submitData.attemptId
+        submitData.attemptId,
+        timeSpent
       );
 
-      // Calculate lesson score and completion
-      const correctCount = results.filter(r => r.isCorrect).length;
-      const totalCount = results.length;
-      const score = Math.round((correctCount / totalCount) * 100);
-      const completed = correctCount === totalCount; // 100% required for completion
+      await LessonService.discardDraft(userId, submitData.attemptId);
+      const newAchievements = await LessonService.unlockAchievements(userId, submissionResult);
+      await LessonService.joinLeaderboard(userId);
+      if (submissionResult.lessonCompleted) {
+        await LessonService.recordExperimentOutcome(userId, lessonId, 'completed');
+      }
+
+      // Progress, mastery and streak changed, so the learning path must be recomputed
+      await RecommendationCache.invalidate(userId);
 
       const response: SubmitLessonResponseDto = {
         success: true,
@@ -150,24 +273,25 @@ export class LessonService {
         totalXp: submissionResult.totalXp,
         streak: {
           current: submissionResult.newStreak,
-          best: submissionResult.newStreak, // Will be updated in the repository
+          best: submissionResult.bestStreak,
           updated: submissionResult.streakUpdated,
         },
         lesson: {
-          completed,
-          score,
-          bestScore: score, // Will be properly calculated in repository
+          completed: submissionResult.lessonCompleted, // 100% required for completion
+          score: submissionResult.score,
+          bestScore: submissionResult.bestScore,
         },
         results,
+        newAchievements,
       };
 
       LoggerService.info('Lesson submission processed', {
         userId,
         lessonId,
         attemptId: submitData.attemptId,
-        score,
+        score: submissionResult.score,
         xpEarned: submissionResult.xpEarned,
-        completed,
+        completed: submissionResult.lessonCompleted,
       });
 
       return response;
@@ -182,6 +306,461 @@ export class LessonService {
     }
   }
 
+  /**
+   * Replay a submitted attempt as the learner saw it: each answer with the question,
+   * options and answer key of the revision it was graded against
+   */
+  static async getAttemptReview(
+    lessonId: string,
+    attemptId: string,
+    userId: string
+  ): Promise<AttemptReviewDto | null> {
+    LoggerService.logService('LessonService', `getAttemptReview(${lessonId}, ${attemptId})`, true);
+
+    try {
+      const attempt = await RevisionRepository.findAttemptWithRevisions(userId, attemptId);
+      if (!attempt || attempt.lessonId !== lessonId) {
+        return null;
+      }
+
+      // Templated problems are shown with the values drawn for the attempt
+      const instances = await ProblemInstanceRepository.findByAttempt(userId, attemptId);
+      const valuesByProblem = new Map(instances.map(instance => [instance.problemId, instance.values as TemplateValues]));
+
+      const { problemRevisionIds } = attempt.lessonRevision;
+      const position = (revisionId: string) => {
+        const index = problemRevisionIds.indexOf(revisionId);
+        return index === -1 ? problemRevisionIds.length : index;
+      };
+      const answers = [...attempt.answers].sort(
+        (a, b) => position(a.problemRevisionId) - position(b.problemRevisionId)
+      );
+
+      const problems = answers.map((answer, index) => {
+        const snapshot = toProblemSnapshot(answer.problemRevision);
+        const values = valuesByProblem.get(answer.problemId);
+        const problem = {
+          ...(snapshot.template && values ? renderProblem(snapshot, values) : snapshot),
+          id: answer.problemId,
+          order: index + 1,
+        };
+
+        return transformAttemptReviewProblemToDto(problem, {
+          revision: answer.problemRevision.revision,
+          userAnswer: deserializeAnswer(problem.problemType, answer.userAnswer),
+          isCorrect: answer.isCorrect,
+          xpEarned: answer.xpEarned,
+          hintsUsed: answer.hintsUsed,
+          correctAnswer: graderRegistry.formatCorrectAnswer(problem),
+        });
+      });
+
+      return {
+        attemptId: attempt.attemptId,
+        lessonId: attempt.lessonId,
+        lessonRevision: attempt.lessonRevision.revision,
+        title: attempt.lessonRevision.title,
+        description: attempt.lessonRevision.description,
+        submittedAt: attempt.submittedAt,
+        score: attempt.score,
+        completed: attempt.isCorrect,
+        xpEarned: attempt.xpEarned,
+        timeSpent: attempt.timeSpent,
+        problems,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get attempt review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        attemptId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Grade one answer with the grader registered for the problem type
+   * Throws when the answer shape does not match the problem type
+   */
+  static gradeAnswer(
+    problem: GradedProblem,
+    answer: AnswerPayload,
+    xpForCorrect: number,
+    hintsUsed: number = 0
+  ): ProblemResultDto {
+    const payloadSchema = answerPayloadSchemas[problem.problemType as ProblemType];
+    if (!payloadSchema?.safeParse(answer).success) {
+      throw new Error(`Invalid answer for ${problem.problemType} problem: ${problem.id}`);
+    }
+
+    const { isCorrect, reason } = graderRegistry.grade(problem, answer);
+
+    return {
+      problemId: problem.id,
+      userAnswer: answer,
+      isCorrect,
+      reason,
+      correctAnswer: graderRegistry.formatCorrectAnswer(problem),
+      explanation: problem.explanation || '',
+      solutionSteps: problem.hints ?? [],
+      hintsUsed,
+      xpEarned: isCorrect ? xpForCorrect : 0,
+    };
+  }
+
+  /**
+   * Grade a single answer during an attempt, for instant feedback. The first check of a
+   * problem is final: later checks return its result, and the submission reuses it.
+   * Only the learner's attempt in progress can be checked, and the answer key and
+   * worked solution are left out until the attempt is submitted.
+   */
+  static async checkAnswer(
+    lessonId: string,
+    problemId: string,
+    attemptId: string,
+    answer: AnswerPayload,
+    userId: string
+  ): Promise<AnswerCheckDto> {
+    LoggerService.logService('LessonService', `checkAnswer(${lessonId}, ${problemId}, ${attemptId})`, true);
+
+    try {
+      await LessonService.requireAttemptInProgress(userId, lessonId, attemptId);
+
+      const lesson = await LessonRepository.findByIdWithProblems(lessonId, true);
+      if (!lesson) {
+        throw new Error('Lesson not found');
+      }
+
+      const stored = lesson.problems.find(problem => problem.id === problemId);
+      if (!stored) {
+        throw new Error(`Problem not found: ${problemId}`);
+      }
+
+      const [problem] = await LessonService.instantiateProblems([stored], userId, attemptId);
+      const revealed = (await LessonService.findHintsUsed(userId, attemptId)).get(problemId) ?? 0;
+      const hintsUsed = Math.min(revealed, problem.hints?.length ?? 0);
+      const result = LessonService.gradeAnswer(
+        problem,
+        answer,
+        xpAfterHints(XP_PER_CORRECT_ANSWER, hintsUsed, lesson.hintPenalty),
+        hintsUsed
+      );
+
+      const check = await AnswerCheckRepository.recordCheck(userId, attemptId, problemId, {
+        answer: serializeAnswer(answer),
+        isCorrect: result.isCorrect,
+        xpEarned: result.xpEarned,
+        hintsUsed,
+      });
+
+      return transformProblemResultToCheckDto(LessonService.gradeCheck(problem, check, lesson.hintPenalty));
+    } catch (error) {
+      LoggerService.error('Failed to check answer', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        problemId,
+        attemptId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Grade a checked answer again with the hints it was checked with
+   */
+  private static gradeCheck(
+    problem: GradedProblem,
+    check: Pick<AnswerCheck, 'answer' | 'hintsUsed'>,
+    hintPenalty: number
+  ): ProblemResultDto {
+    return LessonService.gradeAnswer(
+      problem,
+      deserializeAnswer(problem.problemType as ProblemType, check.answer),
+      xpAfterHints(XP_PER_CORRECT_ANSWER, check.hintsUsed, hintPenalty),
+      check.hintsUsed
+    );
+  }
+
+  /**
+   * Reveal the next hint of a problem during the attempt in progress; asking again after
+   * the last hint changes nothing. Templated problems show hints with the attempt's values.
+   */
+  static async revealHint(
+    lessonId: string,
+    problemId: string,
+    attemptId: string,
+    userId: string
+  ): Promise<HintRevealDto> {
+    LoggerService.logService('LessonService', `revealHint(${lessonId}, ${problemId}, ${attemptId})`, true);
+
+    try {
+      await LessonService.requireAttemptInProgress(userId, lessonId, attemptId);
+
+      const lesson = await LessonRepository.findByIdWithProblems(lessonId, false);
+      if (!lesson) {
+        throw new Error('Lesson not found');
+      }
+
+      const stored = lesson.problems.find(problem => problem.id === problemId);
+      if (!stored) {
+        throw new Error(`Problem not found: ${problemId}`);
+      }
+
+      const [problem] = await LessonService.instantiateProblems([stored], userId, attemptId);
+      const hints = problem.hints ?? [];
+      const revealed = (await LessonService.findHintsUsed(userId, attemptId)).get(problemId) ?? 0;
+      const hintsRevealed = nextHintCount(Math.min(revealed, hints.length), hints.length);
+
+      if (hintsRevealed > revealed) {
+        await HintRepository.recordReveal(userId, attemptId, problemId, hintsRevealed);
+      }
+
+      return {
+        problemId,
+        hints: hints.slice(0, hintsRevealed),
+        hintCount: hints.length,
+        xpAvailable: xpAfterHints(XP_PER_CORRECT_ANSWER, hintsRevealed, lesson.hintPenalty),
+      };
+    } catch (error) {
+      LoggerService.error('Failed to reveal hint', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        problemId,
+        attemptId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resume the learner's attempt in progress for a lesson, or start a new one
+   * so the answers can be saved as they go and picked up on any device
+   */
+  static async getOrStartAttempt(lessonId: string, userId: string): Promise<AttemptDraftDto | null> {
+    LoggerService.logService('LessonService', `getOrStartAttempt(${lessonId})`, true);
+
+    try {
+      const lesson = await LessonRepository.findById(lessonId);
+      if (!lesson) {
+        return null;
+      }
+
+      const draft = await AttemptDraftRepository.findActive(userId, lessonId)
+        ?? await AttemptDraftRepository.start(userId, lessonId, `attempt-${randomUUID()}`, draftExpiry());
+
+      return await LessonService.toAttemptDraftDto(draft);
+    } catch (error) {
+      LoggerService.error('Failed to get attempt in progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Save the answers and position of an attempt in progress, keeping it for another
+   * ATTEMPT_DRAFT_TTL_DAYS. Submitted, expired or replaced attempts can no longer be saved.
+   */
+  static async saveAttempt(lessonId: string, data: SaveAttemptDto, userId: string): Promise<AttemptDraftDto> {
+    LoggerService.logService('LessonService', `saveAttempt(${lessonId}, ${data.attemptId})`, true);
+
+    try {
+      const saved = await AttemptDraftRepository.save(userId, lessonId, data.attemptId, {
+        answers: data.answers,
+        currentIndex: data.currentIndex,
+        expiresAt: draftExpiry(),
+      });
+      const draft = saved ? await AttemptDraftRepository.findActive(userId, lessonId) : null;
+      if (!draft) {
+        throw new Error('Attempt is no longer in progress');
+      }
+
+      return await LessonService.toAttemptDraftDto(draft);
+    } catch (error) {
+      LoggerService.error('Failed to save attempt in progress', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        lessonId,
+        attemptId: data.attemptId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * An attempt in progress with the answers already checked, graded again with the
+   * hints they were checked with so instant feedback is shown again on resume
+   */
+  private static async toAttemptDraftDto(draft: AttemptDraft): Promise<AttemptDraftDto> {
+    const checks = await AnswerCheckRepository.findByAttempt(draft.userId, draft.attemptId);
+    const lesson = checks.length > 0 ? await LessonRepository.findByIdWithProblems(draft.lessonId, true) : null;
+    if (!lesson) {
+      return transformAttemptDraftToDto(draft, []);
+    }
+
+    const checksByProblem = new Map(checks.map(check => [check.problemId, check]));
+    const problems = await LessonService.instantiateProblems(
+      lesson.problems.filter(problem => checksByProblem.has(problem.id)),
+      draft.userId,
+      draft.attemptId
+    );
+
+    return transformAttemptDraftToDto(
+      draft,
+      problems.map(problem => transformProblemResultToCheckDto(
+        LessonService.gradeCheck(problem, checksByProblem.get(problem.id)!, lesson.hintPenalty)
+      ))
+    );
+  }
+
+  /**
+   * Only the learner's attempt in progress for the lesson can be checked or given hints,
+   * so neither can be gathered under a throwaway attempt
+   */
+  private static async requireAttemptInProgress(userId: string, lessonId: string, attemptId: string): Promise<void> {
+    const draft = await AttemptDraftRepository.findActive(userId, lessonId);
+    if (draft?.attemptId !== attemptId) {
+      throw new Error('Attempt is no longer in progress');
+    }
+  }
+
+  /**
+   * Hints revealed per problem during an attempt
+   */
+  private static async findHintsUsed(userId: string, attemptId: string): Promise<Map<string, number>> {
+    const reveals = await HintRepository.findByAttempt(userId, attemptId);
+    return new Map(reveals.map(reveal => [reveal.problemId, reveal.hintsRevealed]));
+  }
+
+  /**
+   * Unlock the achievements earned by a submission. The submission is already
+   * committed, so a failure here is logged rather than failing the request;
+   * the achievements are picked up again on the next submission.
+   */
+  private static async unlockAchievements(
+    userId: string,
+    submissionResult: SubmissionResult
+  ): Promise<AchievementDto[]> {
+    try {
+      return await AchievementService.evaluateAfterSubmission(userId, {
+        attemptId: submissionResult.attempt.attemptId,
+        totalXp: submissionResult.totalXp,
+        bestStreak: submissionResult.bestStreak,
+        score: submissionResult.score,
+        timeSpent: submissionResult.attempt.timeSpent,
+      });
+    } catch (error) {
+      LoggerService.error('Failed to unlock achievements after submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId: submissionResult.attempt.attemptId,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Drop the submitted attempt's saved progress; a leftover draft expires on its own,
+   * so a failure is logged rather than failing the submission
+   */
+  private static async discardDraft(userId: string, attemptId: string): Promise<void> {
+    try {
+      await AttemptDraftRepository.deleteByAttempt(userId, attemptId);
+    } catch (error) {
+      LoggerService.error('Failed to discard attempt draft after submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        attemptId,
+      });
+    }
+  }
+
+  /**
+   * Enter the learner in this week's leaderboard; like achievements, a failure
+   * must not fail the already committed submission
+   */
+  private static async joinLeaderboard(userId: string): Promise<void> {
+    try {
+      await LeaderboardService.joinCurrentWeek(userId);
+    } catch (error) {
+      LoggerService.error('Failed to join leaderboard after submission', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Credit a recommendation experiment with the learner starting or completing
+   * a lesson it recommended; analytics must never fail the learner's request
+   */
+  private static async recordExperimentOutcome(
+    userId: string,
+    lessonId: string,
+    event: ExperimentEvent
+  ): Promise<void> {
+    try {
+      await ExperimentService.recordOutcome(userId, lessonId, event);
+    } catch (error) {
+      LoggerService.error('Failed to record experiment outcome', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        lessonId,
+        event,
+      });
+    }
+  }
+
+  /**
+   * Render templated problems with the values stored for the attempt,
+   * drawing (and storing) values for problems seen for the first time
+   */
+  static async instantiateProblems<T extends TemplatedProblem & { id: string; template?: unknown }>(
+    problems: T[],
+    userId: string,
+    attemptId: string
+  ): Promise<T[]> {
+    if (!problems.some(problem => problem.template)) {
+      return problems;
+    }
+
+    const instances = await ProblemInstanceRepository.findByAttempt(userId, attemptId);
+    const storedValues = new Map(instances.map(instance => [instance.problemId, instance.values as TemplateValues]));
+    const created: CreateProblemInstanceInput[] = [];
+
+    const rendered = problems.map(problem => {
+      if (!problem.template) {
+        return problem;
+      }
+
+      let values = storedValues.get(problem.id);
+      if (!values) {
+        values = instantiateTemplate(parseProblemTemplate(problem.template), templateSeed(attemptId, problem.id));
+        created.push({ problemId: problem.id, values, question: renderTemplateText(problem.question, values) });
+      }
+      return renderProblem(problem, values);
+    });
+
+    await ProblemInstanceRepository.createMany(userId, attemptId, created);
+    return rendered;
+  }
+
+  /**
+   * Render a templated problem with preview values (nothing is stored)
+   */
+  private static previewProblem<T extends TemplatedProblem & { id: string; template?: unknown }>(problem: T): T {
+    if (!problem.template) {
+      return problem;
+    }
+    const values = instantiateTemplate(parseProblemTemplate(problem.template), templateSeed(PREVIEW_ATTEMPT_ID, problem.id));
+    return renderProblem(problem, values);
+  }
+
   /**
    * Get lesson statistics
    */
@@ -0,0 +1,146 @@
+/**
+ * Problem Template Unit Tests
+ * Seeded instantiation, constraints and placeholder rendering (no database involved)
+ */
+
+import {
+  createSeededRandom,
+  formatTemplateNumber,
+  instantiateTemplate,
+  parseProblemTemplate,
+  renderProblem,
+  renderTemplateText,
+  templateSeed,
+  ProblemTemplate,
+} from '..';
+
+const additionTemplate: ProblemTemplate = {
+  variables: {
+    a: { min: 2, max: 20 },
+    b: { min: 2, max: 20 },
+  },
+};
+
+describe('createSeededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const first = createSeededRandom('attempt-1:problem-1');
+    const second = createSeededRandom('attempt-1:problem-1');
+    const sequence = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should differ between seeds', () => {
+    expect(createSeededRandom('attempt-1')()).not.toBe(createSeededRandom('attempt-2')());
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('should be reproducible for an attempt and vary across attempts', () => {
+    const seed = templateSeed('attempt-1', 'problem-1');
+    expect(instantiateTemplate(additionTemplate, seed)).toEqual(instantiateTemplate(additionTemplate, seed));
+
+    const draws = new Set(
+      Array.from({ length: 20 }, (_, index) =>
+        JSON.stringify(instantiateTemplate(additionTemplate, templateSeed(`attempt-${index}`, 'problem-1')))
+      )
+    );
+    expect(draws.size).toBeGreaterThan(10);
+  });
+
+  it('should keep values inside their ranges and steps', () => {
+    const template: ProblemTemplate = { variables: { x: { min: 0.5, max: 2, step: 0.5 } } };
+
+    for (let index = 0; index < 50; index++) {
+      const { x } = instantiateTemplate(template, `seed-${index}`);
+      expect([0.5, 1, 1.5, 2]).toContain(x);
+    }
+  });
+
+  it('should only return values that satisfy the constraints', () => {
+    const template: ProblemTemplate = {
+      variables: { a: { min: 10, max: 99 }, b: { min: 2, max: 9 } },
+      constraints: [{ expression: 'a / b', integer: true }, { expression: 'a - 5b', min: 0 }],
+    };
+
+    for (let index = 0; index < 50; index++) {
+      const { a, b } = instantiateTemplate(template, `seed-${index}`);
+      expect(a % b).toBe(0);
+      expect(a - 5 * b).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should throw when the constraints cannot be met', () => {
+    const template: ProblemTemplate = {
+      variables: { a: { min: 1, max: 3 } },
+      constraints: [{ expression: 'a', min: 10 }],
+    };
+
+    expect(() => instantiateTemplate(template, 'seed')).toThrow('Template constraints cannot be satisfied');
+  });
+});
+
+describe('renderTemplateText', () => {
+  it('should replace placeholders with evaluated expressions', () => {
+    expect(renderTemplateText('What is {a} + {b}?', { a: 7, b: 5 })).toBe('What is 7 + 5?');
+    expect(renderTemplateText('{a * b}', { a: 7, b: 5 })).toBe('35');
+    expect(renderTemplateText('["{a}", "{2a}"]', { a: 3 })).toBe('["3", "6"]');
+  });
+
+  it('should drop floating-point noise', () => {
+    expect(renderTemplateText('{a + b}', { a: 0.1, b: 0.2 })).toBe('0.3');
+    expect(formatTemplateNumber(1 / 3)).toBe('0.333333333333');
+  });
+
+  it('should reject unknown variables and malformed expressions', () => {
+    expect(() => renderTemplateText('{c}', { a: 1 })).toThrow('Template expression has no value: c');
+    expect(() => renderTemplateText('{a +}', { a: 1 })).toThrow('Invalid template expression: a +');
+  });
+});
+
+describe('renderProblem', () => {
+  it('should render the question, correct answer and options', () => {
+    const problem = {
+      id: 'problem-1',
+      question: 'What is {a} × {b}?',
+      correctAnswer: '{a * b}',
+      options: [{ id: 'opt-1', optionText: '{a * b + 1}' }],
+    };
+
+    expect(renderProblem(problem, { a: 3, b: 4 })).toEqual({
+      id: 'problem-1',
+      question: 'What is 3 × 4?',
+      correctAnswer: '12',
+      options: [{ id: 'opt-1', optionText: '13' }],
+    });
+  });
+
+  it('should render every hint step', () => {
+    const problem = {
+      question: 'What is {a} × {b}?',
+      correctAnswer: '{a * b}',
+      hints: ['Add {a} to itself {b} times', '{a} × {b} = {a * b}'],
+    };
+
+    expect(renderProblem(problem, { a: 3, b: 4 }).hints).toEqual(['Add 3 to itself 4 times', '3 × 4 = 12']);
+  });
+});
+
+describe('parseProblemTemplate', () => {
+  it('should accept well-formed templates', () => {
+    expect(parseProblemTemplate(additionTemplate)).toEqual(additionTemplate);
+  });
+
+  it.each([
+    [{ variables: {} }],
+    [{ variables: { ab: { min: 1, max: 2 } } }],
+    [{ variables: { a: { min: 5, max: 1 } } }],
+    [null],
+  ])('should reject %p', (template) => {
+    expect(() => parseProblemTemplate(template)).toThrow('Invalid problem template');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Problem Templates
+ * Parameterized problems ("What is {a} + {b}?") instantiated per attempt
+ */
+
+import { z } from 'zod';
+import { parseExpression, evaluateExpression, ExpressionNode } from '../grading/answer-parser';
+
+// Placeholders are expressions over the template variables, e.g. "{a}" or "{a * b}"
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+// Draws attempted before the constraints are considered unsatisfiable
+const MAX_DRAWS = 200;
+
+/**
+ * Template stored in Problem.template
+ *   variables:   single-letter names drawn uniformly from min..max in steps of step
+ *   constraints: expressions whose value must stay in min..max (and be whole if integer)
+ */
+export const problemTemplateSchema = z.object({
+  variables: z.record(
+    z.string().regex(/^[a-z]$/, 'Template variables must be single lowercase letters'),
+    z.object({
+      min: z.number().finite(),
+      max: z.number().finite(),
+      step: z.number().positive().optional(),
+    }).refine(range => range.max >= range.min, 'Variable max must not be below min')
+  ).refine(variables => Object.keys(variables).length > 0, 'Template needs at least one variable'),
+  constraints: z.array(z.object({
+    expression: z.string().min(1),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    integer: z.boolean().optional(),
+  })).optional(),
+});
+
+export type ProblemTemplate = z.infer<typeof problemTemplateSchema>;
+
+export type TemplateValues = Record<string, number>;
+
+/**
+ * Read Problem.template; throws when the stored template is malformed
+ */
+export function parseProblemTemplate(template: unknown): ProblemTemplate {
+  const result = problemTemplateSchema.safeParse(template);
+  if (!result.success) {
+    throw new Error(`Invalid problem template: ${result.error.issues[0]?.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Deterministic pseudo-random generator (FNV-1a hash of the seed feeding mulberry32)
+ * Returns values in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    state ^= seed.charCodeAt(index);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Format a computed number for display and grading (drops float noise like 0.30000000000000004)
+ */
+export function formatTemplateNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
+
+function compileExpression(source: string): ExpressionNode {
+  const expression = parseExpression(source);
+  if (!expression) {
+    throw new Error(`Invalid template expression: ${source}`);
+  }
+  return expression;
+}
+
+/**
+ * Draw variable values for a template from the given seed
+ * The same template and seed always produce the same values
+ */
+export function instantiateTemplate(template: ProblemTemplate, seed: string): TemplateValues {
+  const random = createSeededRandom(seed);
+  const names = Object.keys(template.variables).sort();
+  const constraints = (template.constraints ?? []).map(constraint => ({
+    ...constraint,
+    expression: compileExpression(constraint.expression),
+  }));
+
+  for (let draw = 0; draw < MAX_DRAWS; draw++) {
+    const values: TemplateValues = {};
+    for (const name of names) {
+      const { min, max, step = 1 } = template.variables[name];
+      const choices = Math.floor((max - min) / step) + 1;
+      values[name] = Number((min + step * Math.floor(random() * choices)).toPrecision(12));
+    }
+
+    const satisfied = constraints.every(constraint => {
+      const value = evaluateExpression(constraint.expression, values);
+      return Number.isFinite(value) &&
+        (constraint.min === undefined || value >= constraint.min) &&
+        (constraint.max === undefined || value <= constraint.max) &&
+        (!constraint.integer || Number.isInteger(Number(value.toPrecision(12))));
+    });
+
+    if (satisfied) {
+      return values;
+    }
+  }
+
+  throw new Error('Template constraints cannot be satisfied');
+}
+
+/**
+ * Replace every {expression} placeholder with its value
+ */
+export function renderTemplateText(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, source: string) => {
+    const value = evaluateExpression(compileExpression(source), values);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Template expression has no value: ${source}`);
+    }
+    return formatTemplateNumber(value);
+  });
+}
+
+/**
+ * Text fields of a problem that may carry placeholders
+ */
+export interface TemplatedProblem {
+  question: string;
+  correctAnswer: string | null;
+  explanation?: string | null;
+  hints?: string[];
+  options?: Array<{ optionText: string }>;
+}
+
+/**
+ * Render the question, correct answer, explanation, hints and option texts of a templated problem
+ */
+export function renderProblem<T extends TemplatedProblem>(problem: T, values: TemplateValues): T {
+  return {
+    ...problem,
+    question: renderTemplateText(problem.question, values),
+    correctAnswer: problem.correctAnswer === null ? null : renderTemplateText(problem.correctAnswer, values),
+    explanation: problem.explanation ? renderTemplateText(problem.explanation, values) : problem.explanation,
+    hints: problem.hints?.map(hint => renderTemplateText(hint, values)),
+    options: problem.options?.map(option => ({
+      ...option,
+      optionText: renderTemplateText(option.optionText, values),
+    })),
+  };
+}
+
+/**
+ * Seed for a problem within an attempt, so every problem of a retry draws fresh values
+ */
+export function templateSeed(attemptId: string, problemId: string): string {
+  return `${attemptId}:${problemId}`;
+}
@@ -28,9 +28,16 @@ jest.mock('../../../core/middleware', () => ({
 const app = express();
 app.use(express.json());
 
+// Simulate the authenticated user populated by the auth middleware
+app.use((req, res, next) => {
+  req.user = { id: (req.headers['x-user-id'] as string) || '1', email: 'test@example.com', role: 'learner' };
+  next();
+});
+
 // Mount profile routes
 app.get('/profile', ProfileController.getUserProfile);
 app.get('/profile/stats/:id', ProfileController.getUserStats);
+app.get('/profile/mastery', ProfileController.getSkillMastery);
 
 describe('ProfileController', () => {
   beforeEach(() => {
@@ -62,7 +69,7 @@ describe('ProfileController', () => {
       MockedProfileService.getUserProfile.mockResolvedValue(mockProfile);
 
       const response = await request(app)
-        .get('/profile?userId=1')
+        .get('/profile')
         .expect(200);
 
       expect(MockedProfileService.getUserProfile).toHaveBeenCalledWith('1');
@@ -74,7 +81,8 @@ describe('ProfileController', () => {
       MockedProfileService.getUserProfile.mockRejectedValue(error);
 
       const response = await request(app)
-        .get('/profile?userId=999')
+        .get('/profile')
+        .set('x-user-id', '999')
         .expect(404);
 
       expect(response.body.success).toBe(false);
@@ -101,7 +109,7 @@ describe('ProfileController', () => {
           averagePerSession: 0,
         },
         achievements: [],
-        weeklyProgress: [],
+        dailyProgress: [],
       };
 
       MockedProfileService.getUserStats.mockResolvedValue(mockStats);
@@ -110,8 +118,62 @@ describe('ProfileController', () => {
         .get('/profile/stats/1')
         .expect(200);
 
-      expect(MockedProfileService.getUserStats).toHaveBeenCalledWith('1');
+      expect(MockedProfileService.getUserStats).toHaveBeenCalledWith('1', { days: 7 });
       expect(response.body.success).toBe(true);
     });
+
+    it('should pass the requested number of days', async () => {
+      MockedProfileService.getUserStats.mockResolvedValue({} as never);
+
+      await request(app)
+        .get('/profile/stats/1?days=84')
+        .expect(200);
+
+      expect(MockedProfileService.getUserStats).toHaveBeenCalledWith('1', { days: 84 });
+    });
+
+    it('should reject an out-of-range number of days', async () => {
+      const response = await request(app)
+        .get('/profile/stats/1?days=0')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(MockedProfileService.getUserStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /profile/mastery', () => {
+    it('should return the learner\'s skill mastery', async () => {
+      MockedProfileService.getSkillMastery.mockResolvedValue([
+        {
+          skillId: 'skill-addition',
+          name: 'Addition',
+          description: null,
+          probability: 0.8455,
+          level: 'developing',
+          attempts: 1,
+          correctCount: 1,
+          lastPracticedAt: null,
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/profile/mastery')
+        .set('x-user-id', 'user-42')
+        .expect(200);
+
+      expect(MockedProfileService.getSkillMastery).toHaveBeenCalledWith('user-42');
+      expect(response.body.data[0]).toEqual(expect.objectContaining({ skillId: 'skill-addition', level: 'developing' }));
+    });
+
+    it('should return 500 when mastery cannot be loaded', async () => {
+      MockedProfileService.getSkillMastery.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app)
+        .get('/profile/mastery')
+        .expect(500);
+
+      expect(response.body.error).toBe('Failed to retrieve skill mastery');
+    });
   });
 });
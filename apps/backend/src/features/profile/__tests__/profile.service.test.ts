@@ -16,15 +16,40 @@ const mockPrisma = {
   lesson: {
     count: jest.fn(),
   },
-  submission: {
-    findMany: jest.fn(),
+  attemptAnswer: {
+    count: jest.fn(),
   },
 };
 
+const mockMasteryRepository = {
+  findSkillsWithMastery: jest.fn(),
+};
+
+const mockActivityRepository = {
+  sumActivity: jest.fn(),
+  findDailyActivity: jest.fn(),
+};
+
+const mockAchievementService = {
+  getUserAchievements: jest.fn(),
+};
+
+jest.mock('../../achievements/achievement.service', () => ({
+  AchievementService: mockAchievementService,
+}));
+
 jest.mock('../../../core/repositories/user.repository', () => ({
   UserRepository: mockUserRepository,
 }));
 
+jest.mock('../../../core/repositories/mastery.repository', () => ({
+  MasteryRepository: mockMasteryRepository,
+}));
+
+jest.mock('../../../core/repositories/activity.repository', () => ({
+  ActivityRepository: mockActivityRepository,
+}));
+
 jest.mock('../../../core/database', () => ({
   prisma: mockPrisma,
 }));
@@ -36,7 +61,7 @@ jest.mock('../../../core/logger/logger.service', () => ({
   },
 }));
 
-import { ProfileService } from '../profile.service';
+import { ProfileService, localMonthStart, localWeekStart } from '../profile.service';
 import { LoggerService } from '../../../core/logger/logger.service';
 
 const mockLogger = LoggerService as jest.Mocked<typeof LoggerService>;
@@ -44,6 +69,21 @@ const mockLogger = LoggerService as jest.Mocked<typeof LoggerService>;
 describe('ProfileService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    // Streaks are read relative to the current day
+    jest.useFakeTimers({ now: new Date('2024-01-15T12:00:00Z') });
+    mockAchievementService.getUserAchievements.mockResolvedValue([]);
+    mockActivityRepository.sumActivity.mockResolvedValue({
+      xpThisWeek: 0,
+      xpThisMonth: 0,
+      totalSeconds: 0,
+      weekSeconds: 0,
+      timedAttempts: 0,
+    });
+    mockActivityRepository.findDailyActivity.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
   });
 
   describe('getUserProfile', () => {
@@ -62,6 +102,8 @@ describe('ProfileService', () => {
         currentStreak: 5,
         bestStreak: 8,
         lastActivityDate: new Date('2024-01-15'),
+        streakFreezes: 0,
+        timezone: 'UTC',
         isVerified: true,
         isActive: true,
         createdAt: new Date('2024-01-01'),
@@ -91,6 +133,8 @@ describe('ProfileService', () => {
           currentStreak: true,
           bestStreak: true,
           lastActivityDate: true,
+          streakFreezes: true,
+          timezone: true,
           isVerified: true,
           isActive: true,
           createdAt: true,
@@ -107,6 +151,7 @@ describe('ProfileService', () => {
       expect(mockPrisma.lesson.count).toHaveBeenCalledWith({
         where: {
           isActive: true,
+          status: 'published',
         },
       });
 
@@ -204,36 +249,41 @@ describe('ProfileService', () => {
       expect(result.lessonsCompleted).toBe(0);
     });
 
-    it('should use default userId when not provided', async () => {
-      // Arrange
-      const defaultUserId = '1';
+    it('should read the streak in the learner timezone', async () => {
+      // Arrange - last active late on Jan 13 in New York, which is already Jan 14 in UTC
       const mockUser = {
-        id: '1',
-        email: 'default@example.com',
-        username: 'defaultuser',
-        firstName: 'Default',
-        lastName: 'User',
-        displayName: 'Default User',
+        id: 'user-4',
+        email: 'nyc@example.com',
+        username: null,
+        firstName: null,
+        lastName: null,
+        displayName: null,
         avatar: null,
-        totalXp: 25,
-        currentStreak: 2,
-        bestStreak: 3,
-        lastActivityDate: new Date(),
-        isVerified: false,
+        totalXp: 80,
+        currentStreak: 4,
+        bestStreak: 6,
+        lastActivityDate: new Date('2024-01-14T03:00:00Z'),
+        streakFreezes: 0,
+        timezone: 'America/New_York',
+        isVerified: true,
         isActive: true,
-        createdAt: new Date(),
+        createdAt: new Date('2024-01-01'),
       };
 
       mockUserRepository.findById.mockResolvedValue(mockUser);
-      mockPrisma.userProgress.count.mockResolvedValue(1);
-      mockPrisma.lesson.count.mockResolvedValue(5);
+      mockPrisma.userProgress.count.mockResolvedValue(0);
+      mockPrisma.lesson.count.mockResolvedValue(10);
 
       // Act
-      const result = await ProfileService.getUserProfile();
+      const result = await ProfileService.getUserProfile('user-4');
 
-      // Assert
-      expect(mockUserRepository.findById).toHaveBeenCalledWith(defaultUserId, expect.any(Object));
-      expect(result.id).toBe('1');
+      // Assert - Jan 14 was missed in New York and no freeze covers it
+      expect(result.streak).toEqual({ current: 0, longest: 6, lastActiveDate: '2024-01-13' });
+
+      // A held freeze keeps the streak alive
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, streakFreezes: 1 });
+      const withFreeze = await ProfileService.getUserProfile('user-4');
+      expect(withFreeze.streak.current).toBe(4);
     });
 
     it('should throw error when user not found', async () => {
@@ -274,6 +324,8 @@ describe('ProfileService', () => {
         currentStreak: 7,
         bestStreak: 10,
         lastActivityDate: new Date('2024-01-15'),
+        streakFreezes: 0,
+        timezone: 'UTC',
       };
 
       const mockUserProgress = [
@@ -303,28 +355,30 @@ describe('ProfileService', () => {
         },
       ];
 
-      const mockSubmissions = [
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockPrisma.userProgress.findMany.mockResolvedValue(mockUserProgress);
+      mockPrisma.attemptAnswer.count.mockResolvedValue(2);
+      const mockAchievements = [
         {
-          id: 'submission-1',
-          userId: 'user-1',
-          lessonId: 'lesson-1',
-          isCorrect: true,
-          xpEarned: 10,
-          submittedAt: new Date('2024-01-15'),
+          id: 'first_lesson',
+          title: 'First Steps',
+          description: 'Complete your first lesson',
+          icon: '🎯',
+          rule: 'lessons_completed',
+          threshold: 1,
+          unlockedAt: new Date('2024-01-10T09:00:00Z'),
         },
         {
-          id: 'submission-2',
-          userId: 'user-1',
-          lessonId: 'lesson-2',
-          isCorrect: true,
-          xpEarned: 15,
-          submittedAt: new Date('2024-01-14'),
+          id: 'streak_30',
+          title: 'Monthly Master',
+          description: 'Maintain a 30-day streak',
+          icon: '🏆',
+          rule: 'streak_length',
+          threshold: 30,
+          unlockedAt: null,
         },
       ];
-
-      mockUserRepository.findById.mockResolvedValue(mockUser);
-      mockPrisma.userProgress.findMany.mockResolvedValue(mockUserProgress);
-      mockPrisma.submission.findMany.mockResolvedValue(mockSubmissions);
+      mockAchievementService.getUserAchievements.mockResolvedValue(mockAchievements);
 
       // Act
       const result = await ProfileService.getUserStats(userId);
@@ -344,10 +398,8 @@ describe('ProfileService', () => {
         },
       });
 
-      expect(mockPrisma.submission.findMany).toHaveBeenCalledWith({
-        where: { userId },
-        orderBy: { createdAt: 'desc' },
-        take: 10,
+      expect(mockPrisma.attemptAnswer.count).toHaveBeenCalledWith({
+        where: { attempt: { userId } },
       });
 
       expect(result).toEqual({
@@ -367,9 +419,12 @@ describe('ProfileService', () => {
           thisWeekMinutes: 0,
           averagePerSession: 0,
         },
-        achievements: [],
-        weeklyProgress: [],
+        achievements: mockAchievements,
+        dailyProgress: [
+          '2024-01-09', '2024-01-10', '2024-01-11', '2024-01-12', '2024-01-13', '2024-01-14', '2024-01-15',
+        ].map(date => ({ date, xpEarned: 0, lessonsCompleted: 0, timeSpent: 0 })),
       });
+      expect(mockAchievementService.getUserAchievements).toHaveBeenCalledWith(userId);
 
       expect(mockLogger.logService).toHaveBeenCalledWith(
         'ProfileService',
@@ -391,7 +446,7 @@ describe('ProfileService', () => {
 
       mockUserRepository.findById.mockResolvedValue(mockUser);
       mockPrisma.userProgress.findMany.mockResolvedValue([]);
-      mockPrisma.submission.findMany.mockResolvedValue([]);
+      mockPrisma.attemptAnswer.count.mockResolvedValue(0);
 
       // Act
       const result = await ProfileService.getUserStats(userId);
@@ -401,30 +456,53 @@ describe('ProfileService', () => {
   expect(result.averageScore).toBe(0);
   expect(result.totalLessonsCompleted).toBe(0);
   expect(result.achievements).toEqual([]);
-  expect(result.weeklyProgress).toEqual([]);
+  expect(result.dailyProgress).toHaveLength(7);
     });
 
-    it('should use default userId when not provided', async () => {
+    it('should aggregate XP, time spent and daily progress in the learner\'s timezone', async () => {
       // Arrange
-      const defaultUserId = '1';
-      const mockUser = {
-        id: '1',
-        totalXp: 100,
-        currentStreak: 3,
-        bestStreak: 5,
-        lastActivityDate: new Date(),
-      };
-
-      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockUserRepository.findById.mockResolvedValue({
+        id: 'user-1',
+        totalXp: 300,
+        bestStreak: 3,
+        lastActivityDate: null,
+        streakFreezes: 0,
+        // 2024-01-15T12:00Z is the evening of Monday 15 January in Jakarta
+        timezone: 'Asia/Jakarta',
+      });
       mockPrisma.userProgress.findMany.mockResolvedValue([]);
-      mockPrisma.submission.findMany.mockResolvedValue([]);
+      mockPrisma.attemptAnswer.count.mockResolvedValue(0);
+      mockActivityRepository.sumActivity.mockResolvedValue({
+        xpThisWeek: 40,
+        xpThisMonth: 180,
+        totalSeconds: 3000,
+        weekSeconds: 600,
+        timedAttempts: 4,
+      });
+      mockActivityRepository.findDailyActivity.mockResolvedValue([
+        { date: '2024-01-13', xpEarned: 60, lessonsCompleted: 1, seconds: 450 },
+        { date: '2024-01-15', xpEarned: 40, lessonsCompleted: 0, seconds: 600 },
+      ]);
 
       // Act
-      const result = await ProfileService.getUserStats();
+      const result = await ProfileService.getUserStats('user-1', { days: 3 });
 
       // Assert
-      expect(mockUserRepository.findById).toHaveBeenCalledWith(defaultUserId);
-  expect(result.totalXp).toBe(100);
+      expect(mockActivityRepository.sumActivity).toHaveBeenCalledWith('user-1', 'Asia/Jakarta', '2024-01-15', '2024-01-01');
+      expect(mockActivityRepository.findDailyActivity).toHaveBeenCalledWith(
+        'user-1',
+        'Asia/Jakarta',
+        '2024-01-13',
+        '2024-01-15'
+      );
+      expect(result.xpThisWeek).toBe(40);
+      expect(result.xpThisMonth).toBe(180);
+      expect(result.timeSpent).toEqual({ totalMinutes: 50, thisWeekMinutes: 10, averagePerSession: 12.5 });
+      expect(result.dailyProgress).toEqual([
+        { date: '2024-01-13', xpEarned: 60, lessonsCompleted: 1, timeSpent: 8 },
+        { date: '2024-01-14', xpEarned: 0, lessonsCompleted: 0, timeSpent: 0 },
+        { date: '2024-01-15', xpEarned: 40, lessonsCompleted: 0, timeSpent: 10 },
+      ]);
     });
 
     it('should throw error when user not found', async () => {
@@ -432,7 +510,7 @@ describe('ProfileService', () => {
       const userId = 'non-existent';
       mockUserRepository.findById.mockResolvedValue(null);
       mockPrisma.userProgress.findMany.mockResolvedValue([]);
-      mockPrisma.submission.findMany.mockResolvedValue([]);
+      mockPrisma.attemptAnswer.count.mockResolvedValue(0);
 
       // Act & Assert
       await expect(ProfileService.getUserStats(userId)).rejects.toThrow('User not found');
@@ -456,4 +534,60 @@ describe('ProfileService', () => {
       });
     });
   });
+
+  describe('local periods', () => {
+    it('should start weeks on Monday', () => {
+      expect(localWeekStart('2024-01-15')).toBe('2024-01-15');
+      expect(localWeekStart('2024-01-21')).toBe('2024-01-15');
+      expect(localWeekStart('2024-01-03')).toBe('2024-01-01');
+    });
+
+    it('should start months on the 1st', () => {
+      expect(localMonthStart('2024-02-29')).toBe('2024-02-01');
+    });
+  });
+
+  describe('getSkillMastery', () => {
+    it('should report practiced skills and leave unpracticed ones at the prior', async () => {
+      // Arrange
+      const lastPracticedAt = new Date('2024-01-14T10:00:00Z');
+      mockMasteryRepository.findSkillsWithMastery.mockResolvedValue([
+        {
+          id: 'skill-addition',
+          name: 'Addition',
+          description: 'Adding whole numbers',
+          mastery: { pKnown: 0.97, attempts: 6, correctCount: 6, lastPracticedAt },
+        },
+        { id: 'skill-division', name: 'Division', description: null, mastery: null },
+      ]);
+
+      // Act
+      const result = await ProfileService.getSkillMastery('user-1');
+
+      // Assert
+      expect(mockMasteryRepository.findSkillsWithMastery).toHaveBeenCalledWith('user-1');
+      expect(result).toEqual([
+        {
+          skillId: 'skill-addition',
+          name: 'Addition',
+          description: 'Adding whole numbers',
+          probability: 0.97,
+          level: 'mastered',
+          attempts: 6,
+          correctCount: 6,
+          lastPracticedAt,
+        },
+        {
+          skillId: 'skill-division',
+          name: 'Division',
+          description: null,
+          probability: 0.2,
+          level: 'novice',
+          attempts: 0,
+          correctCount: 0,
+          lastPracticedAt: null,
+        },
+      ]);
+    });
+  });
 });
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { MasteryLevel } from '../../../core/mastery';
+import { AchievementDto } from '../../achievements/dtos/achievement.dto';
 
 /**
  * @swagger
@@ -118,7 +120,7 @@ import { z } from 'zod';
  *         - streak
  *         - timeSpent
  *         - achievements
- *         - weeklyProgress
+ *         - dailyProgress
  *       properties:
  *         totalXp:
  *           type: integer
@@ -129,12 +131,12 @@ import { z } from 'zod';
  *           type: integer
  *           minimum: 0
  *           example: 80
- *           description: XP earned this week
+ *           description: XP earned since Monday in the learner's timezone
  *         xpThisMonth:
  *           type: integer
  *           minimum: 0
  *           example: 250
- *           description: XP earned this month
+ *           description: XP earned since the 1st of the month in the learner's timezone
  *         totalLessonsCompleted:
  *           type: integer
  *           minimum: 0
@@ -159,12 +161,12 @@ import { z } from 'zod';
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/Achievement'
- *           description: List of user achievements
- *         weeklyProgress:
+ *           description: Every active achievement, with unlock times for the unlocked ones
+ *         dailyProgress:
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/DailyProgress'
- *           description: Progress for each day of the current week
+ *           description: One entry per day of the requested range, oldest first, including days without activity
  *
  *     TimeSpent:
  *       type: object
@@ -182,43 +184,12 @@ import { z } from 'zod';
  *           type: integer
  *           minimum: 0
  *           example: 60
- *           description: Time spent this week (minutes)
+ *           description: Time spent since Monday (minutes)
  *         averagePerSession:
  *           type: number
  *           minimum: 0
  *           example: 8.5
- *           description: Average time per learning session (minutes)
- *
- *     Achievement:
- *       type: object
- *       required:
- *         - id
- *         - title
- *         - description
- *         - iconUrl
- *         - unlockedAt
- *       properties:
- *         id:
- *           type: string
- *           example: "first_lesson"
- *           description: Achievement identifier
- *         title:
- *           type: string
- *           example: "First Steps"
- *           description: Achievement title
- *         description:
- *           type: string
- *           example: "Complete your first lesson"
- *           description: Achievement description
- *         iconUrl:
- *           type: string
- *           example: "https://example.com/badge.png"
- *           description: Achievement icon URL
- *         unlockedAt:
- *           type: string
- *           format: date-time
- *           example: "2025-07-15T10:30:00.000Z"
- *           description: When achievement was unlocked
+ *           description: Average time per timed lesson attempt (minutes)
  *
  *     DailyProgress:
  *       type: object
@@ -232,7 +203,7 @@ import { z } from 'zod';
  *           type: string
  *           format: date
  *           example: "2025-08-08"
- *           description: Date of progress
+ *           description: Date in the learner's timezone
  *         xpEarned:
  *           type: integer
  *           minimum: 0
@@ -249,6 +220,64 @@ import { z } from 'zod';
  *           example: 15
  *           description: Time spent learning (minutes)
  *
+ *     SkillMastery:
+ *       type: object
+ *       required:
+ *         - skillId
+ *         - name
+ *         - description
+ *         - probability
+ *         - level
+ *         - attempts
+ *         - correctCount
+ *         - lastPracticedAt
+ *       properties:
+ *         skillId:
+ *           type: string
+ *           example: "skill-addition"
+ *         name:
+ *           type: string
+ *           example: "Addition"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *           example: "Adding whole numbers"
+ *         probability:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *           example: 0.8455
+ *           description: Estimated probability the learner knows the skill (Bayesian knowledge tracing)
+ *         level:
+ *           type: string
+ *           enum: [novice, developing, mastered]
+ *           example: "developing"
+ *           description: Mastered from 0.95, developing from 0.5
+ *         attempts:
+ *           type: integer
+ *           minimum: 0
+ *           example: 4
+ *           description: Answers that practiced the skill
+ *         correctCount:
+ *           type: integer
+ *           minimum: 0
+ *           example: 3
+ *         lastPracticedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           example: "2025-08-08T01:00:00.000Z"
+ *
+ *     SkillMasteryResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SkillMastery'
+ *
  *     UserProfileResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/SuccessResponse'
@@ -305,7 +334,7 @@ export interface UserStatsDto {
   streak: UserStreakDto;
   timeSpent: TimeSpentDto;
   achievements: AchievementDto[];
-  weeklyProgress: DailyProgressDto[];
+  dailyProgress: DailyProgressDto[];
 }
 
 // Time Spent DTO
@@ -315,16 +344,7 @@ export interface TimeSpentDto {
   averagePerSession: number;
 }
 
-// Achievement DTO
-export interface AchievementDto {
-  id: string;
-  title: string;
-  description: string;
-  iconUrl: string;
-  unlockedAt: Date;
-}
-
-// Daily Progress DTO
+// Daily Progress DTO; timeSpent is in minutes
 export interface DailyProgressDto {
   date: string;
   xpEarned: number;
@@ -332,20 +352,37 @@ export interface DailyProgressDto {
   timeSpent: number;
 }
 
+// Skill Mastery DTO
+export interface SkillMasteryDto {
+  skillId: string;
+  name: string;
+  description: string | null;
+  probability: number;
+  level: MasteryLevel;
+  attempts: number;
+  correctCount: number;
+  lastPracticedAt: Date | null;
+}
+
 /**
  * Validation Schemas
  */
 
-// Profile query parameters
-export const profileQuerySchema = z.object({
-  userId: z.string().optional(),
-});
-
 // Profile ID parameter validation
 export const profileIdSchema = z.object({
   id: z.string().min(1, 'User ID is required'),
 });
 
+export const DEFAULT_PROGRESS_DAYS = 7;
+export const MAX_PROGRESS_DAYS = 365;
+
+// Stats query; `days` is the length of the daily progress series ending today
+export const userStatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_PROGRESS_DAYS).default(DEFAULT_PROGRESS_DAYS),
+});
+
+export type UserStatsQuery = z.infer<typeof userStatsQuerySchema>;
+
 /**
  * Transform functions
  */
@@ -390,7 +427,7 @@ export const transformUserStatsToDto = (stats: any): UserStatsDto => ({
     averagePerSession: stats.averageSessionTime || 0,
   },
   achievements: stats.achievements || [],
-  weeklyProgress: stats.weeklyProgress || [],
+  dailyProgress: stats.dailyProgress || [],
 });
 
 // Calculate user rank based on XP
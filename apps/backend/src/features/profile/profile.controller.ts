@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { ProfileService } from './profile.service';
 import { LoggerService } from '../../core/logger/logger.service';
 import { sendSuccess, sendError } from '../../core/middleware';
+import { userStatsQuerySchema } from './dtos/profile.dto';
 
 /**
  * @swagger
@@ -10,13 +11,8 @@ import { sendSuccess, sendError } from '../../core/middleware';
  *     summary: Get user profile
  *     description: Retrieve user profile with math learning stats, XP, streak, and progress
  *     tags: [Profile]
- *     parameters:
- *       - in: query
- *         name: userId
- *         schema:
- *           type: string
- *         description: User ID to get profile for (defaults to demo user)
- *         example: "1"
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: User profile retrieved successfully
@@ -45,6 +41,8 @@ import { sendSuccess, sendError } from '../../core/middleware';
  *                 rank: "Intermediate"
  *                 joinedAt: "2025-07-01T00:00:00.000Z"
  *               timestamp: "2025-08-08T01:00:00.000Z"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -53,15 +51,21 @@ import { sendSuccess, sendError } from '../../core/middleware';
  * /api/profile/stats:
  *   get:
  *     summary: Get user learning statistics
- *     description: Retrieve detailed user learning statistics including XP, time spent, achievements, and weekly progress
+ *     description: |
+ *       Retrieve detailed user learning statistics including XP, time spent, achievements, and daily progress.
+ *       Weeks start on Monday and days are counted in the learner's timezone.
  *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
- *         name: userId
+ *         name: days
  *         schema:
- *           type: string
- *         description: User ID to get stats for (defaults to demo user)
- *         example: "1"
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 365
+ *           default: 7
+ *         description: Length of the daily progress series, ending today
  *     responses:
  *       200:
  *         description: User statistics retrieved successfully
@@ -91,18 +95,43 @@ import { sendSuccess, sendError } from '../../core/middleware';
  *                   - id: "first_lesson"
  *                     title: "First Steps"
  *                     description: "Complete your first lesson"
- *                     iconUrl: "https://example.com/badge.png"
+ *                     icon: "🎯"
+ *                     rule: "lessons_completed"
+ *                     threshold: 1
  *                     unlockedAt: "2025-07-15T10:30:00.000Z"
- *                 weeklyProgress:
+ *                 dailyProgress:
  *                   - date: "2025-08-08"
  *                     xpEarned: 25
  *                     lessonsCompleted: 2
  *                     timeSpent: 15
  *               timestamp: "2025-08-08T01:00:00.000Z"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/profile/mastery:
+ *   get:
+ *     summary: Get skill mastery
+ *     description: Estimated probability that the learner knows each skill, updated after every lesson and review answer
+ *     tags: [Profile]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Skill mastery retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SkillMasteryResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
  */
 
 /**
@@ -116,8 +145,7 @@ export class ProfileController {
    */
   static async getUserProfile(req: Request, res: Response): Promise<void> {
     try {
-      // Get userId from query or default to demo user
-      const userId = (req.query.userId as string) || '1';
+      const userId = req.user!.id;
 
       const profile = await ProfileService.getUserProfile(userId);
 
@@ -125,7 +153,7 @@ export class ProfileController {
     } catch (error) {
       LoggerService.error('Failed to get user profile', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId: req.query.userId || '1',
+        userId: req.user?.id,
       });
 
       if (error instanceof Error && error.message.includes('not found')) {
@@ -142,23 +170,46 @@ export class ProfileController {
    */
   static async getUserStats(req: Request, res: Response): Promise<void> {
     try {
-      // Get userId from query or default to demo user
-      const userId = (req.query.userId as string) || '1';
+      const userId = req.user!.id;
+      const query = userStatsQuerySchema.parse(req.query);
 
-      const stats = await ProfileService.getUserStats(userId);
+      const stats = await ProfileService.getUserStats(userId, query);
 
       sendSuccess(res, stats, 'User statistics retrieved successfully');
     } catch (error) {
       LoggerService.error('Failed to get user stats', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId: req.query.userId || '1',
+        userId: req.user?.id,
       });
 
-      if (error instanceof Error && error.message.includes('not found')) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid query parameters', 400);
+      } else if (error instanceof Error && error.message.includes('not found')) {
         sendError(res, 'User not found', 404);
       } else {
         sendError(res, 'Failed to retrieve user statistics', 500);
       }
     }
   }
+
+  /**
+   * GET /api/profile/mastery
+   * Get the learner's mastery of each skill
+   */
+  static async getSkillMastery(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const mastery = await ProfileService.getSkillMastery(userId);
+
+      sendSuccess(res, mastery, 'Skill mastery retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get skill mastery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      sendError(res, 'Failed to retrieve skill mastery', 500);
+    }
+  }
 }
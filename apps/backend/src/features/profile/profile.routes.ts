@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { ProfileController } from './profile.controller';
 import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
 
 /**
  * Profile Routes
@@ -8,10 +9,16 @@ import { asyncHandler } from '../../core/middleware';
  */
 const router = Router();
 
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
 // GET /api/profile - Get user profile with math learning stats
 router.get('/', asyncHandler(ProfileController.getUserProfile));
 
 // GET /api/profile/stats - Get detailed user learning statistics
 router.get('/stats', asyncHandler(ProfileController.getUserStats));
 
+// GET /api/profile/mastery - Get the learner's mastery of each skill
+router.get('/mastery', asyncHandler(ProfileController.getSkillMastery));
+
 export default router;
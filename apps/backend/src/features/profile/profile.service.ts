@@ -1,7 +1,35 @@
 import { UserRepository } from '../../core/repositories/user.repository';
+import { MasteryRepository } from '../../core/repositories/mastery.repository';
+import { ActivityRepository } from '../../core/repositories/activity.repository';
+import { LEARNER_VISIBLE_LESSON } from '../../core/repositories/lesson.repository';
 import { LoggerService } from '../../core/logger/logger.service';
 import { prisma } from '../../core/database';
-import { UserProfileDto, calculateRank } from './dtos/profile.dto';
+import { addDays, currentStreakAt, localDate } from '../../core/streaks';
+import { DEFAULT_TRACING_PARAMS, masteryLevel } from '../../core/mastery';
+import { AchievementService } from '../achievements/achievement.service';
+import {
+  DEFAULT_PROGRESS_DAYS,
+  DailyProgressDto,
+  SkillMasteryDto,
+  UserProfileDto,
+  UserStatsDto,
+  UserStatsQuery,
+  calculateRank,
+} from './dtos/profile.dto';
+
+const toMinutes = (seconds: number) => Math.round(seconds / 60);
+
+/**
+ * Monday of the week a local date falls in
+ */
+export function localWeekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+export function localMonthStart(date: string): string {
+  return `${date.slice(0, 8)}01`;
+}
 
 /**
  * Profile Service
@@ -11,7 +39,7 @@ export class ProfileService {
   /**
    * Get user profile with math learning stats
    */
-  static async getUserProfile(userId: string = '1'): Promise<UserProfileDto> {
+  static async getUserProfile(userId: string): Promise<UserProfileDto> {
     LoggerService.logService('ProfileService', `getUserProfile(${userId})`, true);
     
     try {
@@ -29,6 +57,8 @@ export class ProfileService {
           currentStreak: true,
           bestStreak: true,
           lastActivityDate: true,
+          streakFreezes: true,
+          timezone: true,
           isVerified: true,
           isActive: true,
           createdAt: true,
@@ -48,9 +78,7 @@ export class ProfileService {
           },
         }),
         prisma.lesson.count({
-          where: {
-            isActive: true,
-          },
+          where: LEARNER_VISIBLE_LESSON,
         }),
       ]);
 
@@ -69,9 +97,9 @@ export class ProfileService {
         avatar: user.avatar,
         xp: user.totalXp,
         streak: {
-          current: user.currentStreak,
+          current: currentStreakAt(user, new Date()),
           longest: user.bestStreak,
-          lastActiveDate: user.lastActivityDate ? user.lastActivityDate.toISOString().split('T')[0] : null,
+          lastActiveDate: user.lastActivityDate ? localDate(user.lastActivityDate, user.timezone) : null,
         },
         lessonsCompleted: completedLessons,
         totalLessons,
@@ -89,11 +117,15 @@ export class ProfileService {
 
   /**
    * Get user learning statistics
+   * Weeks start on Monday and days are counted in the learner's timezone
    */
-  static async getUserStats(userId: string = '1') {
+  static async getUserStats(
+    userId: string,
+    query: UserStatsQuery = { days: DEFAULT_PROGRESS_DAYS }
+  ): Promise<UserStatsDto> {
     LoggerService.logService('ProfileService', `getUserStats(${userId})`, true);
     try {
-      const [user, userProgress, submissions] = await Promise.all([
+      const [user, userProgress, totalProblemsCompleted, achievements] = await Promise.all([
         UserRepository.findById(userId),
         prisma.userProgress.findMany({
           where: { userId },
@@ -106,50 +138,66 @@ export class ProfileService {
             },
           },
         }),
-        prisma.submission.findMany({
-          where: { userId },
-          orderBy: { createdAt: 'desc' },
-          take: 10,
+        prisma.attemptAnswer.count({
+          where: { attempt: { userId } },
         }),
+        AchievementService.getUserAchievements(userId),
       ]);
 
       if (!user) {
         throw new Error('User not found');
       }
 
+      const now = new Date();
+      const today = localDate(now, user.timezone);
+      const from = addDays(today, 1 - query.days);
+      const [totals, activity] = await Promise.all([
+        ActivityRepository.sumActivity(userId, user.timezone, localWeekStart(today), localMonthStart(today)),
+        ActivityRepository.findDailyActivity(userId, user.timezone, from, today),
+      ]);
+
       // Calculate stats for DTO
       const totalXp = user.totalXp || 0;
-      const xpThisWeek = 0; // TODO: implement real calculation
-      const xpThisMonth = 0; // TODO: implement real calculation
       const totalLessonsCompleted = userProgress.filter(p => p.isCompleted).length;
-      const totalProblemsCompleted = submissions.length; // or another logic if available
       const averageScore = userProgress.length > 0
         ? Math.round(userProgress.reduce((sum, progress) => sum + progress.bestScore, 0) / userProgress.length)
         : 0;
       const streak = {
-        current: user.currentStreak || 0,
+        current: currentStreakAt(user, now),
         longest: user.bestStreak || 0,
-        lastActiveDate: user.lastActivityDate ? user.lastActivityDate.toISOString().split('T')[0] : null,
+        lastActiveDate: user.lastActivityDate ? localDate(user.lastActivityDate, user.timezone) : null,
       };
       const timeSpent = {
-        totalMinutes: 0, // TODO: implement real calculation
-        thisWeekMinutes: 0, // TODO: implement real calculation
-        averagePerSession: 0, // TODO: implement real calculation
+        totalMinutes: toMinutes(totals.totalSeconds),
+        thisWeekMinutes: toMinutes(totals.weekSeconds),
+        averagePerSession: totals.timedAttempts > 0
+          ? Math.round(totals.totalSeconds / 60 / totals.timedAttempts * 10) / 10
+          : 0,
       };
-  const achievements: import('./dtos/profile.dto').AchievementDto[] = [];
-  const weeklyProgress: import('./dtos/profile.dto').DailyProgressDto[] = [];
+
+      const activityByDate = new Map(activity.map(day => [day.date, day]));
+      const dailyProgress: DailyProgressDto[] = Array.from({ length: query.days }, (_, index) => {
+        const date = addDays(from, index);
+        const day = activityByDate.get(date);
+        return {
+          date,
+          xpEarned: day?.xpEarned ?? 0,
+          lessonsCompleted: day?.lessonsCompleted ?? 0,
+          timeSpent: toMinutes(day?.seconds ?? 0),
+        };
+      });
 
       return {
         totalXp,
-        xpThisWeek,
-        xpThisMonth,
+        xpThisWeek: totals.xpThisWeek,
+        xpThisMonth: totals.xpThisMonth,
         totalLessonsCompleted,
         totalProblemsCompleted,
         averageScore,
         streak,
         timeSpent,
         achievements,
-        weeklyProgress,
+        dailyProgress,
       };
     } catch (error) {
       LoggerService.error('Failed to get user stats', {
@@ -159,4 +207,35 @@ export class ProfileService {
       throw error;
     }
   }
+
+  /**
+   * Get the learner's estimated mastery of every skill (unpracticed skills sit at the prior)
+   */
+  static async getSkillMastery(userId: string): Promise<SkillMasteryDto[]> {
+    LoggerService.logService('ProfileService', `getSkillMastery(${userId})`, true);
+
+    try {
+      const skills = await MasteryRepository.findSkillsWithMastery(userId);
+
+      return skills.map(skill => {
+        const probability = skill.mastery?.pKnown ?? DEFAULT_TRACING_PARAMS.pInit;
+        return {
+          skillId: skill.id,
+          name: skill.name,
+          description: skill.description,
+          probability,
+          level: masteryLevel(probability),
+          attempts: skill.mastery?.attempts ?? 0,
+          correctCount: skill.mastery?.correctCount ?? 0,
+          lastPracticedAt: skill.mastery?.lastPracticedAt ?? null,
+        };
+      });
+    } catch (error) {
+      LoggerService.error('Failed to get skill mastery', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,286 @@
+/**
+ * RecommendationService Unit Tests
+ * Tests for learning analytics, weighted lesson scoring, the score breakdown, caching and experiments
+ */
+
+const mockLessonRepository = {
+  findAllWithProgress: jest.fn(),
+  getUserProgress: jest.fn(),
+};
+
+const mockSubmissionRepository = {
+  getUserSubmissions: jest.fn(),
+};
+
+const mockUserRepository = {
+  findById: jest.fn(),
+};
+
+const mockMasteryRepository = {
+  findByUser: jest.fn(),
+};
+
+const mockRecommendationCache = {
+  get: jest.fn(),
+  set: jest.fn(),
+  ttlSeconds: 900,
+};
+
+const mockExperimentService = {
+  assign: jest.fn(),
+  recordExposure: jest.fn(),
+};
+
+jest.mock('../../experiments/experiment.service', () => ({
+  ExperimentService: mockExperimentService,
+}));
+
+jest.mock('../recommendation.cache', () => ({
+  RecommendationCache: mockRecommendationCache,
+}));
+
+jest.mock('../../../core/repositories/lesson.repository', () => ({
+  LessonRepository: mockLessonRepository,
+}));
+
+jest.mock('../../../core/repositories/submission.repository', () => ({
+  SubmissionRepository: mockSubmissionRepository,
+}));
+
+jest.mock('../../../core/repositories/user.repository', () => ({
+  UserRepository: mockUserRepository,
+}));
+
+jest.mock('../../../core/repositories/mastery.repository', () => ({
+  MasteryRepository: mockMasteryRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { RecommendationService } from '../recommendation.service';
+
+const answer = (overrides: Record<string, unknown>) => ({
+  problemId: 'problem-1',
+  lessonId: 'lesson-1',
+  isCorrect: true,
+  xpEarned: 10,
+  timeSpent: 60,
+  hintsUsed: 0,
+  submittedAt: new Date('2024-01-16T10:00:00Z'),
+  difficulty: 'easy',
+  ...overrides,
+});
+
+const lesson = (overrides: Record<string, unknown>) => ({
+  id: 'lesson-1',
+  title: 'Basics',
+  description: null,
+  order: 1,
+  xpReward: 10,
+  difficulty: 'easy',
+  isActive: true,
+  skills: [],
+  prerequisites: [],
+  progress: undefined,
+  ...overrides,
+});
+
+describe('RecommendationService', () => {
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-01-17T12:00:00Z') });
+
+    mockUserRepository.findById.mockResolvedValue({
+      id: userId,
+      totalXp: 250,
+      currentStreak: 4,
+      bestStreak: 8,
+      lastActivityDate: new Date('2024-01-16T10:00:00Z'),
+      streakFreezes: 0,
+      timezone: 'UTC',
+    });
+    mockSubmissionRepository.getUserSubmissions.mockResolvedValue([
+      answer({ problemId: 'problem-1' }),
+      answer({ problemId: 'problem-2', isCorrect: false, timeSpent: null, difficulty: 'medium' }),
+      answer({ problemId: 'problem-3', timeSpent: 120, difficulty: 'medium' }),
+    ]);
+    mockLessonRepository.getUserProgress.mockResolvedValue([{ lessonId: 'lesson-1', isCompleted: true }]);
+    mockLessonRepository.findAllWithProgress.mockResolvedValue([
+      lesson({ progress: { isCompleted: true, score: 95, bestScore: 95, attemptsCount: 1 } }),
+      lesson({
+        id: 'lesson-2',
+        title: 'Fractions',
+        order: 2,
+        skills: [{ id: 'skill-1', name: 'Fractions' }],
+        prerequisites: [{ id: 'lesson-1', title: 'Basics' }],
+      }),
+      lesson({
+        id: 'lesson-3',
+        title: 'Algebra',
+        order: 3,
+        difficulty: 'hard',
+        prerequisites: [{ id: 'lesson-2', title: 'Fractions' }],
+      }),
+    ]);
+    mockMasteryRepository.findByUser.mockResolvedValue(new Map([['skill-1', { pKnown: 0.6 }]]));
+    mockExperimentService.assign.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('explainRecommendations', () => {
+    it('should build analytics from the user\'s streak, XP and problem difficulty', async () => {
+      const { analytics } = await RecommendationService.explainRecommendations(userId);
+
+      expect(analytics.totalXp).toBe(250);
+      expect(analytics.streakData).toEqual({ current: 4, best: 8, consistency: 0.5, activeToday: false });
+      expect(analytics.performanceByDifficulty).toEqual({
+        easy: { attempted: 1, correct: 1, avgTime: 1 },
+        medium: { attempted: 2, correct: 1, avgTime: 2 }, // Only the timed answer counts towards time
+        hard: { attempted: 0, correct: 0, avgTime: 0 },
+      });
+      expect(analytics.totalTimeSpent).toBe(3);
+      expect(analytics.timedProblemsAttempted).toBe(2);
+      expect(analytics.recentActivity.minutesPerActiveDay).toBe(3);
+    });
+
+    it('should combine the factor scores with the weights and list adjustments', async () => {
+      const result = await RecommendationService.explainRecommendations(userId);
+
+      expect(result.weights).toEqual({
+        performanceWeight: 0.3,
+        difficultyPreferenceWeight: 0.25,
+        timeAvailabilityWeight: 0.15,
+        streakMaintenanceWeight: 0.15,
+        noveltyWeight: 0.15,
+      });
+      expect(result.rankedLessons.map(ranked => [ranked.rank, ranked.lessonId])).toEqual([
+        [1, 'lesson-2'],
+        [2, 'lesson-3'],
+      ]);
+      expect(result.rankedLessons[0].breakdown).toEqual({
+        factors: {
+          performance: 40,
+          difficultyPreference: 100,
+          timeAvailability: 7,
+          streakMaintenance: 100, // Streak not extended today, easy lesson
+          novelty: 100,
+        },
+        weightedScore: 68,
+        adjustments: [{ reason: 'Prerequisites just completed', points: 10 }],
+        totalScore: 78,
+      });
+      expect(result.rankedLessons[1].breakdown).toEqual(expect.objectContaining({
+        weightedScore: 44,
+        adjustments: [{ reason: 'Locked until prerequisites are completed', points: -40 }],
+        totalScore: 4,
+      }));
+      expect(result.excludedLessons).toEqual([
+        { lessonId: 'lesson-1', title: 'Basics', reason: 'Completed with 95%' },
+      ]);
+    });
+  });
+
+  describe('generateRecommendations', () => {
+    it('should use the total score as the confidence score and respect the limit', async () => {
+      const result = await RecommendationService.generateRecommendations(userId, 1);
+
+      expect(result.recommendations).toHaveLength(1);
+      expect(result.nextSuggestedLesson).toEqual(expect.objectContaining({
+        lessonId: 'lesson-2',
+        confidenceScore: 78,
+        estimatedCompletionTime: 45,
+      }));
+      expect(result.learningGoals).toContain('Work towards beating your best streak of 8 days');
+    });
+  });
+
+  describe('getRecommendations', () => {
+    const assignment = {
+      experimentId: 'experiment-1',
+      key: 'strategy-test',
+      variant: 'treatment',
+      strategy: 'sequential',
+    };
+
+    const cachedPath = (generatedAt: string, strategy = 'weighted', experiment: unknown = null) => ({
+      userId,
+      generatedAt,
+      strategy,
+      experiment,
+      recommendations: [{ lessonId: 'lesson-2' }, { lessonId: 'lesson-3' }],
+      nextSuggestedLesson: { lessonId: 'lesson-2' },
+    });
+
+    it('should serve a cached learning path younger than the TTL', async () => {
+      mockRecommendationCache.get.mockResolvedValue(cachedPath('2024-01-17T11:50:00.000Z'));
+
+      const result = await RecommendationService.getRecommendations(userId, 1);
+
+      expect(result.generatedAt).toBe('2024-01-17T11:50:00.000Z');
+      expect(result.recommendations).toEqual([{ lessonId: 'lesson-2' }]);
+      expect(mockLessonRepository.findAllWithProgress).not.toHaveBeenCalled();
+      expect(mockRecommendationCache.set).not.toHaveBeenCalled();
+    });
+
+    it('should recompute and cache every recommendation when the cached path is older than maxAge', async () => {
+      mockRecommendationCache.get.mockResolvedValue(cachedPath('2024-01-17T11:50:00.000Z'));
+
+      const result = await RecommendationService.getRecommendations(userId, 1, 300);
+
+      expect(result.generatedAt).toBe('2024-01-17T12:00:00.000Z');
+      expect(result.recommendations).toHaveLength(1);
+      expect(mockRecommendationCache.set).toHaveBeenCalledWith(
+        userId,
+        expect.objectContaining({
+          recommendations: [
+            expect.objectContaining({ lessonId: 'lesson-2' }),
+            expect.objectContaining({ lessonId: 'lesson-3' }),
+          ],
+        })
+      );
+    });
+
+    it('should serve the experiment variant\'s strategy and log the lessons shown', async () => {
+      mockRecommendationCache.get.mockResolvedValue(null);
+      mockExperimentService.assign.mockResolvedValue(assignment);
+
+      const result = await RecommendationService.getRecommendations(userId, 1);
+
+      expect(result.strategy).toBe('sequential');
+      expect(result.experiment).toEqual({ key: 'strategy-test', variant: 'treatment' });
+      expect(mockExperimentService.recordExposure).toHaveBeenCalledWith(assignment, userId, ['lesson-2']);
+    });
+
+    it('should recompute a cached path generated for another variant', async () => {
+      mockRecommendationCache.get.mockResolvedValue(cachedPath('2024-01-17T11:50:00.000Z'));
+      mockExperimentService.assign.mockResolvedValue(assignment);
+
+      const result = await RecommendationService.getRecommendations(userId, 1);
+
+      expect(result.generatedAt).toBe('2024-01-17T12:00:00.000Z');
+      expect(mockRecommendationCache.set).toHaveBeenCalled();
+    });
+
+    it('should fall back to the default strategy when the experiment can\'t be loaded', async () => {
+      mockRecommendationCache.get.mockResolvedValue(null);
+      mockExperimentService.assign.mockRejectedValue(new Error('Database unavailable'));
+
+      const result = await RecommendationService.getRecommendations(userId, 1);
+
+      expect(result.strategy).toBe('weighted');
+      expect(result.experiment).toBeNull();
+      expect(mockExperimentService.recordExposure).not.toHaveBeenCalled();
+    });
+  });
+});
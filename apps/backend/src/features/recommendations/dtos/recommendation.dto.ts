@@ -30,10 +30,18 @@ export interface LessonRecommendation {
   prerequisites: string[];
 }
 
+// Experiment variant a learning path was generated for
+export interface ExperimentExposureDto {
+  key: string;
+  variant: string;
+}
+
 // Adaptive Learning Path Response
 export interface AdaptiveLearningPathDto {
   userId: string;
   generatedAt: string;
+  strategy: string;
+  experiment: ExperimentExposureDto | null;
   learningPattern: LearningPattern;
   recommendations: LessonRecommendation[];
   nextSuggestedLesson: LessonRecommendation | null;
@@ -42,9 +50,12 @@ export interface AdaptiveLearningPathDto {
 }
 
 // Query schema for getting recommendations
+export const MAX_RECOMMENDATIONS = 10;
+
 export const getRecommendationsSchema = z.object({
-  userId: z.string().optional().default('1'),
-  limit: z.coerce.number().min(1).max(10).optional().default(5),
+  limit: z.coerce.number().min(1).max(MAX_RECOMMENDATIONS).optional().default(5),
+  // Oldest cached learning path (by generatedAt) the caller accepts, in seconds; 0 forces a recompute
+  maxAge: z.coerce.number().int().min(0).optional(),
 });
 
 export type GetRecommendationsQuery = z.infer<typeof getRecommendationsSchema>;
@@ -55,11 +66,14 @@ export interface LearningAnalytics {
   totalProblemsAttempted: number;
   totalCorrectAnswers: number;
   averageAccuracy: number;
-  totalTimeSpent: number; // in minutes
+  totalTimeSpent: number; // in minutes, over answers with a recorded time
+  timedProblemsAttempted: number; // answers with a recorded time
+  totalXp: number;
   streakData: {
     current: number;
     best: number;
-    consistency: number; // how often they maintain streaks
+    consistency: number; // 0-1, share of the best streak the current one has reached
+    activeToday: boolean;
   };
   performanceByDifficulty: {
     easy: { attempted: number; correct: number; avgTime: number };
@@ -70,6 +84,7 @@ export interface LearningAnalytics {
     lastActive: string;
     activeDaysInWeek: number;
     sessionsThisWeek: number;
+    minutesPerActiveDay: number;
   };
 }
 
@@ -82,6 +97,60 @@ export interface RecommendationWeights {
   noveltyWeight: number; // preference for new topics vs reinforcement
 }
 
+// Per-factor scores (0-100) that the weights combine
+export interface RecommendationFactors {
+  performance: number;
+  difficultyPreference: number;
+  timeAvailability: number;
+  streakMaintenance: number;
+  novelty: number;
+}
+
+// Fixed bonus or penalty applied after weighting
+export interface ScoreAdjustment {
+  reason: string;
+  points: number;
+}
+
+// How a lesson's score was reached
+export interface ScoreBreakdown {
+  factors: RecommendationFactors;
+  weightedScore: number;
+  adjustments: ScoreAdjustment[];
+  totalScore: number;
+}
+
+// Ranked lesson in the debug response
+export interface RankedLessonDebug {
+  rank: number;
+  lessonId: string;
+  title: string;
+  difficulty: string;
+  isUnlocked: boolean;
+  recommendationReason: string;
+  breakdown: ScoreBreakdown;
+}
+
+// Lesson left out of the ranking
+export interface ExcludedLessonDebug {
+  lessonId: string;
+  title: string;
+  reason: string;
+}
+
+// Recommendation Debug Response
+export interface RecommendationDebugDto {
+  userId: string;
+  generatedAt: string;
+  strategy: string;
+  experiment: ExperimentExposureDto | null;
+  weights: RecommendationWeights;
+  analytics: LearningAnalytics;
+  learningPattern: LearningPattern;
+  rankedLessons: RankedLessonDebug[];
+  excludedLessons: ExcludedLessonDebug[];
+}
+
 /**
  * Transform functions for DTOs
  */
@@ -119,7 +188,7 @@ export function createLearningPattern(analytics: LearningAnalytics): LearningPat
   }
 
   // Calculate learning speed (problems per minute)
-  const totalProblems = analytics.totalProblemsAttempted;
+  const totalProblems = analytics.timedProblemsAttempted;
   const totalTimeMinutes = analytics.totalTimeSpent;
   const learningSpeed = totalTimeMinutes > 0 ? totalProblems / totalTimeMinutes : 0;
 
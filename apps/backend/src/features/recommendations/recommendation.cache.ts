@@ -0,0 +1,71 @@
+import { CacheStore, MemoryLruStore } from '../../core/cache';
+import { LoggerService } from '../../core/logger/logger.service';
+import { AdaptiveLearningPathDto } from './dtos/recommendation.dto';
+
+// How long a learning path may be served before it is recomputed
+const DEFAULT_TTL_SECONDS = 15 * 60;
+
+// Learners kept in the in-memory cache
+const DEFAULT_MAX_ENTRIES = 1000;
+
+const keyFor = (userId: string): string => `recommendations:${userId}`;
+
+/**
+ * Recommendation Cache
+ * Keeps each learner's latest learning path so repeated reads skip the full
+ * history scan. Anything that changes the ranking (a lesson submission, a
+ * review) invalidates it. Cache failures are logged and never fail a request.
+ */
+export class RecommendationCache {
+  private static store: CacheStore = new MemoryLruStore(DEFAULT_MAX_ENTRIES);
+
+  /**
+   * Swap the cache backend (e.g. a RedisCacheStore shared by every instance)
+   */
+  static useStore(store: CacheStore): void {
+    RecommendationCache.store = store;
+  }
+
+  static get ttlSeconds(): number {
+    return parseInt(process.env.RECOMMENDATION_CACHE_TTL_SECONDS || '', 10) || DEFAULT_TTL_SECONDS;
+  }
+
+  static async get(userId: string): Promise<AdaptiveLearningPathDto | null> {
+    try {
+      const cached = await RecommendationCache.store.get(keyFor(userId));
+      return cached ? (JSON.parse(cached) as AdaptiveLearningPathDto) : null;
+    } catch (error) {
+      LoggerService.error('Failed to read cached recommendations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      return null;
+    }
+  }
+
+  static async set(userId: string, learningPath: AdaptiveLearningPathDto): Promise<void> {
+    try {
+      await RecommendationCache.store.set(
+        keyFor(userId),
+        JSON.stringify(learningPath),
+        RecommendationCache.ttlSeconds
+      );
+    } catch (error) {
+      LoggerService.error('Failed to cache recommendations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+    }
+  }
+
+  static async invalidate(userId: string): Promise<void> {
+    try {
+      await RecommendationCache.store.del(keyFor(userId));
+    } catch (error) {
+      LoggerService.error('Failed to invalidate cached recommendations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+    }
+  }
+}
@@ -9,16 +9,12 @@ import { getRecommendationsSchema } from './dtos/recommendation.dto';
  * /api/recommendations:
  *   get:
  *     summary: Get adaptive learning path recommendations
- *     description: Generate personalized lesson recommendations based on user's learning patterns and performance
+ *     description: Personalized lesson recommendations based on user's learning patterns and performance, cached per user until the next submission
  *     tags: [Recommendations]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
- *         name: userId
- *         schema:
- *           type: string
- *         description: User ID for personalized recommendations (defaults to demo user)
- *         example: "1"
- *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
@@ -26,6 +22,16 @@ import { getRecommendationsSchema } from './dtos/recommendation.dto';
  *           maximum: 10
  *         description: Maximum number of recommendations to return
  *         example: 5
+ *       - in: query
+ *         name: maxAge
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: |
+ *           Oldest cached learning path to accept, in seconds since its `generatedAt`.
+ *           Defaults to the cache TTL (15 minutes); 0 forces a recompute. The cache is
+ *           cleared whenever the learner submits a lesson or a review.
+ *         example: 300
  *     responses:
  *       200:
  *         description: Recommendations generated successfully
@@ -82,6 +88,30 @@ import { getRecommendationsSchema } from './dtos/recommendation.dto';
  *               timestamp: "2025-08-09T10:30:00.000Z"
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * @swagger
+ * /api/recommendations/debug:
+ *   get:
+ *     summary: Explain the recommendation ranking
+ *     description: Return every lesson's score breakdown for the authenticated user - the factor scores, the weights that combine them and the adjustments applied - plus the lessons left out of the ranking
+ *     tags: [Recommendations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Score breakdown retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecommendationDebugResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
@@ -99,15 +129,17 @@ export class RecommendationController {
     try {
       // Validate query parameters
       const query = getRecommendationsSchema.parse(req.query);
-      const { userId, limit } = query;
+      const { limit, maxAge } = query;
+      const userId = req.user!.id;
 
-      const recommendations = await RecommendationService.generateRecommendations(userId, limit);
+      const recommendations = await RecommendationService.getRecommendations(userId, limit, maxAge);
 
       sendSuccess(res, recommendations, 'Learning path recommendations generated successfully');
     } catch (error) {
       LoggerService.error('Failed to get recommendations', {
         error: error instanceof Error ? error.message : 'Unknown error',
         query: req.query,
+        userId: req.user?.id,
       });
 
       if (error instanceof Error && error.message.includes('validation')) {
@@ -117,4 +149,25 @@ export class RecommendationController {
       }
     }
   }
+
+  /**
+   * GET /api/recommendations/debug
+   * Get the per-lesson score breakdown behind the recommendations
+   */
+  static async getScoreBreakdown(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const breakdown = await RecommendationService.explainRecommendations(userId);
+
+      sendSuccess(res, breakdown, 'Recommendation score breakdown retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get recommendation score breakdown', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      sendError(res, 'Failed to explain recommendations', 500);
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { RecommendationController } from './recommendation.controller';
 import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
 
 /**
  * Recommendation Routes
@@ -8,7 +9,13 @@ import { asyncHandler } from '../../core/middleware';
  */
 const router = Router();
 
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
 // GET /api/recommendations - Get adaptive learning path recommendations
 router.get('/', asyncHandler(RecommendationController.getRecommendations));
 
+// GET /api/recommendations/debug - Get the per-lesson score breakdown
+router.get('/debug', asyncHandler(RecommendationController.getScoreBreakdown));
+
 export default router;
@@ -1,22 +1,67 @@
-import { LessonRepository } from '../../core/repositories/lesson.repository';
+import { LessonRepository, LessonWithProgress } from '../../core/repositories/lesson.repository';
 import { SubmissionRepository } from '../../core/repositories/submission.repository';
+import { UserRepository } from '../../core/repositories/user.repository';
 import { LoggerService } from '../../core/logger/logger.service';
+import { MasteryRepository } from '../../core/repositories/mastery.repository';
+import { isLessonUnlocked, LESSON_DIFFICULTIES, LessonDifficulty } from '../../core/skill-graph';
+import { DEFAULT_TRACING_PARAMS, MASTERY_THRESHOLD } from '../../core/mastery';
+import { currentStreakAt, localDate } from '../../core/streaks';
+import { ExperimentService } from '../experiments/experiment.service';
+import { ExperimentAssignment } from '../experiments/dtos/experiment.dto';
+import { RecommendationCache } from './recommendation.cache';
+import {
+  DEFAULT_STRATEGY,
+  isRecommendationStrategy,
+  rankByStrategy,
+  RecommendationStrategy,
+  ScoredLesson,
+} from './recommendation.strategies';
 import {
   AdaptiveLearningPathDto,
+  ExcludedLessonDebug,
   LearningPattern,
   LearningAnalytics,
   LessonRecommendation,
+  MAX_RECOMMENDATIONS,
+  RecommendationDebugDto,
+  RecommendationFactors,
   RecommendationWeights,
+  ScoreAdjustment,
+  ScoreBreakdown,
   createLearningPattern,
   createPersonalizedMessage,
 } from './dtos/recommendation.dto';
 
+interface SkillMastery {
+  name: string;
+  pKnown: number;
+}
+
+interface RankedLessons {
+  analytics: LearningAnalytics;
+  learningPattern: LearningPattern;
+  ranked: ScoredLesson[];
+  excluded: ExcludedLessonDebug[];
+}
+
+// Streak-maintenance score by difficulty when the streak needs today's activity
+const QUICK_WIN_SCORES: Record<LessonDifficulty, number> = { easy: 100, medium: 60, hard: 30 };
+
+const strategyFor = (assignment: ExperimentAssignment | null): RecommendationStrategy =>
+  assignment && isRecommendationStrategy(assignment.strategy) ? assignment.strategy : DEFAULT_STRATEGY;
+
+const experimentOf = (assignment: ExperimentAssignment | null) =>
+  assignment ? { key: assignment.key, variant: assignment.variant } : null;
+
+const isDifficulty = (value: string): value is LessonDifficulty =>
+  (LESSON_DIFFICULTIES as readonly string[]).includes(value);
+
 /**
  * Recommendation Service
  * Provides adaptive learning path recommendations based on user performance and learning patterns
  */
 export class RecommendationService {
-  // Default recommendation weights (can be fine-tuned based on data)
+  // Default recommendation weights (can be fine-tuned based on data); they sum to 1
   private static readonly DEFAULT_WEIGHTS: RecommendationWeights = {
     performanceWeight: 0.3,
     difficultyPreferenceWeight: 0.25,
@@ -25,30 +70,71 @@ export class RecommendationService {
     noveltyWeight: 0.15,
   };
 
+  /**
+   * Get the learner's learning path, served from the cache while it is younger
+   * than `maxAge` seconds (the cache TTL by default). Learners in a running
+   * experiment get their variant's strategy, and the lessons served are logged
+   * as exposures.
+   */
+  static async getRecommendations(
+    userId: string,
+    limit: number = 5,
+    maxAge?: number
+  ): Promise<AdaptiveLearningPathDto> {
+    LoggerService.logService('RecommendationService', `getRecommendations(${userId})`, true);
+
+    try {
+      const assignment = await this.assignExperiment(userId);
+      const cached = await RecommendationCache.get(userId);
+      const ageSeconds = cached ? (Date.now() - new Date(cached.generatedAt).getTime()) / 1000 : Infinity;
+
+      // A path generated before the learner's variant changed is out of date too
+      const sameVariant = cached?.strategy === strategyFor(assignment)
+        && cached.experiment?.key === assignment?.key
+        && cached.experiment?.variant === assignment?.variant;
+
+      let learningPath: AdaptiveLearningPathDto;
+      if (cached && sameVariant && ageSeconds <= (maxAge ?? RecommendationCache.ttlSeconds)) {
+        learningPath = cached;
+      } else {
+        // Cache the longest path so every limit can be served from it
+        learningPath = await this.generateRecommendations(userId, MAX_RECOMMENDATIONS, assignment);
+        await RecommendationCache.set(userId, learningPath);
+      }
+
+      const recommendations = learningPath.recommendations.slice(0, limit);
+      if (assignment) {
+        await this.logExposure(assignment, userId, recommendations.map(recommendation => recommendation.lessonId));
+      }
+
+      return {
+        ...learningPath,
+        recommendations,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get recommendations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Generate adaptive learning path recommendations for a user
    */
   static async generateRecommendations(
-    userId: string = '1',
-    limit: number = 5
+    userId: string,
+    limit: number = 5,
+    assignment: ExperimentAssignment | null = null
   ): Promise<AdaptiveLearningPathDto> {
     LoggerService.logService('RecommendationService', `generateRecommendations(${userId})`, true);
 
     try {
-      // 1. Analyze user's learning patterns
-      const analytics = await this.analyzeLearningPatterns(userId);
-      const learningPattern = createLearningPattern(analytics);
-
-      // 2. Get all available lessons
-      const allLessons = await LessonRepository.findAllWithProgress(userId);
-      
-      // 3. Generate recommendations based on learning pattern
-      const recommendations = await this.calculateRecommendations(
-        allLessons,
-        learningPattern,
-        analytics,
-        limit
-      );
+      // 1-3. Analyze learning patterns and rank every available lesson with the learner's strategy
+      const strategy = strategyFor(assignment);
+      const { analytics, learningPattern, ranked } = await this.rankLessons(userId, strategy);
+      const recommendations = ranked.slice(0, limit).map(scored => scored.recommendation);
 
       // 4. Determine next suggested lesson
       const nextSuggestedLesson = recommendations.length > 0 ? recommendations[0] : null;
@@ -62,6 +148,8 @@ export class RecommendationService {
       const result: AdaptiveLearningPathDto = {
         userId,
         generatedAt: new Date().toISOString(),
+        strategy,
+        experiment: experimentOf(assignment),
         learningPattern,
         recommendations,
         nextSuggestedLesson,
@@ -74,6 +162,7 @@ export class RecommendationService {
         recommendationsCount: recommendations.length,
         nextLesson: nextSuggestedLesson?.lessonId,
         averageScore: learningPattern.averageScore,
+        strategy,
       });
 
       return result;
@@ -86,65 +175,141 @@ export class RecommendationService {
     }
   }
 
+  /**
+   * Explain the ranking: every lesson's factor scores, the weights applied and
+   * the adjustments on top, plus the lessons left out and why
+   */
+  static async explainRecommendations(userId: string): Promise<RecommendationDebugDto> {
+    LoggerService.logService('RecommendationService', `explainRecommendations(${userId})`, true);
+
+    try {
+      const assignment = await this.assignExperiment(userId);
+      const strategy = strategyFor(assignment);
+      const { analytics, learningPattern, ranked, excluded } = await this.rankLessons(userId, strategy);
+
+      return {
+        userId,
+        generatedAt: new Date().toISOString(),
+        strategy,
+        experiment: experimentOf(assignment),
+        weights: { ...this.DEFAULT_WEIGHTS },
+        analytics,
+        learningPattern,
+        rankedLessons: ranked.map(({ recommendation, breakdown }, index) => ({
+          rank: index + 1,
+          lessonId: recommendation.lessonId,
+          title: recommendation.title,
+          difficulty: recommendation.difficulty,
+          isUnlocked: recommendation.isUnlocked,
+          recommendationReason: recommendation.recommendationReason,
+          breakdown,
+        })),
+        excludedLessons: excluded,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to explain recommendations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Score every lesson for a user, best first by the given strategy
+   */
+  private static async rankLessons(userId: string, strategy: RecommendationStrategy): Promise<RankedLessons> {
+    // 1. Analyze user's learning patterns
+    const analytics = await this.analyzeLearningPatterns(userId);
+    const learningPattern = createLearningPattern(analytics);
+
+    // 2. Get all available lessons and the learner's skill mastery
+    const [allLessons, masteries] = await Promise.all([
+      LessonRepository.findAllWithProgress(userId),
+      MasteryRepository.findByUser(userId),
+    ]);
+    const skillMastery = new Map([...masteries].map(([skillId, mastery]) => [skillId, mastery.pKnown]));
+
+    // 3. Score lessons based on learning pattern and mastery
+    const { scored, excluded } = this.calculateRecommendations(
+      allLessons,
+      analytics,
+      learningPattern,
+      skillMastery
+    );
+
+    const ranked = rankByStrategy(scored, strategy);
+
+    return { analytics, learningPattern, ranked, excluded };
+  }
+
   /**
    * Analyze user's historical learning patterns
    */
   private static async analyzeLearningPatterns(userId: string): Promise<LearningAnalytics> {
     try {
-      // Get user's submission history
-      const submissions = await SubmissionRepository.getUserSubmissions(userId);
-      const userProgress = await LessonRepository.getUserProgress(userId);
-
-      if (!submissions || submissions.length === 0) {
-        // Return default analytics for new users
-        return this.getDefaultAnalytics();
+      // Get user's submission history, lesson progress and streak
+      const [submissions, userProgress, user] = await Promise.all([
+        SubmissionRepository.getUserSubmissions(userId),
+        LessonRepository.getUserProgress(userId),
+        UserRepository.findById(userId),
+      ]);
+
+      if (!user) {
+        throw new Error('User not found');
       }
 
+      const now = new Date();
+      const today = localDate(now, user.timezone);
+      const currentStreak = currentStreakAt(user, now);
+
       // Calculate basic metrics
       const totalProblemsAttempted = submissions.length;
       const totalCorrectAnswers = submissions.filter(s => s.isCorrect).length;
-      const averageAccuracy = totalCorrectAnswers / totalProblemsAttempted;
-      const totalXpEarned = submissions.reduce((sum, s) => sum + s.xpEarned, 0);
+      const averageAccuracy = totalProblemsAttempted > 0 ? totalCorrectAnswers / totalProblemsAttempted : 0;
 
-      // Calculate time-based metrics
-      const totalTimeSpent = submissions.reduce((sum, s) => sum + (s.timeSpent || 30), 0) / 60; // convert to minutes
+      // Time is only known for answers that recorded it
+      const timed = submissions.filter(s => s.timeSpent !== null);
+      const totalTimeSpent = timed.reduce((sum, s) => sum + s.timeSpent!, 0) / 60; // convert to minutes
       
-      // Group by difficulty for analysis
+      // Group by the difficulty of the problems answered
       const performanceByDifficulty = {
         easy: { attempted: 0, correct: 0, avgTime: 0 },
         medium: { attempted: 0, correct: 0, avgTime: 0 },
         hard: { attempted: 0, correct: 0, avgTime: 0 },
       };
+      const timedByDifficulty = { easy: 0, medium: 0, hard: 0 };
 
-      // This would require joining with problems table to get difficulty
-      // For now, we'll estimate based on lesson order and performance
       submissions.forEach(submission => {
-        const difficulty = this.estimateDifficulty(submission.lessonId, submission.isCorrect);
+        const difficulty = isDifficulty(submission.difficulty) ? submission.difficulty : 'easy';
         performanceByDifficulty[difficulty].attempted++;
         if (submission.isCorrect) {
           performanceByDifficulty[difficulty].correct++;
         }
-        performanceByDifficulty[difficulty].avgTime += (submission.timeSpent || 30) / 60;
+        if (submission.timeSpent !== null) {
+          performanceByDifficulty[difficulty].avgTime += submission.timeSpent / 60;
+          timedByDifficulty[difficulty]++;
+        }
       });
 
       // Calculate average times
-      Object.keys(performanceByDifficulty).forEach(key => {
-        const diff = performanceByDifficulty[key as keyof typeof performanceByDifficulty];
-        if (diff.attempted > 0) {
-          diff.avgTime = diff.avgTime / diff.attempted;
+      LESSON_DIFFICULTIES.forEach(difficulty => {
+        if (timedByDifficulty[difficulty] > 0) {
+          performanceByDifficulty[difficulty].avgTime /= timedByDifficulty[difficulty];
         }
       });
 
-      // Calculate recent activity
-      const now = new Date();
+      // Calculate recent activity, with days counted in the learner's timezone
       const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      const recentSubmissions = submissions.filter(s => 
-        new Date(s.submittedAt) >= oneWeekAgo
-      );
+      const recentSubmissions = submissions.filter(s => s.submittedAt >= oneWeekAgo);
 
       const uniqueDaysThisWeek = new Set(
-        recentSubmissions.map(s => new Date(s.submittedAt).toDateString())
+        recentSubmissions.map(s => localDate(s.submittedAt, user.timezone))
       ).size;
+      const recentMinutes = recentSubmissions.reduce((sum, s) => sum + (s.timeSpent ?? 0), 0) / 60;
+
+      const lastSubmission = submissions[submissions.length - 1];
+      const lastActive = user.lastActivityDate ?? lastSubmission?.submittedAt ?? null;
 
       const analytics: LearningAnalytics = {
         totalLessonsCompleted: userProgress.filter(p => p.isCompleted).length,
@@ -152,18 +317,20 @@ export class RecommendationService {
         totalCorrectAnswers,
         averageAccuracy,
         totalTimeSpent,
+        timedProblemsAttempted: timed.length,
+        totalXp: user.totalXp,
         streakData: {
-          current: 5, // This would come from user table
-          best: 10,   // This would come from user table
-          consistency: Math.min(100, uniqueDaysThisWeek * 20), // Rough estimate
+          current: currentStreak,
+          best: user.bestStreak,
+          consistency: user.bestStreak > 0 ? Math.min(1, currentStreak / user.bestStreak) : 0,
+          activeToday: user.lastActivityDate !== null && localDate(user.lastActivityDate, user.timezone) === today,
         },
         performanceByDifficulty,
         recentActivity: {
-          lastActive: submissions.length > 0 
-            ? submissions[submissions.length - 1].submittedAt.toISOString()
-            : now.toISOString(),
+          lastActive: (lastActive ?? now).toISOString(),
           activeDaysInWeek: uniqueDaysThisWeek,
-          sessionsThisWeek: recentSubmissions.length,
+          sessionsThisWeek: new Set(recentSubmissions.map(s => s.submittedAt.getTime())).size,
+          minutesPerActiveDay: uniqueDaysThisWeek > 0 ? recentMinutes / uniqueDaysThisWeek : 0,
         },
       };
 
@@ -178,112 +345,169 @@ export class RecommendationService {
   }
 
   /**
-   * Calculate lesson recommendations based on learning pattern
+   * Score lessons based on learning pattern; lessons completed well are left out
    */
-  private static async calculateRecommendations(
-    allLessons: any[],
-    pattern: LearningPattern,
+  private static calculateRecommendations(
+    allLessons: LessonWithProgress[],
     analytics: LearningAnalytics,
-    limit: number
-  ): Promise<LessonRecommendation[]> {
-    const recommendations: LessonRecommendation[] = [];
+    pattern: LearningPattern,
+    skillMastery: Map<string, number>
+  ): { scored: ScoredLesson[]; excluded: ExcludedLessonDebug[] } {
+    const scored: ScoredLesson[] = [];
+    const excluded: ExcludedLessonDebug[] = [];
+    const completedLessonIds = new Set(
+      allLessons.filter(lesson => lesson.progress?.isCompleted).map(lesson => lesson.id)
+    );
 
     for (const lesson of allLessons) {
       const progress = lesson.progress;
 
       // Skip completed lessons unless they need reinforcement
       if (progress?.isCompleted && progress.score >= 90) {
+        excluded.push({
+          lessonId: lesson.id,
+          title: lesson.title,
+          reason: `Completed with ${Math.round(progress.score)}%`,
+        });
         continue;
       }
 
-      // Calculate recommendation score
-      const score = this.calculateRecommendationScore(lesson, pattern, analytics, progress);
-      
-      // Determine recommendation reason
-      const reason = this.getRecommendationReason(lesson, pattern, progress);
+      // Check if lesson is unlocked (every prerequisite in the lesson graph completed)
+      const isUnlocked = isLessonUnlocked(
+        lesson.prerequisites.map(prerequisite => prerequisite.id),
+        completedLessonIds
+      );
+
+      // Probability the learner knows each skill the lesson teaches
+      const lessonMastery = lesson.skills.map(skill => ({
+        name: skill.name,
+        pKnown: skillMastery.get(skill.id) ?? DEFAULT_TRACING_PARAMS.pInit,
+      }));
 
       // Estimate completion time based on user's learning speed and lesson complexity
       const estimatedTime = this.estimateCompletionTime(lesson, pattern);
 
-      // Check if lesson is unlocked (basic prerequisite logic)
-      const isUnlocked = this.isLessonUnlocked(lesson, allLessons);
+      // Calculate recommendation score
+      const breakdown = this.calculateRecommendationScore(
+        lesson,
+        analytics,
+        pattern,
+        lessonMastery,
+        estimatedTime,
+        isUnlocked
+      );
+      
+      // Determine recommendation reason
+      const reason = this.getRecommendationReason(lesson, pattern, lessonMastery, progress, isUnlocked);
 
       const recommendation: LessonRecommendation = {
         lessonId: lesson.id,
         title: lesson.title,
         description: lesson.description || '',
         recommendationReason: reason,
-        confidenceScore: Math.round(score),
+        confidenceScore: breakdown.totalScore,
         estimatedCompletionTime: estimatedTime,
-        difficulty: this.getLessonDifficulty(lesson),
+        difficulty: lesson.difficulty,
         xpReward: lesson.xpReward || 10,
         order: lesson.order,
         isUnlocked,
-        prerequisites: this.getLessonPrerequisites(lesson, allLessons),
+        prerequisites: lesson.prerequisites.map(prerequisite => prerequisite.title),
       };
 
-      recommendations.push(recommendation);
+      scored.push({ recommendation, breakdown });
     }
 
-    // Sort by recommendation score and return top recommendations
-    return recommendations
-      .sort((a, b) => b.confidenceScore - a.confidenceScore)
-      .slice(0, limit);
+    return { scored, excluded };
   }
 
   /**
-   * Calculate recommendation score for a lesson
+   * Calculate recommendation score for a lesson: each factor is scored 0-100 and
+   * combined with DEFAULT_WEIGHTS, then fixed adjustments are applied
    */
   private static calculateRecommendationScore(
-    lesson: any,
-    pattern: LearningPattern,
+    lesson: LessonWithProgress,
     analytics: LearningAnalytics,
-    progress: any
-  ): number {
-    let score = 50; // Base score
-
-    // Performance-based scoring
-    if (pattern.averageScore >= 85) {
-      // High performer - suggest challenging content
-      if (this.getLessonDifficulty(lesson) === 'hard') score += 30;
-      else if (this.getLessonDifficulty(lesson) === 'medium') score += 15;
-    } else if (pattern.averageScore < 60) {
-      // Struggling learner - suggest easier content
-      if (this.getLessonDifficulty(lesson) === 'easy') score += 30;
-      else if (this.getLessonDifficulty(lesson) === 'medium') score += 10;
-      else score -= 20;
+    pattern: LearningPattern,
+    lessonMastery: SkillMastery[],
+    estimatedTime: number,
+    isUnlocked: boolean
+  ): ScoreBreakdown {
+    const progress = lesson.progress;
+    const inProgress = !!progress && progress.attemptsCount > 0 && !progress.isCompleted;
+    const mastery = this.averageMastery(lessonMastery);
+    const difficulty = isDifficulty(lesson.difficulty) ? lesson.difficulty : 'easy';
+
+    // Performance: the less the lesson's skills are known, or the lower its score, the more there is to gain
+    let performance = (1 - mastery) * 100;
+    if (progress?.isCompleted) {
+      performance = Math.max(performance, 100 - progress.score);
     }
 
-    // Difficulty preference alignment
-    if (this.getLessonDifficulty(lesson) === pattern.preferredDifficulty) {
-      score += 25;
+    // Difficulty preference: closeness to the difficulty the learner does best at
+    const distance = Math.abs(
+      LESSON_DIFFICULTIES.indexOf(difficulty) - LESSON_DIFFICULTIES.indexOf(pattern.preferredDifficulty)
+    );
+    const difficultyPreference = 100 - distance * 50;
+
+    // Time availability: whether the lesson fits the time the learner usually spends a day
+    const { minutesPerActiveDay } = analytics.recentActivity;
+    const timeAvailability = minutesPerActiveDay > 0
+      ? Math.min(100, (minutesPerActiveDay / estimatedTime) * 100)
+      : 50;
+
+    // Streak maintenance: with a streak at risk today, favour quick wins
+    const streakAtRisk = analytics.streakData.current > 0 && !analytics.streakData.activeToday;
+    const streakMaintenance = streakAtRisk ? (inProgress ? 100 : QUICK_WIN_SCORES[difficulty]) : 50;
+
+    // Novelty: new lessons over ones already started or completed
+    const novelty = !progress ? 100 : progress.isCompleted ? 20 : 50;
+
+    const factors: RecommendationFactors = {
+      performance: Math.round(performance),
+      difficultyPreference,
+      timeAvailability: Math.round(timeAvailability),
+      streakMaintenance,
+      novelty,
+    };
+
+    const weights = this.DEFAULT_WEIGHTS;
+    const weightedScore = Math.round(
+      factors.performance * weights.performanceWeight +
+      factors.difficultyPreference * weights.difficultyPreferenceWeight +
+      factors.timeAvailability * weights.timeAvailabilityWeight +
+      factors.streakMaintenance * weights.streakMaintenanceWeight +
+      factors.novelty * weights.noveltyWeight
+    );
+
+    const adjustments: ScoreAdjustment[] = [];
+
+    if (inProgress) {
+      adjustments.push({ reason: 'Lesson in progress', points: 15 });
     }
 
-    // Progress-based scoring
-    if (progress) {
-      if (progress.isCompleted && progress.score < 80) {
-        // Needs reinforcement
-        score += 20;
-      } else if (progress.attemptsCount > 0 && !progress.isCompleted) {
-        // In progress - prioritize
-        score += 35;
-      }
-    } else {
-      // New lesson - good for variety
-      score += 15;
+    // Frontier bonus: prerequisites just completed, lesson not started yet
+    if (isUnlocked && !progress && lesson.prerequisites.length > 0) {
+      adjustments.push({ reason: 'Prerequisites just completed', points: 10 });
     }
 
-    // Sequential learning bonus
-    if (lesson.order === this.getNextSequentialLesson(analytics)) {
-      score += 20;
+    // Nothing left to learn once every skill is mastered
+    if (mastery >= MASTERY_THRESHOLD) {
+      adjustments.push({ reason: 'Every skill already mastered', points: -30 });
     }
 
-    // Consistency bonus for regular learners
-    if (pattern.consistencyScore > 70) {
-      score += 10;
+    // Locked lessons can't be started yet, so rank them below available ones
+    if (!isUnlocked) {
+      adjustments.push({ reason: 'Locked until prerequisites are completed', points: -40 });
     }
 
-    return Math.max(0, Math.min(100, score));
+    const totalScore = adjustments.reduce((score, adjustment) => score + adjustment.points, weightedScore);
+
+    return {
+      factors,
+      weightedScore,
+      adjustments,
+      totalScore: Math.max(0, Math.min(100, totalScore)),
+    };
   }
 
   /**
@@ -326,6 +550,38 @@ export class RecommendationService {
     return goals.slice(0, 3); // Return top 3 goals
   }
 
+  /**
+   * Experiment variant for the learner; recommendations fall back to the default
+   * strategy rather than fail when experiments can't be loaded
+   */
+  private static async assignExperiment(userId: string): Promise<ExperimentAssignment | null> {
+    try {
+      return await ExperimentService.assign(userId);
+    } catch (error) {
+      LoggerService.error('Failed to assign experiment variant', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      return null;
+    }
+  }
+
+  private static async logExposure(
+    assignment: ExperimentAssignment,
+    userId: string,
+    lessonIds: string[]
+  ): Promise<void> {
+    try {
+      await ExperimentService.recordExposure(assignment, userId, lessonIds);
+    } catch (error) {
+      LoggerService.error('Failed to log experiment exposure', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        experiment: assignment.key,
+      });
+    }
+  }
+
   /**
    * Helper methods
    */
@@ -336,7 +592,9 @@ export class RecommendationService {
       totalCorrectAnswers: 0,
       averageAccuracy: 0,
       totalTimeSpent: 0,
-      streakData: { current: 0, best: 0, consistency: 0 },
+      timedProblemsAttempted: 0,
+      totalXp: 0,
+      streakData: { current: 0, best: 0, consistency: 0, activeToday: false },
       performanceByDifficulty: {
         easy: { attempted: 0, correct: 0, avgTime: 0 },
         medium: { attempted: 0, correct: 0, avgTime: 0 },
@@ -346,73 +604,59 @@ export class RecommendationService {
         lastActive: new Date().toISOString(),
         activeDaysInWeek: 0,
         sessionsThisWeek: 0,
+        minutesPerActiveDay: 0,
       },
     };
   }
 
-  private static estimateDifficulty(lessonId: string, isCorrect: boolean): 'easy' | 'medium' | 'hard' {
-    // Simple heuristic based on lesson order/name and performance
-    if (lessonId.includes('1') || lessonId.includes('basic')) return 'easy';
-    if (lessonId.includes('2') || lessonId.includes('intermediate')) return 'medium';
-    return isCorrect ? 'medium' : 'hard'; // If they got it wrong, assume it was harder
-  }
-
-  private static getLessonDifficulty(lesson: any): string {
-    // Could be enhanced to read from lesson metadata
-    if (lesson.order <= 2) return 'easy';
-    if (lesson.order <= 4) return 'medium';
-    return 'hard';
-  }
-
-  private static getNextSequentialLesson(analytics: LearningAnalytics): number {
-    return analytics.totalLessonsCompleted + 1;
-  }
+  private static getRecommendationReason(
+    lesson: LessonWithProgress,
+    pattern: LearningPattern,
+    lessonMastery: SkillMastery[],
+    progress: LessonWithProgress['progress'],
+    isUnlocked: boolean
+  ): string {
+    if (!isUnlocked) {
+      return `Complete ${lesson.prerequisites.map(prerequisite => prerequisite.title).join(', ')} to unlock this lesson`;
+    }
 
-  private static getRecommendationReason(lesson: any, pattern: LearningPattern, progress: any): string {
     if (progress?.isCompleted && progress.score < 80) {
       return `Revisit this lesson to improve your score from ${Math.round(progress.score)}%`;
     }
     
-    if (progress?.attemptsCount > 0 && !progress.isCompleted) {
+    if (progress && progress.attemptsCount > 0 && !progress.isCompleted) {
       return 'Continue where you left off to complete this lesson';
     }
 
-    if (pattern.averageScore >= 85 && this.getLessonDifficulty(lesson) === 'hard') {
+    if (pattern.averageScore >= 85 && lesson.difficulty === 'hard') {
       return 'Challenge yourself with this advanced topic';
     }
 
-    if (pattern.averageScore < 60 && this.getLessonDifficulty(lesson) === 'easy') {
+    if (pattern.averageScore < 60 && lesson.difficulty === 'easy') {
       return 'Build confidence with this fundamental lesson';
     }
 
-    if (pattern.strugglingAreas.includes(this.getLessonDifficulty(lesson))) {
-      return `Strengthen your ${this.getLessonDifficulty(lesson)} level skills`;
+    const weakest = [...lessonMastery].sort((a, b) => a.pKnown - b.pKnown)[0];
+    if (progress && weakest && weakest.pKnown < 0.5) {
+      return `Strengthen your ${weakest.name} skills`;
     }
 
     return 'Next in your learning sequence';
   }
 
-  private static estimateCompletionTime(lesson: any, pattern: LearningPattern): number {
+  private static averageMastery(lessonMastery: SkillMastery[]): number {
+    if (lessonMastery.length === 0) {
+      return DEFAULT_TRACING_PARAMS.pInit;
+    }
+    return lessonMastery.reduce((sum, skill) => sum + skill.pKnown, 0) / lessonMastery.length;
+  }
+
+  private static estimateCompletionTime(lesson: LessonWithProgress, pattern: LearningPattern): number {
     const baseTime = 15; // minutes
-    const difficultyMultiplier = this.getLessonDifficulty(lesson) === 'hard' ? 1.5 : 
-                                this.getLessonDifficulty(lesson) === 'medium' ? 1.2 : 1.0;
+    const difficultyMultiplier = lesson.difficulty === 'hard' ? 1.5 : 
+                                lesson.difficulty === 'medium' ? 1.2 : 1.0;
     const speedAdjustment = pattern.learningSpeed > 0 ? Math.max(0.5, 2 / pattern.learningSpeed) : 1.5;
     
     return Math.round(baseTime * difficultyMultiplier * speedAdjustment);
   }
-
-  private static isLessonUnlocked(lesson: any, allLessons: any[]): boolean {
-    // Simple sequential unlock logic
-    if (lesson.order === 1) return true;
-    
-    const prerequisite = allLessons.find(l => l.order === lesson.order - 1);
-    return prerequisite?.progress?.isCompleted || false;
-  }
-
-  private static getLessonPrerequisites(lesson: any, allLessons: any[]): string[] {
-    if (lesson.order === 1) return [];
-    
-    const prerequisite = allLessons.find(l => l.order === lesson.order - 1);
-    return prerequisite ? [prerequisite.title] : [];
-  }
 }
@@ -0,0 +1,48 @@
+import { LessonRecommendation, ScoreBreakdown } from './dtos/recommendation.dto';
+
+/**
+ * Recommendation Strategies
+ * Ways of ordering the scored lessons. Experiments serve a different strategy
+ * per variant; everyone else gets the default.
+ */
+
+export const RECOMMENDATION_STRATEGIES = ['weighted', 'mastery_first', 'sequential'] as const;
+
+export type RecommendationStrategy = typeof RECOMMENDATION_STRATEGIES[number];
+
+export const DEFAULT_STRATEGY: RecommendationStrategy = 'weighted';
+
+export interface ScoredLesson {
+  recommendation: LessonRecommendation;
+  breakdown: ScoreBreakdown;
+}
+
+type Ordering = (a: ScoredLesson, b: ScoredLesson) => number;
+
+const unlockedFirst: Ordering = (a, b) =>
+  Number(b.recommendation.isUnlocked) - Number(a.recommendation.isUnlocked);
+
+const byTotalScore: Ordering = (a, b) => b.breakdown.totalScore - a.breakdown.totalScore;
+
+const ORDERINGS: Record<RecommendationStrategy, Ordering> = {
+  // Weighted factor scores plus adjustments (the heuristic recommender)
+  weighted: byTotalScore,
+  // Available lessons whose skills are least known first
+  mastery_first: (a, b) =>
+    unlockedFirst(a, b) ||
+    b.breakdown.factors.performance - a.breakdown.factors.performance ||
+    byTotalScore(a, b),
+  // Available lessons in curriculum order
+  sequential: (a, b) => unlockedFirst(a, b) || a.recommendation.order - b.recommendation.order,
+};
+
+export function isRecommendationStrategy(value: string): value is RecommendationStrategy {
+  return (RECOMMENDATION_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Order scored lessons by a strategy, best first
+ */
+export function rankByStrategy(lessons: ScoredLesson[], strategy: RecommendationStrategy): ScoredLesson[] {
+  return [...lessons].sort(ORDERINGS[strategy]);
+}
@@ -104,11 +104,28 @@
  *           description: Required lessons before this one
  *           example: ["Basic Arithmetic"]
  * 
+ *     RecommendationExperiment:
+ *       type: object
+ *       nullable: true
+ *       description: Experiment variant the recommendations were generated for, if any
+ *       required:
+ *         - key
+ *         - variant
+ *       properties:
+ *         key:
+ *           type: string
+ *           example: "recommendation-strategy-2025-08"
+ *         variant:
+ *           type: string
+ *           example: "treatment"
+ * 
  *     AdaptiveLearningPath:
  *       type: object
  *       required:
  *         - userId
  *         - generatedAt
+ *         - strategy
+ *         - experiment
  *         - learningPattern
  *         - recommendations
  *         - personalizedMessage
@@ -123,6 +140,13 @@
  *           format: date-time
  *           description: When recommendations were generated
  *           example: "2025-08-09T10:30:00.000Z"
+ *         strategy:
+ *           type: string
+ *           enum: [weighted, mastery_first, sequential]
+ *           description: Strategy used to order the recommendations
+ *           example: "weighted"
+ *         experiment:
+ *           $ref: '#/components/schemas/RecommendationExperiment'
  *         learningPattern:
  *           $ref: '#/components/schemas/LearningPattern'
  *         recommendations:
@@ -145,4 +169,197 @@
  *             type: string
  *           description: Suggested learning goals
  *           example: ["Achieve 85% accuracy consistently", "Focus on strengthening skills in: hard"]
+ *
+ *     RecommendationWeights:
+ *       type: object
+ *       required:
+ *         - performanceWeight
+ *         - difficultyPreferenceWeight
+ *         - timeAvailabilityWeight
+ *         - streakMaintenanceWeight
+ *         - noveltyWeight
+ *       properties:
+ *         performanceWeight:
+ *           type: number
+ *           example: 0.3
+ *         difficultyPreferenceWeight:
+ *           type: number
+ *           example: 0.25
+ *         timeAvailabilityWeight:
+ *           type: number
+ *           example: 0.15
+ *         streakMaintenanceWeight:
+ *           type: number
+ *           example: 0.15
+ *         noveltyWeight:
+ *           type: number
+ *           example: 0.15
+ *
+ *     RecommendationFactors:
+ *       type: object
+ *       description: Factor scores (0-100) combined by the weights
+ *       required:
+ *         - performance
+ *         - difficultyPreference
+ *         - timeAvailability
+ *         - streakMaintenance
+ *         - novelty
+ *       properties:
+ *         performance:
+ *           type: integer
+ *           description: Room to improve, from skill mastery and the lesson's score
+ *           example: 80
+ *         difficultyPreference:
+ *           type: integer
+ *           description: How close the lesson is to the learner's preferred difficulty
+ *           example: 100
+ *         timeAvailability:
+ *           type: integer
+ *           description: How well the lesson fits the minutes the learner spends a day
+ *           example: 67
+ *         streakMaintenance:
+ *           type: integer
+ *           description: Favours quick wins while the streak still needs today's activity
+ *           example: 50
+ *         novelty:
+ *           type: integer
+ *           description: New lessons over started or completed ones
+ *           example: 100
+ *
+ *     ScoreAdjustment:
+ *       type: object
+ *       required:
+ *         - reason
+ *         - points
+ *       properties:
+ *         reason:
+ *           type: string
+ *           example: "Prerequisites just completed"
+ *         points:
+ *           type: integer
+ *           example: 10
+ *
+ *     ScoreBreakdown:
+ *       type: object
+ *       required:
+ *         - factors
+ *         - weightedScore
+ *         - adjustments
+ *         - totalScore
+ *       properties:
+ *         factors:
+ *           $ref: '#/components/schemas/RecommendationFactors'
+ *         weightedScore:
+ *           type: integer
+ *           description: Weighted sum of the factor scores
+ *           example: 80
+ *         adjustments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ScoreAdjustment'
+ *         totalScore:
+ *           type: integer
+ *           description: Weighted score plus adjustments, clamped to 0-100 (the confidence score)
+ *           example: 90
+ *
+ *     RankedLessonDebug:
+ *       type: object
+ *       required:
+ *         - rank
+ *         - lessonId
+ *         - title
+ *         - difficulty
+ *         - isUnlocked
+ *         - recommendationReason
+ *         - breakdown
+ *       properties:
+ *         rank:
+ *           type: integer
+ *           example: 1
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-2"
+ *         title:
+ *           type: string
+ *           example: "Intermediate Algebra"
+ *         difficulty:
+ *           type: string
+ *           example: "medium"
+ *         isUnlocked:
+ *           type: boolean
+ *           example: true
+ *         recommendationReason:
+ *           type: string
+ *           example: "Next in your learning sequence"
+ *         breakdown:
+ *           $ref: '#/components/schemas/ScoreBreakdown'
+ *
+ *     ExcludedLessonDebug:
+ *       type: object
+ *       required:
+ *         - lessonId
+ *         - title
+ *         - reason
+ *       properties:
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-1"
+ *         title:
+ *           type: string
+ *           example: "Basic Arithmetic"
+ *         reason:
+ *           type: string
+ *           example: "Completed with 95%"
+ *
+ *     RecommendationDebug:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - generatedAt
+ *         - strategy
+ *         - experiment
+ *         - weights
+ *         - analytics
+ *         - learningPattern
+ *         - rankedLessons
+ *         - excludedLessons
+ *       properties:
+ *         userId:
+ *           type: string
+ *           example: "1"
+ *         generatedAt:
+ *           type: string
+ *           format: date-time
+ *           example: "2025-08-09T10:30:00.000Z"
+ *         strategy:
+ *           type: string
+ *           enum: [weighted, mastery_first, sequential]
+ *           example: "weighted"
+ *         experiment:
+ *           $ref: '#/components/schemas/RecommendationExperiment'
+ *         weights:
+ *           $ref: '#/components/schemas/RecommendationWeights'
+ *         analytics:
+ *           type: object
+ *           additionalProperties: true
+ *           description: Learning analytics the pattern was derived from (streak, XP, time spent, accuracy by difficulty)
+ *         learningPattern:
+ *           $ref: '#/components/schemas/LearningPattern'
+ *         rankedLessons:
+ *           type: array
+ *           description: Every scored lesson, best first
+ *           items:
+ *             $ref: '#/components/schemas/RankedLessonDebug'
+ *         excludedLessons:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ExcludedLessonDebug'
+ *
+ *     RecommendationDebugResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/RecommendationDebug'
  */
@@ -0,0 +1,114 @@
+import request from 'supertest';
+import express from 'express';
+import { ReviewController } from '../review.controller';
+import { ReviewService } from '../review.service';
+
+// Mock ReviewService
+jest.mock('../review.service');
+const MockedReviewService = ReviewService as jest.Mocked<typeof ReviewService>;
+
+// Mock LoggerService
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+// Mock middleware
+jest.mock('../../../core/middleware', () => ({
+  sendSuccess: jest.fn((res, data, message, status = 200) =>
+    res.status(status).json({ success: true, data, message })
+  ),
+  sendError: jest.fn((res, error, status = 500) =>
+    res.status(status).json({ success: false, error })
+  ),
+}));
+
+const app = express();
+app.use(express.json());
+
+// Simulate the authenticated user populated by the auth middleware
+app.use((req, res, next) => {
+  req.user = { id: '1', email: 'test@example.com', role: 'learner' };
+  next();
+});
+
+// Mount review routes
+app.get('/reviews/due', ReviewController.getDue);
+app.post('/reviews/submit', ReviewController.submitReview);
+
+describe('ReviewController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /reviews/due', () => {
+    it('should return the due reviews for the session', async () => {
+      MockedReviewService.getDueReviews.mockResolvedValue({ dueCount: 0, nextDueAt: null, items: [] });
+
+      const response = await request(app).get('/reviews/due?sessionId=practice-1').expect(200);
+
+      expect(MockedReviewService.getDueReviews).toHaveBeenCalledWith('1', { sessionId: 'practice-1', limit: 10 });
+      expect(response.body.data.dueCount).toBe(0);
+    });
+
+    it('should reject a missing session or an out of range limit', async () => {
+      await request(app).get('/reviews/due').expect(400);
+      await request(app).get('/reviews/due?sessionId=practice-1&limit=500').expect(400);
+
+      expect(MockedReviewService.getDueReviews).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /reviews/submit', () => {
+    const body = { sessionId: 'practice-1', problemId: 'problem-1', answer: '8' };
+
+    it('should submit the review', async () => {
+      MockedReviewService.submitReview.mockResolvedValue({
+        result: {
+          problemId: 'problem-1',
+          userAnswer: '8',
+          isCorrect: true,
+          reason: 'exact_match',
+          correctAnswer: '8',
+          explanation: '',
+          solutionSteps: [],
+          hintsUsed: 0,
+          xpEarned: 5,
+        },
+        totalXp: 105,
+        nextReviewAt: new Date('2024-01-21T10:00:00Z'),
+        interval: 6,
+      });
+
+      const response = await request(app).post('/reviews/submit').send(body).expect(200);
+
+      expect(MockedReviewService.submitReview).toHaveBeenCalledWith('1', body);
+      expect(response.body.data.nextReviewAt).toBe('2024-01-21T10:00:00.000Z');
+    });
+
+    it('should reject invalid review data', async () => {
+      await request(app).post('/reviews/submit').send({ problemId: 'problem-1' }).expect(400);
+
+      MockedReviewService.submitReview.mockRejectedValue(new Error('Invalid answer for input problem: problem-1'));
+      await request(app).post('/reviews/submit').send(body).expect(400);
+    });
+
+    it('should map missing and not yet due reviews', async () => {
+      MockedReviewService.submitReview.mockRejectedValue(new Error('Review item not found'));
+      await request(app).post('/reviews/submit').send(body).expect(404);
+
+      MockedReviewService.submitReview.mockRejectedValue(new Error('Review is not due yet'));
+      await request(app).post('/reviews/submit').send(body).expect(409);
+    });
+
+    it('should handle unexpected errors', async () => {
+      MockedReviewService.submitReview.mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app).post('/reviews/submit').send(body).expect(500);
+
+      expect(response.body.error).toBe('Failed to submit review');
+    });
+  });
+});
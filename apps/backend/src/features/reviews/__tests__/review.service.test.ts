@@ -0,0 +1,277 @@
+/**
+ * ReviewService Unit Tests
+ * Tests for the due queue, review grading, scheduling and XP
+ */
+
+const mockReviewRepository = {
+  findDue: jest.fn(),
+  countDue: jest.fn(),
+  findNextDueAt: jest.fn(),
+  findItem: jest.fn(),
+  findAnswer: jest.fn(),
+  recordReview: jest.fn(),
+};
+
+const mockUserRepository = {
+  findById: jest.fn(),
+};
+
+const mockProblemInstanceRepository = {
+  findByAttempt: jest.fn(),
+  createMany: jest.fn(),
+};
+
+const mockRevisionRepository = {
+  recordProblemRevisions: jest.fn(),
+};
+
+const mockLeaderboardService = {
+  joinCurrentWeek: jest.fn(),
+};
+
+const mockRecommendationCache = {
+  invalidate: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/review.repository', () => ({
+  ReviewRepository: mockReviewRepository,
+}));
+
+jest.mock('../../../core/repositories/user.repository', () => ({
+  UserRepository: mockUserRepository,
+}));
+
+jest.mock('../../../core/repositories/problem-instance.repository', () => ({
+  ProblemInstanceRepository: mockProblemInstanceRepository,
+}));
+
+jest.mock('../../../core/repositories/revision.repository', () => ({
+  RevisionRepository: mockRevisionRepository,
+}));
+
+jest.mock('../../../core/repositories/lesson.repository', () => ({
+  LessonRepository: {},
+}));
+
+jest.mock('../../../core/repositories/submission.repository', () => ({
+  SubmissionRepository: {},
+}));
+
+jest.mock('../../achievements/achievement.service', () => ({
+  AchievementService: {},
+}));
+
+jest.mock('../../leaderboards/leaderboard.service', () => ({
+  LeaderboardService: mockLeaderboardService,
+}));
+
+jest.mock('../../recommendations/recommendation.cache', () => ({
+  RecommendationCache: mockRecommendationCache,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { ReviewService, XP_PER_CORRECT_REVIEW } from '../review.service';
+
+const now = new Date('2024-01-15T10:00:00Z');
+
+const reviewItem = (overrides: Record<string, unknown> = {}) => ({
+  id: 'review-1',
+  userId: 'user-1',
+  problemId: 'problem-1',
+  easeFactor: 2.5,
+  interval: 1,
+  repetitions: 1,
+  lapses: 1,
+  dueAt: new Date('2024-01-14T10:00:00Z'),
+  lastReviewedAt: new Date('2024-01-13T10:00:00Z'),
+  problem: {
+    id: 'problem-1',
+    lessonId: 'lesson-1',
+    question: 'What is 5 + 3?',
+    problemType: 'input',
+    order: 1,
+    correctAnswer: '8',
+    tolerance: null,
+    config: null,
+    template: null,
+    explanation: '5 + 3 = 8',
+    difficulty: 'easy',
+    options: [],
+    lesson: { id: 'lesson-1', title: 'Basic Arithmetic' },
+  },
+  ...overrides,
+});
+
+describe('ReviewService', () => {
+  const userId = 'user-1';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    mockReviewRepository.findAnswer.mockResolvedValue(null);
+    mockRevisionRepository.recordProblemRevisions.mockResolvedValue(new Map([['problem-1', 'problem-1-revision-3']]));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getDueReviews', () => {
+    it('should return the due problems without their answers', async () => {
+      // Arrange
+      mockReviewRepository.findDue.mockResolvedValue([reviewItem()]);
+      mockReviewRepository.countDue.mockResolvedValue(3);
+      mockReviewRepository.findNextDueAt.mockResolvedValue(new Date('2024-01-16T08:00:00Z'));
+
+      // Act
+      const queue = await ReviewService.getDueReviews(userId, { sessionId: 'practice-1', limit: 1 });
+
+      // Assert
+      expect(mockReviewRepository.findDue).toHaveBeenCalledWith(userId, now, 1);
+      expect(queue.dueCount).toBe(3);
+      expect(queue.nextDueAt).toEqual(new Date('2024-01-16T08:00:00Z'));
+      expect(queue.items).toEqual([
+        {
+          problem: expect.objectContaining({ id: 'problem-1', question: 'What is 5 + 3?', problemType: 'input' }),
+          lessonId: 'lesson-1',
+          lessonTitle: 'Basic Arithmetic',
+          dueAt: new Date('2024-01-14T10:00:00Z'),
+          interval: 1,
+          repetitions: 1,
+          lapses: 1,
+        },
+      ]);
+      expect(queue.items[0].problem).not.toHaveProperty('correctAnswer');
+    });
+  });
+
+  describe('submitReview', () => {
+    it('should award XP and push a correctly answered problem further out', async () => {
+      // Arrange
+      mockReviewRepository.findItem.mockResolvedValue(reviewItem());
+      mockReviewRepository.recordReview.mockResolvedValue(105);
+
+      // Act
+      const result = await ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: '8',
+      });
+
+      // Assert
+      expect(result.result).toEqual(expect.objectContaining({ isCorrect: true, xpEarned: XP_PER_CORRECT_REVIEW }));
+      expect(result.totalXp).toBe(105);
+      expect(result.interval).toBe(6);
+      expect(result.nextReviewAt).toEqual(new Date('2024-01-21T10:00:00Z'));
+      expect(mockReviewRepository.recordReview).toHaveBeenCalledWith(
+        userId,
+        {
+          problemId: 'problem-1',
+          problemRevisionId: 'problem-1-revision-3',
+          sessionId: 'practice-1',
+          answer: '8',
+          isCorrect: true,
+          quality: 4,
+          xpEarned: XP_PER_CORRECT_REVIEW,
+        },
+        expect.objectContaining({ interval: 6, repetitions: 2, lastReviewedAt: now })
+      );
+      expect(mockLeaderboardService.joinCurrentWeek).toHaveBeenCalledWith(userId);
+      expect(mockRecommendationCache.invalidate).toHaveBeenCalledWith(userId);
+    });
+
+    it('should bring a missed problem back tomorrow without XP', async () => {
+      // Arrange
+      mockReviewRepository.findItem.mockResolvedValue(reviewItem({ interval: 6, repetitions: 2 }));
+      mockReviewRepository.recordReview.mockResolvedValue(100);
+
+      // Act
+      const result = await ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: '9',
+      });
+
+      // Assert
+      expect(result.result.isCorrect).toBe(false);
+      expect(result.result.xpEarned).toBe(0);
+      expect(result.interval).toBe(1);
+      expect(mockReviewRepository.recordReview).toHaveBeenCalledWith(
+        userId,
+        expect.objectContaining({ quality: 1, xpEarned: 0 }),
+        expect.objectContaining({ repetitions: 0, lapses: 2 })
+      );
+      expect(mockLeaderboardService.joinCurrentWeek).not.toHaveBeenCalled();
+    });
+
+    it('should return the stored outcome when the review is sent again', async () => {
+      // Arrange - already reviewed, so the item now points at its next review
+      mockReviewRepository.findItem.mockResolvedValue(
+        reviewItem({ interval: 6, dueAt: new Date('2024-01-21T10:00:00Z') })
+      );
+      mockReviewRepository.findAnswer.mockResolvedValue({
+        userAnswer: '8',
+        isCorrect: true,
+        xpEarned: XP_PER_CORRECT_REVIEW,
+      });
+      mockUserRepository.findById.mockResolvedValue({ id: userId, totalXp: 105 });
+
+      // Act - the retry carries a different answer
+      const result = await ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: '9',
+      });
+
+      // Assert
+      expect(result.result).toEqual(expect.objectContaining({
+        userAnswer: '8',
+        isCorrect: true,
+        xpEarned: XP_PER_CORRECT_REVIEW,
+      }));
+      expect(result).toEqual(expect.objectContaining({
+        totalXp: 105,
+        nextReviewAt: new Date('2024-01-21T10:00:00Z'),
+        interval: 6,
+      }));
+      expect(mockReviewRepository.recordReview).not.toHaveBeenCalled();
+    });
+
+    it('should reject problems that are not due yet', async () => {
+      mockReviewRepository.findItem.mockResolvedValue(reviewItem({ dueAt: new Date('2024-01-16T10:00:00Z') }));
+
+      await expect(ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: '8',
+      })).rejects.toThrow('Review is not due yet');
+    });
+
+    it('should reject problems that are not in the queue', async () => {
+      mockReviewRepository.findItem.mockResolvedValue(null);
+
+      await expect(ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: '8',
+      })).rejects.toThrow('Review item not found');
+    });
+
+    it('should reject answers of the wrong shape', async () => {
+      mockReviewRepository.findItem.mockResolvedValue(reviewItem());
+
+      await expect(ReviewService.submitReview(userId, {
+        sessionId: 'practice-1',
+        problemId: 'problem-1',
+        answer: true,
+      })).rejects.toThrow('Invalid answer for input problem');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { MAX_ANSWER_LENGTH, ProblemDto, ProblemResultDto } from '../../lessons/dtos/lesson.dto';
+import { AnswerPayload } from '../../lessons/grading';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReviewItem:
+ *       type: object
+ *       required:
+ *         - problem
+ *         - lessonId
+ *         - lessonTitle
+ *         - dueAt
+ *         - interval
+ *         - repetitions
+ *         - lapses
+ *       properties:
+ *         problem:
+ *           $ref: '#/components/schemas/Problem'
+ *         lessonId:
+ *           type: string
+ *           example: "lesson-1"
+ *         lessonTitle:
+ *           type: string
+ *           example: "Basic Arithmetic"
+ *         dueAt:
+ *           type: string
+ *           format: date-time
+ *           example: "2025-08-08T01:00:00.000Z"
+ *         interval:
+ *           type: integer
+ *           minimum: 0
+ *           example: 6
+ *           description: Days between the previous review and dueAt
+ *         repetitions:
+ *           type: integer
+ *           minimum: 0
+ *           example: 2
+ *           description: Correct answers in a row
+ *         lapses:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *           description: Times the problem was answered incorrectly
+ *
+ *     ReviewQueue:
+ *       type: object
+ *       required:
+ *         - dueCount
+ *         - nextDueAt
+ *         - items
+ *       properties:
+ *         dueCount:
+ *           type: integer
+ *           minimum: 0
+ *           example: 12
+ *           description: Problems due now (items holds at most `limit` of them)
+ *         nextDueAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           example: "2025-08-09T01:00:00.000Z"
+ *           description: When the next problem that is not due yet comes due
+ *         items:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ReviewItem'
+ *           description: Due problems, most overdue first
+ *
+ *     SubmitReviewRequest:
+ *       type: object
+ *       required:
+ *         - sessionId
+ *         - problemId
+ *         - answer
+ *       properties:
+ *         sessionId:
+ *           type: string
+ *           example: "practice-123-456"
+ *           description: Practice session the problem was fetched for (idempotency key with problemId)
+ *         problemId:
+ *           type: string
+ *           example: "problem-1-1"
+ *         answer:
+ *           $ref: '#/components/schemas/AnswerPayload'
+ *
+ *     ReviewResult:
+ *       type: object
+ *       required:
+ *         - result
+ *         - totalXp
+ *         - nextReviewAt
+ *         - interval
+ *       properties:
+ *         result:
+ *           $ref: '#/components/schemas/ProblemResult'
+ *         totalXp:
+ *           type: integer
+ *           minimum: 0
+ *           example: 125
+ *           description: User's total XP after the review
+ *         nextReviewAt:
+ *           type: string
+ *           format: date-time
+ *           example: "2025-08-14T01:00:00.000Z"
+ *           description: When the problem comes up for review again
+ *         interval:
+ *           type: integer
+ *           minimum: 1
+ *           example: 6
+ *           description: Days until the next review
+ *
+ *     ReviewQueueResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ReviewQueue'
+ *
+ *     ReviewResultResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/ReviewResult'
+ */
+
+/**
+ * Review DTOs and Validation Schemas
+ */
+
+// Review Queue Item DTO
+export interface ReviewItemDto {
+  problem: ProblemDto;
+  lessonId: string;
+  lessonTitle: string;
+  dueAt: Date;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+}
+
+// Review Queue DTO
+export interface ReviewQueueDto {
+  dueCount: number;
+  nextDueAt: Date | null;
+  items: ReviewItemDto[];
+}
+
+// Submit review request DTO
+export interface SubmitReviewDto {
+  sessionId: string;
+  problemId: string;
+  answer: AnswerPayload;
+}
+
+// Review Result DTO
+export interface ReviewResultDto {
+  result: ProblemResultDto;
+  totalXp: number;
+  nextReviewAt: Date;
+  interval: number;
+}
+
+/**
+ * Validation Schemas
+ */
+
+// Most problems served in one practice session
+export const MAX_REVIEW_LIMIT = 50;
+
+export const reviewQueueQuerySchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+  limit: z.coerce.number().int().min(1).max(MAX_REVIEW_LIMIT).default(10),
+});
+
+export const submitReviewSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID is required'),
+  problemId: z.string().min(1, 'Problem ID is required'),
+  answer: z.union([
+    z.string().min(1, 'Answer is required').max(MAX_ANSWER_LENGTH, 'Answer is too long'),
+    z.boolean(),
+    z.number().finite(),
+    z.array(z.string().max(MAX_ANSWER_LENGTH, 'Answer is too long')).min(1, 'Answer is required'),
+  ]),
+});
+
+export type ReviewQueueQuery = z.infer<typeof reviewQueueQuerySchema>;
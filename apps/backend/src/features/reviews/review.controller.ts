@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { ReviewService } from './review.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+import { reviewQueueQuerySchema, submitReviewSchema } from './dtos/review.dto';
+
+/**
+ * @swagger
+ * /api/reviews/due:
+ *   get:
+ *     summary: Get the problems due for review
+ *     description: |
+ *       Problems the learner answered incorrectly are queued for spaced-repetition review (SM-2).
+ *       Every later answer, in a lesson or a review, moves the next review further out or back to tomorrow.
+ *       Templated problems are instantiated with values seeded from sessionId; submit with the same sessionId.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Practice session the problems are fetched for
+ *         example: "practice-123-456"
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: Most problems to return
+ *     responses:
+ *       200:
+ *         description: Due reviews retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReviewQueueResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/reviews/submit:
+ *   post:
+ *     summary: Submit a review answer
+ *     description: |
+ *       Grade the answer to a due problem, schedule its next review and award XP for a correct answer
+ *       (idempotent per sessionId and problemId).
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SubmitReviewRequest'
+ *           example:
+ *             sessionId: "practice-123-456"
+ *             problemId: "problem-1-1"
+ *             answer: "8"
+ *     responses:
+ *       200:
+ *         description: Review submitted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReviewResultResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The problem is not due for review yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Review Controller
+ * Handles HTTP requests for the spaced-repetition review queue
+ */
+export class ReviewController {
+  /**
+   * GET /api/reviews/due
+   * Get the problems due for review
+   */
+  static async getDue(req: Request, res: Response): Promise<void> {
+    try {
+      const query = reviewQueueQuerySchema.parse(req.query);
+
+      const queue = await ReviewService.getDueReviews(req.user!.id, query);
+
+      sendSuccess(res, queue, 'Due reviews retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get due reviews', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query,
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.name === 'ZodError') {
+        sendError(res, 'Invalid query parameters', 400);
+      } else {
+        sendError(res, 'Failed to retrieve due reviews', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/reviews/submit
+   * Grade a review answer and schedule the next review
+   */
+  static async submitReview(req: Request, res: Response): Promise<void> {
+    try {
+      const submitData = submitReviewSchema.parse(req.body);
+
+      const result = await ReviewService.submitReview(req.user!.id, submitData);
+
+      sendSuccess(res, result, 'Review submitted successfully');
+    } catch (error) {
+      LoggerService.error('Failed to submit review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        body: req.body,
+      });
+
+      if (error instanceof Error) {
+        if (error.name === 'ZodError' || error.message.includes('Invalid answer')) {
+          sendError(res, 'Invalid review data', 400);
+        } else if (error.message.includes('not found')) {
+          sendError(res, 'Review item not found', 404);
+        } else if (error.message.includes('not due')) {
+          sendError(res, 'Review is not due yet', 409);
+        } else {
+          sendError(res, 'Failed to submit review', 500);
+        }
+      } else {
+        sendError(res, 'Failed to submit review', 500);
+      }
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ReviewController } from './review.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
+
+/**
+ * Review Routes
+ * /api/reviews
+ */
+const router = Router();
+
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
+// GET /api/reviews/due - Get the problems due for review
+router.get('/due', asyncHandler(ReviewController.getDue));
+
+// POST /api/reviews/submit - Submit one review answer
+router.post('/submit', asyncHandler(ReviewController.submitReview));
+
+export default router;
@@ -0,0 +1,171 @@
+import { ReviewRepository } from '../../core/repositories/review.repository';
+import { UserRepository } from '../../core/repositories/user.repository';
+import { RevisionRepository } from '../../core/repositories/revision.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import { reviewQuality, scheduleReview } from '../../core/reviews';
+import { LessonService, deserializeAnswer, serializeAnswer } from '../lessons/lesson.service';
+import { ProblemType } from '../lessons/grading';
+import { LeaderboardService } from '../leaderboards/leaderboard.service';
+import { RecommendationCache } from '../recommendations/recommendation.cache';
+import { transformProblemToDto } from '../lessons/dtos/lesson.dto';
+import {
+  ReviewQueueDto,
+  ReviewQueueQuery,
+  ReviewResultDto,
+  SubmitReviewDto,
+} from './dtos/review.dto';
+
+// XP for a correct review; half a lesson problem since the learner has seen it before
+export const XP_PER_CORRECT_REVIEW = 5;
+
+/**
+ * Review Service
+ * Business logic for the spaced-repetition review queue
+ */
+export class ReviewService {
+  /**
+   * Get the problems due for review, instantiated for the practice session
+   */
+  static async getDueReviews(userId: string, query: ReviewQueueQuery): Promise<ReviewQueueDto> {
+    LoggerService.logService('ReviewService', `getDueReviews(${userId})`, true);
+
+    try {
+      const now = new Date();
+      const [items, dueCount, nextDueAt] = await Promise.all([
+        ReviewRepository.findDue(userId, now, query.limit),
+        ReviewRepository.countDue(userId, now),
+        ReviewRepository.findNextDueAt(userId, now),
+      ]);
+
+      const problems = await LessonService.instantiateProblems(
+        items.map(item => item.problem),
+        userId,
+        query.sessionId
+      );
+
+      return {
+        dueCount,
+        nextDueAt,
+        items: items.map((item, index) => ({
+          problem: transformProblemToDto(problems[index]),
+          lessonId: item.problem.lesson.id,
+          lessonTitle: item.problem.lesson.title,
+          dueAt: item.dueAt,
+          interval: item.interval,
+          repetitions: item.repetitions,
+          lapses: item.lapses,
+        })),
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get due reviews', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Grade a review, move the problem to its next review date and award XP (idempotent per session)
+   */
+  static async submitReview(userId: string, submitData: SubmitReviewDto): Promise<ReviewResultDto> {
+    LoggerService.logService('ReviewService', `submitReview(${submitData.problemId}, ${submitData.sessionId})`, true);
+
+    try {
+      const item = await ReviewRepository.findItem(userId, submitData.problemId);
+      if (!item) {
+        throw new Error('Review item not found');
+      }
+
+      // Grade templated problems against the values drawn for this session
+      const [problem] = await LessonService.instantiateProblems([item.problem], userId, submitData.sessionId);
+
+      // The same review sent again returns the stored outcome, whatever answer the retry carries
+      const existing = await ReviewRepository.findAnswer(userId, submitData.sessionId, submitData.problemId);
+      if (existing) {
+        const stored = LessonService.gradeAnswer(
+          problem,
+          deserializeAnswer(problem.problemType as ProblemType, existing.userAnswer),
+          existing.xpEarned
+        );
+        const user = await UserRepository.findById(userId);
+        return {
+          result: { ...stored, isCorrect: existing.isCorrect, xpEarned: existing.xpEarned },
+          totalXp: user?.totalXp ?? 0,
+          nextReviewAt: item.dueAt,
+          interval: item.interval,
+        };
+      }
+
+      const result = LessonService.gradeAnswer(problem, submitData.answer, XP_PER_CORRECT_REVIEW);
+
+      const now = new Date();
+      if (item.dueAt > now) {
+        throw new Error('Review is not due yet');
+      }
+
+      const quality = reviewQuality(result.isCorrect);
+      const schedule = scheduleReview(item, quality, now);
+      const problemRevisionIds = await RevisionRepository.recordProblemRevisions([item.problem]);
+
+      const totalXp = await ReviewRepository.recordReview(
+        userId,
+        {
+          problemId: submitData.problemId,
+          problemRevisionId: problemRevisionIds.get(submitData.problemId)!,
+          sessionId: submitData.sessionId,
+          answer: serializeAnswer(submitData.answer),
+          isCorrect: result.isCorrect,
+          quality,
+          xpEarned: result.xpEarned,
+        },
+        schedule
+      );
+
+      if (result.xpEarned > 0) {
+        await ReviewService.joinLeaderboard(userId);
+      }
+
+      // Skill mastery changed, so the learning path must be recomputed
+      await RecommendationCache.invalidate(userId);
+
+      LoggerService.info('Review processed', {
+        userId,
+        problemId: submitData.problemId,
+        sessionId: submitData.sessionId,
+        isCorrect: result.isCorrect,
+        interval: schedule.interval,
+      });
+
+      return {
+        result,
+        totalXp,
+        nextReviewAt: schedule.dueAt,
+        interval: schedule.interval,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to submit review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        problemId: submitData.problemId,
+        sessionId: submitData.sessionId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Review XP counts towards the weekly leaderboard; a failure to join must not
+   * fail the already recorded review
+   */
+  private static async joinLeaderboard(userId: string): Promise<void> {
+    try {
+      await LeaderboardService.joinCurrentWeek(userId);
+    } catch (error) {
+      LoggerService.error('Failed to join leaderboard after review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+    }
+  }
+}
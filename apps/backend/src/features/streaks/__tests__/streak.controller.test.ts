@@ -0,0 +1,170 @@
+import request from 'supertest';
+import express from 'express';
+import { StreakController } from '../streak.controller';
+import { StreakService } from '../streak.service';
+
+// Mock StreakService
+jest.mock('../streak.service');
+const MockedStreakService = StreakService as jest.Mocked<typeof StreakService>;
+
+// Mock LoggerService
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+// Mock middleware
+jest.mock('../../../core/middleware', () => ({
+  sendSuccess: jest.fn((res, data, message, status = 200) =>
+    res.status(status).json({ success: true, data, message })
+  ),
+  sendError: jest.fn((res, error, status = 500) =>
+    res.status(status).json({ success: false, error })
+  ),
+}));
+
+const app = express();
+app.use(express.json());
+
+// Simulate the authenticated user populated by the auth middleware
+app.use((req, res, next) => {
+  req.user = { id: '1', email: 'test@example.com', role: 'learner' };
+  next();
+});
+
+// Mount streak routes
+app.get('/streaks', StreakController.getSummary);
+app.get('/streaks/calendar', StreakController.getCalendar);
+app.post('/streaks/freezes', StreakController.purchaseFreeze);
+app.post('/streaks/repair', StreakController.repairStreak);
+app.put('/streaks/timezone', StreakController.updateTimezone);
+
+const mockSummary = {
+  current: 4,
+  best: 9,
+  freezes: 1,
+  maxFreezes: 2,
+  freezeCost: 50,
+  repairableStreak: null,
+  repairCost: 100,
+  timezone: 'Asia/Jakarta',
+  today: '2024-01-15',
+  lastActiveDate: '2024-01-14',
+};
+
+describe('StreakController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /streaks', () => {
+    it('should return the streak summary', async () => {
+      MockedStreakService.getSummary.mockResolvedValue(mockSummary);
+
+      const response = await request(app).get('/streaks').expect(200);
+
+      expect(MockedStreakService.getSummary).toHaveBeenCalledWith('1');
+      expect(response.body.data).toEqual(mockSummary);
+    });
+
+    it('should handle user not found', async () => {
+      MockedStreakService.getSummary.mockRejectedValue(new Error('User not found'));
+
+      await request(app).get('/streaks').expect(404);
+    });
+  });
+
+  describe('GET /streaks/calendar', () => {
+    it('should pass the requested range to the service', async () => {
+      MockedStreakService.getCalendar.mockResolvedValue({
+        timezone: 'UTC',
+        from: '2024-01-14',
+        to: '2024-01-15',
+        days: [
+          { date: '2024-01-14', status: 'active' },
+          { date: '2024-01-15', status: 'inactive' },
+        ],
+      });
+
+      const response = await request(app)
+        .get('/streaks/calendar?from=2024-01-14&to=2024-01-15')
+        .expect(200);
+
+      expect(MockedStreakService.getCalendar).toHaveBeenCalledWith('1', { from: '2024-01-14', to: '2024-01-15' });
+      expect(response.body.data.days).toHaveLength(2);
+    });
+
+    it('should reject malformed dates', async () => {
+      await request(app).get('/streaks/calendar?from=15-01-2024').expect(400);
+
+      expect(MockedStreakService.getCalendar).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid ranges', async () => {
+      MockedStreakService.getCalendar.mockRejectedValue(new Error('Invalid calendar range: from must not be after to'));
+
+      await request(app).get('/streaks/calendar?from=2024-01-15&to=2024-01-01').expect(400);
+    });
+  });
+
+  describe('POST /streaks/freezes', () => {
+    it('should buy a freeze', async () => {
+      MockedStreakService.purchaseFreeze.mockResolvedValue({ ...mockSummary, freezes: 2 });
+
+      const response = await request(app).post('/streaks/freezes').expect(200);
+
+      expect(response.body.data.freezes).toBe(2);
+    });
+
+    it.each([
+      ['Not enough XP: a streak freeze costs 50 XP'],
+      ['Streak freeze limit reached (2)'],
+    ])('should return 409 for "%s"', async (message) => {
+      MockedStreakService.purchaseFreeze.mockRejectedValue(new Error(message));
+
+      const response = await request(app).post('/streaks/freezes').expect(409);
+
+      expect(response.body.error).toBe(message);
+    });
+  });
+
+  describe('POST /streaks/repair', () => {
+    it('should repair the streak', async () => {
+      MockedStreakService.repairStreak.mockResolvedValue(mockSummary);
+
+      const response = await request(app).post('/streaks/repair').expect(200);
+
+      expect(MockedStreakService.repairStreak).toHaveBeenCalledWith('1');
+      expect(response.body.data.current).toBe(4);
+    });
+
+    it.each([
+      ['Not enough XP: a streak repair costs 100 XP'],
+      ['No lost streak to repair'],
+    ])('should return 409 for "%s"', async (message) => {
+      MockedStreakService.repairStreak.mockRejectedValue(new Error(message));
+
+      const response = await request(app).post('/streaks/repair').expect(409);
+
+      expect(response.body.error).toBe(message);
+    });
+  });
+
+  describe('PUT /streaks/timezone', () => {
+    it('should update the timezone', async () => {
+      MockedStreakService.updateTimezone.mockResolvedValue({ ...mockSummary, timezone: 'America/New_York' });
+
+      await request(app).put('/streaks/timezone').send({ timezone: 'America/New_York' }).expect(200);
+
+      expect(MockedStreakService.updateTimezone).toHaveBeenCalledWith('1', 'America/New_York');
+    });
+
+    it('should reject unknown timezones', async () => {
+      await request(app).put('/streaks/timezone').send({ timezone: 'Mars/Olympus' }).expect(400);
+
+      expect(MockedStreakService.updateTimezone).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * StreakService Unit Tests
+ * Tests for streak summaries, the streak calendar and streak freezes
+ */
+
+const mockUserRepository = {
+  findById: jest.fn(),
+  update: jest.fn(),
+};
+
+const mockStreakRepository = {
+  findDays: jest.fn(),
+  purchaseFreeze: jest.fn(),
+  repairStreak: jest.fn(),
+};
+
+jest.mock('../../../core/repositories/user.repository', () => ({
+  UserRepository: mockUserRepository,
+}));
+
+jest.mock('../../../core/repositories/streak.repository', () => ({
+  StreakRepository: mockStreakRepository,
+}));
+
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    logService: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+  },
+}));
+
+import { StreakService } from '../streak.service';
+
+describe('StreakService', () => {
+  const userId = 'user-1';
+  const mockUser = {
+    id: userId,
+    totalXp: 120,
+    currentStreak: 4,
+    bestStreak: 9,
+    lastActivityDate: new Date('2024-01-14T15:00:00Z'), // 22:00 in Jakarta
+    streakFreezes: 1,
+    timezone: 'Asia/Jakarta',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // 2024-01-15 07:00 in Jakarta
+    jest.useFakeTimers({ now: new Date('2024-01-15T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getSummary', () => {
+    it('should report the streak in the learner timezone', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      // Act
+      const result = await StreakService.getSummary(userId);
+
+      // Assert
+      expect(result).toEqual({
+        current: 4,
+        best: 9,
+        freezes: 1,
+        maxFreezes: 2,
+        freezeCost: 50,
+        repairableStreak: null,
+        repairCost: 100,
+        timezone: 'Asia/Jakarta',
+        today: '2024-01-15',
+        lastActiveDate: '2024-01-14',
+      });
+    });
+
+    it('should throw when the user does not exist', async () => {
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      await expect(StreakService.getSummary(userId)).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('getCalendar', () => {
+    it('should list every day in the range with recorded statuses', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockStreakRepository.findDays.mockResolvedValue([
+        { date: new Date('2024-01-12T00:00:00Z'), status: 'active' },
+        { date: new Date('2024-01-13T00:00:00Z'), status: 'frozen' },
+        { date: new Date('2024-01-14T00:00:00Z'), status: 'active' },
+      ]);
+
+      // Act
+      const result = await StreakService.getCalendar(userId, { from: '2024-01-11', to: '2024-01-15' });
+
+      // Assert
+      expect(mockStreakRepository.findDays).toHaveBeenCalledWith(userId, '2024-01-11', '2024-01-15');
+      expect(result).toEqual({
+        timezone: 'Asia/Jakarta',
+        from: '2024-01-11',
+        to: '2024-01-15',
+        days: [
+          { date: '2024-01-11', status: 'inactive' },
+          { date: '2024-01-12', status: 'active' },
+          { date: '2024-01-13', status: 'frozen' },
+          { date: '2024-01-14', status: 'active' },
+          { date: '2024-01-15', status: 'inactive' },
+        ],
+      });
+    });
+
+    it('should default to the 30 days ending today', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockStreakRepository.findDays.mockResolvedValue([]);
+
+      // Act
+      const result = await StreakService.getCalendar(userId, {});
+
+      // Assert
+      expect(result.from).toBe('2023-12-17');
+      expect(result.to).toBe('2024-01-15');
+      expect(result.days).toHaveLength(30);
+    });
+
+    it.each([
+      [{ from: '2024-01-10', to: '2024-01-01' }, 'Invalid calendar range'],
+      [{ from: '2022-01-01', to: '2024-01-01' }, 'Invalid calendar range'],
+      [{ from: '2024-02-30' }, 'Invalid calendar date'],
+    ])('should reject %p', async (query, message) => {
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      await expect(StreakService.getCalendar(userId, query)).rejects.toThrow(message);
+      expect(mockStreakRepository.findDays).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purchaseFreeze', () => {
+    it('should buy a freeze and return the new summary', async () => {
+      // Arrange
+      mockStreakRepository.purchaseFreeze.mockResolvedValue({ streakFreezes: 2, totalXp: 70 });
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, totalXp: 70, streakFreezes: 2 });
+
+      // Act
+      const result = await StreakService.purchaseFreeze(userId);
+
+      // Assert
+      expect(mockStreakRepository.purchaseFreeze).toHaveBeenCalledWith(userId);
+      expect(result.freezes).toBe(2);
+    });
+
+    it('should pass on purchase errors', async () => {
+      mockStreakRepository.purchaseFreeze.mockRejectedValue(new Error('Not enough XP: a streak freeze costs 50 XP'));
+
+      await expect(StreakService.purchaseFreeze(userId)).rejects.toThrow('Not enough XP');
+    });
+  });
+
+  describe('repairStreak', () => {
+    beforeEach(() => {
+      // 2024-01-17 07:00 in Jakarta: the 15th and 16th were missed, one freeze is held
+      jest.setSystemTime(new Date('2024-01-17T00:00:00Z'));
+    });
+
+    it('should offer to repair a recently lost streak', async () => {
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      const result = await StreakService.getSummary(userId);
+
+      expect(result).toEqual(expect.objectContaining({ current: 0, repairableStreak: 4 }));
+    });
+
+    it('should repair the missed days and continue from the last one', async () => {
+      // Arrange
+      mockUserRepository.findById
+        .mockResolvedValueOnce(mockUser)
+        .mockResolvedValueOnce({ ...mockUser, totalXp: 20, lastActivityDate: new Date('2024-01-16T12:00:00Z') });
+      mockStreakRepository.repairStreak.mockResolvedValue({ totalXp: 20 });
+
+      // Act
+      const result = await StreakService.repairStreak(userId);
+
+      // Assert
+      expect(mockStreakRepository.repairStreak).toHaveBeenCalledWith(userId, {
+        lastActivityDate: mockUser.lastActivityDate,
+        repairedDates: ['2024-01-15', '2024-01-16'],
+        repairedThrough: new Date('2024-01-16T12:00:00Z'),
+      });
+      expect(result).toEqual(expect.objectContaining({ current: 4, repairableStreak: null, lastActiveDate: '2024-01-16' }));
+    });
+
+    it('should refuse when there is no lost streak to repair', async () => {
+      // Arrange
+      jest.setSystemTime(new Date('2024-01-15T00:00:00Z'));
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+
+      // Act & Assert
+      await expect(StreakService.repairStreak(userId)).rejects.toThrow('No lost streak to repair');
+      expect(mockStreakRepository.repairStreak).not.toHaveBeenCalled();
+    });
+
+    it('should pass on repair errors', async () => {
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockStreakRepository.repairStreak.mockRejectedValue(new Error('Not enough XP: a streak repair costs 100 XP'));
+
+      await expect(StreakService.repairStreak(userId)).rejects.toThrow('Not enough XP');
+    });
+  });
+
+  describe('updateTimezone', () => {
+    it('should store the timezone and report days in it', async () => {
+      // Arrange
+      mockUserRepository.findById
+        .mockResolvedValueOnce(mockUser)
+        .mockResolvedValueOnce({ ...mockUser, timezone: 'America/New_York' });
+      mockUserRepository.update.mockResolvedValue({});
+
+      // Act
+      const result = await StreakService.updateTimezone(userId, 'America/New_York');
+
+      // Assert
+      expect(mockUserRepository.update).toHaveBeenCalledWith(userId, { timezone: 'America/New_York' });
+      expect(result.timezone).toBe('America/New_York');
+      expect(result.today).toBe('2024-01-14');
+    });
+  });
+});
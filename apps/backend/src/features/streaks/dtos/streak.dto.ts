@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../../../core/streaks';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StreakSummary:
+ *       type: object
+ *       required:
+ *         - current
+ *         - best
+ *         - freezes
+ *         - maxFreezes
+ *         - freezeCost
+ *         - repairableStreak
+ *         - repairCost
+ *         - timezone
+ *         - today
+ *         - lastActiveDate
+ *       properties:
+ *         current:
+ *           type: integer
+ *           minimum: 0
+ *           example: 7
+ *           description: Current streak (0 once a missed day can no longer be covered by freezes)
+ *         best:
+ *           type: integer
+ *           minimum: 0
+ *           example: 15
+ *           description: Longest streak ever achieved
+ *         freezes:
+ *           type: integer
+ *           minimum: 0
+ *           example: 1
+ *           description: Streak freezes held; each one covers a missed day automatically
+ *         maxFreezes:
+ *           type: integer
+ *           example: 2
+ *           description: Most freezes that can be held at once
+ *         freezeCost:
+ *           type: integer
+ *           example: 50
+ *           description: XP spent to buy one freeze
+ *         repairableStreak:
+ *           type: integer
+ *           nullable: true
+ *           example: null
+ *           description: Streak lost within the last 3 days that a repair would restore, or null
+ *         repairCost:
+ *           type: integer
+ *           example: 100
+ *           description: XP spent to repair a lost streak
+ *         timezone:
+ *           type: string
+ *           example: "Asia/Jakarta"
+ *           description: IANA timezone that decides where the learner's days start
+ *         today:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-08"
+ *           description: Current date in the learner's timezone
+ *         lastActiveDate:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           example: "2025-08-08"
+ *           description: Last active date in the learner's timezone
+ *
+ *     StreakCalendarDay:
+ *       type: object
+ *       required:
+ *         - date
+ *         - status
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-08"
+ *         status:
+ *           type: string
+ *           enum: [active, frozen, repaired, inactive]
+ *           description: |
+ *             active = learned that day, frozen = missed day covered by a freeze,
+ *             repaired = missed day restored with a streak repair
+ *
+ *     StreakCalendar:
+ *       type: object
+ *       required:
+ *         - timezone
+ *         - from
+ *         - to
+ *         - days
+ *       properties:
+ *         timezone:
+ *           type: string
+ *           example: "Asia/Jakarta"
+ *         from:
+ *           type: string
+ *           format: date
+ *           example: "2025-07-10"
+ *         to:
+ *           type: string
+ *           format: date
+ *           example: "2025-08-08"
+ *         days:
+ *           type: array
+ *           description: Every date in the range, oldest first
+ *           items:
+ *             $ref: '#/components/schemas/StreakCalendarDay'
+ *
+ *     UpdateTimezoneRequest:
+ *       type: object
+ *       required:
+ *         - timezone
+ *       properties:
+ *         timezone:
+ *           type: string
+ *           example: "America/New_York"
+ *           description: IANA timezone name
+ *
+ *     StreakSummaryResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/StreakSummary'
+ *
+ *     StreakCalendarResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/SuccessResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               $ref: '#/components/schemas/StreakCalendar'
+ */
+
+/**
+ * Streak DTOs and Interfaces
+ */
+
+export type StreakDayStatus = 'active' | 'frozen' | 'repaired' | 'inactive';
+
+// Streak Summary DTO
+export interface StreakSummaryDto {
+  current: number;
+  best: number;
+  freezes: number;
+  maxFreezes: number;
+  freezeCost: number;
+  repairableStreak: number | null;
+  repairCost: number;
+  timezone: string;
+  today: string;
+  lastActiveDate: string | null;
+}
+
+// Streak Calendar DTOs
+export interface StreakCalendarDayDto {
+  date: string;
+  status: StreakDayStatus;
+}
+
+export interface StreakCalendarDto {
+  timezone: string;
+  from: string;
+  to: string;
+  days: StreakCalendarDayDto[];
+}
+
+/**
+ * Validation Schemas
+ */
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date: use YYYY-MM-DD');
+
+// Calendar range; defaults to the 30 days ending today in the learner's timezone
+export const streakCalendarQuerySchema = z.object({
+  from: localDateSchema.optional(),
+  to: localDateSchema.optional(),
+});
+
+export const updateTimezoneSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, 'Invalid timezone'),
+});
+
+export type StreakCalendarQuery = z.infer<typeof streakCalendarQuerySchema>;
+export type UpdateTimezoneRequest = z.infer<typeof updateTimezoneSchema>;
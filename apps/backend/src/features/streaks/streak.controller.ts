@@ -0,0 +1,277 @@
+import { Request, Response } from 'express';
+import { StreakService } from './streak.service';
+import { streakCalendarQuerySchema, updateTimezoneSchema } from './dtos/streak.dto';
+import { LoggerService } from '../../core/logger/logger.service';
+import { sendSuccess, sendError } from '../../core/middleware';
+
+/**
+ * @swagger
+ * /api/streaks:
+ *   get:
+ *     summary: Get streak summary
+ *     description: Current and best streak, held streak freezes and the learner's timezone
+ *     tags: [Streaks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Streak summary retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreakSummaryResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/streaks/calendar:
+ *   get:
+ *     summary: Get streak calendar
+ *     description: |
+ *       One entry per day in the learner's timezone, marking days they learned and missed days covered by a freeze.
+ *       Defaults to the 30 days ending today; ranges may span at most 366 days.
+ *     tags: [Streaks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First date (YYYY-MM-DD)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last date (YYYY-MM-DD), defaults to today
+ *     responses:
+ *       200:
+ *         description: Streak calendar retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreakCalendarResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/streaks/freezes:
+ *   post:
+ *     summary: Buy a streak freeze
+ *     description: Spends XP on a streak freeze. Held freezes are used up automatically to cover missed days.
+ *     tags: [Streaks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Streak freeze purchased
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreakSummaryResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Not enough XP, or the freeze limit is reached
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/streaks/repair:
+ *   post:
+ *     summary: Repair a lost streak
+ *     description: |
+ *       Spends XP to restore a streak lost within the last 3 days. The missed days show as repaired
+ *       on the calendar, and learning today continues the streak.
+ *     tags: [Streaks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Streak repaired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreakSummaryResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Not enough XP, or no lost streak that can still be repaired
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *
+ * /api/streaks/timezone:
+ *   put:
+ *     summary: Set the learner's timezone
+ *     description: Days for streaks and the calendar start at midnight in this timezone
+ *     tags: [Streaks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTimezoneRequest'
+ *     responses:
+ *       200:
+ *         description: Timezone updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreakSummaryResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+
+/**
+ * Streak Controller
+ * Handles HTTP requests for streaks, the streak calendar, streak freezes and repairs
+ */
+export class StreakController {
+  /**
+   * GET /api/streaks
+   * Get the learner's streak summary
+   */
+  static async getSummary(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await StreakService.getSummary(req.user!.id);
+
+      sendSuccess(res, summary, 'Streak summary retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get streak summary', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to retrieve streak summary', 500);
+      }
+    }
+  }
+
+  /**
+   * GET /api/streaks/calendar
+   * Get the streak calendar for a date range
+   */
+  static async getCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const query = streakCalendarQuerySchema.parse(req.query);
+
+      const calendar = await StreakService.getCalendar(req.user!.id, query);
+
+      sendSuccess(res, calendar, 'Streak calendar retrieved successfully');
+    } catch (error) {
+      LoggerService.error('Failed to get streak calendar', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.message.includes('Invalid')) {
+        sendError(res, 'Invalid calendar range', 400);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to retrieve streak calendar', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/streaks/freezes
+   * Buy a streak freeze with XP
+   */
+  static async purchaseFreeze(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await StreakService.purchaseFreeze(req.user!.id);
+
+      sendSuccess(res, summary, 'Streak freeze purchased successfully');
+    } catch (error) {
+      LoggerService.error('Failed to purchase streak freeze', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && (error.message.includes('Not enough XP') || error.message.includes('limit reached'))) {
+        sendError(res, error.message, 409);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to purchase streak freeze', 500);
+      }
+    }
+  }
+
+  /**
+   * POST /api/streaks/repair
+   * Restore a recently lost streak with XP
+   */
+  static async repairStreak(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await StreakService.repairStreak(req.user!.id);
+
+      sendSuccess(res, summary, 'Streak repaired successfully');
+    } catch (error) {
+      LoggerService.error('Failed to repair streak', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && (error.message.includes('Not enough XP') || error.message.includes('No lost streak'))) {
+        sendError(res, error.message, 409);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to repair streak', 500);
+      }
+    }
+  }
+
+  /**
+   * PUT /api/streaks/timezone
+   * Set the timezone the learner's days are counted in
+   */
+  static async updateTimezone(req: Request, res: Response): Promise<void> {
+    try {
+      const { timezone } = updateTimezoneSchema.parse(req.body);
+
+      const summary = await StreakService.updateTimezone(req.user!.id, timezone);
+
+      sendSuccess(res, summary, 'Timezone updated successfully');
+    } catch (error) {
+      LoggerService.error('Failed to update timezone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      if (error instanceof Error && error.message.includes('Invalid timezone')) {
+        sendError(res, 'Invalid timezone', 400);
+      } else if (error instanceof Error && error.message.includes('not found')) {
+        sendError(res, 'User not found', 404);
+      } else {
+        sendError(res, 'Failed to update timezone', 500);
+      }
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { StreakController } from './streak.controller';
+import { asyncHandler } from '../../core/middleware';
+import { authenticate } from '../../core/auth';
+
+/**
+ * Streak Routes
+ * /api/streaks
+ */
+const router = Router();
+
+// All routes act on behalf of the authenticated user
+router.use(authenticate);
+
+// GET /api/streaks - Get streak summary
+router.get('/', asyncHandler(StreakController.getSummary));
+
+// GET /api/streaks/calendar - Get streak history calendar
+router.get('/calendar', asyncHandler(StreakController.getCalendar));
+
+// POST /api/streaks/freezes - Buy a streak freeze with XP
+router.post('/freezes', asyncHandler(StreakController.purchaseFreeze));
+
+// POST /api/streaks/repair - Restore a recently lost streak with XP
+router.post('/repair', asyncHandler(StreakController.repairStreak));
+
+// PUT /api/streaks/timezone - Set the learner's timezone
+router.put('/timezone', asyncHandler(StreakController.updateTimezone));
+
+export default router;
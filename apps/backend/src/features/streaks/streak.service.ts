@@ -0,0 +1,212 @@
+import { UserRepository } from '../../core/repositories/user.repository';
+import { StreakRepository } from '../../core/repositories/streak.repository';
+import { LoggerService } from '../../core/logger/logger.service';
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_COST,
+  STREAK_REPAIR_COST,
+  addDays,
+  currentStreakAt,
+  daysBetween,
+  fromDateValue,
+  instantOn,
+  localDate,
+  repairableDates,
+  toDateValue,
+} from '../../core/streaks';
+import {
+  StreakCalendarDto,
+  StreakCalendarQuery,
+  StreakSummaryDto,
+  StreakDayStatus,
+} from './dtos/streak.dto';
+
+// Days shown when no range is requested, and the longest range allowed
+const DEFAULT_CALENDAR_DAYS = 30;
+const MAX_CALENDAR_DAYS = 366;
+
+const STREAK_USER_SELECT = {
+  id: true,
+  totalXp: true,
+  currentStreak: true,
+  bestStreak: true,
+  lastActivityDate: true,
+  streakFreezes: true,
+  timezone: true,
+} as const;
+
+/**
+ * Streak Service
+ * Business logic for streak summaries, the streak calendar, streak freezes and streak repairs
+ */
+export class StreakService {
+  /**
+   * Get the learner's streak as it stands now
+   */
+  static async getSummary(userId: string): Promise<StreakSummaryDto> {
+    LoggerService.logService('StreakService', `getSummary(${userId})`, true);
+
+    try {
+      const user = await StreakService.findUser(userId);
+      const now = new Date();
+
+      return {
+        current: currentStreakAt(user, now),
+        best: user.bestStreak,
+        freezes: user.streakFreezes,
+        maxFreezes: MAX_STREAK_FREEZES,
+        freezeCost: STREAK_FREEZE_COST,
+        repairableStreak: repairableDates(user, now).length > 0 ? user.currentStreak : null,
+        repairCost: STREAK_REPAIR_COST,
+        timezone: user.timezone,
+        today: localDate(now, user.timezone),
+        lastActiveDate: user.lastActivityDate ? localDate(user.lastActivityDate, user.timezone) : null,
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get streak summary', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get one entry per day in the range, marking active and frozen days
+   */
+  static async getCalendar(userId: string, query: StreakCalendarQuery): Promise<StreakCalendarDto> {
+    LoggerService.logService('StreakService', `getCalendar(${userId})`, true);
+
+    try {
+      const user = await StreakService.findUser(userId);
+      const today = localDate(new Date(), user.timezone);
+      const to = query.to ?? today;
+      const from = query.from ?? addDays(to, -(DEFAULT_CALENDAR_DAYS - 1));
+
+      [from, to].forEach(date => {
+        if (Number.isNaN(toDateValue(date).getTime()) || fromDateValue(toDateValue(date)) !== date) {
+          throw new Error(`Invalid calendar date: ${date}`);
+        }
+      });
+
+      const span = daysBetween(from, to) + 1;
+      if (span < 1) {
+        throw new Error('Invalid calendar range: from must not be after to');
+      }
+      if (span > MAX_CALENDAR_DAYS) {
+        throw new Error(`Invalid calendar range: at most ${MAX_CALENDAR_DAYS} days`);
+      }
+
+      const recorded = await StreakRepository.findDays(userId, from, to);
+      const statusByDate = new Map<string, StreakDayStatus>(
+        recorded.map(day => [fromDateValue(day.date), day.status])
+      );
+
+      return {
+        timezone: user.timezone,
+        from,
+        to,
+        days: Array.from({ length: span }, (_, offset) => {
+          const date = addDays(from, offset);
+          return { date, status: statusByDate.get(date) ?? 'inactive' };
+        }),
+      };
+    } catch (error) {
+      LoggerService.error('Failed to get streak calendar', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Buy a streak freeze with XP
+   */
+  static async purchaseFreeze(userId: string): Promise<StreakSummaryDto> {
+    LoggerService.logService('StreakService', `purchaseFreeze(${userId})`, true);
+
+    try {
+      const result = await StreakRepository.purchaseFreeze(userId);
+
+      LoggerService.info('Streak freeze purchased', {
+        userId,
+        streakFreezes: result.streakFreezes,
+        totalXp: result.totalXp,
+      });
+
+      return await StreakService.getSummary(userId);
+    } catch (error) {
+      LoggerService.error('Failed to purchase streak freeze', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a streak lost within the last STREAK_REPAIR_WINDOW_DAYS days with XP
+   */
+  static async repairStreak(userId: string): Promise<StreakSummaryDto> {
+    LoggerService.logService('StreakService', `repairStreak(${userId})`, true);
+
+    try {
+      const user = await StreakService.findUser(userId);
+      const repairedDates = repairableDates(user, new Date());
+      if (!user.lastActivityDate || repairedDates.length === 0) {
+        throw new Error('No lost streak to repair');
+      }
+
+      const result = await StreakRepository.repairStreak(userId, {
+        lastActivityDate: user.lastActivityDate,
+        repairedDates,
+        repairedThrough: instantOn(repairedDates[repairedDates.length - 1], user.timezone),
+      });
+
+      LoggerService.info('Streak repaired', {
+        userId,
+        currentStreak: user.currentStreak,
+        repairedDays: repairedDates.length,
+        totalXp: result.totalXp,
+      });
+
+      return await StreakService.getSummary(userId);
+    } catch (error) {
+      LoggerService.error('Failed to repair streak', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the timezone the learner's days are counted in
+   */
+  static async updateTimezone(userId: string, timezone: string): Promise<StreakSummaryDto> {
+    LoggerService.logService('StreakService', `updateTimezone(${userId})`, true);
+
+    try {
+      await StreakService.findUser(userId);
+      await UserRepository.update(userId, { timezone });
+
+      return await StreakService.getSummary(userId);
+    } catch (error) {
+      LoggerService.error('Failed to update timezone', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        timezone,
+      });
+      throw error;
+    }
+  }
+
+  private static async findUser(userId: string) {
+    const user = await UserRepository.findById(userId, { select: STREAK_USER_SELECT });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
@@ -2,6 +2,7 @@ import request from 'supertest';
 import express from 'express';
 import { UserController } from '../user.controller';
 import { UserService } from '../user.service';
+import { TokenService } from '../../../core/auth/token.service';
 
 // Mock UserService
 const mockUserService = {
@@ -36,6 +37,16 @@ jest.mock('../../../core/validation/validation.middleware', () => ({
   },
 }));
 
+// Mock LoggerService
+jest.mock('../../../core/logger/logger.service', () => ({
+  LoggerService: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
 // Mock async handler
 jest.mock('../../../core/middleware', () => ({
   asyncHandler: (fn: any) => fn,
@@ -57,10 +68,79 @@ app.use('/users', userController.router);
 app.use('/users', userController.router);
 
 describe('UserController', () => {
+  let adminToken: string;
+  let teacherToken: string;
+  let learnerToken: string;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    adminToken = TokenService.signAccessToken({ id: 'admin-1', email: 'admin@example.com', role: 'admin' });
+    teacherToken = TokenService.signAccessToken({ id: 'teacher-1', email: 'teacher@example.com', role: 'teacher' });
+    learnerToken = TokenService.signAccessToken({ id: 'learner-1', email: 'learner@example.com', role: 'learner' });
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
+  describe('access control', () => {
+    it('should return 401 without an access token', async () => {
+      await request(app)
+        .get('/users')
+        .expect(401);
+
+      expect(mockUserService.getAllUsers).not.toHaveBeenCalled();
+    });
+
+    it('should forbid learners from listing users', async () => {
+      const response = await request(app)
+        .get('/users')
+        .set('Authorization', `Bearer ${learnerToken}`)
+        .expect(403);
+
+      expect(mockUserService.getAllUsers).not.toHaveBeenCalled();
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Insufficient permissions');
+    });
+
+    it('should forbid learners from reading another user', async () => {
+      await request(app)
+        .get('/users/1')
+        .set('Authorization', `Bearer ${learnerToken}`)
+        .expect(403);
+
+      expect(mockUserService.getUserById).not.toHaveBeenCalled();
+    });
+
+    it('should forbid teachers from creating or updating users', async () => {
+      await request(app)
+        .post('/users')
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .send({ email: 'newuser@example.com' })
+        .expect(403);
+
+      await request(app)
+        .put('/users/1')
+        .set('Authorization', `Bearer ${teacherToken}`)
+        .send({ role: 'admin' })
+        .expect(403);
+
+      expect(mockUserService.createUser).not.toHaveBeenCalled();
+      expect(mockUserService.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should forbid non-admins from deleting users', async () => {
+      for (const token of [learnerToken, teacherToken]) {
+        await request(app)
+          .delete('/users/1')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(403);
+      }
+
+      expect(mockUserService.deleteUser).not.toHaveBeenCalled();
+    });
+  });
+
   describe('GET /users', () => {
     it('should return paginated users', async () => {
       const mockResult = {
@@ -76,6 +156,7 @@ describe('UserController', () => {
             bio: null,
             isActive: true,
             isVerified: true,
+            role: 'learner' as const,
             createdAt: '2023-01-01T00:00:00Z',
             updatedAt: '2023-01-01T00:00:00Z',
             lastLoginAt: null,
@@ -91,6 +172,7 @@ describe('UserController', () => {
             bio: null,
             isActive: true,
             isVerified: true,
+            role: 'learner' as const,
             createdAt: '2023-01-01T00:00:00Z',
             updatedAt: '2023-01-01T00:00:00Z',
             lastLoginAt: null,
@@ -110,6 +192,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .get('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
         .query({ page: 1, limit: 10 })
         .expect(200);
 
@@ -154,6 +237,7 @@ describe('UserController', () => {
             bio: null,
             isActive: true,
             isVerified: true,
+            role: 'learner' as const,
             createdAt: '2023-12-01T00:00:00Z',
             updatedAt: '2023-12-01T00:00:00Z',
             lastLoginAt: null,
@@ -165,6 +249,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .get('/users/stats')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(mockUserService.getUserStats).toHaveBeenCalled();
@@ -186,6 +271,7 @@ describe('UserController', () => {
         bio: null,
         isActive: true,
         isVerified: true,
+        role: 'learner' as const,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T00:00:00.000Z',
         lastLoginAt: null,
@@ -195,6 +281,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .get('/users/1')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(mockUserService.getUserById).toHaveBeenCalledWith('1');
@@ -207,6 +294,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .get('/users/nonexistent')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
 
       expect(mockUserService.getUserById).toHaveBeenCalledWith('nonexistent');
@@ -234,6 +322,7 @@ describe('UserController', () => {
         bio: null,
         isActive: true,
         isVerified: false,
+        role: 'learner' as const,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T00:00:00.000Z',
         lastLoginAt: null,
@@ -243,6 +332,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .post('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
         .send(newUser)
         .expect(201);
 
@@ -290,6 +380,7 @@ describe('UserController', () => {
         bio: null,
         isActive: true,
         isVerified: true,
+        role: 'learner' as const,
         createdAt: '2024-01-01T00:00:00.000Z',
         updatedAt: '2024-01-01T00:00:00.000Z',
         lastLoginAt: null,
@@ -299,6 +390,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .put('/users/1')
+        .set('Authorization', `Bearer ${adminToken}`)
         .send(updateData)
         .expect(200);
 
@@ -315,6 +407,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .put('/users/nonexistent')
+        .set('Authorization', `Bearer ${adminToken}`)
         .send(updateData)
         .expect(404);
 
@@ -330,6 +423,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .delete('/users/1')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(mockUserService.deleteUser).toHaveBeenCalledWith('1');
@@ -343,6 +437,7 @@ describe('UserController', () => {
 
       const response = await request(app)
         .delete('/users/nonexistent')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
 
       expect(mockUserService.deleteUser).toHaveBeenCalledWith('nonexistent');
@@ -69,6 +69,10 @@ describe('UserService', () => {
           currentStreak: 0,
           bestStreak: 0,
           lastActivityDate: null,
+          timezone: 'UTC',
+          streakFreezes: 0,
+          league: 'bronze' as const,
+          role: 'learner' as const,
           password: null,
           isActive: true,
           isVerified: true,
@@ -88,6 +92,10 @@ describe('UserService', () => {
           currentStreak: 0,
           bestStreak: 0,
           lastActivityDate: null,
+          timezone: 'UTC',
+          streakFreezes: 0,
+          league: 'bronze' as const,
+          role: 'learner' as const,
           password: null,
           isActive: true,
           isVerified: false,
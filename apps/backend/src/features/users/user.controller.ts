@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { BaseController } from '../../core/base';
 import { asyncHandler, sendSuccess, sendError } from '../../core/middleware';
+import { authenticate, requirePermission } from '../../core/auth';
 import { validateBody, validateQuery, validateParams } from '../../core/validation/validation.middleware';
 import { UserService } from './user.service';
 import { 
@@ -21,25 +22,35 @@ export class UserController extends BaseController {
   }
 
   initializeRoutes(): void {
+    this.router.use(authenticate);
+
     this.router.get('/', 
+      requirePermission('users:read'),
       validateQuery(UserQuerySchema),
       asyncHandler(this.getAllUsers.bind(this))
     );
-    this.router.get('/stats', asyncHandler(this.getUserStats.bind(this)));
+    this.router.get('/stats', 
+      requirePermission('users:read'),
+      asyncHandler(this.getUserStats.bind(this))
+    );
     this.router.get('/:id', 
+      requirePermission('users:read'),
       validateParams(UserParamsSchema),
       asyncHandler(this.getUserById.bind(this))
     );
     this.router.post('/', 
+      requirePermission('users:write'),
       validateBody(CreateUserSchema),
       asyncHandler(this.createUser.bind(this))
     );
     this.router.put('/:id', 
+      requirePermission('users:write'),
       validateParams(UserParamsSchema),
       validateBody(UpdateUserSchema),
       asyncHandler(this.updateUser.bind(this))
     );
     this.router.delete('/:id', 
+      requirePermission('users:delete'),
       validateParams(UserParamsSchema),
       asyncHandler(this.deleteUser.bind(this))
     );
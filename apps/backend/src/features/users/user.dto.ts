@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Role } from '@prisma/client';
 import { createApiResponse, createPaginatedResponse } from '../../core/validation/validation.schemas';
 import { CommonSchemas } from '../../core/validation/validation.schemas';
 
@@ -16,6 +17,7 @@ export const UserSchema = z.object({
   bio: z.string().nullable(),
   isVerified: z.boolean(),
   isActive: z.boolean(),
+  role: z.nativeEnum(Role),
   googleId: z.string().nullable(),
   githubId: z.string().nullable(),
   lastLoginAt: z.string().datetime().nullable(),
@@ -85,6 +87,7 @@ export const UpdateUserSchema = z.object({
   avatar: z.string().url('Invalid avatar URL').optional(),
   bio: z.string().max(500, 'Bio must be less than 500 characters').optional(),
   isActive: z.boolean().optional(),
+  role: z.nativeEnum(Role).optional(),
 }).refine(data => Object.keys(data).length > 0, {
   message: "At least one field must be provided for update",
 });
@@ -98,6 +101,7 @@ export const UserQuerySchema = z.object({
   search: z.string().optional(),
   isActive: z.string().transform(val => val === 'true').pipe(z.boolean()).optional(),
   isVerified: z.string().transform(val => val === 'true').pipe(z.boolean()).optional(),
+  role: z.nativeEnum(Role).optional(),
   sortBy: z.enum(['createdAt', 'updatedAt', 'email', 'username', 'displayName']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
@@ -27,6 +27,7 @@ function transformUserToPublicDto(user: any): PublicUserDto {
     bio: user.bio,
     isVerified: user.isVerified,
     isActive: user.isActive,
+    role: user.role,
     lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
     createdAt: user.createdAt.toISOString(),
     updatedAt: user.updatedAt.toISOString(),
@@ -60,6 +61,7 @@ export class UserService extends BaseService {
       const filters = {
         isActive: query.isActive,
         isVerified: query.isVerified,
+        role: query.role,
         search: query.search,
       };
 
@@ -83,6 +85,7 @@ export class UserService extends BaseService {
           lastActivityDate: true,
           isVerified: true,
           isActive: true,
+          role: true,
           lastLoginAt: true,
           createdAt: true,
           updatedAt: true,
@@ -125,6 +128,7 @@ export class UserService extends BaseService {
           lastActivityDate: true,
           isVerified: true,
           isActive: true,
+          role: true,
           lastLoginAt: true,
           createdAt: true,
           updatedAt: true,
@@ -205,6 +209,7 @@ export class UserService extends BaseService {
           lastActivityDate: true,
           isVerified: true,
           isActive: true,
+          role: true,
           lastLoginAt: true,
           createdAt: true,
           updatedAt: true,
@@ -266,6 +271,7 @@ export class UserService extends BaseService {
           lastActivityDate: true,
           isVerified: true,
           isActive: true,
+          role: true,
           lastLoginAt: true,
           createdAt: true,
           updatedAt: true,
@@ -403,6 +409,7 @@ export class UserService extends BaseService {
             lastActivityDate: true,
             isVerified: true,
             isActive: true,
+            role: true,
             lastLoginAt: true,
             createdAt: true,
             updatedAt: true,
@@ -27,6 +27,11 @@
  *           format: email
  *           example: "john@example.com"
  *           description: User's email address
+ *         role:
+ *           type: string
+ *           enum: [learner, teacher, admin]
+ *           example: "learner"
+ *           description: Role deciding which permissions the user holds
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -70,6 +75,11 @@
  *           format: email
  *           example: "john@example.com"
  *           description: User's email address
+ *         role:
+ *           type: string
+ *           enum: [learner, teacher, admin]
+ *           example: "teacher"
+ *           description: New role; takes effect when the user's access token is next refreshed
  *       description: At least one field must be provided
  *
  *     UserResponse:
@@ -98,8 +108,10 @@
  * /api/users:
  *   get:
  *     summary: Get all users
- *     description: Retrieve a paginated list of users with optional search and sorting
+ *     description: Retrieve a paginated list of users with optional search and sorting. Requires the users:read permission (admin)
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: page
@@ -122,6 +134,12 @@
  *           type: string
  *         description: Search term to filter users by name or email
  *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [learner, teacher, admin]
+ *         description: Only list users with this role
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -144,13 +162,19 @@
  *               $ref: '#/components/schemas/UsersListResponse'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
  *   post:
  *     summary: Create a new user
- *     description: Create a new user with the provided information
+ *     description: Create a new user with the provided information. Requires the users:write permission (admin)
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -169,14 +193,20 @@
  *               $ref: '#/components/schemas/UserResponse'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
  * /api/users/{id}:
  *   get:
  *     summary: Get user by ID
- *     description: Retrieve a specific user by their ID
+ *     description: Retrieve a specific user by their ID. Requires the users:read permission (admin)
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -197,13 +227,19 @@
  *         $ref: '#/components/responses/BadRequest'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
  *   put:
  *     summary: Update user by ID
- *     description: Update a specific user's information
+ *     description: Update a specific user's information, including their role. Requires the users:write permission (admin)
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -233,13 +269,19 @@
  *         $ref: '#/components/responses/BadRequest'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  *
  *   delete:
  *     summary: Delete user by ID
- *     description: Delete a specific user
+ *     description: Delete a specific user. Requires the users:delete permission (admin)
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -260,6 +302,10 @@
  *         $ref: '#/components/responses/BadRequest'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
@@ -1,11 +1,12 @@
 import { AppRouter } from '@/core/router/AppRouter';
 import { QueryProvider } from '@/core/query';
+import { AuthProvider } from '@/features/auth';
 import { UpdatePrompt, InstallPrompt } from '@/core/pwa';
 import { SplashScreen, useSplashScreen } from '@/core/pwa/SplashScreen';
 
 /**
  * Main App Component
- * Entry point that sets up React Query provider, PWA functionality, and routing
+ * Entry point that sets up React Query provider, auth session, PWA functionality, and routing
  */
 function App() {
   const { isVisible, isComplete, onComplete } = useSplashScreen({
@@ -26,11 +27,11 @@ function App() {
       
       {/* Main App - only render when splash is complete */}
       {isComplete && (
-        <>
+        <AuthProvider>
           <AppRouter />
           <UpdatePrompt />
           <InstallPrompt />
-        </>
+        </AuthProvider>
       )}
     </QueryProvider>
   );
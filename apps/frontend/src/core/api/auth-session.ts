@@ -0,0 +1,102 @@
+import { Environment } from '@/core/config/environment';
+
+/**
+ * Auth Session
+ * Token storage and access-token refresh shared by the OpenAPI and legacy clients
+ */
+
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+/**
+ * Event dispatched on window when the session can no longer be refreshed
+ */
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Token storage backed by localStorage
+ */
+export const tokenStorage = {
+  getAccessToken: (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  setTokens: ({ accessToken, refreshToken }: SessionTokens): void => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+
+  hasSession: (): boolean => localStorage.getItem(REFRESH_TOKEN_KEY) !== null,
+};
+
+// In-flight refresh shared by concurrent 401s so the refresh token is rotated once
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair
+ * Resolves to the new access token, or null when the session has ended
+ * Uses plain fetch so it never passes through the clients' 401 handling
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  refreshPromise = (async () => {
+    const refreshToken = tokenStorage.getRefreshToken();
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${Environment.apiUrl}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        endSession();
+        return null;
+      }
+
+      const body = await response.json();
+      const tokens = body?.data as SessionTokens | undefined;
+      if (!tokens?.accessToken || !tokens?.refreshToken) {
+        endSession();
+        return null;
+      }
+
+      tokenStorage.setTokens(tokens);
+      return tokens.accessToken;
+    } catch (error) {
+      // Network failure - keep the tokens so the next request can try again
+      if (Environment.debugMode) {
+        console.error('❌ Token refresh failed:', error);
+      }
+      return null;
+    }
+  })().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+}
+
+/**
+ * Drop stored tokens and notify listeners (AuthProvider) that the user must log in again
+ */
+export function endSession(): void {
+  tokenStorage.clear();
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+}
@@ -1,6 +1,7 @@
 import createClient, { type Middleware } from "openapi-fetch";
 import type { paths } from "./schema";
 import { Environment } from "@/core/config/environment";
+import { tokenStorage, refreshAccessToken } from "./auth-session";
 
 /**
  * Create OpenAPI client with base configuration
@@ -12,17 +13,43 @@ export const apiClient = createClient<paths>({
   },
 });
 
+// Untouched copies of outgoing requests, so a 401 can be replayed after a token refresh
+const pendingRequests = new Map<string, Request>();
+
 /**
  * Auth middleware to add JWT token to requests
+ * On 401 it refreshes the access token once and replays the request
  */
 const authMiddleware: Middleware = {
-  onRequest({ request }) {
-    const token = localStorage.getItem("authToken");
+  onRequest({ request, id, schemaPath }) {
+    const token = tokenStorage.getAccessToken();
     if (token) {
       request.headers.set("Authorization", `Bearer ${token}`);
     }
+    if (!schemaPath.startsWith("/api/auth/")) {
+      pendingRequests.set(id, request.clone());
+    }
     return request;
   },
+  async onResponse({ response, id }) {
+    const original = pendingRequests.get(id);
+    pendingRequests.delete(id);
+
+    if (response.status !== 401 || !original) {
+      return response;
+    }
+
+    const accessToken = await refreshAccessToken();
+    if (!accessToken) {
+      return response;
+    }
+
+    original.headers.set("Authorization", `Bearer ${accessToken}`);
+    return fetch(original);
+  },
+  onError({ id }) {
+    pendingRequests.delete(id);
+  },
 };
 
 /**
@@ -48,12 +75,6 @@ const loggingMiddleware: Middleware = {
  */
 const errorMiddleware: Middleware = {
   onResponse({ response }) {
-    // Handle 401 errors
-    if (response.status === 401) {
-      localStorage.removeItem("authToken");
-      // Could dispatch logout action here if using state management
-    }
-
     // Log server errors in development
     if (response.status >= 500 && Environment.debugMode) {
       console.error("Server error occurred");
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { Environment } from '@/core/config/environment';
+import { tokenStorage, refreshAccessToken } from './auth-session';
 
 /**
  * Base API Configuration
@@ -19,7 +20,7 @@ export const apiClient = axios.create({
 apiClient.interceptors.request.use(
   (config) => {
     // Add auth token if available
-    const token = localStorage.getItem('authToken');
+    const token = tokenStorage.getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -49,17 +50,21 @@ apiClient.interceptors.response.use(
 
     return response;
   },
-  (error) => {
+  async (error) => {
     // Log error in development
     if (Environment.debugMode) {
       console.error('❌ API Response Error:', error.response?.data || error.message);
     }
 
-    // Handle common error scenarios
-    if (error.response?.status === 401) {
-      // Unauthorized - redirect to login or clear auth
-      localStorage.removeItem('authToken');
-      // Could dispatch logout action here if using state management
+    // Unauthorized - refresh the access token once and replay the request
+    const originalRequest = error.config;
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+      originalRequest._retry = true;
+      const accessToken = await refreshAccessToken();
+      if (accessToken) {
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return apiClient(originalRequest);
+      }
     }
 
     if (error.response?.status >= 500) {
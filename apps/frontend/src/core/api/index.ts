@@ -5,7 +5,8 @@
 
 // OpenAPI-based client and services (new implementation)
 export { default as apiClient, extractData, getErrorMessage } from './client-openapi';
-export { lessonService, profileService, healthService, apiUtils } from './services-openapi';
+export { lessonService, profileService, healthService, authService, leaderboardService, reviewService, apiUtils } from './services-openapi';
+export { tokenStorage, refreshAccessToken, SESSION_EXPIRED_EVENT } from './auth-session';
 
 // Legacy client (keeping for backward compatibility during migration)
 export { apiClient as legacyApiClient, API_ENDPOINTS } from './client';
@@ -17,11 +18,27 @@ export type {
   LessonWithProblems,
   Problem,
   ProblemOption,
+  AnswerPayload,
   SubmitLessonRequest,
   SubmitLessonResponse,
+  HintReveal,
+  CheckedAnswer,
+  Achievement,
+  AttemptDraft,
+  SaveAttemptRequest,
   UserProfile,
   UserStats,
+  SkillMastery,
   HealthStatus,
+  Leaderboard,
+  LeaderboardStanding,
+  ReviewQueue,
+  ReviewItem,
+  SubmitReviewRequest,
+  ReviewResult,
+  LoginRequest,
+  AuthUser,
+  AuthTokens,
 } from './services-openapi';
 
 // Legacy types (keeping for backward compatibility)
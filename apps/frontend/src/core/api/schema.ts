@@ -4,6 +4,1747 @@
  */
 
 export interface paths {
+    "/api/auth/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Log in
+         * @description Authenticate with email and password and receive an access/refresh token pair
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["LoginRequest"];
+                };
+            };
+            responses: {
+                /** @description Logged in successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthTokensResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Refresh access token
+         * @description Exchange a refresh token for a new token pair. The presented refresh token is revoked.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["RefreshTokenRequest"];
+                };
+            };
+            responses: {
+                /** @description Token refreshed successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthTokensResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Log out
+         * @description Revoke a refresh token so it can no longer be used
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["RefreshTokenRequest"];
+                };
+            };
+            responses: {
+                /** @description Logged out successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SuccessResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/me": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get current user
+         * @description Return the user identified by the access token
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Current user retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthUserResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List lessons for authoring
+         * @description Admin. Every lesson in curriculum order, drafts and inactive lessons included.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lessons retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonListResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create a draft lesson
+         * @description Admin. The lesson is added at the end of the curriculum and stays hidden from learners until published.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CreateLessonRequest"];
+                };
+            };
+            responses: {
+                /** @description Lesson created successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/order": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Reorder the curriculum
+         * @description Admin. Lists every lesson in its new order.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["ReorderLessonsRequest"];
+                };
+            };
+            responses: {
+                /** @description Lessons reordered successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonListResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get a lesson with its answer keys
+         * @description Admin. The lesson with every problem, option and correct answer.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        /**
+         * Delete a lesson
+         * @description Admin. Only lessons no learner has attempted can be deleted; deactivate the others.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson deleted successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The lesson has learner history */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        /**
+         * Update a lesson
+         * @description Admin. skillIds and prerequisiteIds replace the current lists; a prerequisite cycle is rejected.
+         */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateLessonRequest"];
+                };
+            };
+            responses: {
+                /** @description Lesson updated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The prerequisites would form a cycle */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/publish": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Publish a lesson
+         * @description Admin. Makes the lesson visible to learners once it has problems and every problem can be graded.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson published successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The lesson is not ready to publish (the error lists why) */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/unpublish": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Unpublish a lesson
+         * @description Admin. Moves the lesson back to draft, hiding it from learners.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson unpublished successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/problems": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Add a problem
+         * @description Admin. Adds the problem at the end of the lesson. The problem must be gradable as written:
+         *     a multiple choice problem needs exactly one correct option, and its text must equal correctAnswer.
+         *
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CreateProblemRequest"];
+                };
+            };
+            responses: {
+                /** @description Problem created successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringProblemResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/problems/order": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Reorder a lesson's problems
+         * @description Admin. Lists every problem of the lesson in its new order.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["ReorderProblemsRequest"];
+                };
+            };
+            responses: {
+                /** @description Problems reordered successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringLessonResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/problems/{problemId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Delete a problem
+         * @description Admin. Only problems no learner has answered can be deleted.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                    problemId: components["parameters"]["AuthoringProblemId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Problem deleted successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The problem has learner answers */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        /**
+         * Update a problem
+         * @description Admin. options, when given, replace every current option. The result must stay gradable.
+         */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                    problemId: components["parameters"]["AuthoringProblemId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateProblemRequest"];
+                };
+            };
+            responses: {
+                /** @description Problem updated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringProblemResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/problems/{problemId}/options": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Add an option to a problem
+         * @description Admin. The problem must stay gradable with the new option.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                    problemId: components["parameters"]["AuthoringProblemId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["ProblemOptionInput"];
+                };
+            };
+            responses: {
+                /** @description Option created successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringProblemResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/lessons/{lessonId}/problems/{problemId}/options/{optionId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Delete an option
+         * @description Admin. The problem must stay gradable without the option.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                    problemId: components["parameters"]["AuthoringProblemId"];
+                    optionId: components["parameters"]["AuthoringOptionId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Option deleted successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringProblemResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        /**
+         * Update an option
+         * @description Admin. The problem must stay gradable; to move the correct answer, update the problem's options at once.
+         */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    lessonId: components["parameters"]["AuthoringLessonId"];
+                    problemId: components["parameters"]["AuthoringProblemId"];
+                    optionId: components["parameters"]["AuthoringOptionId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateProblemOptionRequest"];
+                };
+            };
+            responses: {
+                /** @description Option updated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthoringProblemResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        trace?: never;
+    };
+    "/api/classrooms": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List my classrooms
+         * @description Classrooms the user teaches or has joined, newest first.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Classrooms retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomListResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create a classroom
+         * @description Teacher or admin. The requesting user becomes the classroom's teacher and gets a join code for students.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CreateClassroomRequest"];
+                };
+            };
+            responses: {
+                /** @description Classroom created successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/join": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Join a classroom
+         * @description Enrolls the user in the classroom with this join code. Joining again changes nothing.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["JoinClassroomRequest"];
+                };
+            };
+            responses: {
+                /** @description Joined classroom successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                /** @description No classroom has this join code */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description The user teaches this classroom */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get a classroom
+         * @description The classroom with its assignments. Students also get their own progress on each
+         *     assignment. Users outside the classroom receive 404.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Classroom retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomDetailResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        /**
+         * Delete a classroom
+         * @description Teacher of the classroom or admin. Removes memberships and assignments; students keep their lesson progress.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Classroom deleted successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        /**
+         * Update a classroom
+         * @description Teacher of the classroom or admin.
+         */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateClassroomRequest"];
+                };
+            };
+            responses: {
+                /** @description Classroom updated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/join-code": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Regenerate the join code
+         * @description Teacher of the classroom or admin. The old code stops working; current students stay enrolled.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Join code regenerated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/members": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List students
+         * @description Teacher of the classroom or admin. Students in the order they joined.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Students retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomMemberListResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/members/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Remove a student
+         * @description The teacher (or an admin) removes a student, or a student leaves by passing their own ID.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                    userId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Student removed successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/assignments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Assign a lesson
+         * @description Teacher of the classroom or admin. Assigns a published lesson, optionally with a due date.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CreateAssignmentRequest"];
+                };
+            };
+            responses: {
+                /** @description Lesson assigned successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomAssignmentResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The lesson is already assigned to this classroom */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/assignments/{assignmentId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Remove an assignment
+         * @description Teacher of the classroom or admin. Students keep their lesson progress.
+         */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                    assignmentId: components["parameters"]["ClassroomAssignmentId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Assignment removed successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        options?: never;
+        head?: never;
+        /**
+         * Change an assignment's due date
+         * @description Teacher of the classroom or admin. A null due date removes it.
+         */
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                    assignmentId: components["parameters"]["ClassroomAssignmentId"];
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateAssignmentRequest"];
+                };
+            };
+            responses: {
+                /** @description Assignment updated successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomAssignmentResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        trace?: never;
+    };
+    "/api/classrooms/{classroomId}/dashboard": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get the teacher dashboard
+         * @description Teacher of the classroom or admin. For every student, their progress on each assignment
+         *     (from their lesson progress) and their latest submissions on assigned lessons; for every
+         *     assignment, how many students completed it or are overdue.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    classroomId: components["parameters"]["ClassroomId"];
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Dashboard retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ClassroomDashboardResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/experiments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List recommendation experiments
+         * @description Admin. Every A/B experiment with its variants, newest first.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Experiments retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ExperimentListResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        /**
+         * Create a recommendation experiment
+         * @description Admin. Creates a draft experiment. Each variant serves a recommendation strategy to a
+         *     share of learners proportional to its weight; learners are bucketed by hashing the
+         *     experiment key with their user ID, so assignments are stable.
+         *
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["CreateExperimentRequest"];
+                };
+            };
+            responses: {
+                /** @description Experiment created successfully */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ExperimentResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                /** @description An experiment with this key already exists */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/experiments/{key}/start": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Start a draft experiment
+         * @description Admin. Only one experiment runs at a time.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    key: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Experiment started successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ExperimentResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description Not a draft, or another experiment is running */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/experiments/{key}/stop": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Stop a running experiment
+         * @description Admin. Learners go back to the default strategy; results stay available.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    key: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Experiment stopped successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ExperimentResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                /** @description The experiment is not running */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/experiments/{key}/report": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get conversion per variant
+         * @description Admin. For each variant, the lessons recommended to its learners and how many of them
+         *     the learners went on to start (open for an attempt) and complete.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    key: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Experiment report retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ExperimentReportResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/gradebook/export": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Export a gradebook
+         * @description Teacher or admin. One row per student and lesson they have progress on: best and last
+         *     score, attempts, XP earned, completion and dates. Students come from `classroomId`, from
+         *     `userIds`, or from `userIds` within `classroomId`. Teachers can only export students of
+         *     classrooms they teach; anyone else receives 404.
+         *
+         *     The file is streamed as it is written. Numbers, dates and yes/no follow `language`:
+         *     Indonesian CSV uses `;` between fields and `,` as the decimal separator. Dates are
+         *     calendar days in `timezone`.
+         *
+         */
+        get: {
+            parameters: {
+                query?: {
+                    format?: "csv" | "xlsx";
+                    /** @description Language of headers, numbers, dates and yes/no */
+                    language?: "en" | "id";
+                    /** @description IANA timezone dates are shown in */
+                    timezone?: string;
+                    /** @description Export the classroom's students */
+                    classroomId?: string;
+                    /**
+                     * @description Comma-separated user IDs (at most 1000)
+                     * @example 1,2,3
+                     */
+                    userIds?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Gradebook file */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/csv": string;
+                        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": string;
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/leaderboards": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get this week's leaderboard
+         * @description The learner's league and weekly cohort (~30 learners) ranked by XP earned this week.
+         *     Learners join a cohort with their first submission of the week. When the week ends
+         *     (Monday 00:00 UTC) the top 5 move up a league and the bottom 5 move down.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Leaderboard retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["LeaderboardResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
     "/api/lessons": {
         parameters: {
             query?: never;
@@ -12,17 +1753,733 @@ export interface paths {
             cookie?: never;
         };
         /**
-         * Get all lessons
-         * @description Retrieve all math lessons with user progress and completion status
+         * Get all lessons
+         * @description Retrieve all math lessons with user progress and completion status
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lessons retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Lessons retrieved successfully",
+                         *       "data": [
+                         *         {
+                         *           "id": "lesson-1",
+                         *           "title": "Basic Arithmetic",
+                         *           "description": "Learn addition and subtraction",
+                         *           "order": 1,
+                         *           "xpReward": 10,
+                         *           "isActive": true,
+                         *           "progress": {
+                         *             "isCompleted": false,
+                         *             "score": 0,
+                         *             "bestScore": 0,
+                         *             "attemptsCount": 0
+                         *           }
+                         *         }
+                         *       ],
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["LessonListResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get lesson statistics
+         * @description Retrieve overall lesson statistics and metrics
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson statistics retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Lesson statistics retrieved successfully",
+                         *       "data": {
+                         *         "totalLessons": 3,
+                         *         "activeLessons": 3,
+                         *         "averageCompletion": 65.5
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["SuccessResponse"] & {
+                            data?: {
+                                /** @example 3 */
+                                totalLessons?: number;
+                                /** @example 3 */
+                                activeLessons?: number;
+                                /** @example 65.5 */
+                                averageCompletion?: number;
+                            };
+                        };
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get lesson by ID
+         * @description Retrieve a specific lesson with all its problems (frontend-safe, excludes correct answers).
+         *     Templated problems are instantiated with values seeded from attemptId; submit with the same attemptId.
+         *
+         */
+        get: {
+            parameters: {
+                query?: {
+                    /**
+                     * @description Attempt the lesson is opened for; templated problems get fresh values per attempt
+                     * @example attempt-123-456
+                     */
+                    attemptId?: string;
+                };
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Lesson retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Lesson retrieved successfully",
+                         *       "data": {
+                         *         "id": "lesson-1",
+                         *         "title": "Basic Arithmetic",
+                         *         "description": "Learn addition and subtraction",
+                         *         "order": 1,
+                         *         "xpReward": 10,
+                         *         "isActive": true,
+                         *         "problems": [
+                         *           {
+                         *             "id": "problem-1-1",
+                         *             "question": "What is 5 + 3?",
+                         *             "problemType": "multiple_choice",
+                         *             "order": 1,
+                         *             "difficulty": "easy",
+                         *             "options": [
+                         *               {
+                         *                 "id": "option-1-1-a",
+                         *                 "optionText": "7",
+                         *                 "order": 1
+                         *               },
+                         *               {
+                         *                 "id": "option-1-1-b",
+                         *                 "optionText": "8",
+                         *                 "order": 2
+                         *               }
+                         *             ]
+                         *           }
+                         *         ]
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["LessonResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}/submit": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Submit lesson answers
+         * @description Submit answers for a lesson and get results with XP and streak calculation (idempotent)
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    /** @example {
+                     *       "attemptId": "attempt-123-456",
+                     *       "answers": [
+                     *         {
+                     *           "problemId": "problem-1-1",
+                     *           "answer": "8"
+                     *         },
+                     *         {
+                     *           "problemId": "problem-1-2",
+                     *           "answer": "15"
+                     *         }
+                     *       ]
+                     *     } */
+                    "application/json": components["schemas"]["SubmitLessonRequest"];
+                };
+            };
+            responses: {
+                /** @description Lesson submitted successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Lesson submitted successfully",
+                         *       "data": {
+                         *         "success": true,
+                         *         "xpEarned": 40,
+                         *         "totalXp": 120,
+                         *         "streak": {
+                         *           "current": 3,
+                         *           "best": 7,
+                         *           "updated": true
+                         *         },
+                         *         "lesson": {
+                         *           "completed": true,
+                         *           "score": 85,
+                         *           "bestScore": 95
+                         *         },
+                         *         "results": [
+                         *           {
+                         *             "problemId": "problem-1-1",
+                         *             "userAnswer": "8",
+                         *             "isCorrect": true,
+                         *             "reason": "exact_match",
+                         *             "correctAnswer": "8",
+                         *             "explanation": "5 + 3 = 8",
+                         *             "xpEarned": 10
+                         *           }
+                         *         ]
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["SubmitLessonResponseWrapper"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                /** @description Submission already exists (idempotent operation) */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}/problems/{problemId}/check": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Check one answer during an attempt
+         * @description Grade a single answer of an attempt in progress for instant feedback. Only the problem being
+         *     checked is graded, so the rest of the lesson's answers stay hidden. The first check of a
+         *     problem is final: checking it again returns the same result, and submitting the attempt
+         *     reuses the checked answer and the hints revealed before it. The attempt must be the one in
+         *     progress from GET /api/lessons/{id}/attempt; the correct answer and worked solution are
+         *     only returned when the attempt is submitted.
+         *
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                    /**
+                     * @description Problem ID
+                     * @example problem-1-1
+                     */
+                    problemId: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    /** @example {
+                     *       "attemptId": "attempt-123-456",
+                     *       "answer": "8"
+                     *     } */
+                    "application/json": components["schemas"]["CheckAnswerRequest"];
+                };
+            };
+            responses: {
+                /** @description Answer checked successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Answer checked successfully",
+                         *       "data": {
+                         *         "problemId": "problem-1-1",
+                         *         "userAnswer": "8",
+                         *         "isCorrect": true,
+                         *         "reason": "exact_match",
+                         *         "explanation": "5 + 3 = 8",
+                         *         "hintsUsed": 0,
+                         *         "xpEarned": 10
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["CheckAnswerResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                /** @description The attempt is not the learner's attempt in progress for this lesson */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}/problems/{problemId}/hints": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Reveal the next hint of a problem
+         * @description Reveal one more hint step of a problem during an attempt and return every step revealed so far.
+         *     Reveals are recorded per attempt, and each one takes the lesson's hint penalty off the XP the
+         *     problem is worth when the attempt is submitted. Once every hint is shown the call changes nothing.
+         *     The attempt must be the one in progress from GET /api/lessons/{id}/attempt.
+         *
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                    /**
+                     * @description Problem ID
+                     * @example problem-1-1
+                     */
+                    problemId: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["RevealHintRequest"];
+                };
+            };
+            responses: {
+                /** @description Hint revealed successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "Hint revealed successfully",
+                         *       "data": {
+                         *         "problemId": "problem-1-1",
+                         *         "hints": [
+                         *           "Start at 5 and count up 3 more"
+                         *         ],
+                         *         "hintCount": 2,
+                         *         "xpAvailable": 8
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["HintRevealResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                /** @description The attempt is not the learner's attempt in progress for this lesson */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}/attempt": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Resume or start an attempt
+         * @description Return the learner's attempt in progress for the lesson with the answers saved so far and the
+         *     problem they were on, so it can be resumed on any device. Without one (or once it has expired)
+         *     a new attempt is started. Attempts expire 7 days after they were last saved and are dropped
+         *     when submitted.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Attempt retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttemptDraftResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        /**
+         * Save an attempt in progress
+         * @description Autosave the answers given so far and the current problem of the attempt in progress,
+         *     keeping it for another 7 days. Answers are only graded when the attempt is submitted.
+         *
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["SaveAttemptRequest"];
+                };
+            };
+            responses: {
+                /** @description Attempt saved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttemptDraftResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                /** @description The attempt was submitted, expired or replaced by a newer one */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/lessons/{id}/attempts/{attemptId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Review a submitted attempt
+         * @description Replay one of the learner's attempts exactly as it was graded: each answered problem with the
+         *     question, options and answer key of the revision it was graded against, even if the lesson
+         *     has been edited, unpublished or deactivated since.
+         *
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    /**
+                     * @description Lesson ID
+                     * @example lesson-1
+                     */
+                    id: string;
+                    /**
+                     * @description Attempt ID the lesson was submitted with
+                     * @example attempt-123-456
+                     */
+                    attemptId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Attempt retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttemptReviewResponse"];
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/profile": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get user profile
+         * @description Retrieve user profile with math learning stats, XP, streak, and progress
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description User profile retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        /** @example {
+                         *       "success": true,
+                         *       "message": "User profile retrieved successfully",
+                         *       "data": {
+                         *         "id": "1",
+                         *         "email": "demo@mathapp.com",
+                         *         "username": "mathlearner",
+                         *         "firstName": "John",
+                         *         "lastName": "Doe",
+                         *         "displayName": "John D.",
+                         *         "avatar": "https://example.com/avatar.jpg",
+                         *         "xp": 250,
+                         *         "streak": {
+                         *           "current": 7,
+                         *           "longest": 15,
+                         *           "lastActiveDate": "2025-08-08"
+                         *         },
+                         *         "lessonsCompleted": 5,
+                         *         "totalLessons": 10,
+                         *         "rank": "Intermediate",
+                         *         "joinedAt": "2025-07-01T00:00:00.000Z"
+                         *       },
+                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *     } */
+                        "application/json": components["schemas"]["UserProfileResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/profile/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get user learning statistics
+         * @description Retrieve detailed user learning statistics including XP, time spent, achievements, and daily progress.
+         *     Weeks start on Monday and days are counted in the learner's timezone.
+         *
          */
         get: {
             parameters: {
                 query?: {
-                    /**
-                     * @description User ID to get personalized progress (defaults to demo user)
-                     * @example 1
-                     */
-                    userId?: string;
+                    /** @description Length of the daily progress series, ending today */
+                    days?: number;
                 };
                 header?: never;
                 path?: never;
@@ -30,7 +2487,7 @@ export interface paths {
             };
             requestBody?: never;
             responses: {
-                /** @description Lessons retrieved successfully */
+                /** @description User statistics retrieved successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
@@ -38,29 +2495,52 @@ export interface paths {
                     content: {
                         /** @example {
                          *       "success": true,
-                         *       "message": "Lessons retrieved successfully",
-                         *       "data": [
-                         *         {
-                         *           "id": "lesson-1",
-                         *           "title": "Basic Arithmetic",
-                         *           "description": "Learn addition and subtraction",
-                         *           "order": 1,
-                         *           "xpReward": 10,
-                         *           "isActive": true,
-                         *           "progress": {
-                         *             "isCompleted": false,
-                         *             "score": 0,
-                         *             "bestScore": 0,
-                         *             "attemptsCount": 0
+                         *       "message": "User statistics retrieved successfully",
+                         *       "data": {
+                         *         "totalXp": 420,
+                         *         "xpThisWeek": 80,
+                         *         "xpThisMonth": 250,
+                         *         "totalLessonsCompleted": 8,
+                         *         "totalProblemsCompleted": 45,
+                         *         "averageScore": 87.5,
+                         *         "streak": {
+                         *           "current": 7,
+                         *           "longest": 15,
+                         *           "lastActiveDate": "2025-08-08"
+                         *         },
+                         *         "timeSpent": {
+                         *           "totalMinutes": 240,
+                         *           "thisWeekMinutes": 60,
+                         *           "averagePerSession": 8.5
+                         *         },
+                         *         "achievements": [
+                         *           {
+                         *             "id": "first_lesson",
+                         *             "title": "First Steps",
+                         *             "description": "Complete your first lesson",
+                         *             "icon": "🎯",
+                         *             "rule": "lessons_completed",
+                         *             "threshold": 1,
+                         *             "unlockedAt": "2025-07-15T10:30:00.000Z"
                          *           }
-                         *         }
-                         *       ],
+                         *         ],
+                         *         "dailyProgress": [
+                         *           {
+                         *             "date": "2025-08-08",
+                         *             "xpEarned": 25,
+                         *             "lessonsCompleted": 2,
+                         *             "timeSpent": 15
+                         *           }
+                         *         ]
+                         *       },
                          *       "timestamp": "2025-08-08T01:00:00.000Z"
                          *     } */
-                        "application/json": components["schemas"]["LessonListResponse"];
+                        "application/json": components["schemas"]["UserStatsResponse"];
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
         };
@@ -72,7 +2552,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/lessons/stats": {
+    "/api/profile/mastery": {
         parameters: {
             query?: never;
             header?: never;
@@ -80,8 +2560,8 @@ export interface paths {
             cookie?: never;
         };
         /**
-         * Get lesson statistics
-         * @description Retrieve overall lesson statistics and metrics
+         * Get skill mastery
+         * @description Estimated probability that the learner knows each skill, updated after every lesson and review answer
          */
         get: {
             parameters: {
@@ -92,34 +2572,16 @@ export interface paths {
             };
             requestBody?: never;
             responses: {
-                /** @description Lesson statistics retrieved successfully */
+                /** @description Skill mastery retrieved successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        /** @example {
-                         *       "success": true,
-                         *       "message": "Lesson statistics retrieved successfully",
-                         *       "data": {
-                         *         "totalLessons": 3,
-                         *         "activeLessons": 3,
-                         *         "averageCompletion": 65.5
-                         *       },
-                         *       "timestamp": "2025-08-08T01:00:00.000Z"
-                         *     } */
-                        "application/json": components["schemas"]["SuccessResponse"] & {
-                            data?: {
-                                /** @example 3 */
-                                totalLessons?: number;
-                                /** @example 3 */
-                                activeLessons?: number;
-                                /** @example 65.5 */
-                                averageCompletion?: number;
-                            };
-                        };
+                        "application/json": components["schemas"]["SkillMasteryResponse"];
                     };
                 };
+                401: components["responses"]["Unauthorized"];
                 500: components["responses"]["InternalServerError"];
             };
         };
@@ -131,7 +2593,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/lessons/{id}": {
+    "/api/recommendations": {
         parameters: {
             query?: never;
             header?: never;
@@ -139,25 +2601,33 @@ export interface paths {
             cookie?: never;
         };
         /**
-         * Get lesson by ID
-         * @description Retrieve a specific lesson with all its problems (frontend-safe, excludes correct answers)
+         * Get adaptive learning path recommendations
+         * @description Personalized lesson recommendations based on user's learning patterns and performance, cached per user until the next submission
          */
         get: {
             parameters: {
-                query?: never;
-                header?: never;
-                path: {
+                query?: {
                     /**
-                     * @description Lesson ID
-                     * @example lesson-1
+                     * @description Maximum number of recommendations to return
+                     * @example 5
                      */
-                    id: string;
+                    limit?: number;
+                    /**
+                     * @description Oldest cached learning path to accept, in seconds since its `generatedAt`.
+                     *     Defaults to the cache TTL (15 minutes); 0 forces a recompute. The cache is
+                     *     cleared whenever the learner submits a lesson or a review.
+                     *
+                     * @example 300
+                     */
+                    maxAge?: number;
                 };
+                header?: never;
+                path?: never;
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description Lesson retrieved successfully */
+                /** @description Recommendations generated successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
@@ -165,43 +2635,164 @@ export interface paths {
                     content: {
                         /** @example {
                          *       "success": true,
-                         *       "message": "Lesson retrieved successfully",
+                         *       "message": "Learning path recommendations generated successfully",
                          *       "data": {
-                         *         "id": "lesson-1",
-                         *         "title": "Basic Arithmetic",
-                         *         "description": "Learn addition and subtraction",
-                         *         "order": 1,
-                         *         "xpReward": 10,
-                         *         "isActive": true,
-                         *         "problems": [
+                         *         "userId": "1",
+                         *         "generatedAt": "2025-08-09T10:30:00.000Z",
+                         *         "learningPattern": {
+                         *           "averageScore": 75.5,
+                         *           "learningSpeed": 1.2,
+                         *           "strugglingAreas": [
+                         *             "hard"
+                         *           ],
+                         *           "strongAreas": [
+                         *             "easy",
+                         *             "medium"
+                         *           ],
+                         *           "preferredDifficulty": "medium",
+                         *           "consistencyScore": 68
+                         *         },
+                         *         "recommendations": [
                          *           {
-                         *             "id": "problem-1-1",
-                         *             "question": "What is 5 + 3?",
-                         *             "problemType": "multiple_choice",
-                         *             "order": 1,
-                         *             "difficulty": "easy",
-                         *             "options": [
-                         *               {
-                         *                 "id": "option-1-1-a",
-                         *                 "optionText": "7",
-                         *                 "order": 1
-                         *               },
-                         *               {
-                         *                 "id": "option-1-1-b",
-                         *                 "optionText": "8",
-                         *                 "order": 2
-                         *               }
+                         *             "lessonId": "lesson-2",
+                         *             "title": "Intermediate Algebra",
+                         *             "description": "Build on basic concepts",
+                         *             "recommendationReason": "Next in your learning sequence",
+                         *             "confidenceScore": 85,
+                         *             "estimatedCompletionTime": 20,
+                         *             "difficulty": "medium",
+                         *             "xpReward": 15,
+                         *             "order": 2,
+                         *             "isUnlocked": true,
+                         *             "prerequisites": [
+                         *               "Basic Arithmetic"
                          *             ]
                          *           }
+                         *         ],
+                         *         "nextSuggestedLesson": {
+                         *           "lessonId": "lesson-2",
+                         *           "title": "Intermediate Algebra",
+                         *           "description": "Build on basic concepts",
+                         *           "recommendationReason": "Next in your learning sequence",
+                         *           "confidenceScore": 85,
+                         *           "estimatedCompletionTime": 20,
+                         *           "difficulty": "medium",
+                         *           "xpReward": 15,
+                         *           "order": 2,
+                         *           "isUnlocked": true,
+                         *           "prerequisites": [
+                         *             "Basic Arithmetic"
+                         *           ]
+                         *         },
+                         *         "personalizedMessage": "Great progress! You're building strong foundations. Based on your progress, we recommend focusing on 'Intermediate Algebra' next.",
+                         *         "learningGoals": [
+                         *           "Achieve 85% accuracy consistently",
+                         *           "Focus on strengthening skills in: hard"
                          *         ]
                          *       },
-                         *       "timestamp": "2025-08-08T01:00:00.000Z"
+                         *       "timestamp": "2025-08-09T10:30:00.000Z"
                          *     } */
-                        "application/json": components["schemas"]["LessonResponse"];
+                        "application/json": components["schemas"]["SuccessResponse"] & {
+                            data?: components["schemas"]["AdaptiveLearningPath"];
+                        };
+                    };
+                };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/recommendations/debug": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Explain the recommendation ranking
+         * @description Return every lesson's score breakdown for the authenticated user - the factor scores, the weights that combine them and the adjustments applied - plus the lessons left out of the ranking
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Score breakdown retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RecommendationDebugResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reviews/due": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get the problems due for review
+         * @description Problems the learner answered incorrectly are queued for spaced-repetition review (SM-2).
+         *     Every later answer, in a lesson or a review, moves the next review further out or back to tomorrow.
+         *     Templated problems are instantiated with values seeded from sessionId; submit with the same sessionId.
+         *
+         */
+        get: {
+            parameters: {
+                query: {
+                    /**
+                     * @description Practice session the problems are fetched for
+                     * @example practice-123-456
+                     */
+                    sessionId: string;
+                    /** @description Most problems to return */
+                    limit?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Due reviews retrieved successfully */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ReviewQueueResponse"];
                     };
                 };
                 400: components["responses"]["BadRequest"];
-                404: components["responses"]["NotFound"];
+                401: components["responses"]["Unauthorized"];
                 500: components["responses"]["InternalServerError"];
             };
         };
@@ -213,7 +2804,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/lessons/{id}/submit": {
+    "/api/reviews/submit": {
         parameters: {
             query?: never;
             header?: never;
@@ -223,89 +2814,42 @@ export interface paths {
         get?: never;
         put?: never;
         /**
-         * Submit lesson answers
-         * @description Submit answers for a lesson and get results with XP and streak calculation (idempotent)
+         * Submit a review answer
+         * @description Grade the answer to a due problem, schedule its next review and award XP for a correct answer
+         *     (idempotent per sessionId and problemId).
+         *
          */
         post: {
             parameters: {
-                query?: {
-                    /**
-                     * @description User ID (defaults to demo user)
-                     * @example 1
-                     */
-                    userId?: string;
-                };
+                query?: never;
                 header?: never;
-                path: {
-                    /**
-                     * @description Lesson ID
-                     * @example lesson-1
-                     */
-                    id: string;
-                };
+                path?: never;
                 cookie?: never;
             };
             requestBody: {
                 content: {
                     /** @example {
-                     *       "attemptId": "attempt-123-456",
-                     *       "answers": [
-                     *         {
-                     *           "problemId": "problem-1-1",
-                     *           "answer": "8"
-                     *         },
-                     *         {
-                     *           "problemId": "problem-1-2",
-                     *           "answer": "15"
-                     *         }
-                     *       ]
+                     *       "sessionId": "practice-123-456",
+                     *       "problemId": "problem-1-1",
+                     *       "answer": "8"
                      *     } */
-                    "application/json": components["schemas"]["SubmitLessonRequest"];
+                    "application/json": components["schemas"]["SubmitReviewRequest"];
                 };
             };
             responses: {
-                /** @description Lesson submitted successfully */
+                /** @description Review submitted successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        /** @example {
-                         *       "success": true,
-                         *       "message": "Lesson submitted successfully",
-                         *       "data": {
-                         *         "success": true,
-                         *         "xpEarned": 40,
-                         *         "totalXp": 120,
-                         *         "streak": {
-                         *           "current": 3,
-                         *           "best": 7,
-                         *           "updated": true
-                         *         },
-                         *         "lesson": {
-                         *           "completed": true,
-                         *           "score": 85,
-                         *           "bestScore": 95
-                         *         },
-                         *         "results": [
-                         *           {
-                         *             "problemId": "problem-1-1",
-                         *             "userAnswer": "8",
-                         *             "isCorrect": true,
-                         *             "correctAnswer": "8",
-                         *             "explanation": "5 + 3 = 8",
-                         *             "xpEarned": 10
-                         *           }
-                         *         ]
-                         *       },
-                         *       "timestamp": "2025-08-08T01:00:00.000Z"
-                         *     } */
-                        "application/json": components["schemas"]["SubmitLessonResponseWrapper"];
+                        "application/json": components["schemas"]["ReviewResultResponse"];
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
                 404: components["responses"]["NotFound"];
-                /** @description Submission already exists (idempotent operation) */
+                /** @description The problem is not due for review yet */
                 409: {
                     headers: {
                         [name: string]: unknown;
@@ -323,7 +2867,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/profile": {
+    "/api/streaks": {
         parameters: {
             query?: never;
             header?: never;
@@ -331,57 +2875,28 @@ export interface paths {
             cookie?: never;
         };
         /**
-         * Get user profile
-         * @description Retrieve user profile with math learning stats, XP, streak, and progress
+         * Get streak summary
+         * @description Current and best streak, held streak freezes and the learner's timezone
          */
         get: {
             parameters: {
-                query?: {
-                    /**
-                     * @description User ID to get profile for (defaults to demo user)
-                     * @example 1
-                     */
-                    userId?: string;
-                };
+                query?: never;
                 header?: never;
                 path?: never;
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description User profile retrieved successfully */
+                /** @description Streak summary retrieved successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        /** @example {
-                         *       "success": true,
-                         *       "message": "User profile retrieved successfully",
-                         *       "data": {
-                         *         "id": "1",
-                         *         "email": "demo@mathapp.com",
-                         *         "username": "mathlearner",
-                         *         "firstName": "John",
-                         *         "lastName": "Doe",
-                         *         "displayName": "John D.",
-                         *         "avatar": "https://example.com/avatar.jpg",
-                         *         "xp": 250,
-                         *         "streak": {
-                         *           "current": 7,
-                         *           "longest": 15,
-                         *           "lastActiveDate": "2025-08-08"
-                         *         },
-                         *         "lessonsCompleted": 5,
-                         *         "totalLessons": 10,
-                         *         "rank": "Intermediate",
-                         *         "joinedAt": "2025-07-01T00:00:00.000Z"
-                         *       },
-                         *       "timestamp": "2025-08-08T01:00:00.000Z"
-                         *     } */
-                        "application/json": components["schemas"]["UserProfileResponse"];
+                        "application/json": components["schemas"]["StreakSummaryResponse"];
                     };
                 };
+                401: components["responses"]["Unauthorized"];
                 404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
@@ -394,7 +2909,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/profile/stats": {
+    "/api/streaks/calendar": {
         parameters: {
             query?: never;
             header?: never;
@@ -402,17 +2917,18 @@ export interface paths {
             cookie?: never;
         };
         /**
-         * Get user learning statistics
-         * @description Retrieve detailed user learning statistics including XP, time spent, achievements, and weekly progress
+         * Get streak calendar
+         * @description One entry per day in the learner's timezone, marking days they learned and missed days covered by a freeze.
+         *     Defaults to the 30 days ending today; ranges may span at most 366 days.
+         *
          */
         get: {
             parameters: {
                 query?: {
-                    /**
-                     * @description User ID to get stats for (defaults to demo user)
-                     * @example 1
-                     */
-                    userId?: string;
+                    /** @description First date (YYYY-MM-DD) */
+                    from?: string;
+                    /** @description Last date (YYYY-MM-DD), defaults to today */
+                    to?: string;
                 };
                 header?: never;
                 path?: never;
@@ -420,55 +2936,17 @@ export interface paths {
             };
             requestBody?: never;
             responses: {
-                /** @description User statistics retrieved successfully */
+                /** @description Streak calendar retrieved successfully */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        /** @example {
-                         *       "success": true,
-                         *       "message": "User statistics retrieved successfully",
-                         *       "data": {
-                         *         "totalXp": 420,
-                         *         "xpThisWeek": 80,
-                         *         "xpThisMonth": 250,
-                         *         "totalLessonsCompleted": 8,
-                         *         "totalProblemsCompleted": 45,
-                         *         "averageScore": 87.5,
-                         *         "streak": {
-                         *           "current": 7,
-                         *           "longest": 15,
-                         *           "lastActiveDate": "2025-08-08"
-                         *         },
-                         *         "timeSpent": {
-                         *           "totalMinutes": 240,
-                         *           "thisWeekMinutes": 60,
-                         *           "averagePerSession": 8.5
-                         *         },
-                         *         "achievements": [
-                         *           {
-                         *             "id": "first_lesson",
-                         *             "title": "First Steps",
-                         *             "description": "Complete your first lesson",
-                         *             "iconUrl": "https://example.com/badge.png",
-                         *             "unlockedAt": "2025-07-15T10:30:00.000Z"
-                         *           }
-                         *         ],
-                         *         "weeklyProgress": [
-                         *           {
-                         *             "date": "2025-08-08",
-                         *             "xpEarned": 25,
-                         *             "lessonsCompleted": 2,
-                         *             "timeSpent": 15
-                         *           }
-                         *         ]
-                         *       },
-                         *       "timestamp": "2025-08-08T01:00:00.000Z"
-                         *     } */
-                        "application/json": components["schemas"]["UserStatsResponse"];
+                        "application/json": components["schemas"]["StreakCalendarResponse"];
                     };
                 };
+                400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
                 404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
@@ -481,112 +2959,146 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/api/recommendations": {
+    "/api/streaks/freezes": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
+        get?: never;
+        put?: never;
         /**
-         * Get adaptive learning path recommendations
-         * @description Generate personalized lesson recommendations based on user's learning patterns and performance
+         * Buy a streak freeze
+         * @description Spends XP on a streak freeze. Held freezes are used up automatically to cover missed days.
          */
-        get: {
+        post: {
             parameters: {
-                query?: {
-                    /**
-                     * @description User ID for personalized recommendations (defaults to demo user)
-                     * @example 1
-                     */
-                    userId?: string;
-                    /**
-                     * @description Maximum number of recommendations to return
-                     * @example 5
-                     */
-                    limit?: number;
-                };
+                query?: never;
                 header?: never;
                 path?: never;
                 cookie?: never;
             };
             requestBody?: never;
             responses: {
-                /** @description Recommendations generated successfully */
+                /** @description Streak freeze purchased */
                 200: {
                     headers: {
                         [name: string]: unknown;
                     };
                     content: {
-                        /** @example {
-                         *       "success": true,
-                         *       "message": "Learning path recommendations generated successfully",
-                         *       "data": {
-                         *         "userId": "1",
-                         *         "generatedAt": "2025-08-09T10:30:00.000Z",
-                         *         "learningPattern": {
-                         *           "averageScore": 75.5,
-                         *           "learningSpeed": 1.2,
-                         *           "strugglingAreas": [
-                         *             "hard"
-                         *           ],
-                         *           "strongAreas": [
-                         *             "easy",
-                         *             "medium"
-                         *           ],
-                         *           "preferredDifficulty": "medium",
-                         *           "consistencyScore": 68
-                         *         },
-                         *         "recommendations": [
-                         *           {
-                         *             "lessonId": "lesson-2",
-                         *             "title": "Intermediate Algebra",
-                         *             "description": "Build on basic concepts",
-                         *             "recommendationReason": "Next in your learning sequence",
-                         *             "confidenceScore": 85,
-                         *             "estimatedCompletionTime": 20,
-                         *             "difficulty": "medium",
-                         *             "xpReward": 15,
-                         *             "order": 2,
-                         *             "isUnlocked": true,
-                         *             "prerequisites": [
-                         *               "Basic Arithmetic"
-                         *             ]
-                         *           }
-                         *         ],
-                         *         "nextSuggestedLesson": {
-                         *           "lessonId": "lesson-2",
-                         *           "title": "Intermediate Algebra",
-                         *           "description": "Build on basic concepts",
-                         *           "recommendationReason": "Next in your learning sequence",
-                         *           "confidenceScore": 85,
-                         *           "estimatedCompletionTime": 20,
-                         *           "difficulty": "medium",
-                         *           "xpReward": 15,
-                         *           "order": 2,
-                         *           "isUnlocked": true,
-                         *           "prerequisites": [
-                         *             "Basic Arithmetic"
-                         *           ]
-                         *         },
-                         *         "personalizedMessage": "Great progress! You're building strong foundations. Based on your progress, we recommend focusing on 'Intermediate Algebra' next.",
-                         *         "learningGoals": [
-                         *           "Achieve 85% accuracy consistently",
-                         *           "Focus on strengthening skills in: hard"
-                         *         ]
-                         *       },
-                         *       "timestamp": "2025-08-09T10:30:00.000Z"
-                         *     } */
-                        "application/json": components["schemas"]["SuccessResponse"] & {
-                            data?: components["schemas"]["AdaptiveLearningPath"];
-                        };
+                        "application/json": components["schemas"]["StreakSummaryResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                /** @description Not enough XP, or the freeze limit is reached */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/streaks/repair": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Repair a lost streak
+         * @description Spends XP to restore a streak lost within the last 3 days. The missed days show as repaired
+         *     on the calendar, and learning today continues the streak.
+         *
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Streak repaired */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["StreakSummaryResponse"];
+                    };
+                };
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
+                /** @description Not enough XP, or no lost streak that can still be repaired */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                500: components["responses"]["InternalServerError"];
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/streaks/timezone": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Set the learner's timezone
+         * @description Days for streaks and the calendar start at midnight in this timezone
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": components["schemas"]["UpdateTimezoneRequest"];
+                };
+            };
+            responses: {
+                /** @description Timezone updated */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["StreakSummaryResponse"];
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
         };
-        put?: never;
         post?: never;
         delete?: never;
         options?: never;
@@ -656,7 +3168,7 @@ export interface paths {
         };
         /**
          * Get all users
-         * @description Retrieve a paginated list of users with optional search and sorting
+         * @description Retrieve a paginated list of users with optional search and sorting. Requires the users:read permission (admin)
          */
         get: {
             parameters: {
@@ -667,6 +3179,8 @@ export interface paths {
                     limit?: number;
                     /** @description Search term to filter users by name or email */
                     search?: string;
+                    /** @description Only list users with this role */
+                    role?: "learner" | "teacher" | "admin";
                     /** @description Field to sort by */
                     sortBy?: "id" | "name" | "email" | "createdAt";
                     /** @description Sort order */
@@ -688,13 +3202,15 @@ export interface paths {
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
                 500: components["responses"]["InternalServerError"];
             };
         };
         put?: never;
         /**
          * Create a new user
-         * @description Create a new user with the provided information
+         * @description Create a new user with the provided information. Requires the users:write permission (admin)
          */
         post: {
             parameters: {
@@ -723,6 +3239,8 @@ export interface paths {
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
                 500: components["responses"]["InternalServerError"];
             };
         };
@@ -741,7 +3259,7 @@ export interface paths {
         };
         /**
          * Get user by ID
-         * @description Retrieve a specific user by their ID
+         * @description Retrieve a specific user by their ID. Requires the users:read permission (admin)
          */
         get: {
             parameters: {
@@ -765,13 +3283,15 @@ export interface paths {
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
                 404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
         };
         /**
          * Update user by ID
-         * @description Update a specific user's information
+         * @description Update a specific user's information, including their role. Requires the users:write permission (admin)
          */
         put: {
             parameters: {
@@ -803,6 +3323,8 @@ export interface paths {
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
                 404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
@@ -810,7 +3332,7 @@ export interface paths {
         post?: never;
         /**
          * Delete user by ID
-         * @description Delete a specific user
+         * @description Delete a specific user. Requires the users:delete permission (admin)
          */
         delete: {
             parameters: {
@@ -834,59 +3356,687 @@ export interface paths {
                     };
                 };
                 400: components["responses"]["BadRequest"];
+                401: components["responses"]["Unauthorized"];
+                403: components["responses"]["Forbidden"];
                 404: components["responses"]["NotFound"];
                 500: components["responses"]["InternalServerError"];
             };
         };
-        options?: never;
-        head?: never;
-        patch?: never;
-        trace?: never;
-    };
-}
-export type webhooks = Record<string, never>;
-export interface components {
-    schemas: {
-        Error: {
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        Error: {
+            /** @example false */
+            success: boolean;
+            /** @example An error occurred */
+            error: string;
+            details?: {
+                field?: string;
+                message?: string;
+                code?: string;
+            }[];
+            /**
+             * Format: date-time
+             * @example 2025-08-08T01:00:00.000Z
+             */
+            timestamp: string;
+        };
+        ValidationError: components["schemas"]["Error"] & {
+            /** @example Validation failed */
+            error?: string;
+        };
+        SuccessResponse: {
+            /** @example true */
+            success: boolean;
+            /** @example Operation successful */
+            message?: string;
+            /**
+             * Format: date-time
+             * @example 2025-08-08T01:00:00.000Z
+             */
+            timestamp: string;
+        };
+        PaginationMeta: {
+            /** @example 1 */
+            page: number;
+            /** @example 10 */
+            limit: number;
+            /** @example 25 */
+            total: number;
+            /** @example 3 */
+            totalPages: number;
+        };
+        Achievement: {
+            /**
+             * @description Achievement identifier
+             * @example first_lesson
+             */
+            id: string;
+            /**
+             * @description Achievement title
+             * @example First Steps
+             */
+            title: string;
+            /**
+             * @description Achievement description
+             * @example Complete your first lesson
+             */
+            description: string;
+            /**
+             * @description Badge icon (emoji or image URL)
+             * @example 🎯
+             */
+            icon: string;
+            /**
+             * @description What the learner has to do to unlock the achievement
+             * @example lessons_completed
+             * @enum {string}
+             */
+            rule: "xp_threshold" | "streak_length" | "perfect_lesson" | "lessons_completed" | "speed";
+            /**
+             * @description XP for xp_threshold, days for streak_length, lessons for perfect_lesson and
+             *     lessons_completed (null = every active lesson), seconds for speed
+             *
+             * @example 1
+             */
+            threshold: number | null;
+            /**
+             * Format: date-time
+             * @description When the achievement was unlocked (null while locked)
+             * @example 2025-07-15T10:30:00.000Z
+             */
+            unlockedAt: string | null;
+        };
+        LoginRequest: {
+            /**
+             * Format: email
+             * @description Account email address
+             * @example demo@mathapp.com
+             */
+            email: string;
+            /**
+             * @description Account password
+             * @example Demo1234
+             */
+            password: string;
+        };
+        RefreshTokenRequest: {
+            /**
+             * @description Refresh token issued by login or a previous refresh
+             * @example 3f1c9a...e07b
+             */
+            refreshToken: string;
+        };
+        AuthUser: {
+            /**
+             * @description User identifier
+             * @example 1
+             */
+            id: string;
+            /**
+             * Format: email
+             * @description User email address
+             * @example demo@mathapp.com
+             */
+            email: string;
+            /**
+             * @description Username
+             * @example demo_user
+             */
+            username?: string | null;
+            /**
+             * @description Display name
+             * @example Demo User
+             */
+            displayName?: string | null;
+            /**
+             * @description Role deciding which permissions the user holds
+             * @example learner
+             * @enum {string}
+             */
+            role: "learner" | "teacher" | "admin";
+        };
+        AuthTokens: {
+            /**
+             * @description Short-lived JWT sent as a Bearer token
+             * @example eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+             */
+            accessToken: string;
+            /**
+             * @description Opaque token used to obtain a new access token
+             * @example 3f1c9a...e07b
+             */
+            refreshToken: string;
+            /**
+             * @description Authorization scheme for the access token
+             * @example Bearer
+             */
+            tokenType: string;
+            /**
+             * @description Access token lifetime in seconds
+             * @example 900
+             */
+            expiresIn: number;
+            user: components["schemas"]["AuthUser"];
+        };
+        AuthTokensResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AuthTokens"];
+        };
+        AuthUserResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AuthUser"];
+        };
+        AuthoringProblemOption: {
+            /** @example option-1-1-2 */
+            id: string;
+            /** @example 4 */
+            optionText: string;
+            /** @example true */
+            isCorrect: boolean;
+            /** @example 2 */
+            order: number;
+            /** @description Position in the correct sequence (ordering problems) */
+            correctOrder: number | null;
+        };
+        AuthoringProblem: {
+            /** @example problem-1-1 */
+            id: string;
+            /** @example What is 2 + 2? */
+            question: string;
+            /** @enum {string} */
+            problemType: "multiple_choice" | "input" | "true_false" | "multi_select" | "ordering" | "fill_in_blanks" | "number_line";
+            /** @example 1 */
+            order: number;
+            /** @example 4 */
+            correctAnswer: string | null;
+            tolerance: number | null;
+            config: {
+                [key: string]: unknown;
+            } | null;
+            template: {
+                [key: string]: unknown;
+            } | null;
+            explanation: string | null;
+            /** @description Hint steps in the order learners reveal them */
+            hints: string[];
+            /** @enum {string} */
+            difficulty: "easy" | "medium" | "hard";
+            options: components["schemas"]["AuthoringProblemOption"][];
+        };
+        AuthoringLessonSummary: {
+            /** @example lesson-5 */
+            id: string;
+            /** @example Decimals */
+            title: string;
+            description: string | null;
+            /** @example 5 */
+            order: number;
+            /** @example 10 */
+            xpReward: number;
+            /** @enum {string} */
+            difficulty: "easy" | "medium" | "hard";
+            /**
+             * @description Percent of a problem's XP taken off for each hint revealed
+             * @example 25
+             */
+            hintPenalty: number;
+            skills: components["schemas"]["Skill"][];
+            prerequisites: components["schemas"]["LessonPrerequisite"][];
+            /** @description Inactive lessons are hidden from learners whatever their status */
+            isActive: boolean;
+            /**
+             * @description Drafts are hidden from learners until published
+             * @enum {string}
+             */
+            status: "draft" | "published";
+            /**
+             * Format: date-time
+             * @description First publication
+             */
+            publishedAt: string | null;
+            /** @example 4 */
+            problemCount: number;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        AuthoringLesson: components["schemas"]["AuthoringLessonSummary"] & {
+            problems: components["schemas"]["AuthoringProblem"][];
+        };
+        /** @description Lesson fields; skillIds and prerequisiteIds replace the current lists */
+        UpdateLessonRequest: {
+            /** @example Decimals */
+            title?: string;
+            description?: string | null;
+            /** @example 10 */
+            xpReward?: number;
+            /** @enum {string} */
+            difficulty?: "easy" | "medium" | "hard";
+            /**
+             * @description Percent of a problem's XP taken off for each hint revealed
+             * @example 25
+             */
+            hintPenalty?: number;
+            isActive?: boolean;
+            skillIds?: string[];
+            prerequisiteIds?: string[];
+        };
+        CreateLessonRequest: components["schemas"]["UpdateLessonRequest"] & Record<string, never>;
+        /** @description Option fields */
+        UpdateProblemOptionRequest: {
+            /** @example 4 */
+            optionText?: string;
+            /** @default false */
+            isCorrect: boolean;
+            correctOrder?: number | null;
+        };
+        /** @description Problem fields; options replace every current option */
+        UpdateProblemRequest: {
+            /** @example What is 2 + 2? */
+            question?: string;
+            /** @enum {string} */
+            problemType?: "multiple_choice" | "input" | "true_false" | "multi_select" | "ordering" | "fill_in_blanks" | "number_line";
+            /**
+             * @description For multiple choice, the text of the correct option
+             * @example 4
+             */
+            correctAnswer?: string | null;
+            tolerance?: number | null;
+            config?: {
+                [key: string]: unknown;
+            } | null;
+            template?: {
+                [key: string]: unknown;
+            } | null;
+            explanation?: string | null;
+            /**
+             * @description Hint steps in the order learners reveal them; template placeholders are rendered
+             * @example [
+             *       "Start at 2",
+             *       "Count on 2 more"
+             *     ]
+             */
+            hints?: string[];
+            /** @enum {string} */
+            difficulty?: "easy" | "medium" | "hard";
+            options?: components["schemas"]["ProblemOptionInput"][];
+        };
+        CreateProblemRequest: components["schemas"]["UpdateProblemRequest"] & Record<string, never>;
+        ProblemOptionInput: components["schemas"]["UpdateProblemOptionRequest"] & Record<string, never>;
+        ReorderLessonsRequest: {
+            /** @description Every lesson, in the new order */
+            lessonIds: string[];
+        };
+        ReorderProblemsRequest: {
+            /** @description Every problem of the lesson, in the new order */
+            problemIds: string[];
+        };
+        AuthoringLessonResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AuthoringLesson"];
+        };
+        AuthoringLessonListResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AuthoringLessonSummary"][];
+        };
+        AuthoringProblemResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AuthoringProblem"];
+        };
+        Classroom: {
+            /** @example cmcls0001 */
+            id: string;
+            /** @example Year 5 - Maths */
+            name: string;
+            /** @example Tuesday and Thursday group */
+            description: string | null;
+            teacher: {
+                /** @example 2 */
+                id: string;
+                /** @example Ms Rivera */
+                displayName: string | null;
+            };
+            /**
+             * @description How the requesting user takes part in the classroom
+             * @example teacher
+             * @enum {string}
+             */
+            role: "teacher" | "student";
+            /**
+             * @description Code students join with; only shown to the teacher
+             * @example K7QM2XPD
+             */
+            joinCode: string | null;
+            /** @example 24 */
+            memberCount: number;
+            /** @example 3 */
+            assignmentCount: number;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        AssignmentProgress: {
+            /**
+             * @description Overdue once the due date passes without a completion
+             * @example in_progress
+             * @enum {string}
+             */
+            status: "not_started" | "in_progress" | "completed" | "overdue";
+            /** @example 75 */
+            bestScore: number | null;
+            /** @example 2 */
+            attemptsCount: number;
+            /** Format: date-time */
+            completedAt: string | null;
+            /** Format: date-time */
+            lastAttemptAt: string | null;
+            /**
+             * @description Completed after the due date
+             * @example false
+             */
+            isLate: boolean;
+        };
+        ClassroomAssignment: {
+            /** @example cmasg0001 */
+            id: string;
+            /** @example lesson-2 */
+            lessonId: string;
+            /** @example Multiplication Mastery */
+            lessonTitle: string;
+            /** @example medium */
+            difficulty: string;
+            /** @example 15 */
+            xpReward: number;
+            /** Format: date-time */
+            dueAt: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** @description The requesting student's progress; null for the teacher */
+            myProgress?: components["schemas"]["AssignmentProgress"] | null;
+        };
+        ClassroomDetail: components["schemas"]["Classroom"] & {
+            assignments: components["schemas"]["ClassroomAssignment"][];
+        };
+        ClassroomMember: {
+            /** @example 1 */
+            userId: string;
+            /** @example Demo User */
+            displayName: string | null;
+            /** @example demo_user */
+            username: string | null;
+            avatar: string | null;
+            /** Format: date-time */
+            joinedAt: string;
+        };
+        RecentSubmission: {
+            /** @example attempt-42 */
+            attemptId: string;
+            /** @example lesson-2 */
+            lessonId: string;
+            /** @example Multiplication Mastery */
+            lessonTitle: string;
+            /** @example 75 */
+            score: number;
             /** @example false */
-            success: boolean;
-            /** @example An error occurred */
-            error: string;
-            details?: {
-                field?: string;
-                message?: string;
-                code?: string;
-            }[];
+            isCorrect: boolean;
+            /** @example 45 */
+            xpEarned: number;
+            /**
+             * @description Seconds
+             * @example 210
+             */
+            timeSpent: number | null;
+            /** Format: date-time */
+            submittedAt: string;
+        };
+        DashboardAssignment: components["schemas"]["ClassroomAssignment"] & {
+            /** @example 18 */
+            completedCount: number;
+            /** @example 2 */
+            overdueCount: number;
+            /**
+             * @description Mean best score of the students who attempted the lesson
+             * @example 82.5
+             */
+            averageBestScore: number | null;
+        };
+        DashboardStudent: components["schemas"]["ClassroomMember"] & {
+            /** @example 2 */
+            completedCount: number;
+            /** @example 0 */
+            overdueCount: number;
+            /** @description One entry per assignment, in assignment order */
+            progress: (components["schemas"]["AssignmentProgress"] & {
+                assignmentId: string;
+                lessonId: string;
+            })[];
+            /** @description Latest attempts on assigned lessons from the last 14 days, newest first */
+            recentSubmissions: components["schemas"]["RecentSubmission"][];
+        };
+        ClassroomDashboard: {
+            classroom: components["schemas"]["Classroom"];
+            assignments: components["schemas"]["DashboardAssignment"][];
+            students: components["schemas"]["DashboardStudent"][];
+        };
+        CreateClassroomRequest: {
+            /** @example Year 5 - Maths */
+            name: string;
+            description?: string | null;
+        };
+        /** @description At least one field must be provided */
+        UpdateClassroomRequest: {
+            name?: string;
+            description?: string | null;
+        };
+        JoinClassroomRequest: {
+            /**
+             * @description Case-insensitive
+             * @example K7QM2XPD
+             */
+            joinCode: string;
+        };
+        CreateAssignmentRequest: {
+            /** @example lesson-2 */
+            lessonId: string;
             /**
              * Format: date-time
-             * @example 2025-08-08T01:00:00.000Z
+             * @example 2025-09-12T16:00:00.000Z
              */
-            timestamp: string;
+            dueAt?: string | null;
         };
-        ValidationError: components["schemas"]["Error"] & {
-            /** @example Validation failed */
-            error?: string;
+        UpdateAssignmentRequest: {
+            /** Format: date-time */
+            dueAt: string | null;
         };
-        SuccessResponse: {
+        ClassroomResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Classroom"];
+        };
+        ClassroomListResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Classroom"][];
+        };
+        ClassroomDetailResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ClassroomDetail"];
+        };
+        ClassroomMemberListResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ClassroomMember"][];
+        };
+        ClassroomAssignmentResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ClassroomAssignment"];
+        };
+        ClassroomDashboardResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ClassroomDashboard"];
+        };
+        ExperimentVariant: {
+            /** @example treatment */
+            name: string;
+            /**
+             * @description Recommendation strategy served to the variant
+             * @example mastery_first
+             * @enum {string}
+             */
+            strategy: "weighted" | "mastery_first" | "sequential";
+            /**
+             * @description Relative share of learners
+             * @example 50
+             */
+            weight: number;
+        };
+        Experiment: {
+            /** @example cmexp0001 */
+            id: string;
+            /** @example recommendation-strategy-2025-08 */
+            key: string;
+            /** @example Mastery-first ordering against the weighted heuristic */
+            description: string | null;
+            /**
+             * @example running
+             * @enum {string}
+             */
+            status: "draft" | "running" | "stopped";
+            variants: components["schemas"]["ExperimentVariant"][];
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            stoppedAt: string | null;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        CreateExperimentRequest: {
+            /** @example recommendation-strategy-2025-08 */
+            key: string;
+            /** @example Mastery-first ordering against the weighted heuristic */
+            description?: string;
+            variants: components["schemas"]["ExperimentVariant"][];
+        };
+        VariantReport: {
+            /** @example treatment */
+            name: string;
+            /** @example mastery_first */
+            strategy: string;
+            /** @example 50 */
+            weight: number;
+            /**
+             * @description Learners shown recommendations
+             * @example 120
+             */
+            users: number;
+            /**
+             * @description Distinct lessons recommended, summed over learners
+             * @example 480
+             */
+            exposures: number;
+            /**
+             * @description Recommended lessons the learner then started
+             * @example 96
+             */
+            started: number;
+            /**
+             * @description Recommended lessons the learner then completed
+             * @example 60
+             */
+            completed: number;
+            /**
+             * @description started / exposures
+             * @example 0.2
+             */
+            startRate: number;
+            /**
+             * @description completed / exposures
+             * @example 0.125
+             */
+            completionRate: number;
+        };
+        ExperimentReport: {
+            experiment: components["schemas"]["Experiment"];
+            variants: components["schemas"]["VariantReport"][];
+        };
+        ExperimentResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Experiment"];
+        };
+        ExperimentListResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Experiment"][];
+        };
+        ExperimentReportResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ExperimentReport"];
+        };
+        LeaderboardStanding: {
+            /** @example 3 */
+            rank: number;
+            /** @example cmdx8z0001 */
+            userId: string;
+            /** @example Demo User */
+            displayName: string;
+            /** @example null */
+            avatar: string | null;
+            /**
+             * @description XP earned this week
+             * @example 120
+             */
+            xp: number;
             /** @example true */
-            success: boolean;
-            /** @example Operation successful */
-            message?: string;
+            isCurrentUser: boolean;
+            /**
+             * @description Where the learner would move if the week ended now
+             * @enum {string}
+             */
+            zone: "promotion" | "safe" | "demotion";
+        };
+        LeagueResult: {
+            /**
+             * Format: date
+             * @example 2025-08-04
+             */
+            weekStart: string;
+            /**
+             * @description League the week was played in
+             * @enum {string}
+             */
+            league: "bronze" | "silver" | "gold" | "platinum" | "diamond";
+            /** @example 2 */
+            rank: number;
+            /** @example 340 */
+            xp: number;
+            /** @enum {string} */
+            outcome: "promoted" | "stayed" | "demoted";
+        };
+        Leaderboard: {
+            /**
+             * @description The learner's league this week
+             * @example silver
+             * @enum {string}
+             */
+            league: "bronze" | "silver" | "gold" | "platinum" | "diamond";
+            /**
+             * Format: date
+             * @description Monday the week started on (weeks run Monday to Sunday, UTC)
+             * @example 2025-08-04
+             */
+            weekStart: string;
+            /**
+             * Format: date
+             * @example 2025-08-10
+             */
+            weekEnd: string;
             /**
              * Format: date-time
-             * @example 2025-08-08T01:00:00.000Z
+             * @description When the week closes and promotions and demotions are applied
+             * @example 2025-08-11T00:00:00.000Z
              */
-            timestamp: string;
+            endsAt: string;
+            /**
+             * @description False until the learner submits a lesson this week
+             * @example true
+             */
+            joined: boolean;
+            /** @description The learner's cohort ordered by XP this week (empty until joined) */
+            standings: components["schemas"]["LeaderboardStanding"][];
+            /** @description How the learner's most recent finished week ended */
+            lastResult: components["schemas"]["LeagueResult"] | null;
         };
-        PaginationMeta: {
-            /** @example 1 */
-            page: number;
-            /** @example 10 */
-            limit: number;
-            /** @example 25 */
-            total: number;
-            /** @example 3 */
-            totalPages: number;
+        LeaderboardResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Leaderboard"];
         };
         Lesson: {
             /**
@@ -914,6 +4064,26 @@ export interface components {
              * @example 10
              */
             xpReward: number;
+            /**
+             * @description Lesson difficulty level
+             * @example easy
+             * @enum {string}
+             */
+            difficulty: "easy" | "medium" | "hard";
+            /**
+             * @description Percent of a problem's XP lost for every hint revealed
+             * @example 25
+             */
+            hintPenalty: number;
+            /** @description Skills the lesson teaches */
+            skills: components["schemas"]["Skill"][];
+            /** @description Lessons that must be completed before this one unlocks */
+            prerequisites: components["schemas"]["LessonPrerequisite"][];
+            /**
+             * @description Whether every prerequisite is completed (lessons list only)
+             * @example true
+             */
+            isUnlocked?: boolean;
             /**
              * @description Whether lesson is active
              * @example true
@@ -933,6 +4103,20 @@ export interface components {
             updatedAt: string;
             progress?: components["schemas"]["LessonProgress"];
         };
+        Skill: {
+            /** @example skill-addition */
+            id: string;
+            /** @example Addition */
+            name: string;
+            /** @example Adding whole numbers */
+            description: string | null;
+        };
+        LessonPrerequisite: {
+            /** @example lesson-1 */
+            id: string;
+            /** @example Basic Arithmetic */
+            title: string;
+        };
         LessonProgress: {
             /**
              * @description Whether lesson is completed
@@ -971,7 +4155,7 @@ export interface components {
              * @example multiple_choice
              * @enum {string}
              */
-            problemType: "multiple_choice" | "input";
+            problemType: "multiple_choice" | "input" | "true_false" | "multi_select" | "ordering" | "fill_in_blanks" | "number_line";
             /**
              * @description Problem order in lesson
              * @example 1
@@ -983,9 +4167,43 @@ export interface components {
              * @enum {string}
              */
             difficulty: "easy" | "medium" | "hard";
-            /** @description Multiple choice options (if applicable) */
+            /** @description Options for multiple_choice, multi_select and ordering problems (ordering options are shuffled) */
             options?: components["schemas"]["ProblemOption"][];
+            numberLine?: components["schemas"]["NumberLineConfig"];
+            /**
+             * @description Number of "___" blanks in the question (fill_in_blanks only)
+             * @example 2
+             */
+            blankCount?: number;
+            /**
+             * @description Number of hint steps the problem has
+             * @example 2
+             */
+            hintCount: number;
+            /**
+             * @description Hints already revealed during the attempt, in order
+             * @example [
+             *       "Start at 5 and count up 3 more"
+             *     ]
+             */
+            hints: string[];
+        };
+        /** @description Range of the number line (number_line only) */
+        NumberLineConfig: {
+            /** @example 0 */
+            min: number;
+            /** @example 1 */
+            max: number;
+            /** @example 0.125 */
+            step: number;
         };
+        /** @description Answer shape depends on the problem type:
+         *     multiple_choice - option text; input - free text;
+         *     true_false - boolean; multi_select - selected option ids;
+         *     ordering - option ids in order; fill_in_blanks - one string per blank;
+         *     number_line - number
+         *      */
+        AnswerPayload: string | boolean | number | string[];
         ProblemOption: {
             /**
              * @description Unique option identifier
@@ -1013,8 +4231,15 @@ export interface components {
              * @example attempt-123-456
              */
             attemptId: string;
-            /** @description List of user answers */
+            /** @description List of user answers, at most one per problem */
             answers: components["schemas"]["Answer"][];
+            /**
+             * @description Seconds the learner actively spent on the lesson. Must cover the answers' own
+             *     `timeSpent`; when left out it is their sum, if every answer has one.
+             *
+             * @example 95
+             */
+            timeSpent?: number;
         };
         Answer: {
             /**
@@ -1022,11 +4247,12 @@ export interface components {
              * @example problem-1-1
              */
             problemId: string;
+            answer: components["schemas"]["AnswerPayload"];
             /**
-             * @description User's answer to the problem
-             * @example 8
+             * @description Seconds the problem was on screen while the tab was visible
+             * @example 24
              */
-            answer: string;
+            timeSpent?: number;
         };
         SubmitLessonResponse: {
             /**
@@ -1048,6 +4274,8 @@ export interface components {
             lesson: components["schemas"]["LessonResult"];
             /** @description Detailed results for each problem */
             results: components["schemas"]["ProblemResult"][];
+            /** @description Achievements unlocked by this submission */
+            newAchievements: components["schemas"]["Achievement"][];
         };
         StreakInfo: {
             /**
@@ -1078,51 +4306,243 @@ export interface components {
              */
             score: number;
             /**
-             * @description Best score achieved for this lesson
-             * @example 95
+             * @description Best score achieved for this lesson
+             * @example 95
+             */
+            bestScore: number;
+        };
+        ProblemResult: {
+            /**
+             * @description ID of the problem
+             * @example problem-1-1
+             */
+            problemId: string;
+            userAnswer: components["schemas"]["AnswerPayload"];
+            /**
+             * @description Whether the answer was correct
+             * @example true
+             */
+            isCorrect: boolean;
+            /**
+             * @description Why the answer was judged correct or incorrect
+             * @example equivalent_value
+             * @enum {string}
+             */
+            reason: "exact_match" | "equivalent_value" | "within_tolerance" | "equivalent_expression" | "incorrect" | "unparseable_answer" | "no_correct_answer";
+            /**
+             * @description The correct answer, formatted for display
+             * @example 8
+             */
+            correctAnswer: string;
+            /**
+             * @description Explanation of the solution
+             * @example 5 + 3 = 8. Addition combines two numbers.
+             */
+            explanation: string;
+            /**
+             * @description Every hint step, as a worked solution
+             * @example [
+             *       "Start at 5 and count up 3 more",
+             *       "5, 6, 7, 8 - so 5 + 3 = 8"
+             *     ]
+             */
+            solutionSteps: string[];
+            /**
+             * @description Hints revealed before answering
+             * @example 1
+             */
+            hintsUsed: number;
+            /**
+             * @description XP earned for this problem, after the hint penalty
+             * @example 8
+             */
+            xpEarned: number;
+        };
+        LessonListResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["Lesson"][];
+        };
+        LessonResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["LessonWithProblems"];
+        };
+        SubmitLessonResponseWrapper: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["SubmitLessonResponse"];
+        };
+        AttemptReviewOption: components["schemas"]["ProblemOption"] & {
+            /** @example true */
+            isCorrect: boolean;
+            /**
+             * @description Position in the correct sequence (ordering only)
+             * @example null
+             */
+            correctOrder: number | null;
+        };
+        AttemptReviewProblem: components["schemas"]["Problem"] & {
+            /**
+             * @description Revision of the problem the answer was graded against
+             * @example 2
+             */
+            revision: number;
+            options: components["schemas"]["AttemptReviewOption"][];
+            userAnswer: components["schemas"]["AnswerPayload"];
+            /** @example false */
+            isCorrect: boolean;
+            /** @example 0 */
+            xpEarned: number;
+            /**
+             * @description Hints revealed before answering; `hints` holds every step at the time
+             * @example 2
+             */
+            hintsUsed: number;
+            /**
+             * @description The correct answer at the time, formatted for display
+             * @example 8
+             */
+            correctAnswer: string;
+            /** @example 5 + 3 = 8. Addition combines two numbers. */
+            explanation: string;
+        };
+        AttemptReview: {
+            /** @example attempt-123-456 */
+            attemptId: string;
+            /** @example lesson-1 */
+            lessonId: string;
+            /**
+             * @description Revision of the lesson the attempt was graded against
+             * @example 3
+             */
+            lessonRevision: number;
+            /**
+             * @description Lesson title at the time
+             * @example Basic Arithmetic
+             */
+            title: string;
+            /** @example Learn addition and subtraction basics */
+            description: string | null;
+            /**
+             * Format: date-time
+             * @example 2025-08-08T10:30:00.000Z
+             */
+            submittedAt: string;
+            /** @example 75 */
+            score: number;
+            /** @example false */
+            completed: boolean;
+            /** @example 30 */
+            xpEarned: number;
+            /** @example 95 */
+            timeSpent: number | null;
+            /** @description Answered problems as they were shown, in lesson order */
+            problems: components["schemas"]["AttemptReviewProblem"][];
+        };
+        RevealHintRequest: {
+            /**
+             * @description Attempt the lesson was opened for
+             * @example attempt-123-456
              */
-            bestScore: number;
+            attemptId: string;
         };
-        ProblemResult: {
+        CheckAnswerRequest: {
             /**
-             * @description ID of the problem
-             * @example problem-1-1
+             * @description Attempt the lesson was opened for
+             * @example attempt-123-456
              */
+            attemptId: string;
+            answer: components["schemas"]["AnswerPayload"];
+        };
+        /** @description A checked answer; the answer key and worked solution are only sent once the attempt is submitted */
+        AnswerCheck: {
+            /** @example problem-1-1 */
             problemId: string;
+            userAnswer: components["schemas"]["AnswerPayload"];
+            /** @example true */
+            isCorrect: boolean;
             /**
-             * @description User's submitted answer
-             * @example 8
+             * @example exact_match
+             * @enum {string}
              */
-            userAnswer: string;
+            reason: "exact_match" | "equivalent_value" | "within_tolerance" | "equivalent_expression" | "incorrect" | "unparseable_answer" | "no_correct_answer";
+            /** @example 5 + 3 = 8. Addition combines two numbers. */
+            explanation: string;
+            /** @example 0 */
+            hintsUsed: number;
+            /** @example 10 */
+            xpEarned: number;
+        };
+        CheckAnswerResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AnswerCheck"];
+        };
+        HintReveal: {
+            /** @example problem-1-1 */
+            problemId: string;
             /**
-             * @description Whether the answer was correct
-             * @example true
+             * @description Every hint revealed so far, in order
+             * @example [
+             *       "Start at 5 and count up 3 more"
+             *     ]
              */
-            isCorrect: boolean;
+            hints: string[];
+            /** @example 2 */
+            hintCount: number;
             /**
-             * @description The correct answer
+             * @description XP a correct answer still earns
              * @example 8
              */
-            correctAnswer: string;
+            xpAvailable: number;
+        };
+        HintRevealResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["HintReveal"];
+        };
+        AttemptReviewResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AttemptReview"];
+        };
+        AttemptDraft: {
+            /** @example attempt-3f1c2a9e-8d4b-4c1e-9f7a-2b6d5e0c1a3f */
+            attemptId: string;
+            /** @example lesson-1 */
+            lessonId: string;
             /**
-             * @description Explanation of the solution
-             * @example 5 + 3 = 8. Addition combines two numbers.
+             * @description Answers given so far, by problem ID
+             * @example {
+             *       "problem-1-1": "8"
+             *     }
              */
-            explanation: string;
+            answers: {
+                [key: string]: components["schemas"]["AnswerPayload"];
+            };
             /**
-             * @description XP earned for this problem
-             * @example 10
+             * @description Index of the problem the learner is on
+             * @example 1
              */
-            xpEarned: number;
-        };
-        LessonListResponse: components["schemas"]["SuccessResponse"] & {
-            data?: components["schemas"]["Lesson"][];
+            currentIndex: number;
+            /** @description Answers already checked for instant feedback, which are final */
+            checks: components["schemas"]["AnswerCheck"][];
+            /** Format: date-time */
+            startedAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+            /**
+             * Format: date-time
+             * @description When the attempt is dropped if it is not saved again
+             */
+            expiresAt: string;
         };
-        LessonResponse: components["schemas"]["SuccessResponse"] & {
-            data?: components["schemas"]["LessonWithProblems"];
+        SaveAttemptRequest: {
+            /** @example attempt-3f1c2a9e-8d4b-4c1e-9f7a-2b6d5e0c1a3f */
+            attemptId: string;
+            /**
+             * @description Answers so far by problem ID (at most 100); unfinished ones may be empty
+             * @example {
+             *       "problem-1-1": "8"
+             *     }
+             */
+            answers: {
+                [key: string]: components["schemas"]["AnswerPayload"];
+            };
+            /** @example 1 */
+            currentIndex: number;
         };
-        SubmitLessonResponseWrapper: components["schemas"]["SuccessResponse"] & {
-            data?: components["schemas"]["SubmitLessonResponse"];
+        AttemptDraftResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["AttemptDraft"];
         };
         UserProfile: {
             /**
@@ -1214,12 +4634,12 @@ export interface components {
              */
             totalXp: number;
             /**
-             * @description XP earned this week
+             * @description XP earned since Monday in the learner's timezone
              * @example 80
              */
             xpThisWeek: number;
             /**
-             * @description XP earned this month
+             * @description XP earned since the 1st of the month in the learner's timezone
              * @example 250
              */
             xpThisMonth: number;
@@ -1240,10 +4660,10 @@ export interface components {
             averageScore: number;
             streak: components["schemas"]["UserStreak"];
             timeSpent: components["schemas"]["TimeSpent"];
-            /** @description List of user achievements */
+            /** @description Every active achievement, with unlock times for the unlocked ones */
             achievements: components["schemas"]["Achievement"][];
-            /** @description Progress for each day of the current week */
-            weeklyProgress: components["schemas"]["DailyProgress"][];
+            /** @description One entry per day of the requested range, oldest first, including days without activity */
+            dailyProgress: components["schemas"]["DailyProgress"][];
         };
         TimeSpent: {
             /**
@@ -1252,48 +4672,20 @@ export interface components {
              */
             totalMinutes: number;
             /**
-             * @description Time spent this week (minutes)
+             * @description Time spent since Monday (minutes)
              * @example 60
              */
             thisWeekMinutes: number;
             /**
-             * @description Average time per learning session (minutes)
+             * @description Average time per timed lesson attempt (minutes)
              * @example 8.5
              */
             averagePerSession: number;
         };
-        Achievement: {
-            /**
-             * @description Achievement identifier
-             * @example first_lesson
-             */
-            id: string;
-            /**
-             * @description Achievement title
-             * @example First Steps
-             */
-            title: string;
-            /**
-             * @description Achievement description
-             * @example Complete your first lesson
-             */
-            description: string;
-            /**
-             * @description Achievement icon URL
-             * @example https://example.com/badge.png
-             */
-            iconUrl: string;
-            /**
-             * Format: date-time
-             * @description When achievement was unlocked
-             * @example 2025-07-15T10:30:00.000Z
-             */
-            unlockedAt: string;
-        };
         DailyProgress: {
             /**
              * Format: date
-             * @description Date of progress
+             * @description Date in the learner's timezone
              * @example 2025-08-08
              */
             date: string;
@@ -1313,12 +4705,220 @@ export interface components {
              */
             timeSpent: number;
         };
+        SkillMastery: {
+            /** @example skill-addition */
+            skillId: string;
+            /** @example Addition */
+            name: string;
+            /** @example Adding whole numbers */
+            description: string | null;
+            /**
+             * @description Estimated probability the learner knows the skill (Bayesian knowledge tracing)
+             * @example 0.8455
+             */
+            probability: number;
+            /**
+             * @description Mastered from 0.95, developing from 0.5
+             * @example developing
+             * @enum {string}
+             */
+            level: "novice" | "developing" | "mastered";
+            /**
+             * @description Answers that practiced the skill
+             * @example 4
+             */
+            attempts: number;
+            /** @example 3 */
+            correctCount: number;
+            /**
+             * Format: date-time
+             * @example 2025-08-08T01:00:00.000Z
+             */
+            lastPracticedAt: string | null;
+        };
+        SkillMasteryResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["SkillMastery"][];
+        };
         UserProfileResponse: components["schemas"]["SuccessResponse"] & {
             data?: components["schemas"]["UserProfile"];
         };
         UserStatsResponse: components["schemas"]["SuccessResponse"] & {
             data?: components["schemas"]["UserStats"];
         };
+        ReviewItem: {
+            problem: components["schemas"]["Problem"];
+            /** @example lesson-1 */
+            lessonId: string;
+            /** @example Basic Arithmetic */
+            lessonTitle: string;
+            /**
+             * Format: date-time
+             * @example 2025-08-08T01:00:00.000Z
+             */
+            dueAt: string;
+            /**
+             * @description Days between the previous review and dueAt
+             * @example 6
+             */
+            interval: number;
+            /**
+             * @description Correct answers in a row
+             * @example 2
+             */
+            repetitions: number;
+            /**
+             * @description Times the problem was answered incorrectly
+             * @example 1
+             */
+            lapses: number;
+        };
+        ReviewQueue: {
+            /**
+             * @description Problems due now (items holds at most `limit` of them)
+             * @example 12
+             */
+            dueCount: number;
+            /**
+             * Format: date-time
+             * @description When the next problem that is not due yet comes due
+             * @example 2025-08-09T01:00:00.000Z
+             */
+            nextDueAt: string | null;
+            /** @description Due problems, most overdue first */
+            items: components["schemas"]["ReviewItem"][];
+        };
+        SubmitReviewRequest: {
+            /**
+             * @description Practice session the problem was fetched for (idempotency key with problemId)
+             * @example practice-123-456
+             */
+            sessionId: string;
+            /** @example problem-1-1 */
+            problemId: string;
+            answer: components["schemas"]["AnswerPayload"];
+        };
+        ReviewResult: {
+            result: components["schemas"]["ProblemResult"];
+            /**
+             * @description User's total XP after the review
+             * @example 125
+             */
+            totalXp: number;
+            /**
+             * Format: date-time
+             * @description When the problem comes up for review again
+             * @example 2025-08-14T01:00:00.000Z
+             */
+            nextReviewAt: string;
+            /**
+             * @description Days until the next review
+             * @example 6
+             */
+            interval: number;
+        };
+        ReviewQueueResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ReviewQueue"];
+        };
+        ReviewResultResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["ReviewResult"];
+        };
+        StreakSummary: {
+            /**
+             * @description Current streak (0 once a missed day can no longer be covered by freezes)
+             * @example 7
+             */
+            current: number;
+            /**
+             * @description Longest streak ever achieved
+             * @example 15
+             */
+            best: number;
+            /**
+             * @description Streak freezes held; each one covers a missed day automatically
+             * @example 1
+             */
+            freezes: number;
+            /**
+             * @description Most freezes that can be held at once
+             * @example 2
+             */
+            maxFreezes: number;
+            /**
+             * @description XP spent to buy one freeze
+             * @example 50
+             */
+            freezeCost: number;
+            /**
+             * @description Streak lost within the last 3 days that a repair would restore, or null
+             * @example null
+             */
+            repairableStreak: number | null;
+            /**
+             * @description XP spent to repair a lost streak
+             * @example 100
+             */
+            repairCost: number;
+            /**
+             * @description IANA timezone that decides where the learner's days start
+             * @example Asia/Jakarta
+             */
+            timezone: string;
+            /**
+             * Format: date
+             * @description Current date in the learner's timezone
+             * @example 2025-08-08
+             */
+            today: string;
+            /**
+             * Format: date
+             * @description Last active date in the learner's timezone
+             * @example 2025-08-08
+             */
+            lastActiveDate: string | null;
+        };
+        StreakCalendarDay: {
+            /**
+             * Format: date
+             * @example 2025-08-08
+             */
+            date: string;
+            /**
+             * @description active = learned that day, frozen = missed day covered by a freeze,
+             *     repaired = missed day restored with a streak repair
+             *
+             * @enum {string}
+             */
+            status: "active" | "frozen" | "repaired" | "inactive";
+        };
+        StreakCalendar: {
+            /** @example Asia/Jakarta */
+            timezone: string;
+            /**
+             * Format: date
+             * @example 2025-07-10
+             */
+            from: string;
+            /**
+             * Format: date
+             * @example 2025-08-08
+             */
+            to: string;
+            /** @description Every date in the range, oldest first */
+            days: components["schemas"]["StreakCalendarDay"][];
+        };
+        UpdateTimezoneRequest: {
+            /**
+             * @description IANA timezone name
+             * @example America/New_York
+             */
+            timezone: string;
+        };
+        StreakSummaryResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["StreakSummary"];
+        };
+        StreakCalendarResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["StreakCalendar"];
+        };
         HealthStatus: {
             /**
              * @description Current health status
@@ -1469,6 +5069,13 @@ export interface components {
              */
             prerequisites: string[];
         };
+        /** @description Experiment variant the recommendations were generated for, if any */
+        RecommendationExperiment: {
+            /** @example recommendation-strategy-2025-08 */
+            key: string;
+            /** @example treatment */
+            variant: string;
+        } | null;
         AdaptiveLearningPath: {
             /**
              * @description User ID for recommendations
@@ -1481,6 +5088,13 @@ export interface components {
              * @example 2025-08-09T10:30:00.000Z
              */
             generatedAt: string;
+            /**
+             * @description Strategy used to order the recommendations
+             * @example weighted
+             * @enum {string}
+             */
+            strategy: "weighted" | "mastery_first" | "sequential";
+            experiment: components["schemas"]["RecommendationExperiment"];
             learningPattern: components["schemas"]["LearningPattern"];
             /** @description List of recommended lessons */
             recommendations: components["schemas"]["LessonRecommendation"][];
@@ -1500,6 +5114,116 @@ export interface components {
              */
             learningGoals: string[];
         };
+        RecommendationWeights: {
+            /** @example 0.3 */
+            performanceWeight: number;
+            /** @example 0.25 */
+            difficultyPreferenceWeight: number;
+            /** @example 0.15 */
+            timeAvailabilityWeight: number;
+            /** @example 0.15 */
+            streakMaintenanceWeight: number;
+            /** @example 0.15 */
+            noveltyWeight: number;
+        };
+        /** @description Factor scores (0-100) combined by the weights */
+        RecommendationFactors: {
+            /**
+             * @description Room to improve, from skill mastery and the lesson's score
+             * @example 80
+             */
+            performance: number;
+            /**
+             * @description How close the lesson is to the learner's preferred difficulty
+             * @example 100
+             */
+            difficultyPreference: number;
+            /**
+             * @description How well the lesson fits the minutes the learner spends a day
+             * @example 67
+             */
+            timeAvailability: number;
+            /**
+             * @description Favours quick wins while the streak still needs today's activity
+             * @example 50
+             */
+            streakMaintenance: number;
+            /**
+             * @description New lessons over started or completed ones
+             * @example 100
+             */
+            novelty: number;
+        };
+        ScoreAdjustment: {
+            /** @example Prerequisites just completed */
+            reason: string;
+            /** @example 10 */
+            points: number;
+        };
+        ScoreBreakdown: {
+            factors: components["schemas"]["RecommendationFactors"];
+            /**
+             * @description Weighted sum of the factor scores
+             * @example 80
+             */
+            weightedScore: number;
+            adjustments: components["schemas"]["ScoreAdjustment"][];
+            /**
+             * @description Weighted score plus adjustments, clamped to 0-100 (the confidence score)
+             * @example 90
+             */
+            totalScore: number;
+        };
+        RankedLessonDebug: {
+            /** @example 1 */
+            rank: number;
+            /** @example lesson-2 */
+            lessonId: string;
+            /** @example Intermediate Algebra */
+            title: string;
+            /** @example medium */
+            difficulty: string;
+            /** @example true */
+            isUnlocked: boolean;
+            /** @example Next in your learning sequence */
+            recommendationReason: string;
+            breakdown: components["schemas"]["ScoreBreakdown"];
+        };
+        ExcludedLessonDebug: {
+            /** @example lesson-1 */
+            lessonId: string;
+            /** @example Basic Arithmetic */
+            title: string;
+            /** @example Completed with 95% */
+            reason: string;
+        };
+        RecommendationDebug: {
+            /** @example 1 */
+            userId: string;
+            /**
+             * Format: date-time
+             * @example 2025-08-09T10:30:00.000Z
+             */
+            generatedAt: string;
+            /**
+             * @example weighted
+             * @enum {string}
+             */
+            strategy: "weighted" | "mastery_first" | "sequential";
+            experiment: components["schemas"]["RecommendationExperiment"];
+            weights: components["schemas"]["RecommendationWeights"];
+            /** @description Learning analytics the pattern was derived from (streak, XP, time spent, accuracy by difficulty) */
+            analytics: {
+                [key: string]: unknown;
+            };
+            learningPattern: components["schemas"]["LearningPattern"];
+            /** @description Every scored lesson, best first */
+            rankedLessons: components["schemas"]["RankedLessonDebug"][];
+            excludedLessons: components["schemas"]["ExcludedLessonDebug"][];
+        };
+        RecommendationDebugResponse: components["schemas"]["SuccessResponse"] & {
+            data?: components["schemas"]["RecommendationDebug"];
+        };
         User: {
             /**
              * Format: int64
@@ -1518,6 +5242,12 @@ export interface components {
              * @example john@example.com
              */
             email: string;
+            /**
+             * @description Role deciding which permissions the user holds
+             * @example learner
+             * @enum {string}
+             */
+            role?: "learner" | "teacher" | "admin";
             /**
              * Format: date-time
              * @description User creation timestamp
@@ -1557,6 +5287,12 @@ export interface components {
              * @example john@example.com
              */
             email?: string;
+            /**
+             * @description New role; takes effect when the user's access token is next refreshed
+             * @example teacher
+             * @enum {string}
+             */
+            role?: "learner" | "teacher" | "admin";
         };
         UserResponse: components["schemas"]["SuccessResponse"] & {
             data?: components["schemas"]["User"];
@@ -1576,6 +5312,24 @@ export interface components {
                 "application/json": components["schemas"]["ValidationError"];
             };
         };
+        /** @description Missing, invalid or expired access token */
+        Unauthorized: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["Error"];
+            };
+        };
+        /** @description Authenticated but not allowed to perform this action */
+        Forbidden: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["Error"];
+            };
+        };
         /** @description Resource not found */
         NotFound: {
             headers: {
@@ -1595,7 +5349,13 @@ export interface components {
             };
         };
     };
-    parameters: never;
+    parameters: {
+        AuthoringLessonId: string;
+        AuthoringProblemId: string;
+        AuthoringOptionId: string;
+        ClassroomId: string;
+        ClassroomAssignmentId: string;
+    };
     requestBodies: never;
     headers: never;
     pathItems: never;
@@ -1,4 +1,5 @@
 import apiClient, { getErrorMessage } from './client-openapi';
+import { tokenStorage } from './auth-session';
 import type { components } from './schema';
 
 /**
@@ -8,13 +9,96 @@ type Lesson = components['schemas']['Lesson'];
 type LessonWithProblems = components['schemas']['LessonWithProblems'];
 type Problem = components['schemas']['Problem'];
 type ProblemOption = components['schemas']['ProblemOption'];
+type AnswerPayload = components['schemas']['AnswerPayload'];
 type SubmitLessonRequest = components['schemas']['SubmitLessonRequest'];
 type SubmitLessonResponse = components['schemas']['SubmitLessonResponse'];
+type HintReveal = components['schemas']['HintReveal'];
+type CheckedAnswer = components['schemas']['AnswerCheck'];
+type Achievement = components['schemas']['Achievement'];
+type AttemptDraft = components['schemas']['AttemptDraft'];
+type SaveAttemptRequest = components['schemas']['SaveAttemptRequest'];
 type UserProfile = components['schemas']['UserProfile'];
 type UserStats = components['schemas']['UserStats'];
+type SkillMastery = components['schemas']['SkillMastery'];
 type HealthStatus = components['schemas']['HealthStatus'];
 type LessonRecommendation = components['schemas']['LessonRecommendation'];
 type AdaptiveLearningPath = components['schemas']['AdaptiveLearningPath'];
+type Leaderboard = components['schemas']['Leaderboard'];
+type LeaderboardStanding = components['schemas']['LeaderboardStanding'];
+type ReviewQueue = components['schemas']['ReviewQueue'];
+type ReviewItem = components['schemas']['ReviewItem'];
+type SubmitReviewRequest = components['schemas']['SubmitReviewRequest'];
+type ReviewResult = components['schemas']['ReviewResult'];
+type LoginRequest = components['schemas']['LoginRequest'];
+type AuthUser = components['schemas']['AuthUser'];
+type AuthTokens = components['schemas']['AuthTokens'];
+
+/**
+ * Auth API Services using OpenAPI-fetch
+ */
+export const authService = {
+  /**
+   * Log in and store the issued token pair
+   * POST /api/auth/login
+   */
+  login: async (credentials: LoginRequest): Promise<AuthTokens> => {
+    const { data, error } = await apiClient.POST('/api/auth/login', {
+      body: credentials
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const tokens = data?.data;
+    if (!tokens) {
+      throw new Error('Failed to log in');
+    }
+
+    tokenStorage.setTokens(tokens);
+    return tokens;
+  },
+
+  /**
+   * Revoke the stored refresh token and clear local tokens
+   * POST /api/auth/logout
+   */
+  logout: async (): Promise<void> => {
+    const refreshToken = tokenStorage.getRefreshToken();
+    tokenStorage.clear();
+
+    if (!refreshToken) {
+      return;
+    }
+
+    const { error } = await apiClient.POST('/api/auth/logout', {
+      body: { refreshToken }
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get the authenticated user
+   * GET /api/auth/me
+   */
+  getCurrentUser: async (): Promise<AuthUser> => {
+    const { data, error } = await apiClient.GET('/api/auth/me', {});
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const user = data?.data;
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  },
+};
 
 /**
  * Lesson API Services using OpenAPI-fetch
@@ -22,14 +106,10 @@ type AdaptiveLearningPath = components['schemas']['AdaptiveLearningPath'];
 export const lessonService = {
   /**
    * Get all lessons with progress indicators
-   * GET /api/lessons?userId=1
+   * GET /api/lessons
    */
-  getAllLessons: async (userId: number = 1): Promise<Lesson[]> => {
-    const { data, error } = await apiClient.GET('/api/lessons', {
-      params: {
-        query: { userId: userId.toString() }
-      }
-    });
+  getAllLessons: async (): Promise<Lesson[]> => {
+    const { data, error } = await apiClient.GET('/api/lessons', {});
 
     if (error) {
       throw new Error(getErrorMessage(error));
@@ -62,19 +142,121 @@ export const lessonService = {
     return lesson;
   },
 
+  /**
+   * Resume the attempt in progress for a lesson, or start one
+   * GET /api/lessons/:id/attempt
+   */
+  getAttempt: async (lessonId: string | number): Promise<AttemptDraft> => {
+    const { data, error } = await apiClient.GET('/api/lessons/{id}/attempt', {
+      params: {
+        path: { id: lessonId.toString() }
+      }
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const attempt = data?.data;
+    if (!attempt) {
+      throw new Error('Failed to start attempt');
+    }
+
+    return attempt;
+  },
+
+  /**
+   * Autosave the answers and position of the attempt in progress
+   * PUT /api/lessons/:id/attempt
+   */
+  saveAttempt: async (lessonId: string | number, draft: SaveAttemptRequest): Promise<AttemptDraft> => {
+    const { data, error } = await apiClient.PUT('/api/lessons/{id}/attempt', {
+      params: {
+        path: { id: lessonId.toString() }
+      },
+      body: draft
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const attempt = data?.data;
+    if (!attempt) {
+      throw new Error('Failed to save attempt');
+    }
+
+    return attempt;
+  },
+
+  /**
+   * Check one answer during an attempt; the first check of a problem is final
+   * POST /api/lessons/:id/problems/:problemId/check
+   */
+  checkAnswer: async (
+    lessonId: string | number,
+    problemId: string,
+    attemptId: string,
+    answer: AnswerPayload
+  ): Promise<CheckedAnswer> => {
+    const { data, error } = await apiClient.POST('/api/lessons/{id}/problems/{problemId}/check', {
+      params: {
+        path: { id: lessonId.toString(), problemId }
+      },
+      body: { attemptId, answer }
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const result = data?.data;
+    if (!result) {
+      throw new Error('Failed to check answer');
+    }
+
+    return result;
+  },
+
+  /**
+   * Reveal the next hint step of a problem for an attempt
+   * POST /api/lessons/:id/problems/:problemId/hints
+   */
+  revealHint: async (
+    lessonId: string | number,
+    problemId: string,
+    attemptId: string
+  ): Promise<HintReveal> => {
+    const { data, error } = await apiClient.POST('/api/lessons/{id}/problems/{problemId}/hints', {
+      params: {
+        path: { id: lessonId.toString(), problemId }
+      },
+      body: { attemptId }
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const result = data?.data;
+    if (!result) {
+      throw new Error('Failed to reveal hint');
+    }
+
+    return result;
+  },
+
   /**
    * Submit lesson answers and get results
    * POST /api/lessons/:id/submit
    */
   submitLesson: async (
     lessonId: string | number,
-    submission: SubmitLessonRequest,
-    userId: number = 1
+    submission: SubmitLessonRequest
   ): Promise<SubmitLessonResponse> => {
     const { data, error } = await apiClient.POST('/api/lessons/{id}/submit', {
       params: {
-        path: { id: lessonId.toString() },
-        query: { userId: userId.toString() }
+        path: { id: lessonId.toString() }
       },
       body: submission
     });
@@ -119,12 +301,8 @@ export const profileService = {
    * Get user profile with math learning stats
    * GET /api/profile
    */
-  getUserProfile: async (userId: number = 1): Promise<UserProfile> => {
-    const { data, error } = await apiClient.GET('/api/profile', {
-      params: {
-        query: { userId: userId.toString() }
-      }
-    });
+  getUserProfile: async (): Promise<UserProfile> => {
+    const { data, error } = await apiClient.GET('/api/profile', {});
 
     if (error) {
       throw new Error(getErrorMessage(error));
@@ -139,13 +317,13 @@ export const profileService = {
   },
 
   /**
-   * Get detailed user learning statistics
+   * Get detailed user learning statistics, with daily progress for the last `days` days
    * GET /api/profile/stats
    */
-  getUserStats: async (userId: number = 1): Promise<UserStats> => {
+  getUserStats: async (days?: number): Promise<UserStats> => {
     const { data, error } = await apiClient.GET('/api/profile/stats', {
       params: {
-        query: { userId: userId.toString() }
+        query: { days }
       }
     });
 
@@ -160,6 +338,20 @@ export const profileService = {
 
     return stats;
   },
+
+  /**
+   * Get the learner's estimated mastery of each skill
+   * GET /api/profile/mastery
+   */
+  getSkillMastery: async (): Promise<SkillMastery[]> => {
+    const { data, error } = await apiClient.GET('/api/profile/mastery', {});
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    return data?.data ?? [];
+  },
 };
 
 /**
@@ -193,13 +385,14 @@ export const recommendationService = {
   /**
    * Get adaptive learning path recommendations
    * GET /api/recommendations
+   * @param maxAge - Oldest cached learning path to accept, in seconds (0 forces a recompute)
    */
-  getRecommendations: async (userId: number = 1, limit?: number): Promise<AdaptiveLearningPath> => {
+  getRecommendations: async (limit?: number, maxAge?: number): Promise<AdaptiveLearningPath> => {
     const { data, error } = await apiClient.GET('/api/recommendations', {
       params: {
         query: {
-          userId: userId.toString(),
-          ...(limit && { limit })
+          ...(limit && { limit }),
+          ...(maxAge !== undefined && { maxAge })
         }
       }
     });
@@ -217,6 +410,79 @@ export const recommendationService = {
   },
 };
 
+/**
+ * Leaderboard API Services using OpenAPI-fetch
+ */
+export const leaderboardService = {
+  /**
+   * Get this week's league leaderboard
+   * GET /api/leaderboards
+   */
+  getCurrent: async (): Promise<Leaderboard> => {
+    const { data, error } = await apiClient.GET('/api/leaderboards', {});
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const leaderboard = data?.data;
+    if (!leaderboard) {
+      throw new Error('Failed to get leaderboard');
+    }
+
+    return leaderboard;
+  },
+};
+
+/**
+ * Review API Services using OpenAPI-fetch
+ */
+export const reviewService = {
+  /**
+   * Get the missed problems due for review, instantiated for a practice session
+   * GET /api/reviews/due
+   */
+  getDue: async (sessionId: string, limit?: number): Promise<ReviewQueue> => {
+    const { data, error } = await apiClient.GET('/api/reviews/due', {
+      params: {
+        query: { sessionId, limit }
+      }
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const queue = data?.data;
+    if (!queue) {
+      throw new Error('Failed to get due reviews');
+    }
+
+    return queue;
+  },
+
+  /**
+   * Submit one review answer
+   * POST /api/reviews/submit
+   */
+  submitReview: async (review: SubmitReviewRequest): Promise<ReviewResult> => {
+    const { data, error } = await apiClient.POST('/api/reviews/submit', {
+      body: review
+    });
+
+    if (error) {
+      throw new Error(getErrorMessage(error));
+    }
+
+    const result = data?.data;
+    if (!result) {
+      throw new Error('Failed to submit review');
+    }
+
+    return result;
+  },
+};
+
 /**
  * Utility Functions
  */
@@ -284,11 +550,27 @@ export type {
   LessonWithProblems,
   Problem,
   ProblemOption,
+  AnswerPayload,
   SubmitLessonRequest,
   SubmitLessonResponse,
+  HintReveal,
+  CheckedAnswer,
+  Achievement,
+  AttemptDraft,
+  SaveAttemptRequest,
   UserProfile,
   UserStats,
+  SkillMastery,
   HealthStatus,
   LessonRecommendation,
   AdaptiveLearningPath,
+  Leaderboard,
+  LeaderboardStanding,
+  ReviewQueue,
+  ReviewItem,
+  SubmitReviewRequest,
+  ReviewResult,
+  LoginRequest,
+  AuthUser,
+  AuthTokens,
 };
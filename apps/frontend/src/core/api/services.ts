@@ -17,12 +17,10 @@ import type {
 export const lessonService = {
   /**
    * Get all lessons with progress indicators
-   * GET /api/lessons?userId=1
+   * GET /api/lessons
    */
-  getAllLessons: async (userId: number = 1): Promise<LessonListItem[]> => {
-    const response = await apiClient.get(API_ENDPOINTS.LESSONS, {
-      params: { userId }
-    });
+  getAllLessons: async (): Promise<LessonListItem[]> => {
+    const response = await apiClient.get(API_ENDPOINTS.LESSONS);
     // Backend wraps response in { success, data, message, timestamp }
     return response.data.data || [];
   },
@@ -43,15 +41,11 @@ export const lessonService = {
    */
   submitLesson: async (
     lessonId: string | number,
-    submission: SubmissionRequest,
-    userId: number = 1
+    submission: SubmissionRequest
   ): Promise<SubmissionResponse> => {
     const response = await apiClient.post(
       API_ENDPOINTS.LESSON_SUBMIT(lessonId),
-      submission,
-      {
-        params: { userId }
-      }
+      submission
     );
     // Backend wraps response in { success, data, message, timestamp }
     return response.data.data;
@@ -76,22 +70,18 @@ export const profileService = {
    * Get user profile with math learning stats
    * GET /api/profile
    */
-  getUserProfile: async (userId: number = 1): Promise<UserProfile> => {
-    const response = await apiClient.get(API_ENDPOINTS.PROFILE, {
-      params: { userId }
-    });
+  getUserProfile: async (): Promise<UserProfile> => {
+    const response = await apiClient.get(API_ENDPOINTS.PROFILE);
     // Backend wraps response in { success, data, message, timestamp }
     return response.data.data;
   },
 
   /**
    * Get detailed user learning statistics
-   * GET /api/profile/stats/:id
+   * GET /api/profile/stats
    */
-  getUserStats: async (userId: number = 1): Promise<UserStats> => {
-    const response = await apiClient.get(API_ENDPOINTS.PROFILE_STATS, {
-      params: { userId }
-    });
+  getUserStats: async (): Promise<UserStats> => {
+    const response = await apiClient.get(API_ENDPOINTS.PROFILE_STATS);
     // Backend wraps response in { success, data, message, timestamp }
     return response.data.data;
   },
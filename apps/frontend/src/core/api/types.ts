@@ -146,12 +146,21 @@ export const QUERY_KEYS = {
   // Lessons
   LESSONS: ['lessons'] as const,
   LESSON_DETAIL: (id: string | number) => ['lessons', id] as const,
+  LESSON_ATTEMPT: (id: string | number) => ['lessons', id, 'attempt'] as const,
   LESSON_STATS: ['lessons', 'stats'] as const,
   
   // Profile
   PROFILE: ['profile'] as const,
   PROFILE_STATS: ['profile', 'stats'] as const,
+  PROFILE_MASTERY: ['profile', 'mastery'] as const,
+
+  // Recommendations
+  RECOMMENDATIONS: ['recommendations'] as const,
+  RECOMMENDATIONS_LIST: (limit?: number) => ['recommendations', limit] as const,
   
+  // Auth
+  CURRENT_USER: ['auth', 'me'] as const,
+
   // Health
   HEALTH: ['health'] as const,
   HEALTH_DETAILED: ['health', 'detailed'] as const,
@@ -10,6 +10,9 @@ import enLessons from './locales/en/lessons.json';
 import enProfile from './locales/en/profile.json';
 import enResults from './locales/en/results.json';
 import enRecommendations from './locales/en/recommendations.json';
+import enLeaderboard from './locales/en/leaderboard.json';
+import enPractice from './locales/en/practice.json';
+import enAuth from './locales/en/auth.json';
 
 import idCommon from './locales/id/common.json';
 import idNavigation from './locales/id/navigation.json';
@@ -17,6 +20,9 @@ import idLessons from './locales/id/lessons.json';
 import idProfile from './locales/id/profile.json';
 import idResults from './locales/id/results.json';
 import idRecommendations from './locales/id/recommendations.json';
+import idLeaderboard from './locales/id/leaderboard.json';
+import idPractice from './locales/id/practice.json';
+import idAuth from './locales/id/auth.json';
 
 // Supported languages configuration
 export const SUPPORTED_LANGUAGES = {
@@ -48,6 +54,9 @@ const resources = {
     profile: enProfile,
     results: enResults,
     recommendations: enRecommendations,
+    leaderboard: enLeaderboard,
+    practice: enPractice,
+    auth: enAuth,
   },
   id: {
     common: idCommon,
@@ -56,6 +65,9 @@ const resources = {
     profile: idProfile,
     results: idResults,
     recommendations: idRecommendations,
+    leaderboard: idLeaderboard,
+    practice: idPractice,
+    auth: idAuth,
   },
 };
 
@@ -108,6 +108,9 @@ export function useLocalizedRoutes() {
     profile: getLocalizedPath('/profile'),
     results: getLocalizedPath('/results'),
     recommendations: getLocalizedPath('/recommendations'),
+    leaderboard: getLocalizedPath('/leaderboard'),
+    practice: getLocalizedPath('/practice'),
+    login: getLocalizedPath('/login'),
     
     // Legacy Routes
     home: getLocalizedPath('/home'),
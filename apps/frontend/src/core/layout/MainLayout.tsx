@@ -1,9 +1,10 @@
 import { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { BookOpen, User, Calculator, Target } from 'lucide-react';
+import { BookOpen, User, Calculator, Target, Trophy, Repeat, LogOut } from 'lucide-react';
 import { NetworkStatus } from '@/core/pwa';
 import { useTranslation, useLocalizedRoutes, LanguageSwitcher } from '@/core/i18n';
 import { SkipToContent, AccessibilityAnnouncer } from '@/core/seo';
+import { useAuth } from '@/features/auth';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -17,10 +18,13 @@ export const MainLayout = ({ children }: MainLayoutProps) => {
   const location = useLocation();
   const { t } = useTranslation('navigation');
   const { routes } = useLocalizedRoutes();
+  const { isAuthenticated, actions } = useAuth();
 
   const navigationItems = [
     { path: routes.lessons, label: t('lessons', { defaultValue: 'Lessons' }), icon: BookOpen },
     { path: routes.recommendations, label: t('recommendations', { defaultValue: 'Recommendations' }), icon: Target },
+    { path: routes.practice, label: t('practice', { defaultValue: 'Practice' }), icon: Repeat },
+    { path: routes.leaderboard, label: t('leaderboard', { defaultValue: 'Leaderboard' }), icon: Trophy },
     { path: routes.profile, label: t('profile', { defaultValue: 'Profile' }), icon: User },
   ];
 
@@ -76,6 +80,17 @@ export const MainLayout = ({ children }: MainLayoutProps) => {
           <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
             <LanguageSwitcher variant="minimal" className="text-xs sm:text-sm" />
             <NetworkStatus />
+            {isAuthenticated && (
+              <button
+                type="button"
+                onClick={() => actions.logout()}
+                className="flex items-center gap-1 px-2 py-2 rounded-md text-white/90 hover:bg-white/15 hover:text-white transition-all duration-200"
+                aria-label={t('sidebar.logout', { defaultValue: 'Logout' })}
+                title={t('sidebar.logout', { defaultValue: 'Logout' })}
+              >
+                <LogOut className="w-4 h-4 sm:w-5 sm:h-5" />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -4,6 +4,7 @@ import { MainLayout } from '@/core/layout/MainLayout';
 import { ErrorBoundary } from '@/core/layout/ErrorBoundary';
 import { LoadingSpinner } from '@/core/layout/LoadingSpinner';
 import { I18nRouteWrapper } from '@/core/i18n';
+import { RequireAuth } from '@/features/auth';
 
 // Lazy load components for better performance
 // Math Learning App Pages
@@ -12,6 +13,9 @@ const LessonDetailPage = lazy(() => import('@/features/lessons/pages/LessonDetai
 const ProfilePage = lazy(() => import('@/features/profile/pages/ProfilePage'));
 const ResultsPage = lazy(() => import('@/features/results/pages/ResultsPage'));
 const RecommendationsPage = lazy(() => import('@/features/recommendations/pages/RecommendationsPage'));
+const LeaderboardPage = lazy(() => import('@/features/leaderboard/pages/LeaderboardPage'));
+const PracticePage = lazy(() => import('@/features/practice/pages/PracticePage'));
+const LoginPage = lazy(() => import('@/features/auth/pages/LoginPage'));
 
 const NotFoundPage = lazy(() => import('@/core/layout/NotFoundPage'));
 
@@ -46,37 +50,11 @@ export const router = createBrowserRouter([
     children: [
       // Default language routes (English) - Main App Routes
       {
-        index: true,
-        element: <LessonsListPage />,
+        path: 'login',
+        element: <LoginPage />,
       },
       {
-        path: 'lessons',
-        children: [
-          {
-            index: true,
-            element: <LessonsListPage />,
-          },
-          {
-            path: ':id',
-            element: <LessonDetailPage />,
-          },
-        ],
-      },
-      {
-        path: 'profile',
-        element: <ProfilePage />,
-      },
-      {
-        path: 'results',
-        element: <ResultsPage />,
-      },
-      {
-        path: 'recommendations',
-        element: <RecommendationsPage />,
-      },
-      // Internationalized routes with language prefix
-      {
-        path: ':lang',
+        element: <RequireAuth />,
         children: [
           {
             index: true,
@@ -107,6 +85,66 @@ export const router = createBrowserRouter([
             path: 'recommendations',
             element: <RecommendationsPage />,
           },
+          {
+            path: 'leaderboard',
+            element: <LeaderboardPage />,
+          },
+          {
+            path: 'practice',
+            element: <PracticePage />,
+          },
+        ],
+      },
+      // Internationalized routes with language prefix
+      {
+        path: ':lang',
+        children: [
+          {
+            path: 'login',
+            element: <LoginPage />,
+          },
+          {
+            element: <RequireAuth />,
+            children: [
+              {
+                index: true,
+                element: <LessonsListPage />,
+              },
+              {
+                path: 'lessons',
+                children: [
+                  {
+                    index: true,
+                    element: <LessonsListPage />,
+                  },
+                  {
+                    path: ':id',
+                    element: <LessonDetailPage />,
+                  },
+                ],
+              },
+              {
+                path: 'profile',
+                element: <ProfilePage />,
+              },
+              {
+                path: 'results',
+                element: <ResultsPage />,
+              },
+              {
+                path: 'recommendations',
+                element: <RecommendationsPage />,
+              },
+              {
+                path: 'leaderboard',
+                element: <LeaderboardPage />,
+              },
+              {
+                path: 'practice',
+                element: <PracticePage />,
+              },
+            ],
+          },
         ],
       },
       // Catch-all for 404
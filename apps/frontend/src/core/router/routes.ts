@@ -11,6 +11,9 @@ export const ROUTES = {
   PROFILE: "/profile",
   RESULTS: "/results",
   RECOMMENDATIONS: "/recommendations",
+  LEADERBOARD: "/leaderboard",
+  PRACTICE: "/practice",
+  LOGIN: "/login",
 
   NOT_FOUND: "*",
 } as const;
@@ -23,6 +26,9 @@ export const I18N_ROUTES = {
   PROFILE: "/:lang?/profile",
   RESULTS: "/:lang?/results",
   RECOMMENDATIONS: "/:lang?/recommendations",
+  LEADERBOARD: "/:lang?/leaderboard",
+  PRACTICE: "/:lang?/practice",
+  LOGIN: "/:lang?/login",
 
   NOT_FOUND: "*",
 } as const;
@@ -79,6 +85,9 @@ export const routeUtils = {
       "/profile": "Profile",
       "/results": "Results",
       "/recommendations": "Learning Recommendations",
+      "/leaderboard": "Leaderboard",
+      "/practice": "Practice",
+      "/login": "Log In",
       "/home": "Home",
       "/users": "Users",
       "/users/:id": "User Details",
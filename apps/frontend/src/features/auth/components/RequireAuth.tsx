@@ -0,0 +1,28 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { LoadingSpinner } from '@/core/layout/LoadingSpinner';
+import { useLocalizedRoutes } from '@/core/i18n';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Require Auth
+ * Layout route that renders its children only for an authenticated session
+ * Anonymous visitors are sent to the login page and returned afterwards
+ */
+export const RequireAuth: React.FC = () => {
+  const { isAuthenticated, isLoading } = useAuth();
+  const { routes } = useLocalizedRoutes();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to={routes.login} replace state={{ from: location }} />;
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
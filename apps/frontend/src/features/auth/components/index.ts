@@ -0,0 +1 @@
+export { RequireAuth } from './RequireAuth';
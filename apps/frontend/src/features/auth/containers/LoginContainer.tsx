@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import { LogIn } from 'lucide-react';
+import { Button, ErrorMessage } from '@/core/components';
+import { useTranslation, useLocalizedRoutes } from '@/core/i18n';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Login Container
+ * Email/password form; returns the user to the page that required login
+ */
+export const LoginContainer: React.FC = () => {
+  const { t } = useTranslation('auth');
+  const { routes } = useLocalizedRoutes();
+  const { isAuthenticated, loginState, actions } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : routes.lessons;
+
+  if (isAuthenticated && !loginState.isPending) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await actions.login({ email, password });
+      navigate(redirectTo, { replace: true });
+    } catch {
+      // Error is surfaced through loginState
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 sm:p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center">
+          <LogIn className="w-5 h-5 text-indigo-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">{t('login.title')}</h2>
+          <p className="text-sm text-gray-500">{t('login.subtitle')}</p>
+        </div>
+      </div>
+
+      {loginState.error && (
+        <div className="mb-4">
+          <ErrorMessage error={t('login.failed')} showRetry={false} />
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="login-email" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('login.email')}
+          </label>
+          <input
+            id="login-email"
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('login.password')}
+          </label>
+          <input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <Button type="submit" loading={loginState.isPending} className="w-full">
+          {t('login.submit')}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { LoginContainer } from './LoginContainer';
@@ -0,0 +1,122 @@
+import React, { createContext, useContext, ReactNode, useMemo, useCallback, useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { authService, tokenStorage, SESSION_EXPIRED_EVENT, QUERY_KEYS } from '@/core/api';
+import type { AuthUser, LoginRequest } from '@/core/api';
+
+/**
+ * Auth Context Types
+ */
+interface AuthContextType {
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  loginState: {
+    isPending: boolean;
+    error: Error | null;
+  };
+  actions: {
+    login: (credentials: LoginRequest) => Promise<void>;
+    logout: () => Promise<void>;
+  };
+}
+
+/**
+ * Auth Context
+ */
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Auth Context Provider Props
+ */
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Auth Context Provider
+ * Owns the session: stored tokens, the current user and login/logout
+ * Cached queries are cleared whenever the user changes so data never leaks between accounts
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const [hasSession, setHasSession] = useState(() => tokenStorage.hasSession());
+
+  // React Query for the current user
+  const currentUserQuery = useQuery({
+    queryKey: QUERY_KEYS.CURRENT_USER,
+    queryFn: () => authService.getCurrentUser(),
+    enabled: hasSession,
+    retry: false,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: LoginRequest) => authService.login(credentials),
+    onSuccess: (tokens) => {
+      queryClient.clear();
+      queryClient.setQueryData(QUERY_KEYS.CURRENT_USER, tokens.user);
+      setHasSession(true);
+    },
+  });
+
+  // The API clients end the session when a refresh token is rejected
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      queryClient.clear();
+      setHasSession(false);
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, [queryClient]);
+
+  const login = useCallback(async (credentials: LoginRequest) => {
+    await loginMutation.mutateAsync(credentials);
+  }, [loginMutation]);
+
+  const logout = useCallback(async () => {
+    try {
+      await authService.logout();
+    } catch (error) {
+      // Local tokens are already cleared; a failed revoke only leaves the token to expire
+      console.error('Failed to revoke refresh token:', error);
+    } finally {
+      queryClient.clear();
+      setHasSession(false);
+    }
+  }, [queryClient]);
+
+  const actions = useMemo(() => ({ login, logout }), [login, logout]);
+
+  const contextValue = useMemo(() => ({
+    user: currentUserQuery.data || null,
+    isAuthenticated: hasSession,
+    isLoading: hasSession && currentUserQuery.isLoading,
+    loginState: {
+      isPending: loginMutation.isPending,
+      error: loginMutation.error,
+    },
+    actions,
+  }), [
+    currentUserQuery.data, currentUserQuery.isLoading, hasSession,
+    loginMutation.isPending, loginMutation.error,
+    actions
+  ]);
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+/**
+ * Hook to use Auth Context
+ */
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
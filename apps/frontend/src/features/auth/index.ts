@@ -0,0 +1,6 @@
+// Context-based exports
+export { AuthProvider, useAuth } from './context/AuthContext';
+export * from './containers';
+
+// Component exports
+export * from './components';
@@ -0,0 +1,19 @@
+import React from 'react';
+import { LoginContainer } from '../containers/LoginContainer';
+
+/**
+ * Login Page
+ * Entry point for anonymous visitors
+ */
+const LoginPage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Main Content */}
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <LoginContainer />
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { LeaderboardStanding } from '@/core/api';
+import { useTranslation } from '@/core/i18n';
+
+/**
+ * Standing Row Props
+ */
+interface StandingRowProps {
+  standing: LeaderboardStanding;
+}
+
+const ZONE_STYLES: Record<LeaderboardStanding['zone'], string> = {
+  promotion: 'border-green-200 bg-green-50',
+  safe: 'border-gray-200 bg-white',
+  demotion: 'border-red-200 bg-red-50',
+};
+
+/**
+ * Standing Row
+ * One learner's rank and weekly XP, tinted by promotion/demotion zone
+ */
+const StandingRow: React.FC<StandingRowProps> = ({ standing }) => {
+  const { t } = useTranslation('leaderboard');
+
+  return (
+    <li
+      className={`flex items-center justify-between p-3 border rounded-lg ${ZONE_STYLES[standing.zone]} ${
+        standing.isCurrentUser ? 'ring-2 ring-indigo-400' : ''
+      }`}
+    >
+      <div className="flex items-center space-x-3 min-w-0">
+        <span className="w-8 text-center font-bold text-gray-700">{standing.rank}</span>
+        {standing.avatar ? (
+          <img src={standing.avatar} alt="" className="w-8 h-8 rounded-full" />
+        ) : (
+          <span className="w-8 h-8 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-semibold">
+            {standing.displayName.charAt(0).toUpperCase()}
+          </span>
+        )}
+        <span className="font-medium text-gray-900 truncate">
+          {standing.displayName}
+          {standing.isCurrentUser && <span className="ml-2 text-sm text-indigo-600">({t('standings.you')})</span>}
+        </span>
+      </div>
+      <span className="font-semibold text-yellow-600 whitespace-nowrap">
+        {t('standings.xp', { xp: standing.xp })}
+      </span>
+    </li>
+  );
+};
+
+export default StandingRow;
@@ -0,0 +1,5 @@
+/**
+ * Leaderboard Components Exports
+ */
+
+export { default as StandingRow } from './StandingRow';
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Button } from '@/core/components';
+import { useTranslation, useLocalizedRoutes } from '@/core/i18n';
+import { useLeaderboard } from '../context/LeaderboardContext';
+import { StandingRow } from '../components';
+
+/**
+ * Leaderboard Container Props
+ */
+interface LeaderboardContainerProps {
+  className?: string;
+}
+
+const LEAGUE_ICONS: Record<string, string> = {
+  bronze: '🥉',
+  silver: '🥈',
+  gold: '🥇',
+  platinum: '💠',
+  diamond: '💎',
+};
+
+/**
+ * Leaderboard Container
+ * Renders the learner's league, this week's cohort standings and last week's result
+ * Pure UI component that gets data from context
+ */
+export const LeaderboardContainer: React.FC<LeaderboardContainerProps> = ({
+  className = '',
+}) => {
+  const { leaderboard } = useLeaderboard();
+  const { t, i18n } = useTranslation('leaderboard');
+  const { routes } = useLocalizedRoutes();
+
+  if (!leaderboard) {
+    return null;
+  }
+
+  // The week ends at midnight UTC; show the last day of the week
+  const weekEnd = new Date(`${leaderboard.weekEnd}T00:00:00Z`).toLocaleDateString(i18n.language, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <div className={`max-w-3xl mx-auto space-y-6 ${className}`}>
+      {/* League Header */}
+      <div className="text-center">
+        <div className="text-5xl mb-2">{LEAGUE_ICONS[leaderboard.league]}</div>
+        <h2 className="text-3xl font-bold text-gray-900 mb-1">{t(`leagues.${leaderboard.league}`)}</h2>
+        <p className="text-gray-600">{t('subtitle')}</p>
+        <p className="text-sm text-gray-500 mt-1">{t('endsOn', { date: weekEnd })}</p>
+      </div>
+
+      {/* Last Week */}
+      {leaderboard.lastResult && (
+        <Card className="text-center">
+          <p className="text-gray-700">
+            {t(`lastResult.${leaderboard.lastResult.outcome}`, { rank: leaderboard.lastResult.rank })}
+          </p>
+        </Card>
+      )}
+
+      {/* Standings */}
+      {leaderboard.joined ? (
+        <Card>
+          <div className="flex justify-between text-xs text-gray-500 mb-3">
+            <span className="text-green-700">▲ {t('zones.promotion')}</span>
+            <span className="text-red-700">▼ {t('zones.demotion')}</span>
+          </div>
+          <ol className="space-y-2">
+            {leaderboard.standings.map((standing) => (
+              <StandingRow key={standing.userId} standing={standing} />
+            ))}
+          </ol>
+        </Card>
+      ) : (
+        <Card className="text-center py-8">
+          <div className="text-4xl mb-3">🏆</div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('notJoined.title')}</h3>
+          <p className="text-gray-600 mb-4">{t('notJoined.message')}</p>
+          <Link to={routes.lessons}>
+            <Button variant="primary">{t('notJoined.action')}</Button>
+          </Link>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,5 @@
+/**
+ * Leaderboard Containers Exports
+ */
+
+export { LeaderboardContainer } from './LeaderboardContainer';
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, ReactNode, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { leaderboardService } from '@/core/api/services-openapi';
+import type { Leaderboard } from '@/core/api/services-openapi';
+
+/**
+ * Leaderboard Context Types
+ */
+interface LeaderboardContextType {
+  leaderboardQuery: {
+    data: Leaderboard | undefined;
+    isLoading: boolean;
+    error: Error | null;
+    refetch: () => void;
+  };
+}
+
+/**
+ * Leaderboard Context
+ */
+const LeaderboardContext = createContext<LeaderboardContextType | undefined>(undefined);
+
+/**
+ * Leaderboard Context Provider Props
+ */
+interface LeaderboardProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Leaderboard Context Provider
+ * Provides this week's leaderboard to child components
+ */
+export const LeaderboardProvider: React.FC<LeaderboardProviderProps> = ({ children }) => {
+  const leaderboardQuery = useQuery({
+    queryKey: ['leaderboard'],
+    queryFn: () => leaderboardService.getCurrent(),
+    staleTime: 60 * 1000, // 1 minute; standings move whenever someone submits
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const contextValue = useMemo(() => ({
+    leaderboardQuery: {
+      data: leaderboardQuery.data,
+      isLoading: leaderboardQuery.isLoading,
+      error: leaderboardQuery.error,
+      refetch: leaderboardQuery.refetch,
+    },
+  }), [
+    leaderboardQuery.data,
+    leaderboardQuery.isLoading,
+    leaderboardQuery.error,
+    leaderboardQuery.refetch,
+  ]);
+
+  return (
+    <LeaderboardContext.Provider value={contextValue}>
+      {children}
+    </LeaderboardContext.Provider>
+  );
+};
+
+/**
+ * Hook to use Leaderboard Context
+ */
+export const useLeaderboard = () => {
+  const context = useContext(LeaderboardContext);
+  if (context === undefined) {
+    throw new Error('useLeaderboard must be used within a LeaderboardProvider');
+  }
+
+  return {
+    leaderboard: context.leaderboardQuery.data || null,
+    isLoading: context.leaderboardQuery.isLoading,
+    error: context.leaderboardQuery.error,
+    refetch: context.leaderboardQuery.refetch,
+  };
+};
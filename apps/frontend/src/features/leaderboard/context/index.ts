@@ -0,0 +1,5 @@
+/**
+ * Leaderboard Context Exports
+ */
+
+export { LeaderboardProvider, useLeaderboard } from './LeaderboardContext';
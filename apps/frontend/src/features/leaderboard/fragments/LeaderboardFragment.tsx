@@ -0,0 +1,50 @@
+import React, { ReactNode } from 'react';
+import { LeaderboardProvider, useLeaderboard } from '../context/LeaderboardContext';
+import { ErrorScreen, LoadingScreen } from '@/core/components';
+import { useTranslation } from '@/core/i18n';
+
+/**
+ * Leaderboard Fragment Props
+ */
+interface LeaderboardFragmentProps {
+  children: ReactNode;
+}
+
+/**
+ * Leaderboard Fragment Inner Component
+ * Handles loading and error states based on context data
+ */
+const LeaderboardFragmentInner: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useTranslation('leaderboard');
+  const { isLoading, error, refetch } = useLeaderboard();
+
+  if (isLoading) {
+    return <LoadingScreen message={t('loading')} />;
+  }
+
+  if (error) {
+    return (
+      <ErrorScreen
+        error={error as Error}
+        title={t('error.failedToLoad')}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * Leaderboard Fragment
+ * Provides LeaderboardProvider wrapper and handles UI states
+ */
+export const LeaderboardFragment: React.FC<LeaderboardFragmentProps> = ({ children }) => {
+  return (
+    <LeaderboardProvider>
+      <LeaderboardFragmentInner>
+        {children}
+      </LeaderboardFragmentInner>
+    </LeaderboardProvider>
+  );
+};
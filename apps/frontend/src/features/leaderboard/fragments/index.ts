@@ -0,0 +1,5 @@
+/**
+ * Leaderboard Fragments Exports
+ */
+
+export { LeaderboardFragment } from './LeaderboardFragment';
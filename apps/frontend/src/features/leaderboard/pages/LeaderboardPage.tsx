@@ -0,0 +1,22 @@
+import React from 'react';
+import { LeaderboardFragment } from '../fragments/LeaderboardFragment';
+import { LeaderboardContainer } from '../containers/LeaderboardContainer';
+
+/**
+ * Leaderboard Page
+ * Main page for the weekly league leaderboard
+ */
+const LeaderboardPage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <LeaderboardFragment>
+          <LeaderboardContainer />
+        </LeaderboardFragment>
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardPage;
@@ -1,108 +1,295 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Check, X } from 'lucide-react';
-import type { Problem as ProblemType } from '@/core/api';
+import { Check, X, ChevronUp, ChevronDown, Lightbulb } from 'lucide-react';
+import type { Problem as ProblemType, AnswerPayload } from '@/core/api';
 import { Card } from '@/core/components';
 
+// Blanks are written as three or more underscores in the question text
+const BLANK_PATTERN = /_{3,}/;
+
+// XP a correct answer earns before hints; each hint takes `hintPenalty` percent of it, as on the server
+const XP_PER_CORRECT_ANSWER = 10;
+
+const xpAfterHints = (hintsUsed: number, hintPenalty: number): number =>
+  Math.round((XP_PER_CORRECT_ANSWER * Math.max(0, 100 - hintsUsed * hintPenalty)) / 100);
+
 /**
  * Problem Component Props
  */
 interface ProblemComponentProps {
-  problem: ProblemType;
-  value: string;
-  onChange: (value: string) => void;
+  problem: Pick<ProblemType, 'id' | 'question' | 'problemType' | 'options' | 'numberLine' | 'blankCount'>;
+  value?: AnswerPayload;
+  onChange: (value: AnswerPayload) => void;
+  index?: number;
+  total?: number;
   disabled?: boolean;
   showResult?: boolean;
   isCorrect?: boolean;
   correctAnswer?: string;
+  hints?: string[]; // Hint steps revealed so far
+  hintCount?: number;
+  hintPenalty?: number;
+  onRevealHint?: () => void;
+  isRevealingHint?: boolean;
   className?: string;
 }
 
 /**
  * Problem Component
- * Interactive math problem with multiple choice or input
+ * Interactive math problem; renders the answer control for the problem's type
  */
 export const ProblemItem: React.FC<ProblemComponentProps> = ({
   problem,
   value,
   onChange,
+  index,
+  total,
   disabled = false,
   showResult = false,
   isCorrect,
   correctAnswer,
+  hints = [],
+  hintCount = 0,
+  hintPenalty = 0,
+  onRevealHint,
+  isRevealingHint = false,
   className = '',
 }) => {
   const { t } = useTranslation('lessons');
-  const [localValue, setLocalValue] = useState(value);
+  const isDisabled = disabled || showResult;
+  const options = problem.options ?? [];
 
-  const handleInputChange = (newValue: string) => {
-    setLocalValue(newValue);
-    onChange(newValue);
-  };
+  // Ordering problems start from the order the options are shown in
+  useEffect(() => {
+    if (problem.problemType === 'ordering' && value === undefined && !isDisabled && options.length > 0) {
+      onChange(options.map((option) => option.id));
+    }
+  }, [problem.problemType, value, isDisabled, options, onChange]);
 
   const getResultColor = () => {
     if (!showResult) return '';
     return isCorrect ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50';
   };
 
+  const getChoiceClasses = (isSelected: boolean, isCorrectChoice?: boolean) => {
+    let classes = 'w-full p-3 text-left border rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    if (showResult) {
+      if (isCorrectChoice) {
+        classes += ' bg-green-100 border-green-500 text-green-800';
+      } else if (isSelected && !isCorrect) {
+        classes += ' bg-red-100 border-red-500 text-red-800';
+      } else {
+        classes += ' bg-gray-50 border-gray-300 text-gray-600';
+      }
+    } else if (isSelected) {
+      classes += ' bg-blue-50 border-blue-500 text-blue-800';
+    } else if (isDisabled) {
+      classes += ' bg-gray-50 border-gray-300 text-gray-600 cursor-not-allowed';
+    } else {
+      classes += ' bg-white border-gray-300 text-gray-700 hover:bg-gray-50';
+    }
+
+    return classes;
+  };
+
+  const getIndicatorClasses = (isSelected: boolean) => {
+    if (!isSelected) return 'border-gray-300';
+    if (showResult) return isCorrect ? 'border-green-500 bg-green-500' : 'border-red-500 bg-red-500';
+    return 'border-blue-500 bg-blue-500';
+  };
+
+  const inputClasses = `
+    px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500
+    ${showResult
+      ? isCorrect
+        ? 'border-green-500 bg-green-50'
+        : 'border-red-500 bg-red-50'
+      : 'border-gray-300'
+    }
+    ${isDisabled ? 'cursor-not-allowed' : ''}
+  `;
+
+  const renderHints = () => {
+    const canReveal = onRevealHint && hints.length < hintCount && !isDisabled;
+    const nextHintCost = xpAfterHints(hints.length, hintPenalty) - xpAfterHints(hints.length + 1, hintPenalty);
+
+    return (
+      <div className="mb-4 space-y-2">
+        {hints.map((hint, hintIndex) => (
+          <div key={hintIndex} className="flex items-start p-3 rounded-lg bg-yellow-50 border border-yellow-200">
+            <Lightbulb className="w-4 h-4 mt-0.5 mr-2 flex-shrink-0 text-yellow-600" />
+            <p className="text-sm text-yellow-900">
+              <span className="font-medium">{t('lesson.hint', { number: hintIndex + 1, total: hintCount })}</span>{' '}
+              {hint}
+            </p>
+          </div>
+        ))}
+        <div className="flex items-center gap-3">
+          {canReveal && (
+            <button
+              type="button"
+              className="flex items-center text-sm font-medium text-yellow-700 hover:text-yellow-900 disabled:opacity-50"
+              onClick={onRevealHint}
+              disabled={isRevealingHint}
+            >
+              <Lightbulb className="w-4 h-4 mr-1" />
+              {nextHintCost > 0 ? t('lesson.showHint', { count: nextHintCost }) : t('lesson.showHintFree')}
+            </button>
+          )}
+          {hints.length > 0 && !showResult && (
+            <span className="text-xs text-gray-500">
+              {t('lesson.xpAvailable', { count: xpAfterHints(hints.length, hintPenalty) })}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const selectedIds = Array.isArray(value) ? value : [];
+  const questionParts = problem.question.split(BLANK_PATTERN);
+
+  const renderBlanks = () => {
+    const blanks = Array.isArray(value) ? value : [];
+    const updateBlank = (blankIndex: number, blankValue: string) => {
+      const next = Array.from({ length: questionParts.length - 1 }, (_, i) => blanks[i] ?? '');
+      next[blankIndex] = blankValue;
+      onChange(next);
+    };
+
+    return (
+      <p className="text-gray-700 text-base leading-loose">
+        {questionParts.map((part, partIndex) => (
+          <React.Fragment key={partIndex}>
+            {part}
+            {partIndex < questionParts.length - 1 && (
+              <input
+                type="text"
+                aria-label={t('lesson.blank', { number: partIndex + 1 })}
+                value={blanks[partIndex] ?? ''}
+                onChange={(e) => updateBlank(partIndex, e.target.value)}
+                disabled={isDisabled}
+                className={`w-20 mx-1 text-center ${inputClasses}`}
+              />
+            )}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  };
+
+  const renderOrdering = () => {
+    const order = Array.isArray(value) ? value : options.map((option) => option.id);
+    const move = (from: number, to: number) => {
+      const next = [...order];
+      [next[from], next[to]] = [next[to], next[from]];
+      onChange(next);
+    };
+
+    return (
+      <ol className="space-y-2">
+        {order.map((optionId, position) => {
+          const option = options.find((candidate) => candidate.id === optionId);
+          if (!option) return null;
+
+          return (
+            <li key={option.id} className="flex items-center p-3 border border-gray-300 rounded-lg bg-white">
+              <span className="w-6 text-sm text-gray-500">{position + 1}.</span>
+              <span className="flex-1 font-medium text-gray-700">{option.optionText}</span>
+              <button
+                type="button"
+                aria-label={t('lesson.moveUp')}
+                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                onClick={() => move(position, position - 1)}
+                disabled={isDisabled || position === 0}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                aria-label={t('lesson.moveDown')}
+                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                onClick={() => move(position, position + 1)}
+                disabled={isDisabled || position === order.length - 1}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  const renderNumberLine = () => {
+    const { min, max, step } = problem.numberLine ?? { min: 0, max: 10, step: 1 };
+    const point = typeof value === 'number' ? value : undefined;
+
+    return (
+      <div>
+        <input
+          type="range"
+          aria-label={t('lesson.numberLine')}
+          min={min}
+          max={max}
+          step={step}
+          value={point ?? min}
+          onChange={(e) => onChange(Number(e.target.value))}
+          onPointerUp={(e) => onChange(Number(e.currentTarget.value))}
+          disabled={isDisabled}
+          className="w-full accent-blue-600"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{min}</span>
+          <span>{max}</span>
+        </div>
+        <p className="text-sm text-gray-700 mt-2">
+          {point === undefined
+            ? t('lesson.numberLineHint')
+            : t('lesson.numberLineValue', { value: Number(point.toFixed(4)) })}
+        </p>
+      </div>
+    );
+  };
+
   return (
     <Card className={`${className} ${getResultColor()}`}>
       {/* Problem Question */}
       <div className="mb-4">
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          {t('lesson.problem', { number: problem.id, total: '{{total}}' })}
-        </h3>
-        <p className="text-gray-700 text-base leading-relaxed">
-          {problem.question}
-        </p>
+        {index !== undefined && total !== undefined && (
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {t('lesson.problem', { number: index + 1, total })}
+          </h3>
+        )}
+        {problem.problemType === 'fill_in_blanks' ? (
+          renderBlanks()
+        ) : (
+          <p className="text-gray-700 text-base leading-relaxed">
+            {problem.question}
+          </p>
+        )}
       </div>
 
+      {/* Hints, revealed one step at a time */}
+      {hintCount > 0 && renderHints()}
+
       {/* Multiple Choice Options */}
-      {problem.problemType === 'multiple_choice' && problem.options && (
+      {problem.problemType === 'multiple_choice' && (
         <div className="space-y-2">
-          {problem.options.map((option) => {
-            const isSelected = localValue === option.optionText;
-            const isDisabled = disabled || showResult;
-            
-            let optionClasses = 'w-full p-3 text-left border rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500';
-            
-            if (showResult) {
-              if (option.optionText === correctAnswer) {
-                optionClasses += ' bg-green-100 border-green-500 text-green-800';
-              } else if (isSelected && !isCorrect) {
-                optionClasses += ' bg-red-100 border-red-500 text-red-800';
-              } else {
-                optionClasses += ' bg-gray-50 border-gray-300 text-gray-600';
-              }
-            } else if (isSelected) {
-              optionClasses += ' bg-blue-50 border-blue-500 text-blue-800';
-            } else if (isDisabled) {
-              optionClasses += ' bg-gray-50 border-gray-300 text-gray-600 cursor-not-allowed';
-            } else {
-              optionClasses += ' bg-white border-gray-300 text-gray-700 hover:bg-gray-50';
-            }
+          {options.map((option) => {
+            const isSelected = value === option.optionText;
 
             return (
               <button
                 key={option.id}
                 type="button"
-                className={optionClasses}
-                onClick={() => !isDisabled && handleInputChange(option.optionText)}
+                className={getChoiceClasses(isSelected, option.optionText === correctAnswer)}
+                onClick={() => !isDisabled && onChange(option.optionText)}
                 disabled={isDisabled}
               >
                 <div className="flex items-center">
-                  <div className={`
-                    w-4 h-4 rounded-full border-2 mr-3 flex-shrink-0
-                    ${isSelected 
-                      ? (showResult && isCorrect 
-                          ? 'border-green-500 bg-green-500' 
-                          : showResult && !isCorrect 
-                            ? 'border-red-500 bg-red-500'
-                            : 'border-blue-500 bg-blue-500'
-                        )
-                      : 'border-gray-300'
-                    }
-                  `}>
+                  <div className={`w-4 h-4 rounded-full border-2 mr-3 flex-shrink-0 ${getIndicatorClasses(isSelected)}`}>
                     {isSelected && (
                       <div className="w-2 h-2 bg-white rounded-full m-auto" />
                     )}
@@ -115,6 +302,61 @@ export const ProblemItem: React.FC<ProblemComponentProps> = ({
         </div>
       )}
 
+      {/* True / False */}
+      {problem.problemType === 'true_false' && (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map((choice) => (
+            <button
+              key={String(choice)}
+              type="button"
+              className={getChoiceClasses(value === choice, correctAnswer === String(choice))}
+              onClick={() => !isDisabled && onChange(choice)}
+              disabled={isDisabled}
+            >
+              <span className="font-medium">{choice ? t('lesson.true') : t('lesson.false')}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Multi-Select Options */}
+      {problem.problemType === 'multi_select' && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">{t('lesson.selectAll')}</p>
+          {options.map((option) => {
+            const isSelected = selectedIds.includes(option.id);
+
+            return (
+              <label key={option.id} className={`flex items-center cursor-pointer ${getChoiceClasses(isSelected)}`}>
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onChange(
+                    isSelected
+                      ? selectedIds.filter((id) => id !== option.id)
+                      : [...selectedIds, option.id]
+                  )}
+                  disabled={isDisabled}
+                  className="w-4 h-4 mr-3 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="font-medium">{option.optionText}</span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Ordering */}
+      {problem.problemType === 'ordering' && (
+        <div>
+          <p className="text-sm text-gray-500 mb-2">{t('lesson.orderHint')}</p>
+          {renderOrdering()}
+        </div>
+      )}
+
+      {/* Number Line */}
+      {problem.problemType === 'number_line' && renderNumberLine()}
+
       {/* Input Field */}
       {problem.problemType === 'input' && (
         <div>
@@ -124,20 +366,11 @@ export const ProblemItem: React.FC<ProblemComponentProps> = ({
           <input
             id={`problem-${problem.id}`}
             type="text"
-            value={localValue}
-            onChange={(e) => handleInputChange(e.target.value)}
-            disabled={disabled || showResult}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={isDisabled}
             placeholder={t('lesson.enterAnswer')}
-            className={`
-              w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500
-              ${showResult 
-                ? isCorrect 
-                  ? 'border-green-500 bg-green-50' 
-                  : 'border-red-500 bg-red-50'
-                : 'border-gray-300'
-              }
-              ${disabled || showResult ? 'cursor-not-allowed' : ''}
-            `}
+            className={`w-full ${inputClasses}`}
           />
         </div>
       )}
@@ -160,7 +393,11 @@ export const ProblemItem: React.FC<ProblemComponentProps> = ({
           </div>
           {!isCorrect && correctAnswer && (
             <p className="text-sm text-gray-600 mt-1">
-              {t('lesson.correctAnswer', { answer: correctAnswer })}
+              {t('lesson.correctAnswer', {
+                answer: problem.problemType === 'true_false'
+                  ? t(correctAnswer === 'true' ? 'lesson.true' : 'lesson.false')
+                  : correctAnswer,
+              })}
             </p>
           )}
         </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Problem } from '@/core/api';
+import type { Problem, AnswerPayload } from '@/core/api';
 import { ProblemItem } from './Problem';
 
 /**
@@ -7,8 +7,8 @@ import { ProblemItem } from './Problem';
  */
 interface ProblemListProps {
   problems: Problem[];
-  answers: Record<string, string>;
-  onAnswerChange: (problemId: string, answer: string) => void;
+  answers: Record<string, AnswerPayload>;
+  onAnswerChange: (problemId: string, answer: AnswerPayload) => void;
   disabled?: boolean;
   showResults?: boolean;
   results?: Record<string, { isCorrect: boolean; correctAnswer: string }>;
@@ -30,12 +30,14 @@ export const ProblemList: React.FC<ProblemListProps> = ({
 }) => {
   return (
     <div className={`space-y-6 ${className}`}>
-      {problems.map((problem) => (
+      {problems.map((problem, index) => (
         <ProblemItem
           key={problem.id}
           problem={problem}
-          value={answers[problem.id] || ''}
+          value={answers[problem.id]}
           onChange={(value) => onAnswerChange(problem.id, value)}
+          index={index}
+          total={problems.length}
           disabled={disabled}
           showResult={showResults}
           isCorrect={results[problem.id]?.isCorrect}
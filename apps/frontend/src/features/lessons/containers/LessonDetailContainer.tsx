@@ -4,8 +4,16 @@ import { ArrowLeft } from "lucide-react";
 import { Button } from "@/core/components";
 import { useLocalizedRoutes } from "@/core/i18n";
 import { useLessonsDetail } from "../context/LessonsDetailContext";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { lessonService } from "@/core/api/services-openapi";
+import { QUERY_KEYS } from "@/core/api";
+import type { Achievement } from "@/core/api";
+import { ProblemItem } from "../components";
+import { useProblemTimer } from "../hooks/useProblemTimer";
+
+// Longest problem time (one hour) and lesson time (one day) the backend accepts
+const MAX_PROBLEM_TIME_SECONDS = 3600;
+const MAX_LESSON_TIME_SECONDS = 86400;
 
 /**
  * Lesson Detail Container Props
@@ -26,29 +34,68 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
   const { routes } = useLocalizedRoutes();
   const { state, lessonQuery, actions } = useLessonsDetail();
 
-  const [currentIndex, setCurrentIndex] = useState(0);
   const [finished, setFinished] = useState(false);
   const [submissionResult, setSubmissionResult] = useState<any>(null);
+  const queryClient = useQueryClient();
+
+  // Resumed attempts reopen on the problem the learner was on; the lesson may have fewer problems since
+  const problemCount = lessonQuery.data?.problems.length ?? 0;
+  const currentIndex = Math.max(0, Math.min(state.currentProblemIndex, problemCount - 1));
+
+  // Only the problem on screen is timed, and only while the tab is visible
+  const problemTimer = useProblemTimer(
+    finished ? undefined : lessonQuery.data?.problems[currentIndex]?.id
+  );
+
+  // Hints are revealed one at a time and recorded by the server, which charges them at submission
+  const revealHintMutation = useMutation({
+    mutationFn: async (problemId: string) => {
+      if (!lessonQuery.data) throw new Error('No lesson data');
+      return lessonService.revealHint(lessonQuery.data.id, problemId, state.attemptId);
+    },
+    onSuccess: (reveal) => {
+      actions.setRevealedHints(reveal.problemId, reveal.hints);
+    },
+    onError: (error) => {
+      console.error('Failed to reveal hint:', error);
+    }
+  });
+
+  // In instant feedback mode each answer is checked before moving on; the submission reuses the checks
+  const checkAnswerMutation = useMutation({
+    mutationFn: async (problemId: string) => {
+      if (!lessonQuery.data) throw new Error('No lesson data');
+      return lessonService.checkAnswer(lessonQuery.data.id, problemId, state.attemptId, state.userAnswers[problemId]);
+    },
+    onSuccess: (result) => {
+      actions.setCheckedAnswer(result);
+    },
+    onError: (error) => {
+      console.error('Failed to check answer:', error);
+    }
+  });
 
   // Mutation for submitting the entire lesson at the end
   const submitLessonMutation = useMutation({
     mutationFn: async () => {
       if (!lessonQuery.data) throw new Error('No lesson data');
       
-      // Prepare answers in the format expected by backend
+      // Prepare answers in the format expected by backend, with the active time on each
       const answers = lessonQuery.data.problems.map(problem => ({
         problemId: problem.id,
-        answer: state.userAnswers[problem.id]?.toString() || ''
+        answer: state.userAnswers[problem.id],
+        timeSpent: Math.min(problemTimer.secondsOn(problem.id), MAX_PROBLEM_TIME_SECONDS)
       }));
+      const activeSeconds = answers.reduce((sum, answer) => sum + answer.timeSpent, 0);
 
       // Submit lesson to backend
       const result = await lessonService.submitLesson(
         lessonQuery.data.id,
         {
           answers,
-          attemptId: `attempt-${Date.now()}` // Generate unique attempt ID
-        },
-        1 // Default user ID
+          attemptId: state.attemptId, // Same attempt the problems were instantiated for
+          timeSpent: Math.min(activeSeconds, MAX_LESSON_TIME_SECONDS)
+        }
       );
 
       return result;
@@ -56,6 +103,8 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
     onSuccess: (result) => {
       setSubmissionResult(result);
       setFinished(true);
+      // The server dropped its cached learning path; drop ours too
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.RECOMMENDATIONS });
     },
     onError: (error) => {
       console.error('Failed to submit lesson:', error);
@@ -95,9 +144,12 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
   // Show lesson content when loaded
   if (lessonQuery.data) {
     if (!finished) {
-      // Current problem flow - no checking, just next/finish
-      const canProceed = state.userAnswers[lessonQuery.data.problems[currentIndex].id] !== undefined;
+      // Current problem flow - checked on the spot in instant mode, otherwise just next/finish
+      const currentProblem = lessonQuery.data.problems[currentIndex];
+      const canProceed = actions.isAnswered(currentProblem.id);
       const isLastProblem = currentIndex + 1 >= lessonQuery.data.problems.length;
+      const checked = actions.getCheckedAnswer(currentProblem.id);
+      const needsCheck = state.feedbackMode === 'instant' && !checked;
 
       return (
         <div className={`max-w-2xl mx-auto ${className}`}>
@@ -123,85 +175,64 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
                 <span className="font-medium text-gray-800">Progress:</span>{" "}
                 {currentIndex + 1} / {lessonQuery.data.problems.length} problems
               </div>
+              <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={state.feedbackMode === 'instant'}
+                  onChange={(e) => actions.setFeedbackMode(e.target.checked ? 'instant' : 'end')}
+                  className="w-4 h-4 mr-2 text-blue-600 focus:ring-blue-500"
+                />
+                Check answers as I go
+              </label>
             </div>
             <div className="mt-6">
-              <h2 className="text-xl font-bold text-gray-800 mb-4">
-                Problem {currentIndex + 1}:{" "}
-                {lessonQuery.data.problems[currentIndex].question}
-              </h2>
-              {lessonQuery.data.problems[currentIndex].problemType ===
-              "multiple_choice" ? (
-                <div className="space-y-2">
-                  {lessonQuery.data.problems[currentIndex].options?.map(
-                    (option: any) => {
-                      return (
-                        <label
-                          key={option.id}
-                          className="flex items-center space-x-3 cursor-pointer"
-                        >
-                          <input
-                            type="radio"
-                            name={`problem-${
-                              lessonQuery.data!.problems[currentIndex].id
-                            }`}
-                            value={option.optionText}
-                            checked={
-                              state.userAnswers[
-                                lessonQuery.data!.problems[currentIndex].id
-                              ] === option.optionText
-                            }
-                            onChange={(e) =>
-                              actions.setUserAnswer(
-                                lessonQuery.data!.problems[currentIndex].id,
-                                e.target.value
-                              )
-                            }
-                            className="w-4 h-4 text-indigo-600 focus:ring-indigo-500"
-                          />
-                          <span className="text-gray-700">{option.optionText}</span>
-                        </label>
-                      );
-                    }
-                  )}
+              <ProblemItem
+                problem={currentProblem}
+                value={state.userAnswers[currentProblem.id]}
+                onChange={(answer) => actions.setUserAnswer(currentProblem.id, answer)}
+                index={currentIndex}
+                total={lessonQuery.data.problems.length}
+                showResult={checked !== undefined}
+                isCorrect={checked?.isCorrect}
+                hints={actions.getRevealedHints(currentProblem.id)}
+                hintCount={currentProblem.hintCount}
+                hintPenalty={lessonQuery.data.hintPenalty}
+                onRevealHint={() => revealHintMutation.mutate(currentProblem.id)}
+                isRevealingHint={revealHintMutation.isPending}
+              />
+              {checked && (
+                <div className="mt-3 text-sm text-gray-600 space-y-1">
+                  {checked.explanation && <p>{checked.explanation}</p>}
+                  <p className="font-medium">+{checked.xpEarned} XP</p>
                 </div>
-              ) : (
-                <input
-                  type="text"
-                  placeholder="Enter your answer"
-                  value={
-                    state.userAnswers[
-                      lessonQuery.data!.problems[currentIndex].id
-                    ] || ""
-                  }
-                  onChange={(e) =>
-                    actions.setUserAnswer(
-                      lessonQuery.data!.problems[currentIndex].id,
-                      e.target.value
-                    )
-                  }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                />
               )}
               <div className="mt-4 flex items-center gap-2">
                 <Button
                   variant="primary"
                   size="sm"
-                  disabled={!canProceed || submitLessonMutation.isPending}
+                  disabled={!canProceed || submitLessonMutation.isPending || checkAnswerMutation.isPending}
                   onClick={() => {
-                    if (isLastProblem) {
+                    if (needsCheck) {
+                      // Grade this answer now; it cannot be changed afterwards
+                      checkAnswerMutation.mutate(currentProblem.id);
+                    } else if (isLastProblem) {
                       // Submit the entire lesson to backend
                       submitLessonMutation.mutate();
                     } else {
                       // Move to next problem
-                      setCurrentIndex(currentIndex + 1);
+                      actions.setCurrentProblem(currentIndex + 1);
                     }
                   }}
                 >
                   {submitLessonMutation.isPending 
                     ? 'Submitting...'
-                    : isLastProblem 
-                      ? 'Finish Lesson' 
-                      : 'Next'
+                    : checkAnswerMutation.isPending
+                      ? 'Checking...'
+                      : needsCheck
+                        ? 'Check'
+                        : isLastProblem 
+                          ? 'Finish Lesson' 
+                          : 'Next'
                   }
                 </Button>
                 {!canProceed && (
@@ -268,14 +299,43 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
                   </div>
                 )}
                 
+                {submissionResult.newAchievements?.length > 0 && (
+                  <div className="bg-yellow-50 p-4 rounded-lg">
+                    <h3 className="font-semibold text-yellow-800 mb-2">New achievements unlocked!</h3>
+                    <div className="space-y-2">
+                      {submissionResult.newAchievements.map((achievement: Achievement) => (
+                        <div key={achievement.id} className="flex items-center justify-center space-x-2">
+                          <span className="text-2xl">{achievement.icon}</span>
+                          <span className="font-medium text-yellow-900">{achievement.title}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {submissionResult.results && (
                   <div className="bg-gray-50 p-4 rounded-lg">
                     <h3 className="font-semibold text-gray-800 mb-2">Results:</h3>
                     <div className="text-sm space-y-1">
                       {submissionResult.results.map((result: any, idx: number) => (
-                        <div key={idx} className={`flex justify-between ${result.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
-                          <span>Problem {idx + 1}</span>
-                          <span>{result.isCorrect ? '✅' : '❌'} (+{result.xpEarned} XP)</span>
+                        <div key={idx}>
+                          <div className={`flex justify-between ${result.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                            <span>Problem {idx + 1}</span>
+                            <span>
+                              {result.isCorrect ? '✅' : '❌'} (+{result.xpEarned} XP)
+                              {result.hintsUsed > 0 && ` · ${result.hintsUsed} hint${result.hintsUsed === 1 ? '' : 's'} used`}
+                            </span>
+                          </div>
+                          {result.solutionSteps?.length > 0 && (
+                            <details className="text-left text-gray-600 mt-1 mb-2">
+                              <summary className="cursor-pointer">Worked solution</summary>
+                              <ol className="list-decimal list-inside space-y-1 mt-1">
+                                {result.solutionSteps.map((step: string, stepIdx: number) => (
+                                  <li key={stepIdx}>{step}</li>
+                                ))}
+                              </ol>
+                            </details>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -299,7 +359,7 @@ export const LessonDetailContainer: React.FC<LessonDetailContainerProps> = ({
           <p className="text-red-600 mb-4">
             Error: {lessonQuery.error.message}
           </p>
-          <Button onClick={() => window.location.reload()} variant="primary">
+          <Button onClick={() => lessonQuery.refetch()} variant="primary">
             Retry
           </Button>
         </div>
@@ -30,7 +30,6 @@ const LessonsContext = createContext<LessonsContextType | undefined>(undefined);
  */
 interface LessonsProviderProps {
   children: ReactNode;
-  userId?: number;
 }
 
 /**
@@ -39,13 +38,12 @@ interface LessonsProviderProps {
  * Follows the same pattern as LessonsDetailContext
  */
 export const LessonsProvider: React.FC<LessonsProviderProps> = ({ 
-  children, 
-  userId = 1 
+  children 
 }) => {
   // React Query for lessons data
   const lessonsQuery = useQuery({
-    queryKey: [...QUERY_KEYS.LESSONS, userId],
-    queryFn: () => lessonService.getAllLessons(userId),
+    queryKey: QUERY_KEYS.LESSONS,
+    queryFn: () => lessonService.getAllLessons(),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
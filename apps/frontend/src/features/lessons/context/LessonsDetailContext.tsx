@@ -1,12 +1,13 @@
-import React, { createContext, useContext, useReducer, ReactNode, useMemo, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, ReactNode, useMemo, useCallback, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { apiClient } from '@/core/api';
+import { apiClient, lessonService, QUERY_KEYS } from '@/core/api';
+import type { AnswerPayload, AttemptDraft, CheckedAnswer } from '@/core/api';
 
 // Types
 export interface Problem {
   id: string;
   question: string;
-  problemType: 'multiple_choice' | 'input' | 'true_false';
+  problemType: 'multiple_choice' | 'input' | 'true_false' | 'multi_select' | 'ordering' | 'fill_in_blanks' | 'number_line';
   order: number;
   difficulty: string;
   options?: Array<{
@@ -14,6 +15,14 @@ export interface Problem {
     optionText: string;
     order: number;
   }>;
+  numberLine?: {
+    min: number;
+    max: number;
+    step: number;
+  };
+  blankCount?: number;
+  hintCount: number;
+  hints: string[]; // Revealed for the attempt when the lesson was loaded
   correctAnswer?: string;
   explanation?: string;
 }
@@ -26,6 +35,7 @@ export interface LessonDetail {
   duration: string;
   status: 'not-started' | 'in-progress' | 'completed';
   progress: number;
+  hintPenalty: number; // Percent of a problem's XP each revealed hint costs
   problems: Problem[];
   tags?: string[];
   prerequisites?: string[];
@@ -33,25 +43,58 @@ export interface LessonDetail {
   previousLessonId?: string;
 }
 
+// When answers are graded: all together at the end, or each one as soon as it is checked
+export type FeedbackMode = 'end' | 'instant';
+
 export interface LessonsDetailState {
+  attemptId: string; // Empty until the attempt in progress is resumed or started
+  resumable: boolean; // Saved on the server, so it can be resumed on another device
+  feedbackMode: FeedbackMode;
+  startedAt: number; // When the attempt was opened (ms since epoch)
   currentProblemIndex: number;
-  userAnswers: Record<string, string | number>;
+  userAnswers: Record<string, AnswerPayload>;
+  revealedHints: Record<string, string[]>;
+  checkedAnswers: Record<string, CheckedAnswer>; // Final once checked
   completedProblems: string[];
 }
 
 // Actions
 type LessonsDetailAction =
   | { type: 'SET_CURRENT_PROBLEM'; payload: number }
-  | { type: 'SET_USER_ANSWER'; payload: { problemId: string; answer: string | number } }
+  | { type: 'SET_USER_ANSWER'; payload: { problemId: string; answer: AnswerPayload } }
+  | { type: 'SET_REVEALED_HINTS'; payload: { problemId: string; hints: string[] } }
+  | { type: 'SET_CHECKED_ANSWER'; payload: CheckedAnswer }
+  | { type: 'SET_FEEDBACK_MODE'; payload: FeedbackMode }
   | { type: 'MARK_PROBLEM_COMPLETED'; payload: string }
-  | { type: 'RESET_LESSON' };
+  | { type: 'RESUME_ATTEMPT'; payload: AttemptDraft };
+
+const DIFFICULTY_LABELS: Record<'easy' | 'medium' | 'hard', LessonDetail['difficulty']> = {
+  easy: 'Beginner',
+  medium: 'Intermediate',
+  hard: 'Advanced',
+};
+
+// Wait for typing to settle before saving the attempt
+const AUTOSAVE_DELAY_MS = 500;
+
+// The learner's feedback mode is remembered across lessons
+const FEEDBACK_MODE_KEY = 'lessonFeedbackMode';
+
+const loadFeedbackMode = (): FeedbackMode =>
+  localStorage.getItem(FEEDBACK_MODE_KEY) === 'instant' ? 'instant' : 'end';
 
 // Initial state
-const initialState: LessonsDetailState = {
+const createInitialState = (attemptId: string, feedbackMode: FeedbackMode): LessonsDetailState => ({
+  attemptId,
+  resumable: false,
+  feedbackMode,
+  startedAt: Date.now(),
   currentProblemIndex: 0,
   userAnswers: {},
+  revealedHints: {},
+  checkedAnswers: {},
   completedProblems: [],
-};
+});
 
 // Reducer
 function lessonsDetailReducer(state: LessonsDetailState, action: LessonsDetailAction): LessonsDetailState {
@@ -69,14 +112,44 @@ function lessonsDetailReducer(state: LessonsDetailState, action: LessonsDetailAc
           [action.payload.problemId]: action.payload.answer,
         },
       };
+    case 'SET_REVEALED_HINTS':
+      return {
+        ...state,
+        revealedHints: {
+          ...state.revealedHints,
+          [action.payload.problemId]: action.payload.hints,
+        },
+      };
+    case 'SET_CHECKED_ANSWER':
+      return {
+        ...state,
+        checkedAnswers: {
+          ...state.checkedAnswers,
+          [action.payload.problemId]: action.payload,
+        },
+      };
+    case 'SET_FEEDBACK_MODE':
+      return {
+        ...state,
+        feedbackMode: action.payload,
+      };
     case 'MARK_PROBLEM_COMPLETED':
       return {
         ...state,
         completedProblems: [...state.completedProblems, action.payload],
       };
-    case 'RESET_LESSON':
+    case 'RESUME_ATTEMPT':
+      // Answers checked on any device stay checked, since the first check of a problem is final
       return {
-        ...initialState,
+        ...createInitialState(action.payload.attemptId, state.feedbackMode),
+        resumable: true,
+        startedAt: new Date(action.payload.startedAt).getTime(),
+        currentProblemIndex: action.payload.currentIndex,
+        userAnswers: action.payload.answers,
+        checkedAnswers: {
+          ...(action.payload.attemptId === state.attemptId ? state.checkedAnswers : {}),
+          ...Object.fromEntries(action.payload.checks.map(check => [check.problemId, check])),
+        },
       };
     default:
       return state;
@@ -90,13 +163,18 @@ interface LessonsDetailContextType {
     data: LessonDetail | undefined;
     isLoading: boolean;
     error: Error | null;
+    refetch: () => void;
   };
   actions: {
     setCurrentProblem: (index: number) => void;
-    setUserAnswer: (problemId: string, answer: string | number) => void;
+    setUserAnswer: (problemId: string, answer: AnswerPayload) => void;
+    setRevealedHints: (problemId: string, hints: string[]) => void;
+    getRevealedHints: (problemId: string) => string[];
     markProblemCompleted: (problemId: string) => void;
-    resetLesson: () => void;
-    checkAnswer: (problemId: string) => boolean;
+    setCheckedAnswer: (result: CheckedAnswer) => void;
+    getCheckedAnswer: (problemId: string) => CheckedAnswer | undefined;
+    setFeedbackMode: (mode: FeedbackMode) => void;
+    isAnswered: (problemId: string) => boolean;
     getProgress: () => number;
     canProceedToNext: () => boolean;
   };
@@ -111,14 +189,53 @@ interface LessonsDetailProviderProps {
 }
 
 export const LessonsDetailProvider: React.FC<LessonsDetailProviderProps> = ({ children, lessonId }) => {
-  const [state, dispatch] = useReducer(lessonsDetailReducer, initialState);
+  const [state, dispatch] = useReducer(lessonsDetailReducer, undefined, () => createInitialState('', loadFeedbackMode()));
 
-  // React Query for lesson data
+  // The attempt in progress, possibly started on another device; read once when the lesson opens
+  const attemptQuery = useQuery({
+    queryKey: QUERY_KEYS.LESSON_ATTEMPT(lessonId),
+    queryFn: () => lessonService.getAttempt(lessonId),
+    retry: false,
+    staleTime: 0,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  // Pick up where the learner left off. Without an attempt on the server, checks and hints
+  // would be rejected, so a failed read is shown as an error to retry rather than worked around
+  useEffect(() => {
+    if (!state.attemptId && attemptQuery.data) {
+      dispatch({ type: 'RESUME_ATTEMPT', payload: attemptQuery.data });
+    }
+  }, [attemptQuery.data, state.attemptId]);
+
+  // Autosave the answers and position shortly after each change
+  useEffect(() => {
+    if (!state.resumable) return;
+
+    const draft = {
+      attemptId: state.attemptId,
+      answers: state.userAnswers,
+      currentIndex: state.currentProblemIndex,
+    };
+    const timer = setTimeout(() => {
+      lessonService.saveAttempt(lessonId, draft).catch(error => {
+        console.error('Failed to save attempt:', error);
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [lessonId, state.resumable, state.attemptId, state.userAnswers, state.currentProblemIndex]);
+
+  // React Query for lesson data (instantiated for the current attempt)
   const lessonQuery = useQuery({
-    queryKey: ['lesson', lessonId],
+    queryKey: ['lesson', lessonId, state.attemptId],
     queryFn: async () => {
       const response = await apiClient.GET('/api/lessons/{id}', {
-        params: { path: { id: lessonId } }
+        params: {
+          path: { id: lessonId },
+          query: { attemptId: state.attemptId },
+        }
       });
 
       if (response.error) {
@@ -135,10 +252,11 @@ export const LessonsDetailProvider: React.FC<LessonsDetailProviderProps> = ({ ch
         id: backendLesson.id,
         title: backendLesson.title,
         description: backendLesson.description,
-        difficulty: 'Intermediate', // Default since backend doesn't have this field
+        difficulty: DIFFICULTY_LABELS[backendLesson.difficulty],
         duration: '30 minutes', // Default since backend doesn't have this field
         status: 'in-progress',
         progress: 0,
+        hintPenalty: backendLesson.hintPenalty,
         problems: backendLesson.problems.map((problem: any) => ({
           id: problem.id,
           question: problem.question,
@@ -146,45 +264,98 @@ export const LessonsDetailProvider: React.FC<LessonsDetailProviderProps> = ({ ch
           order: problem.order,
           difficulty: problem.difficulty,
           options: problem.options || [],
+          numberLine: problem.numberLine,
+          blankCount: problem.blankCount,
+          hintCount: problem.hintCount,
+          hints: problem.hints,
           correctAnswer: problem.correctAnswer,
           explanation: problem.explanation,
         })),
-        tags: ['arithmetic', 'addition', 'basic-math'],
-        prerequisites: ['Number Recognition'],
+        tags: backendLesson.skills.map(skill => skill.name),
+        prerequisites: backendLesson.prerequisites.map(prerequisite => prerequisite.title),
       };
 
       return transformedLesson;
     },
+    enabled: !!state.attemptId,
     retry: false,
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
 
+  // Retry whichever read failed: the attempt to resume, or the lesson instantiated for it
+  const { refetch: refetchAttempt } = attemptQuery;
+  const { refetch: refetchLesson } = lessonQuery;
+  const retryLesson = useCallback(() => {
+    if (state.attemptId) {
+      refetchLesson();
+    } else {
+      refetchAttempt();
+    }
+  }, [refetchAttempt, refetchLesson, state.attemptId]);
+
   const setCurrentProblem = useCallback((index: number) => {
     dispatch({ type: 'SET_CURRENT_PROBLEM', payload: index });
   }, []);
 
-  const setUserAnswer = useCallback((problemId: string, answer: string | number) => {
+  const setUserAnswer = useCallback((problemId: string, answer: AnswerPayload) => {
     dispatch({ type: 'SET_USER_ANSWER', payload: { problemId, answer } });
   }, []);
 
+  const setRevealedHints = useCallback((problemId: string, hints: string[]) => {
+    dispatch({ type: 'SET_REVEALED_HINTS', payload: { problemId, hints } });
+  }, []);
+
+  // Hints revealed during this session, or those the attempt already had when the lesson loaded
+  const getRevealedHints = useCallback((problemId: string): string[] => {
+    return state.revealedHints[problemId]
+      ?? lessonQuery.data?.problems.find(p => p.id === problemId)?.hints
+      ?? [];
+  }, [lessonQuery.data?.problems, state.revealedHints]);
+
   const markProblemCompleted = useCallback((problemId: string) => {
     if (!state.completedProblems.includes(problemId)) {
       dispatch({ type: 'MARK_PROBLEM_COMPLETED', payload: problemId });
     }
   }, [state.completedProblems]);
 
-  const resetLesson = useCallback(() => {
-    dispatch({ type: 'RESET_LESSON' });
+  const setCheckedAnswer = useCallback((result: CheckedAnswer) => {
+    dispatch({ type: 'SET_CHECKED_ANSWER', payload: result });
+  }, []);
+
+  // Graded by the server when the answer was checked; correct answers are never sent with the lesson
+  const getCheckedAnswer = useCallback((problemId: string): CheckedAnswer | undefined => {
+    return state.checkedAnswers[problemId];
+  }, [state.checkedAnswers]);
+
+  const setFeedbackMode = useCallback((mode: FeedbackMode) => {
+    localStorage.setItem(FEEDBACK_MODE_KEY, mode);
+    dispatch({ type: 'SET_FEEDBACK_MODE', payload: mode });
   }, []);
 
-  const checkAnswer = useCallback((problemId: string): boolean => {
+  // Whether the answer is complete enough to submit for its problem type
+  const isAnswered = useCallback((problemId: string): boolean => {
     const problem = lessonQuery.data?.problems.find(p => p.id === problemId);
     const userAnswer = state.userAnswers[problemId];
-    
+
     if (!problem || userAnswer === undefined) return false;
-    
-    return problem.correctAnswer === userAnswer;
+
+    switch (problem.problemType) {
+      case 'multi_select':
+        return Array.isArray(userAnswer) && userAnswer.length > 0;
+      case 'ordering':
+        return Array.isArray(userAnswer) && userAnswer.length >= 2;
+      case 'fill_in_blanks':
+        return Array.isArray(userAnswer) &&
+          userAnswer.length === (problem.blankCount ?? userAnswer.length) &&
+          userAnswer.every(blank => blank.trim().length > 0);
+      case 'true_false':
+        return typeof userAnswer === 'boolean';
+      case 'number_line':
+        return typeof userAnswer === 'number';
+      default:
+        return typeof userAnswer === 'string' && userAnswer.trim().length > 0;
+    }
   }, [lessonQuery.data?.problems, state.userAnswers]);
 
   const getProgress = useCallback((): number => {
@@ -199,22 +370,27 @@ export const LessonsDetailProvider: React.FC<LessonsDetailProviderProps> = ({ ch
   const actions = useMemo(() => ({
     setCurrentProblem,
     setUserAnswer,
+    setRevealedHints,
+    getRevealedHints,
     markProblemCompleted,
-    resetLesson,
-    checkAnswer,
+    setCheckedAnswer,
+    getCheckedAnswer,
+    setFeedbackMode,
+    isAnswered,
     getProgress,
     canProceedToNext,
-  }), [setCurrentProblem, setUserAnswer, markProblemCompleted, resetLesson, checkAnswer, getProgress, canProceedToNext]);
+  }), [setCurrentProblem, setUserAnswer, setRevealedHints, getRevealedHints, markProblemCompleted, setCheckedAnswer, getCheckedAnswer, setFeedbackMode, isAnswered, getProgress, canProceedToNext]);
 
   const contextValue = useMemo(() => ({
     state,
     lessonQuery: {
       data: lessonQuery.data,
-      isLoading: lessonQuery.isLoading,
-      error: lessonQuery.error,
+      isLoading: (!state.attemptId && !attemptQuery.error) || lessonQuery.isLoading,
+      error: attemptQuery.error ?? lessonQuery.error,
+      refetch: retryLesson,
     },
     actions,
-  }), [state, lessonQuery.data, lessonQuery.isLoading, lessonQuery.error, actions]);
+  }), [state, attemptQuery.error, lessonQuery.data, lessonQuery.isLoading, lessonQuery.error, retryLesson, actions]);
 
   return (
     <LessonsDetailContext.Provider value={contextValue}>
@@ -7,7 +7,6 @@ import { useTranslation } from '@/core/i18n';
 interface LessonDetailFragmentProps {
   children: ReactNode;
   lessonId: string;
-  userId?: number;
 }
 
 /**
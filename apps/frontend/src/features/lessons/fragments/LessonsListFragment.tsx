@@ -9,7 +9,6 @@ import { useLessons } from '../context/LessonsContext';
  */
 interface LessonsListFragmentProps {
   children: ReactNode;
-  userId?: number;
 }
 
 /**
@@ -46,10 +45,9 @@ const LessonsListContent: React.FC<{ children: ReactNode }> = ({ children }) =>
  */
 export const LessonsListFragment: React.FC<LessonsListFragmentProps> = ({
   children,
-  userId = 1,
 }) => {
   return (
-    <LessonsProvider userId={userId}>
+    <LessonsProvider>
       <LessonsListContent>
         {children}
       </LessonsListContent>
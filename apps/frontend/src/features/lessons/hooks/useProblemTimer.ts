@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Active time per problem, in milliseconds
+ */
+type ProblemTimes = Record<string, number>;
+
+/**
+ * Measures how long each problem is on screen while the tab is visible.
+ * The clock runs for `problemId` only; switching problems moves it along, and hiding
+ * the tab (switching tabs, minimising, locking the screen) pauses it until it is visible again.
+ * Pass `undefined` to stop timing, e.g. once the lesson is finished.
+ */
+export const useProblemTimer = (problemId: string | undefined) => {
+  const times = useRef<ProblemTimes>({});
+  const running = useRef<{ problemId: string; since: number } | null>(null);
+
+  // Credit the running problem with the time since it was last started
+  const pause = useCallback(() => {
+    if (running.current) {
+      const { problemId: id, since } = running.current;
+      times.current[id] = (times.current[id] ?? 0) + (performance.now() - since);
+      running.current = null;
+    }
+  }, []);
+
+  const resume = useCallback(() => {
+    if (problemId && !running.current && document.visibilityState === 'visible') {
+      running.current = { problemId, since: performance.now() };
+    }
+  }, [problemId]);
+
+  useEffect(() => {
+    resume();
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        resume();
+      } else {
+        pause();
+      }
+    };
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      pause();
+    };
+  }, [pause, resume]);
+
+  /**
+   * Whole seconds spent on a problem so far, including the running stretch
+   */
+  const secondsOn = useCallback((id: string): number => {
+    const runningMs = running.current?.problemId === id ? performance.now() - running.current.since : 0;
+    return Math.round(((times.current[id] ?? 0) + runningMs) / 1000);
+  }, []);
+
+  return { secondsOn };
+};
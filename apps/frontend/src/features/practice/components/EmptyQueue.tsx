@@ -0,0 +1,44 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Card } from '@/core/components';
+import { useTranslation, useLocalizedRoutes } from '@/core/i18n';
+
+/**
+ * Empty Queue Props
+ */
+interface EmptyQueueProps {
+  nextDueAt: string | null;
+}
+
+/**
+ * Empty Queue
+ * Shown when no problems are due for review
+ */
+const EmptyQueue: React.FC<EmptyQueueProps> = ({ nextDueAt }) => {
+  const { t, i18n } = useTranslation('practice');
+  const { routes } = useLocalizedRoutes();
+
+  return (
+    <Card className="text-center py-8">
+      <div className="text-4xl mb-3">✅</div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('empty.title')}</h3>
+      <p className="text-gray-600">{t('empty.message')}</p>
+      {nextDueAt && (
+        <p className="text-sm text-gray-500 mt-1">
+          {t('empty.nextDue', {
+            date: new Date(nextDueAt).toLocaleString(i18n.language, {
+              weekday: 'long',
+              hour: 'numeric',
+              minute: '2-digit',
+            }),
+          })}
+        </p>
+      )}
+      <Link to={routes.lessons} className="inline-block mt-4">
+        <Button variant="primary">{t('empty.action')}</Button>
+      </Link>
+    </Card>
+  );
+};
+
+export default EmptyQueue;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Card } from '@/core/components';
+import { useTranslation, useLocalizedRoutes } from '@/core/i18n';
+
+/**
+ * Practice Summary Props
+ */
+interface PracticeSummaryProps {
+  correct: number;
+  total: number;
+  xpEarned: number;
+  totalXp: number | null;
+  remaining: number;
+  onPracticeAgain: () => void;
+}
+
+/**
+ * Practice Summary
+ * Results of a finished practice session
+ */
+const PracticeSummary: React.FC<PracticeSummaryProps> = ({
+  correct,
+  total,
+  xpEarned,
+  totalXp,
+  remaining,
+  onPracticeAgain,
+}) => {
+  const { t } = useTranslation('practice');
+  const { routes } = useLocalizedRoutes();
+
+  return (
+    <Card className="text-center py-8">
+      <h2 className="text-2xl font-bold text-green-700 mb-2">🎉 {t('summary.title')}</h2>
+      <p className="text-gray-700 mb-4">{t('summary.correct', { correct, total })}</p>
+
+      <div className="bg-green-50 p-4 rounded-lg mb-4">
+        <div className="text-lg font-semibold text-green-800">{t('summary.xpEarned', { xp: xpEarned })}</div>
+        {totalXp !== null && (
+          <div className="text-sm text-green-600">{t('summary.totalXp', { xp: totalXp })}</div>
+        )}
+      </div>
+
+      {remaining > 0 && (
+        <p className="text-sm text-gray-600 mb-4">{t('summary.remaining', { count: remaining })}</p>
+      )}
+
+      <div className="flex justify-center gap-2">
+        {remaining > 0 && (
+          <Button variant="primary" onClick={onPracticeAgain}>
+            {t('summary.again')}
+          </Button>
+        )}
+        <Link to={routes.lessons}>
+          <Button variant={remaining > 0 ? 'secondary' : 'primary'}>{t('summary.back')}</Button>
+        </Link>
+      </div>
+    </Card>
+  );
+};
+
+export default PracticeSummary;
@@ -0,0 +1,6 @@
+/**
+ * Practice Components Exports
+ */
+
+export { default as EmptyQueue } from './EmptyQueue';
+export { default as PracticeSummary } from './PracticeSummary';
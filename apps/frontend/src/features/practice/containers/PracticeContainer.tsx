@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button, Card } from '@/core/components';
+import { useTranslation } from '@/core/i18n';
+import { reviewService } from '@/core/api/services-openapi';
+import { QUERY_KEYS } from '@/core/api';
+import type { AnswerPayload, ReviewItem, ReviewResult } from '@/core/api';
+import { ProblemItem } from '@/features/lessons/components';
+import { usePractice } from '../context/PracticeContext';
+import { EmptyQueue, PracticeSummary } from '../components';
+
+/**
+ * Practice Container Props
+ */
+interface PracticeContainerProps {
+  className?: string;
+}
+
+/**
+ * Practice Session Props
+ */
+interface PracticeSessionProps {
+  sessionId: string;
+  items: ReviewItem[];
+  dueCount: number;
+  onPracticeAgain: () => void;
+}
+
+/**
+ * Practice Session
+ * One pass through the due problems: answer, check right away, move on
+ */
+const PracticeSession: React.FC<PracticeSessionProps> = ({
+  sessionId,
+  items,
+  dueCount,
+  onPracticeAgain,
+}) => {
+  const { t } = useTranslation('practice');
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, AnswerPayload>>({});
+  const [results, setResults] = useState<Record<string, ReviewResult>>({});
+  const [finished, setFinished] = useState(false);
+  const queryClient = useQueryClient();
+
+  const submitReviewMutation = useMutation({
+    mutationFn: (problemId: string) =>
+      reviewService.submitReview({ sessionId, problemId, answer: answers[problemId] }),
+    onSuccess: (result, problemId) => {
+      setResults((previous) => ({ ...previous, [problemId]: result }));
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.RECOMMENDATIONS });
+    },
+  });
+
+  const reviewed = Object.values(results);
+
+  if (finished) {
+    return (
+      <PracticeSummary
+        correct={reviewed.filter((review) => review.result.isCorrect).length}
+        total={reviewed.length}
+        xpEarned={reviewed.reduce((sum, review) => sum + review.result.xpEarned, 0)}
+        totalXp={reviewed.length > 0 ? reviewed[reviewed.length - 1].totalXp : null}
+        remaining={Math.max(0, dueCount - items.length)}
+        onPracticeAgain={onPracticeAgain}
+      />
+    );
+  }
+
+  const item = items[currentIndex];
+  const problemId = item.problem.id;
+  const review = results[problemId];
+  const isAnswered = answers[problemId] !== undefined;
+  const isLast = currentIndex + 1 >= items.length;
+
+  return (
+    <Card>
+      <div className="flex justify-between text-sm text-gray-500 mb-4">
+        <span>{t('progress', { current: currentIndex + 1, total: items.length })}</span>
+        <span>{t('fromLesson', { lesson: item.lessonTitle })}</span>
+      </div>
+
+      <ProblemItem
+        problem={item.problem}
+        value={answers[problemId]}
+        onChange={(answer) => setAnswers((previous) => ({ ...previous, [problemId]: answer }))}
+        showResult={!!review}
+        isCorrect={review?.result.isCorrect}
+        correctAnswer={review?.result.correctAnswer}
+      />
+
+      {review && (
+        <div className="mt-4 space-y-1 text-sm">
+          {review.result.explanation && <p className="text-gray-700">{review.result.explanation}</p>}
+          <p className="text-gray-500">
+            {t('nextReview', { count: review.interval })}
+            {review.result.xpEarned > 0 && (
+              <span className="ml-2 font-semibold text-yellow-600">{t('xpEarned', { xp: review.result.xpEarned })}</span>
+            )}
+          </p>
+        </div>
+      )}
+
+      {submitReviewMutation.isError && (
+        <p className="mt-4 text-sm text-red-600">{t('error.failedToSubmit')}</p>
+      )}
+
+      <div className="mt-4 flex items-center gap-2">
+        {review ? (
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => (isLast ? setFinished(true) : setCurrentIndex(currentIndex + 1))}
+          >
+            {isLast ? t('finish') : t('next')}
+          </Button>
+        ) : (
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={!isAnswered || submitReviewMutation.isPending}
+            onClick={() => submitReviewMutation.mutate(problemId)}
+          >
+            {submitReviewMutation.isPending ? t('checking') : t('check')}
+          </Button>
+        )}
+        {!isAnswered && (
+          <span className="text-gray-500 text-sm">{t('answerToContinue')}</span>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+/**
+ * Practice Container
+ * Renders the practice session for the problems due for review
+ * Pure UI component that gets data from context
+ */
+export const PracticeContainer: React.FC<PracticeContainerProps> = ({
+  className = '',
+}) => {
+  const { sessionId, queue, actions } = usePractice();
+  const { t } = useTranslation('practice');
+
+  if (!queue) {
+    return null;
+  }
+
+  return (
+    <div className={`max-w-2xl mx-auto space-y-6 ${className}`}>
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-gray-900 mb-1">{t('title')}</h2>
+        <p className="text-gray-600">{t('subtitle')}</p>
+      </div>
+
+      {queue.items.length === 0 ? (
+        <EmptyQueue nextDueAt={queue.nextDueAt} />
+      ) : (
+        // A new session id starts over with fresh state
+        <PracticeSession
+          key={sessionId}
+          sessionId={sessionId}
+          items={queue.items}
+          dueCount={queue.dueCount}
+          onPracticeAgain={actions.startNewSession}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,5 @@
+/**
+ * Practice Containers Exports
+ */
+
+export { PracticeContainer } from './PracticeContainer';
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, ReactNode, useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { reviewService } from '@/core/api/services-openapi';
+import type { ReviewQueue } from '@/core/api/services-openapi';
+
+// Problems served in one practice session
+const PRACTICE_SESSION_SIZE = 10;
+
+const generateSessionId = () => `practice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Practice Context Types
+ */
+interface PracticeContextType {
+  sessionId: string;
+  reviewQuery: {
+    data: ReviewQueue | undefined;
+    isLoading: boolean;
+    error: Error | null;
+    refetch: () => void;
+  };
+  actions: {
+    startNewSession: () => void;
+  };
+}
+
+/**
+ * Practice Context
+ */
+const PracticeContext = createContext<PracticeContextType | undefined>(undefined);
+
+/**
+ * Practice Context Provider Props
+ */
+interface PracticeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Practice Context Provider
+ * Loads the problems due for review for one practice session
+ */
+export const PracticeProvider: React.FC<PracticeProviderProps> = ({ children }) => {
+  // Templated problems are instantiated per session, so the session id is part of the query
+  const [sessionId, setSessionId] = useState(generateSessionId);
+
+  const reviewQuery = useQuery({
+    queryKey: ['reviews', 'due', sessionId],
+    queryFn: () => reviewService.getDue(sessionId, PRACTICE_SESSION_SIZE),
+    staleTime: Infinity, // Keep the session's problems fixed while it is in progress
+    refetchOnWindowFocus: false,
+  });
+
+  const startNewSession = useCallback(() => {
+    setSessionId(generateSessionId());
+  }, []);
+
+  const contextValue = useMemo(() => ({
+    sessionId,
+    reviewQuery: {
+      data: reviewQuery.data,
+      isLoading: reviewQuery.isLoading,
+      error: reviewQuery.error,
+      refetch: reviewQuery.refetch,
+    },
+    actions: {
+      startNewSession,
+    },
+  }), [
+    sessionId,
+    reviewQuery.data,
+    reviewQuery.isLoading,
+    reviewQuery.error,
+    reviewQuery.refetch,
+    startNewSession,
+  ]);
+
+  return (
+    <PracticeContext.Provider value={contextValue}>
+      {children}
+    </PracticeContext.Provider>
+  );
+};
+
+/**
+ * Hook to use Practice Context
+ */
+export const usePractice = () => {
+  const context = useContext(PracticeContext);
+  if (context === undefined) {
+    throw new Error('usePractice must be used within a PracticeProvider');
+  }
+
+  return {
+    sessionId: context.sessionId,
+    queue: context.reviewQuery.data || null,
+    isLoading: context.reviewQuery.isLoading,
+    error: context.reviewQuery.error,
+    refetch: context.reviewQuery.refetch,
+    actions: context.actions,
+  };
+};
@@ -0,0 +1,5 @@
+/**
+ * Practice Context Exports
+ */
+
+export { PracticeProvider, usePractice } from './PracticeContext';
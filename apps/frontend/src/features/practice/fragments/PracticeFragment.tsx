@@ -0,0 +1,50 @@
+import React, { ReactNode } from 'react';
+import { PracticeProvider, usePractice } from '../context/PracticeContext';
+import { ErrorScreen, LoadingScreen } from '@/core/components';
+import { useTranslation } from '@/core/i18n';
+
+/**
+ * Practice Fragment Props
+ */
+interface PracticeFragmentProps {
+  children: ReactNode;
+}
+
+/**
+ * Practice Fragment Inner Component
+ * Handles loading and error states based on context data
+ */
+const PracticeFragmentInner: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useTranslation('practice');
+  const { isLoading, error, refetch } = usePractice();
+
+  if (isLoading) {
+    return <LoadingScreen message={t('loading')} />;
+  }
+
+  if (error) {
+    return (
+      <ErrorScreen
+        error={error as Error}
+        title={t('error.failedToLoad')}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * Practice Fragment
+ * Provides PracticeProvider wrapper and handles UI states
+ */
+export const PracticeFragment: React.FC<PracticeFragmentProps> = ({ children }) => {
+  return (
+    <PracticeProvider>
+      <PracticeFragmentInner>
+        {children}
+      </PracticeFragmentInner>
+    </PracticeProvider>
+  );
+};
@@ -0,0 +1,5 @@
+/**
+ * Practice Fragments Exports
+ */
+
+export { PracticeFragment } from './PracticeFragment';
@@ -0,0 +1,7 @@
+// Context-based exports
+export * from './context';
+export * from './fragments';
+export * from './containers';
+
+// Component exports
+export * from './components';
@@ -0,0 +1,22 @@
+import React from 'react';
+import { PracticeFragment } from '../fragments/PracticeFragment';
+import { PracticeContainer } from '../containers/PracticeContainer';
+
+/**
+ * Practice Page
+ * Spaced-repetition practice session for problems due for review
+ */
+const PracticePage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Main Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <PracticeFragment>
+          <PracticeContainer />
+        </PracticeFragment>
+      </div>
+    </div>
+  );
+};
+
+export default PracticePage;
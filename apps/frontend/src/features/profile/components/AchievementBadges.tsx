@@ -13,57 +13,17 @@ interface AchievementBadgesProps {
 
 /**
  * Achievement Badges Component
- * Shows earned achievements based on user stats
+ * Shows the achievements unlocked on the server, and the ones still locked
  */
 export const AchievementBadges: React.FC<AchievementBadgesProps> = ({ 
   stats, 
   className = '' 
 }) => {
   const { t } = useTranslation('profile');
-  const achievements = [
-    {
-      id: 'first_lesson',
-      title: 'First Steps',
-      description: 'Complete your first lesson',
-      icon: '🎯',
-      earned: stats.totalLessonsCompleted >= 1,
-    },
-    {
-      id: 'streak_3',
-      title: 'Getting Started',
-      description: 'Maintain a 3-day streak',
-      icon: '🔥',
-      earned: stats.streak.longest >= 3,
-    },
-    {
-      id: 'streak_7',
-      title: 'Week Warrior',
-      description: 'Maintain a 7-day streak',
-      icon: '⭐',
-      earned: stats.streak.longest >= 7,
-    },
-    {
-      id: 'xp_1000',
-      title: 'Knowledge Seeker',
-      description: 'Earn 1,000 XP',
-      icon: '⚡',
-      earned: stats.totalXp >= 1000,
-    },
-    {
-      id: 'perfect_score',
-      title: 'Perfectionist',
-      description: 'Maintain 90%+ average score',
-      icon: '💯',
-      earned: stats.averageScore >= 90,
-    },
-    {
-      id: 'all_lessons',
-      title: 'Master Student',
-      description: 'Complete all available lessons',
-      icon: '👑',
-      earned: stats.totalLessonsCompleted >= 10, // Assume master at 10 lessons
-    },
-  ];
+  const achievements = stats.achievements.map((achievement) => ({
+    ...achievement,
+    earned: achievement.unlockedAt !== null,
+  }));
 
   const earnedAchievements = achievements.filter(a => a.earned);
   const unearnedAchievements = achievements.filter(a => !a.earned);
@@ -117,7 +77,7 @@ export const AchievementBadges: React.FC<AchievementBadgesProps> = ({
       )}
 
       {/* No achievements yet */}
-      {achievements.every(a => !a.earned) && (
+      {earnedAchievements.length === 0 && (
         <div className="text-center py-8">
           <div className="text-4xl mb-3">🏆</div>
           <p className="text-gray-600">Complete lessons to start earning achievements!</p>
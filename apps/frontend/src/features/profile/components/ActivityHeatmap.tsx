@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from '@/core/i18n';
+import type { UserStats } from '@/core/api';
+
+type DailyProgress = UserStats['dailyProgress'][number];
+
+/**
+ * Activity Heatmap Props
+ */
+interface ActivityHeatmapProps {
+  days: DailyProgress[];
+  className?: string;
+}
+
+// Cell colours from no activity to the busiest days
+const LEVEL_STYLES = ['bg-gray-100', 'bg-green-200', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+
+/**
+ * Intensity level of a day relative to the busiest day in the range
+ */
+const levelOf = (xp: number, maxXp: number): number =>
+  xp <= 0 || maxXp <= 0 ? 0 : Math.min(LEVEL_STYLES.length - 1, Math.ceil((xp / maxXp) * (LEVEL_STYLES.length - 1)));
+
+/**
+ * Activity Heatmap Component
+ * One cell per day, a column per week starting on Monday, shaded by XP earned
+ */
+export const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({
+  days,
+  className = '',
+}) => {
+  const { t, i18n } = useTranslation('profile');
+
+  const { weeks, maxXp } = useMemo(() => {
+    if (days.length === 0) {
+      return { weeks: [] as (DailyProgress | null)[][], maxXp: 0 };
+    }
+
+    // Pad the first week so every column starts on Monday
+    const weekday = new Date(`${days[0].date}T00:00:00Z`).getUTCDay();
+    const cells: (DailyProgress | null)[] = [...Array((weekday + 6) % 7).fill(null), ...days];
+
+    const columns: (DailyProgress | null)[][] = [];
+    for (let start = 0; start < cells.length; start += 7) {
+      columns.push(cells.slice(start, start + 7));
+    }
+    return { weeks: columns, maxXp: Math.max(...days.map(day => day.xpEarned)) };
+  }, [days]);
+
+  // Dates are already local to the learner, so format them as UTC to keep the day
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(i18n.language, {
+      timeZone: 'UTC',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+
+  return (
+    <div className={className}>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-600">{t('stats.activity.title', { count: days.length })}</h3>
+        <div className="flex items-center space-x-1 text-xs text-gray-500">
+          <span>{t('stats.activity.less')}</span>
+          {LEVEL_STYLES.map(style => (
+            <span key={style} className={`w-3 h-3 rounded-sm ${style}`} />
+          ))}
+          <span>{t('stats.activity.more')}</span>
+        </div>
+      </div>
+
+      <div className="flex space-x-1 overflow-x-auto pb-1">
+        {weeks.map((week, weekIndex) => (
+          <div key={weekIndex} className="flex flex-col space-y-1">
+            {week.map((day, dayIndex) =>
+              day ? (
+                <div
+                  key={day.date}
+                  className={`w-3 h-3 sm:w-4 sm:h-4 rounded-sm ${LEVEL_STYLES[levelOf(day.xpEarned, maxXp)]}`}
+                  title={t('stats.activity.tooltip', {
+                    date: formatDate(day.date),
+                    xp: day.xpEarned,
+                    lessons: day.lessonsCompleted,
+                    minutes: day.timeSpent,
+                  })}
+                />
+              ) : (
+                <div key={`empty-${dayIndex}`} className="w-3 h-3 sm:w-4 sm:h-4" />
+              )
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -11,7 +11,6 @@ import { useRecommendationsDirect } from '../../recommendations/hooks/useRecomme
 export const QuickRecommendationsWidget: React.FC = () => {
   const { routes } = useLocalizedRoutes();
   const { data: learningPath, isLoading } = useRecommendationsDirect({ 
-    userId: 1, 
     limit: 2 
   });
 
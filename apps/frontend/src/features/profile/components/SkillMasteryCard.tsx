@@ -0,0 +1,77 @@
+import React from 'react';
+import { useTranslation } from '@/core/i18n';
+import type { SkillMastery } from '@/core/api';
+import { Card } from '@/core/components';
+
+/**
+ * Skill Mastery Card Props
+ */
+interface SkillMasteryCardProps {
+  skills: SkillMastery[];
+  isLoading?: boolean;
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<SkillMastery['level'], { bar: string; badge: string }> = {
+  novice: { bar: 'bg-gray-400', badge: 'bg-gray-100 text-gray-700' },
+  developing: { bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-700' },
+  mastered: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-700' },
+};
+
+/**
+ * Skill Mastery Card Component
+ * Shows the estimated probability that the learner knows each skill
+ */
+export const SkillMasteryCard: React.FC<SkillMasteryCardProps> = ({
+  skills,
+  isLoading = false,
+  className = '',
+}) => {
+  const { t } = useTranslation('profile');
+
+  return (
+    <Card className={className}>
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">{t('mastery.title')}</h2>
+      <p className="text-sm text-gray-600 mb-6">{t('mastery.subtitle')}</p>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-10 bg-gray-100 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : skills.length === 0 ? (
+        <p className="text-center text-gray-500 py-4">{t('mastery.empty')}</p>
+      ) : (
+        <ul className="space-y-4">
+          {skills.map((skill) => {
+            const percent = Math.round(skill.probability * 100);
+            const style = LEVEL_STYLES[skill.level];
+
+            return (
+              <li key={skill.skillId}>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{skill.name}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${style.badge}`}>
+                      {t(`mastery.levels.${skill.level}`)}
+                    </span>
+                  </div>
+                  <span className="text-sm text-gray-600">
+                    {percent}% · {t('mastery.attempts', { count: skill.attempts })}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full">
+                  <div
+                    className={`h-2 rounded-full ${style.bar}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
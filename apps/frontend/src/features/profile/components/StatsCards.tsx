@@ -2,6 +2,8 @@ import React from 'react';
 import type { UserStats } from '@/core/api';
 import { Card } from '@/core/components';
 import { apiUtils } from '@/core/api';
+import { useTranslation } from '@/core/i18n';
+import { ActivityHeatmap } from './ActivityHeatmap';
 
 /**
  * Stats Cards Props
@@ -13,68 +15,108 @@ interface StatsCardsProps {
 
 /**
  * Stats Cards Component
- * Displays detailed statistics in a grid layout
+ * Displays detailed statistics in a grid layout, followed by the daily activity heatmap
  */
 export const StatsCards: React.FC<StatsCardsProps> = ({ 
   stats, 
   className = '' 
 }) => {
+  const { t } = useTranslation('profile');
+
+  const formatMinutes = (minutes: number) =>
+    minutes >= 60
+      ? t('stats.hours', { count: Math.round((minutes / 60) * 10) / 10 })
+      : t('stats.minutes', { count: minutes });
+
   const statItems = [
     {
-      title: 'Total XP',
+      title: t('stats.totalXp'),
       value: apiUtils.formatXP(stats.totalXp),
       icon: '⚡',
       color: 'text-yellow-600',
       bgColor: 'bg-yellow-50',
     },
     {
-      title: 'Current Streak',
+      title: t('stats.currentStreak'),
       value: apiUtils.formatStreak(stats.streak.current),
       icon: '🔥',
       color: 'text-orange-600',
       bgColor: 'bg-orange-50',
     },
     {
-      title: 'Best Streak',
+      title: t('stats.bestStreak'),
       value: apiUtils.formatStreak(stats.streak.longest),
       icon: '🏆',
       color: 'text-purple-600',
       bgColor: 'bg-purple-50',
     },
     {
-      title: 'Lessons Completed',
+      title: t('stats.lessonsCompleted'),
       value: `${stats.totalLessonsCompleted}`,
       icon: '📚',
       color: 'text-green-600',
       bgColor: 'bg-green-50',
     },
     {
-      title: 'Average Score',
+      title: t('stats.averageScore'),
       value: `${Math.round(stats.averageScore)}%`,
       icon: '📊',
       color: 'text-blue-600',
       bgColor: 'bg-blue-50',
     },
     {
-      title: 'Problems Solved',
+      title: t('stats.problemsSolved'),
       value: stats.totalProblemsCompleted.toString(),
       icon: '✅',
       color: 'text-indigo-600',
       bgColor: 'bg-indigo-50',
     },
+    {
+      title: t('stats.xpThisWeek'),
+      value: apiUtils.formatXP(stats.xpThisWeek),
+      icon: '📅',
+      color: 'text-teal-600',
+      bgColor: 'bg-teal-50',
+    },
+    {
+      title: t('stats.xpThisMonth'),
+      value: apiUtils.formatXP(stats.xpThisMonth),
+      icon: '🗓️',
+      color: 'text-cyan-600',
+      bgColor: 'bg-cyan-50',
+    },
+    {
+      title: t('stats.timeSpent'),
+      value: formatMinutes(stats.timeSpent.totalMinutes),
+      icon: '⏱️',
+      color: 'text-rose-600',
+      bgColor: 'bg-rose-50',
+    },
   ];
 
   return (
-    <div className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 ${className}`}>
-      {statItems.map((item, index) => (
-        <Card key={index} className="text-center">
-          <div className={`w-12 h-12 ${item.bgColor} rounded-full flex items-center justify-center mx-auto mb-3`}>
-            <span className="text-2xl">{item.icon}</span>
-          </div>
-          <h3 className="text-sm font-medium text-gray-600 mb-1">{item.title}</h3>
-          <p className={`text-2xl font-bold ${item.color}`}>{item.value}</p>
-        </Card>
-      ))}
+    <div className={`space-y-6 ${className}`}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {statItems.map((item, index) => (
+          <Card key={index} className="text-center">
+            <div className={`w-12 h-12 ${item.bgColor} rounded-full flex items-center justify-center mx-auto mb-3`}>
+              <span className="text-2xl">{item.icon}</span>
+            </div>
+            <h3 className="text-sm font-medium text-gray-600 mb-1">{item.title}</h3>
+            <p className={`text-2xl font-bold ${item.color}`}>{item.value}</p>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <ActivityHeatmap days={stats.dailyProgress} />
+        <p className="text-xs text-gray-500 mt-3">
+          {t('stats.activity.thisWeek', {
+            time: formatMinutes(stats.timeSpent.thisWeekMinutes),
+            average: stats.timeSpent.averagePerSession,
+          })}
+        </p>
+      </Card>
     </div>
   );
 };
@@ -5,4 +5,6 @@
 
 export { ProfileHeader } from './ProfileHeader';
 export { StatsCards } from './StatsCards';
+export { ActivityHeatmap } from './ActivityHeatmap';
 export { AchievementBadges } from './AchievementBadges';
+export { SkillMasteryCard } from './SkillMasteryCard';
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { useUserProfile, useUserStats } from '../context/ProfileContext';
-import { ProfileHeader, StatsCards, AchievementBadges } from '../components';
+import { useSkillMastery, useUserProfile, useUserStats } from '../context/ProfileContext';
+import { ProfileHeader, StatsCards, AchievementBadges, SkillMasteryCard } from '../components';
 import { QuickRecommendationsWidget } from '../components/QuickRecommendationsWidget';
 import { ErrorMessage, Button, LoadingCard } from '@/core/components';
 import { useTranslation } from '@/core/i18n';
@@ -23,6 +23,7 @@ export const ProfileContainer: React.FC<ProfileContainerProps> = ({
 }) => {
   const { profile, isLoading: profileLoading, error: profileError, refetch: refetchProfile } = useUserProfile();
   const { stats, isLoading: statsLoading, error: statsError, refetch: refetchStats } = useUserStats();
+  const { skills, isLoading: masteryLoading } = useSkillMastery();
   const { t } = useTranslation('profile');
 
   // Handle loading state
@@ -97,6 +98,9 @@ export const ProfileContainer: React.FC<ProfileContainerProps> = ({
         <StatsCards stats={stats} />
       </div>
 
+      {/* Skill Mastery */}
+      <SkillMasteryCard skills={skills} isLoading={masteryLoading} />
+
       {/* Achievements */}
       <AchievementBadges stats={stats} />
 
@@ -4,8 +4,12 @@ import { profileService, QUERY_KEYS } from '@/core/api';
 import type { 
   UserProfile, 
   UserStats,
+  SkillMastery,
 } from '@/core/api';
 
+// Days of daily progress shown in the activity heatmap (12 weeks)
+export const PROGRESS_DAYS = 84;
+
 /**
  * Profile Context Types
  */
@@ -22,6 +26,11 @@ interface ProfileContextType {
     error: Error | null;
     refetch: () => void;
   };
+  masteryQuery: {
+    data: SkillMastery[] | undefined;
+    isLoading: boolean;
+    error: Error | null;
+  };
   actions: {
     // Add any profile specific actions here in the future
   };
@@ -37,7 +46,6 @@ const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
  */
 interface ProfileProviderProps {
   children: ReactNode;
-  userId?: number;
 }
 
 /**
@@ -46,21 +54,28 @@ interface ProfileProviderProps {
  * Follows the same pattern as LessonsContext and LessonsDetailContext
  */
 export const ProfileProvider: React.FC<ProfileProviderProps> = ({ 
-  children, 
-  userId = 1 
+  children 
 }) => {
   // React Query for profile data
   const profileQuery = useQuery({
-    queryKey: [...QUERY_KEYS.PROFILE, userId],
-    queryFn: () => profileService.getUserProfile(userId),
+    queryKey: QUERY_KEYS.PROFILE,
+    queryFn: () => profileService.getUserProfile(),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
 
   // React Query for stats data
   const statsQuery = useQuery({
-    queryKey: [...QUERY_KEYS.PROFILE_STATS, userId],
-    queryFn: () => profileService.getUserStats(userId),
+    queryKey: QUERY_KEYS.PROFILE_STATS,
+    queryFn: () => profileService.getUserStats(PROGRESS_DAYS),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // React Query for skill mastery
+  const masteryQuery = useQuery({
+    queryKey: QUERY_KEYS.PROFILE_MASTERY,
+    queryFn: () => profileService.getSkillMastery(),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
   });
@@ -82,10 +97,16 @@ export const ProfileProvider: React.FC<ProfileProviderProps> = ({
       error: statsQuery.error,
       refetch: statsQuery.refetch,
     },
+    masteryQuery: {
+      data: masteryQuery.data,
+      isLoading: masteryQuery.isLoading,
+      error: masteryQuery.error,
+    },
     actions,
   }), [
     profileQuery.data, profileQuery.isLoading, profileQuery.error, profileQuery.refetch,
     statsQuery.data, statsQuery.isLoading, statsQuery.error, statsQuery.refetch,
+    masteryQuery.data, masteryQuery.isLoading, masteryQuery.error,
     actions
   ]);
 
@@ -136,3 +157,17 @@ export const useUserStats = () => {
     refetch: statsQuery.refetch,
   };
 };
+
+/**
+ * Hook for skill mastery
+ * Provides convenient access to the learner's mastery of each skill
+ */
+export const useSkillMastery = () => {
+  const { masteryQuery } = useProfile();
+  
+  return {
+    skills: masteryQuery.data || [],
+    isLoading: masteryQuery.isLoading,
+    error: masteryQuery.error,
+  };
+};
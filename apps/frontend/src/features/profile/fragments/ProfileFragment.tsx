@@ -8,7 +8,6 @@ import { useTranslation } from '@/core/i18n';
  */
 interface ProfileFragmentProps {
   children: ReactNode;
-  userId?: number;
 }
 
 /**
@@ -50,10 +49,9 @@ const ProfileFragmentInner: React.FC<{ children: ReactNode }> = ({ children }) =
  */
 export const ProfileFragment: React.FC<ProfileFragmentProps> = ({
   children,
-  userId = 1,
 }) => {
   return (
-    <ProfileProvider userId={userId}>
+    <ProfileProvider>
       <ProfileFragmentInner>
         {children}
       </ProfileFragmentInner>
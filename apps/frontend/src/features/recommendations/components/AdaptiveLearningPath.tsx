@@ -7,16 +7,13 @@ import { LoadingCard } from '@/core/components/Loading';
 import { ErrorMessage } from '@/core/components/Error';
 
 interface AdaptiveLearningPathProps {
-  userId?: number;
   limit?: number;
 }
 
 const AdaptiveLearningPath: React.FC<AdaptiveLearningPathProps> = ({ 
-  userId = 1, 
   limit = 5 
 }) => {
   const { data: learningPath, isLoading, error } = useRecommendations({ 
-    userId, 
     limit 
   });
 
@@ -2,6 +2,8 @@ import React, { createContext, useContext, ReactNode, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { recommendationService } from '@/core/api/services-openapi';
 import type { AdaptiveLearningPath } from '@/core/api/services-openapi';
+import { QUERY_KEYS } from '@/core/api';
+import { recommendationsStaleTime } from '../hooks/useRecommendations';
 
 /**
  * Recommendations Context Types
@@ -28,7 +30,6 @@ const RecommendationsContext = createContext<RecommendationsContextType | undefi
  */
 interface RecommendationsProviderProps {
   children: ReactNode;
-  userId?: number;
   limit?: number;
 }
 
@@ -39,14 +40,13 @@ interface RecommendationsProviderProps {
  */
 export const RecommendationsProvider: React.FC<RecommendationsProviderProps> = ({ 
   children, 
-  userId = 1,
   limit = 5
 }) => {
   // React Query for recommendations data
   const recommendationsQuery = useQuery({
-    queryKey: ['recommendations', userId, limit],
-    queryFn: () => recommendationService.getRecommendations(userId, limit),
-    staleTime: 5 * 60 * 1000, // 5 minutes
+    queryKey: QUERY_KEYS.RECOMMENDATIONS_LIST(limit),
+    queryFn: () => recommendationService.getRecommendations(limit),
+    staleTime: recommendationsStaleTime,
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnWindowFocus: false,
   });
@@ -8,7 +8,6 @@ import { useTranslation } from '@/core/i18n';
  */
 interface RecommendationsFragmentProps {
   children: ReactNode;
-  userId?: number;
   limit?: number;
 }
 
@@ -46,11 +45,10 @@ const RecommendationsFragmentInner: React.FC<{ children: ReactNode }> = ({ child
  */
 export const RecommendationsFragment: React.FC<RecommendationsFragmentProps> = ({
   children,
-  userId = 1,
   limit = 5,
 }) => {
   return (
-    <RecommendationsProvider userId={userId} limit={limit}>
+    <RecommendationsProvider limit={limit}>
       <RecommendationsFragmentInner>
         {children}
       </RecommendationsFragmentInner>
@@ -1,9 +1,29 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, type Query } from '@tanstack/react-query';
 import { recommendationService } from '@/core/api/services-openapi';
 import type { AdaptiveLearningPath } from '@/core/api/services-openapi';
+import { QUERY_KEYS } from '@/core/api';
+
+// How long the server keeps a learning path cached (matches its default TTL)
+const SERVER_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// Shortest time a fetched learning path is treated as fresh
+const MIN_STALE_TIME_MS = 60 * 1000;
+
+/**
+ * Stale time based on when the learning path was generated, not when it was fetched:
+ * refetching before the server's cached copy expires would just return the same path.
+ * Lesson and review submissions invalidate the query instead.
+ */
+export const recommendationsStaleTime = (query: Query<AdaptiveLearningPath, Error>): number => {
+  const generatedAt = query.state.data?.generatedAt;
+  if (!generatedAt) {
+    return 0;
+  }
+  const age = Date.now() - new Date(generatedAt).getTime();
+  return Math.max(MIN_STALE_TIME_MS, SERVER_CACHE_TTL_MS - age);
+};
 
 interface UseRecommendationsDirectOptions {
-  userId?: number;
   limit?: number;
   enabled?: boolean;
 }
@@ -13,13 +33,13 @@ interface UseRecommendationsDirectOptions {
  * @deprecated Use RecommendationsContext with useAdaptiveLearningPath instead
  */
 export const useRecommendationsDirect = (options: UseRecommendationsDirectOptions = {}) => {
-  const { userId = 1, limit, enabled = true } = options;
+  const { limit, enabled = true } = options;
 
   return useQuery<AdaptiveLearningPath, Error>({
-    queryKey: ['recommendations', userId, limit],
-    queryFn: () => recommendationService.getRecommendations(userId, limit),
+    queryKey: QUERY_KEYS.RECOMMENDATIONS_LIST(limit),
+    queryFn: () => recommendationService.getRecommendations(limit),
     enabled,
-    staleTime: 5 * 60 * 1000, // 5 minutes
+    staleTime: recommendationsStaleTime,
     gcTime: 10 * 60 * 1000, // 10 minutes
     refetchOnWindowFocus: false,
   });
@@ -11,7 +11,7 @@ const RecommendationsPage: React.FC = () => {
     <div className="min-h-screen bg-gray-50">
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <RecommendationsFragment userId={1} limit={6}>
+        <RecommendationsFragment limit={6}>
           <RecommendationsContainer />
         </RecommendationsFragment>
       </div>
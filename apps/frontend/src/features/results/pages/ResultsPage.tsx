@@ -118,6 +118,27 @@ const ResultsPage: React.FC = () => {
           </Card>
         )}
 
+        {/* Newly Unlocked Achievements */}
+        {submissionResult.newAchievements.length > 0 && (
+          <Card className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('progress.newAchievements')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {submissionResult.newAchievements.map((achievement) => (
+                <div
+                  key={achievement.id}
+                  className="flex items-center space-x-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg"
+                >
+                  <span className="text-2xl">{achievement.icon}</span>
+                  <div>
+                    <h4 className="font-medium text-yellow-900">{achievement.title}</h4>
+                    <p className="text-sm text-yellow-700">{achievement.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Problem Results */}
         <Card className="mb-8">
           <h3 className="text-lg font-semibold text-gray-900 mb-6">{t('progress.problemResults')}</h3>